@@ -0,0 +1,32 @@
+-- Migration: 2026-10-19_0045_conversation_delta_sync.sql
+-- Description: Support incremental pulls of conversation threads and messages.
+-- Hard deletes are logged to deleted_records so clients can remove them locally,
+-- and messages get an index for "changed since" queries per user.
+
+-- 1. Log thread and message deletions (soft-deleted threads are returned via is_active)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'log_conversation_thread_deletion'
+  ) THEN
+    CREATE TRIGGER log_conversation_thread_deletion
+    BEFORE DELETE ON public.conversation_threads
+    FOR EACH ROW
+    EXECUTE FUNCTION log_record_deletion();
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'log_conversation_message_deletion'
+  ) THEN
+    CREATE TRIGGER log_conversation_message_deletion
+    BEFORE DELETE ON public.conversation_messages
+    FOR EACH ROW
+    EXECUTE FUNCTION log_record_deletion();
+  END IF;
+END $$;
+
+-- 2. Index for message delta queries
+CREATE INDEX IF NOT EXISTS idx_conversation_messages_user_updated
+ON public.conversation_messages(user_id, updated_at);
+
+COMMENT ON INDEX idx_conversation_messages_user_updated IS 'Optimizes incremental sync of conversation messages';
@@ -0,0 +1,42 @@
+-- Table: saved_filters
+-- Named filters ("smart lists") built in the mobile app. filter_options holds the app's
+-- FilterOptions, keeping only the options that differ from the defaults.
+CREATE TABLE IF NOT EXISTS public.saved_filters (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  filter_options jsonb NOT NULL DEFAULT '{}'::jsonb,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+
+  CONSTRAINT saved_filters_pkey PRIMARY KEY (id),
+  CONSTRAINT saved_filters_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE,
+  CONSTRAINT saved_filters_name_length CHECK (char_length(name) BETWEEN 1 AND 100),
+  CONSTRAINT saved_filters_options_object CHECK (jsonb_typeof(filter_options) = 'object')
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_filters_user_position ON public.saved_filters(user_id, position);
+
+-- Enable RLS
+ALTER TABLE public.saved_filters ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can view own saved filters" ON public.saved_filters
+    FOR SELECT USING (auth.uid() = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can create own saved filters" ON public.saved_filters
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can update own saved filters" ON public.saved_filters
+    FOR UPDATE USING (auth.uid() = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can delete own saved filters" ON public.saved_filters
+    FOR DELETE USING (auth.uid() = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
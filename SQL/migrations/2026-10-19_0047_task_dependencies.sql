@@ -0,0 +1,43 @@
+-- Table: task_dependencies
+-- A row means task_id is blocked until depends_on_task_id is completed. Cycles are rejected by
+-- the API (see backend/src/utils/taskDependencyGraph.js); links go away with either task.
+CREATE TABLE IF NOT EXISTS public.task_dependencies (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  task_id uuid NOT NULL,
+  depends_on_task_id uuid NOT NULL,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+
+  CONSTRAINT task_dependencies_pkey PRIMARY KEY (id),
+  CONSTRAINT task_dependencies_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE,
+  CONSTRAINT task_dependencies_task_id_fkey FOREIGN KEY (task_id) REFERENCES public.tasks(id) ON DELETE CASCADE,
+  CONSTRAINT task_dependencies_depends_on_task_id_fkey FOREIGN KEY (depends_on_task_id) REFERENCES public.tasks(id) ON DELETE CASCADE,
+  CONSTRAINT task_dependencies_unique_link UNIQUE (task_id, depends_on_task_id),
+  CONSTRAINT task_dependencies_not_self CHECK (task_id <> depends_on_task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_user ON public.task_dependencies(user_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_depends_on ON public.task_dependencies(depends_on_task_id);
+
+-- Enable RLS
+ALTER TABLE public.task_dependencies ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can view own task dependencies" ON public.task_dependencies
+    FOR SELECT USING (auth.uid() = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can create own task dependencies" ON public.task_dependencies
+    FOR INSERT WITH CHECK (
+      auth.uid() = user_id AND
+      EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_id AND tasks.user_id = auth.uid()) AND
+      EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = depends_on_task_id AND tasks.user_id = auth.uid())
+    );
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can delete own task dependencies" ON public.task_dependencies
+    FOR DELETE USING (auth.uid() = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
@@ -0,0 +1,46 @@
+-- Table: task_checklist_items
+-- Ordered checklist steps inside a task (e.g. the parts of "prepare tax return").
+-- Items go away with their task.
+CREATE TABLE IF NOT EXISTS public.task_checklist_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  task_id uuid NOT NULL,
+  text text NOT NULL CHECK (char_length(text) > 0 AND char_length(text) <= 500),
+  is_completed boolean NOT NULL DEFAULT false,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+
+  CONSTRAINT task_checklist_items_pkey PRIMARY KEY (id),
+  CONSTRAINT task_checklist_items_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE,
+  CONSTRAINT task_checklist_items_task_id_fkey FOREIGN KEY (task_id) REFERENCES public.tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_checklist_items_user ON public.task_checklist_items(user_id);
+CREATE INDEX IF NOT EXISTS idx_task_checklist_items_task_position ON public.task_checklist_items(task_id, position);
+
+-- Enable RLS
+ALTER TABLE public.task_checklist_items ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can view own checklist items" ON public.task_checklist_items
+    FOR SELECT USING (auth.uid() = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can create own checklist items" ON public.task_checklist_items
+    FOR INSERT WITH CHECK (
+      auth.uid() = user_id AND
+      EXISTS (SELECT 1 FROM public.tasks WHERE tasks.id = task_id AND tasks.user_id = auth.uid())
+    );
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can update own checklist items" ON public.task_checklist_items
+    FOR UPDATE USING (auth.uid() = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can delete own checklist items" ON public.task_checklist_items
+    FOR DELETE USING (auth.uid() = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
@@ -0,0 +1,45 @@
+-- Table: daily_reflections
+-- One end-of-day review per user and day: how the day felt (mood, energy on a 1-5 scale),
+-- an optional note, and what happened to the tasks that were still open.
+CREATE TABLE IF NOT EXISTS public.daily_reflections (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  reflection_date date NOT NULL,
+  mood smallint NOT NULL CHECK (mood BETWEEN 1 AND 5),
+  energy smallint NOT NULL CHECK (energy BETWEEN 1 AND 5),
+  note text CHECK (note IS NULL OR char_length(note) <= 1000),
+  completed_count integer NOT NULL DEFAULT 0 CHECK (completed_count >= 0),
+  rolled_over_count integer NOT NULL DEFAULT 0 CHECK (rolled_over_count >= 0),
+  dropped_count integer NOT NULL DEFAULT 0 CHECK (dropped_count >= 0),
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+
+  CONSTRAINT daily_reflections_pkey PRIMARY KEY (id),
+  CONSTRAINT daily_reflections_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE,
+  CONSTRAINT daily_reflections_user_date_key UNIQUE (user_id, reflection_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_daily_reflections_date ON public.daily_reflections(reflection_date);
+
+-- Enable RLS
+ALTER TABLE public.daily_reflections ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can view own reflections" ON public.daily_reflections
+    FOR SELECT USING (auth.uid() = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can create own reflections" ON public.daily_reflections
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can update own reflections" ON public.daily_reflections
+    FOR UPDATE USING (auth.uid() = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can delete own reflections" ON public.daily_reflections
+    FOR DELETE USING (auth.uid() = user_id);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
@@ -0,0 +1,10 @@
+-- Migration: 2026-10-19_0050_calendar_event_time_zone.sql
+-- Description: Store the IANA time zone an event was planned in (e.g. 'America/New_York').
+-- start_time/end_time stay absolute instants; the zone lets clients show the event's own clock
+-- and keep all-day events on their dates when the viewer is in another zone.
+-- Filled from Google's start.timeZone on import and from the client's timeZone on create/update.
+
+ALTER TABLE public.calendar_events
+ADD COLUMN IF NOT EXISTS time_zone text;
+
+COMMENT ON COLUMN public.calendar_events.time_zone IS 'IANA time zone the event was planned in; NULL for events from before zones were stored';
@@ -0,0 +1,24 @@
+-- Migration: 2026-10-19_0051_idempotency_keys.sql
+-- Description: Persist Idempotency-Key results so a retried create is replayed instead of applied
+-- twice, even after a restart or when the retry reaches another instance.
+-- cache_key combines user, method, path and the client's key. Rows are written by the backend
+-- with the service role; expired rows are removed by a daily job.
+
+CREATE TABLE IF NOT EXISTS public.idempotency_keys (
+  cache_key text NOT NULL,
+  user_id uuid,
+  state text NOT NULL DEFAULT 'in_progress',
+  status_code integer,
+  response_body jsonb,
+  expires_at timestamp with time zone NOT NULL,
+  created_at timestamp with time zone DEFAULT now(),
+
+  CONSTRAINT idempotency_keys_pkey PRIMARY KEY (cache_key),
+  CONSTRAINT idempotency_keys_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE,
+  CONSTRAINT idempotency_keys_state_check CHECK (state IN ('in_progress', 'completed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON public.idempotency_keys(expires_at);
+
+-- Enable RLS without policies: only the service role reads or writes keys
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,23 @@
+-- Migration: 2026-10-19_0052_task_checklist_delta_sync.sql
+-- Description: Support incremental pulls of task checklist items.
+-- Hard deletes (including items removed with their task) are logged to deleted_records so
+-- clients can remove them locally, and items get an index for "changed since" queries per user.
+
+-- 1. Log checklist item deletions
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'log_task_checklist_item_deletion'
+  ) THEN
+    CREATE TRIGGER log_task_checklist_item_deletion
+    BEFORE DELETE ON public.task_checklist_items
+    FOR EACH ROW
+    EXECUTE FUNCTION log_record_deletion();
+  END IF;
+END $$;
+
+-- 2. Index for checklist item delta queries
+CREATE INDEX IF NOT EXISTS idx_task_checklist_items_user_updated
+ON public.task_checklist_items(user_id, updated_at);
+
+COMMENT ON INDEX idx_task_checklist_items_user_updated IS 'Optimizes incremental sync of task checklist items';
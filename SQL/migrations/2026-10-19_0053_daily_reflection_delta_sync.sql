@@ -0,0 +1,23 @@
+-- Migration: 2026-10-19_0053_daily_reflection_delta_sync.sql
+-- Description: Support incremental pulls of daily reflections.
+-- Hard deletes are logged to deleted_records so clients can remove them locally,
+-- and reflections get an index for "changed since" queries per user.
+
+-- 1. Log reflection deletions
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'log_daily_reflection_deletion'
+  ) THEN
+    CREATE TRIGGER log_daily_reflection_deletion
+    BEFORE DELETE ON public.daily_reflections
+    FOR EACH ROW
+    EXECUTE FUNCTION log_record_deletion();
+  END IF;
+END $$;
+
+-- 2. Index for reflection delta queries
+CREATE INDEX IF NOT EXISTS idx_daily_reflections_user_updated
+ON public.daily_reflections(user_id, updated_at);
+
+COMMENT ON INDEX idx_daily_reflections_user_updated IS 'Optimizes incremental sync of daily reflections';
@@ -0,0 +1,13 @@
+-- Migration: 2026-10-19_0054_calendar_event_ics_uid.sql
+-- Description: Store the .ics UID of events imported from a calendar file.
+-- Clients match a re-imported file against this UID, so every device updates the same
+-- events instead of creating duplicates. Each occurrence of a recurring event has its own UID.
+
+ALTER TABLE public.calendar_events
+ADD COLUMN IF NOT EXISTS ics_uid text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_events_user_ics_uid
+ON public.calendar_events(user_id, ics_uid)
+WHERE ics_uid IS NOT NULL;
+
+COMMENT ON COLUMN public.calendar_events.ics_uid IS 'UID of the .ics occurrence the event was imported from; NULL for other events';
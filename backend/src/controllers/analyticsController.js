@@ -457,6 +457,22 @@ export async function getDashboardData(req, res) {
       total_action_count
     })).sort((a, b) => b.total_action_count - a.total_action_count);
 
+    // Get end-of-day reflections (mood/energy and what happened to open tasks)
+    const { data: reflections, error: reflectionsError } = await supabase
+      .from('daily_reflections')
+      .select('user_id, mood, energy, completed_count, rolled_over_count, dropped_count')
+      .gte('reflection_date', startDate.toISOString().slice(0, 10));
+
+    if (reflectionsError) {
+      logger.error('Error getting daily reflections:', reflectionsError);
+    }
+
+    const reflectionRows = reflections || [];
+    const averageOf = (field) => reflectionRows.length > 0
+      ? Math.round(reflectionRows.reduce((sum, row) => sum + (row[field] || 0), 0) / reflectionRows.length * 10) / 10
+      : 0;
+    const totalOf = (field) => reflectionRows.reduce((sum, row) => sum + (row[field] || 0), 0);
+
     // Return dashboard data
     res.json({
       timeframe,
@@ -485,6 +501,15 @@ export async function getDashboardData(req, res) {
         totalUsersWithGoals: Object.keys(goalsByUser).length,
         totalUsersWithTasks: Object.keys(tasksByUser).length,
         totalUsersWithAiUsage: Object.keys(aiUsageByUser).length
+      },
+      reflectionStats: {
+        totalReflections: reflectionRows.length,
+        usersWithReflections: new Set(reflectionRows.map(row => row.user_id)).size,
+        avgMood: averageOf('mood'),
+        avgEnergy: averageOf('energy'),
+        tasksCompleted: totalOf('completed_count'),
+        tasksRolledOver: totalOf('rolled_over_count'),
+        tasksDropped: totalOf('dropped_count')
       }
     });
   } catch (error) {
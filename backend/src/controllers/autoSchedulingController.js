@@ -2,6 +2,7 @@ import { createClient } from '@supabase/supabase-js';
 import { checkWeatherConditions } from '../utils/weatherService.js';
 import { getTravelTime } from '../utils/travelTimeService.js';
 import { sendAutoSchedulingNotification } from '../services/notificationService.js';
+import { loadOpenBlockers } from './taskDependenciesController.js';
 
 // Auto-scheduling service functions
 
@@ -529,7 +530,13 @@ export const processRecurringTask = enhancedProcessRecurringTask;
  */
 export { rolloverMissedRecurringTasks };
 
-export async function autoScheduleTasks(userId, token) {
+/**
+ * Schedules the user's auto-schedule tasks into free time slots.
+ * Tasks blocked by an unfinished prerequisite are skipped, as are any IDs in
+ * options.excludeTaskIds (the app sends tasks it knows are blocked but hasn't synced yet).
+ */
+export async function autoScheduleTasks(userId, token, options = {}) {
+  const excludeTaskIds = new Set(Array.isArray(options.excludeTaskIds) ? options.excludeTaskIds : []);
   const supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_ANON_KEY, {
     global: {
       headers: {
@@ -594,10 +601,30 @@ export async function autoScheduleTasks(userId, token) {
     return { error: 'Failed to fetch tasks' };
   }
 
+  let blockers = new Map();
+  try {
+    blockers = await loadOpenBlockers(supabase, userId);
+  } catch (err) {
+    // Continue without dependency info; the app also sends the tasks it knows are blocked
+  }
+  const titleById = new Map(tasks.map(task => [task.id, task.title]));
+
   const results = [];
   const newlyScheduledTasks = []; // Track tasks scheduled in this run
 
   for (const task of tasks) {
+    const blockedBy = blockers.get(task.id);
+    if (blockedBy || excludeTaskIds.has(task.id)) {
+      const names = (blockedBy || []).map(id => titleById.get(id)).filter(Boolean);
+      results.push({
+        task_id: task.id,
+        task_title: task.title,
+        status: 'skipped',
+        reason: names.length > 0 ? `Blocked by ${names.join(', ')}` : 'Blocked by an unfinished task'
+      });
+      continue;
+    }
+
     try {
       // Check if task is weather dependent
       let weatherData = null;
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import GeminiService from '../utils/geminiService.js';
+import { applyPage, toPage } from '../utils/pagination.js';
 
 // Helper function to create authenticated Supabase client
 const createAuthenticatedSupabase = (jwt) => {
@@ -17,6 +18,22 @@ const getJwtFromHeaders = (headers) => {
   return headers.authorization?.replace('Bearer ', '') || '';
 };
 
+// IDs of rows hard-deleted from a table since the given time, logged by the deleted_records trigger
+const getDeletedRecordIds = async (supabase, userId, tableName, since) => {
+  const { data, error } = await supabase
+    .from('deleted_records')
+    .select('record_id')
+    .eq('user_id', userId)
+    .eq('table_name', tableName)
+    .gt('deleted_at', since);
+
+  if (error) {
+    console.error(`Error fetching deleted ${tableName} records:`, error);
+    throw new Error('Failed to fetch deleted records for delta sync');
+  }
+  return (data || []).map(record => record.record_id);
+};
+
 const geminiService = new GeminiService();
 
 export const conversationController = {
@@ -220,6 +237,93 @@ export const conversationController = {
     }
   },
 
+  // Threads changed since the given time, for delta sync. Soft-deleted threads are returned as deleted.
+  // Without `since`, every active thread is returned. With a keyset `page`, next_cursor is added.
+  async getThreadChanges(userId, since = null, page = null) {
+    try {
+      const supabase = createClient(
+        process.env.SUPABASE_URL,
+        process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY
+      );
+
+      let query = supabase
+        .from('conversation_threads')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (since) {
+        query = query.gt('updated_at', since);
+      } else {
+        query = query.eq('is_active', true);
+      }
+
+      const { data: rows, error } = page
+        ? await applyPage(query, page)
+        : await query.order('updated_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching conversation thread changes:', error);
+        throw new Error('Failed to fetch conversation thread changes');
+      }
+
+      const { rows: threads, nextCursor } = page ? toPage(rows, page) : { rows, nextCursor: null };
+      const changed = (threads || []).filter(thread => thread.is_active !== false);
+      const deleted = (threads || []).filter(thread => thread.is_active === false).map(thread => thread.id);
+
+      // When paging, hard deletes are returned with the first page only
+      if (since && !page?.position) {
+        deleted.push(...await getDeletedRecordIds(supabase, userId, 'conversation_threads', since));
+      }
+
+      return page ? { changed, deleted, next_cursor: nextCursor } : { changed, deleted };
+    } catch (error) {
+      console.error('Error fetching conversation thread changes:', error);
+      throw error;
+    }
+  },
+
+  // Messages of active threads changed since the given time, for delta sync.
+  // Messages of soft-deleted threads are left out; clients remove them with their thread.
+  async getMessageChanges(userId, since = null, page = null) {
+    try {
+      const supabase = createClient(
+        process.env.SUPABASE_URL,
+        process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY
+      );
+
+      let query = supabase
+        .from('conversation_messages')
+        .select('*, conversation_threads!inner(is_active)')
+        .eq('user_id', userId)
+        .eq('conversation_threads.is_active', true);
+
+      if (since) {
+        query = query.gt('updated_at', since);
+      }
+
+      const { data: rows, error } = page
+        ? await applyPage(query, page)
+        : await query.order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching conversation message changes:', error);
+        throw new Error('Failed to fetch conversation message changes');
+      }
+
+      const { rows: messages, nextCursor } = page ? toPage(rows, page) : { rows, nextCursor: null };
+      // Drop the joined thread columns, which were only needed for filtering
+      const changed = (messages || []).map(({ conversation_threads, ...message }) => message);
+      const deleted = since && !page?.position
+        ? await getDeletedRecordIds(supabase, userId, 'conversation_messages', since)
+        : [];
+
+      return page ? { changed, deleted, next_cursor: nextCursor } : { changed, deleted };
+    } catch (error) {
+      console.error('Error fetching conversation message changes:', error);
+      throw error;
+    }
+  },
+
   async addMessage(threadId, content, role, metadata, jwt = null) {
     try {
       // Enforce ownership before inserting the message
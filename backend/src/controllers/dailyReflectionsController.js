@@ -0,0 +1,217 @@
+import { createClient } from '@supabase/supabase-js';
+import logger from '../utils/logger.js';
+import { parseDeltaParams, fetchDelta } from '../utils/deltaSync.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Missing required Supabase environment variables: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY or SUPABASE_ANON_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const MAX_NOTE_LENGTH = 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const COUNT_FIELDS = ['completed_count', 'rolled_over_count', 'dropped_count'];
+
+const isScore = (value) => Number.isInteger(value) && value >= 1 && value <= 5;
+
+// Returns an error message for the first invalid field, or null
+function validateReflection(body, isUpdate) {
+    const { reflection_date, mood, energy, note } = body;
+    if (!isUpdate && (typeof reflection_date !== 'string' || !DATE_PATTERN.test(reflection_date))) {
+        return 'reflection_date must be a YYYY-MM-DD date';
+    }
+    if ((!isUpdate || mood !== undefined) && !isScore(mood)) {
+        return 'mood must be an integer from 1 to 5';
+    }
+    if ((!isUpdate || energy !== undefined) && !isScore(energy)) {
+        return 'energy must be an integer from 1 to 5';
+    }
+    if (note !== undefined && note !== null) {
+        if (typeof note !== 'string') {
+            return 'note must be a string';
+        }
+        if (note.trim().length > MAX_NOTE_LENGTH) {
+            return `note must be ${MAX_NOTE_LENGTH} characters or less`;
+        }
+    }
+    for (const field of COUNT_FIELDS) {
+        const value = body[field];
+        if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+            return `${field} must be a non-negative integer`;
+        }
+    }
+    return null;
+}
+
+function toUpdates(body) {
+    const updates = {};
+    if (body.mood !== undefined) updates.mood = body.mood;
+    if (body.energy !== undefined) updates.energy = body.energy;
+    if (body.note !== undefined) updates.note = body.note ? body.note.trim() : null;
+    COUNT_FIELDS.forEach(field => {
+        if (body[field] !== undefined) updates[field] = body[field];
+    });
+    return updates;
+}
+
+/**
+ * Saves the reflection for a day. There is one reflection per day, so posting again for
+ * the same date updates the existing one (200) instead of creating a second (201).
+ */
+export const createDailyReflection = async (req, res) => {
+    const userId = req.user.id;
+
+    const validationError = validateReflection(req.body, false);
+    if (validationError) {
+        return res.status(400).json({
+            error: 'VALIDATION_ERROR',
+            message: validationError
+        });
+    }
+
+    const { reflection_date } = req.body;
+    const fields = toUpdates(req.body);
+
+    try {
+        const { data: existing, error: existingError } = await supabase
+            .from('daily_reflections')
+            .select('id')
+            .eq('user_id', userId)
+            .eq('reflection_date', reflection_date)
+            .maybeSingle();
+
+        if (existingError) throw existingError;
+
+        if (existing) {
+            const { data, error } = await supabase
+                .from('daily_reflections')
+                .update({ ...fields, updated_at: new Date().toISOString() })
+                .eq('id', existing.id)
+                .eq('user_id', userId)
+                .select()
+                .single();
+
+            if (error) throw error;
+            return res.json(data);
+        }
+
+        const { data, error } = await supabase
+            .from('daily_reflections')
+            .insert({ user_id: userId, reflection_date, ...fields })
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        res.status(201).json(data);
+    } catch (error) {
+        logger.error('Error saving daily reflection:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+/**
+ * Lists the user's reflections, optionally within a date range, or their changes when `since`
+ * or paging params are given (see utils/deltaSync.js).
+ */
+export const getDailyReflections = async (req, res) => {
+    const userId = req.user.id;
+    const { from, to } = req.query;
+
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+        return res.status(400).json({
+            error: 'VALIDATION_ERROR',
+            message: 'from and to must be YYYY-MM-DD dates'
+        });
+    }
+    const { delta, error: deltaError } = parseDeltaParams(req.query);
+    if (deltaError) {
+        return res.status(400).json({ error: deltaError, code: 'VALIDATION_ERROR' });
+    }
+
+    try {
+        let query = supabase
+            .from('daily_reflections')
+            .select('*')
+            .eq('user_id', userId);
+
+        if (from) {
+            query = query.gte('reflection_date', from);
+        }
+        if (to) {
+            query = query.lte('reflection_date', to);
+        }
+
+        if (delta) {
+            return res.json(await fetchDelta(supabase, query, { table: 'daily_reflections', userId, ...delta }));
+        }
+
+        const { data, error } = await query.order('reflection_date', { ascending: false });
+
+        if (error) throw error;
+
+        res.json(data);
+    } catch (error) {
+        logger.error('Error fetching daily reflections:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const updateDailyReflection = async (req, res) => {
+    const userId = req.user.id;
+    const { id } = req.params;
+
+    const validationError = validateReflection(req.body, true);
+    if (validationError) {
+        return res.status(400).json({
+            error: 'VALIDATION_ERROR',
+            message: validationError
+        });
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from('daily_reflections')
+            .update({ ...toUpdates(req.body), updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .eq('user_id', userId)
+            .select()
+            .single();
+
+        if (error) throw error;
+        res.json(data);
+    } catch (error) {
+        if (error.code === 'PGRST116') {
+            return res.status(404).json({ error: 'Reflection not found' });
+        }
+        logger.error('Error updating daily reflection:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const deleteDailyReflection = async (req, res) => {
+    const userId = req.user.id;
+    const { id } = req.params;
+
+    try {
+        const { data, error } = await supabase
+            .from('daily_reflections')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', userId)
+            .select()
+            .single();
+
+        if (error) throw error;
+        res.json({ message: 'Reflection deleted successfully', reflection: data });
+    } catch (error) {
+        if (error.code === 'PGRST116') {
+            return res.status(404).json({ error: 'Reflection not found' });
+        }
+        logger.error('Error deleting daily reflection:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
@@ -1,6 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 import logger from '../utils/logger.js';
 import { sendNotification } from '../services/notificationService.js';
+import { parsePageParams, applyPage, toPage } from '../utils/pagination.js';
 const DEBUG = process.env.DEBUG_LOGS === 'true';
 
 /**
@@ -138,6 +139,12 @@ export async function getGoals(req, res) {
   if (since && isNaN(Date.parse(since))) {
     return res.status(400).json({ error: 'Invalid since parameter. Expected ISO 8601 date string.' });
   }
+
+  // Optional keyset paging (`limit`, `cursor`) for clients pulling large accounts
+  const { page, error: pageError } = parsePageParams(req.query);
+  if (pageError) {
+    return res.status(400).json({ error: pageError, code: 'VALIDATION_ERROR' });
+  }
   
   // Create Supabase client with the JWT
   const supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_ANON_KEY, {
@@ -192,8 +199,33 @@ export async function getGoals(req, res) {
     
     let data = [];
     let error = null;
+    let nextCursor = null;
     
-    if (since && goalIdsWithUpdatedChildren.length > 0) {
+    if (page) {
+      // Paged sync - goals that changed, or whose milestones/steps changed, in one keyset-ordered query
+      let query = supabase
+        .from('goals')
+        .select(`
+          *,
+          milestones (
+            *,
+            steps (*)
+          )
+        `)
+        .eq('user_id', user_id);
+
+      if (since && goalIdsWithUpdatedChildren.length > 0) {
+        query = query.or(`updated_at.gt."${since}",id.in.(${goalIdsWithUpdatedChildren.join(',')})`);
+      } else if (since) {
+        query = query.gt('updated_at', since);
+      }
+
+      const result = await applyPage(query, page);
+      error = result.error;
+      if (!error) {
+        ({ rows: data, nextCursor } = toPage(result.data, page));
+      }
+    } else if (since && goalIdsWithUpdatedChildren.length > 0) {
       // For delta sync with updated children, fetch goals that match either condition
       // Fetch goals that were updated
       const { data: updatedGoals, error: updatedError } = await supabase
@@ -266,6 +298,11 @@ export async function getGoals(req, res) {
       return res.status(500).json({ error: 'Internal server error' });
     }
 
+    // Deletions are returned with the first page only
+    if (page && (!since || page.position)) {
+      return res.json({ changed: data, deleted: [], next_cursor: nextCursor });
+    }
+
     // For incremental sync, return in the same format as events
     if (since) {
       let deleted = [];
@@ -284,7 +321,7 @@ export async function getGoals(req, res) {
       }
       
       logger.info(`[Goals API] Returning ${data.length} changed and ${deleted.length} deleted goals for user ${user_id}`);
-      return res.json({ changed: data, deleted });
+      return res.json(page ? { changed: data, deleted, next_cursor: nextCursor } : { changed: data, deleted });
     }
 
     res.json(data);
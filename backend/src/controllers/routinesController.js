@@ -329,9 +329,26 @@ export const deleteRoutine = async (req, res) => {
 export const logCompletion = async (req, res) => {
     const userId = req.user.id;
     const { id } = req.params; // routine_id
-    const { notes } = req.body;
+    const { notes, completed_at } = req.body;
     const timezone = req.header('X-User-Timezone') || 'UTC';
 
+    // Offline clients replay completions later and send the original time
+    const now = new Date();
+    let completedAt = now;
+    if (completed_at !== undefined) {
+        completedAt = new Date(completed_at);
+        if (isNaN(completedAt.getTime())) {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: 'completed_at must be a valid ISO date'
+            });
+        }
+        // Clamp so device clock skew never records a completion in the future
+        if (completedAt > now) {
+            completedAt = now;
+        }
+    }
+
     try {
         // 1. Get Routine for metadata
         const { data: routine, error: routineError } = await supabase
@@ -348,8 +365,8 @@ export const logCompletion = async (req, res) => {
         if (!routine) throw new Error('Routine not found');
 
         // 2. Determine Period Date
-        const bounds = getPeriodBounds(routine.frequency_type, new Date(), timezone);
-        const prevBounds = getPreviousPeriodBounds(routine.frequency_type, new Date(), timezone);
+        const bounds = getPeriodBounds(routine.frequency_type, completedAt, timezone);
+        const prevBounds = getPreviousPeriodBounds(routine.frequency_type, completedAt, timezone);
         const periodDate = bounds.periodDate;
 
         // 3. Detect if streak is stale
@@ -368,7 +385,7 @@ export const logCompletion = async (req, res) => {
                 p_user_id: userId,
                 p_period_date: periodDate,
                 p_notes: notes || '',
-                p_completed_at: new Date().toISOString(),
+                p_completed_at: completedAt.toISOString(),
                 p_reset_streak: resetStreak
             });
 
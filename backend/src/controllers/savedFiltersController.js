@@ -0,0 +1,153 @@
+import { createClient } from '@supabase/supabase-js';
+import logger from '../utils/logger.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Missing required Supabase environment variables: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY or SUPABASE_ANON_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// filter_options is evaluated by the app; the server only stores it
+const MAX_OPTIONS_LENGTH = 4000;
+
+// Returns an error message for the first invalid field, or null
+function validateSavedFilter({ name, filter_options, position }, isUpdate) {
+    if (!isUpdate || name !== undefined) {
+        if (!name || typeof name !== 'string' || name.trim() === '') {
+            return 'Name is required';
+        }
+        if (name.trim().length > 100) {
+            return 'Name must be 100 characters or less';
+        }
+    }
+    if (filter_options !== undefined) {
+        if (!filter_options || typeof filter_options !== 'object' || Array.isArray(filter_options)) {
+            return 'filter_options must be an object';
+        }
+        if (JSON.stringify(filter_options).length > MAX_OPTIONS_LENGTH) {
+            return 'filter_options is too large';
+        }
+    }
+    if (position !== undefined && (!Number.isInteger(position) || position < 0)) {
+        return 'position must be a non-negative integer';
+    }
+    return null;
+}
+
+export const createSavedFilter = async (req, res) => {
+    const userId = req.user.id;
+    const { name, filter_options, position } = req.body;
+
+    const validationError = validateSavedFilter({ name, filter_options, position }, false);
+    if (validationError) {
+        return res.status(400).json({
+            error: 'VALIDATION_ERROR',
+            message: validationError
+        });
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from('saved_filters')
+            .insert({
+                user_id: userId,
+                name: name.trim(),
+                filter_options: filter_options || {},
+                position: position ?? 0
+            })
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        res.status(201).json(data);
+    } catch (error) {
+        logger.error('Error creating saved filter:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const getSavedFilters = async (req, res) => {
+    const userId = req.user.id;
+
+    try {
+        const { data, error } = await supabase
+            .from('saved_filters')
+            .select('*')
+            .eq('user_id', userId)
+            .order('position', { ascending: true })
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+
+        res.json(data);
+    } catch (error) {
+        logger.error('Error fetching saved filters:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const updateSavedFilter = async (req, res) => {
+    const userId = req.user.id;
+    const { id } = req.params;
+    const { name, filter_options, position } = req.body;
+
+    const validationError = validateSavedFilter({ name, filter_options, position }, true);
+    if (validationError) {
+        return res.status(400).json({
+            error: 'VALIDATION_ERROR',
+            message: validationError
+        });
+    }
+
+    const updates = { updated_at: new Date().toISOString() };
+    if (name !== undefined) updates.name = name.trim();
+    if (filter_options !== undefined) updates.filter_options = filter_options;
+    if (position !== undefined) updates.position = position;
+
+    try {
+        const { data, error } = await supabase
+            .from('saved_filters')
+            .update(updates)
+            .eq('id', id)
+            .eq('user_id', userId)
+            .select()
+            .single();
+
+        if (error) throw error;
+        res.json(data);
+    } catch (error) {
+        if (error.code === 'PGRST116') {
+            return res.status(404).json({ error: 'Saved filter not found' });
+        }
+        logger.error('Error updating saved filter:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const deleteSavedFilter = async (req, res) => {
+    const userId = req.user.id;
+    const { id } = req.params;
+
+    try {
+        const { data, error } = await supabase
+            .from('saved_filters')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', userId)
+            .select()
+            .single();
+
+        if (error) throw error;
+        res.json({ message: 'Saved filter deleted successfully', savedFilter: data });
+    } catch (error) {
+        if (error.code === 'PGRST116') {
+            return res.status(404).json({ error: 'Saved filter not found' });
+        }
+        logger.error('Error deleting saved filter:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
@@ -0,0 +1,187 @@
+import { createClient } from '@supabase/supabase-js';
+import logger from '../utils/logger.js';
+import { parseDeltaParams, fetchDelta } from '../utils/deltaSync.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Missing required Supabase environment variables: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY or SUPABASE_ANON_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const MAX_TEXT_LENGTH = 500;
+
+// Returns an error message for the first invalid field, or null
+function validateChecklistItem({ text, is_completed, position }, isUpdate) {
+    if (!isUpdate || text !== undefined) {
+        if (!text || typeof text !== 'string' || text.trim() === '') {
+            return 'Text is required';
+        }
+        if (text.trim().length > MAX_TEXT_LENGTH) {
+            return `Text must be ${MAX_TEXT_LENGTH} characters or less`;
+        }
+    }
+    if (is_completed !== undefined && typeof is_completed !== 'boolean') {
+        return 'is_completed must be a boolean';
+    }
+    if (position !== undefined && (!Number.isInteger(position) || position < 0)) {
+        return 'position must be a non-negative integer';
+    }
+    return null;
+}
+
+export const createChecklistItem = async (req, res) => {
+    const userId = req.user.id;
+    const { task_id, text, is_completed, position } = req.body;
+
+    if (!task_id || typeof task_id !== 'string') {
+        return res.status(400).json({
+            error: 'VALIDATION_ERROR',
+            message: 'task_id is required'
+        });
+    }
+    const validationError = validateChecklistItem({ text, is_completed, position }, false);
+    if (validationError) {
+        return res.status(400).json({
+            error: 'VALIDATION_ERROR',
+            message: validationError
+        });
+    }
+
+    try {
+        const { data: task, error: taskError } = await supabase
+            .from('tasks')
+            .select('id')
+            .eq('id', task_id)
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        if (taskError) throw taskError;
+        if (!task) {
+            return res.status(404).json({ error: 'Task not found' });
+        }
+
+        const { data, error } = await supabase
+            .from('task_checklist_items')
+            .insert({
+                user_id: userId,
+                task_id,
+                text: text.trim(),
+                is_completed: is_completed ?? false,
+                position: position ?? 0
+            })
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        res.status(201).json(data);
+    } catch (error) {
+        logger.error('Error creating checklist item:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+/**
+ * Lists the user's checklist items, or their changes when `since` or paging params are given
+ * (see utils/deltaSync.js).
+ */
+export const getChecklistItems = async (req, res) => {
+    const userId = req.user.id;
+    const { task_id } = req.query;
+
+    const { delta, error: deltaError } = parseDeltaParams(req.query);
+    if (deltaError) {
+        return res.status(400).json({ error: deltaError, code: 'VALIDATION_ERROR' });
+    }
+
+    try {
+        let query = supabase
+            .from('task_checklist_items')
+            .select('*')
+            .eq('user_id', userId);
+
+        if (task_id) {
+            query = query.eq('task_id', task_id);
+        }
+
+        if (delta) {
+            return res.json(await fetchDelta(supabase, query, { table: 'task_checklist_items', userId, ...delta }));
+        }
+
+        const { data, error } = await query
+            .order('task_id', { ascending: true })
+            .order('position', { ascending: true });
+
+        if (error) throw error;
+
+        res.json(data);
+    } catch (error) {
+        logger.error('Error fetching checklist items:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const updateChecklistItem = async (req, res) => {
+    const userId = req.user.id;
+    const { id } = req.params;
+    const { text, is_completed, position } = req.body;
+
+    const validationError = validateChecklistItem({ text, is_completed, position }, true);
+    if (validationError) {
+        return res.status(400).json({
+            error: 'VALIDATION_ERROR',
+            message: validationError
+        });
+    }
+
+    const updates = { updated_at: new Date().toISOString() };
+    if (text !== undefined) updates.text = text.trim();
+    if (is_completed !== undefined) updates.is_completed = is_completed;
+    if (position !== undefined) updates.position = position;
+
+    try {
+        const { data, error } = await supabase
+            .from('task_checklist_items')
+            .update(updates)
+            .eq('id', id)
+            .eq('user_id', userId)
+            .select()
+            .single();
+
+        if (error) throw error;
+        res.json(data);
+    } catch (error) {
+        if (error.code === 'PGRST116') {
+            return res.status(404).json({ error: 'Checklist item not found' });
+        }
+        logger.error('Error updating checklist item:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const deleteChecklistItem = async (req, res) => {
+    const userId = req.user.id;
+    const { id } = req.params;
+
+    try {
+        const { data, error } = await supabase
+            .from('task_checklist_items')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', userId)
+            .select()
+            .single();
+
+        if (error) throw error;
+        res.json({ message: 'Checklist item deleted successfully', checklistItem: data });
+    } catch (error) {
+        if (error.code === 'PGRST116') {
+            return res.status(404).json({ error: 'Checklist item not found' });
+        }
+        logger.error('Error deleting checklist item:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
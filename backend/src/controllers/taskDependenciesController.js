@@ -0,0 +1,156 @@
+import { createClient } from '@supabase/supabase-js';
+import logger from '../utils/logger.js';
+import { getOpenBlockers, wouldCreateCycle } from '../utils/taskDependencyGraph.js';
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Missing required Supabase environment variables: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY or SUPABASE_ANON_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Loads the user's blocked tasks: a map from task ID to the IDs of prerequisites that are
+ * not completed yet. Used by Momentum mode and the auto-scheduler to skip blocked tasks.
+ * @param {object} client - Supabase client to query with
+ * @param {string} userId
+ * @returns {Promise<Map<string, string[]>>}
+ */
+export async function loadOpenBlockers(client, userId) {
+    const { data: links, error: linksError } = await client
+        .from('task_dependencies')
+        .select('task_id, depends_on_task_id')
+        .eq('user_id', userId);
+
+    if (linksError) throw linksError;
+    if (!links || links.length === 0) {
+        return new Map();
+    }
+
+    const blockerIds = [...new Set(links.map(link => link.depends_on_task_id))];
+    const { data: blockerTasks, error: tasksError } = await client
+        .from('tasks')
+        .select('id, status')
+        .eq('user_id', userId)
+        .in('id', blockerIds);
+
+    if (tasksError) throw tasksError;
+    return getOpenBlockers(links, blockerTasks || []);
+}
+
+export const createTaskDependency = async (req, res) => {
+    const userId = req.user.id;
+    const { task_id, depends_on_task_id } = req.body;
+
+    if (!UUID_PATTERN.test(task_id || '') || !UUID_PATTERN.test(depends_on_task_id || '')) {
+        return res.status(400).json({
+            error: 'VALIDATION_ERROR',
+            message: 'task_id and depends_on_task_id must be task IDs'
+        });
+    }
+    if (task_id === depends_on_task_id) {
+        return res.status(400).json({
+            error: 'VALIDATION_ERROR',
+            message: 'A task cannot depend on itself'
+        });
+    }
+
+    try {
+        const { data: tasks, error: tasksError } = await supabase
+            .from('tasks')
+            .select('id')
+            .eq('user_id', userId)
+            .in('id', [task_id, depends_on_task_id]);
+
+        if (tasksError) throw tasksError;
+        if (!tasks || tasks.length !== 2) {
+            return res.status(404).json({ error: 'Task not found' });
+        }
+
+        const { data: links, error: linksError } = await supabase
+            .from('task_dependencies')
+            .select('*')
+            .eq('user_id', userId);
+
+        if (linksError) throw linksError;
+
+        // Re-sent links (e.g. a retried push) return the existing row
+        const existing = (links || []).find(link =>
+            link.task_id === task_id && link.depends_on_task_id === depends_on_task_id
+        );
+        if (existing) {
+            return res.status(200).json(existing);
+        }
+
+        if (wouldCreateCycle(links || [], task_id, depends_on_task_id)) {
+            return res.status(409).json({
+                error: 'DEPENDENCY_CYCLE',
+                message: 'This would create a circular dependency'
+            });
+        }
+
+        const { data, error } = await supabase
+            .from('task_dependencies')
+            .insert({
+                user_id: userId,
+                task_id,
+                depends_on_task_id
+            })
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        res.status(201).json(data);
+    } catch (error) {
+        logger.error('Error creating task dependency:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const getTaskDependencies = async (req, res) => {
+    const userId = req.user.id;
+
+    try {
+        const { data, error } = await supabase
+            .from('task_dependencies')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+
+        res.json(data);
+    } catch (error) {
+        logger.error('Error fetching task dependencies:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
+
+export const deleteTaskDependency = async (req, res) => {
+    const userId = req.user.id;
+    const { id } = req.params;
+
+    try {
+        const { data, error } = await supabase
+            .from('task_dependencies')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', userId)
+            .select()
+            .single();
+
+        if (error) throw error;
+        res.json({ message: 'Task dependency deleted successfully', taskDependency: data });
+    } catch (error) {
+        if (error.code === 'PGRST116') {
+            return res.status(404).json({ error: 'Task dependency not found' });
+        }
+        logger.error('Error deleting task dependency:', error);
+        res.status(500).json({ error: 'Internal server error' });
+    }
+};
@@ -1,8 +1,10 @@
 import { createClient } from '@supabase/supabase-js';
 import { dateParser } from '../utils/dateParser.js';
 import { autoScheduleTasks, processRecurringTask } from './autoSchedulingController.js';
+import { loadOpenBlockers } from './taskDependenciesController.js';
 import logger from '../utils/logger.js';
 import cacheService from '../utils/cacheService.js';
+import { parsePageParams, applyPage, toPage } from '../utils/pagination.js';
 
 // Normalize user-provided search text (e.g., strip trailing words like "task")
 function normalizeSearchText(input) {
@@ -168,13 +170,19 @@ export async function getTasks(req, res) {
   if (since && isNaN(Date.parse(since))) {
     return res.status(400).json({ error: 'Invalid since parameter. Expected ISO 8601 date string.' });
   }
+
+  // Optional keyset paging (`limit`, `cursor`) for clients pulling large accounts
+  const { page, error: pageError } = parsePageParams(req.query);
+  if (pageError) {
+    return res.status(400).json({ error: pageError, code: 'VALIDATION_ERROR' });
+  }
   
   // Create cache key for this user's tasks
   const cacheKey = cacheService.generateUserKey(user_id, 'tasks');
   
   try {
-    // For incremental sync, don't use cache
-    if (!since) {
+    // For incremental or paged sync, don't use cache
+    if (!since && !page) {
       // Try to get from cache first
       const cachedTasks = cacheService.get(cacheKey);
       if (cachedTasks) {
@@ -210,20 +218,28 @@ export async function getTasks(req, res) {
           title
         )
       `)
-      .eq('user_id', user_id)
-      .order('created_at', { ascending: false });
+      .eq('user_id', user_id);
     
     // Add `since` filter for delta sync
     if (since) {
       query = query.gt('updated_at', since);
     }
+
+    query = page ? applyPage(query, page) : query.order('created_at', { ascending: false });
     
-    const { data, error } = await query;
+    const { data: rows, error } = await query;
     
     if (error) {
       return res.status(400).json({ error: error.message });
     }
 
+    const { rows: data, nextCursor } = page ? toPage(rows, page) : { rows, nextCursor: null };
+
+    // Deletions are returned with the first page only
+    if (page && (!since || page.position)) {
+      return res.json({ changed: data, deleted: [], next_cursor: nextCursor });
+    }
+
     // For incremental sync, return in the same format as events
     if (since) {
       let deleted = [];
@@ -242,7 +258,7 @@ export async function getTasks(req, res) {
       }
       
       logger.info(`[Tasks API] Returning ${data.length} changed and ${deleted.length} deleted tasks for user ${user_id}`);
-      return res.json({ changed: data, deleted });
+      return res.json(page ? { changed: data, deleted, next_cursor: nextCursor } : { changed: data, deleted });
     }
 
     // Cache the results for full sync
@@ -430,6 +446,7 @@ export async function deleteTask(req, res) {
  * 2) Select next candidate among user's tasks:
  *    - Not completed
  *    - Not in exclude_ids
+ *    - Not blocked by an unfinished prerequisite (see task_dependencies)
  *    - If travel_preference === 'home_only', prefer tasks without a location
  *    - Must have estimated_duration_minutes; if missing on chosen task, default to 30
  *    - Highest priority (high > medium > low), then earliest due date (nulls last)
@@ -498,8 +515,12 @@ export async function getNextFocusTask(req, res) {
       return res.status(404).json({ message: 'No other tasks match your criteria.' });
     }
 
-    // 3) Choose first candidate (already sorted by SQL)
-    const next = candidates[0];
+    // 3) Choose first unblocked candidate (already sorted by SQL)
+    const blockers = await loadOpenBlockers(supabase, user_id);
+    const next = candidates.find(task => !blockers.has(task.id));
+    if (!next) {
+      return res.status(404).json({ message: 'Every remaining task is waiting on another task.' });
+    }
     const ensureDuration = (t) => (Number.isFinite(t.estimated_duration_minutes) && t.estimated_duration_minutes > 0) ? t.estimated_duration_minutes : 30;
 
     const updates = {
@@ -0,0 +1,251 @@
+import logger from '../utils/logger.js';
+import { getSupabaseClient } from '../utils/supabase.js';
+
+/**
+ * Idempotency Middleware
+ * Lets clients retry creates safely. A request with an Idempotency-Key header is handled
+ * once per user, method and path; a retry with the same key gets the stored response back.
+ * Keys are stored in the idempotency_keys table, so they survive restarts and are shared
+ * between instances.
+ */
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+// A claim left by a request that never finished (e.g. the instance died) stops blocking retries after this
+const IN_PROGRESS_TTL_MS = 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Store backed by the idempotency_keys table. Uses the service role client, so rows are
+ * not visible to users through RLS.
+ */
+export function createSupabaseIdempotencyStore(getClient = getSupabaseClient) {
+  return {
+    /**
+     * Claims a key for a new request.
+     * @returns {{ claimed: true } | { claimed: false, entry: Object }}
+     */
+    async claim(cacheKey, userId, expiresAt) {
+      const supabase = await getClient();
+
+      // A second attempt covers an expired row removed between the insert and the lookup
+      for (let attempt = 0; attempt < 2; attempt++) {
+        const { error } = await supabase
+          .from('idempotency_keys')
+          .insert({
+            cache_key: cacheKey,
+            user_id: userId,
+            state: 'in_progress',
+            expires_at: new Date(expiresAt).toISOString()
+          });
+
+        if (!error) {
+          return { claimed: true };
+        }
+        if (error.code !== UNIQUE_VIOLATION) {
+          throw error;
+        }
+
+        const { data: existing, error: fetchError } = await supabase
+          .from('idempotency_keys')
+          .select('state, status_code, response_body, expires_at')
+          .eq('cache_key', cacheKey)
+          .maybeSingle();
+
+        if (fetchError) {
+          throw fetchError;
+        }
+        if (!existing) {
+          continue;
+        }
+        if (new Date(existing.expires_at).getTime() > Date.now()) {
+          return {
+            claimed: false,
+            entry: { state: existing.state, statusCode: existing.status_code, body: existing.response_body }
+          };
+        }
+
+        // Expired: remove it (only if nobody replaced it meanwhile) and claim again
+        await supabase
+          .from('idempotency_keys')
+          .delete()
+          .eq('cache_key', cacheKey)
+          .eq('expires_at', existing.expires_at);
+      }
+
+      throw new Error('Could not claim idempotency key');
+    },
+
+    async complete(cacheKey, statusCode, body, expiresAt) {
+      const supabase = await getClient();
+      const { error } = await supabase
+        .from('idempotency_keys')
+        .update({
+          state: 'completed',
+          status_code: statusCode,
+          response_body: body ?? null,
+          expires_at: new Date(expiresAt).toISOString()
+        })
+        .eq('cache_key', cacheKey);
+
+      if (error) {
+        throw error;
+      }
+    },
+
+    async release(cacheKey) {
+      const supabase = await getClient();
+      const { error } = await supabase
+        .from('idempotency_keys')
+        .delete()
+        .eq('cache_key', cacheKey)
+        .eq('state', 'in_progress');
+
+      if (error) {
+        throw error;
+      }
+    },
+
+    /**
+     * Deletes expired keys.
+     * @returns {Promise<number>} Number of keys removed
+     */
+    async pruneExpired() {
+      const supabase = await getClient();
+      const { data, error } = await supabase
+        .from('idempotency_keys')
+        .delete()
+        .lt('expires_at', new Date().toISOString())
+        .select('cache_key');
+
+      if (error) {
+        throw error;
+      }
+      return data?.length || 0;
+    }
+  };
+}
+
+/**
+ * Store kept in process memory. Used by tests.
+ */
+export function createMemoryIdempotencyStore() {
+  const entries = new Map();
+
+  const getLive = (cacheKey) => {
+    const entry = entries.get(cacheKey);
+    if (entry && entry.expiresAt <= Date.now()) {
+      entries.delete(cacheKey);
+      return null;
+    }
+    return entry || null;
+  };
+
+  return {
+    async claim(cacheKey, userId, expiresAt) {
+      const entry = getLive(cacheKey);
+      if (entry) {
+        return { claimed: false, entry };
+      }
+      entries.set(cacheKey, { state: 'in_progress', expiresAt });
+      return { claimed: true };
+    },
+
+    async complete(cacheKey, statusCode, body, expiresAt) {
+      entries.set(cacheKey, { state: 'completed', statusCode, body, expiresAt });
+    },
+
+    async release(cacheKey) {
+      if (entries.get(cacheKey)?.state === 'in_progress') {
+        entries.delete(cacheKey);
+      }
+    },
+
+    async pruneExpired() {
+      let removed = 0;
+      for (const cacheKey of [...entries.keys()]) {
+        if (!getLive(cacheKey)) {
+          removed++;
+        }
+      }
+      return removed;
+    }
+  };
+}
+
+const defaultStore = createSupabaseIdempotencyStore();
+
+/**
+ * Deletes expired keys from the shared store. Run on a schedule.
+ */
+export async function pruneIdempotencyKeys(store = defaultStore) {
+  return await store.pruneExpired();
+}
+
+/**
+ * Replays stored successful responses for repeated Idempotency-Key requests.
+ * Failed responses are not stored, so the client can retry them. If the store is unavailable
+ * the request is handled without idempotency rather than rejected.
+ */
+export function idempotency({ ttlMs = DEFAULT_TTL_MS, store = defaultStore } = {}) {
+  return async (req, res, next) => {
+    const key = req.get('Idempotency-Key');
+    if (!key) {
+      return next();
+    }
+    if (key.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({ error: 'Idempotency-Key is too long', code: 'VALIDATION_ERROR' });
+    }
+
+    const userId = req.user?.id || null;
+    const cacheKey = `${userId || 'anonymous'}:${req.method}:${req.baseUrl}${req.path}:${key}`;
+
+    let claim;
+    try {
+      claim = await store.claim(cacheKey, userId, Date.now() + Math.min(ttlMs, IN_PROGRESS_TTL_MS));
+    } catch (error) {
+      logger.error('Idempotency store unavailable, handling request without it', { path: req.originalUrl, error: error.message });
+      return next();
+    }
+
+    if (!claim.claimed) {
+      const { entry } = claim;
+      if (entry.state === 'completed') {
+        logger.info('Replaying idempotent response', { path: req.originalUrl, userId });
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(entry.statusCode).json(entry.body);
+      }
+      return res.status(409).json({
+        error: 'A request with this Idempotency-Key is still being processed',
+        code: 'IDEMPOTENCY_IN_PROGRESS'
+      });
+    }
+
+    let settled = false;
+    const settle = (action) => {
+      settled = true;
+      action().catch(error => {
+        logger.error('Failed to update idempotency key', { path: req.originalUrl, error: error.message });
+      });
+    };
+
+    const originalJson = res.json.bind(res);
+    res.json = (body) => {
+      if (res.statusCode >= 200 && res.statusCode < 300) {
+        settle(() => store.complete(cacheKey, res.statusCode, body, Date.now() + ttlMs));
+      } else {
+        settle(() => store.release(cacheKey));
+      }
+      return originalJson(body);
+    };
+
+    // Requests that ended without a JSON response can be retried
+    res.on('close', () => {
+      if (!settled) {
+        settle(() => store.release(cacheKey));
+      }
+    });
+
+    next();
+  };
+}
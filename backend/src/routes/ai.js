@@ -5,6 +5,8 @@ import GroqService from '../utils/groqService.js';
 // import AIService from '../utils/aiService.js';
 import { conversationController } from '../controllers/conversationController.js';
 import logger from '../utils/logger.js';
+import { parsePageParams } from '../utils/pagination.js';
+import { buildAiPayload } from '../utils/aiPayload.js';
 import { sendFeedback } from '../controllers/feedbackController.js';
 import { autoSchedulingController } from '../controllers/autoSchedulingController.js';
 import { sendNotification } from '../services/notificationService.js';
@@ -45,6 +47,8 @@ router.post('/chat', requireAuth, async (req, res) => {
       let finalThreadId = threadId;
       let fullMessage = '';
       let accumulatedActions = [];
+      // Structured content of the reply, stored with the message so clients don't parse its text
+      let messagePayload = null;
       let modelProvider = mode === 'fast' ? 'groq' : 'gemini';
 
       try {
@@ -86,12 +90,14 @@ router.post('/chat', requireAuth, async (req, res) => {
             accumulatedActions = chunk.actions || [];
             fullMessage = chunk.message || fullMessage; // Ensure we have the final sanitized message
             modelProvider = chunk.provider || modelProvider;
+            messagePayload = buildAiPayload(fullMessage);
             
             // Send finish event with final data
             res.write(`data: ${JSON.stringify({ 
               type: 'finish', 
               message: fullMessage, 
               actions: accumulatedActions,
+              payload: messagePayload,
               provider: modelProvider
             })}\n\n`);
           }
@@ -100,7 +106,10 @@ router.post('/chat', requireAuth, async (req, res) => {
         // Save AI response to database
         if (fullMessage) {
           try {
-            await conversationController.addMessageToThread(finalThreadId, userId, fullMessage, 'assistant', { actions: accumulatedActions });
+            await conversationController.addMessageToThread(finalThreadId, userId, fullMessage, 'assistant', {
+              actions: accumulatedActions,
+              payload: messagePayload
+            });
             
             // Track analytics
             const { createClient } = await import('@supabase/supabase-js');
@@ -200,13 +209,15 @@ router.post('/chat', requireAuth, async (req, res) => {
       }
     }
 
+    const payload = buildAiPayload(response.message);
+
     // Save conversation to database if we have a threadId
     if (finalThreadId) {
       try {
         // Use the optimized method that verifies ownership directly using userId
         // This avoids RLS propagation issues for both new and existing threads
         await conversationController.addMessageToThread(finalThreadId, userId, message, 'user', { mood: moodHeader });
-        await conversationController.addMessageToThread(finalThreadId, userId, response.message, 'assistant', { actions: response.actions });
+        await conversationController.addMessageToThread(finalThreadId, userId, response.message, 'assistant', { actions: response.actions, payload });
       } catch (dbError) {
         logger.error('Database save error:', dbError);
         // Continue with response even if database save fails
@@ -226,6 +237,7 @@ router.post('/chat', requireAuth, async (req, res) => {
     const finalResponse = {
       message: safeMessage || 'I apologize, but I didn\'t receive a proper response. Please try again.',
       actions: Array.isArray(response.actions) ? response.actions : [],
+      payload,
       threadId: finalThreadId || null, // Include threadId in response
       modelMode: mode,
       provider: response.provider || (mode === 'smart' ? 'gemini' : 'groq')
@@ -357,6 +369,46 @@ router.get('/threads', requireAuth, async (req, res) => {
   }
 });
 
+// Get conversation threads changed since the last sync
+router.get('/threads/changes', requireAuth, async (req, res) => {
+  try {
+    const since = req.query.since;
+    if (since && isNaN(Date.parse(since))) {
+      return res.status(400).json({ error: 'Invalid since parameter. Expected ISO 8601 date string.', code: 'VALIDATION_ERROR' });
+    }
+    const { page, error: pageError } = parsePageParams(req.query);
+    if (pageError) {
+      return res.status(400).json({ error: pageError, code: 'VALIDATION_ERROR' });
+    }
+
+    const changes = await conversationController.getThreadChanges(req.user.id, since || null, page);
+    res.json(changes);
+  } catch (error) {
+    logger.error('Get Thread Changes Error:', error);
+    res.status(500).json({ error: 'Failed to get conversation thread changes' });
+  }
+});
+
+// Get conversation messages changed since the last sync
+router.get('/messages/changes', requireAuth, async (req, res) => {
+  try {
+    const since = req.query.since;
+    if (since && isNaN(Date.parse(since))) {
+      return res.status(400).json({ error: 'Invalid since parameter. Expected ISO 8601 date string.', code: 'VALIDATION_ERROR' });
+    }
+    const { page, error: pageError } = parsePageParams(req.query);
+    if (pageError) {
+      return res.status(400).json({ error: pageError, code: 'VALIDATION_ERROR' });
+    }
+
+    const changes = await conversationController.getMessageChanges(req.user.id, since || null, page);
+    res.json(changes);
+  } catch (error) {
+    logger.error('Get Message Changes Error:', error);
+    res.status(500).json({ error: 'Failed to get conversation message changes' });
+  }
+});
+
 // Get specific conversation thread
 router.get('/threads/:threadId', requireAuth, async (req, res) => {
   try {
@@ -581,7 +633,9 @@ router.post('/auto-schedule-tasks', requireAuth, async (req, res) => {
     const userId = req.user.id;
     const token = req.headers.authorization?.split(' ')[1];
     
-    const result = await autoSchedulingController.autoScheduleTasks(userId, token);
+    const { exclude_task_ids } = req.body || {};
+
+    const result = await autoSchedulingController.autoScheduleTasks(userId, token, { excludeTaskIds: exclude_task_ids });
     res.json(result);
   } catch (error) {
     logger.error('Auto-Schedule Tasks Error:', error);
@@ -1,6 +1,7 @@
 import express from 'express';
 import logger from '../utils/logger.js';
 import { requireAuth } from '../middleware/enhancedAuth.js';
+import { idempotency } from '../middleware/idempotency.js';
 import {
   listCalendarEvents,
   createCalendarEvent,
@@ -10,6 +11,7 @@ import {
   getEventsForDate
 } from '../utils/calendarService.js';
 import { getCalendarEventsFromDB, syncGoogleCalendarEvents, getUserSubscriptionTier, calculateDateRangeForTier } from '../utils/syncService.js';
+import { parsePageParams } from '../utils/pagination.js';
 import { scheduleSingleTask } from '../controllers/autoSchedulingController.js';
 import { createClient } from '@supabase/supabase-js';
 import { getSupabaseClient } from '../utils/supabase.js';
@@ -86,7 +88,14 @@ router.get('/events', requireAuth, async (req, res) => {
     // Validate since parameter if provided
     if (since && isNaN(Date.parse(since))) {
       return res.status(400).json({ error: 'Invalid since parameter. Expected ISO 8601 date string.' });
-    }    
+    }
+
+    // Optional keyset paging (`limit`, `cursor`) for clients pulling large accounts
+    const { page, error: pageError } = parsePageParams(req.query);
+    if (pageError) {
+      return res.status(400).json({ error: pageError, code: 'VALIDATION_ERROR' });
+    }
+
     // Get user's subscription tier and calculate appropriate date range
     const subscriptionTier = await getUserSubscriptionTier(req.user.id);
     const { timeMin, timeMax } = calculateDateRangeForTier(subscriptionTier);
@@ -95,7 +104,7 @@ router.get('/events', requireAuth, async (req, res) => {
     logger.info(`[Calendar API] Time range: ${timeMin.toISOString()} to ${timeMax.toISOString()}`);
     
     // Get events from local database with subscription-based time range
-    const syncData = await getCalendarEventsFromDB(req.user.id, maxResults, timeMin, timeMax, null, since);
+    const syncData = await getCalendarEventsFromDB(req.user.id, maxResults, timeMin, timeMax, null, since, page);
     
     logger.info(`[Calendar API] Returning ${syncData.changed.length} changed and ${syncData.deleted.length} deleted events for ${subscriptionTier} tier user`);
     
@@ -200,9 +209,9 @@ router.delete('/events/:id', requireAuth, async (req, res) => {
 });
 
 // Create a new calendar event (supports both Google Calendar and direct Supabase)
-router.post('/events', requireAuth, async (req, res) => {
+router.post('/events', requireAuth, idempotency(), async (req, res) => {
   try {
-    const { summary, description, startTime, endTime, timeZone, location, useSupabase = false, eventType, taskId, goalId, isAllDay } = req.body;
+    const { summary, description, startTime, endTime, timeZone, location, useSupabase = false, eventType, taskId, goalId, isAllDay, icsUid } = req.body;
 
     logger.info('Creating calendar event:', { summary, startTime, endTime, useSupabase });
 
@@ -220,27 +229,69 @@ router.post('/events', requireAuth, async (req, res) => {
       }
 
       logger.info('Attempting to create event in Supabase...');
-      
-      // Create event directly in Supabase
-      const { data, error } = await supabase
+
+      const fields = {
+        title: summary,
+        description: description || '',
+        start_time: startTime,
+        end_time: endTime,
+        location: location || '',
+        event_type: eventType || 'event',
+        task_id: taskId || null,
+        goal_id: goalId || null,
+        is_all_day: !!isAllDay,
+        time_zone: timeZone || null,
+        updated_at: new Date().toISOString(),
+      };
+
+      // A file imported on several devices creates each occurrence once; later imports update it
+      const findImport = () => supabase
         .from('calendar_events')
-        .insert({
-          user_id: req.user.id,
-          title: summary,
-          description: description || '',
-          start_time: startTime,
-          end_time: endTime,
-          location: location || '',
-          event_type: eventType || 'event',
-          task_id: taskId || null,
-          goal_id: goalId || null,
-          is_all_day: !!isAllDay,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        })
+        .select('id')
+        .eq('user_id', req.user.id)
+        .eq('ics_uid', icsUid)
+        .maybeSingle();
+      const updateImport = (id) => supabase
+        .from('calendar_events')
+        .update(fields)
+        .eq('id', id)
+        .eq('user_id', req.user.id)
         .select()
         .single();
 
+      let existingImport = null;
+      if (icsUid) {
+        const { data: existing, error: lookupError } = await findImport();
+        if (lookupError) {
+          logger.error('Supabase error looking up imported calendar event:', lookupError);
+          return res.status(500).json({ error: 'Failed to create calendar event' });
+        }
+        existingImport = existing;
+      }
+
+      // Create event directly in Supabase
+      let { data, error } = existingImport
+        ? await updateImport(existingImport.id)
+        : await supabase
+          .from('calendar_events')
+          .insert({
+            ...fields,
+            user_id: req.user.id,
+            ics_uid: icsUid || null,
+            created_at: new Date().toISOString(),
+          })
+          .select()
+          .single();
+
+      // Another device inserted the same occurrence after the lookup (unique index on user_id, ics_uid)
+      if (error?.code === '23505' && icsUid) {
+        const { data: existing, error: lookupError } = await findImport();
+        if (!lookupError && existing) {
+          existingImport = existing;
+          ({ data, error } = await updateImport(existing.id));
+        }
+      }
+
       if (error) {
         logger.error('Supabase error creating calendar event:', error);
         return res.status(500).json({ 
@@ -263,7 +314,7 @@ router.post('/events', requireAuth, async (req, res) => {
         logger.error('Failed to send silent sync notification after event creation:', err);
       });
 
-      return res.status(201).json(data);
+      return res.status(existingImport ? 200 : 201).json(data);
     } else {
       // Use existing Google Calendar integration
       const eventData = {
@@ -294,7 +345,7 @@ router.post('/events', requireAuth, async (req, res) => {
 router.put('/events/:eventId', requireAuth, async (req, res) => {
   try {
     const { eventId } = req.params;
-    const { summary, description, startTime, endTime, timeZone, location, useSupabase = false, eventType, taskId, goalId, isAllDay, client_updated_at } = req.body;
+    const { summary, description, startTime, endTime, timeZone, location, useSupabase = false, eventType, taskId, goalId, isAllDay, icsUid, client_updated_at } = req.body;
 
     if (!summary || !startTime || !endTime) {
       return res.status(400).json({ 
@@ -353,6 +404,10 @@ router.put('/events/:eventId', requireAuth, async (req, res) => {
           task_id: taskId || null,
           goal_id: goalId || null,
           is_all_day: !!isAllDay,
+          // Older clients don't send a zone; keep the stored one
+          ...(timeZone ? { time_zone: timeZone } : {}),
+          // Only clients that send the UID change it
+          ...(icsUid !== undefined ? { ics_uid: icsUid || null } : {}),
           updated_at: new Date().toISOString(),
         })
         .eq('id', eventId)
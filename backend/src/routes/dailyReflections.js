@@ -0,0 +1,21 @@
+import express from 'express';
+import { requireAuth } from '../middleware/auth.js';
+import { idempotency } from '../middleware/idempotency.js';
+import {
+    createDailyReflection,
+    getDailyReflections,
+    updateDailyReflection,
+    deleteDailyReflection
+} from '../controllers/dailyReflectionsController.js';
+
+const router = express.Router();
+
+// Middleware to ensure authentication for all reflection routes
+router.use(requireAuth);
+
+router.post('/', idempotency(), createDailyReflection);
+router.get('/', getDailyReflections);
+router.put('/:id', updateDailyReflection);
+router.delete('/:id', deleteDailyReflection);
+
+export default router;
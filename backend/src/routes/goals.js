@@ -1,5 +1,6 @@
 import express from 'express';
 import { requireAuth } from '../middleware/enhancedAuth.js';
+import { idempotency } from '../middleware/idempotency.js';
 import {
   createGoal,
   getGoals,
@@ -31,7 +32,7 @@ const router = express.Router();
 // Goals router setup
 
 // Goal endpoints
-router.post('/', requireAuth, createGoal);
+router.post('/', requireAuth, idempotency(), createGoal);
 router.get('/', requireAuth, getGoals);
 router.get('/titles', requireAuth, getGoalTitles);
 router.get('/:id', requireAuth, getGoalById);
@@ -45,7 +46,7 @@ router.get('/milestones', requireAuth, getMilestones);
 router.get('/milestone-steps', requireAuth, getMilestoneSteps);
 
 // Milestone endpoints
-router.post('/:goalId/milestones', requireAuth, createMilestone);
+router.post('/:goalId/milestones', requireAuth, idempotency(), createMilestone);
 router.get('/:goalId/milestones', requireAuth, readMilestones);
 router.get('/:goalId/milestones/lookup', requireAuth, lookupMilestone); // lookup by title
 router.get('/milestones/:milestoneId', requireAuth, lookupMilestone); // lookup by id
@@ -53,7 +54,7 @@ router.put('/milestones/:milestoneId', requireAuth, updateMilestone);
 router.delete('/milestones/:milestoneId', requireAuth, deleteMilestone);
 
 // Step endpoints
-router.post('/milestones/:milestoneId/steps', requireAuth, createStep);
+router.post('/milestones/:milestoneId/steps', requireAuth, idempotency(), createStep);
 router.get('/milestones/:milestoneId/steps', requireAuth, readSteps);
 router.get('/milestones/:milestoneId/steps/lookup', requireAuth, lookupStep); // lookup by text
 router.get('/steps/:stepId', requireAuth, lookupStep); // lookup by id
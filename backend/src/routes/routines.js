@@ -1,5 +1,6 @@
 import express from 'express';
 import { requireAuth } from '../middleware/auth.js';
+import { idempotency } from '../middleware/idempotency.js';
 import {
     createRoutine,
     getRoutines,
@@ -17,14 +18,14 @@ const router = express.Router();
 router.use(requireAuth);
 
 // Base CRUD
-router.post('/', createRoutine);
+router.post('/', idempotency(), createRoutine);
 router.get('/', getRoutines);
 router.get('/:id', getRoutineById);
 router.put('/:id', updateRoutine);
 router.delete('/:id', deleteRoutine);
 
 // Completions
-router.post('/:id/complete', logCompletion);
+router.post('/:id/complete', idempotency(), logCompletion);
 router.post('/:id/undo', undoCompletion);
 router.post('/:id/reset', resetCompletions);
 
@@ -0,0 +1,21 @@
+import express from 'express';
+import { requireAuth } from '../middleware/auth.js';
+import { idempotency } from '../middleware/idempotency.js';
+import {
+    createSavedFilter,
+    getSavedFilters,
+    updateSavedFilter,
+    deleteSavedFilter
+} from '../controllers/savedFiltersController.js';
+
+const router = express.Router();
+
+// Middleware to ensure authentication for all saved filter routes
+router.use(requireAuth);
+
+router.post('/', idempotency(), createSavedFilter);
+router.get('/', getSavedFilters);
+router.put('/:id', updateSavedFilter);
+router.delete('/:id', deleteSavedFilter);
+
+export default router;
@@ -0,0 +1,21 @@
+import express from 'express';
+import { requireAuth } from '../middleware/auth.js';
+import { idempotency } from '../middleware/idempotency.js';
+import {
+    createChecklistItem,
+    getChecklistItems,
+    updateChecklistItem,
+    deleteChecklistItem
+} from '../controllers/taskChecklistController.js';
+
+const router = express.Router();
+
+// Middleware to ensure authentication for all checklist routes
+router.use(requireAuth);
+
+router.post('/', idempotency(), createChecklistItem);
+router.get('/', getChecklistItems);
+router.put('/:id', updateChecklistItem);
+router.delete('/:id', deleteChecklistItem);
+
+export default router;
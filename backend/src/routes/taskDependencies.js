@@ -0,0 +1,19 @@
+import express from 'express';
+import { requireAuth } from '../middleware/auth.js';
+import { idempotency } from '../middleware/idempotency.js';
+import {
+    createTaskDependency,
+    getTaskDependencies,
+    deleteTaskDependency
+} from '../controllers/taskDependenciesController.js';
+
+const router = express.Router();
+
+// Middleware to ensure authentication for all task dependency routes
+router.use(requireAuth);
+
+router.post('/', idempotency(), createTaskDependency);
+router.get('/', getTaskDependencies);
+router.delete('/:id', deleteTaskDependency);
+
+export default router;
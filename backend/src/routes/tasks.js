@@ -2,6 +2,7 @@ import express from 'express';
 import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
 import logger from '../utils/logger.js';
 import { requireAuth } from '../middleware/enhancedAuth.js';
+import { idempotency } from '../middleware/idempotency.js';
 import { body, param, query, validationResult } from 'express-validator';
 import { validateInput, commonValidations } from '../middleware/security.js';
 import {
@@ -27,6 +28,7 @@ import {
   getUnreadNotificationsCount,
   markAllNotificationsAsReadAndArchive
 } from '../services/notificationService.js';
+import { isValidRecurrencePattern } from '../services/recurringTaskService.js';
 
 // Rate limiter for archive-all endpoint to prevent abuse of expensive operation
 const archiveLimiter = rateLimit({
@@ -80,12 +82,8 @@ const taskValidation = [
     if (typeof value === 'string') {
       return value === 'none';
     }
-    // If it's an object, it must have a valid type
-    if (typeof value === 'object') {
-      if (!value.type) return false; // Reject objects without a type property
-      return ['daily', 'weekly', 'monthly'].includes(value.type);
-    }
-    return false;
+    // If it's an object, it must be a valid pattern
+    return isValidRecurrencePattern(value);
   }).withMessage('recurrence_pattern must be a valid recurrence object or "none"'),
   commonValidations.json('scheduling_preferences'),
   commonValidations.boolean('weather_dependent'),
@@ -108,11 +106,7 @@ const bulkTaskValidation = [
   body('tasks.*.recurrence_pattern').optional().custom(value => {
     if (value === null) return true;
     if (typeof value === 'string') return value === 'none';
-    if (typeof value === 'object') {
-      if (!value.type) return false; // Reject objects without a type property
-      return ['daily', 'weekly', 'monthly'].includes(value.type);
-    }
-    return false;
+    return isValidRecurrencePattern(value);
   }).withMessage('recurrence_pattern must be a valid recurrence object or "none"'),
   body('tasks.*.category').optional().isLength({ max: 100 }).trim().escape()
 ];
@@ -138,7 +132,7 @@ const autoScheduleTriggerValidation = [
   })
 ];
 
-router.post('/', requireAuth, taskValidation, validateInput, createTask);
+router.post('/', requireAuth, idempotency(), taskValidation, validateInput, createTask);
 router.post('/bulk', requireAuth, bulkTaskValidation, validateInput, bulkCreateTasks);
 router.get('/', requireAuth, getTasks);
 
@@ -50,6 +50,11 @@ import assistantChatRouter from './routes/assistantChat.js';
 import userRouter from './routes/user.js';
 import analyticsRouter from './routes/analytics.js';
 import routinesRouter from './routes/routines.js';
+import savedFiltersRouter from './routes/savedFilters.js';
+import taskDependenciesRouter from './routes/taskDependencies.js';
+import taskChecklistRouter from './routes/taskChecklist.js';
+import dailyReflectionsRouter from './routes/dailyReflections.js';
+import { pruneIdempotencyKeys } from './middleware/idempotency.js';
 import cron from 'node-cron';
 import { syncGoogleCalendarEvents } from './utils/syncService.js';
 import { autoScheduleTasks } from './controllers/autoSchedulingController.js';
@@ -146,7 +151,8 @@ const corsOptions = {
     'X-User-Mood',
     'X-User-Timezone',
     'X-CSRF-Token',
-    'X-Requested-With'
+    'X-Requested-With',
+    'Idempotency-Key'
   ],
   exposedHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset']
 };
@@ -248,6 +254,10 @@ app.use('/api/user', userRouter);
 
 app.use('/api/analytics', analyticsRouter);
 app.use('/api/routines', routinesRouter);
+app.use('/api/saved-filters', savedFiltersRouter);
+app.use('/api/task-dependencies', taskDependenciesRouter);
+app.use('/api/task-checklist-items', taskChecklistRouter);
+app.use('/api/daily-reflections', dailyReflectionsRouter);
 
 // Assistant UI streaming chat route (additive, does not affect mobile)
 if (process.env.DEBUG_LOGS === 'true') logger.info('Registering assistant chat router...');
@@ -809,6 +819,18 @@ const sendRoutineReminders = async () => {
 // Schedule routine reminders every 5 minutes
 cron.schedule('*/5 * * * *', sendRoutineReminders);
 
+// --- Idempotency Key Cleanup Cron Job ---
+cron.schedule('30 3 * * *', async () => {
+  try {
+    const removed = await pruneIdempotencyKeys();
+    logger.cron(`[CRON] Removed ${removed} expired idempotency keys`);
+  } catch (err) {
+    logger.error('[CRON] Error removing expired idempotency keys', err);
+  }
+}, {
+  timezone: 'America/Chicago'
+});
+
 // Initialize Firebase Admin SDK
 try {
   initializeFirebaseAdmin();
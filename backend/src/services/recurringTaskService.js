@@ -14,6 +14,45 @@ import logger from '../utils/logger.js';
 // HELPER FUNCTIONS
 // ============================================================================
 
+/**
+ * Add months to a date, clamping to the last day of the target month
+ * (e.g. Jan 31 + 1 month = Feb 28/29 instead of rolling into March)
+ * @param {Date} fromDate - Starting date
+ * @param {number} months - Months to add (may be negative)
+ * @returns {Date} Shifted date
+ */
+function addMonthsClamped(fromDate, months) {
+    const next = new Date(fromDate);
+    const day = next.getDate();
+    next.setDate(1);
+    next.setMonth(next.getMonth() + months);
+    const lastDayOfMonth = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+    next.setDate(Math.min(day, lastDayOfMonth));
+    return next;
+}
+
+/**
+ * Deduplicate, validate and sort day-of-week indices (0=Sun ... 6=Sat)
+ * @param {number[]} daysOfWeek - Raw day indices
+ * @returns {number[]} Sorted valid days
+ */
+function normalizeDaysOfWeek(daysOfWeek) {
+    return Array.from(new Set(
+        (daysOfWeek || []).filter(d => Number.isInteger(d) && d >= 0 && d <= 6)
+    )).sort((a, b) => a - b);
+}
+
+/**
+ * Calendar date key (YYYY-MM-DD), the format used by exclusionDates
+ * @param {Date} date - Date to format
+ * @returns {string} Date key
+ */
+export function toDateKey(date) {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
 /**
  * Get the next day of week from a list of target days
  * @param {Date} fromDate - Starting date
@@ -22,64 +61,178 @@ import logger from '../utils/logger.js';
  * @returns {Date} Next matching date
  */
 export function getNextMatchingDayOfWeek(fromDate, daysOfWeek, weekInterval = 1) {
-    if (!daysOfWeek || daysOfWeek.length === 0) {
+    const validDays = normalizeDaysOfWeek(daysOfWeek);
+    const next = new Date(fromDate);
+
+    if (validDays.length === 0) {
         // Default to same day next week if no days specified
-        const next = new Date(fromDate);
         next.setDate(next.getDate() + 7 * weekInterval);
         return next;
     }
 
-    // Sort days for consistent behavior
-    const sortedDays = [...daysOfWeek].sort((a, b) => a - b);
     const currentDay = fromDate.getDay();
 
     // Find the next day in the same week (if any)
-    let nextDay = sortedDays.find(d => d > currentDay);
+    const nextDay = validDays.find(d => d > currentDay);
 
     if (nextDay !== undefined) {
-        // Found a day later this week
-        const next = new Date(fromDate);
         next.setDate(next.getDate() + (nextDay - currentDay));
         return next;
     }
 
     // Move to first day of next interval week
-    const daysUntilNextWeek = 7 * weekInterval - currentDay + sortedDays[0];
-    const next = new Date(fromDate);
-    next.setDate(next.getDate() + daysUntilNextWeek);
+    next.setDate(next.getDate() + 7 * weekInterval - currentDay + validDays[0]);
     return next;
 }
 
 /**
- * Calculate the next due date based on recurrence pattern
+ * Find the nth day in a month that falls on one of daysOfWeek (nth = -1 for the last one),
+ * keeping the time of day from timeSource
+ * @param {number} year - Full year
+ * @param {number} month - Month index (0=Jan)
+ * @param {number[]} daysOfWeek - Target days (0=Sun ... 6=Sat)
+ * @param {number} nth - 1-based position, or negative to count from the end
+ * @param {Date} timeSource - Date whose time of day is kept
+ * @returns {Date|null} Matching date, or null when the month has no such day
+ */
+export function getNthWeekdayOfMonth(year, month, daysOfWeek, nth, timeSource) {
+    const validDays = normalizeDaysOfWeek(daysOfWeek);
+    if (validDays.length === 0 || !Number.isInteger(nth) || nth === 0) {
+        return null;
+    }
+
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const matches = [];
+    for (let day = 1; day <= daysInMonth; day++) {
+        if (validDays.includes(new Date(year, month, day).getDay())) {
+            matches.push(day);
+        }
+    }
+
+    const matchedDay = matches[nth > 0 ? nth - 1 : matches.length + nth];
+    if (matchedDay === undefined) {
+        return null;
+    }
+
+    const result = new Date(timeSource);
+    result.setFullYear(year, month, matchedDay);
+    return result;
+}
+
+/**
+ * Next nth-weekday occurrence strictly after fromDate.
+ * The current period is checked first so a due date that is not yet aligned
+ * to the rule snaps to it; then the search steps forward by monthStep months.
+ */
+function getNextNthWeekday(fromDate, pattern, startMonth, monthStep) {
+    let year = fromDate.getFullYear();
+    let month = startMonth;
+
+    // Rules such as "fifth Monday" skip months without a match; bound the search
+    for (let attempt = 0; attempt < 60; attempt++) {
+        const candidate = getNthWeekdayOfMonth(year, month, pattern.daysOfWeek, pattern.nthWeekday, fromDate);
+        if (candidate && candidate > fromDate) {
+            return candidate;
+        }
+        month += monthStep;
+        year += Math.floor(month / 12);
+        month = ((month % 12) + 12) % 12;
+    }
+
+    throw new Error('No matching occurrence found for recurrence pattern');
+}
+
+const RECURRENCE_TYPES = ['daily', 'weekly', 'monthly', 'yearly'];
+
+/**
+ * Check a recurrence pattern object the way mobile isValidRecurrencePattern does
+ * @param {Object} pattern - Recurrence pattern
+ * @returns {boolean} Whether the pattern can be saved
+ */
+export function isValidRecurrencePattern(pattern) {
+    if (!pattern || typeof pattern !== 'object' || Array.isArray(pattern)) return false;
+    if (!RECURRENCE_TYPES.includes(pattern.type)) return false;
+
+    // nthWeekday: 1-5 or -1 (last), only for monthly/yearly, with at least one day
+    if (pattern.nthWeekday !== undefined) {
+        const nth = pattern.nthWeekday;
+        if (!Number.isInteger(nth) || !(nth === -1 || (nth >= 1 && nth <= 5))) return false;
+        if (pattern.type !== 'monthly' && pattern.type !== 'yearly') return false;
+        if (!Array.isArray(pattern.daysOfWeek) || pattern.daysOfWeek.length === 0) return false;
+    }
+
+    // monthOfYear: 1-12, only for yearly
+    if (pattern.monthOfYear !== undefined) {
+        const month = pattern.monthOfYear;
+        if (!Number.isInteger(month) || month < 1 || month > 12 || pattern.type !== 'yearly') return false;
+    }
+
+    // exclusionDates: YYYY-MM-DD calendar dates
+    if (pattern.exclusionDates !== undefined) {
+        if (!Array.isArray(pattern.exclusionDates)) return false;
+        for (const date of pattern.exclusionDates) {
+            if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+            if (isNaN(new Date(date).getTime())) return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Calculate the next due date based on recurrence pattern.
+ * Mirrors mobile/src/utils/recurrenceEngine.ts so tasks advanced on either side land on the same date.
  * @param {Date} fromDate - Original due date
  * @param {Object} pattern - Recurrence pattern
  * @returns {Date} Next due date
  */
 export function calculateNextDueDate(fromDate, pattern) {
-    const next = new Date(fromDate);
-    const interval = pattern.interval || 1;
+    const interval = pattern.interval && pattern.interval > 0 ? pattern.interval : 1;
+    const usesNthWeekday = typeof pattern.nthWeekday === 'number' && pattern.nthWeekday !== 0;
 
     switch (pattern.type) {
-        case 'daily':
+        case 'daily': {
+            const next = new Date(fromDate);
             next.setDate(next.getDate() + interval);
-            break;
+            return next;
+        }
 
         case 'weekly':
-            if (pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
-                return getNextMatchingDayOfWeek(fromDate, pattern.daysOfWeek, interval);
-            } else {
-                next.setDate(next.getDate() + 7 * interval);
-            }
-            break;
+            return getNextMatchingDayOfWeek(fromDate, pattern.daysOfWeek, interval);
 
         case 'monthly':
-            next.setMonth(next.getMonth() + interval);
-            break;
+            return usesNthWeekday
+                ? getNextNthWeekday(fromDate, pattern, fromDate.getMonth(), interval)
+                : addMonthsClamped(fromDate, interval);
+
+        case 'yearly': {
+            const targetMonth = pattern.monthOfYear ? pattern.monthOfYear - 1 : fromDate.getMonth();
+            if (usesNthWeekday) {
+                return getNextNthWeekday(fromDate, pattern, targetMonth, 12 * interval);
+            }
+            const candidate = addMonthsClamped(fromDate, targetMonth - fromDate.getMonth());
+            return candidate > fromDate ? candidate : addMonthsClamped(candidate, 12 * interval);
+        }
 
         default:
             throw new Error(`Invalid recurrence type: ${pattern.type}`);
     }
+}
+
+/**
+ * Calculate the next due date, skipping dates listed in pattern.exclusionDates
+ * @param {Date} fromDate - Original due date
+ * @param {Object} pattern - Recurrence pattern
+ * @returns {Date} Next due date that is not excluded
+ */
+export function calculateNextOccurrence(fromDate, pattern) {
+    let next = calculateNextDueDate(fromDate, pattern);
+
+    // Occurrences strictly increase so each exclusion is hit at most once
+    const excluded = new Set(pattern.exclusionDates || []);
+    while (excluded.has(toDateKey(next))) {
+        next = calculateNextDueDate(next, pattern);
+    }
 
     return next;
 }
@@ -113,6 +266,9 @@ export function formatRecurrencePattern(pattern) {
         case 'monthly':
             base = interval === 1 ? 'Every month' : `Every ${interval} months`;
             break;
+        case 'yearly':
+            base = interval === 1 ? 'Every year' : `Every ${interval} years`;
+            break;
         default:
             return 'Custom recurrence';
     }
@@ -194,7 +350,7 @@ export async function processRecurringTask(task, token) {
     // 4. Calculate next due date
     let nextDueDate;
     try {
-        nextDueDate = calculateNextDueDate(originalDueDate, pattern);
+        nextDueDate = calculateNextOccurrence(originalDueDate, pattern);
     } catch (err) {
         logger.error('Failed to calculate next due date:', err);
         return null;
@@ -494,8 +650,11 @@ export async function getRecurrenceHistory(taskId, userId, token) {
 
 export default {
     processRecurringTask,
+    isValidRecurrencePattern,
     calculateNextDueDate,
+    calculateNextOccurrence,
     getNextMatchingDayOfWeek,
+    getNthWeekdayOfMonth,
     formatRecurrencePattern,
     logRecurringCompletion,
     rolloverMissedRecurringTasks,
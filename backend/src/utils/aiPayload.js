@@ -0,0 +1,229 @@
+import logger from './logger.js';
+
+/**
+ * Structured AI message payloads.
+ * Assistant replies that carry structured content (a goal breakdown, a schedule, goal titles or
+ * a task list) are saved with a versioned payload in conversation_messages.metadata:
+ *
+ *   { "actions": [...], "payload": { "version": 1, "type": "goal_breakdown", "data": { ... } } }
+ *
+ * The payload is built from the JSON block of the reply and validated here, so clients render
+ * the stored payload instead of scanning message text. Replies without structured content are
+ * saved with `payload: null`.
+ */
+
+export const AI_PAYLOAD_VERSION = 1;
+
+const isNonEmptyString = (value) => typeof value === 'string' && value.trim().length > 0;
+const isOptionalString = (value) => value === undefined || value === null || typeof value === 'string';
+
+// Returns the first error found in a non-empty list, or null
+const validateList = (value, name, validateEntry) => {
+  if (!Array.isArray(value) || value.length === 0) {
+    return `${name} must be a non-empty array`;
+  }
+  for (let i = 0; i < value.length; i++) {
+    const error = validateEntry(value[i]);
+    if (error) {
+      return `${name}[${i}]: ${error}`;
+    }
+  }
+  return null;
+};
+
+const PAYLOAD_VALIDATORS = {
+  goal_breakdown: (data) => {
+    if (typeof data?.title !== 'string' || typeof data?.description !== 'string') {
+      return 'title and description must be strings';
+    }
+    if (!isOptionalString(data.dueDate) || !isOptionalString(data.category)) {
+      return 'dueDate and category must be strings';
+    }
+    return validateList(data.milestones, 'milestones', (milestone) => {
+      if (!isNonEmptyString(milestone?.title)) {
+        return 'title is required';
+      }
+      if (!Array.isArray(milestone.steps)) {
+        return 'steps must be an array';
+      }
+      return milestone.steps.every(step => isNonEmptyString(step?.text)) ? null : 'every step needs text';
+    });
+  },
+  schedule: (data) => {
+    if (!isOptionalString(data?.title)) {
+      return 'title must be a string';
+    }
+    return validateList(data?.events, 'events', (event) => {
+      if (typeof event?.activity !== 'string') {
+        return 'activity must be a string';
+      }
+      if (!isNonEmptyString(event.startTime) || !isNonEmptyString(event.endTime)) {
+        return 'startTime and endTime are required';
+      }
+      return isOptionalString(event.date) ? null : 'date must be a string';
+    });
+  },
+  goal_titles: (data) => {
+    if (!isNonEmptyString(data?.title)) {
+      return 'title is required';
+    }
+    return validateList(data.goals, 'goals', goal => (isNonEmptyString(goal) ? null : 'must be a non-empty string'));
+  },
+  task_list: (data) => {
+    if (!isNonEmptyString(data?.title)) {
+      return 'title is required';
+    }
+    return validateList(data.tasks, 'tasks', (task) => {
+      if (!isNonEmptyString(task?.title)) {
+        return 'title is required';
+      }
+      const optional = [task.id, task.description, task.dueDate, task.priority, task.status];
+      return optional.every(isOptionalString) ? null : 'optional fields must be strings';
+    });
+  }
+};
+
+/**
+ * Checks a payload envelope against its type's schema.
+ * @returns {{ payload: Object } | { error: string }}
+ */
+export function validateAiPayload(value) {
+  if (!value || typeof value !== 'object') {
+    return { error: 'payload must be an object' };
+  }
+  if (!Number.isInteger(value.version) || value.version < 1 || value.version > AI_PAYLOAD_VERSION) {
+    return { error: `unsupported payload version: ${value.version}` };
+  }
+  if (!Object.prototype.hasOwnProperty.call(PAYLOAD_VALIDATORS, value.type)) {
+    return { error: `unknown payload type: ${String(value.type)}` };
+  }
+  const error = PAYLOAD_VALIDATORS[value.type](value.data);
+  if (error) {
+    return { error: `${value.type}: ${error}` };
+  }
+  return { payload: value };
+}
+
+const makePayload = (type, data) => ({ version: AI_PAYLOAD_VERSION, type, data });
+
+const toSteps = (steps) =>
+  (Array.isArray(steps) ? steps : [])
+    .map(step => (typeof step === 'string' ? step : step?.text || step?.title || ''))
+    .map(text => ({ text: String(text).trim() }))
+    .filter(step => step.text.length > 0);
+
+const toGoalData = (goal, fallbackTitle, category) => ({
+  title: goal?.title || fallbackTitle || '',
+  description: goal?.description || '',
+  dueDate: goal?.target_completion_date || goal?.due_date || goal?.dueDate || undefined,
+  category: category ?? goal?.category ?? goal?.priority ?? undefined,
+  milestones: (Array.isArray(goal?.milestones) ? goal.milestones : []).map(milestone => ({
+    title: String(milestone?.title || '').trim(),
+    steps: toSteps(milestone?.steps)
+  }))
+});
+
+const stringList = (value) => (Array.isArray(value) ? value.filter(entry => typeof entry === 'string') : []);
+
+/**
+ * Maps the JSON shapes the assistant produces onto a payload, or null when the object is not
+ * structured content.
+ */
+export function payloadFromStructuredJson(json) {
+  if (!json || typeof json !== 'object') {
+    return null;
+  }
+
+  if (json.category === 'goal') {
+    const titles = stringList(json.goals);
+    if (titles.length > 0) {
+      return makePayload('goal_titles', { title: json.title || 'Your Goals', goals: titles });
+    }
+    // { category: 'goal', goal: {...} }
+    if (json.goal && typeof json.goal === 'object') {
+      return makePayload('goal_breakdown', toGoalData(json.goal, json.title));
+    }
+    // { category: 'goal', title, milestones: [...] } (older schema; the priority doubled as category)
+    if (Array.isArray(json.milestones)) {
+      return makePayload('goal_breakdown', toGoalData({ ...json, category: undefined }, undefined, json.priority ?? undefined));
+    }
+  }
+
+  // Read action wrapper { action_type: 'read', entity_type: 'goal', details: {...} }
+  if (json.action_type === 'read' && json.entity_type === 'goal') {
+    const details = json.details || {};
+    const titles = stringList(details.goals);
+    if (titles.length > 0) {
+      return makePayload('goal_titles', { title: 'Your Goals', goals: titles });
+    }
+    const first = Array.isArray(details.goals) ? details.goals[0] : (Array.isArray(details) ? details[0] : details);
+    if (first && typeof first === 'object') {
+      return makePayload('goal_breakdown', toGoalData(first));
+    }
+  }
+
+  if (json.category === 'schedule' && Array.isArray(json.events)) {
+    return makePayload('schedule', {
+      title: typeof json.title === 'string' ? json.title : undefined,
+      events: json.events.map(event => ({
+        activity: event?.title || event?.summary || '',
+        // Both startTime/endTime and ISO start/end keys are in use
+        startTime: event?.startTime || event?.start?.dateTime || event?.start || event?.start_time || '',
+        endTime: event?.endTime || event?.end?.dateTime || event?.end || event?.end_time || '',
+        date: event?.date || event?.dateLabel || undefined
+      }))
+    });
+  }
+
+  if (json.category === 'task' && Array.isArray(json.tasks)) {
+    return makePayload('task_list', {
+      title: json.title || 'Your Tasks',
+      tasks: json.tasks.map(task => ({
+        id: task?.id,
+        title: task?.title || task?.text || '',
+        description: task?.description || '',
+        dueDate: task?.dueDate || task?.due_date,
+        priority: task?.priority,
+        status: task?.status
+      }))
+    });
+  }
+
+  return null;
+}
+
+// The fenced ```json block of a reply, or the reply itself when it is bare JSON
+function extractJson(text) {
+  const candidates = [
+    text.match(/```json\s*(\{[\s\S]*?\})\s*```/i)?.[1],
+    text.match(/\{[\s\S]*\}/)?.[0]
+  ];
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue;
+    }
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
+
+/**
+ * Builds the validated payload of an assistant reply.
+ * @param {string} message - The reply text
+ * @returns {Object|null} The payload, or null when the reply has no valid structured content
+ */
+export function buildAiPayload(message) {
+  const candidate = payloadFromStructuredJson(extractJson(String(message || '')));
+  if (!candidate) {
+    return null;
+  }
+  const { payload, error } = validateAiPayload(candidate);
+  if (error) {
+    logger.warn('Discarding invalid AI message payload', { error });
+  }
+  return payload ?? null;
+}
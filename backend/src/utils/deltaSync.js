@@ -0,0 +1,55 @@
+import { parsePageParams, applyPage, toPage } from './pagination.js';
+
+/**
+ * Delta sync responses for list endpoints.
+ * With `since` or paging params (`limit`, `cursor`) a list endpoint returns
+ * `{ changed, deleted, next_cursor }` instead of its plain list. Deleted IDs come from
+ * deleted_records and are returned with the first page only.
+ */
+
+/**
+ * Reads `since` and the paging params from a request query.
+ * @returns {{ delta: { since: string | null, page: Object | null } | null, error?: string }}
+ *   `delta` is null when the request asks for the plain list
+ */
+export function parseDeltaParams(query = {}) {
+  const { since } = query;
+  if (since && isNaN(Date.parse(since))) {
+    return { delta: null, error: 'Invalid since parameter. Expected ISO 8601 date string.' };
+  }
+  const { page, error } = parsePageParams(query);
+  if (error) {
+    return { delta: null, error };
+  }
+  return { delta: since || page ? { since: since || null, page } : null };
+}
+
+/**
+ * Runs a query already filtered to the user's rows as a delta response.
+ * @param {Object} supabase - Client used to read deleted_records
+ * @param {Object} query - Supabase select query on `table`
+ * @param {{ table: string, userId: string, since: string | null, page: Object | null }} options
+ * @returns {Promise<{ changed: any[], deleted: string[], next_cursor: string | null }>}
+ */
+export async function fetchDelta(supabase, query, { table, userId, since, page }) {
+  const changedQuery = since ? query.gt('updated_at', since) : query;
+  const { data: rows, error } = await (page ? applyPage(changedQuery, page) : changedQuery.order('updated_at', { ascending: true }));
+  if (error) throw error;
+
+  const { rows: changed, nextCursor } = page ? toPage(rows, page) : { rows, nextCursor: null };
+
+  let deleted = [];
+  if (since && !page?.position) {
+    const { data: deletedData, error: deletedError } = await supabase
+      .from('deleted_records')
+      .select('record_id')
+      .eq('user_id', userId)
+      .eq('table_name', table)
+      .gt('deleted_at', since);
+
+    if (deletedError) throw deletedError;
+    deleted = deletedData.map(r => r.record_id);
+  }
+
+  return { changed, deleted, next_cursor: nextCursor };
+}
@@ -0,0 +1,102 @@
+/**
+ * Keyset pagination for delta sync endpoints.
+ * Pages are ordered by (updated_at, id). A row that changes while a client is paging moves
+ * to a later page rather than being skipped, so a client can page through large accounts
+ * and resume from its last cursor.
+ */
+
+export const DEFAULT_PAGE_SIZE = 500;
+export const MAX_PAGE_SIZE = 1000;
+
+/**
+ * Encodes the position after a row as an opaque cursor.
+ * @param {{ id: string, updated_at: string }} row
+ * @returns {string}
+ */
+export function encodeCursor(row) {
+  return Buffer.from(JSON.stringify({ updatedAt: row.updated_at, id: row.id })).toString('base64url');
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Postgres timestamps carry up to microseconds, which a Date drops
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.(\d{1,6}))?(?:Z|[+-]\d{2}:?\d{2})$/;
+
+/**
+ * The position goes into a PostgREST filter string, so only a UUID and a rebuilt UTC timestamp
+ * are accepted from it.
+ * @param {string} cursor
+ * @returns {{ updatedAt: string, id: string } | null} The position, or null if the cursor is malformed
+ */
+export function decodeCursor(cursor) {
+  try {
+    const position = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    if (typeof position?.id !== 'string' || !UUID.test(position.id) || typeof position?.updatedAt !== 'string') {
+      return null;
+    }
+    const timestamp = TIMESTAMP.exec(position.updatedAt);
+    if (!timestamp || isNaN(Date.parse(position.updatedAt))) {
+      return null;
+    }
+    const fraction = (timestamp[1] || '').padEnd(6, '0');
+    const updatedAt = new Date(position.updatedAt).toISOString().replace(/\.\d{3}Z$/, `.${fraction}Z`);
+    return { updatedAt, id: position.id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads `limit` and `cursor` from a request query. Paging is only enabled when one of them is
+ * present, so clients that do not page keep getting the full response.
+ * @returns {{ page: { limit: number, position: { updatedAt: string, id: string } | null } | null, error?: string }}
+ */
+export function parsePageParams(query = {}) {
+  const { limit, cursor } = query;
+  if (limit === undefined && cursor === undefined) {
+    return { page: null };
+  }
+
+  const parsedLimit = limit === undefined ? DEFAULT_PAGE_SIZE : parseInt(String(limit), 10);
+  if (!Number.isFinite(parsedLimit) || parsedLimit < 1) {
+    return { page: null, error: 'Invalid limit parameter. Expected a positive integer.' };
+  }
+
+  let position = null;
+  if (cursor) {
+    position = decodeCursor(cursor);
+    if (!position) {
+      return { page: null, error: 'Invalid cursor parameter.' };
+    }
+  }
+
+  return { page: { limit: Math.min(parsedLimit, MAX_PAGE_SIZE), position } };
+}
+
+/**
+ * Restricts a Supabase query to one page. One extra row is fetched to tell whether more pages follow.
+ */
+export function applyPage(query, page) {
+  let pagedQuery = query;
+  if (page.position) {
+    const { updatedAt, id } = page.position;
+    pagedQuery = pagedQuery.or(`updated_at.gt."${updatedAt}",and(updated_at.eq."${updatedAt}",id.gt.${id})`);
+  }
+  return pagedQuery
+    .order('updated_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(page.limit + 1);
+}
+
+/**
+ * Splits the rows of a paged query into the page and the cursor of the next page.
+ * @returns {{ rows: any[], nextCursor: string | null }}
+ */
+export function toPage(rows, page) {
+  const allRows = rows || [];
+  const hasMore = allRows.length > page.limit;
+  const pageRows = hasMore ? allRows.slice(0, page.limit) : allRows;
+  return {
+    rows: pageRows,
+    nextCursor: hasMore ? encodeCursor(pageRows[pageRows.length - 1]) : null
+  };
+}
@@ -1,5 +1,6 @@
 import { listCalendarEvents } from './calendarService.js';
 import logger from './logger.js';
+import { applyPage, toPage } from './pagination.js';
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
 const env = process.env.NODE_ENV || 'development';
@@ -53,6 +54,8 @@ export async function syncGoogleCalendarEvents(userId) {
           location: location || '',
           event_type: 'event',
           is_all_day: isAllDay,
+          // All-day events carry no zone in Google; timed ones name the zone they were created in
+          time_zone: start?.timeZone || null,
           updated_at: new Date().toISOString(),
         }
       ], { onConflict: 'google_calendar_id,user_id' });
@@ -76,18 +79,18 @@ export async function syncGoogleCalendarEvents(userId) {
  * @param {Date} timeMax - end time filter (optional)
  * @param {string} taskId - filter by task ID (optional)
  * @param {string} since - filter by updated_at timestamp (optional, for delta sync)
+ * @param {{ limit: number, position: object | null }} page - keyset page from parsePageParams (optional);
+ *   replaces maxResults and adds next_cursor to the result
  * @returns {Promise<Array>} events from database
  */
-export async function getCalendarEventsFromDB(userId, maxResults = 100, timeMin = null, timeMax = null, taskId = null, since = null) {
+export async function getCalendarEventsFromDB(userId, maxResults = 100, timeMin = null, timeMax = null, taskId = null, since = null, page = null) {
   try {
 
 
     let query = supabase
       .from('calendar_events')
       .select('*')
-      .eq('user_id', userId)
-      .order('start_time', { ascending: true })
-      .limit(maxResults);
+      .eq('user_id', userId);
 
     // Add time filters if provided
     if (timeMin && !since) { // Do not apply timeMin if `since` is used
@@ -110,20 +113,27 @@ export async function getCalendarEventsFromDB(userId, maxResults = 100, timeMin
       }
       query = query.gt('updated_at', since);
     }
-    const { data, error } = await query;
+
+    query = page
+      ? applyPage(query, page)
+      : query.order('start_time', { ascending: true }).limit(maxResults);
+
+    const { data: rows, error } = await query;
 
     if (error) {
       logger.error('Error fetching events from database:', error);
       throw error;
     }
 
+    const { rows: data, nextCursor } = page ? toPage(rows, page) : { rows, nextCursor: null };
+
     // Transform database format to match frontend shape and include new fields
     const changed = data.map(event => ({
       id: event.id,
       summary: event.title,
       description: event.description,
-      start: { dateTime: event.start_time, timeZone: 'UTC' },
-      end: { dateTime: event.end_time, timeZone: 'UTC' },
+      start: { dateTime: event.start_time, timeZone: event.time_zone || 'UTC' },
+      end: { dateTime: event.end_time, timeZone: event.time_zone || 'UTC' },
       location: event.location,
       created: event.created_at,
       updated: event.updated_at,
@@ -131,11 +141,17 @@ export async function getCalendarEventsFromDB(userId, maxResults = 100, timeMin
       event_type: event.event_type,
       task_id: event.task_id,
       goal_id: event.goal_id,
-      is_all_day: event.is_all_day
+      is_all_day: event.is_all_day,
+      // null when unknown; start.timeZone falls back to 'UTC' for older clients
+      time_zone: event.time_zone || null,
+      // Set for events imported from an .ics file; clients match their imports on it per user
+      ics_uid: event.ics_uid || null,
+      user_id: event.user_id
     }));
 
     let deleted = [];
-    if (since) {
+    // When paging, deletions are returned with the first page only
+    if (since && !page?.position) {
       const { data: deletedData, error: deletedError } = await supabase
         .from('deleted_records')
         .select('record_id')
@@ -150,7 +166,7 @@ export async function getCalendarEventsFromDB(userId, maxResults = 100, timeMin
         deleted = deletedData.map(r => r.record_id);
       }
     }
-    return { changed, deleted };
+    return page ? { changed, deleted, next_cursor: nextCursor } : { changed, deleted };
     
   } catch (error) {
     logger.error('Error getting calendar events from database:', error);
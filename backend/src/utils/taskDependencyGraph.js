@@ -0,0 +1,65 @@
+/**
+ * Task dependency graph helpers.
+ * A link { task_id, depends_on_task_id } means task_id is blocked until depends_on_task_id
+ * is completed. Mirrors mobile/src/utils/taskDependencies.ts.
+ */
+
+/**
+ * Whether adding "taskId depends on dependsOnTaskId" would close a cycle, i.e. whether
+ * dependsOnTaskId already depends on taskId directly or through other tasks.
+ * @param {{ task_id: string, depends_on_task_id: string }[]} links - Existing links
+ * @param {string} taskId
+ * @param {string} dependsOnTaskId
+ * @returns {boolean}
+ */
+export function wouldCreateCycle(links, taskId, dependsOnTaskId) {
+  if (taskId === dependsOnTaskId) {
+    return true;
+  }
+
+  const dependsOn = new Map();
+  for (const link of links) {
+    if (!dependsOn.has(link.task_id)) {
+      dependsOn.set(link.task_id, []);
+    }
+    dependsOn.get(link.task_id).push(link.depends_on_task_id);
+  }
+
+  const visited = new Set();
+  const stack = [dependsOnTaskId];
+  while (stack.length > 0) {
+    const current = stack.pop();
+    if (current === taskId) {
+      return true;
+    }
+    if (visited.has(current)) {
+      continue;
+    }
+    visited.add(current);
+    stack.push(...(dependsOn.get(current) || []));
+  }
+  return false;
+}
+
+/**
+ * Maps each blocked task to the IDs of its prerequisites that are not completed yet.
+ * Links to tasks that no longer exist are ignored.
+ * @param {{ task_id: string, depends_on_task_id: string }[]} links
+ * @param {{ id: string, status: string }[]} tasks
+ * @returns {Map<string, string[]>}
+ */
+export function getOpenBlockers(links, tasks) {
+  const statusById = new Map(tasks.map(task => [task.id, task.status]));
+  const blockers = new Map();
+  for (const link of links) {
+    const status = statusById.get(link.depends_on_task_id);
+    if (status === undefined || status === 'completed') {
+      continue;
+    }
+    if (!blockers.has(link.task_id)) {
+      blockers.set(link.task_id, []);
+    }
+    blockers.get(link.task_id).push(link.depends_on_task_id);
+  }
+  return blockers;
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { AI_PAYLOAD_VERSION, buildAiPayload, validateAiPayload } from '../src/utils/aiPayload.js';
+
+describe('AI message payloads', () => {
+  it('builds a goal breakdown from the fenced JSON of a reply', () => {
+    const reply = [
+      'Here is a plan for you.',
+      '```json',
+      JSON.stringify({
+        category: 'goal',
+        goal: {
+          title: 'Run a marathon',
+          description: 'Train for the spring race',
+          milestones: [{ title: 'Base building', steps: ['Run 3 times a week', { text: 'Long run on Sunday' }] }]
+        }
+      }),
+      '```'
+    ].join('\n');
+
+    expect(buildAiPayload(reply)).toEqual({
+      version: AI_PAYLOAD_VERSION,
+      type: 'goal_breakdown',
+      data: {
+        title: 'Run a marathon',
+        description: 'Train for the spring race',
+        dueDate: undefined,
+        category: undefined,
+        milestones: [{ title: 'Base building', steps: [{ text: 'Run 3 times a week' }, { text: 'Long run on Sunday' }] }]
+      }
+    });
+  });
+
+  it('builds schedules and task lists', () => {
+    const schedule = buildAiPayload(JSON.stringify({
+      category: 'schedule',
+      events: [{ title: 'Standup', start: '2024-01-10T09:00:00Z', end: '2024-01-10T09:15:00Z' }]
+    }));
+    expect(schedule.type).toBe('schedule');
+    expect(schedule.data.events[0]).toMatchObject({ activity: 'Standup', startTime: '2024-01-10T09:00:00Z' });
+
+    const tasks = buildAiPayload('```json\n{"category":"task","tasks":[{"title":"File taxes","priority":"high"}]}\n```');
+    expect(tasks).toMatchObject({ type: 'task_list', data: { title: 'Your Tasks', tasks: [{ title: 'File taxes', priority: 'high' }] } });
+  });
+
+  it('returns null for prose and for structured content that fails validation', () => {
+    expect(buildAiPayload('Sure, I moved your meeting to 3pm.')).toBeNull();
+    expect(buildAiPayload('```json\n{"category":"goal","goals":[]}\n```')).toBeNull();
+    // A schedule event without times would render as a blank card
+    expect(buildAiPayload('{"category":"schedule","events":[{"title":"Gym"}]}')).toBeNull();
+  });
+
+  it('rejects unknown types and unsupported versions', () => {
+    expect(validateAiPayload({ version: 1, type: 'poll', data: {} }).error).toMatch(/unknown payload type/);
+    expect(validateAiPayload({ version: AI_PAYLOAD_VERSION + 1, type: 'goal_titles', data: { title: 'x', goals: ['a'] } }).error)
+      .toMatch(/version/);
+    expect(validateAiPayload({ version: 1, type: 'goal_titles', data: { title: 'Goals', goals: ['Read more'] } }).payload)
+      .toBeDefined();
+  });
+});
@@ -0,0 +1,109 @@
+import request from 'supertest';
+import app from '../src/server.js';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('../src/middleware/enhancedAuth.js', async (importOriginal) => ({
+  ...await importOriginal(),
+  requireAuth: (req, _res, next) => {
+    req.user = { id: 'test-user-id', email: 'test@example.com' };
+    next();
+  }
+}));
+
+vi.mock('../src/services/notificationService.js', async (importOriginal) => ({
+  ...await importOriginal(),
+  sendSilentSyncNotification: vi.fn(async () => {})
+}));
+
+// Each query on calendar_events takes the next queued result for its kind
+const db = vi.hoisted(() => ({ lookups: [], inserts: [], updates: [], updatedIds: [] }));
+
+vi.mock('@supabase/supabase-js', () => {
+  const builder = () => {
+    let kind = 'lookup';
+    const obj = {
+      select: vi.fn(() => obj),
+      insert: vi.fn(() => {
+        kind = 'insert';
+        return obj;
+      }),
+      update: vi.fn(() => {
+        kind = 'update';
+        return obj;
+      }),
+      eq: vi.fn((column, value) => {
+        if (kind === 'update' && column === 'id') db.updatedIds.push(value);
+        return obj;
+      }),
+      maybeSingle: vi.fn(async () => db.lookups.shift()),
+      single: vi.fn(async () => (kind === 'insert' ? db.inserts.shift() : db.updates.shift()))
+    };
+    return obj;
+  };
+  const from = vi.fn(() => builder());
+  const channel = vi.fn(() => ({ send: vi.fn(async () => {}) }));
+  return { createClient: vi.fn(() => ({ from, channel })) };
+});
+
+const importedEvent = {
+  summary: 'Team offsite',
+  startTime: '2026-11-02T09:00:00.000Z',
+  endTime: '2026-11-02T17:00:00.000Z',
+  useSupabase: true,
+  icsUid: 'offsite-1@example.com'
+};
+
+describe('POST /api/calendar/events with an .ics UID', () => {
+  beforeEach(() => {
+    process.env.NODE_ENV = 'test';
+    process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost';
+    process.env.SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || 'anon';
+    db.lookups = [];
+    db.inserts = [];
+    db.updates = [];
+    db.updatedIds = [];
+  });
+
+  it('updates the event another device already imported', async () => {
+    db.lookups.push({ data: { id: 'evt-1' }, error: null });
+    db.updates.push({ data: { id: 'evt-1', title: 'Team offsite' }, error: null });
+
+    const res = await request(app)
+      .post('/api/calendar/events')
+      .set('Authorization', 'Bearer test')
+      .send(importedEvent)
+      .expect(200);
+
+    expect(res.body.id).toBe('evt-1');
+    expect(db.updatedIds).toEqual(['evt-1']);
+  });
+
+  it('updates the existing row when a concurrent import wins the insert', async () => {
+    db.lookups.push({ data: null, error: null }, { data: { id: 'evt-2' }, error: null });
+    db.inserts.push({ data: null, error: { code: '23505', message: 'duplicate key value' } });
+    db.updates.push({ data: { id: 'evt-2', title: 'Team offsite' }, error: null });
+
+    const res = await request(app)
+      .post('/api/calendar/events')
+      .set('Authorization', 'Bearer test')
+      .send(importedEvent)
+      .expect(200);
+
+    expect(res.body.id).toBe('evt-2');
+    expect(db.updatedIds).toEqual(['evt-2']);
+  });
+
+  it('creates the event when the UID is new', async () => {
+    db.lookups.push({ data: null, error: null });
+    db.inserts.push({ data: { id: 'evt-3', title: 'Team offsite' }, error: null });
+
+    const res = await request(app)
+      .post('/api/calendar/events')
+      .set('Authorization', 'Bearer test')
+      .send(importedEvent)
+      .expect(201);
+
+    expect(res.body.id).toBe('evt-3');
+    expect(db.updatedIds).toEqual([]);
+  });
+});
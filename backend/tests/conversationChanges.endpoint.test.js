@@ -0,0 +1,98 @@
+import request from 'supertest';
+import app from '../src/server.js';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('../src/middleware/enhancedAuth.js', async (importOriginal) => ({
+  ...await importOriginal(),
+  requireAuth: (req, _res, next) => {
+    req.user = { id: 'test-user-id', email: 'test@example.com' };
+    next();
+  }
+}));
+
+const tables = vi.hoisted(() => ({ rows: {}, filters: [] }));
+
+// Mock Supabase query builder; awaiting it resolves with the rows set for its table
+vi.mock('@supabase/supabase-js', () => {
+  const builder = (table) => {
+    const obj = {
+      select: vi.fn(() => obj),
+      eq: vi.fn((column, value) => {
+        tables.filters.push({ table, column, value, op: 'eq' });
+        return obj;
+      }),
+      gt: vi.fn((column, value) => {
+        tables.filters.push({ table, column, value, op: 'gt' });
+        return obj;
+      }),
+      order: vi.fn(() => obj),
+      then: (resolve) => resolve({ data: tables.rows[table] || [], error: null }),
+    };
+    return obj;
+  };
+  const from = vi.fn((table) => builder(table));
+  return { createClient: vi.fn(() => ({ from })) };
+});
+
+describe('Conversation delta sync endpoints', () => {
+  beforeEach(() => {
+    process.env.NODE_ENV = 'test';
+    tables.rows = {};
+    tables.filters = [];
+  });
+
+  it('returns changed threads and treats soft-deleted threads as deleted', async () => {
+    tables.rows.conversation_threads = [
+      { id: 'thread-1', title: 'Planning', is_active: true },
+      { id: 'thread-2', title: 'Old', is_active: false },
+    ];
+    tables.rows.deleted_records = [{ record_id: 'thread-3' }];
+
+    const res = await request(app)
+      .get('/api/ai/threads/changes?since=2024-01-10T09:00:00.000Z')
+      .set('Authorization', 'Bearer test')
+      .expect(200);
+
+    expect(res.body.changed.map(thread => thread.id)).toEqual(['thread-1']);
+    expect(res.body.deleted).toEqual(['thread-2', 'thread-3']);
+    expect(tables.filters).toContainEqual({
+      table: 'conversation_threads', column: 'updated_at', value: '2024-01-10T09:00:00.000Z', op: 'gt'
+    });
+  });
+
+  it('returns only active threads on a full pull', async () => {
+    tables.rows.conversation_threads = [{ id: 'thread-1', title: 'Planning', is_active: true }];
+
+    const res = await request(app)
+      .get('/api/ai/threads/changes')
+      .set('Authorization', 'Bearer test')
+      .expect(200);
+
+    expect(res.body).toEqual({ changed: [{ id: 'thread-1', title: 'Planning', is_active: true }], deleted: [] });
+    expect(tables.filters).toContainEqual({ table: 'conversation_threads', column: 'is_active', value: true, op: 'eq' });
+  });
+
+  it('returns changed and deleted messages without the joined thread columns', async () => {
+    tables.rows.conversation_messages = [
+      { id: 'message-1', thread_id: 'thread-1', role: 'user', content: 'Hi', conversation_threads: { is_active: true } },
+    ];
+    tables.rows.deleted_records = [{ record_id: 'message-2' }];
+
+    const res = await request(app)
+      .get('/api/ai/messages/changes?since=2024-01-10T09:00:00.000Z')
+      .set('Authorization', 'Bearer test')
+      .expect(200);
+
+    expect(res.body.changed).toEqual([{ id: 'message-1', thread_id: 'thread-1', role: 'user', content: 'Hi' }]);
+    expect(res.body.deleted).toEqual(['message-2']);
+  });
+
+  it('rejects an invalid since parameter', async () => {
+    const res = await request(app)
+      .get('/api/ai/messages/changes?since=yesterday')
+      .set('Authorization', 'Bearer test')
+      .expect(400);
+
+    expect(res.body.code).toBe('VALIDATION_ERROR');
+  });
+});
@@ -0,0 +1,87 @@
+import request from 'supertest';
+import app from '../src/server.js';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('../src/middleware/auth.js', () => ({
+  requireAuth: (req, _res, next) => {
+    req.user = { id: 'test-user-id', email: 'test@example.com' };
+    next();
+  }
+}));
+
+const tables = vi.hoisted(() => ({ rows: {}, filters: [] }));
+
+// Mock Supabase query builder; awaiting it resolves with the rows set for its table
+vi.mock('@supabase/supabase-js', () => {
+  const builder = (table) => {
+    const record = (op) => vi.fn((column, value) => {
+      tables.filters.push({ table, column, value, op });
+      return obj;
+    });
+    const obj = {
+      select: vi.fn(() => obj),
+      eq: record('eq'),
+      gt: record('gt'),
+      gte: record('gte'),
+      lte: record('lte'),
+      or: vi.fn(() => obj),
+      order: vi.fn(() => obj),
+      limit: vi.fn(() => obj),
+      then: (resolve) => resolve({ data: tables.rows[table] || [], error: null }),
+    };
+    return obj;
+  };
+  const from = vi.fn((table) => builder(table));
+  return { createClient: vi.fn(() => ({ from })) };
+});
+
+const reflection = { id: 'reflection-1', reflection_date: '2024-01-10', note: 'Good focus day' };
+
+describe('GET /api/daily-reflections delta sync', () => {
+  beforeEach(() => {
+    process.env.NODE_ENV = 'test';
+    tables.rows = {};
+    tables.filters = [];
+  });
+
+  it('returns the plain list for a date range', async () => {
+    tables.rows.daily_reflections = [reflection];
+
+    const res = await request(app)
+      .get('/api/daily-reflections?from=2024-01-01&to=2024-01-31')
+      .set('Authorization', 'Bearer test')
+      .expect(200);
+
+    expect(res.body).toEqual([reflection]);
+    expect(tables.filters).toContainEqual({ table: 'daily_reflections', column: 'reflection_date', value: '2024-01-01', op: 'gte' });
+    expect(tables.filters.some(filter => filter.table === 'deleted_records')).toBe(false);
+  });
+
+  it('returns changed and deleted reflections since a time', async () => {
+    tables.rows.daily_reflections = [reflection];
+    tables.rows.deleted_records = [{ record_id: 'reflection-2' }];
+
+    const res = await request(app)
+      .get('/api/daily-reflections?since=2024-01-10T09:00:00.000Z')
+      .set('Authorization', 'Bearer test')
+      .expect(200);
+
+    expect(res.body).toEqual({ changed: [reflection], deleted: ['reflection-2'], next_cursor: null });
+    expect(tables.filters).toContainEqual({
+      table: 'daily_reflections', column: 'updated_at', value: '2024-01-10T09:00:00.000Z', op: 'gt'
+    });
+    expect(tables.filters).toContainEqual({ table: 'deleted_records', column: 'table_name', value: 'daily_reflections', op: 'eq' });
+  });
+
+  it('rejects an invalid since or cursor', async () => {
+    await request(app)
+      .get('/api/daily-reflections?since=yesterday')
+      .set('Authorization', 'Bearer test')
+      .expect(400);
+
+    await request(app)
+      .get('/api/daily-reflections?cursor=not-a-cursor')
+      .set('Authorization', 'Bearer test')
+      .expect(400);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import {
+  idempotency,
+  createMemoryIdempotencyStore,
+  createSupabaseIdempotencyStore
+} from '../src/middleware/idempotency.js';
+
+describe('Idempotency middleware', () => {
+  let app;
+  let created;
+
+  beforeEach(() => {
+    const store = createMemoryIdempotencyStore();
+    created = 0;
+    app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      req.user = { id: req.get('X-Test-User') || 'user-1' };
+      next();
+    });
+    app.post('/tasks', idempotency({ store }), (req, res) => {
+      if (req.body.fail) {
+        return res.status(500).json({ error: 'Failed' });
+      }
+      created += 1;
+      res.status(201).json({ id: `task-${created}`, title: req.body.title });
+    });
+  });
+
+  it('creates once and replays the stored response for a retried key', async () => {
+    const first = await request(app).post('/tasks').set('Idempotency-Key', 'key-1').send({ title: 'Stretch' });
+    const retry = await request(app).post('/tasks').set('Idempotency-Key', 'key-1').send({ title: 'Stretch' });
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(created).toBe(1);
+  });
+
+  it('handles requests without a key or with a different key normally', async () => {
+    await request(app).post('/tasks').send({ title: 'A' });
+    await request(app).post('/tasks').send({ title: 'A' });
+    await request(app).post('/tasks').set('Idempotency-Key', 'key-2').send({ title: 'B' });
+
+    expect(created).toBe(3);
+  });
+
+  it('keeps keys separate per user', async () => {
+    await request(app).post('/tasks').set('Idempotency-Key', 'shared').set('X-Test-User', 'user-1').send({ title: 'A' });
+    const other = await request(app).post('/tasks').set('Idempotency-Key', 'shared').set('X-Test-User', 'user-2').send({ title: 'B' });
+
+    expect(other.body.title).toBe('B');
+    expect(created).toBe(2);
+  });
+
+  it('does not store failed responses so they can be retried', async () => {
+    const failed = await request(app).post('/tasks').set('Idempotency-Key', 'key-3').send({ fail: true });
+    const retry = await request(app).post('/tasks').set('Idempotency-Key', 'key-3').send({ title: 'Stretch' });
+
+    expect(failed.status).toBe(500);
+    expect(retry.status).toBe(201);
+    expect(created).toBe(1);
+  });
+
+  it('rejects keys that are too long', async () => {
+    const response = await request(app).post('/tasks').set('Idempotency-Key', 'k'.repeat(256)).send({ title: 'A' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('handles the request normally when the store is unavailable', async () => {
+    const failing = {
+      claim: async () => { throw new Error('connection refused'); }
+    };
+    app.post('/goals', idempotency({ store: failing }), (req, res) => res.status(201).json({ ok: true }));
+
+    const response = await request(app).post('/goals').set('Idempotency-Key', 'key-4').send({});
+
+    expect(response.status).toBe(201);
+  });
+});
+
+describe('Supabase idempotency store', () => {
+  // Minimal stand-in for the idempotency_keys table
+  const createFakeClient = (rows) => ({
+    from: () => {
+      let action = null;
+      let values = null;
+      const filters = [];
+      const matches = (row) => filters.every(([column, value, op]) => (
+        op === 'lt' ? row[column] < value : row[column] === value
+      ));
+      const run = () => {
+        if (action === 'insert') {
+          if (rows.some(row => row.cache_key === values.cache_key)) {
+            return { error: { code: '23505' } };
+          }
+          rows.push({ ...values });
+          return { error: null };
+        }
+        const matched = rows.filter(matches);
+        if (action === 'delete') {
+          matched.forEach(row => rows.splice(rows.indexOf(row), 1));
+        } else if (action === 'update') {
+          matched.forEach(row => Object.assign(row, values));
+        }
+        return { data: matched, error: null };
+      };
+      const query = {
+        insert: (v) => { action = 'insert'; values = v; return query; },
+        update: (v) => { action = 'update'; values = v; return query; },
+        delete: () => { action = 'delete'; return query; },
+        select: () => { action = action || 'select'; return query; },
+        eq: (column, value) => { filters.push([column, value, 'eq']); return query; },
+        lt: (column, value) => { filters.push([column, value, 'lt']); return query; },
+        maybeSingle: async () => ({ data: run().data?.[0] || null, error: null }),
+        then: (resolve, reject) => Promise.resolve(run()).then(resolve, reject)
+      };
+      return query;
+    }
+  });
+
+  it('returns the stored response for a key that was already completed', async () => {
+    const rows = [];
+    const store = createSupabaseIdempotencyStore(async () => createFakeClient(rows));
+    const expiresAt = Date.now() + 60000;
+
+    expect(await store.claim('user-1:POST:/tasks:k', 'user-1', expiresAt)).toEqual({ claimed: true });
+    await store.complete('user-1:POST:/tasks:k', 201, { id: 'task-1' }, expiresAt);
+
+    expect(await store.claim('user-1:POST:/tasks:k', 'user-1', expiresAt)).toEqual({
+      claimed: false,
+      entry: { state: 'completed', statusCode: 201, body: { id: 'task-1' } }
+    });
+  });
+
+  it('claims a key again once the stored row has expired', async () => {
+    const rows = [{ cache_key: 'k', state: 'in_progress', expires_at: new Date(Date.now() - 1000).toISOString() }];
+    const store = createSupabaseIdempotencyStore(async () => createFakeClient(rows));
+
+    expect(await store.claim('k', null, Date.now() + 60000)).toEqual({ claimed: true });
+    expect(rows).toHaveLength(1);
+    expect(rows[0].state).toBe('in_progress');
+    expect(await store.pruneExpired()).toBe(0);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  applyPage,
+  decodeCursor,
+  encodeCursor,
+  MAX_PAGE_SIZE,
+  parsePageParams,
+  toPage
+} from '../src/utils/pagination.js';
+
+const TASK_ID = '4f6c3a8e-2b1d-4c5e-9f7a-1b2c3d4e5f60';
+
+describe('Keyset pagination', () => {
+  it('leaves paging off when neither limit nor cursor is given', () => {
+    expect(parsePageParams({})).toEqual({ page: null });
+    expect(parsePageParams({ since: '2024-01-10T09:00:00.000Z' })).toEqual({ page: null });
+  });
+
+  it('parses the limit and caps it', () => {
+    expect(parsePageParams({ limit: '50' }).page).toEqual({ limit: 50, position: null });
+    expect(parsePageParams({ limit: '100000' }).page.limit).toBe(MAX_PAGE_SIZE);
+    expect(parsePageParams({ limit: '0' }).error).toMatch(/limit/);
+    expect(parsePageParams({ limit: 'many' }).error).toMatch(/limit/);
+  });
+
+  it('round-trips cursors and rejects malformed ones', () => {
+    const cursor = encodeCursor({ id: TASK_ID, updated_at: '2024-01-10T09:00:00.000Z' });
+
+    expect(decodeCursor(cursor)).toEqual({ id: TASK_ID, updatedAt: '2024-01-10T09:00:00.000000Z' });
+    expect(parsePageParams({ limit: '10', cursor }).page.position).toEqual({ id: TASK_ID, updatedAt: '2024-01-10T09:00:00.000000Z' });
+    expect(decodeCursor('not-a-cursor')).toBeNull();
+    expect(parsePageParams({ cursor: 'not-a-cursor' }).error).toMatch(/cursor/);
+  });
+
+  it('keeps the microseconds of database timestamps and converts them to UTC', () => {
+    const cursor = encodeCursor({ id: TASK_ID, updated_at: '2024-01-10T10:00:00.123456+01:00' });
+
+    expect(decodeCursor(cursor)).toEqual({ id: TASK_ID, updatedAt: '2024-01-10T09:00:00.123456Z' });
+  });
+
+  it('rejects cursors that would inject PostgREST filter syntax', () => {
+    const forged = (position) => Buffer.from(JSON.stringify(position)).toString('base64url');
+
+    expect(decodeCursor(forged({ updatedAt: '2024-01-10T09:00:00.000Z', id: 'x),user_id.neq.null' }))).toBeNull();
+    expect(decodeCursor(forged({ updatedAt: '2024-01-10T09:00:00Z",id.gt.0', id: TASK_ID }))).toBeNull();
+    expect(decodeCursor(forged({ updatedAt: 'Jan 10 2024', id: TASK_ID }))).toBeNull();
+  });
+
+  it('returns a next cursor only when another page follows', () => {
+    const page = { limit: 2, position: null };
+    const rows = [
+      { id: 'a', updated_at: '2024-01-10T09:00:00.000Z' },
+      { id: TASK_ID, updated_at: '2024-01-10T09:05:00.000Z' },
+      { id: 'c', updated_at: '2024-01-10T09:10:00.000Z' }
+    ];
+
+    const first = toPage(rows, page);
+    expect(first.rows.map(row => row.id)).toEqual(['a', TASK_ID]);
+    expect(decodeCursor(first.nextCursor)).toEqual({ id: TASK_ID, updatedAt: '2024-01-10T09:05:00.000000Z' });
+
+    expect(toPage(rows.slice(2), page)).toEqual({ rows: [rows[2]], nextCursor: null });
+  });
+
+  it('orders by updated_at and id and starts after the cursor position', () => {
+    const query = {
+      or: vi.fn(() => query),
+      order: vi.fn(() => query),
+      limit: vi.fn(() => query)
+    };
+
+    applyPage(query, { limit: 100, position: { updatedAt: '2024-01-10T09:05:00.000Z', id: 'b' } });
+
+    expect(query.or).toHaveBeenCalledWith(
+      'updated_at.gt."2024-01-10T09:05:00.000Z",and(updated_at.eq."2024-01-10T09:05:00.000Z",id.gt.b)'
+    );
+    expect(query.order).toHaveBeenNthCalledWith(1, 'updated_at', { ascending: true });
+    expect(query.order).toHaveBeenNthCalledWith(2, 'id', { ascending: true });
+    expect(query.limit).toHaveBeenCalledWith(101);
+  });
+});
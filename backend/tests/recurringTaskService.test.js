@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
     calculateNextDueDate,
+    calculateNextOccurrence,
     getNextMatchingDayOfWeek,
+    getNthWeekdayOfMonth,
     formatRecurrencePattern
 } from '../src/services/recurringTaskService.js';
 
@@ -88,22 +90,102 @@ describe('Recurring Task Service - Date Calculations', () => {
 
                 const result = calculateNextDueDate(fromDate, pattern);
 
-                // February 2025 has 28 days
-                expect(result.getMonth()).toBe(2); // March (JS overflow behavior)
-                // Note: JavaScript Date handles month overflow differently
+                // February 2025 has 28 days; the day is clamped instead of rolling into March
+                expect(result.getMonth()).toBe(1); // February
+                expect(result.getDate()).toBe(28);
+            });
+
+            it('should move to the nth weekday of the next month', () => {
+                // Second Tuesday: 14 Oct 2025 -> 11 Nov 2025
+                const fromDate = new Date(2025, 9, 14, 9, 0);
+                const pattern = { type: 'monthly', daysOfWeek: [2], nthWeekday: 2 };
+
+                const result = calculateNextDueDate(fromDate, pattern);
+
+                expect(result).toEqual(new Date(2025, 10, 11, 9, 0));
+            });
+
+            it('should support the last weekday of the month', () => {
+                // Last Friday: 31 Oct 2025 -> 28 Nov 2025
+                const fromDate = new Date(2025, 9, 31, 9, 0);
+                const pattern = { type: 'monthly', daysOfWeek: [5], nthWeekday: -1 };
+
+                expect(calculateNextDueDate(fromDate, pattern)).toEqual(new Date(2025, 10, 28, 9, 0));
+            });
+
+            it('should skip months without a fifth weekday', () => {
+                // Fifth Monday: 29 Sep 2025 -> 29 Dec 2025 (October and November have only four)
+                const fromDate = new Date(2025, 8, 29, 9, 0);
+                const pattern = { type: 'monthly', daysOfWeek: [1], nthWeekday: 5 };
+
+                expect(calculateNextDueDate(fromDate, pattern)).toEqual(new Date(2025, 11, 29, 9, 0));
+            });
+        });
+
+        describe('yearly recurrence', () => {
+            it('should add a year on the same date', () => {
+                const fromDate = new Date(2025, 2, 15, 9, 0);
+                const pattern = { type: 'yearly' };
+
+                expect(calculateNextDueDate(fromDate, pattern)).toEqual(new Date(2026, 2, 15, 9, 0));
+            });
+
+            it('should move to monthOfYear when it is later this year', () => {
+                const fromDate = new Date(2025, 2, 15, 9, 0);
+                const pattern = { type: 'yearly', monthOfYear: 6 };
+
+                expect(calculateNextDueDate(fromDate, pattern)).toEqual(new Date(2025, 5, 15, 9, 0));
+            });
+
+            it('should clamp Feb 29 to Feb 28 in common years', () => {
+                const fromDate = new Date(2024, 1, 29, 9, 0);
+                const pattern = { type: 'yearly' };
+
+                expect(calculateNextDueDate(fromDate, pattern)).toEqual(new Date(2025, 1, 28, 9, 0));
+            });
+
+            it('should support nth weekday rules', () => {
+                // Fourth Thursday of November: 27 Nov 2025 -> 26 Nov 2026
+                const fromDate = new Date(2025, 10, 27, 9, 0);
+                const pattern = { type: 'yearly', monthOfYear: 11, daysOfWeek: [4], nthWeekday: 4 };
+
+                expect(calculateNextDueDate(fromDate, pattern)).toEqual(new Date(2026, 10, 26, 9, 0));
             });
         });
 
         describe('invalid recurrence type', () => {
             it('should throw error for invalid type', () => {
                 const fromDate = new Date('2025-12-25T12:00:00Z');
-                const pattern = { type: 'yearly' };
+                const pattern = { type: 'hourly' };
 
                 expect(() => calculateNextDueDate(fromDate, pattern)).toThrow('Invalid recurrence type');
             });
         });
     });
 
+    describe('calculateNextOccurrence', () => {
+        it('should skip excluded dates', () => {
+            const fromDate = new Date(2025, 11, 22, 9, 0);
+            const pattern = { type: 'daily', exclusionDates: ['2025-12-23', '2025-12-24'] };
+
+            expect(calculateNextOccurrence(fromDate, pattern)).toEqual(new Date(2025, 11, 25, 9, 0));
+        });
+
+        it('should match calculateNextDueDate when nothing is excluded', () => {
+            const fromDate = new Date(2025, 11, 22, 9, 0);
+            const pattern = { type: 'weekly', daysOfWeek: [1, 4], exclusionDates: [] };
+
+            expect(calculateNextOccurrence(fromDate, pattern)).toEqual(calculateNextDueDate(fromDate, pattern));
+        });
+    });
+
+    describe('getNthWeekdayOfMonth', () => {
+        it('should return null when the month has no such day', () => {
+            // February 2026 has four Mondays
+            expect(getNthWeekdayOfMonth(2026, 1, [1], 5, new Date(2026, 0, 1))).toBeNull();
+        });
+    });
+
     describe('getNextMatchingDayOfWeek', () => {
         it('should find next Monday from Wednesday', () => {
             // Dec 25, 2025 is a Thursday
@@ -189,6 +271,11 @@ describe('Recurring Task Service - Date Calculations', () => {
             expect(formatRecurrencePattern(pattern)).toBe('Every 2 months');
         });
 
+        it('should format yearly pattern', () => {
+            const pattern = { type: 'yearly', interval: 1 };
+            expect(formatRecurrencePattern(pattern)).toBe('Every year');
+        });
+
         it('should include count end condition', () => {
             const pattern = {
                 type: 'monthly',
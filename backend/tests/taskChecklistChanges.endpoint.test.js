@@ -0,0 +1,113 @@
+import request from 'supertest';
+import app from '../src/server.js';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { encodeCursor } from '../src/utils/pagination.js';
+
+vi.mock('../src/middleware/auth.js', () => ({
+  requireAuth: (req, _res, next) => {
+    req.user = { id: 'test-user-id', email: 'test@example.com' };
+    next();
+  }
+}));
+
+const tables = vi.hoisted(() => ({ rows: {}, filters: [] }));
+
+// Mock Supabase query builder; awaiting it resolves with the rows set for its table
+vi.mock('@supabase/supabase-js', () => {
+  const builder = (table) => {
+    const obj = {
+      select: vi.fn(() => obj),
+      eq: vi.fn((column, value) => {
+        tables.filters.push({ table, column, value, op: 'eq' });
+        return obj;
+      }),
+      gt: vi.fn((column, value) => {
+        tables.filters.push({ table, column, value, op: 'gt' });
+        return obj;
+      }),
+      or: vi.fn((value) => {
+        tables.filters.push({ table, value, op: 'or' });
+        return obj;
+      }),
+      order: vi.fn(() => obj),
+      limit: vi.fn(() => obj),
+      then: (resolve) => resolve({ data: tables.rows[table] || [], error: null }),
+    };
+    return obj;
+  };
+  const from = vi.fn((table) => builder(table));
+  return { createClient: vi.fn(() => ({ from })) };
+});
+
+const ITEM_ID = '4f6c3a8e-2b1d-4c5e-9f7a-1b2c3d4e5f60';
+
+describe('GET /api/task-checklist-items delta sync', () => {
+  beforeEach(() => {
+    process.env.NODE_ENV = 'test';
+    tables.rows = {};
+    tables.filters = [];
+  });
+
+  it('returns the plain list without since or paging params', async () => {
+    tables.rows.task_checklist_items = [{ id: ITEM_ID, text: 'Book flights' }];
+
+    const res = await request(app)
+      .get('/api/task-checklist-items')
+      .set('Authorization', 'Bearer test')
+      .expect(200);
+
+    expect(res.body).toEqual([{ id: ITEM_ID, text: 'Book flights' }]);
+    expect(tables.filters.some(filter => filter.table === 'deleted_records')).toBe(false);
+  });
+
+  it('returns changed and deleted items since a time', async () => {
+    tables.rows.task_checklist_items = [{ id: ITEM_ID, text: 'Book flights' }];
+    tables.rows.deleted_records = [{ record_id: 'item-2' }];
+
+    const res = await request(app)
+      .get('/api/task-checklist-items?since=2024-01-10T09:00:00.000Z')
+      .set('Authorization', 'Bearer test')
+      .expect(200);
+
+    expect(res.body).toEqual({ changed: [{ id: ITEM_ID, text: 'Book flights' }], deleted: ['item-2'], next_cursor: null });
+    expect(tables.filters).toContainEqual({
+      table: 'task_checklist_items', column: 'updated_at', value: '2024-01-10T09:00:00.000Z', op: 'gt'
+    });
+    expect(tables.filters).toContainEqual({ table: 'deleted_records', column: 'table_name', value: 'task_checklist_items', op: 'eq' });
+  });
+
+  it('pages the changes and returns deletions with the first page only', async () => {
+    const rows = [
+      { id: ITEM_ID, text: 'Book flights', updated_at: '2024-01-10T09:05:00.000Z' },
+      { id: 'item-3', text: 'Pack', updated_at: '2024-01-10T09:06:00.000Z' },
+    ];
+    tables.rows.task_checklist_items = rows;
+    tables.rows.deleted_records = [{ record_id: 'item-2' }];
+
+    const first = await request(app)
+      .get('/api/task-checklist-items?since=2024-01-10T09:00:00.000Z&limit=1')
+      .set('Authorization', 'Bearer test')
+      .expect(200);
+
+    expect(first.body.changed).toEqual([rows[0]]);
+    expect(first.body.deleted).toEqual(['item-2']);
+    expect(first.body.next_cursor).toBe(encodeCursor(rows[0]));
+
+    tables.filters = [];
+    tables.rows.task_checklist_items = [rows[1]];
+    const next = await request(app)
+      .get(`/api/task-checklist-items?since=2024-01-10T09:00:00.000Z&limit=1&cursor=${first.body.next_cursor}`)
+      .set('Authorization', 'Bearer test')
+      .expect(200);
+
+    expect(next.body).toEqual({ changed: [rows[1]], deleted: [], next_cursor: null });
+    expect(tables.filters.some(filter => filter.table === 'deleted_records')).toBe(false);
+  });
+
+  it('rejects an invalid since', async () => {
+    await request(app)
+      .get('/api/task-checklist-items?since=yesterday')
+      .set('Authorization', 'Bearer test')
+      .expect(400);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { getOpenBlockers, wouldCreateCycle } from '../src/utils/taskDependencyGraph.js';
+
+const link = (taskId, dependsOnTaskId) => ({ task_id: taskId, depends_on_task_id: dependsOnTaskId });
+
+describe('Task dependency graph', () => {
+  it('rejects self links and direct or indirect cycles', () => {
+    const links = [link('b', 'a'), link('c', 'b')];
+
+    expect(wouldCreateCycle(links, 'a', 'a')).toBe(true);
+    expect(wouldCreateCycle(links, 'a', 'b')).toBe(true);
+    expect(wouldCreateCycle(links, 'a', 'c')).toBe(true);
+  });
+
+  it('allows links that keep the graph acyclic', () => {
+    const links = [link('b', 'a'), link('c', 'b')];
+
+    expect(wouldCreateCycle(links, 'c', 'a')).toBe(false);
+    expect(wouldCreateCycle(links, 'd', 'c')).toBe(false);
+    expect(wouldCreateCycle([], 'a', 'b')).toBe(false);
+  });
+
+  it('lists only prerequisites that are still open', () => {
+    const links = [link('c', 'a'), link('c', 'b'), link('d', 'missing')];
+    const tasks = [
+      { id: 'a', status: 'completed' },
+      { id: 'b', status: 'in_progress' },
+      { id: 'c', status: 'not_started' },
+      { id: 'd', status: 'not_started' }
+    ];
+
+    const blockers = getOpenBlockers(links, tasks);
+    expect(blockers.get('c')).toEqual(['b']);
+    expect(blockers.has('d')).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+import request from 'supertest';
+import app from '../src/server.js';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('../src/middleware/enhancedAuth.js', async (importOriginal) => ({
+  ...await importOriginal(),
+  requireAuth: (req, _res, next) => {
+    req.user = { id: 'test-user-id', email: 'test@example.com' };
+    next();
+  }
+}));
+
+// Only validation is under test; the controllers echo what passed it
+vi.mock('../src/controllers/tasksController.js', async (importOriginal) => ({
+  ...await importOriginal(),
+  createTask: (req, res) => res.status(201).json(req.body),
+  updateTask: (req, res) => res.status(200).json(req.body),
+  bulkCreateTasks: (req, res) => res.status(201).json(req.body.tasks)
+}));
+
+const TASK_ID = '4f6c3a8e-2b1d-4c5e-9f7a-1b2c3d4e5f60';
+
+describe('Task recurrence_pattern validation', () => {
+  beforeEach(() => {
+    process.env.NODE_ENV = 'test';
+  });
+
+  it('accepts yearly patterns on create, update and bulk create', async () => {
+    const yearly = { type: 'yearly', monthOfYear: 11, nthWeekday: 4, daysOfWeek: [4], exclusionDates: ['2026-11-26'] };
+
+    await request(app)
+      .post('/api/tasks')
+      .set('Authorization', 'Bearer test')
+      .send({ title: 'Thanksgiving prep', recurrence_pattern: yearly })
+      .expect(201);
+
+    await request(app)
+      .put(`/api/tasks/${TASK_ID}`)
+      .set('Authorization', 'Bearer test')
+      .send({ recurrence_pattern: { type: 'yearly', monthOfYear: 3 } })
+      .expect(200);
+
+    await request(app)
+      .post('/api/tasks/bulk')
+      .set('Authorization', 'Bearer test')
+      .send({ tasks: [{ title: 'Renew passport', recurrence_pattern: { type: 'yearly', interval: 10 } }] })
+      .expect(201);
+  });
+
+  it('accepts the last weekday of the month and clearing the pattern', async () => {
+    await request(app)
+      .post('/api/tasks')
+      .set('Authorization', 'Bearer test')
+      .send({ title: 'Month-end review', recurrence_pattern: { type: 'monthly', nthWeekday: -1, daysOfWeek: [5] } })
+      .expect(201);
+
+    await request(app)
+      .put(`/api/tasks/${TASK_ID}`)
+      .set('Authorization', 'Bearer test')
+      .send({ recurrence_pattern: null })
+      .expect(200);
+  });
+
+  it.each([
+    ['an unknown type', { type: 'hourly' }],
+    ['nthWeekday out of range', { type: 'monthly', nthWeekday: 6, daysOfWeek: [1] }],
+    ['nthWeekday without days', { type: 'monthly', nthWeekday: 2 }],
+    ['nthWeekday on a weekly pattern', { type: 'weekly', nthWeekday: 1, daysOfWeek: [1] }],
+    ['monthOfYear out of range', { type: 'yearly', monthOfYear: 13 }],
+    ['monthOfYear on a monthly pattern', { type: 'monthly', monthOfYear: 2 }],
+    ['exclusion dates that are not YYYY-MM-DD', { type: 'daily', exclusionDates: ['11/26/2026'] }]
+  ])('rejects %s', async (_label, pattern) => {
+    await request(app)
+      .post('/api/tasks')
+      .set('Authorization', 'Bearer test')
+      .send({ title: 'Recurring', recurrence_pattern: pattern })
+      .expect(400);
+
+    await request(app)
+      .post('/api/tasks/bulk')
+      .set('Authorization', 'Bearer test')
+      .send({ tasks: [{ title: 'Recurring', recurrence_pattern: pattern }] })
+      .expect(400);
+  });
+});
@@ -28,6 +28,7 @@ import { Database } from '@nozbe/watermelondb';
 import { initializeDatabase } from './src/db';
 import { DatabaseProvider } from './src/contexts/DatabaseContext';
 import { syncService } from './src/services/SyncService';
+import { backgroundSyncService } from './src/services/backgroundSync';
 import secureConfigService from './src/services/secureConfig';
 import getSupabaseClient from './src/services/supabaseClient';
 import { initializeErrorHandling } from './src/services/errorHandling';
@@ -193,6 +194,7 @@ function App() {
             }
 
             notificationService.initialize();
+            backgroundSyncService.start();
             if (tokenRefreshUnsubscribe) {
               tokenRefreshUnsubscribe();
             }
@@ -226,6 +228,7 @@ function App() {
               channel = null;
             }
             webSocketService.disconnect();
+            backgroundSyncService.stop();
             if (tokenRefreshUnsubscribe) {
               tokenRefreshUnsubscribe();
               tokenRefreshUnsubscribe = null;
@@ -0,0 +1,84 @@
+package com.foci.mobile
+
+import android.content.Intent
+import android.content.IntentFilter
+import android.os.BatteryManager
+import androidx.work.Constraints
+import androidx.work.ExistingPeriodicWorkPolicy
+import androidx.work.NetworkType
+import androidx.work.PeriodicWorkRequestBuilder
+import androidx.work.WorkManager
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import java.util.concurrent.TimeUnit
+
+/**
+ * Native side of services/backgroundSync.ts: schedules the periodic sync with WorkManager
+ * and reports the battery state for syncs triggered by push notifications.
+ */
+class BackgroundSyncModule(reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext) {
+
+  override fun getName(): String = "BackgroundSync"
+
+  @ReactMethod
+  fun schedule(
+      intervalMinutes: Double,
+      requiresUnmeteredNetwork: Boolean,
+      requiresBatteryNotLow: Boolean,
+      promise: Promise
+  ) {
+    try {
+      val constraints =
+          Constraints.Builder()
+              .setRequiredNetworkType(
+                  if (requiresUnmeteredNetwork) NetworkType.UNMETERED else NetworkType.CONNECTED)
+              .setRequiresBatteryNotLow(requiresBatteryNotLow)
+              .build()
+      // WorkManager does not run periodic work more often than every 15 minutes
+      val interval = maxOf(intervalMinutes.toLong(), 15L)
+      val request =
+          PeriodicWorkRequestBuilder<BackgroundSyncWorker>(interval, TimeUnit.MINUTES)
+              .setConstraints(constraints)
+              .build()
+      WorkManager.getInstance(reactApplicationContext)
+          .enqueueUniquePeriodicWork(WORK_NAME, ExistingPeriodicWorkPolicy.UPDATE, request)
+      promise.resolve(null)
+    } catch (e: Exception) {
+      promise.reject("SCHEDULE_FAILED", e)
+    }
+  }
+
+  @ReactMethod
+  fun cancel(promise: Promise) {
+    try {
+      WorkManager.getInstance(reactApplicationContext).cancelUniqueWork(WORK_NAME)
+      promise.resolve(null)
+    } catch (e: Exception) {
+      promise.reject("CANCEL_FAILED", e)
+    }
+  }
+
+  @ReactMethod
+  fun isBatteryLow(promise: Promise) {
+    val battery =
+        reactApplicationContext.registerReceiver(null, IntentFilter(Intent.ACTION_BATTERY_CHANGED))
+    if (battery == null) {
+      promise.resolve(false)
+      return
+    }
+    val level = battery.getIntExtra(BatteryManager.EXTRA_LEVEL, -1)
+    val scale = battery.getIntExtra(BatteryManager.EXTRA_SCALE, -1)
+    val plugged = battery.getIntExtra(BatteryManager.EXTRA_PLUGGED, 0) != 0
+    val percent = if (level >= 0 && scale > 0) level * 100 / scale else 100
+    promise.resolve(!plugged && percent <= LOW_BATTERY_PERCENT)
+  }
+
+  companion object {
+    private const val WORK_NAME = "background-sync"
+    // Matches the threshold Android uses for its own battery-low state
+    private const val LOW_BATTERY_PERCENT = 15
+  }
+}
@@ -0,0 +1,26 @@
+package com.foci.mobile
+
+import android.content.Intent
+import com.facebook.react.HeadlessJsTaskService
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.jstasks.HeadlessJsTaskConfig
+
+/**
+ * Runs the "BackgroundSync" headless JS task registered in index.js.
+ */
+class BackgroundSyncTaskService : HeadlessJsTaskService() {
+
+  override fun getTaskConfig(intent: Intent?): HeadlessJsTaskConfig =
+      HeadlessJsTaskConfig(
+          TASK_NAME,
+          Arguments.createMap(),
+          TIMEOUT_MS,
+          // Also run while the app is open; the JS side skips a sync already in progress
+          true)
+
+  companion object {
+    const val TASK_NAME = "BackgroundSync"
+    // Longer than the JS sync budget so the task can wind down on its own
+    private const val TIMEOUT_MS = 60_000L
+  }
+}
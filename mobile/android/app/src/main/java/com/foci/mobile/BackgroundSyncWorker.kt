@@ -0,0 +1,32 @@
+package com.foci.mobile
+
+import android.content.Context
+import android.content.Intent
+import android.util.Log
+import androidx.work.Worker
+import androidx.work.WorkerParameters
+import com.facebook.react.HeadlessJsTaskService
+
+/**
+ * Periodic WorkManager job that hands the sync over to the headless JS task.
+ * Network and battery constraints are applied by WorkManager when the job is scheduled.
+ */
+class BackgroundSyncWorker(context: Context, params: WorkerParameters) : Worker(context, params) {
+
+  override fun doWork(): Result {
+    return try {
+      val intent = Intent(applicationContext, BackgroundSyncTaskService::class.java)
+      applicationContext.startService(intent)
+      HeadlessJsTaskService.acquireWakeLockNow(applicationContext)
+      Result.success()
+    } catch (e: IllegalStateException) {
+      // The system refused to start the service from the background; try again later
+      Log.w(TAG, "Could not start background sync task", e)
+      Result.retry()
+    }
+  }
+
+  companion object {
+    private const val TAG = "BackgroundSyncWorker"
+  }
+}
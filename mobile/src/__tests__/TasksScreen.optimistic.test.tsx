@@ -51,6 +51,9 @@ jest.mock('../services/offline', () => ({
     getCachedGoals: jest.fn(async () => null),
     cacheTasks: jest.fn(async () => {}),
     cacheGoals: jest.fn(async () => {}),
+    cacheSchedulingPreferences: jest.fn(async () => {}),
+    getCachedSchedulingPreferences: jest.fn(async () => null),
+    shouldUseCache: jest.fn(() => false),
   }
 }));
 
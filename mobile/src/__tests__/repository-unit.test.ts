@@ -45,7 +45,7 @@ describe('Repository Unit Tests', () => {
         priority: 'medium',
       });
 
-      expect(task.status).toBe('pending_create');
+      expect(task.syncState).toBe('pending_create');
       expect(task.title).toBe('Test Task');
       expect(task.description).toBe('Test Description');
       expect(task.priority).toBe('medium');
@@ -62,7 +62,7 @@ describe('Repository Unit Tests', () => {
       });
 
       const updatedTask = await taskRepository.getTaskById(task.id);
-      expect(updatedTask?.status).toBe('pending_update');
+      expect(updatedTask?.syncState).toBe('pending_update');
       expect(updatedTask?.title).toBe('Updated Task');
       expect(updatedTask?.description).toBe('Updated Description');
     });
@@ -75,7 +75,7 @@ describe('Repository Unit Tests', () => {
       await taskRepository.deleteTask(task.id);
 
       const deletedTask = await taskRepository.getTaskById(task.id);
-      expect(deletedTask?.status).toBe('pending_delete');
+      expect(deletedTask?.syncState).toBe('pending_delete');
     });
 
     test('getTaskById handles non-existent task', async () => {
@@ -39,14 +39,14 @@ const createMockCollection = () => {
 
       // Apply basic filtering (simplified - real WatermelonDB is more complex)
       if (queryArgs.length > 0) {
-        // Check for status filtering
-        const statusFilter = queryArgs.find((arg: any) =>
-          arg && typeof arg === 'object' && arg.column === 'status'
+        // Check for sync state filtering
+        const syncStateFilter = queryArgs.find((arg: any) =>
+          arg && typeof arg === 'object' && arg.column === 'sync_state'
         );
-        if (statusFilter) {
-          if (statusFilter.value === 'not_eq') {
+        if (syncStateFilter) {
+          if (syncStateFilter.value === 'not_eq') {
             filtered = filtered.filter((t: any) =>
-              !t.status.startsWith(statusFilter.notEqValue)
+              t.syncState !== syncStateFilter.notEqValue
             );
           }
         }
@@ -93,11 +93,25 @@ const createMockCollection = () => {
         dueDate: undefined,
         goalId: undefined,
         isTodayFocus: undefined,
-        status: 'pending_create:not_started',
+        lifecycleStatus: 'not_started',
+        syncState: 'pending_create',
         userId: 'test-user-id',
         createdAt: new Date(),
         updatedAt: new Date(),
       };
+      // Mirror Task.recurrence_pattern getter
+      Object.defineProperty(newTask, 'recurrence_pattern', {
+        get() {
+          if (!this.recurrencePatternJson) {
+            return null;
+          }
+          try {
+            return JSON.parse(this.recurrencePatternJson);
+          } catch {
+            return null;
+          }
+        },
+      });
       callback(newTask);
       addUpdateMethod(newTask);
       mockTasks.push(newTask);
@@ -259,6 +273,7 @@ jest.mock('@hugeicons/core-free-icons', () => ({}));
 
 // Mock date utilities
 jest.mock('../utils/dateUtils', () => ({
+  ...jest.requireActual('../utils/dateUtils'),
   formatDate: jest.fn((date: Date) => date.toISOString()),
   parseDate: jest.fn((dateString: string) => new Date(dateString)),
   safeParseDate: jest.fn((dateString: string) => {
@@ -361,7 +376,10 @@ jest.mock('../services/offline', () => ({
     getCachedGoals: jest.fn(() => Promise.resolve([])),
     cacheTasks: jest.fn(),
     cacheGoals: jest.fn(),
+    cacheSchedulingPreferences: jest.fn(() => Promise.resolve()),
+    getCachedSchedulingPreferences: jest.fn(() => Promise.resolve(null)),
     isOnline: jest.fn(() => true),
+    shouldUseCache: jest.fn(() => false),
   },
 }));
 
@@ -391,7 +409,7 @@ jest.mock('../services/SyncService', () => ({
         const allTasks = await taskRepository.getAllTasks();
         for (const task of allTasks) {
           try {
-            if (task.status === 'pending_create') {
+            if (task.syncState === 'pending_create') {
               // Simulate API call
               await enhancedAPI.createTask({
                 title: task.title,
@@ -404,8 +422,8 @@ jest.mock('../services/SyncService', () => ({
                 user_id: task.userId,
                 client_updated_at: task.updatedAt?.toISOString(),
               });
-              await taskRepository.updateTask(task.id, { status: 'synced' });
-            } else if (task.status === 'pending_update') {
+              await taskRepository.updateTask(task.id, { syncState: 'synced' });
+            } else if (task.syncState === 'pending_update') {
               await enhancedAPI.updateTask(task.id, {
                 title: task.title,
                 description: task.description,
@@ -417,11 +435,11 @@ jest.mock('../services/SyncService', () => ({
                 user_id: task.userId,
                 client_updated_at: task.updatedAt?.toISOString(),
               });
-              await taskRepository.updateTask(task.id, { status: 'synced' });
-            } else if (task.status === 'pending_delete') {
+              await taskRepository.updateTask(task.id, { syncState: 'synced' });
+            } else if (task.syncState === 'pending_delete') {
               await enhancedAPI.deleteTask(task.id);
-              // Remove from mock storage by updating to null status
-              await taskRepository.updateTask(task.id, { status: 'deleted' });
+              // Remove from mock storage by updating to a deleted sync state
+              await taskRepository.updateTask(task.id, { syncState: 'deleted' });
             }
           } catch (error) {
             console.error(`Failed to sync task ${task.id}:`, error);
@@ -474,6 +492,9 @@ jest.mock('../services/SyncService', () => ({
       return require('../services/SyncService').syncService.sync(true);
     }),
     isSyncing: jest.fn(() => false),
+    onPullProgress: jest.fn(() => () => {}),
+    onStatusChange: jest.fn(() => () => {}),
+    refreshStatus: jest.fn(async () => undefined),
   },
 }));
 
@@ -517,8 +538,9 @@ jest.mock('../repositories/TaskRepository', () => {
         const id = `task_${taskIdCounter++}`;
         const task = {
           id,
+          lifecycleStatus: 'not_started',
           ...taskData,
-          status: 'pending_create',
+          syncState: 'pending_create',
           createdAt: new Date(),
           updatedAt: new Date(),
         };
@@ -536,7 +558,7 @@ jest.mock('../repositories/TaskRepository', () => {
           const updatedTask = {
             ...task,
             ...updates,
-            status: updates.status !== undefined ? updates.status : 'pending_update',
+            syncState: updates.syncState !== undefined ? updates.syncState : 'pending_update',
             updatedAt: new Date()
           };
           mockTasks.set(id, updatedTask);
@@ -546,7 +568,7 @@ jest.mock('../repositories/TaskRepository', () => {
       }), deleteTask: jest.fn(async (id) => {
         const task = mockTasks.get(id);
         if (task) {
-          const deletedTask = { ...task, status: 'pending_delete', updatedAt: new Date() };
+          const deletedTask = { ...task, syncState: 'pending_delete', updatedAt: new Date() };
           mockTasks.set(id, deletedTask);
           return deletedTask;
         }
@@ -555,29 +577,29 @@ jest.mock('../repositories/TaskRepository', () => {
       }),
       getTaskById: jest.fn(async (id) => {
         const task = mockTasks.get(id);
-        return task && task.status !== 'deleted' ? task : null;
+        return task && task.syncState !== 'deleted' ? task : null;
       }),
       getAllTasks: jest.fn(async () => {
-        return Array.from(mockTasks.values()).filter(task => task.status !== 'deleted');
+        return Array.from(mockTasks.values()).filter(task => task.syncState !== 'deleted');
       }),
       getTasksByStatus: jest.fn(async (status) => {
-        return Array.from(mockTasks.values()).filter(task => task.status === status);
+        return Array.from(mockTasks.values()).filter(task => task.syncState === status);
       }),
       getTasksByPriority: jest.fn(async (priority) => {
-        return Array.from(mockTasks.values()).filter(task => task.priority === priority && task.status !== 'pending_delete');
+        return Array.from(mockTasks.values()).filter(task => task.priority === priority && task.syncState !== 'pending_delete');
       }),
       getTasksByGoalId: jest.fn(async (goalId) => {
-        return Array.from(mockTasks.values()).filter(task => task.goalId === goalId && task.status !== 'pending_delete');
+        return Array.from(mockTasks.values()).filter(task => task.goalId === goalId && task.syncState !== 'pending_delete');
       }),
       getTasksByDueDate: jest.fn(async (date) => {
         return Array.from(mockTasks.values()).filter(task =>
-          task.dueDate && task.dueDate.toDateString() === date.toDateString() && task.status !== 'pending_delete'
+          task.dueDate && task.dueDate.toDateString() === date.toDateString() && task.syncState !== 'pending_delete'
         );
       }),
       getOverdueTasks: jest.fn(async () => {
         const today = new Date();
         return Array.from(mockTasks.values()).filter(task =>
-          task.dueDate && task.dueDate < today && task.status !== 'pending_delete'
+          task.dueDate && task.dueDate < today && task.syncState !== 'pending_delete'
         );
       }),
     },
@@ -781,6 +803,93 @@ jest.mock('../repositories/GoalRepository', () => {
           .filter(step => step.milestoneId === milestoneId && step.status !== 'pending_delete')
           .sort((a, b) => (a.order || 0) - (b.order || 0));
       }),
+      recalculateGoalProgress: jest.fn(async () => undefined),
+    },
+  };
+});
+
+jest.mock('../repositories/SavedFilterRepository', () => {
+  const { of } = require('rxjs');
+  return {
+    savedFilterRepository: {
+      getSavedFilters: jest.fn(async () => []),
+      getSavedFilterById: jest.fn(async () => null),
+      createSavedFilter: jest.fn(async (name, options) => ({ id: 'saved_filter_1', name, options })),
+      updateSavedFilter: jest.fn(async () => null),
+      deleteSavedFilter: jest.fn(async () => undefined),
+      updateSavedFilterServerId: jest.fn(async () => undefined),
+      observeSavedFilters: jest.fn(() => of([])),
+    },
+  };
+});
+
+jest.mock('../repositories/TaskDependencyRepository', () => {
+  const { of } = require('rxjs');
+  return {
+    taskDependencyRepository: {
+      getDependencies: jest.fn(async () => []),
+      getOpenBlockers: jest.fn(async () => new Map()),
+      addDependency: jest.fn(async (taskId, dependsOnTaskId) => ({ id: 'task_dependency_1', taskId, dependsOnTaskId })),
+      removeDependency: jest.fn(async () => undefined),
+      removeDependenciesForTask: jest.fn(async () => undefined),
+      remapTaskId: jest.fn(async () => undefined),
+      updateDependencyServerId: jest.fn(async () => undefined),
+      observeDependencies: jest.fn(() => of([])),
+    },
+  };
+});
+
+jest.mock('../repositories/TaskChecklistRepository', () => {
+  const { of } = require('rxjs');
+  return {
+    taskChecklistRepository: {
+      getItemsForTask: jest.fn(async () => []),
+      getItemById: jest.fn(async () => null),
+      addItems: jest.fn(async (taskId, texts) => texts.map((text: string, index: number) => ({ id: `checklist_item_${index + 1}`, taskId, text }))),
+      addItem: jest.fn(async (taskId, text) => ({ id: 'checklist_item_1', taskId, text })),
+      updateItem: jest.fn(async () => null),
+      toggleItem: jest.fn(async () => null),
+      moveItem: jest.fn(async () => undefined),
+      deleteItem: jest.fn(async () => undefined),
+      removeItemsForTask: jest.fn(async () => undefined),
+      remapTaskId: jest.fn(async () => undefined),
+      updateItemServerId: jest.fn(async () => undefined),
+      observeItemsForTask: jest.fn(() => of([])),
+      observeAllItems: jest.fn(() => of([])),
+    },
+  };
+});
+
+jest.mock('../repositories/DailyReflectionRepository', () => {
+  const { of } = require('rxjs');
+  return {
+    dailyReflectionRepository: {
+      getReflections: jest.fn(async () => []),
+      getReflectionForDate: jest.fn(async () => null),
+      saveReflection: jest.fn(async (input) => ({ id: 'daily_reflection_1', ...input })),
+      updateReflectionServerId: jest.fn(async () => undefined),
+      observeReflections: jest.fn(() => of([])),
+    },
+  };
+});
+
+jest.mock('../repositories/BrainDumpSessionRepository', () => {
+  const { of } = require('rxjs');
+  return {
+    brainDumpSessionRepository: {
+      getSessions: jest.fn(async () => []),
+      getSessionById: jest.fn(async () => null),
+      getPendingExtractions: jest.fn(async () => []),
+      startSession: jest.fn(async (data) => ({ id: 'brain_dump_session_1', stage: 'refining', ...data })),
+      appendToSession: jest.fn(async () => null),
+      applyExtraction: jest.fn(async () => null),
+      updateItems: jest.fn(async () => undefined),
+      setStage: jest.fn(async () => undefined),
+      recordGoal: jest.fn(async () => undefined),
+      completeSession: jest.fn(async () => undefined),
+      getSessionViews: jest.fn(async () => []),
+      deleteSession: jest.fn(async () => undefined),
+      observeSessions: jest.fn(() => of([])),
     },
   };
 });
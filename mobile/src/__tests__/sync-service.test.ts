@@ -64,7 +64,7 @@ describe('SyncService Tests', () => {
         userId: 'test-user',
       });
 
-      expect(task.status).toBe('pending_create');
+      expect(task.syncState).toBe('pending_create');
 
       // Mock successful API response
       (enhancedAPI.createTask as jest.Mock).mockResolvedValue({
@@ -91,7 +91,7 @@ describe('SyncService Tests', () => {
 
       // Verify task status was updated
       const syncedTask = await taskRepository.getTaskById(task.id);
-      expect(syncedTask?.status).toBe('synced');
+      expect(syncedTask?.syncState).toBe('synced');
     });
 
     test('pushes pending_update tasks to server', async () => {
@@ -139,7 +139,7 @@ describe('SyncService Tests', () => {
 
       // Verify task status was updated
       const syncedTask = await taskRepository.getTaskById(task.id);
-      expect(syncedTask?.status).toBe('synced');
+      expect(syncedTask?.syncState).toBe('synced');
     });
 
     test('pushes pending_delete tasks to server', async () => {
@@ -334,7 +334,7 @@ describe('SyncService Tests', () => {
       expect(localTask?.title).toBe('Server Task');
       expect(localTask?.description).toBe('Created on server');
       expect(localTask?.priority).toBe('high');
-      expect(localTask?.status).toBe('synced');
+      expect(localTask?.syncState).toBe('synced');
     });
 
     test('pulls updated tasks from server', async () => {
@@ -365,7 +365,7 @@ describe('SyncService Tests', () => {
       expect(updatedTask?.title).toBe('Updated by Server');
       expect(updatedTask?.description).toBe('Updated on server');
       expect(updatedTask?.priority).toBe('low');
-      expect(updatedTask?.status).toBe('synced');
+      expect(updatedTask?.syncState).toBe('synced');
     });
 
     test('handles incremental sync with deleted records', async () => {
@@ -493,7 +493,7 @@ describe('SyncService Tests', () => {
       expect(resolvedTask?.title).toBe('Server Version');
       expect(resolvedTask?.description).toBe('Server description');
       expect(resolvedTask?.priority).toBe('high');
-      expect(resolvedTask?.status).toBe('synced');
+      expect(resolvedTask?.syncState).toBe('synced');
     });
 
     test('handles 409 conflict responses for goals', async () => {
@@ -552,7 +552,7 @@ describe('SyncService Tests', () => {
 
       // Task should remain in pending state
       const pendingTask = await taskRepository.getTaskById(task.id);
-      expect(pendingTask?.status).toBe('pending_create');
+      expect(pendingTask?.syncState).toBe('pending_create');
     });
 
     test('handles empty DELETE responses', async () => {
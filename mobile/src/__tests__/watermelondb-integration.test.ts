@@ -75,7 +75,7 @@ describe('WatermelonDB Integration Tests', () => {
         userId: 'test-user-id',
       });
       
-      expect(task.status).toBe('pending_create');
+      expect(task.syncState).toBe('pending_create');
       expect(task.title).toBe('Test Task');
       
       // Mock successful API response
@@ -90,7 +90,7 @@ describe('WatermelonDB Integration Tests', () => {
       
       // Verify task is synced
       const updatedTask = await taskRepository.getTaskById(task.id);
-      expect(updatedTask?.status).toBe('synced');
+      expect(updatedTask?.syncState).toBe('synced');
     });
 
     test('Update task offline, sync online', async () => {
@@ -116,7 +116,7 @@ describe('WatermelonDB Integration Tests', () => {
       });
       
       const updatedTask = await taskRepository.getTaskById(task.id);
-      expect(updatedTask?.status).toBe('pending_update');
+      expect(updatedTask?.syncState).toBe('pending_update');
       expect(updatedTask?.title).toBe('Updated Task');
       
       // Mock successful update
@@ -130,7 +130,7 @@ describe('WatermelonDB Integration Tests', () => {
       await syncService.sync();
       
       const syncedTask = await taskRepository.getTaskById(task.id);
-      expect(syncedTask?.status).toBe('synced');
+      expect(syncedTask?.syncState).toBe('synced');
     });
 
     test('Delete task offline, sync online', async () => {
@@ -152,7 +152,7 @@ describe('WatermelonDB Integration Tests', () => {
       await taskRepository.deleteTask(task.id);
       
       const deletedTask = await taskRepository.getTaskById(task.id);
-      expect(deletedTask?.status).toBe('pending_delete');
+      expect(deletedTask?.syncState).toBe('pending_delete');
       
       // Mock successful deletion
       (enhancedAPI.deleteTask as jest.Mock).mockResolvedValue(undefined);
@@ -287,7 +287,7 @@ describe('WatermelonDB Integration Tests', () => {
       const localTask = await taskRepository.getTaskById('server-task-id');
       expect(localTask).toBeTruthy();
       expect(localTask?.title).toBe('Server Task');
-      expect(localTask?.status).toBe('synced');
+      expect(localTask?.syncState).toBe('synced');
     });
 
     test('Sync updates existing records from server', async () => {
@@ -316,7 +316,7 @@ describe('WatermelonDB Integration Tests', () => {
       // Verify task was updated
       const updatedTask = await taskRepository.getTaskById(task.id);
       expect(updatedTask?.title).toBe('Updated by Server');
-      expect(updatedTask?.status).toBe('synced');
+      expect(updatedTask?.syncState).toBe('synced');
     });
 
     test('Sync handles incremental updates', async () => {
@@ -341,7 +341,7 @@ describe('WatermelonDB Integration Tests', () => {
           task._raw.id = 'task-2';
           task.title = 'Task to be Deleted';
           task.userId = 'test-user-id';
-          task.status = 'synced';
+          task.syncState = 'synced';
         });
       });
       
@@ -386,7 +386,7 @@ describe('WatermelonDB Integration Tests', () => {
       // Verify local record was updated with server version
       const resolvedTask = await taskRepository.getTaskById(task.id);
       expect(resolvedTask?.title).toBe('Server Version');
-      expect(resolvedTask?.status).toBe('synced');
+      expect(resolvedTask?.syncState).toBe('synced');
     });
   });
 
@@ -473,7 +473,7 @@ describe('WatermelonDB Integration Tests', () => {
       
       // Task should remain in pending state
       const pendingTask = await taskRepository.getTaskById(task.id);
-      expect(pendingTask?.status).toBe('pending_create');
+      expect(pendingTask?.syncState).toBe('pending_create');
     });
 
     test('Handles JSON parse errors', async () => {
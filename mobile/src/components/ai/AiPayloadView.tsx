@@ -0,0 +1,94 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { HugeiconsIcon as Icon } from '@hugeicons/react-native';
+import { InformationCircleIcon } from '@hugeicons/core-free-icons';
+import { colors } from '../../themes/colors';
+import { typography } from '../../themes/typography';
+import { spacing, borderRadius } from '../../themes/spacing';
+import { GoalData } from '../../types/goal';
+import { AiPayload, AiPayloadDataMap, AiPayloadType, ResolvedPayload } from '../../utils/aiPayload';
+import GoalBreakdownDisplay from './GoalBreakdownDisplay';
+import GoalTitlesDisplay from './GoalTitlesDisplay';
+import ScheduleDisplay from './ScheduleDisplay';
+import TaskDisplay, { Task } from './TaskDisplay';
+
+// What a renderer may need besides the payload itself
+export interface PayloadRenderContext {
+  messageId: string;
+  text: string;
+  conversationalText?: string;
+  conversationTitle?: string;
+  taskTitle?: string;
+  onSaveGoal: (_goalData: GoalData) => Promise<void>;
+  onSaveTasks: (_tasks: Task[]) => Promise<void>;
+  onGoalAction?: (_message: string, _sendNow?: boolean) => void;
+}
+
+type PayloadRenderer<K extends AiPayloadType> = (
+  _data: AiPayloadDataMap[K],
+  _context: PayloadRenderContext
+) => React.ReactElement | null;
+
+// Payload type -> component. A new payload type needs an entry here and a validator in utils/aiPayload.ts.
+export const PAYLOAD_RENDERERS: { [K in AiPayloadType]: PayloadRenderer<K> } = {
+  goal_breakdown: (goal, context) => (
+    <GoalBreakdownDisplay
+      key={`goal-breakdown-${context.messageId}`}
+      text={context.text}
+      goal={goal}
+      onSaveGoal={context.onSaveGoal}
+      conversationalText={context.conversationalText}
+      conversationTitle={context.conversationTitle}
+    />
+  ),
+  schedule: (schedule, context) => (
+    <ScheduleDisplay text={context.text} schedule={schedule} taskTitle={context.taskTitle} />
+  ),
+  goal_titles: (titles, context) => (
+    <GoalTitlesDisplay text={context.text} titles={titles} onAction={context.onGoalAction} />
+  ),
+  task_list: (tasks, context) => (
+    <TaskDisplay text={context.text} tasks={tasks} onSaveTasks={context.onSaveTasks} />
+  ),
+};
+
+interface AiPayloadViewProps {
+  resolved: ResolvedPayload;
+  context: PayloadRenderContext;
+}
+
+export default function AiPayloadView({ resolved, context }: AiPayloadViewProps) {
+  if (resolved.status === 'unsupported') {
+    return (
+      <View style={styles.fallback}>
+        <Icon icon={InformationCircleIcon} size={16} color={colors.text.secondary} />
+        <Text style={styles.fallbackText}>
+          This reply includes content this version of the app can't show yet. Update the app to see it.
+        </Text>
+      </View>
+    );
+  }
+
+  const { payload } = resolved;
+  const render = PAYLOAD_RENDERERS[payload.type] as (_data: AiPayload['data'], _context: PayloadRenderContext) => React.ReactElement | null;
+  return render(payload.data, context);
+}
+
+const styles = StyleSheet.create({
+  fallback: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    backgroundColor: colors.background.surface,
+  },
+  fallbackText: {
+    flex: 1,
+    marginLeft: spacing.xs,
+    color: colors.text.secondary,
+    fontSize: typography.fontSize.sm,
+  },
+});
@@ -6,9 +6,12 @@ import { colors } from '../../themes/colors';
 import { typography } from '../../themes/typography';
 import { spacing, borderRadius } from '../../themes/spacing';
 import { GoalData, GoalMilestone, GoalStep } from '../../types/goal';
+import { payloadFromAssistantText } from '../../utils/aiPayload';
 
 interface GoalBreakdownDisplayProps {
   text: string;
+  // Already-validated goal from a message payload; skips parsing `text`
+  goal?: GoalData;
   onSaveGoal: (goalData: GoalData) => Promise<void>;
   conversationalText?: string;
   conversationTitle?: string;
@@ -16,98 +19,10 @@ interface GoalBreakdownDisplayProps {
 
 // Parse goal breakdown from text - extracted to avoid recreating on every render
 const parseGoalBreakdown = (breakdownText: string, conversationalText?: string, conversationTitle?: string): GoalData => {
-  try {
-    // First try to parse standardized JSON format
-    const jsonMatch = breakdownText.match(/```json\s*(\{[\s\S]*?\})\s*```/);
-    if (jsonMatch) {
-      const jsonData = JSON.parse(jsonMatch[1]);
-      // Case A: { category: 'goal', milestones: [...] } (older schema)
-      if (jsonData.category === 'goal' && jsonData.milestones) {
-        const rawCategory =
-          jsonData.category && jsonData.category !== 'goal'
-            ? jsonData.category
-            : jsonData.priority;
-        return {
-          title: jsonData.title || '',
-          description: jsonData.description || '',
-          dueDate: jsonData.due_date || jsonData.dueDate,
-          category: rawCategory ?? undefined,
-          milestones: jsonData.milestones
-        };
-      }
-      // Case B: { category: 'goal', goal: { ...full goal... } } (current backend schema)
-      if (jsonData.category === 'goal' && jsonData.goal) {
-        const g = jsonData.goal || {};
-        return {
-          title: g.title || jsonData.title || '',
-          description: g.description || '',
-          dueDate: g.target_completion_date || g.due_date || g.dueDate,
-          category: g.category || g.priority,
-          milestones: Array.isArray(g.milestones) ? g.milestones : [],
-        };
-      }
-      // Case C: read action wrapper { action_type:'read', entity_type:'goal', details: {...} }
-      if (jsonData.action_type === 'read' && jsonData.entity_type === 'goal') {
-        const details = jsonData.details || {};
-        const first = Array.isArray(details?.goals) ? details.goals[0] : (Array.isArray(details) ? details[0] : details);
-        const g = first || {};
-        if (g && typeof g === 'object') {
-          return {
-            title: g.title || '',
-            description: g.description || '',
-            dueDate: g.target_completion_date || g.due_date || g.dueDate,
-            category: g.category || g.priority,
-            milestones: Array.isArray(g.milestones) ? g.milestones : [],
-          };
-        }
-      }
-    }
-
-    // Also try to parse if the text is just JSON
-    const directJsonMatch = breakdownText.match(/\{[\s\S]*\}/);
-    if (directJsonMatch) {
-      const jsonData = JSON.parse(directJsonMatch[0]);
-      // Mirror the same three cases for direct JSON
-      if (jsonData.category === 'goal' && jsonData.milestones) {
-        const rawCategory =
-          jsonData.category && jsonData.category !== 'goal'
-            ? jsonData.category
-            : jsonData.priority;
-        return {
-          title: jsonData.title || '',
-          description: jsonData.description || '',
-          dueDate: jsonData.due_date || jsonData.dueDate,
-          category: rawCategory ?? undefined,
-          milestones: jsonData.milestones
-        };
-      }
-      if (jsonData.category === 'goal' && jsonData.goal) {
-        const g = jsonData.goal || {};
-        return {
-          title: g.title || jsonData.title || '',
-          description: g.description || '',
-          dueDate: g.target_completion_date || g.due_date || g.dueDate,
-          category: g.category || g.priority,
-          milestones: Array.isArray(g.milestones) ? g.milestones : [],
-        };
-      }
-      if (jsonData.action_type === 'read' && jsonData.entity_type === 'goal') {
-        const details = jsonData.details || {};
-        const first = Array.isArray(details?.goals) ? details.goals[0] : (Array.isArray(details) ? details[0] : details);
-        const g = first || {};
-        if (g && typeof g === 'object') {
-          return {
-            title: g.title || '',
-            description: g.description || '',
-            dueDate: g.target_completion_date || g.due_date || g.dueDate,
-            category: g.category || g.priority,
-            milestones: Array.isArray(g.milestones) ? g.milestones : [],
-          };
-        }
-      }
-    }
-  } catch (error) {
-    console.error('Failed to parse JSON goal data:', error);
+  // Structured JSON goes through the shared payload parser
+  const payload = payloadFromAssistantText(breakdownText);
+  if (payload?.type === 'goal_breakdown') {
+    return payload.data;
   }
 
   // Fallback to old parsing method for backward compatibility
@@ -333,14 +248,14 @@ const parseGoalBreakdown = (breakdownText: string, conversationalText?: string,
   return goalData;
 };
 
-export default function GoalBreakdownDisplay({ text, onSaveGoal, conversationalText, conversationTitle }: GoalBreakdownDisplayProps) {
+export default function GoalBreakdownDisplay({ text, goal, onSaveGoal, conversationalText, conversationTitle }: GoalBreakdownDisplayProps) {
   const [isSaving, setIsSaving] = React.useState(false);
   const [isSaved, setIsSaved] = React.useState(false);
 
   // Memoize parsing to avoid re-parsing on every render
   const goalData = useMemo(() => {
-    return parseGoalBreakdown(text, conversationalText, conversationTitle);
-  }, [text, conversationalText, conversationTitle]);
+    return goal ?? parseGoalBreakdown(text, conversationalText, conversationTitle);
+  }, [goal, text, conversationalText, conversationTitle]);
 
   // Reset saved state when new AI breakdown data arrives
   useEffect(() => {
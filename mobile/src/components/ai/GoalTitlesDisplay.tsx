@@ -5,47 +5,23 @@ import { Target01Icon, ArrowUp01Icon, ArrowDown01Icon, CheckmarkCircle01Icon, In
 import { colors } from '../../themes/colors';
 import { typography } from '../../themes/typography';
 import { spacing, borderRadius } from '../../themes/spacing';
+import { AiPayloadDataMap, payloadFromAssistantText } from '../../utils/aiPayload';
 
 interface GoalTitlesDisplayProps {
   text: string;
+  // Already-validated titles from a message payload; skips parsing `text`
+  titles?: AiPayloadDataMap['goal_titles'];
   onAction?: (_message: string, _sendNow?: boolean) => void;
 }
 
-interface ParsedTitles {
-  title: string;
-  goals: string[];
-}
-
-export default function GoalTitlesDisplay({ text, onAction }: GoalTitlesDisplayProps) {
-  // Parse a titles-only goal payload from the AI message
-  const parseTitles = (input: string): ParsedTitles | null => {
-    try {
-      // Prefer JSON code block first
-      const jsonBlock = input.match(/```json\s*(\{[\s\S]*?\})\s*```/i);
-      const candidate = jsonBlock ? jsonBlock[1] : (input.match(/\{[\s\S]*\}/)?.[0] || null);
-      if (!candidate) { return null; }
-      const data = JSON.parse(candidate);
-      if (data && data.category === 'goal' && Array.isArray(data.goals)) {
-        const titles = data.goals.filter((g: any) => typeof g === 'string');
-        if (titles.length > 0) {
-          return { title: data.title || 'Your Goals', goals: titles };
-        }
-      }
-      // Some backends might wrap in details
-      if (data && data.action_type === 'read' && data.entity_type === 'goal') {
-        const list = Array.isArray(data.details?.goals) ? data.details.goals : [];
-        const titles = list.filter((g: any) => typeof g === 'string');
-        if (titles.length > 0) {
-          return { title: 'Your Goals', goals: titles };
-        }
-      }
-      return null;
-    } catch {
-      return null;
+export default function GoalTitlesDisplay({ text, titles, onAction }: GoalTitlesDisplayProps) {
+  const parsed = useMemo<AiPayloadDataMap['goal_titles'] | null>(() => {
+    if (titles) {
+      return titles;
     }
-  };
-
-  const parsed = useMemo(() => parseTitles(text), [text]);
+    const payload = payloadFromAssistantText(text);
+    return payload?.type === 'goal_titles' ? payload.data : null;
+  }, [text, titles]);
   const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
   if (!parsed) { return null; }
 
@@ -7,22 +7,18 @@ import { HugeiconsIcon as Icon } from '@hugeicons/react-native';
 import { Calendar01Icon, ArrowLeft01Icon, ArrowRight01Icon, PlusSignIcon } from '@hugeicons/core-free-icons';
 import type { CalendarEvent } from '../../types/calendar';
 import { extractCalendarEvents } from '../../screens/tasks/utils/calendarEventUtils';
-
-interface ScheduleEvent {
-  activity: string;
-  startTime: string; // may be ISO or time string
-  endTime: string;   // may be ISO or time string
-  date?: string;     // human date like August 15, 2025
-}
+import { AiPayloadDataMap, ScheduleEvent, payloadFromAssistantText } from '../../utils/aiPayload';
 
 interface ScheduleDisplayProps {
   text: string;
   taskTitle?: string;
+  // Already-validated schedule from a message payload; skips parsing `text`
+  schedule?: AiPayloadDataMap['schedule'];
 }
 
 import { calendarAPI } from '../../services/api';
 
-export default function ScheduleDisplay({ text, taskTitle }: ScheduleDisplayProps) {
+export default function ScheduleDisplay({ text, taskTitle, schedule }: ScheduleDisplayProps) {
   const [isBulkScheduling, setIsBulkScheduling] = useState(false);
   const [calendarEvents, setCalendarEvents] = useState<CalendarEvent[]>([]);
   const [calendarEventsLoaded, setCalendarEventsLoaded] = useState(false);
@@ -81,39 +77,15 @@ export default function ScheduleDisplay({ text, taskTitle }: ScheduleDisplayProp
     return "Today's Schedule";
   };
 
+  const withActivityFallback = (scheduleEvents: ScheduleEvent[]): ScheduleEvent[] =>
+    scheduleEvents.map(event => ({ ...event, activity: event.activity || taskTitle || 'Task' }));
+
   // Parse schedule events from text
   const parseScheduleEvents = (scheduleText: string): ScheduleEvent[] => {
-    try {
-      // First try to parse standardized JSON format
-      const jsonMatch = scheduleText.match(/```json\s*(\{[\s\S]*?\})\s*```/);
-      if (jsonMatch) {
-        const jsonData = JSON.parse(jsonMatch[1]);
-        if (jsonData.category === 'schedule' && jsonData.events) {
-          return jsonData.events.map((event: any) => ({
-            activity: event.title || event.summary || taskTitle || 'Task',
-            // Support both new keys (startTime/endTime) and ISO keys (start/end)
-            startTime: event.startTime || event.start?.dateTime || event.start || event.start_time,
-            endTime: event.endTime || event.end?.dateTime || event.end || event.end_time,
-            date: event.date || event.dateLabel,
-          }));
-        }
-      }
-
-      // Also try to parse if the text is just JSON
-      const directJsonMatch = scheduleText.match(/\{[\s\S]*\}/);
-      if (directJsonMatch) {
-        const jsonData = JSON.parse(directJsonMatch[0]);
-        if (jsonData.category === 'schedule' && jsonData.events) {
-          return jsonData.events.map((event: any) => ({
-            activity: event.title || event.summary || taskTitle || 'Task',
-            startTime: event.startTime || event.start?.dateTime || event.start || event.start_time,
-            endTime: event.endTime || event.end?.dateTime || event.end || event.end_time,
-            date: event.date || event.dateLabel,
-          }));
-        }
-      }
-    } catch (_error) {
-      // ignore parse errors; fallback below
+    // Structured JSON goes through the shared payload parser
+    const payload = payloadFromAssistantText(scheduleText);
+    if (payload?.type === 'schedule') {
+      return withActivityFallback(payload.data.events);
     }
 
     // Fallback to old parsing method for backward compatibility
@@ -161,7 +133,7 @@ export default function ScheduleDisplay({ text, taskTitle }: ScheduleDisplayProp
     return events;
   };
 
-  const events = parseScheduleEvents(text);
+  const events = schedule ? withActivityFallback(schedule.events) : parseScheduleEvents(text);
 
   // If no events found, return null to fall back to regular text display
   if (events.length === 0) {
@@ -6,74 +6,27 @@ import { colors } from '../../themes/colors';
 import { typography } from '../../themes/typography';
 import { spacing, borderRadius } from '../../themes/spacing';
 import { tasksAPI } from '../../services/api';
+import { AiPayloadDataMap, PayloadTask, payloadFromAssistantText } from '../../utils/aiPayload';
 
-export interface Task {
-  id?: string;
-  title: string;
-  description?: string;
-  dueDate?: string;
-  priority?: string;
-  status?: 'not_started' | 'in_progress' | 'completed';
-}
+export type Task = PayloadTask;
 
-interface TaskData {
-  category: string;
-  title: string;
-  tasks: Task[];
-}
+type TaskData = AiPayloadDataMap['task_list'];
 
 interface TaskDisplayProps {
   text: string;
+  // Already-validated task list from a message payload; skips parsing `text`
+  tasks?: TaskData;
   onSaveTasks: (tasks: Task[]) => Promise<void>;
 }
 
-// Normalize raw payload into TaskData shape expected by the UI
-const normalizeTaskPayload = (payload: any): TaskData => {
-  const normalizedTasks: Task[] = (payload.tasks || []).map((t: any) => ({
-    id: t.id,
-    title: t.title || t.text,
-    description: t.description || '',
-    dueDate: t.dueDate || t.due_date,
-    priority: t.priority,
-    status: t.status,
-  }));
-  return {
-    category: 'task',
-    title: payload.title || 'Your Tasks',
-    tasks: normalizedTasks,
-  };
-};
-
 // Parse task data from text
 const parseTaskData = (taskText: string): TaskData | null => {
-  try {
-    // Look for JSON code blocks
-    const jsonMatch = taskText.match(/```json\s*(\{[\s\S]*?\})\s*```/);
-    if (jsonMatch) {
-      const jsonData = JSON.parse(jsonMatch[1]);
-      if (jsonData.category === 'task' && jsonData.tasks) {
-        return normalizeTaskPayload(jsonData);
-      }
-    }
-
-    // Also try to parse if the text is just JSON
-    const directJsonMatch = taskText.match(/\{[\s\S]*\}/);
-    if (directJsonMatch) {
-      const jsonData = JSON.parse(directJsonMatch[0]);
-      if (jsonData.category === 'task' && jsonData.tasks) {
-        return normalizeTaskPayload(jsonData);
-      }
-    }
-
-    return null;
-  } catch (_error) {
-    // ignore parse errors; fall back to null
-    return null;
-  }
+  const payload = payloadFromAssistantText(taskText);
+  return payload?.type === 'task_list' ? payload.data : null;
 };
 
-export default function TaskDisplay({ text, onSaveTasks }: TaskDisplayProps) {
-  const taskData = useMemo(() => parseTaskData(text), [text]);
+export default function TaskDisplay({ text, tasks, onSaveTasks }: TaskDisplayProps) {
+  const taskData = useMemo(() => tasks ?? parseTaskData(text), [text, tasks]);
   const [items, setItems] = useState<Task[]>(taskData?.tasks || []);
   const [updatingId, setUpdatingId] = useState<string | null>(null);
   const [showCompleted, setShowCompleted] = useState(false);
@@ -48,6 +48,15 @@ interface AnalyticsData {
     totalUsersWithTasks: number;
     totalUsersWithAiUsage: number;
   };
+  reflectionStats?: {
+    totalReflections: number;
+    usersWithReflections: number;
+    avgMood: number;
+    avgEnergy: number;
+    tasksCompleted: number;
+    tasksRolledOver: number;
+    tasksDropped: number;
+  };
 }
 
 const MobileAnalyticsDashboard: React.FC = () => {
@@ -324,6 +333,33 @@ const MobileAnalyticsDashboard: React.FC = () => {
           </View>
         )}
 
+        {/* End-of-day Reflections */}
+        {analyticsData?.reflectionStats && (
+          <View style={styles.metricsContainer}>
+            <MetricCard
+              title="Daily Reflections"
+              value={formatNumber(analyticsData.reflectionStats.totalReflections)}
+              subtitle={`${formatNumber(analyticsData.reflectionStats.usersWithReflections)} users`}
+              icon={Comment01Icon}
+              color="#EC4899"
+            />
+            <MetricCard
+              title="Avg Mood / Energy"
+              value={`${analyticsData.reflectionStats.avgMood.toFixed(1)} / ${analyticsData.reflectionStats.avgEnergy.toFixed(1)}`}
+              subtitle="Out of 5"
+              icon={ChartAverageIcon}
+              color="#F59E0B"
+            />
+            <MetricCard
+              title="Rolled Over"
+              value={formatNumber(analyticsData.reflectionStats.tasksRolledOver)}
+              subtitle={`${formatNumber(analyticsData.reflectionStats.tasksCompleted)} done, ${formatNumber(analyticsData.reflectionStats.tasksDropped)} dropped at review`}
+              icon={Task01Icon}
+              color="#3B82F6"
+            />
+          </View>
+        )}
+
         {/* Event Breakdown */}
         {analyticsData && (
           <View style={styles.section}>
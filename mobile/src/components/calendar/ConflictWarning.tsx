@@ -0,0 +1,141 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { HugeiconsIcon as Icon } from '@hugeicons/react-native';
+import { Alert02Icon } from '@hugeicons/core-free-icons';
+import { format } from 'date-fns';
+import { colors } from '../../themes/colors';
+import { typography } from '../../themes/typography';
+import { spacing, borderRadius } from '../../themes/spacing';
+import { hapticFeedback } from '../../utils/hapticFeedback';
+import { EventConflict, describeConflict } from '../../utils/calendarConflicts';
+
+type TimeRange = { startTime: Date; endTime: Date };
+
+interface ConflictWarningProps {
+  conflicts: EventConflict[];
+  bufferMinutes: number;
+  alternatives?: TimeRange[];
+  onSelectAlternative?: (_alternative: TimeRange) => void;
+}
+
+const formatAlternative = (alternative: TimeRange) => format(alternative.startTime, 'h:mm a');
+
+// Inline warning under a time picker; saving is still allowed
+export const ConflictWarning: React.FC<ConflictWarningProps> = ({
+  conflicts,
+  bufferMinutes,
+  alternatives = [],
+  onSelectAlternative,
+}) => {
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Icon icon={Alert02Icon} size={16} color={colors.warning} />
+        <Text style={styles.title}>
+          {conflicts.length === 1 ? 'Time conflict' : `${conflicts.length} time conflicts`}
+        </Text>
+      </View>
+      {conflicts.map(conflict => (
+        <Text key={`${conflict.kind}-${conflict.event.id}`} style={styles.message}>
+          {describeConflict(conflict, bufferMinutes)}
+        </Text>
+      ))}
+      {alternatives.length > 0 && onSelectAlternative && (
+        <View style={styles.alternatives}>
+          <Text style={styles.alternativesLabel}>Nearest free:</Text>
+          {alternatives.map(alternative => (
+            <TouchableOpacity
+              key={alternative.startTime.toISOString()}
+              style={styles.chip}
+              onPress={() => {
+                hapticFeedback.selection();
+                onSelectAlternative(alternative);
+              }}
+            >
+              <Text style={styles.chipText}>{formatAlternative(alternative)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+/**
+ * Asks what to do about a conflicting time: use the nearest free time, keep it, or cancel.
+ * @returns The start time to use, or null when the user cancels
+ */
+export const confirmConflictingTime = (
+  startTime: Date,
+  conflicts: EventConflict[],
+  bufferMinutes: number,
+  alternative?: TimeRange
+): Promise<Date | null> => new Promise(resolve => {
+  hapticFeedback.warning();
+  Alert.alert(
+    'Time conflict',
+    conflicts.map(conflict => describeConflict(conflict, bufferMinutes)).join('\n'),
+    [
+      ...(alternative
+        ? [{ text: `Use ${formatAlternative(alternative)}`, onPress: () => resolve(alternative.startTime) }]
+        : []),
+      { text: 'Keep time', onPress: () => resolve(startTime) },
+      { text: 'Cancel', style: 'cancel' as const, onPress: () => resolve(null) },
+    ],
+    { cancelable: true, onDismiss: () => resolve(null) }
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: spacing.sm,
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.warning,
+    backgroundColor: colors.background.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.xs,
+  },
+  title: {
+    marginLeft: spacing.xs,
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.bold as any,
+    color: colors.text.primary,
+  },
+  message: {
+    fontSize: typography.fontSize.sm,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  alternatives: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+    gap: spacing.xs,
+  },
+  alternativesLabel: {
+    fontSize: typography.fontSize.xs,
+    color: colors.text.secondary,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border.medium,
+  },
+  chipText: {
+    fontSize: typography.fontSize.xs,
+    color: colors.text.primary,
+    fontWeight: typography.fontWeight.medium as any,
+  },
+});
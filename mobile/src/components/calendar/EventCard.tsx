@@ -9,13 +9,14 @@ import {
   Platform,
 } from 'react-native';
 import { HugeiconsIcon as Icon } from '@hugeicons/react-native';
-import { Clock01Icon, PencilEdit01Icon, Tick01Icon, Delete01Icon } from '@hugeicons/core-free-icons';
+import { Alert02Icon, Clock01Icon, PencilEdit01Icon, Tick01Icon, Delete01Icon } from '@hugeicons/core-free-icons';
 import { colors } from '../../themes/colors';
 import { typography } from '../../themes/typography';
 import { spacing } from '../../themes/spacing';
 // import { Button } from '../common/Button';
 import { CalendarEvent, Task } from '../../types/calendar';
 import { hapticFeedback } from '../../utils/hapticFeedback';
+import { formatSecondaryTime } from '../../utils/dateUtils';
 
 interface EventCardProps {
   event: CalendarEvent | Task;
@@ -25,6 +26,8 @@ interface EventCardProps {
   onCompleteTask?: (taskId: string) => void;
   onReschedule?: (eventId: string, newDate: Date) => void;
   compact?: boolean;
+  // Overlaps another event (see utils/calendarConflicts.ts)
+  hasConflict?: boolean;
 }
 
 export const EventCard = React.memo<EventCardProps>(({
@@ -35,6 +38,7 @@ export const EventCard = React.memo<EventCardProps>(({
   onCompleteTask,
   onReschedule,
   compact = false,
+  hasConflict = false,
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [_deleting, setDeleting] = useState(false);
@@ -128,6 +132,16 @@ export const EventCard = React.memo<EventCardProps>(({
     return '';
   };
 
+  // The event's start in the zone it was planned in, when that zone's clocks differ from the viewer's
+  const getSecondaryTime = () => {
+    const start = calendarEvent?.start_time || calendarEvent?.start?.dateTime;
+    if (!start || calendarEvent?.is_all_day) {
+      return null;
+    }
+    return formatSecondaryTime(new Date(start), calendarEvent?.time_zone);
+  };
+  const secondaryTime = getSecondaryTime();
+
   const getEventTitle = () => {
     return isTask ? task?.title : calendarEvent?.summary || calendarEvent?.title || 'Untitled Event';
   };
@@ -312,6 +326,7 @@ export const EventCard = React.memo<EventCardProps>(({
           <Text style={styles.compactTitle} numberOfLines={1}>
             {getEventTitle()}
           </Text>
+          {hasConflict && <Icon icon={Alert02Icon} size={14} color={colors.warning} style={styles.compactConflictIcon} />}
           <Text style={styles.compactTime}>{getEventTime()}</Text>
         </TouchableOpacity>
       </View>
@@ -329,6 +344,12 @@ export const EventCard = React.memo<EventCardProps>(({
           <View style={styles.titleContainer}>
             <Text style={styles.title}>{getEventTitle()}</Text>
             {getStatusIndicator()}
+            {hasConflict && (
+              <View style={styles.conflictBadge}>
+                <Icon icon={Alert02Icon} size={12} color={colors.warning} />
+                <Text style={styles.conflictText}>Conflict</Text>
+              </View>
+            )}
             {/* Priority badge for task-linked events (if priority is available on the event) */}
             {!isTask && (calendarEvent as any)?.task_id && ((calendarEvent as any)?.task_priority || (calendarEvent as any)?.priority) ? (
               <View style={[
@@ -357,6 +378,10 @@ export const EventCard = React.memo<EventCardProps>(({
           </View>
         </View>
 
+        {secondaryTime && (
+          <Text style={styles.secondaryTime}>{secondaryTime} where planned</Text>
+        )}
+
         {getEventDescription() && (
           <Text style={styles.description} numberOfLines={isExpanded ? undefined : 2}>
             {getEventDescription()}
@@ -503,6 +528,11 @@ const styles = StyleSheet.create({
   rescheduleIcon: {
     opacity: 0.6,
   },
+  secondaryTime: {
+    fontSize: typography.fontSize.xs,
+    color: colors.text.secondary,
+    marginBottom: spacing.xs,
+  },
   description: {
     fontSize: typography.fontSize.sm,
     color: colors.text.secondary,
@@ -529,6 +559,25 @@ const styles = StyleSheet.create({
     color: colors.text.secondary,
     textTransform: 'capitalize',
   },
+  conflictBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.xs,
+    paddingVertical: 2,
+    borderRadius: spacing.xs,
+    borderWidth: 1,
+    borderColor: colors.warning,
+    marginRight: spacing.sm,
+  },
+  conflictText: {
+    marginLeft: 2,
+    fontSize: typography.fontSize.xs,
+    color: colors.warning,
+    fontWeight: typography.fontWeight.medium as any,
+  },
+  compactConflictIcon: {
+    marginRight: spacing.xs,
+  },
   // Removed Task link badge styles; using priorityBadge instead
   statusIndicator: {
     width: 8,
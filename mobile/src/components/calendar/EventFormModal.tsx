@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -10,6 +10,7 @@ import {
   Alert,
 } from 'react-native';
 import DateTimePickerModal from 'react-native-modal-datetime-picker';
+import { Q } from '@nozbe/watermelondb';
 import { colors } from '../../themes/colors';
 import { typography } from '../../themes/typography';
 import { spacing } from '../../themes/spacing';
@@ -19,6 +20,13 @@ import { useDatabase } from '../../contexts/DatabaseContext';
 import { authService } from '../../services/auth';
 import CalendarEvent from '../../db/models/CalendarEvent';
 import Task from '../../db/models/Task';
+import { getPendingSyncState } from '../../utils/taskStatus';
+import { outboxRepository } from '../../repositories/OutboxRepository';
+import { offlineService } from '../../services/offline';
+import { findConflicts, suggestAlternatives } from '../../utils/calendarConflicts';
+import { FreeBusyPreferences, resolveFreeBusyPreferences } from '../../utils/freeBusy';
+import { formatSecondaryTime, getDeviceTimeZone } from '../../utils/dateUtils';
+import { ConflictWarning } from './ConflictWarning';
 import { v4 as uuidv4 } from 'uuid';
 
 interface EventFormData {
@@ -58,9 +66,60 @@ export const EventFormModal: React.FC<EventFormModalProps> = ({
   const [showEndPicker, setShowEndPicker] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [linkedTaskDurationMinutes, setLinkedTaskDurationMinutes] = useState<number | null>(null);
+  const [otherEvents, setOtherEvents] = useState<CalendarEvent[]>([]);
+  const [schedulingPreferences, setSchedulingPreferences] = useState<FreeBusyPreferences | null>(null);
+  const bufferMinutes = schedulingPreferences?.buffer_time_minutes ?? 0;
 
   const isEditing = !!event;
 
+  // Events to check the chosen time against, and the scheduling preferences for the buffer and alternatives
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      try {
+        const [events, preferences] = await Promise.all([
+          database.get<CalendarEvent>('calendar_events')
+            .query(Q.where('status', Q.notEq('pending_delete')))
+            .fetch(),
+          offlineService.getCachedSchedulingPreferences(),
+        ]);
+        if (!cancelled) {
+          setOtherEvents(events);
+          setSchedulingPreferences(resolveFreeBusyPreferences(preferences));
+        }
+      } catch (_error) {
+        // Conflict warnings are advisory; the form works without them
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [database, visible]);
+
+  const conflictCheck = useMemo(() => {
+    if (formData.startTime >= formData.endTime) {
+      return { conflicts: [], alternatives: [] };
+    }
+    const candidate = {
+      id: event instanceof CalendarEvent ? event.id : undefined,
+      startTime: formData.startTime,
+      endTime: formData.endTime,
+      isAllDay: event instanceof CalendarEvent ? event.isAllDay : false,
+    };
+    // A task's own calendar event is not a conflict
+    const ignoreIds = event instanceof Task ? otherEvents.filter(e => e.taskId === event.id).map(e => e.id) : [];
+    const conflicts = findConflicts(candidate, otherEvents, { bufferMinutes, ignoreIds });
+    return {
+      conflicts,
+      alternatives: conflicts.some(c => c.kind !== 'all_day')
+        ? suggestAlternatives(candidate, otherEvents, schedulingPreferences, { ignoreIds })
+        : [],
+    };
+  }, [bufferMinutes, event, formData.endTime, formData.startTime, otherEvents, schedulingPreferences]);
+
   // Initialize form data when editing
   useEffect(() => {
     if (event) {
@@ -173,8 +232,13 @@ export const EventFormModal: React.FC<EventFormModalProps> = ({
               e.startTime = formData.startTime;
               e.endTime = formData.endTime;
               e.location = formData.location;
+              // Events from before time zones were stored take the zone they are edited in
+              if (!e.timeZone) {
+                e.timeZone = getDeviceTimeZone();
+              }
               e.status = 'pending_update';
             });
+            await outboxRepository.enqueue('calendar_events', eventRecord.id, 'update');
           });
         } else if (event instanceof Task) {
           const taskRecord = await database.get<Task>('tasks').find(event.id);
@@ -186,8 +250,11 @@ export const EventFormModal: React.FC<EventFormModalProps> = ({
               // Update duration based on form times
               const duration = (formData.endTime.getTime() - formData.startTime.getTime()) / 60000;
               t.estimatedDurationMinutes = duration > 0 ? duration : 0;
-              t.status = 'pending_update';
+              t.syncState = getPendingSyncState(t.syncState);
             });
+            await outboxRepository.enqueueSyncState('tasks', taskRecord.id, taskRecord.syncState, [
+              { table: 'goals', id: taskRecord.goalId },
+            ]);
           });
         } else {
           // Fallback or error for unknown event types
@@ -209,8 +276,10 @@ export const EventFormModal: React.FC<EventFormModalProps> = ({
             e.endTime = formData.endTime;
             e.location = formData.location;
             e.isAllDay = false; // default
+            e.timeZone = getDeviceTimeZone();
             e.status = 'pending_create';
           });
+          await outboxRepository.enqueue('calendar_events', newId, 'create');
         });
       }
       onClose();
@@ -252,6 +321,10 @@ export const EventFormModal: React.FC<EventFormModalProps> = ({
 
   // removed unused cancel handlers
 
+  // Times are picked in the device's zone; events planned elsewhere also show their own clock
+  const eventTimeZone = event instanceof CalendarEvent ? event.timeZone : undefined;
+  const startInEventZone = formatSecondaryTime(formData.startTime, eventTimeZone);
+
   const formatDateTime = (date: Date) => {
     return date.toLocaleString([], {
       weekday: 'short',
@@ -329,6 +402,11 @@ export const EventFormModal: React.FC<EventFormModalProps> = ({
                   {formatDateTime(formData.startTime)}
                 </Text>
               </TouchableOpacity>
+              {startInEventZone && (
+                <Text style={styles.zoneNote}>
+                  {startInEventZone} in {eventTimeZone}, where this event was planned
+                </Text>
+              )}
             </View>
 
             {/* End Time */}
@@ -346,6 +424,12 @@ export const EventFormModal: React.FC<EventFormModalProps> = ({
                 </Text>
               </TouchableOpacity>
               {errors.endTime && <Text style={styles.errorText}>{errors.endTime}</Text>}
+              <ConflictWarning
+                conflicts={conflictCheck.conflicts}
+                bufferMinutes={bufferMinutes}
+                alternatives={conflictCheck.alternatives}
+                onSelectAlternative={({ startTime, endTime }) => setFormData(prev => ({ ...prev, startTime, endTime }))}
+              />
             </View>
 
             {/* Location */}
@@ -557,6 +641,11 @@ const styles = StyleSheet.create({
     color: colors.error,
     marginTop: spacing.xs,
   },
+  zoneNote: {
+    fontSize: typography.fontSize.xs,
+    color: colors.text.secondary,
+    marginTop: spacing.xs,
+  },
   recurringContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,298 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
+import { addDays, format, startOfDay } from 'date-fns';
+import { colors } from '../../themes/colors';
+import { typography } from '../../themes/typography';
+import { spacing, borderRadius } from '../../themes/spacing';
+import { Button } from '../common/Button';
+import { HugeiconsIcon as Icon } from '@hugeicons/react-native';
+import { Cancel01Icon } from '@hugeicons/core-free-icons';
+import { icsCalendar, IcsImportSummary } from '../../services/icsCalendar';
+import { hapticFeedback } from '../../utils/hapticFeedback';
+
+interface IcsCalendarModalProps {
+  visible: boolean;
+  // Exports start on this day
+  fromDate: Date;
+  onClose: () => void;
+  onImportComplete?: () => void;
+}
+
+const EXPORT_RANGES = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+];
+
+const describeImport = ({ created, updated, unchanged }: IcsImportSummary) => {
+  const parts = [`${created} added`, `${updated} updated`];
+  if (unchanged > 0) {
+    parts.push(`${unchanged} unchanged`);
+  }
+  return `Import finished: ${parts.join(', ')}.`;
+};
+
+/**
+ * Exports a date range to an .ics file via the share sheet, and imports .ics calendars
+ * from a picked file, a link or pasted file contents.
+ */
+export function IcsCalendarModal({
+  visible,
+  fromDate,
+  onClose,
+  onImportComplete,
+}: IcsCalendarModalProps) {
+  const [rangeDays, setRangeDays] = useState(EXPORT_RANGES[0].days);
+  const [source, setSource] = useState('');
+  const [busy, setBusy] = useState<'export' | 'file' | 'import' | null>(null);
+  const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+
+  const start = startOfDay(fromDate);
+  const end = addDays(start, rangeDays);
+
+  const handleExport = async () => {
+    setBusy('export');
+    setStatus(null);
+    try {
+      const count = await icsCalendar.shareRange(start, end);
+      if (count === 0) {
+        setStatus({ message: 'No events or scheduled tasks in this range.', isError: false });
+      }
+    } catch (error) {
+      console.error('[IcsCalendarModal] Export failed:', error);
+      setStatus({ message: 'Failed to export the calendar. Please try again.', isError: true });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Runs an import; a null summary means the user backed out
+  const runImport = async (kind: 'file' | 'import', importCalendar: () => Promise<IcsImportSummary | null>) => {
+    setBusy(kind);
+    setStatus(null);
+    try {
+      const summary = await importCalendar();
+      if (!summary) {
+        return;
+      }
+      hapticFeedback.success();
+      setStatus({ message: describeImport(summary), isError: false });
+      setSource('');
+      onImportComplete?.();
+    } catch (error) {
+      console.error('[IcsCalendarModal] Import failed:', error);
+      hapticFeedback.error();
+      setStatus({
+        message: error instanceof Error ? error.message : 'Failed to import the calendar. Please try again.',
+        isError: true,
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleImportFile = () => runImport('file', () => icsCalendar.importFromFile());
+
+  const handleImport = () => {
+    const value = source.trim();
+    if (!value) {
+      return;
+    }
+    runImport('import', () => (value.startsWith('BEGIN:VCALENDAR')
+      ? icsCalendar.importText(value)
+      : icsCalendar.importFromUrl(value)));
+  };
+
+  const handleClose = () => {
+    if (busy) {
+      return;
+    }
+    setStatus(null);
+    setSource('');
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modalContainer}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Calendar File (.ics)</Text>
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+              <Icon icon={Cancel01Icon} size={20} color={colors.text.secondary} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.sectionTitle}>Export</Text>
+          <Text style={styles.description}>
+            Events and scheduled tasks from {format(start, 'MMM d')} to {format(addDays(end, -1), 'MMM d')}.
+          </Text>
+          <View style={styles.rangeRow}>
+            {EXPORT_RANGES.map(range => (
+              <TouchableOpacity
+                key={range.days}
+                style={[styles.rangeChip, range.days === rangeDays && styles.rangeChipActive]}
+                onPress={() => setRangeDays(range.days)}
+                disabled={busy !== null}
+              >
+                <Text style={[styles.rangeChipText, range.days === rangeDays && styles.rangeChipTextActive]}>
+                  {range.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Button
+            title="Share .ics File"
+            onPress={handleExport}
+            disabled={busy !== null}
+            loading={busy === 'export'}
+          />
+
+          <Text style={[styles.sectionTitle, styles.importTitle]}>Import</Text>
+          <Text style={styles.description}>
+            Open an .ics file, or paste a calendar link (https:// or webcal://) or the contents of one.
+            Importing the same calendar again updates its events instead of adding copies.
+          </Text>
+          <Button
+            title="Open .ics File"
+            onPress={handleImportFile}
+            disabled={busy !== null}
+            loading={busy === 'file'}
+            style={styles.fileButton}
+          />
+          <TextInput
+            style={styles.input}
+            value={source}
+            onChangeText={setSource}
+            placeholder="webcal://… or BEGIN:VCALENDAR…"
+            placeholderTextColor={colors.text.disabled}
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+            editable={busy === null}
+          />
+          <Button
+            title="Import"
+            onPress={handleImport}
+            variant="outline"
+            disabled={busy !== null || !source.trim()}
+            loading={busy === 'import'}
+          />
+
+          {status && (
+            <Text style={[styles.statusText, { color: status.isError ? colors.error : colors.success }]}>
+              {status.message}
+            </Text>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  modalContainer: {
+    backgroundColor: colors.background.primary,
+    borderRadius: spacing.lg,
+    padding: spacing.lg,
+    width: '100%',
+    maxWidth: 400,
+    shadowColor: colors.text.primary,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  title: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: typography.fontWeight.bold as any,
+    color: colors.text.primary,
+  },
+  closeButton: {
+    padding: spacing.xs,
+  },
+  sectionTitle: {
+    fontSize: typography.fontSize.base,
+    fontWeight: typography.fontWeight.bold as any,
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  importTitle: {
+    marginTop: spacing.lg,
+  },
+  description: {
+    fontSize: typography.fontSize.sm,
+    color: colors.text.secondary,
+    lineHeight: 18,
+    marginBottom: spacing.sm,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  rangeChip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border.medium,
+  },
+  rangeChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  rangeChipText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.text.primary,
+  },
+  rangeChipTextActive: {
+    color: colors.secondary,
+    fontWeight: typography.fontWeight.medium as any,
+  },
+  fileButton: {
+    marginBottom: spacing.sm,
+  },
+  input: {
+    minHeight: 72,
+    maxHeight: 140,
+    borderColor: colors.border.light,
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+    color: colors.text.primary,
+    fontSize: typography.fontSize.sm,
+    textAlignVertical: 'top',
+  },
+  statusText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.text.secondary,
+    marginTop: spacing.sm,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -8,12 +8,21 @@ import {
   ScrollView,
   Modal,
   Animated,
+  Alert,
 } from 'react-native';
 import { colors } from '../../themes/colors';
 import { typography } from '../../themes/typography';
 import { spacing } from '../../themes/spacing';
 import { CalendarEvent, Task, ViewType } from '../../types/calendar';
-// import { format, startOfWeek, endOfWeek, startOfDay, endOfDay, isToday, isThisWeek, isOverdue } from '../../utils/dateUtils';
+import {
+  DEFAULT_FILTER_OPTIONS,
+  FilterOptions,
+  applyFilter,
+  countActiveFilters,
+  serializeFilterOptions,
+} from '../../utils/filterEngine';
+import { useSavedFilters } from '../../hooks/useSavedFilters';
+import { savedFilterRepository } from '../../repositories/SavedFilterRepository';
 import { 
   useFadeAnimation, 
   useScaleAnimation, 
@@ -21,23 +30,7 @@ import {
   ANIMATION_CONFIG 
 } from '../../utils/animations';
 
-// Filter types
-export interface FilterOptions {
-  searchText: string;
-  eventType: 'all' | 'events' | 'tasks';
-  priority: 'all' | 'low' | 'medium' | 'high';
-  status: 'all' | 'not_started' | 'in_progress' | 'completed';
-  dateRange: 'all' | 'today' | 'this_week' | 'overdue' | 'custom' | 'upcoming' | 'past';
-  customStartDate?: Date;
-  customEndDate?: Date;
-  category?: string;
-  // New meaningful filters
-  timeOfDay: 'all' | 'morning' | 'afternoon' | 'evening' | 'night';
-  duration: 'all' | 'short' | 'medium' | 'long';
-  location: 'all' | 'online' | 'in_person' | 'hybrid';
-  recurring: 'all' | 'one_time' | 'recurring';
-  urgency: 'all' | 'urgent' | 'normal' | 'low_priority';
-}
+export type { FilterOptions } from '../../utils/filterEngine';
 
 interface SearchAndFilterProps {
   events: CalendarEvent[];
@@ -53,18 +46,9 @@ export const SearchAndFilter: React.FC<SearchAndFilterProps> = ({
 }) => {
   const [searchText, setSearchText] = useState('');
   const [filterModalVisible, setFilterModalVisible] = useState(false);
-  const [filterOptions, setFilterOptions] = useState<FilterOptions>({
-    searchText: '',
-    eventType: 'all',
-    priority: 'all',
-    status: 'all',
-    dateRange: 'all',
-    timeOfDay: 'all',
-    duration: 'all',
-    location: 'all',
-    recurring: 'all',
-    urgency: 'all',
-  });
+  const [filterOptions, setFilterOptions] = useState<FilterOptions>(DEFAULT_FILTER_OPTIONS);
+  const [saveName, setSaveName] = useState('');
+  const savedFilters = useSavedFilters();
 
   // Animation hooks
   const { fadeIn: modalFadeIn, fadeOut: modalFadeOut } = useFadeAnimation(0);
@@ -77,231 +61,30 @@ export const SearchAndFilter: React.FC<SearchAndFilterProps> = ({
   // Get unique categories from tasks
   const categories = Array.from(new Set(tasks.map(task => task.category).filter(Boolean)));
 
+  // Search text is typed outside the modal, so it is merged into the options here
+  const currentOptions = useMemo(() => ({ ...filterOptions, searchText }), [filterOptions, searchText]);
+
   // Apply filters and search
   const applyFilters = useCallback(() => {
-    let filteredEvents = [...events];
-    let filteredTasks = [...tasks];
-
-
-
-    // Search by title/description
-    if (searchText.trim()) {
-      const searchLower = searchText.toLowerCase();
-      filteredEvents = filteredEvents.filter(event => 
-        (event.title?.toLowerCase().includes(searchLower) ||
-         event.summary?.toLowerCase().includes(searchLower) ||
-         event.description?.toLowerCase().includes(searchLower))
-      );
-      filteredTasks = filteredTasks.filter(task =>
-        task.title.toLowerCase().includes(searchLower) ||
-        task.description?.toLowerCase().includes(searchLower)
-      );
-    }
-
-    // Filter by event type
-    if (filterOptions.eventType !== 'all') {
-      if (filterOptions.eventType === 'events') {
-        filteredTasks = [];
-      } else if (filterOptions.eventType === 'tasks') {
-        filteredEvents = [];
-      }
-    }
-
-    // Filter by priority (tasks only)
-    if (filterOptions.priority !== 'all') {
-      filteredTasks = filteredTasks.filter(task => task.priority === filterOptions.priority);
-    }
-
-    // Filter by status (tasks only)
-    if (filterOptions.status !== 'all') {
-      filteredTasks = filteredTasks.filter(task => task.status === filterOptions.status);
+    const result = applyFilter(events, tasks, currentOptions);
+    onFilterChange(result.events, result.tasks);
+  }, [events, tasks, onFilterChange, currentOptions]);
+
+  // A saved filter is shown as active while the current options are exactly its options
+  const activeSavedFilterId = useMemo(() => {
+    const current = serializeFilterOptions(currentOptions);
+    return savedFilters.find(saved => serializeFilterOptions(saved.options) === current)?.id ?? null;
+  }, [savedFilters, currentOptions]);
+
+  // Live match counts for the saved filter chips
+  const savedFilterCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const saved of savedFilters) {
+      const result = applyFilter(events, tasks, saved.options);
+      counts[saved.id] = result.events.length + result.tasks.length;
     }
-
-    // Temporarily disable date range filtering for debugging
-    // // Filter by date range
-    // if (filterOptions.dateRange !== 'all') {
-    //   const now = new Date();
-    //   
-    //   switch (filterOptions.dateRange) {
-    //     case 'today':
-    //       const todayStart = startOfDay(now);
-    //       const todayEnd = endOfDay(now);
-    //       filteredEvents = filteredEvents.filter(event => {
-    //         const eventDate = new Date(event.start_time || event.start?.dateTime || '');
-    //         return eventDate >= todayStart && eventDate <= todayEnd;
-    //       });
-    //       filteredTasks = filteredTasks.filter(task => {
-    //         if (!task.due_date) return false;
-    //         const taskDate = new Date(task.due_date);
-    //         return taskDate >= todayStart && taskDate <= todayEnd;
-    //       });
-    //       break;
-    //       
-    //   case 'this_week':
-    //     const weekStart = startOfWeek(now);
-    //     const weekEnd = endOfWeek(now);
-    //     filteredEvents = filteredEvents.filter(event => {
-    //       const eventDate = new Date(event.start_time || event.start?.dateTime || '');
-    //       return eventDate >= weekStart && eventDate <= weekEnd;
-    //     });
-    //     filteredTasks = filteredTasks.filter(task => {
-    //       if (!task.due_date) return false;
-    //       const taskDate = new Date(task.due_date);
-    //       return taskDate >= weekStart && taskDate <= weekEnd;
-    //     });
-    //     break;
-    //     
-    //   case 'overdue':
-    //     filteredTasks = filteredTasks.filter(task => {
-    //       if (!task.due_date || task.status === 'completed') return false;
-    //       const taskDate = new Date(task.due_date);
-    //       return taskDate < now;
-    //     });
-    //     break;
-    //     
-    //   case 'upcoming':
-    //     const upcomingStart = now;
-    //     const upcomingEnd = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000); // Next 7 days
-    //     filteredEvents = filteredEvents.filter(event => {
-    //       const eventDate = new Date(event.start_time || event.start?.dateTime || '');
-    //       return eventDate >= upcomingStart && eventDate <= upcomingEnd;
-    //     });
-    //     filteredTasks = filteredTasks.filter(task => {
-    //       if (!task.due_date) return false;
-    //       const taskDate = new Date(task.due_date);
-    //       return taskDate >= upcomingStart && taskDate <= upcomingEnd;
-    //     });
-    //     break;
-    //     
-    //   case 'past':
-    //     const pastEnd = now;
-    //     const pastStart = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000); // Last 7 days
-    //     filteredEvents = filteredEvents.filter(event => {
-    //       const eventDate = new Date(event.start_time || event.start?.dateTime || '');
-    //       return eventDate >= pastStart && eventDate <= pastEnd;
-    //     });
-    //     filteredEvents = filteredTasks.filter(task => {
-    //       if (!task.due_date) return false;
-    //       const taskDate = new Date(task.due_date);
-    //       return taskDate >= pastStart && taskDate <= pastEnd;
-    //     });
-    //     break;
-    //     
-    //   case 'custom':
-    //     if (filterOptions.customStartDate && filterOptions.customEndDate) {
-    //       const customStart = startOfDay(filterOptions.customStartDate);
-    //       const customEnd = endOfDay(filterText);
-    //       filteredEvents = filteredEvents.filter(event => {
-    //         const eventDate = new Date(event.start_time || event.start?.dateTime || '');
-    //         return eventDate >= customStart && eventDate <= customEnd;
-    //       });
-    //       filteredTasks = filteredTasks.filter(task => {
-    //         if (!task.due_date) return false;
-    //         const taskDate = new Date(task.due_date);
-    //         return taskDate >= customStart && taskDate <= customEnd;
-    //       });
-    //     }
-    //     break;
-    //   }
-    // }
-
-    // Temporarily disable all remaining filters for debugging
-    // // Filter by time of day
-    // if (filterOptions.timeOfDay !== 'all') {
-    //   filteredEvents = filteredEvents.filter(event => {
-    //     const eventDate = new Date(event.start_time || event.start?.dateTime || '');
-    //     const hour = eventDate.getHours();
-    //     
-    //     switch (filterOptions.timeOfDay) {
-    //       case 'morning': return hour >= 6 && hour < 12;
-    //       case 'afternoon': return hour >= 12 && hour < 17;
-    //       case 'evening': return hour >= 17 && hour < 21;
-    //       case 'night': return hour >= 21 || hour < 6;
-    //       default: return true;
-    //     }
-    //   });
-    // }
-
-    // // Filter by duration (for events)
-    // if (filterOptions.duration !== 'all') {
-    //   filteredEvents = filteredEvents.filter(event => {
-    //     const start = new Date(event.start_time || event.start?.dateTime || '');
-    //     const end = new Date(event.end_time || event.end?.dateTime || '');
-    //     const durationHours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
-    //     
-    //     switch (filterOptions.duration) {
-    //       case 'short': return durationHours <= 1;
-    //       case 'medium': return durationHours > 1 && durationHours <= 4;
-    //       case 'long': return durationHours > 4;
-    //       default: return true;
-    //     }
-    //   });
-    // }
-
-    // // Filter by location type
-    // if (filterOptions.location !== 'all') {
-    //   filteredEvents = filteredEvents.filter(event => {
-    //     const location = event.location?.toLowerCase() || '';
-    //     const description = event.description?.toLowerCase() || '';
-    //     const summary = event.summary?.toLowerCase() || '';
-    //     const text = `${location} ${description} ${summary}`;
-    //     
-    //     switch (filterOptions.location) {
-    //       case 'online': return text.includes('zoom') || text.includes('meet') || text.includes('teams') || text.includes('online') || text.includes('virtual');
-    //       case 'in_person': return text.includes('office') || text.includes('room') || text.includes('building') || text.includes('venue') || text.includes('location');
-    //       case 'hybrid': return text.includes('hybrid') || (text.includes('online') && (text.includes('office') || text.includes('room')));
-    //       default: return true;
-    //     }
-    //   });
-    // }
-
-    // // Filter by recurring vs one-time
-    // if (filterOptions.recurring !== 'all') {
-    //   filteredEvents = filteredEvents.filter(event => {
-    //     const description = event.description?.toLowerCase() || '';
-    //     const isRecurring = description.includes('recurring') || 
-    //                        description.includes('weekly') || 
-    //                        description.includes('monthly') || 
-    //                        description.includes('daily') ||
-    //                        description.includes('repeat');
-    //     
-    //     switch (filterOptions.recurring) {
-    //       case 'recurring': return isRecurring;
-    //       case 'one_time': return !isRecurring;
-    //       default: return true;
-    //     }
-    //   });
-    // }
-
-    // // Filter by urgency (combines priority and due date proximity)
-    // if (filterOptions.urgency !== 'all') {
-    //   const now = new Date();
-    //   
-    //   filteredTasks = filteredTasks.filter(task => {
-    //     if (!task.due_date) return filterOptions.urgency === 'low_priority';
-    //     
-    //     const dueDate = new Date(task.due_date);
-    //     const daysUntilDue = (dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24);
-    //     const isHighPriority = task.priority === 'high';
-    //     const isOverdue = dueDate < now;
-    //     
-    //     switch (filterOptions.urgency) {
-    //       case 'urgent': return isOverdue || (daysUntilDue <= 1) || isHighPriority;
-    //       case 'normal': return daysUntilDue > 1 && daysUntilDue <= 7 && task.priority !== 'high';
-    //       case 'low_priority': return daysUntilDue > 7 && task.priority === 'low';
-    //       default: return true;
-    //     }
-    //   });
-    // }
-
-    // // Filter by category
-    // if (filterOptions.category) {
-    //   filteredTasks = filteredTasks.filter(task => task.category === filterOptions.category);
-    // }
-
-
-    onFilterChange(filteredEvents, filteredTasks);
-  }, [events, tasks, onFilterChange, searchText, filterOptions]);
+    return counts;
+  }, [savedFilters, events, tasks]);
 
   // Single useEffect to handle all filter changes
   useEffect(() => {
@@ -310,34 +93,48 @@ export const SearchAndFilter: React.FC<SearchAndFilterProps> = ({
 
   const clearFilters = () => {
     setSearchText('');
-    setFilterOptions({
-      searchText: '',
-      eventType: 'all',
-      priority: 'all',
-      status: 'all',
-      dateRange: 'all',
-      timeOfDay: 'all',
-      duration: 'all',
-      location: 'all',
-      recurring: 'all',
-      urgency: 'all',
-    });
+    setFilterOptions(DEFAULT_FILTER_OPTIONS);
   };
 
-  const getActiveFiltersCount = () => {
-    let count = 0;
-    if (searchText) {count++;}
-    if (filterOptions.eventType !== 'all') {count++;}
-    if (filterOptions.priority !== 'all') {count++;}
-    if (filterOptions.status !== 'all') {count++;}
-    if (filterOptions.dateRange !== 'all') {count++;}
-    if (filterOptions.category) {count++;}
-    if (filterOptions.timeOfDay !== 'all') {count++;}
-    if (filterOptions.duration !== 'all') {count++;}
-    if (filterOptions.location !== 'all') {count++;}
-    if (filterOptions.recurring !== 'all') {count++;}
-    if (filterOptions.urgency !== 'all') {count++;}
-    return count;
+  const getActiveFiltersCount = () => countActiveFilters(currentOptions);
+
+  // Tapping the active saved filter again clears it
+  const handleSavedFilterPress = (id: string, options: FilterOptions) => {
+    if (activeSavedFilterId === id) {
+      clearFilters();
+      return;
+    }
+    setSearchText(options.searchText);
+    setFilterOptions(options);
+    triggerHaptic('light');
+  };
+
+  const handleSavedFilterLongPress = (id: string, name: string) => {
+    Alert.alert('Delete saved filter', `Delete "${name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await savedFilterRepository.deleteSavedFilter(id);
+          } catch (error) {
+            console.error('Error deleting saved filter:', error);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleSaveFilter = async () => {
+    try {
+      await savedFilterRepository.createSavedFilter(saveName, currentOptions);
+      setSaveName('');
+      triggerHaptic('light');
+    } catch (error) {
+      console.error('Error saving filter:', error);
+      Alert.alert('Could not save filter', error instanceof Error ? error.message : 'Please try again.');
+    }
   };
 
   // Modal animation handlers
@@ -711,6 +508,34 @@ export const SearchAndFilter: React.FC<SearchAndFilterProps> = ({
                 </View>
               </View>
             )}
+
+            {/* Save as a named filter */}
+            <View style={styles.filterSection}>
+              <Text style={styles.filterSectionTitle}>Save Filter</Text>
+              <View style={styles.saveFilterRow}>
+                <TextInput
+                  style={[styles.searchInput, styles.saveFilterInput]}
+                  placeholder="e.g. High-priority errands this week"
+                  placeholderTextColor={colors.text.secondary}
+                  value={saveName}
+                  onChangeText={setSaveName}
+                  maxLength={100}
+                  accessibilityLabel="Saved filter name"
+                />
+                <TouchableOpacity
+                  style={[
+                    styles.filterOption,
+                    styles.filterOptionActive,
+                    (!saveName.trim() || getActiveFiltersCount() === 0) && styles.saveFilterButtonDisabled,
+                  ]}
+                  onPress={handleSaveFilter}
+                  disabled={!saveName.trim() || getActiveFiltersCount() === 0}
+                  accessibilityRole="button"
+                >
+                  <Text style={[styles.filterOptionText, styles.filterOptionTextActive]}>Save</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
           </ScrollView>
 
           <View style={styles.modalFooter}>
@@ -757,7 +582,34 @@ export const SearchAndFilter: React.FC<SearchAndFilterProps> = ({
         </Animated.View>
       </View>
 
-      {/* Quick Filters removed per design update */}
+      {/* Saved filters with live counts; long-press to delete */}
+      {savedFilters.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.quickFiltersContainer}
+          contentContainerStyle={styles.savedFiltersRow}
+        >
+          {savedFilters.map(saved => {
+            const active = activeSavedFilterId === saved.id;
+            return (
+              <TouchableOpacity
+                key={saved.id}
+                style={[styles.filterOption, active && styles.filterOptionActive]}
+                onPress={() => handleSavedFilterPress(saved.id, saved.options)}
+                onLongPress={() => handleSavedFilterLongPress(saved.id, saved.name)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: active }}
+                accessibilityLabel={`${saved.name}, ${savedFilterCounts[saved.id] ?? 0} items`}
+              >
+                <Text style={[styles.filterOptionText, active && styles.filterOptionTextActive]}>
+                  {saved.name} ({savedFilterCounts[saved.id] ?? 0})
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
 
       {renderFilterModal()}
     </View>
@@ -820,6 +672,10 @@ const styles = StyleSheet.create({
   quickFiltersContainer: {
     marginBottom: spacing.sm,
   },
+  savedFiltersRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
   filterChip: {
     paddingHorizontal: spacing.md,
     paddingVertical: spacing.sm,
@@ -920,6 +776,17 @@ const styles = StyleSheet.create({
     color: colors.text.secondary,
     fontWeight: '600',
   },
+  saveFilterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  saveFilterInput: {
+    marginRight: 0,
+  },
+  saveFilterButtonDisabled: {
+    opacity: 0.5,
+  },
   applyButton: {
     flex: 1,
     paddingVertical: spacing.md,
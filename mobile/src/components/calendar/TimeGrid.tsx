@@ -0,0 +1,410 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Pressable,
+  PanResponder,
+  LayoutChangeEvent,
+} from 'react-native';
+import { format, isSameDay } from 'date-fns';
+import { colors } from '../../themes/colors';
+import { typography } from '../../themes/typography';
+import { spacing, borderRadius } from '../../themes/spacing';
+import { hapticFeedback } from '../../utils/hapticFeedback';
+import { DragMode, EventLayout, MINUTES_PER_DAY, applyDrag, layoutTimeGrid } from '../../utils/timeGrid';
+
+export interface TimeGridEvent {
+  id: string;
+  title: string;
+  start: Date;
+  end: Date;
+  color: string;
+  editable?: boolean;
+  // Overlaps another event; outlined in the warning color
+  hasConflict?: boolean;
+  // Start time in the zone the event was planned in, when that differs from the viewer's
+  secondaryTime?: string;
+}
+
+interface TimeGridProps {
+  days: Date[];
+  events: TimeGridEvent[];
+  onEventPress?: (_eventId: string) => void;
+  onEventChange?: (_eventId: string, _start: Date, _end: Date) => void;
+  onDayPress?: (_day: Date) => void;
+  // Rendered above the grid inside the scroll view
+  header?: React.ReactNode;
+  refreshControl?: React.ReactElement<any>;
+  hourHeight?: number;
+}
+
+interface DragState {
+  id: string;
+  mode: DragMode;
+  dx: number;
+  dy: number;
+}
+
+const LABEL_WIDTH = 48;
+const DEFAULT_HOUR_HEIGHT = 56;
+// Movement below this many points counts as a tap
+const TAP_SLOP = 4;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+interface EventBlockProps {
+  event: TimeGridEvent;
+  layout: EventLayout;
+  style: object;
+  selected: boolean;
+  onPress: () => void;
+  onSelect: () => void;
+  onDrag: (_mode: DragMode, _dx: number, _dy: number) => void;
+  onDrop: (_mode: DragMode, _dx: number, _dy: number) => void;
+  onCancel: () => void;
+}
+
+function EventBlock({ event, layout, style, selected, onPress, onSelect, onDrag, onDrop, onCancel }: EventBlockProps) {
+  // Responders are created once; they read the latest props through this ref
+  const latest = useRef({ selected, onDrag, onDrop, onCancel });
+  latest.current = { selected, onDrag, onDrop, onCancel };
+
+  const createResponder = (mode: DragMode) => PanResponder.create({
+    // Capture so a selected event wins over its own touchable and the scroll view
+    onStartShouldSetPanResponderCapture: () => latest.current.selected,
+    onMoveShouldSetPanResponderCapture: () => latest.current.selected,
+    onPanResponderTerminationRequest: () => false,
+    onPanResponderMove: (_evt, gesture) => latest.current.onDrag(mode, gesture.dx, gesture.dy),
+    onPanResponderRelease: (_evt, gesture) => latest.current.onDrop(mode, gesture.dx, gesture.dy),
+    onPanResponderTerminate: () => latest.current.onCancel(),
+  });
+  const moveResponder = useRef(createResponder('move')).current;
+  const resizeResponder = useRef(createResponder('resize')).current;
+
+  return (
+    <View style={[styles.event, style, { borderLeftColor: event.color }, event.hasConflict && styles.eventConflict, selected && styles.eventSelected]}>
+      <View style={styles.fill} {...moveResponder.panHandlers}>
+        <TouchableOpacity
+          style={styles.eventBody}
+          onPress={onPress}
+          onLongPress={event.editable === false ? undefined : onSelect}
+          delayLongPress={250}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityHint={event.editable === false ? undefined : 'Long press, then drag to move. Drag the bottom edge to change duration.'}
+        >
+          <Text style={styles.eventTitle} numberOfLines={layout.height >= 45 ? 2 : 1}>{event.title}</Text>
+          {layout.height >= 45 && (
+            <Text style={styles.eventTime} numberOfLines={1}>
+              {format(event.start, 'h:mm a')} – {format(event.end, 'h:mm a')}
+            </Text>
+          )}
+          {event.secondaryTime && layout.height >= 60 && (
+            <Text style={styles.eventTime} numberOfLines={1}>{event.secondaryTime}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+      {selected && layout.endsToday && (
+        <View style={styles.resizeHandle} {...resizeResponder.panHandlers}>
+          <View style={styles.resizeGrip} />
+        </View>
+      )}
+    </View>
+  );
+}
+
+/**
+ * Hourly grid for one or more days. Overlapping events share their column's width, a line marks
+ * the current time, and editable events can be moved (long press, then drag) or resized (drag
+ * the bottom edge) in 15 minute steps.
+ */
+export function TimeGrid({
+  days,
+  events,
+  onEventPress,
+  onEventChange,
+  onDayPress,
+  header,
+  refreshControl,
+  hourHeight = DEFAULT_HOUR_HEIGHT,
+}: TimeGridProps) {
+  const scrollRef = useRef<ScrollView>(null);
+  const [gridWidth, setGridWidth] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const didScrollRef = useRef(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const columnWidth = days.length > 0 ? gridWidth / days.length : 0;
+  const minutesPerPoint = 60 / hourHeight;
+
+  const previewTimes = (event: TimeGridEvent, state: DragState) => {
+    // Moving sideways in the week view changes the day, within the days shown
+    const dayIndex = days.findIndex(day => isSameDay(day, event.start));
+    const dayDelta = state.mode === 'move' && dayIndex >= 0 && columnWidth > 0
+      ? Math.min(Math.max(Math.round(state.dx / columnWidth), -dayIndex), days.length - 1 - dayIndex)
+      : 0;
+    return applyDrag(event.start, event.end, state.mode, state.dy * minutesPerPoint, dayDelta);
+  };
+
+  const displayEvents = useMemo(() => {
+    if (!drag) {
+      return events;
+    }
+    return events.map(event => (event.id === drag.id ? { ...event, ...previewTimes(event, drag) } : event));
+  }, [events, drag, columnWidth, minutesPerPoint, days]);
+
+  const layouts = useMemo(
+    () => layoutTimeGrid(displayEvents, days),
+    [displayEvents, days]
+  );
+  const eventsById = useMemo(() => new Map(displayEvents.map(event => [event.id, event])), [displayEvents]);
+
+  const handleGridLayout = (e: LayoutChangeEvent) => {
+    setGridWidth(e.nativeEvent.layout.width);
+    // Open the grid around the current hour once
+    if (!didScrollRef.current) {
+      didScrollRef.current = true;
+      const y = Math.max(0, (now.getHours() - 1) * hourHeight);
+      setTimeout(() => scrollRef.current?.scrollTo({ y, animated: false }), 0);
+    }
+  };
+
+  const handleDrop = (event: TimeGridEvent, mode: DragMode, dx: number, dy: number) => {
+    setDrag(null);
+    setSelectedId(null);
+    if (Math.abs(dx) < TAP_SLOP && Math.abs(dy) < TAP_SLOP) {
+      return;
+    }
+    const next = previewTimes(event, { id: event.id, mode, dx, dy });
+    if (next.start.getTime() !== event.start.getTime() || next.end.getTime() !== event.end.getTime()) {
+      hapticFeedback.light();
+      onEventChange?.(event.id, next.start, next.end);
+    }
+  };
+
+  const todayIndex = days.findIndex(day => isSameDay(day, now));
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  return (
+    <ScrollView
+      ref={scrollRef}
+      style={styles.container}
+      scrollEnabled={selectedId === null}
+      refreshControl={refreshControl}
+      scrollEventThrottle={16}
+    >
+      {header}
+
+      {days.length > 1 && (
+        <View style={styles.dayHeaderRow}>
+          <View style={{ width: LABEL_WIDTH }} />
+          {days.map((day, index) => (
+            <TouchableOpacity
+              key={day.toISOString()}
+              style={styles.dayHeader}
+              onPress={() => onDayPress?.(day)}
+              disabled={!onDayPress}
+              accessibilityRole="button"
+            >
+              <Text style={[styles.dayHeaderName, index === todayIndex && styles.dayHeaderToday]}>{format(day, 'EEE')}</Text>
+              <Text style={[styles.dayHeaderDate, index === todayIndex && styles.dayHeaderToday]}>{format(day, 'd')}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <View style={[styles.body, { height: 24 * hourHeight }]}>
+        <View style={{ width: LABEL_WIDTH }}>
+          {HOURS.map(hour => (
+            <Text key={hour} style={[styles.hourLabel, { top: hour * hourHeight - 7 }]}>
+              {hour === 0 ? '' : format(new Date(2000, 0, 1, hour), 'h a')}
+            </Text>
+          ))}
+        </View>
+
+        <View style={styles.grid} onLayout={handleGridLayout}>
+          <Pressable style={StyleSheet.absoluteFill} onPress={() => setSelectedId(null)} />
+          {HOURS.map(hour => (
+            <View key={hour} pointerEvents="none" style={[styles.hourLine, { top: hour * hourHeight }]} />
+          ))}
+          {days.slice(1).map((day, index) => (
+            <View key={day.toISOString()} pointerEvents="none" style={[styles.dayDivider, { left: (index + 1) * columnWidth }]} />
+          ))}
+
+          {columnWidth > 0 && layouts.map(layout => {
+            const event = eventsById.get(layout.id);
+            if (!event) {
+              return null;
+            }
+            const width = columnWidth / layout.columns;
+            const original = events.find(e => e.id === layout.id) || event;
+            return (
+              <EventBlock
+                key={`${layout.id}:${layout.startsToday ? 'start' : layout.dayIndex}`}
+                event={event}
+                layout={layout}
+                style={{
+                  top: (layout.top / 60) * hourHeight,
+                  height: Math.max((layout.height / 60) * hourHeight - 1, 14),
+                  left: layout.dayIndex * columnWidth + layout.column * width + 1,
+                  width: width - 2,
+                }}
+                selected={selectedId === layout.id}
+                onPress={() => onEventPress?.(layout.id)}
+                onSelect={() => {
+                  hapticFeedback.medium();
+                  setSelectedId(layout.id);
+                }}
+                onDrag={(mode, dx, dy) => setDrag({ id: layout.id, mode, dx, dy })}
+                onDrop={(mode, dx, dy) => handleDrop(original, mode, dx, dy)}
+                onCancel={() => {
+                  setDrag(null);
+                  setSelectedId(null);
+                }}
+              />
+            );
+          })}
+
+          {todayIndex >= 0 && nowMinutes < MINUTES_PER_DAY && columnWidth > 0 && (
+            <View
+              pointerEvents="none"
+              style={[styles.nowLine, { top: (nowMinutes / 60) * hourHeight, left: todayIndex * columnWidth, width: columnWidth }]}
+            >
+              <View style={styles.nowDot} />
+            </View>
+          )}
+        </View>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  dayHeaderRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+    paddingVertical: spacing.xs,
+  },
+  dayHeader: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  dayHeaderName: {
+    fontSize: typography.fontSize.xs,
+    color: colors.text.secondary,
+  },
+  dayHeaderDate: {
+    fontSize: typography.fontSize.base,
+    fontWeight: typography.fontWeight.semibold,
+    color: colors.text.primary,
+  },
+  dayHeaderToday: {
+    color: colors.info,
+  },
+  body: {
+    flexDirection: 'row',
+    marginTop: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  hourLabel: {
+    position: 'absolute',
+    right: spacing.xs,
+    fontSize: typography.fontSize.xs - 2,
+    color: colors.text.disabled,
+  },
+  grid: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  hourLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: colors.border.medium,
+  },
+  dayDivider: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: StyleSheet.hairlineWidth,
+    backgroundColor: colors.border.light,
+  },
+  event: {
+    position: 'absolute',
+    backgroundColor: colors.background.secondary,
+    borderLeftWidth: 3,
+    borderRadius: borderRadius.sm,
+    overflow: 'hidden',
+  },
+  eventConflict: {
+    borderWidth: 1,
+    borderColor: colors.warning,
+  },
+  eventSelected: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+    zIndex: 2,
+    elevation: 3,
+  },
+  fill: {
+    flex: 1,
+  },
+  eventBody: {
+    flex: 1,
+    paddingHorizontal: spacing.xs,
+    paddingVertical: 2,
+  },
+  eventTitle: {
+    fontSize: typography.fontSize.xs,
+    fontWeight: typography.fontWeight.semibold,
+    color: colors.text.primary,
+  },
+  eventTime: {
+    fontSize: typography.fontSize.xs - 2,
+    color: colors.text.secondary,
+  },
+  resizeHandle: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  resizeGrip: {
+    width: 24,
+    height: 3,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.primary,
+  },
+  nowLine: {
+    position: 'absolute',
+    height: 2,
+    backgroundColor: colors.error,
+    zIndex: 3,
+  },
+  nowDot: {
+    position: 'absolute',
+    left: -4,
+    top: -3,
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.error,
+  },
+});
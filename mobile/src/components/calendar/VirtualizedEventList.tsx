@@ -29,6 +29,8 @@ interface VirtualizedEventListProps {
   onCompleteTask?: (taskId: string) => void;
   onReschedule?: (eventId: string, newDate: Date) => void;
   compact?: boolean;
+  // IDs of events that overlap another event, shown with a conflict badge
+  conflictIds?: Set<string>;
   emptyMessage?: string;
   showLoadMore?: boolean;
 }
@@ -47,6 +49,7 @@ export const VirtualizedEventList: React.FC<VirtualizedEventListProps> = React.m
   onCompleteTask,
   onReschedule,
   compact = false,
+  conflictIds,
   emptyMessage = 'No events found',
   showLoadMore = false,
 }) => {
@@ -61,9 +64,10 @@ export const VirtualizedEventList: React.FC<VirtualizedEventListProps> = React.m
         onCompleteTask={onCompleteTask}
         onReschedule={onReschedule}
         compact={compact}
+        hasConflict={!!conflictIds?.has(item.id)}
       />
     </View>
-  ), [onEdit, onDelete, onCompleteTask, onReschedule, compact]);
+  ), [onEdit, onDelete, onCompleteTask, onReschedule, compact, conflictIds]);
 
   // Memoize the key extractor
   const keyExtractor = useCallback((item: { id: string; data: CalendarEvent | Task; type: 'event' | 'task' }) => 
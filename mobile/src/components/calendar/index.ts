@@ -2,4 +2,7 @@ export { EventCard } from './EventCard';
 export { EventFormModal } from './EventFormModal';
 export { EventCardSkeleton } from './EventCardSkeleton';
 export { VirtualizedEventList } from './VirtualizedEventList';
-export { CalendarImportModal } from './CalendarImportModal';
\ No newline at end of file
+export { CalendarImportModal } from './CalendarImportModal';
+export { IcsCalendarModal } from './IcsCalendarModal';
+export { TimeGrid } from './TimeGrid';
+export { ConflictWarning, confirmConflictingTime } from './ConflictWarning';
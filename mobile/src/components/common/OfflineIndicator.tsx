@@ -6,6 +6,8 @@ import { colors } from '../../themes/colors';
 import { typography } from '../../themes/typography';
 import { spacing } from '../../themes/spacing';
 import { offlineService, OfflineState } from '../../services/offline';
+import { syncService } from '../../services/SyncService';
+import { PullProgress, describePullProgress } from '../../utils/pullCursors';
 
 interface OfflineIndicatorProps {
   onSyncPress?: () => void;
@@ -18,8 +20,20 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({ onSyncPress
     pendingActions: 0,
     lastSyncTime: null,
   });
+  const [pullProgress, setPullProgress] = useState<PullProgress | null>(null);
   const [slideAnim] = useState(new Animated.Value(-50));
 
+  // Large pulls run page by page; show which collection is being synced
+  useEffect(() => syncService.onPullProgress(progress => {
+    setPullProgress(progress);
+    if (progress) {
+      Animated.spring(slideAnim, {
+        toValue: 0,
+        useNativeDriver: true,
+      }).start();
+    }
+  }), [slideAnim]);
+
   useEffect(() => {
     // Get initial state
     const getInitialState = async () => {
@@ -56,7 +70,7 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({ onSyncPress
     if (onSyncPress) {
       onSyncPress();
     } else {
-      offlineService.syncOfflineQueue();
+      offlineService.syncPendingChanges();
     }
   };
 
@@ -64,6 +78,9 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({ onSyncPress
     if (!offlineState.isOnline) {
       return 'Offline';
     }
+    if (pullProgress) {
+      return `${describePullProgress(pullProgress)} · ${pullProgress.records} records`;
+    }
     if (offlineState.isSyncing) {
       return 'Syncing...';
     }
@@ -77,7 +94,7 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({ onSyncPress
     if (!offlineState.isOnline) {
       return colors.error;
     }
-    if (offlineState.isSyncing) {
+    if (offlineState.isSyncing || pullProgress) {
       return colors.warning;
     }
     if (offlineState.pendingActions > 0) {
@@ -90,7 +107,7 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({ onSyncPress
     if (!offlineState.isOnline) {
       return WifiOffIcon;
     }
-    if (offlineState.isSyncing) {
+    if (offlineState.isSyncing || pullProgress) {
       return RefreshIcon;
     }
     if (offlineState.pendingActions > 0) {
@@ -100,7 +117,7 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({ onSyncPress
   };
 
   // Don't show indicator if online and no pending actions
-  if (offlineState.isOnline && offlineState.pendingActions === 0 && !offlineState.isSyncing) {
+  if (offlineState.isOnline && offlineState.pendingActions === 0 && !offlineState.isSyncing && !pullProgress) {
     return null;
   }
 
@@ -0,0 +1,418 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import DateTimePickerModal from 'react-native-modal-datetime-picker';
+import { format, isSameDay } from 'date-fns';
+import { HugeiconsIcon as Icon } from '@hugeicons/react-native';
+import { Calendar01Icon, Clock01Icon, Delete01Icon, Tick01Icon } from '@hugeicons/core-free-icons';
+import { colors } from '../../themes/colors';
+import { spacing, borderRadius } from '../../themes/spacing';
+import { typography } from '../../themes/typography';
+import {
+  ENERGY_LABELS,
+  EodAction,
+  MAX_REFLECTION_NOTE_LENGTH,
+  MOOD_LABELS,
+  REFLECTION_SCORES,
+  defaultRolloverDay,
+} from '../../utils/endOfDayReview';
+
+interface ReviewTask {
+  id: string;
+  title: string;
+  isTodayFocus?: boolean;
+}
+
+export interface EndOfDayReviewResult {
+  actions: Record<string, EodAction>;
+  rolloverDay: Date;
+  mood: number;
+  energy: number;
+  note: string;
+}
+
+interface EndOfDayReviewModalProps {
+  visible: boolean;
+  tasks: ReviewTask[];
+  onSubmit: (result: EndOfDayReviewResult) => Promise<void>;
+  onChooseNewFocus: () => void;
+  onClose: () => void;
+}
+
+const ACTIONS: { action: EodAction; label: string; icon: any }[] = [
+  { action: 'done', label: 'Done', icon: Tick01Icon },
+  { action: 'rollover', label: 'Roll over', icon: Clock01Icon },
+  { action: 'drop', label: 'Drop', icon: Delete01Icon },
+];
+
+/**
+ * End-of-day review: decide what happens to each task still open today (done, roll over to a
+ * chosen day, or drop) and note how the day felt.
+ */
+export const EndOfDayReviewModal: React.FC<EndOfDayReviewModalProps> = ({
+  visible,
+  tasks,
+  onSubmit,
+  onChooseNewFocus,
+  onClose,
+}) => {
+  const [actions, setActions] = useState<Record<string, EodAction>>({});
+  const [rolloverDay, setRolloverDay] = useState<Date>(() => defaultRolloverDay());
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [mood, setMood] = useState<number | null>(null);
+  const [energy, setEnergy] = useState<number | null>(null);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Start every review from scratch, with each task rolled over unless changed
+  useEffect(() => {
+    if (!visible) { return; }
+    setActions(Object.fromEntries(tasks.map(task => [task.id, 'rollover' as EodAction])));
+    setRolloverDay(defaultRolloverDay());
+    setMood(null);
+    setEnergy(null);
+    setNote('');
+  }, [visible]);
+
+  const setAll = (action: EodAction) => {
+    setActions(Object.fromEntries(tasks.map(task => [task.id, action])));
+  };
+
+  const canSave = mood !== null && energy !== null && !saving;
+  const rolloverLabel = isSameDay(rolloverDay, defaultRolloverDay()) ? 'tomorrow' : format(rolloverDay, 'EEE, MMM d');
+
+  const handleSave = async () => {
+    if (mood === null || energy === null) { return; }
+    setSaving(true);
+    try {
+      await onSubmit({ actions, rolloverDay, mood, energy, note });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderScale = (
+    label: string,
+    labels: Record<number, string>,
+    value: number | null,
+    onChange: (score: number) => void
+  ) => (
+    <View style={styles.scaleBlock}>
+      <Text style={styles.sectionLabel}>
+        {label}{value !== null ? `: ${labels[value]}` : ''}
+      </Text>
+      <View style={styles.scaleRow}>
+        {REFLECTION_SCORES.map(score => (
+          <TouchableOpacity
+            key={score}
+            style={[styles.scaleButton, value === score && styles.scaleButtonActive]}
+            onPress={() => onChange(score)}
+            accessibilityRole="radio"
+            accessibilityState={{ selected: value === score }}
+            accessibilityLabel={`${label} ${score}, ${labels[score]}`}
+          >
+            <Text style={[styles.scaleText, value === score && styles.scaleTextActive]}>{score}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <Text style={styles.title}>How did today go?</Text>
+            <Text style={styles.subtitle}>
+              {tasks.length > 0
+                ? 'Decide what happens to what’s still open, then take a moment to reflect.'
+                : 'Everything due today is wrapped up. Take a moment to reflect.'}
+            </Text>
+
+            {tasks.length > 1 && (
+              <View style={styles.bulkRow}>
+                {ACTIONS.map(({ action, label }) => (
+                  <TouchableOpacity key={action} style={styles.bulkButton} onPress={() => setAll(action)}>
+                    <Text style={styles.bulkText}>All {label.toLowerCase()}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            {tasks.map(task => (
+              <View key={task.id} style={styles.taskRow}>
+                <Text style={styles.taskTitle} numberOfLines={2}>
+                  {task.title}{task.isTodayFocus ? ' · Focus' : ''}
+                </Text>
+                <View style={styles.actionRow}>
+                  {ACTIONS.map(({ action, label, icon }) => {
+                    const selected = actions[task.id] === action;
+                    return (
+                      <TouchableOpacity
+                        key={action}
+                        style={[styles.actionButton, selected && styles.actionButtonActive]}
+                        onPress={() => setActions(prev => ({ ...prev, [task.id]: action }))}
+                        accessibilityRole="radio"
+                        accessibilityState={{ selected }}
+                        accessibilityLabel={`${label}: ${task.title}`}
+                      >
+                        <Icon icon={icon} size={14} color={selected ? colors.secondary : colors.text.secondary} />
+                        <Text style={[styles.actionText, selected && styles.actionTextActive]}>{label}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+
+            {Object.values(actions).includes('rollover') && (
+              <TouchableOpacity
+                style={styles.dateButton}
+                onPress={() => setShowDatePicker(true)}
+                accessibilityRole="button"
+                accessibilityLabel={`Roll over to ${rolloverLabel}. Change date`}
+              >
+                <Icon icon={Calendar01Icon} size={16} color={colors.primary} />
+                <Text style={styles.dateText}>Roll over to {rolloverLabel}</Text>
+              </TouchableOpacity>
+            )}
+            {Object.values(actions).includes('drop') && (
+              <Text style={styles.hint}>Dropped tasks are deleted.</Text>
+            )}
+
+            {renderScale('Mood', MOOD_LABELS, mood, setMood)}
+            {renderScale('Energy', ENERGY_LABELS, energy, setEnergy)}
+
+            <TextInput
+              style={styles.noteInput}
+              value={note}
+              onChangeText={setNote}
+              placeholder="Anything worth remembering about today? (optional)"
+              placeholderTextColor={colors.text.disabled}
+              maxLength={MAX_REFLECTION_NOTE_LENGTH}
+              multiline
+            />
+
+            <TouchableOpacity
+              style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={!canSave}
+              accessibilityRole="button"
+              accessibilityState={{ disabled: !canSave }}
+            >
+              {saving
+                ? <ActivityIndicator size="small" color={colors.secondary} />
+                : <Text style={styles.saveText}>Save review</Text>}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={onChooseNewFocus}>
+              <Text style={styles.secondaryText}>Choose a new focus</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.laterButton} onPress={onClose}>
+              <Text style={styles.laterText}>Not now</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+
+      <DateTimePickerModal
+        isVisible={showDatePicker}
+        mode="date"
+        date={rolloverDay}
+        minimumDate={defaultRolloverDay()}
+        onConfirm={(date) => {
+          setRolloverDay(date);
+          setShowDatePicker(false);
+        }}
+        onCancel={() => setShowDatePicker(false)}
+      />
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    width: '90%',
+    maxHeight: '85%',
+    backgroundColor: colors.background.surface,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    padding: spacing.lg,
+  },
+  title: {
+    color: colors.text.primary,
+    fontSize: typography.fontSize.lg,
+    fontWeight: typography.fontWeight.bold as any,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    color: colors.text.secondary,
+    fontSize: typography.fontSize.sm,
+    marginBottom: spacing.md,
+  },
+  bulkRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  bulkButton: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+  },
+  bulkText: {
+    color: colors.text.secondary,
+    fontSize: typography.fontSize.xs,
+  },
+  taskRow: {
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  taskTitle: {
+    color: colors.text.primary,
+    fontSize: typography.fontSize.base,
+    marginBottom: spacing.xs,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+  },
+  actionButtonActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  actionText: {
+    color: colors.text.secondary,
+    fontSize: typography.fontSize.sm,
+  },
+  actionTextActive: {
+    color: colors.secondary,
+    fontWeight: typography.fontWeight.medium as any,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  dateText: {
+    color: colors.primary,
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.medium as any,
+  },
+  hint: {
+    color: colors.text.secondary,
+    fontSize: typography.fontSize.xs,
+    marginTop: spacing.xs,
+  },
+  scaleBlock: {
+    marginTop: spacing.md,
+  },
+  sectionLabel: {
+    color: colors.text.primary,
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.semibold as any,
+    marginBottom: spacing.xs,
+  },
+  scaleRow: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+  },
+  scaleButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+  },
+  scaleButtonActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  scaleText: {
+    color: colors.text.primary,
+    fontSize: typography.fontSize.base,
+  },
+  scaleTextActive: {
+    color: colors.secondary,
+    fontWeight: typography.fontWeight.bold as any,
+  },
+  noteInput: {
+    marginTop: spacing.md,
+    minHeight: 64,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    fontSize: typography.fontSize.sm,
+    color: colors.text.primary,
+    backgroundColor: colors.secondary,
+    textAlignVertical: 'top',
+  },
+  saveButton: {
+    marginTop: spacing.md,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.primary,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveText: {
+    color: colors.secondary,
+    fontWeight: typography.fontWeight.bold as any,
+  },
+  secondaryButton: {
+    marginTop: spacing.sm,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    borderRadius: borderRadius.sm,
+  },
+  secondaryText: {
+    color: colors.text.primary,
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.medium as any,
+  },
+  laterButton: {
+    marginTop: spacing.xs,
+    paddingVertical: spacing.xs,
+    alignItems: 'center',
+  },
+  laterText: {
+    color: colors.text.secondary,
+    fontSize: typography.fontSize.sm,
+  },
+});
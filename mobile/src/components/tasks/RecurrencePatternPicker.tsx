@@ -12,10 +12,12 @@ import DateTimePicker from '@react-native-community/datetimepicker';
 import {
     RepeatIcon,
     Calendar03Icon,
+    Cancel01Icon,
 } from '@hugeicons/core-free-icons';
 import { HugeiconsIcon as Icon } from '@hugeicons/react-native';
 import { colors } from '../../themes/colors';
 import { RecurrencePattern, formatRecurrencePattern } from '../../utils/recurrenceUtils';
+import { toLocalDateKey } from '../../utils/recurrenceEngine';
 
 interface RecurrencePatternPickerProps {
     value: RecurrencePattern | null;
@@ -32,12 +34,28 @@ const DAY_BUTTONS = [
     { label: 'S', value: 6, fullName: 'Sat' },
 ];
 
-const FREQUENCY_OPTIONS: Array<{ label: string; value: 'daily' | 'weekly' | 'monthly' }> = [
+const FREQUENCY_OPTIONS: Array<{ label: string; value: RecurrencePattern['type'] }> = [
     { label: 'Daily', value: 'daily' },
     { label: 'Weekly', value: 'weekly' },
     { label: 'Monthly', value: 'monthly' },
+    { label: 'Yearly', value: 'yearly' },
 ];
 
+const MONTHLY_MODE_OPTIONS: Array<{ label: string; value: 'date' | 'nth' }> = [
+    { label: 'Same date', value: 'date' },
+    { label: 'Nth weekday', value: 'nth' },
+];
+
+const NTH_WEEKDAY_OPTIONS: Array<{ label: string; value: number }> = [
+    { label: '1st', value: 1 },
+    { label: '2nd', value: 2 },
+    { label: '3rd', value: 3 },
+    { label: '4th', value: 4 },
+    { label: 'Last', value: -1 },
+];
+
+const MONTH_OPTIONS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
 const END_CONDITION_OPTIONS: Array<{ label: string; value: 'never' | 'count' | 'date' }> = [
     { label: 'Never', value: 'never' },
     { label: 'After...', value: 'count' },
@@ -50,6 +68,7 @@ export const RecurrencePatternPicker: React.FC<RecurrencePatternPickerProps> = (
 }) => {
     const [isEnabled, setIsEnabled] = useState(!!value);
     const [showDatePicker, setShowDatePicker] = useState(false);
+    const [showExclusionPicker, setShowExclusionPicker] = useState(false);
 
     // Sync isEnabled state when value prop changes (e.g., when loading existing task)
     React.useEffect(() => {
@@ -87,14 +106,48 @@ export const RecurrencePatternPicker: React.FC<RecurrencePatternPickerProps> = (
         });
     }, [isEnabled, currentPattern, onChange]);
 
-    const handleFrequencyChange = useCallback((type: 'daily' | 'weekly' | 'monthly') => {
+    const handleFrequencyChange = useCallback((type: RecurrencePattern['type']) => {
+        const keepsNthWeekday = (type === 'monthly' || type === 'yearly') && currentPattern.nthWeekday !== undefined;
         updatePattern({
             type,
-            // Reset daysOfWeek when changing from weekly
-            daysOfWeek: type === 'weekly' ? (currentPattern.daysOfWeek || []) : undefined,
+            // Days are only used by weekly and nth-weekday patterns
+            daysOfWeek: type === 'weekly' || keepsNthWeekday ? (currentPattern.daysOfWeek || []) : undefined,
+            nthWeekday: keepsNthWeekday ? currentPattern.nthWeekday : undefined,
+            monthOfYear: type === 'yearly' ? currentPattern.monthOfYear : undefined,
         });
     }, [currentPattern, updatePattern]);
 
+    const handleMonthlyModeChange = useCallback((mode: 'date' | 'nth') => {
+        if (mode === 'nth') {
+            updatePattern({
+                nthWeekday: currentPattern.nthWeekday ?? 1,
+                daysOfWeek: currentPattern.daysOfWeek?.length ? currentPattern.daysOfWeek : [new Date().getDay()],
+            });
+        } else {
+            updatePattern({ nthWeekday: undefined, daysOfWeek: undefined });
+        }
+    }, [currentPattern, updatePattern]);
+
+    const handleMonthOfYearChange = useCallback((month: number) => {
+        updatePattern({ monthOfYear: currentPattern.monthOfYear === month ? undefined : month });
+    }, [currentPattern, updatePattern]);
+
+    const handleAddExclusion = useCallback((event: any, selectedDate?: Date) => {
+        setShowExclusionPicker(Platform.OS === 'ios');
+        if (selectedDate) {
+            const key = toLocalDateKey(selectedDate);
+            const existing = currentPattern.exclusionDates || [];
+            if (!existing.includes(key)) {
+                updatePattern({ exclusionDates: [...existing, key].sort() });
+            }
+        }
+    }, [currentPattern, updatePattern]);
+
+    const handleRemoveExclusion = useCallback((key: string) => {
+        const remaining = (currentPattern.exclusionDates || []).filter(d => d !== key);
+        updatePattern({ exclusionDates: remaining.length > 0 ? remaining : undefined });
+    }, [currentPattern, updatePattern]);
+
     const handleIntervalChange = useCallback((text: string) => {
         const num = parseInt(text, 10);
         if (!isNaN(num) && num >= 1 && num <= 99) {
@@ -153,10 +206,44 @@ export const RecurrencePatternPicker: React.FC<RecurrencePatternPickerProps> = (
             case 'daily': return 'days';
             case 'weekly': return 'weeks';
             case 'monthly': return 'months';
+            case 'yearly': return 'years';
             default: return 'days';
         }
     };
 
+    const usesNthWeekday = (currentPattern.type === 'monthly' || currentPattern.type === 'yearly')
+        && currentPattern.nthWeekday !== undefined;
+
+    const renderDayButtons = () => (
+        <View style={styles.daysRow}>
+            {DAY_BUTTONS.map((day) => {
+                const isSelected = (currentPattern.daysOfWeek || []).includes(day.value);
+                return (
+                    <TouchableOpacity
+                        key={day.value}
+                        style={[
+                            styles.dayButton,
+                            isSelected && styles.dayButtonActive,
+                        ]}
+                        onPress={() => handleDayToggle(day.value)}
+                        accessibilityRole="button"
+                        accessibilityLabel={day.fullName}
+                        accessibilityState={{ selected: isSelected }}
+                    >
+                        <Text
+                            style={[
+                                styles.dayButtonText,
+                                isSelected && styles.dayButtonTextActive,
+                            ]}
+                        >
+                            {day.label}
+                        </Text>
+                    </TouchableOpacity>
+                );
+            })}
+        </View>
+    );
+
     return (
         <View style={styles.container}>
             {/* Toggle Header */}
@@ -234,33 +321,85 @@ export const RecurrencePatternPicker: React.FC<RecurrencePatternPickerProps> = (
                     {currentPattern.type === 'weekly' && (
                         <View style={styles.section}>
                             <Text style={styles.sectionLabel}>On days</Text>
-                            <View style={styles.daysRow}>
-                                {DAY_BUTTONS.map((day) => {
-                                    const isSelected = (currentPattern.daysOfWeek || []).includes(day.value);
+                            {renderDayButtons()}
+                        </View>
+                    )}
+
+                    {/* Month Selection (Yearly Only) */}
+                    {currentPattern.type === 'yearly' && (
+                        <View style={styles.section}>
+                            <Text style={styles.sectionLabel}>In month</Text>
+                            <View style={styles.monthGrid}>
+                                {MONTH_OPTIONS.map((label, index) => {
+                                    const isSelected = currentPattern.monthOfYear === index + 1;
+                                    return (
+                                        <TouchableOpacity
+                                            key={label}
+                                            style={[styles.monthButton, isSelected && styles.dayButtonActive]}
+                                            onPress={() => handleMonthOfYearChange(index + 1)}
+                                            accessibilityRole="button"
+                                            accessibilityLabel={label}
+                                            accessibilityState={{ selected: isSelected }}
+                                        >
+                                            <Text style={[styles.dayButtonText, isSelected && styles.dayButtonTextActive]}>
+                                                {label}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </View>
+                        </View>
+                    )}
+
+                    {/* Nth Weekday (Monthly/Yearly) */}
+                    {(currentPattern.type === 'monthly' || currentPattern.type === 'yearly') && (
+                        <View style={styles.section}>
+                            <Text style={styles.sectionLabel}>Repeat on</Text>
+                            <View style={styles.segmentedControl}>
+                                {MONTHLY_MODE_OPTIONS.map((option) => {
+                                    const isSelected = (option.value === 'nth') === usesNthWeekday;
                                     return (
                                         <TouchableOpacity
-                                            key={day.value}
-                                            style={[
-                                                styles.dayButton,
-                                                isSelected && styles.dayButtonActive,
-                                            ]}
-                                            onPress={() => handleDayToggle(day.value)}
+                                            key={option.value}
+                                            style={[styles.segmentButton, isSelected && styles.segmentButtonActive]}
+                                            onPress={() => handleMonthlyModeChange(option.value)}
                                             accessibilityRole="button"
-                                            accessibilityLabel={day.fullName}
                                             accessibilityState={{ selected: isSelected }}
                                         >
-                                            <Text
-                                                style={[
-                                                    styles.dayButtonText,
-                                                    isSelected && styles.dayButtonTextActive,
-                                                ]}
-                                            >
-                                                {day.label}
+                                            <Text style={[styles.segmentButtonText, isSelected && styles.segmentButtonTextActive]}>
+                                                {option.label}
                                             </Text>
                                         </TouchableOpacity>
                                     );
                                 })}
                             </View>
+
+                            {usesNthWeekday && (
+                                <>
+                                    <View style={[styles.segmentedControl, styles.nthRow]}>
+                                        {NTH_WEEKDAY_OPTIONS.map((option) => {
+                                            const isSelected = currentPattern.nthWeekday === option.value;
+                                            return (
+                                                <TouchableOpacity
+                                                    key={option.value}
+                                                    style={[styles.segmentButton, isSelected && styles.segmentButtonActive]}
+                                                    onPress={() => updatePattern({ nthWeekday: option.value })}
+                                                    accessibilityRole="button"
+                                                    accessibilityState={{ selected: isSelected }}
+                                                >
+                                                    <Text style={[styles.segmentButtonText, isSelected && styles.segmentButtonTextActive]}>
+                                                        {option.label}
+                                                    </Text>
+                                                </TouchableOpacity>
+                                            );
+                                        })}
+                                    </View>
+                                    {renderDayButtons()}
+                                    <Text style={styles.helperText}>
+                                        Select Mon–Fri with "Last" for the last weekday of the month.
+                                    </Text>
+                                </>
+                            )}
                         </View>
                     )}
 
@@ -338,6 +477,45 @@ export const RecurrencePatternPicker: React.FC<RecurrencePatternPickerProps> = (
                             </View>
                         )}
                     </View>
+
+                    {/* Skipped Dates */}
+                    <View style={styles.section}>
+                        <Text style={styles.sectionLabel}>Skip dates</Text>
+                        <View style={styles.exclusionList}>
+                            {(currentPattern.exclusionDates || []).map((key) => (
+                                <View key={key} style={styles.exclusionChip}>
+                                    <Text style={styles.exclusionChipText}>
+                                        {new Date(`${key}T00:00:00`).toLocaleDateString()}
+                                    </Text>
+                                    <TouchableOpacity
+                                        onPress={() => handleRemoveExclusion(key)}
+                                        accessibilityRole="button"
+                                        accessibilityLabel={`Stop skipping ${key}`}
+                                        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                                    >
+                                        <Icon icon={Cancel01Icon} size={14} color={colors.text.secondary} />
+                                    </TouchableOpacity>
+                                </View>
+                            ))}
+                            <TouchableOpacity
+                                style={styles.dateButton}
+                                onPress={() => setShowExclusionPicker(true)}
+                                accessibilityLabel="Add a date to skip"
+                            >
+                                <Icon icon={Calendar03Icon} size={18} color={colors.text.secondary} />
+                                <Text style={styles.dateButtonText}>Add date</Text>
+                            </TouchableOpacity>
+                        </View>
+                        {showExclusionPicker && (
+                            <DateTimePicker
+                                value={new Date()}
+                                mode="date"
+                                display="default"
+                                onChange={handleAddExclusion}
+                                minimumDate={new Date()}
+                            />
+                        )}
+                    </View>
                 </View>
             )}
         </View>
@@ -494,6 +672,46 @@ const styles = StyleSheet.create({
         fontSize: 15,
         color: colors.text.primary,
     },
+    monthGrid: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    monthButton: {
+        width: 52,
+        paddingVertical: 8,
+        borderRadius: 8,
+        backgroundColor: colors.background.secondary,
+        alignItems: 'center',
+    },
+    nthRow: {
+        marginTop: 12,
+        marginBottom: 12,
+    },
+    helperText: {
+        fontSize: 12,
+        color: colors.text.secondary,
+        marginTop: 8,
+    },
+    exclusionList: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: 8,
+    },
+    exclusionChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        backgroundColor: colors.background.secondary,
+        borderRadius: 16,
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+    },
+    exclusionChipText: {
+        fontSize: 14,
+        color: colors.text.primary,
+    },
 });
 
 export default RecurrencePatternPicker;
@@ -20,9 +20,11 @@ import {
   Delete01Icon,
   Clock01Icon,
   CheckmarkCircle01Icon,
+  CheckListIcon,
   CircleIcon,
   CloudIcon,
   Location01Icon,
+  LockIcon,
   RepeatIcon
 } from '@hugeicons/core-free-icons';
 import { RecurringTag } from '../common';
@@ -34,6 +36,7 @@ import {
   getRecurrenceBadgeText,
   isPausedRecurringTask
 } from '../../utils/recurrenceUtils';
+import { ChecklistProgress } from '../../utils/checklist';
 
 interface Task {
   id: string;
@@ -70,6 +73,9 @@ interface TaskCardProps {
   ) => void;
   onOpenQuickSchedule?: (taskId: string, center: { x: number; y: number }) => void;
   onAIHelp?: (task: Task) => void;
+  // e.g. "Blocked by Buy paint"; blocked tasks are skipped by Momentum mode and auto-scheduling
+  blockedReason?: string | null;
+  checklistProgress?: ChecklistProgress;
 }
 
 export const TaskCard: React.FC<TaskCardProps> = React.memo(({
@@ -83,6 +89,8 @@ export const TaskCard: React.FC<TaskCardProps> = React.memo(({
   onQuickSchedule,
   onOpenQuickSchedule,
   onAIHelp,
+  blockedReason,
+  checklistProgress,
 }) => {
   const translateX = React.useRef(new Animated.Value(0)).current;
   const [_isDeleting, _setIsDeleting] = React.useState(false);
@@ -335,6 +343,15 @@ export const TaskCard: React.FC<TaskCardProps> = React.memo(({
                   <Text style={styles.durationText}>{(task as any).estimated_duration_minutes}m</Text>
                 </View>
               )}
+              {!!checklistProgress?.total && (
+                <View
+                  style={[styles.durationBadge, checklistProgress.done === checklistProgress.total && styles.checklistDone]}
+                  accessibilityLabel={`${checklistProgress.done} of ${checklistProgress.total} checklist items done`}
+                >
+                  <Icon icon={CheckListIcon} size={14} color={colors.text.secondary} />
+                  <Text style={styles.durationText}>{checklistProgress.done}/{checklistProgress.total}</Text>
+                </View>
+              )}
               {/* Recurring Task Tag */}
               {isRecurringTask(task) && (
                 <RecurringTag
@@ -344,6 +361,13 @@ export const TaskCard: React.FC<TaskCardProps> = React.memo(({
               )}
             </View>
 
+            {!!blockedReason && task.status !== 'completed' && (
+              <View style={styles.blockedRow} accessibilityLabel={blockedReason}>
+                <Icon icon={LockIcon} size={14} color={colors.text.secondary} />
+                <Text style={styles.blockedText} numberOfLines={1}>{blockedReason}</Text>
+              </View>
+            )}
+
             {/* Auto-scheduling controls (hidden unless enabled or indicators present) */}
             {(task.auto_schedule_enabled || task.weather_dependent || !!task.location) && (
               <View style={styles.autoScheduleSection}>
@@ -518,6 +542,9 @@ const styles = StyleSheet.create({
     borderColor: colors.border.light,
     backgroundColor: colors.surface,
   },
+  checklistDone: {
+    borderColor: colors.success,
+  },
   durationText: {
     fontSize: typography.fontSize.xs,
     color: colors.text.secondary,
@@ -655,4 +682,16 @@ const styles = StyleSheet.create({
     fontSize: typography.fontSize.xs,
     color: colors.text.secondary,
   },
+  blockedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginTop: spacing.xs,
+  },
+  blockedText: {
+    flex: 1,
+    fontSize: typography.fontSize.xs,
+    color: colors.text.secondary,
+    fontStyle: 'italic',
+  },
 });
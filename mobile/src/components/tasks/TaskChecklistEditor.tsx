@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { HugeiconsIcon as Icon } from '@hugeicons/react-native';
+import {
+  ArrowUp01Icon,
+  Cancel01Icon,
+  CheckmarkCircle01Icon,
+  CircleIcon,
+} from '@hugeicons/core-free-icons';
+import { colors } from '../../themes/colors';
+import { spacing, borderRadius } from '../../themes/spacing';
+import { typography } from '../../themes/typography';
+import { taskChecklistRepository } from '../../repositories/TaskChecklistRepository';
+import { useTaskChecklist } from '../../hooks/useTaskChecklist';
+import { MAX_CHECKLIST_ITEM_LENGTH } from '../../utils/checklist';
+
+interface TaskChecklistEditorProps {
+  taskId: string;
+}
+
+/**
+ * A task's checklist: tick items off, add, remove and move them up.
+ */
+export const TaskChecklistEditor: React.FC<TaskChecklistEditorProps> = ({ taskId }) => {
+  const items = useTaskChecklist(taskId);
+  const [newItemText, setNewItemText] = useState('');
+  const doneCount = items.filter(item => item.isCompleted).length;
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      Alert.alert('Error', error instanceof Error ? error.message : failure);
+    }
+  };
+
+  const handleAdd = async () => {
+    const text = newItemText.trim();
+    if (!text) { return; }
+    await run(async () => {
+      await taskChecklistRepository.addItem(taskId, text);
+      setNewItemText('');
+    }, 'Failed to add checklist item');
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Checklist</Text>
+        {items.length > 0 && (
+          <Text style={styles.progress}>{doneCount}/{items.length}</Text>
+        )}
+      </View>
+
+      {items.map((item, index) => (
+        <View key={item.id} style={styles.row}>
+          <TouchableOpacity
+            onPress={() => run(() => taskChecklistRepository.toggleItem(item.id), 'Failed to update checklist item')}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: item.isCompleted }}
+            accessibilityLabel={item.text}
+          >
+            <Icon
+              icon={item.isCompleted ? CheckmarkCircle01Icon : CircleIcon}
+              size={20}
+              color={item.isCompleted ? colors.success : colors.text.secondary}
+            />
+          </TouchableOpacity>
+          <Text style={[styles.itemText, item.isCompleted && styles.itemTextDone]}>{item.text}</Text>
+          {index > 0 && (
+            <TouchableOpacity
+              onPress={() => run(() => taskChecklistRepository.moveItem(item.id, 'up'), 'Failed to move checklist item')}
+              accessibilityRole="button"
+              accessibilityLabel={`Move ${item.text} up`}
+            >
+              <Icon icon={ArrowUp01Icon} size={16} color={colors.text.secondary} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            onPress={() => run(() => taskChecklistRepository.deleteItem(item.id), 'Failed to delete checklist item')}
+            accessibilityRole="button"
+            accessibilityLabel={`Delete ${item.text}`}
+          >
+            <Icon icon={Cancel01Icon} size={16} color={colors.text.secondary} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={styles.addRow}>
+        <TextInput
+          style={styles.input}
+          value={newItemText}
+          onChangeText={setNewItemText}
+          onSubmitEditing={handleAdd}
+          placeholder="Add an item"
+          placeholderTextColor={colors.text.disabled}
+          maxLength={MAX_CHECKLIST_ITEM_LENGTH}
+          returnKeyType="done"
+          blurOnSubmit={false}
+        />
+        <TouchableOpacity
+          style={[styles.addButton, !newItemText.trim() && styles.addButtonDisabled]}
+          onPress={handleAdd}
+          disabled={!newItemText.trim()}
+          accessibilityRole="button"
+        >
+          <Text style={styles.addButtonText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  title: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: typography.fontWeight.semibold as any,
+    color: colors.text.primary,
+  },
+  progress: {
+    fontSize: typography.fontSize.sm,
+    color: colors.text.secondary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  itemText: {
+    flex: 1,
+    fontSize: typography.fontSize.base,
+    color: colors.text.primary,
+  },
+  itemTextDone: {
+    color: colors.text.secondary,
+    textDecorationLine: 'line-through',
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    fontSize: typography.fontSize.base,
+    color: colors.text.primary,
+    backgroundColor: colors.secondary,
+  },
+  addButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.primary,
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    color: colors.secondary,
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.medium as any,
+  },
+});
@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { HugeiconsIcon as Icon } from '@hugeicons/react-native';
+import { Add01Icon, Cancel01Icon, CheckmarkCircle01Icon, LockIcon } from '@hugeicons/core-free-icons';
+import { colors } from '../../themes/colors';
+import { spacing, borderRadius } from '../../themes/spacing';
+import { typography } from '../../themes/typography';
+import { taskRepository } from '../../repositories/TaskRepository';
+import { taskDependencyRepository } from '../../repositories/TaskDependencyRepository';
+import { useTaskDependencies } from '../../hooks/useTaskDependencies';
+import { wouldCreateCycle } from '../../utils/taskDependencies';
+
+interface TaskSummary {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
+interface TaskDependencyEditorProps {
+  taskId: string;
+}
+
+/**
+ * "Blocked by" links for one task. Tasks that would create a circular dependency
+ * are not offered as blockers.
+ */
+export const TaskDependencyEditor: React.FC<TaskDependencyEditorProps> = ({ taskId }) => {
+  const dependencies = useTaskDependencies();
+  const [tasks, setTasks] = useState<TaskSummary[]>([]);
+  const [picking, setPicking] = useState(false);
+
+  useEffect(() => {
+    let subscription: { unsubscribe: () => void } | undefined;
+    try {
+      subscription = taskRepository.observeTasksWithStatus().subscribe({
+        next: (records) => setTasks(records.map(t => ({ id: t.id, title: t.title, completed: t.lifecycleStatus === 'completed' }))),
+        error: (error) => console.error('Failed to observe tasks for dependencies', error),
+      });
+    } catch (error) {
+      console.error('Failed to observe tasks for dependencies', error);
+    }
+    return () => subscription?.unsubscribe();
+  }, []);
+
+  const blockers = useMemo(() => {
+    const taskById = new Map(tasks.map(t => [t.id, t]));
+    return dependencies
+      .filter(d => d.taskId === taskId && taskById.has(d.dependsOnTaskId))
+      .map(d => ({ dependencyId: d.id, task: taskById.get(d.dependsOnTaskId)! }));
+  }, [dependencies, tasks, taskId]);
+
+  const candidates = useMemo(() => {
+    const linked = new Set(blockers.map(b => b.task.id));
+    return tasks.filter(t =>
+      !t.completed &&
+      t.id !== taskId &&
+      !linked.has(t.id) &&
+      !wouldCreateCycle(dependencies, taskId, t.id)
+    );
+  }, [tasks, blockers, dependencies, taskId]);
+
+  const handleAdd = async (dependsOnTaskId: string) => {
+    try {
+      await taskDependencyRepository.addDependency(taskId, dependsOnTaskId);
+      setPicking(false);
+    } catch (error) {
+      Alert.alert('Could not add blocker', error instanceof Error ? error.message : 'Please try again.');
+    }
+  };
+
+  const handleRemove = async (dependencyId: string) => {
+    try {
+      await taskDependencyRepository.removeDependency(dependencyId);
+    } catch (error) {
+      console.error('Error removing task dependency:', error);
+      Alert.alert('Error', 'Failed to remove blocker');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Blocked by</Text>
+      <Text style={styles.hint}>
+        Momentum mode and auto-scheduling skip this task until these are done.
+      </Text>
+
+      {blockers.length === 0 && !picking && (
+        <Text style={styles.emptyText}>Not waiting on any task.</Text>
+      )}
+
+      {blockers.map(({ dependencyId, task }) => (
+        <View key={dependencyId} style={styles.row}>
+          <Icon
+            icon={task.completed ? CheckmarkCircle01Icon : LockIcon}
+            size={16}
+            color={task.completed ? colors.success : colors.text.secondary}
+          />
+          <Text style={[styles.rowText, task.completed && styles.rowTextDone]} numberOfLines={1}>
+            {task.title}
+          </Text>
+          <TouchableOpacity
+            onPress={() => handleRemove(dependencyId)}
+            accessibilityRole="button"
+            accessibilityLabel={`Remove blocker ${task.title}`}
+          >
+            <Icon icon={Cancel01Icon} size={16} color={colors.text.secondary} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {picking ? (
+        <View style={styles.picker}>
+          {candidates.length === 0 ? (
+            <Text style={styles.emptyText}>No other open tasks can block this one.</Text>
+          ) : (
+            candidates.map(candidate => (
+              <TouchableOpacity
+                key={candidate.id}
+                style={styles.option}
+                onPress={() => handleAdd(candidate.id)}
+                accessibilityRole="button"
+              >
+                <Text style={styles.optionText} numberOfLines={1}>{candidate.title}</Text>
+              </TouchableOpacity>
+            ))
+          )}
+          <TouchableOpacity style={styles.cancelButton} onPress={() => setPicking(false)}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.addButton} onPress={() => setPicking(true)} accessibilityRole="button">
+          <Icon icon={Add01Icon} size={16} color={colors.primary} />
+          <Text style={styles.addText}>Add blocker</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.lg,
+  },
+  title: {
+    fontSize: typography.fontSize.lg,
+    fontWeight: typography.fontWeight.semibold as any,
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  hint: {
+    fontSize: typography.fontSize.sm,
+    color: colors.text.secondary,
+    marginBottom: spacing.sm,
+  },
+  emptyText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.text.disabled,
+    paddingVertical: spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  rowText: {
+    flex: 1,
+    fontSize: typography.fontSize.base,
+    color: colors.text.primary,
+  },
+  rowTextDone: {
+    color: colors.text.secondary,
+    textDecorationLine: 'line-through',
+  },
+  picker: {
+    marginTop: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.secondary,
+    padding: spacing.sm,
+  },
+  option: {
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  optionText: {
+    fontSize: typography.fontSize.base,
+    color: colors.text.primary,
+  },
+  cancelButton: {
+    alignSelf: 'flex-end',
+    paddingTop: spacing.sm,
+  },
+  cancelText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.text.secondary,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  addText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.primary,
+    fontWeight: typography.fontWeight.medium as any,
+  },
+});
@@ -27,6 +27,7 @@ import {
   Tick01Icon
 } from '@hugeicons/core-free-icons';
 import { RecurrencePatternPicker } from './RecurrencePatternPicker';
+import { TaskDependencyEditor } from './TaskDependencyEditor';
 import { RecurrencePattern } from '../../utils/recurrenceUtils';
 
 interface Task {
@@ -527,6 +528,13 @@ export const TaskForm: React.FC<TaskFormProps> = ({
             onChange={(pattern) => handleInputChange('recurrence_pattern', pattern)}
           />
 
+          {/* Dependencies: links need a saved task, so only when editing */}
+          {!!task?.id && (
+            <View style={styles.autoScheduleSection}>
+              <TaskDependencyEditor taskId={task.id} />
+            </View>
+          )}
+
           {/* Auto-Scheduling Section */}
           <View style={styles.autoScheduleSection}>
             <Text style={styles.sectionTitle}>Auto-Scheduling</Text>
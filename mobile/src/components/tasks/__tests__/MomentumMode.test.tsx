@@ -9,7 +9,8 @@ jest.mock('../../../repositories/TaskRepository', () => ({
     getNextFocusTask: jest.fn().mockResolvedValue({
       id: '2',
       title: 'Task B',
-      status: 'pending_update:not_started',
+      lifecycleStatus: 'not_started',
+      syncState: 'pending_update',
       isTodayFocus: true,
       priority: 'medium',
       estimatedDurationMinutes: 30,
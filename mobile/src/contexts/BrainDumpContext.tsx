@@ -1,30 +1,51 @@
-import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { brainDumpSessionRepository } from '../repositories/BrainDumpSessionRepository';
+import { brainDumpAPI } from '../services/api';
+import { offlineService } from '../services/offline';
+import { BrainDumpStage, DraftSnapshot, SessionItem, getOpenItems } from '../utils/brainDumpSessions';
 
 export type BrainDumpItem = {
+  id?: string;
   text: string;
   type: 'task' | 'goal';
   confidence?: number;
   category?: string | null;
   stress_level: 'low' | 'medium' | 'high';
   priority: 'low' | 'medium' | 'high';
+  // Present while an item split on the device waits for AI extraction
+  draft?: DraftSnapshot;
 };
 
 type BrainDumpContextValue = {
   threadId: string;
   items: BrainDumpItem[];
+  // Stored session (see BrainDumpSessionRepository) the working list belongs to, '' when none
+  sessionId: string;
   setThreadId: (id: string) => void;
+  // Bumped when the items are replaced from outside the brain dump screens (resume, AI extraction)
+  itemsRevision: number;
   setItems: (updater: BrainDumpItem[] | ((prev: BrainDumpItem[]) => BrainDumpItem[])) => void;
+  recordDump: (rawText: string, threadId: string, items: BrainDumpItem[], options?: { extractionPending?: boolean }) => Promise<void>;
+  resumeSession: (id: string) => Promise<BrainDumpStage | null>;
   clearSession: () => Promise<void>;
 };
 
 const BrainDumpContext = createContext<BrainDumpContextValue | undefined>(undefined);
 
 const SESSION_KEY = 'brainDumpSession';
+const ITEMS_SAVE_DELAY_MS = 500;
 
 export function BrainDumpProvider({ children }: { children: React.ReactNode }) {
   const [threadId, setThreadIdState] = useState<string>('');
   const [items, setItemsState] = useState<BrainDumpItem[]>([]);
+  const [sessionId, setSessionId] = useState<string>('');
+  const [itemsRevision, setItemsRevision] = useState(0);
+  const sessionIdRef = useRef(sessionId);
+  const itemsRef = useRef(items);
+  const extractingRef = useRef(false);
+  sessionIdRef.current = sessionId;
+  itemsRef.current = items;
 
   // Hydrate from storage on mount
   useEffect(() => {
@@ -35,10 +56,21 @@ export function BrainDumpProvider({ children }: { children: React.ReactNode }) {
           const parsed = JSON.parse(raw);
           if (parsed && typeof parsed === 'object') {
             if (typeof parsed.threadId === 'string') {setThreadIdState(parsed.threadId);}
-            if (Array.isArray(parsed.items)) {setItemsState(parsed.items);}
+            if (Array.isArray(parsed.items)) {
+              setItemsState(parsed.items);
+              itemsRef.current = parsed.items;
+            }
+            if (typeof parsed.sessionId === 'string') {
+              setSessionId(parsed.sessionId);
+              sessionIdRef.current = parsed.sessionId;
+            }
           }
         }
       } catch {}
+      // Dumps captured offline in an earlier run; the working session is known by now
+      if (offlineService.getNetworkStatus()) {
+        extractPending();
+      }
     })();
   }, []);
 
@@ -46,7 +78,7 @@ export function BrainDumpProvider({ children }: { children: React.ReactNode }) {
   useEffect(() => {
     (async () => {
       try {
-        const payload = JSON.stringify({ threadId, items });
+        const payload = JSON.stringify({ threadId, items, sessionId });
         await AsyncStorage.setItem(SESSION_KEY, payload);
         // Backward-compat keys used elsewhere
         await AsyncStorage.multiSet([
@@ -55,7 +87,54 @@ export function BrainDumpProvider({ children }: { children: React.ReactNode }) {
         ]);
       } catch {}
     })();
-  }, [threadId, items]);
+  }, [threadId, items, sessionId]);
+
+  // Keep the stored session's items in step with refinement edits
+  useEffect(() => {
+    if (!sessionId || items.length === 0) { return; }
+    const timer = setTimeout(() => {
+      brainDumpSessionRepository.updateItems(sessionId, items as SessionItem[]).catch(() => {});
+    }, ITEMS_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sessionId, items]);
+
+  // Runs AI extraction for dumps captured offline, oldest first, stopping at the first failure
+  const extractPending = async () => {
+    if (extractingRef.current) { return; }
+    extractingRef.current = true;
+    try {
+      const pending = await brainDumpSessionRepository.getPendingExtractions();
+      for (const session of pending) {
+        const result = await brainDumpAPI.submit(session.rawText);
+        const isActive = session.id === sessionIdRef.current;
+        const merged = await brainDumpSessionRepository.applyExtraction(
+          session.id,
+          result.threadId,
+          Array.isArray(result.items) ? result.items : [],
+          isActive ? (itemsRef.current as SessionItem[]) : undefined
+        );
+        if (isActive && merged && session.id === sessionIdRef.current) {
+          setThreadIdState(result.threadId || '');
+          setItemsState(getOpenItems(merged) as BrainDumpItem[]);
+          setItemsRevision(revision => revision + 1);
+        }
+      }
+    } catch (error) {
+      console.warn('Deferred brain dump extraction failed:', error);
+    } finally {
+      extractingRef.current = false;
+    }
+  };
+
+  // Retry whenever the connection comes back
+  useEffect(() => {
+    const unsubscribe = offlineService.subscribe(state => {
+      if (state.isOnline) {
+        extractPending();
+      }
+    });
+    return () => { unsubscribe(); };
+  }, []);
 
   const setItems: BrainDumpContextValue['setItems'] = (updater) => {
     setItemsState(prev => (typeof updater === 'function' ? (updater as any)(prev) : updater));
@@ -65,15 +144,44 @@ export function BrainDumpProvider({ children }: { children: React.ReactNode }) {
     setThreadIdState(id);
   };
 
+  // Stores a new dump: it joins the unfinished session when there is one, otherwise starts a new one
+  const recordDump: BrainDumpContextValue['recordDump'] = async (rawText, dumpThreadId, dumpItems, options) => {
+    const data = { threadId: dumpThreadId, rawText, items: dumpItems as SessionItem[], extractionPending: options?.extractionPending };
+    const existing = sessionId ? await brainDumpSessionRepository.appendToSession(sessionId, data) : null;
+    const session = existing ?? await brainDumpSessionRepository.startSession(data);
+    setSessionId(session.id);
+  };
+
+  // Makes a stored, unfinished session the working one again; returns the stage to continue from
+  const resumeSession: BrainDumpContextValue['resumeSession'] = async (id) => {
+    const session = await brainDumpSessionRepository.getSessionById(id);
+    if (!session || session.stage === 'completed') {
+      return null;
+    }
+    setSessionId(session.id);
+    setThreadIdState(session.threadId || '');
+    setItemsState(getOpenItems(session.items) as BrainDumpItem[]);
+    setItemsRevision(revision => revision + 1);
+    if (session.extractionPending) {
+      extractPending();
+    }
+    return session.stage;
+  };
+
+  // Ends the working session; the stored session stays in the history
   const clearSession = async () => {
     try {
       setThreadIdState('');
       setItemsState([]);
+      setSessionId('');
       await AsyncStorage.multiRemove([SESSION_KEY, 'lastBrainDumpThreadId', 'lastBrainDumpItems']);
     } catch {}
   };
 
-  const value = useMemo<BrainDumpContextValue>(() => ({ threadId, items, setThreadId, setItems, clearSession }), [threadId, items]);
+  const value = useMemo<BrainDumpContextValue>(
+    () => ({ threadId, items, sessionId, itemsRevision, setThreadId, setItems, recordDump, resumeSession, clearSession }),
+    [threadId, items, sessionId, itemsRevision]
+  );
 
   return <BrainDumpContext.Provider value={value}>{children}</BrainDumpContext.Provider>;
 }
@@ -5,6 +5,7 @@ import EncryptedStorage from 'react-native-encrypted-storage';
 import {mySchema} from './schema';
 import {models} from './models';
 import migrations from './migrations/schemaMigrations';
+import { ensureSearchIndex } from './searchIndex';
 import 'react-native-get-random-values';
 
 const DB_ENCRYPTION_KEY = 'mindclear_db_encryption_key';
@@ -66,6 +67,13 @@ export const initializeDatabase = async (): Promise<Database> => {
         adapter,
         modelClasses: models,
       });
+
+      // Search is not essential; without the index it falls back to plain text matching
+      try {
+        await ensureSearchIndex(db);
+      } catch (error) {
+        console.error('Failed to set up search index', error);
+      }
       
       database = db;
       return database;
@@ -1,4 +1,4 @@
-import { schemaMigrations, addColumns } from '@nozbe/watermelondb/Schema/migrations';
+import { schemaMigrations, addColumns, createTable, unsafeExecuteSql } from '@nozbe/watermelondb/Schema/migrations';
 
 /**
  * Migration 3→4: Add location column to tasks table
@@ -10,6 +10,59 @@ import { schemaMigrations, addColumns } from '@nozbe/watermelondb/Schema/migrati
  * 
  * This migration adds the optional 'category' field to the tasks table
  * to support task categorization (e.g., "Digital Hygiene", "Health", etc.).
+ *
+ * Migration 7→8: Split task status into lifecycle_status and sync_state
+ *
+ * Tasks used to store a combined value in 'status' (e.g. 'pending_update:in_progress',
+ * 'sync_failed:completed'). This migration adds dedicated columns and backfills them
+ * from the legacy value. The 'status' column is left in place but is no longer read.
+ *
+ * Migration 8→9: Add routines and routine_completions tables
+ *
+ * Routines were previously only held in memory by RoutineContext. Storing them
+ * locally lets completions be logged, undone and reset offline.
+ *
+ * Migration 9→10: Add base_snapshot to tasks and goals, and the sync_conflicts table
+ *
+ * base_snapshot holds the fields as last agreed with the server so pulls can merge
+ * field by field. Fields edited on both sides are stored in sync_conflicts until
+ * the user picks a version.
+ *
+ * Migration 10→11: Add the sync_outbox table
+ *
+ * Every local create, update and delete is recorded as an ordered outbox operation
+ * with an idempotency key and links to the operations it depends on. Push reads
+ * the outbox instead of scanning each table for unsynced rows.
+ *
+ * Migration 11→12: Add full-text search tables
+ *
+ * Creates an FTS5 table over the text of tasks, goals, milestones, steps and conversation
+ * messages, and indexes the existing rows. See db/searchIndex.ts for the triggers.
+ *
+ * Migration 12→13: Add the saved_filters table
+ *
+ * Named filters (FilterOptions stored as JSON) used by the calendar and the smart lists
+ * on the Tasks screen. They sync like routines.
+ *
+ * Migration 13→14: Add the task_dependencies table
+ *
+ * "Blocked by" links between tasks. Links are only created or deleted, never edited.
+ *
+ * Migration 14→15: Add the task_checklist_items table
+ *
+ * Ordered checklist steps inside a task.
+ *
+ * Migration 15→16: Add the daily_reflections table
+ *
+ * One end-of-day reflection per day: mood, energy, a note and what happened to the open tasks.
+ *
+ * Migration 16→17: Add the brain_dump_sessions table
+ *
+ * Local history of brain dumps: the raw text, its items and what each item became.
+ *
+ * Migration 17→18: Add extraction_pending to brain_dump_sessions
+ *
+ * Marks dumps captured offline whose AI extraction runs once the connection is back.
  */
 export default schemaMigrations({
   migrations: [
@@ -57,6 +110,272 @@ export default schemaMigrations({
         }),
       ],
     },
+    {
+      toVersion: 8,
+      steps: [
+        addColumns({
+          table: 'tasks',
+          columns: [
+            { name: 'lifecycle_status', type: 'string' },
+            { name: 'sync_state', type: 'string', isIndexed: true },
+          ],
+        }),
+        // Backfill lifecycle_status from 'X', 'sync:X' or fall back to not_started
+        unsafeExecuteSql(`
+          update "tasks" set "lifecycle_status" = case
+            when "status" in ('not_started', 'in_progress', 'completed') then "status"
+            when instr("status", ':') > 0
+              and substr("status", instr("status", ':') + 1) in ('not_started', 'in_progress', 'completed')
+              then substr("status", instr("status", ':') + 1)
+            else 'not_started'
+          end;
+        `),
+        // Backfill sync_state. A bare lifecycle value meant the push succeeded (synced).
+        // Generic 'sync_failed:X' is resolved to create/update by whether the ID is a server UUID.
+        unsafeExecuteSql(`
+          update "tasks" set "sync_state" = case
+            when "status" in ('synced', 'not_started', 'in_progress', 'completed') then 'synced'
+            when "status" in (
+              'pending_create', 'pending_update', 'pending_delete',
+              'sync_failed_create', 'sync_failed_update', 'sync_failed_delete'
+            ) then "status"
+            when instr("status", ':') > 0
+              and substr("status", 1, instr("status", ':') - 1) in ('pending_create', 'pending_update', 'pending_delete')
+              then substr("status", 1, instr("status", ':') - 1)
+            when "status" like 'sync_failed%' and length("id") = 36 then 'sync_failed_update'
+            when "status" like 'sync_failed%' then 'sync_failed_create'
+            else 'pending_update'
+          end;
+        `),
+      ],
+    },
+    {
+      toVersion: 9,
+      steps: [
+        createTable({
+          name: 'routines',
+          columns: [
+            { name: 'user_id', type: 'string', isIndexed: true },
+            { name: 'title', type: 'string' },
+            { name: 'description', type: 'string', isOptional: true },
+            { name: 'frequency_type', type: 'string' },
+            { name: 'target_count', type: 'number' },
+            { name: 'time_window', type: 'string' },
+            { name: 'icon', type: 'string', isOptional: true },
+            { name: 'color', type: 'string', isOptional: true },
+            { name: 'is_active', type: 'boolean' },
+            { name: 'reminder_enabled', type: 'boolean' },
+            { name: 'reminder_time', type: 'string', isOptional: true },
+            { name: 'timezone', type: 'string' },
+            { name: 'current_streak', type: 'number' },
+            { name: 'longest_streak', type: 'number' },
+            { name: 'total_completions', type: 'number' },
+            { name: 'grace_periods_remaining', type: 'number' },
+            { name: 'grace_period_used_at', type: 'string', isOptional: true },
+            { name: 'last_completed_at', type: 'number', isOptional: true },
+            { name: 'last_streak_increment_period', type: 'string', isOptional: true },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+            { name: 'status', type: 'string' },
+          ],
+        }),
+        createTable({
+          name: 'routine_completions',
+          columns: [
+            { name: 'routine_id', type: 'string', isIndexed: true },
+            { name: 'user_id', type: 'string', isIndexed: true },
+            { name: 'completed_at', type: 'number' },
+            { name: 'period_date', type: 'string', isIndexed: true },
+            { name: 'notes', type: 'string', isOptional: true },
+            { name: 'occurrence_index', type: 'number' },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+            { name: 'status', type: 'string' },
+          ],
+        }),
+      ],
+    },
+    {
+      toVersion: 10,
+      steps: [
+        addColumns({
+          table: 'tasks',
+          columns: [
+            { name: 'base_snapshot', type: 'string', isOptional: true },
+          ],
+        }),
+        addColumns({
+          table: 'goals',
+          columns: [
+            { name: 'base_snapshot', type: 'string', isOptional: true },
+          ],
+        }),
+        createTable({
+          name: 'sync_conflicts',
+          columns: [
+            { name: 'user_id', type: 'string', isIndexed: true },
+            { name: 'table_name', type: 'string' },
+            { name: 'record_id', type: 'string', isIndexed: true },
+            { name: 'field', type: 'string' },
+            { name: 'base_value', type: 'string', isOptional: true },
+            { name: 'local_value', type: 'string', isOptional: true },
+            { name: 'server_value', type: 'string', isOptional: true },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+          ],
+        }),
+      ],
+    },
+    {
+      toVersion: 11,
+      steps: [
+        createTable({
+          name: 'sync_outbox',
+          columns: [
+            { name: 'user_id', type: 'string', isIndexed: true },
+            { name: 'table_name', type: 'string', isIndexed: true },
+            { name: 'record_id', type: 'string', isIndexed: true },
+            { name: 'operation', type: 'string' },
+            { name: 'sequence', type: 'number', isIndexed: true },
+            { name: 'idempotency_key', type: 'string' },
+            { name: 'depends_on', type: 'string', isOptional: true },
+            { name: 'revision', type: 'number' },
+            { name: 'attempt_count', type: 'number' },
+            { name: 'next_attempt_at', type: 'number', isOptional: true },
+            { name: 'last_error', type: 'string', isOptional: true },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+          ],
+        }),
+      ],
+    },
+    {
+      toVersion: 12,
+      // The search index is built at startup by ensureSearchIndex, where FTS5 is available
+      steps: [],
+    },
+    {
+      toVersion: 13,
+      steps: [
+        createTable({
+          name: 'saved_filters',
+          columns: [
+            { name: 'user_id', type: 'string', isIndexed: true },
+            { name: 'name', type: 'string' },
+            { name: 'filter_options', type: 'string' },
+            { name: 'position', type: 'number' },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+            { name: 'status', type: 'string' },
+          ],
+        }),
+      ],
+    },
+    {
+      toVersion: 14,
+      steps: [
+        createTable({
+          name: 'task_dependencies',
+          columns: [
+            { name: 'user_id', type: 'string', isIndexed: true },
+            { name: 'task_id', type: 'string', isIndexed: true },
+            { name: 'depends_on_task_id', type: 'string', isIndexed: true },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+            { name: 'status', type: 'string' },
+          ],
+        }),
+      ],
+    },
+    {
+      toVersion: 15,
+      steps: [
+        createTable({
+          name: 'task_checklist_items',
+          columns: [
+            { name: 'user_id', type: 'string', isIndexed: true },
+            { name: 'task_id', type: 'string', isIndexed: true },
+            { name: 'text', type: 'string' },
+            { name: 'is_completed', type: 'boolean' },
+            { name: 'position', type: 'number' },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+            { name: 'status', type: 'string' },
+          ],
+        }),
+      ],
+    },
+    {
+      toVersion: 16,
+      steps: [
+        createTable({
+          name: 'daily_reflections',
+          columns: [
+            { name: 'user_id', type: 'string', isIndexed: true },
+            { name: 'reflection_date', type: 'string', isIndexed: true },
+            { name: 'mood', type: 'number' },
+            { name: 'energy', type: 'number' },
+            { name: 'note', type: 'string', isOptional: true },
+            { name: 'completed_count', type: 'number' },
+            { name: 'rolled_over_count', type: 'number' },
+            { name: 'dropped_count', type: 'number' },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+            { name: 'status', type: 'string' },
+          ],
+        }),
+      ],
+    },
+    {
+      toVersion: 17,
+      steps: [
+        createTable({
+          name: 'brain_dump_sessions',
+          columns: [
+            { name: 'user_id', type: 'string', isIndexed: true },
+            { name: 'thread_id', type: 'string', isOptional: true },
+            { name: 'raw_text', type: 'string' },
+            { name: 'items', type: 'string' },
+            { name: 'stage', type: 'string' },
+            { name: 'completed_at', type: 'number', isOptional: true },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+          ],
+        }),
+      ],
+    },
+    {
+      toVersion: 18,
+      steps: [
+        addColumns({
+          table: 'brain_dump_sessions',
+          columns: [
+            { name: 'extraction_pending', type: 'boolean', isOptional: true },
+          ],
+        }),
+      ],
+    },
+    {
+      toVersion: 19,
+      steps: [
+        addColumns({
+          table: 'calendar_events',
+          columns: [
+            { name: 'ics_uid', type: 'string', isIndexed: true, isOptional: true },
+          ],
+        }),
+      ],
+    },
+    {
+      toVersion: 20,
+      steps: [
+        addColumns({
+          table: 'calendar_events',
+          columns: [
+            { name: 'time_zone', type: 'string', isOptional: true },
+          ],
+        }),
+      ],
+    },
   ],
 });
-
@@ -0,0 +1,27 @@
+import {Model} from '@nozbe/watermelondb';
+import {date, field, text} from '@nozbe/watermelondb/decorators';
+import {parseSessionItems} from '../../utils/brainDumpSessions';
+import type {BrainDumpStage, SessionItem} from '../../utils/brainDumpSessions';
+
+/**
+ * One brain dump and what became of its items.
+ * Local only: the history stays on this device.
+ */
+export default class BrainDumpSession extends Model {
+  static table = 'brain_dump_sessions';
+
+  @text('user_id') userId!: string;
+  @text('thread_id') threadId?: string | null;
+  @text('raw_text') rawText!: string;
+  @text('items') itemsJson!: string;
+  @text('stage') stage!: BrainDumpStage;
+  // Captured offline; AI extraction runs once the connection is back
+  @field('extraction_pending') extractionPending?: boolean;
+  @date('completed_at') completedAt?: Date | null;
+  @date('created_at') createdAt!: Date;
+  @date('updated_at') updatedAt!: Date;
+
+  get items(): SessionItem[] {
+    return parseSessionItems(this.itemsJson);
+  }
+}
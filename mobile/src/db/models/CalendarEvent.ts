@@ -20,6 +20,8 @@ export default class CalendarEvent extends Model {
   @date('end_time') endTime!: Date;
   @text('location') location?: string;
   @field('is_all_day') isAllDay!: boolean;
+  @text('ics_uid') icsUid?: string;
+  @text('time_zone') timeZone?: string;
   @date('created_at') createdAt!: Date;
   @date('updated_at') updatedAt!: Date;
   @text('status') status!: string;
@@ -0,0 +1,18 @@
+import {Model} from '@nozbe/watermelondb';
+import {field, date, text} from '@nozbe/watermelondb/decorators';
+
+export default class DailyReflection extends Model {
+  static table = 'daily_reflections';
+
+  @text('user_id') userId!: string;
+  @text('reflection_date') reflectionDate!: string;
+  @field('mood') mood!: number;
+  @field('energy') energy!: number;
+  @text('note') note?: string | null;
+  @field('completed_count') completedCount!: number;
+  @field('rolled_over_count') rolledOverCount!: number;
+  @field('dropped_count') droppedCount!: number;
+  @date('created_at') createdAt!: Date;
+  @date('updated_at') updatedAt!: Date;
+  @text('status') status!: string;
+}
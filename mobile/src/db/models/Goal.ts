@@ -33,6 +33,7 @@ export default class Goal extends Model {
   @date('updated_at') updatedAt!: Date;
   @text('status') status!: string;
   @text('user_id') userId!: string;
+  @text('base_snapshot') baseSnapshot?: string | null;
 
   @children('milestones') milestones!: Query<Milestone>;
 }
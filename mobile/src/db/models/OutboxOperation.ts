@@ -0,0 +1,25 @@
+import {Model} from '@nozbe/watermelondb';
+import {date, field, text} from '@nozbe/watermelondb/decorators';
+
+/**
+ * A local change waiting to be pushed to the server.
+ * Local only: rows are removed once the change is on the server.
+ */
+export default class OutboxOperation extends Model {
+  static table = 'sync_outbox';
+
+  @text('user_id') userId!: string;
+  @text('table_name') tableName!: string;
+  @text('record_id') recordId!: string;
+  @text('operation') operation!: string;
+  @field('sequence') sequence!: number;
+  @text('idempotency_key') idempotencyKey!: string;
+  // JSON array of outbox operation IDs that must be pushed first
+  @text('depends_on') dependsOn?: string;
+  @field('revision') revision!: number;
+  @field('attempt_count') attemptCount!: number;
+  @date('next_attempt_at') nextAttemptAt?: Date;
+  @text('last_error') lastError?: string;
+  @date('created_at') createdAt!: Date;
+  @date('updated_at') updatedAt!: Date;
+}
@@ -0,0 +1,62 @@
+import {Model, Query} from '@nozbe/watermelondb';
+import {field, date, text, children} from '@nozbe/watermelondb/decorators';
+import RoutineCompletion from './RoutineCompletion';
+
+// TypeScript interface for Routine
+export interface RoutineType {
+  id: string;
+  userId: string;
+  title: string;
+  description?: string;
+  frequencyType: 'daily' | 'weekly' | 'monthly';
+  targetCount: number;
+  timeWindow: 'morning' | 'afternoon' | 'evening' | 'anytime';
+  icon?: string;
+  color?: string;
+  isActive: boolean;
+  reminderEnabled: boolean;
+  reminderTime?: string;
+  timezone: string;
+  currentStreak: number;
+  longestStreak: number;
+  totalCompletions: number;
+  gracePeriodsRemaining: number;
+  gracePeriodUsedAt?: string;
+  lastCompletedAt?: Date;
+  lastStreakIncrementPeriod?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  status: string;
+}
+
+export default class Routine extends Model {
+  static table = 'routines';
+  static associations = {
+    routine_completions: {type: 'has_many', foreignKey: 'routine_id'},
+  } as const;
+
+  @text('user_id') userId!: string;
+  @text('title') title!: string;
+  @text('description') description?: string;
+  @text('frequency_type') frequencyType!: 'daily' | 'weekly' | 'monthly';
+  @field('target_count') targetCount!: number;
+  @text('time_window') timeWindow!: 'morning' | 'afternoon' | 'evening' | 'anytime';
+  @text('icon') icon?: string;
+  @text('color') color?: string;
+  @field('is_active') isActive!: boolean;
+  @field('reminder_enabled') reminderEnabled!: boolean;
+  @text('reminder_time') reminderTime?: string;
+  @text('timezone') timezone!: string;
+  @field('current_streak') currentStreak!: number;
+  @field('longest_streak') longestStreak!: number;
+  @field('total_completions') totalCompletions!: number;
+  @field('grace_periods_remaining') gracePeriodsRemaining!: number;
+  @text('grace_period_used_at') gracePeriodUsedAt?: string;
+  @date('last_completed_at') lastCompletedAt?: Date;
+  @text('last_streak_increment_period') lastStreakIncrementPeriod?: string;
+  @date('created_at') createdAt!: Date;
+  @date('updated_at') updatedAt!: Date;
+  @text('status') status!: string;
+
+  @children('routine_completions') completions!: Query<RoutineCompletion>;
+}
@@ -0,0 +1,22 @@
+import {Model, Relation} from '@nozbe/watermelondb';
+import {field, date, text, relation} from '@nozbe/watermelondb/decorators';
+import type Routine from './Routine';
+
+export default class RoutineCompletion extends Model {
+  static table = 'routine_completions';
+  static associations = {
+    routines: {type: 'belongs_to', key: 'routine_id'},
+  } as const;
+
+  @text('routine_id') routineId!: string;
+  @text('user_id') userId!: string;
+  @date('completed_at') completedAt!: Date;
+  @text('period_date') periodDate!: string;
+  @text('notes') notes?: string;
+  @field('occurrence_index') occurrenceIndex!: number;
+  @date('created_at') createdAt!: Date;
+  @date('updated_at') updatedAt!: Date;
+  @text('status') status!: string;
+
+  @relation('routines', 'routine_id') routine!: Relation<Routine>;
+}
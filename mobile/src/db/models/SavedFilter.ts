@@ -0,0 +1,19 @@
+import {Model} from '@nozbe/watermelondb';
+import {field, date, text} from '@nozbe/watermelondb/decorators';
+import {FilterOptions, parseFilterOptions} from '../../utils/filterEngine';
+
+export default class SavedFilter extends Model {
+  static table = 'saved_filters';
+
+  @text('user_id') userId!: string;
+  @text('name') name!: string;
+  @text('filter_options') filterOptionsJson!: string;
+  @field('position') position!: number;
+  @date('created_at') createdAt!: Date;
+  @date('updated_at') updatedAt!: Date;
+  @text('status') status!: string;
+
+  get filterOptions(): FilterOptions {
+    return parseFilterOptions(this.filterOptionsJson);
+  }
+}
@@ -0,0 +1,21 @@
+import {Model} from '@nozbe/watermelondb';
+import {date, text} from '@nozbe/watermelondb/decorators';
+
+/**
+ * A field edited both locally and on the server since the record was last synced.
+ * Local only: rows are removed once the user picks a version.
+ */
+export default class SyncConflict extends Model {
+  static table = 'sync_conflicts';
+
+  @text('user_id') userId!: string;
+  @text('table_name') tableName!: string;
+  @text('record_id') recordId!: string;
+  @text('field') field!: string;
+  // JSON encoded snapshot values
+  @text('base_value') baseValue?: string;
+  @text('local_value') localValue?: string;
+  @text('server_value') serverValue?: string;
+  @date('created_at') createdAt!: Date;
+  @date('updated_at') updatedAt!: Date;
+}
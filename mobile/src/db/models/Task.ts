@@ -6,12 +6,22 @@ import {
   relation,
 } from '@nozbe/watermelondb/decorators';
 import { GoalType } from './Goal';
+import type { TaskLifecycleStatus, TaskSyncState } from '../../utils/taskStatus';
+
+export type { TaskLifecycleStatus, TaskSyncState };
 
 // RecurrencePattern interface (matches mobile/src/utils/recurrenceUtils.ts)
 export interface RecurrencePattern {
-  type: 'daily' | 'weekly' | 'monthly';
+  type: 'daily' | 'weekly' | 'monthly' | 'yearly';
   interval: number;
   daysOfWeek?: number[];
+  // Monthly/yearly: which matching day of the month (1-5, or -1 for last).
+  // Counted across all daysOfWeek, so -1 with Mon-Fri means "last weekday".
+  nthWeekday?: number;
+  // Yearly: month the occurrence falls in (1-12)
+  monthOfYear?: number;
+  // Local dates (YYYY-MM-DD) that are skipped when advancing
+  exclusionDates?: string[];
   endCondition?: {
     type: 'never' | 'count' | 'date';
     value?: number | string;
@@ -29,7 +39,8 @@ export interface TaskType {
   description?: string;
   priority?: string;
   estimatedDurationMinutes?: number;
-  status: string;
+  lifecycleStatus: TaskLifecycleStatus;
+  syncState: TaskSyncState;
   dueDate?: Date;
   calendarEventId?: string;
   createdAt: Date;
@@ -54,7 +65,8 @@ export default class Task extends Model {
   @text('description') description?: string;
   @text('priority') priority?: string;
   @field('estimated_duration_minutes') estimatedDurationMinutes?: number;
-  @text('status') status!: string;
+  @text('lifecycle_status') lifecycleStatus!: TaskLifecycleStatus;
+  @text('sync_state') syncState!: TaskSyncState;
   @date('due_date') dueDate?: Date;
   @text('calendar_event_id') calendarEventId?: string;
   @date('created_at') createdAt!: Date;
@@ -66,6 +78,7 @@ export default class Task extends Model {
   @field('auto_schedule_enabled') autoScheduleEnabled?: boolean;
   @text('category') category?: string;
   @text('recurrence_pattern') recurrencePatternJson?: string | null;
+  @text('base_snapshot') baseSnapshot?: string | null;
 
   @relation('goals', 'goal_id') goal?: GoalType;
 
@@ -0,0 +1,15 @@
+import {Model} from '@nozbe/watermelondb';
+import {field, date, text} from '@nozbe/watermelondb/decorators';
+
+export default class TaskChecklistItem extends Model {
+  static table = 'task_checklist_items';
+
+  @text('user_id') userId!: string;
+  @text('task_id') taskId!: string;
+  @text('text') text!: string;
+  @field('is_completed') isCompleted!: boolean;
+  @field('position') position!: number;
+  @date('created_at') createdAt!: Date;
+  @date('updated_at') updatedAt!: Date;
+  @text('status') status!: string;
+}
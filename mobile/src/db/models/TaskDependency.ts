@@ -0,0 +1,17 @@
+import {Model} from '@nozbe/watermelondb';
+import {date, text} from '@nozbe/watermelondb/decorators';
+
+/**
+ * "taskId is blocked by dependsOnTaskId": the task can't be focused or auto-scheduled
+ * until the other task is completed.
+ */
+export default class TaskDependency extends Model {
+  static table = 'task_dependencies';
+
+  @text('user_id') userId!: string;
+  @text('task_id') taskId!: string;
+  @text('depends_on_task_id') dependsOnTaskId!: string;
+  @date('created_at') createdAt!: Date;
+  @date('updated_at') updatedAt!: Date;
+  @text('status') status!: string;
+}
@@ -5,5 +5,14 @@ import Milestone from './Milestone';
 import MilestoneStep from './MilestoneStep';
 import ConversationThread from './ConversationThread';
 import ConversationMessage from './ConversationMessage';
+import Routine from './Routine';
+import RoutineCompletion from './RoutineCompletion';
+import SyncConflict from './SyncConflict';
+import OutboxOperation from './OutboxOperation';
+import SavedFilter from './SavedFilter';
+import TaskDependency from './TaskDependency';
+import TaskChecklistItem from './TaskChecklistItem';
+import DailyReflection from './DailyReflection';
+import BrainDumpSession from './BrainDumpSession';
 
-export const models = [Goal, Task, CalendarEvent, Milestone, MilestoneStep, ConversationThread, ConversationMessage];
+export const models = [Goal, Task, CalendarEvent, Milestone, MilestoneStep, ConversationThread, ConversationMessage, Routine, RoutineCompletion, SyncConflict, OutboxOperation, SavedFilter, TaskDependency, TaskChecklistItem, DailyReflection, BrainDumpSession];
@@ -1,7 +1,7 @@
 import { appSchema, tableSchema } from '@nozbe/watermelondb';
 
 export const mySchema = appSchema({
-  version: 7, // Incremented to add recurrence_pattern to tasks table
+  version: 20, // Incremented to add calendar_events.time_zone
   tables: [
     tableSchema({
       name: 'goals',
@@ -16,6 +16,7 @@ export const mySchema = appSchema({
         { name: 'created_at', type: 'number' },
         { name: 'updated_at', type: 'number' },
         { name: 'status', type: 'string' }, // for sync
+        { name: 'base_snapshot', type: 'string', isOptional: true }, // JSON of the fields last agreed with the server
       ],
     }),
     tableSchema({
@@ -52,7 +53,7 @@ export const mySchema = appSchema({
         { name: 'description', type: 'string', isOptional: true },
         { name: 'priority', type: 'string', isOptional: true },
         { name: 'estimated_duration_minutes', type: 'number', isOptional: true },
-        { name: 'status', type: 'string' }, // 'synced', 'pending_create', 'pending_update'
+        { name: 'status', type: 'string' }, // Legacy combined status (pre-v8), superseded by lifecycle_status/sync_state
         { name: 'due_date', type: 'number', isOptional: true },
         { name: 'calendar_event_id', type: 'string', isOptional: true },
         { name: 'created_at', type: 'number' },
@@ -62,6 +63,9 @@ export const mySchema = appSchema({
         { name: 'category', type: 'string', isOptional: true }, // Task category (e.g., "Digital Hygiene", "Health", etc.)
         { name: 'auto_schedule_enabled', type: 'boolean', isOptional: true },
         { name: 'recurrence_pattern', type: 'string', isOptional: true }, // JSON stringified RecurrencePattern
+        { name: 'lifecycle_status', type: 'string' }, // 'not_started', 'in_progress', 'completed'
+        { name: 'sync_state', type: 'string', isIndexed: true }, // 'synced', 'pending_*', 'sync_failed_*'
+        { name: 'base_snapshot', type: 'string', isOptional: true }, // JSON of the fields last agreed with the server
       ],
     }),
     tableSchema({
@@ -77,6 +81,8 @@ export const mySchema = appSchema({
         { name: 'end_time', type: 'number' },
         { name: 'location', type: 'string', isOptional: true },
         { name: 'is_all_day', type: 'boolean' },
+        { name: 'ics_uid', type: 'string', isIndexed: true, isOptional: true },
+        { name: 'time_zone', type: 'string', isOptional: true }, // IANA zone the event was planned in
         { name: 'created_at', type: 'number' },
         { name: 'updated_at', type: 'number' },
         { name: 'status', type: 'string' }, // for sync
@@ -108,5 +114,144 @@ export const mySchema = appSchema({
         { name: 'status', type: 'string' }, // for sync: 'synced', 'pending_create', 'pending_update'
       ],
     }),
+    tableSchema({
+      name: 'routines',
+      columns: [
+        { name: 'user_id', type: 'string', isIndexed: true },
+        { name: 'title', type: 'string' },
+        { name: 'description', type: 'string', isOptional: true },
+        { name: 'frequency_type', type: 'string' }, // 'daily', 'weekly', 'monthly'
+        { name: 'target_count', type: 'number' },
+        { name: 'time_window', type: 'string' }, // 'morning', 'afternoon', 'evening', 'anytime'
+        { name: 'icon', type: 'string', isOptional: true },
+        { name: 'color', type: 'string', isOptional: true },
+        { name: 'is_active', type: 'boolean' },
+        { name: 'reminder_enabled', type: 'boolean' },
+        { name: 'reminder_time', type: 'string', isOptional: true }, // HH:mm wall clock time
+        { name: 'timezone', type: 'string' },
+        { name: 'current_streak', type: 'number' },
+        { name: 'longest_streak', type: 'number' },
+        { name: 'total_completions', type: 'number' },
+        { name: 'grace_periods_remaining', type: 'number' },
+        { name: 'grace_period_used_at', type: 'string', isOptional: true }, // YYYY-MM-DD of the period covered by grace
+        { name: 'last_completed_at', type: 'number', isOptional: true },
+        { name: 'last_streak_increment_period', type: 'string', isOptional: true }, // YYYY-MM-DD
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+        { name: 'status', type: 'string' }, // for sync: 'synced', 'pending_create', 'pending_update', 'pending_delete'
+      ],
+    }),
+    tableSchema({
+      name: 'routine_completions',
+      columns: [
+        { name: 'routine_id', type: 'string', isIndexed: true },
+        { name: 'user_id', type: 'string', isIndexed: true },
+        { name: 'completed_at', type: 'number' },
+        { name: 'period_date', type: 'string', isIndexed: true }, // YYYY-MM-DD of the period start
+        { name: 'notes', type: 'string', isOptional: true },
+        { name: 'occurrence_index', type: 'number' },
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+        { name: 'status', type: 'string' }, // for sync: 'synced', 'pending_create', 'pending_delete'
+      ],
+    }),
+    tableSchema({
+      name: 'saved_filters',
+      columns: [
+        { name: 'user_id', type: 'string', isIndexed: true },
+        { name: 'name', type: 'string' },
+        { name: 'filter_options', type: 'string' }, // JSON, see utils/filterEngine.ts
+        { name: 'position', type: 'number' }, // display order
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+        { name: 'status', type: 'string' }, // for sync: 'synced', 'pending_create', 'pending_update', 'pending_delete'
+      ],
+    }),
+    tableSchema({
+      name: 'task_dependencies',
+      columns: [
+        { name: 'user_id', type: 'string', isIndexed: true },
+        { name: 'task_id', type: 'string', isIndexed: true }, // the blocked task
+        { name: 'depends_on_task_id', type: 'string', isIndexed: true }, // must be completed first
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+        { name: 'status', type: 'string' }, // for sync: 'synced', 'pending_create', 'pending_delete'
+      ],
+    }),
+    tableSchema({
+      name: 'task_checklist_items',
+      columns: [
+        { name: 'user_id', type: 'string', isIndexed: true },
+        { name: 'task_id', type: 'string', isIndexed: true },
+        { name: 'text', type: 'string' },
+        { name: 'is_completed', type: 'boolean' },
+        { name: 'position', type: 'number' }, // order within the task
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+        { name: 'status', type: 'string' }, // for sync: 'synced', 'pending_create', 'pending_update', 'pending_delete'
+      ],
+    }),
+    tableSchema({
+      name: 'daily_reflections',
+      columns: [
+        { name: 'user_id', type: 'string', isIndexed: true },
+        { name: 'reflection_date', type: 'string', isIndexed: true }, // YYYY-MM-DD, one reflection per day
+        { name: 'mood', type: 'number' }, // 1-5
+        { name: 'energy', type: 'number' }, // 1-5
+        { name: 'note', type: 'string', isOptional: true },
+        { name: 'completed_count', type: 'number' },
+        { name: 'rolled_over_count', type: 'number' },
+        { name: 'dropped_count', type: 'number' },
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+        { name: 'status', type: 'string' }, // for sync: 'synced', 'pending_create', 'pending_update', 'pending_delete'
+      ],
+    }),
+    tableSchema({
+      name: 'brain_dump_sessions',
+      columns: [
+        { name: 'user_id', type: 'string', isIndexed: true },
+        { name: 'thread_id', type: 'string', isOptional: true }, // AI conversation thread of the dump
+        { name: 'raw_text', type: 'string' },
+        { name: 'items', type: 'string' }, // JSON, see utils/brainDumpSessions.ts
+        { name: 'stage', type: 'string' }, // 'refining', 'prioritizing' or 'completed'
+        { name: 'extraction_pending', type: 'boolean', isOptional: true }, // captured offline, AI extraction still to run
+        { name: 'completed_at', type: 'number', isOptional: true },
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+      ],
+    }),
+    tableSchema({
+      name: 'sync_conflicts',
+      columns: [
+        { name: 'user_id', type: 'string', isIndexed: true },
+        { name: 'table_name', type: 'string' }, // 'tasks' or 'goals'
+        { name: 'record_id', type: 'string', isIndexed: true },
+        { name: 'field', type: 'string' }, // API field name, e.g. 'title'
+        { name: 'base_value', type: 'string', isOptional: true }, // JSON encoded values
+        { name: 'local_value', type: 'string', isOptional: true },
+        { name: 'server_value', type: 'string', isOptional: true },
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+      ],
+    }),
+    tableSchema({
+      name: 'sync_outbox',
+      columns: [
+        { name: 'user_id', type: 'string', isIndexed: true },
+        { name: 'table_name', type: 'string', isIndexed: true },
+        { name: 'record_id', type: 'string', isIndexed: true },
+        { name: 'operation', type: 'string' }, // 'create', 'update' or 'delete'
+        { name: 'sequence', type: 'number', isIndexed: true }, // push order
+        { name: 'idempotency_key', type: 'string' },
+        { name: 'depends_on', type: 'string', isOptional: true }, // JSON array of outbox operation IDs
+        { name: 'revision', type: 'number' }, // bumped on every local change to the record
+        { name: 'attempt_count', type: 'number' },
+        { name: 'next_attempt_at', type: 'number', isOptional: true },
+        { name: 'last_error', type: 'string', isOptional: true },
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+      ],
+    }),
   ],
 });
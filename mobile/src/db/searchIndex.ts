@@ -0,0 +1,103 @@
+import { Database, Q } from '@nozbe/watermelondb';
+
+/**
+ * Local full-text search index.
+ *
+ * Each searchable table gets an FTS5 table that uses it as external content, so the text is not
+ * stored twice and FTS rowids match the source rows. Triggers keep the FTS tables in step with
+ * every insert, update and delete, whether it comes from a local edit or a sync pull.
+ *
+ * The index is built by ensureSearchIndex() at startup rather than by the schema or a migration:
+ * the platform SQLite on Android has no FTS5 module, and a failing CREATE VIRTUAL TABLE there would
+ * fail database setup. Where FTS5 is missing, SearchRepository falls back to plain text matching.
+ */
+
+export type SearchSourceTable = 'tasks' | 'goals' | 'milestones' | 'milestone_steps' | 'conversation_messages';
+
+interface SearchSource {
+  table: SearchSourceTable;
+  // Text columns of the source table, most important first
+  columns: string[];
+}
+
+export const SEARCH_SOURCES: SearchSource[] = [
+  { table: 'tasks', columns: ['title', 'description'] },
+  { table: 'goals', columns: ['title', 'description'] },
+  { table: 'milestones', columns: ['title', 'description'] },
+  { table: 'milestone_steps', columns: ['text'] },
+  { table: 'conversation_messages', columns: ['content'] },
+];
+
+const searchTableName = (table: SearchSourceTable): string => `${table}_search`;
+
+const quote = (name: string) => `"${name}"`;
+
+// Creates the FTS table of a source and indexes the rows already in it
+const createSearchTableSql = ({ table, columns }: SearchSource): string[] => {
+  const fts = searchTableName(table);
+  return [
+    `create virtual table if not exists ${quote(fts)} using fts5(` +
+      `${columns.map(quote).join(', ')}, ` +
+      `content=${quote(table)}, content_rowid='rowid', tokenize='unicode61 remove_diacritics 2')`,
+    `insert into ${quote(fts)}(${quote(fts)}) values ('rebuild')`,
+  ];
+};
+
+const createTriggersSql = ({ table, columns }: SearchSource): string[] => {
+  const fts = searchTableName(table);
+  const columnList = columns.map(quote).join(', ');
+  const values = (row: 'new' | 'old') => columns.map(column => `${row}.${quote(column)}`).join(', ');
+  const insertNew = `insert into ${quote(fts)}(rowid, ${columnList}) values (new.rowid, ${values('new')});`;
+  const deleteOld = `insert into ${quote(fts)}(${quote(fts)}, rowid, ${columnList}) values ('delete', old.rowid, ${values('old')});`;
+
+  return [
+    `create trigger if not exists ${quote(`${fts}_ai`)} after insert on ${quote(table)} begin ${insertNew} end`,
+    `create trigger if not exists ${quote(`${fts}_ad`)} after delete on ${quote(table)} begin ${deleteOld} end`,
+    `create trigger if not exists ${quote(`${fts}_au`)} after update of ${columnList} on ${quote(table)} begin ${deleteOld} ${insertNew} end`,
+  ];
+};
+
+let searchIndexAvailable = false;
+
+/**
+ * Whether the FTS tables are in place. False until ensureSearchIndex() has succeeded.
+ */
+export const isSearchIndexAvailable = (): boolean => searchIndexAvailable;
+
+const fetchRaw = async (database: Database, sql: string, args: any[] = []): Promise<any[]> =>
+  // Any collection can run raw SQL
+  await database.get('tasks').query(Q.unsafeSqlQuery(sql, args)).unsafeFetchRaw();
+
+/**
+ * Creates the FTS tables that are missing (indexing existing rows) and the triggers that keep them
+ * current. Idempotent; call once the database is set up. Returns false, leaving the database
+ * untouched, when this SQLite build has no FTS5.
+ */
+export const ensureSearchIndex = async (database: Database): Promise<boolean> => {
+  searchIndexAvailable = false;
+
+  const [capability] = await fetchRaw(database, `select sqlite_compileoption_used('ENABLE_FTS5') as fts5`);
+  if (!capability?.fts5) {
+    console.warn('SQLite has no FTS5; search uses plain text matching');
+    return false;
+  }
+
+  const ftsNames = SEARCH_SOURCES.map(({ table }) => searchTableName(table));
+  const existing = await fetchRaw(
+    database,
+    `select name from sqlite_master where type = 'table' and name in (${ftsNames.map(() => '?').join(', ')})`,
+    ftsNames,
+  );
+  const existingNames = new Set(existing.map(row => row.name));
+
+  const sqls = SEARCH_SOURCES.flatMap(source => [
+    ...(existingNames.has(searchTableName(source.table)) ? [] : createSearchTableSql(source)),
+    ...createTriggersSql(source),
+  ]).map(sql => [sql, []] as [string, any[]]);
+  await database.write(async () => {
+    await database.adapter.unsafeExecute({ sqls });
+  });
+
+  searchIndexAvailable = true;
+  return true;
+};
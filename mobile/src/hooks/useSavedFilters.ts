@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { savedFilterRepository } from '../repositories/SavedFilterRepository';
+import { FilterOptions } from '../utils/filterEngine';
+
+export interface SavedFilterView {
+  id: string;
+  name: string;
+  options: FilterOptions;
+}
+
+/**
+ * The user's saved filters in display order, kept current as they are edited or synced.
+ */
+export const useSavedFilters = (): SavedFilterView[] => {
+  const [savedFilters, setSavedFilters] = useState<SavedFilterView[]>([]);
+
+  useEffect(() => {
+    const subscription = savedFilterRepository.observeSavedFilters().subscribe({
+      // Copied out of the models so an edited filter produces a new value
+      next: (filters) => setSavedFilters(filters.map(f => ({ id: f.id, name: f.name, options: f.filterOptions }))),
+      error: (error) => console.error('Failed to observe saved filters', error),
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  return savedFilters;
+};
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { taskChecklistRepository } from '../repositories/TaskChecklistRepository';
+import { ChecklistProgress, summarizeChecklists } from '../utils/checklist';
+
+export interface ChecklistItemView {
+  id: string;
+  text: string;
+  isCompleted: boolean;
+}
+
+/**
+ * One task's checklist items in order, kept current as they are edited or synced.
+ */
+export const useTaskChecklist = (taskId: string): ChecklistItemView[] => {
+  const [items, setItems] = useState<ChecklistItemView[]>([]);
+
+  useEffect(() => {
+    const subscription = taskChecklistRepository.observeItemsForTask(taskId).subscribe({
+      // Copied out of the models so a toggled item produces a new value
+      next: (records) => setItems(records.map(i => ({ id: i.id, text: i.text, isCompleted: i.isCompleted }))),
+      error: (error) => console.error('Failed to observe checklist items', error),
+    });
+    return () => subscription.unsubscribe();
+  }, [taskId]);
+
+  return items;
+};
+
+/**
+ * Done and total checklist items per task, for progress chips on task cards.
+ */
+export const useChecklistProgress = (): Map<string, ChecklistProgress> => {
+  const [progress, setProgress] = useState<Map<string, ChecklistProgress>>(new Map());
+
+  useEffect(() => {
+    const subscription = taskChecklistRepository.observeAllItems().subscribe({
+      next: (records) => setProgress(summarizeChecklists(records)),
+      error: (error) => console.error('Failed to observe checklist progress', error),
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  return progress;
+};
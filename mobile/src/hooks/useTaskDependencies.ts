@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { taskDependencyRepository } from '../repositories/TaskDependencyRepository';
+import { DependencyLink } from '../utils/taskDependencies';
+
+export interface TaskDependencyView extends DependencyLink {
+  id: string;
+}
+
+/**
+ * The user's "blocked by" links, kept current as they are added, removed or synced.
+ */
+export const useTaskDependencies = (): TaskDependencyView[] => {
+  const [dependencies, setDependencies] = useState<TaskDependencyView[]>([]);
+
+  useEffect(() => {
+    const subscription = taskDependencyRepository.observeDependencies().subscribe({
+      // Copied out of the models so a remapped link produces a new value
+      next: (links) => setDependencies(links.map(d => ({ id: d.id, taskId: d.taskId, dependsOnTaskId: d.dependsOnTaskId }))),
+      error: (error) => console.error('Failed to observe task dependencies', error),
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  return dependencies;
+};
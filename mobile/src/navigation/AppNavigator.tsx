@@ -26,6 +26,9 @@ import NotificationScreen from '../screens/notifications/NotificationScreen';
 import MobileAnalyticsDashboard from '../components/analytics/MobileAnalyticsDashboard';
 import ProfileScreen from '../screens/profile/ProfileScreen';
 import RoutineDetailScreen from '../screens/routines/RoutineDetailScreen';
+import SyncConflictsScreen from '../screens/sync/SyncConflictsScreen';
+import SyncHealthScreen from '../screens/sync/SyncHealthScreen';
+import SearchScreen from '../screens/search/SearchScreen';
 import { RoutineProvider } from '../contexts/RoutineContext';
 import { parseAccessTokenFromUrl } from '@src/utils/deeplink';
 
@@ -375,6 +378,18 @@ export default function AppNavigator() {
             name="RoutineDetail"
             component={RoutineDetailScreen}
           />
+          <Stack.Screen
+            name="SyncConflicts"
+            component={SyncConflictsScreen}
+          />
+          <Stack.Screen
+            name="SyncHealth"
+            component={SyncHealthScreen}
+          />
+          <Stack.Screen
+            name="Search"
+            component={SearchScreen}
+          />
         </Stack.Navigator>
       </RoutineProvider>
     </NavigationContainer>
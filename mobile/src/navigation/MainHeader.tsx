@@ -1,10 +1,12 @@
 import React from 'react';
-import { View, Text, StyleSheet } from 'react-native'; import { getHeaderTitle } from '@react-navigation/elements';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native'; import { getHeaderTitle } from '@react-navigation/elements';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { colors } from '../themes/colors';
 import { spacing, borderRadius } from '../themes/spacing';
 import { typography } from '../themes/typography';
 import { ProfileHeaderButton } from '../components/common/ProfileHeaderButton';
+import { HugeiconsIcon as Icon } from '@hugeicons/react-native';
+import { Search01Icon } from '@hugeicons/core-free-icons';
 import { BottomTabHeaderProps } from '@react-navigation/bottom-tabs';
 import { NativeStackHeaderProps } from '@react-navigation/native-stack';
 
@@ -45,6 +47,14 @@ export const MainHeader = (props: SetupHeaderProps) => {
                             {options.headerRight({ canGoBack: navigation.canGoBack() })}
                         </View>
                     ) : null}
+                    <TouchableOpacity
+                        onPress={() => (navigation as any).navigate('Search')}
+                        style={styles.iconButton}
+                        accessibilityRole="button"
+                        accessibilityLabel="Search"
+                    >
+                        <Icon icon={Search01Icon} size={24} color={colors.primary} />
+                    </TouchableOpacity>
                     <ProfileHeaderButton />
                 </View>
             </View>
@@ -84,6 +94,11 @@ const styles = StyleSheet.create({
         alignItems: 'center',
         marginRight: spacing.sm,
     },
+    iconButton: {
+        padding: spacing.xs,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
     title: {
         fontSize: typography.fontSize.xl,
         fontWeight: typography.fontWeight.bold as any,
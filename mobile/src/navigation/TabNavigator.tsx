@@ -13,6 +13,7 @@ import BrainDumpRefinementScreen from '../screens/brain/BrainDumpRefinementScree
 import BrainDumpOnboardingScreen from '../screens/brain/BrainDumpOnboardingScreen';
 import BrainDumpPrioritizationScreen from '../screens/brain/BrainDumpPrioritizationScreen';
 import BrainDumpEntryScreen from '../screens/brain/BrainDumpEntryScreen';
+import BrainDumpHistoryScreen from '../screens/brain/BrainDumpHistoryScreen';
 import FocusTaskGuidanceScreen from '../screens/tasks/FocusTaskGuidanceScreen';
 import GoalsScreen from '../screens/goals/GoalsScreen';
 import TasksScreen from '../screens/tasks/TasksScreen';
@@ -75,6 +76,7 @@ export default function TabNavigator() {
               <BrainStack.Screen name="BrainDumpInput" component={BrainDumpInputScreen} options={{ title: 'Brain Dump' }} />
               <BrainStack.Screen name="BrainDumpRefinement" component={BrainDumpRefinementScreen} options={{ title: 'Brain Dump' }} />
               <BrainStack.Screen name="BrainDumpPrioritization" component={BrainDumpPrioritizationScreen} options={{ title: 'Brain Dump' }} />
+              <BrainStack.Screen name="BrainDumpHistory" component={BrainDumpHistoryScreen} options={{ title: 'Brain Dump History' }} />
               <BrainStack.Screen name="FocusTaskGuidance" component={FocusTaskGuidanceScreen} options={{ title: 'Brain Dump' }} />
             </BrainStack.Navigator>
           </BrainDumpProvider>
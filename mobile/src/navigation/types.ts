@@ -17,11 +17,14 @@ export type RootStackParamList = {
   } | undefined;
   Profile: undefined;
   RoutineDetail: { routineId: string };
+  SyncConflicts: undefined;
+  SyncHealth: undefined;
+  Search: undefined;
 };
 
 export type MainTabParamList = {
   BrainDump: undefined;
-  AIChat: { initialMessage?: string; threadId?: string; taskTitle?: string } | undefined;
+  AIChat: { initialMessage?: string; threadId?: string; messageId?: string; taskTitle?: string; taskId?: string } | undefined;
   Goals: undefined;
   Tasks: undefined;
   Routines: undefined;
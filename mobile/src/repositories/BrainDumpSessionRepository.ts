@@ -0,0 +1,342 @@
+import { getDatabase } from '../db';
+import { Q } from '@nozbe/watermelondb';
+import { Observable, of } from 'rxjs';
+import BrainDumpSession from '../db/models/BrainDumpSession';
+import Goal from '../db/models/Goal';
+import Task from '../db/models/Task';
+import { authService } from '../services/auth';
+import { taskRepository } from './TaskRepository';
+import { openTaskKeys } from '../utils/brainDumpSplitter';
+import {
+  BrainDumpStage,
+  ExtractedItem,
+  SessionItem,
+  SessionSummary,
+  completeSessionItems,
+  matchCreatedTasks,
+  mergeExtractedItems,
+  mergeSessionItems,
+  normalizeItemText,
+  summarizeSession,
+} from '../utils/brainDumpSessions';
+
+export interface BrainDumpInput {
+  threadId?: string | null;
+  rawText: string;
+  items: SessionItem[];
+  // Set when the dump was split on the device because AI could not be reached
+  extractionPending?: boolean;
+}
+
+export interface BrainDumpSessionView {
+  session: BrainDumpSession;
+  items: SessionItem[];
+  summary: SessionSummary;
+}
+
+/**
+ * BrainDumpSessionRepository keeps the history of brain dumps.
+ *
+ * Behavioral Contract:
+ * - Sessions are local only and are never pushed to the server
+ * - A session keeps every item it ever had; items dropped during refinement become discarded on completion
+ * - Outcomes, once recorded, are not overwritten by later edits to the working list
+ * - Completed sessions are read-only apart from linking goals created later in chat
+ * - Dumps captured offline stay marked until applyExtraction folds in the AI's items
+ */
+export class BrainDumpSessionRepository {
+  private getCurrentUserId(): string {
+    const user = authService.getCurrentUser();
+    if (!user?.id) {
+      throw new Error('User not authenticated');
+    }
+    return user.id;
+  }
+
+  async getSessions(): Promise<BrainDumpSession[]> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    return await database.get<BrainDumpSession>('brain_dump_sessions')
+      .query(
+        Q.where('user_id', userId),
+        Q.sortBy('created_at', Q.desc)
+      )
+      .fetch();
+  }
+
+  async getSessionById(id: string): Promise<BrainDumpSession | null> {
+    const database = getDatabase();
+    try {
+      return await database.get<BrainDumpSession>('brain_dump_sessions').find(id);
+    } catch {
+      return null;
+    }
+  }
+
+  async getPendingExtractions(): Promise<BrainDumpSession[]> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    return await database.get<BrainDumpSession>('brain_dump_sessions')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('extraction_pending', true),
+        Q.sortBy('created_at', Q.asc)
+      )
+      .fetch();
+  }
+
+  async startSession(data: BrainDumpInput): Promise<BrainDumpSession> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+
+    return await database.write(async () => {
+      return await database.get<BrainDumpSession>('brain_dump_sessions').create(s => {
+        s.userId = userId;
+        s.threadId = data.threadId || null;
+        s.rawText = data.rawText;
+        s.itemsJson = JSON.stringify(data.items);
+        s.stage = 'refining';
+        s.extractionPending = !!data.extractionPending;
+        s.createdAt = new Date();
+        s.updatedAt = new Date();
+      });
+    });
+  }
+
+  /**
+   * Adds another dump to an unfinished session, which then continues with the merged list.
+   */
+  async appendToSession(id: string, data: BrainDumpInput): Promise<BrainDumpSession | null> {
+    const session = await this.getSessionById(id);
+    if (!session || session.stage === 'completed') {
+      return null;
+    }
+
+    const database = getDatabase();
+    await database.write(async () => {
+      await session.update(s => {
+        s.threadId = data.threadId || s.threadId;
+        s.rawText = [s.rawText, data.rawText].filter(Boolean).join('\n\n');
+        s.itemsJson = JSON.stringify(mergeSessionItems(s.items, data.items));
+        s.stage = 'refining';
+        s.extractionPending = s.extractionPending || !!data.extractionPending;
+        s.updatedAt = new Date();
+      });
+    });
+    return session;
+  }
+
+  /**
+   * Folds the AI's items into a dump captured offline and clears its pending mark.
+   * `workingItems` is the current working list when the session is being refined, so edits not
+   * yet saved are kept; it defaults to the stored items. Returns the merged list.
+   */
+  async applyExtraction(
+    id: string,
+    threadId: string | null,
+    extracted: ExtractedItem[],
+    workingItems?: SessionItem[]
+  ): Promise<SessionItem[] | null> {
+    const session = await this.getSessionById(id);
+    if (!session || !session.extractionPending) {
+      return null;
+    }
+
+    const database = getDatabase();
+    const stored = session.items;
+    let merged: SessionItem[];
+    if (session.stage === 'completed') {
+      // Every item already has an outcome; only the draft marks are cleared
+      merged = mergeExtractedItems(stored, []);
+    } else {
+      const tasks = await taskRepository.getAllTasks();
+      merged = mergeExtractedItems(workingItems ?? stored, extracted, stored, openTaskKeys(tasks));
+    }
+
+    await database.write(async () => {
+      await session.update(s => {
+        s.threadId = threadId || s.threadId;
+        s.itemsJson = JSON.stringify(mergeSessionItems(stored, merged));
+        s.extractionPending = false;
+        s.updatedAt = new Date();
+      });
+    });
+    return merged;
+  }
+
+  /**
+   * Saves the working list of an unfinished session.
+   */
+  async updateItems(id: string, items: SessionItem[]): Promise<void> {
+    const session = await this.getSessionById(id);
+    if (!session || session.stage === 'completed') {
+      return;
+    }
+
+    const database = getDatabase();
+    await database.write(async () => {
+      await session.update(s => {
+        s.itemsJson = JSON.stringify(mergeSessionItems(s.items, items));
+        s.updatedAt = new Date();
+      });
+    });
+  }
+
+  async setStage(id: string, stage: Exclude<BrainDumpStage, 'completed'>): Promise<void> {
+    const session = await this.getSessionById(id);
+    if (!session || session.stage === 'completed' || session.stage === stage) {
+      return;
+    }
+
+    const database = getDatabase();
+    await database.write(async () => {
+      await session.update(s => {
+        s.stage = stage;
+        s.updatedAt = new Date();
+      });
+    });
+  }
+
+  /**
+   * Records that an item was handed to chat to become a goal.
+   */
+  async recordGoal(id: string, itemId: string): Promise<void> {
+    const session = await this.getSessionById(id);
+    if (!session || session.stage === 'completed') {
+      return;
+    }
+
+    const database = getDatabase();
+    await database.write(async () => {
+      await session.update(s => {
+        s.itemsJson = JSON.stringify(s.items.map(item =>
+          item.id === itemId && !item.outcome ? { ...item, outcome: { kind: 'goal', goalId: null } } : item
+        ));
+        s.updatedAt = new Date();
+      });
+    });
+  }
+
+  /**
+   * Finishes a session after its tasks were created. `items` is the final working list;
+   * created tasks are paired with items by title and the rest are marked discarded.
+   */
+  async completeSession(id: string, items: SessionItem[], createdTasks: Array<{ id: string; title: string }>): Promise<void> {
+    const session = await this.getSessionById(id);
+    if (!session || session.stage === 'completed') {
+      return;
+    }
+
+    const merged = mergeSessionItems(session.items, items);
+    const completed = completeSessionItems(merged, matchCreatedTasks(merged, createdTasks));
+
+    const database = getDatabase();
+    await database.write(async () => {
+      await session.update(s => {
+        s.itemsJson = JSON.stringify(completed);
+        s.stage = 'completed';
+        s.completedAt = new Date();
+        s.updatedAt = new Date();
+      });
+    });
+  }
+
+  /**
+   * Sessions with their items and outcome counts, newest first. Goals handed to chat are
+   * linked here once a goal with the item's title exists.
+   */
+  async getSessionViews(): Promise<BrainDumpSessionView[]> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    const sessions = await this.getSessions();
+
+    const taskIds = new Set<string>();
+    let needsGoals = false;
+    sessions.forEach(session => session.items.forEach(item => {
+      if (item.outcome?.kind === 'task') {
+        taskIds.add(item.outcome.taskId);
+      } else if (item.outcome?.kind === 'goal' && !item.outcome.goalId) {
+        needsGoals = true;
+      }
+    }));
+
+    const tasks = taskIds.size > 0
+      ? await database.get<Task>('tasks').query(Q.where('id', Q.oneOf([...taskIds]))).fetch()
+      : [];
+    const taskStatuses = new Map(
+      tasks.filter(t => t.syncState !== 'pending_delete').map(t => [t.id, t.lifecycleStatus] as [string, string])
+    );
+
+    const goalIdsByTitle = new Map<string, string>();
+    if (needsGoals) {
+      const goals = await database.get<Goal>('goals')
+        .query(Q.where('user_id', userId), Q.where('status', Q.notEq('pending_delete')))
+        .fetch();
+      goals.forEach(g => goalIdsByTitle.set(normalizeItemText(g.title), g.id));
+    }
+
+    const linked: Array<{ session: BrainDumpSession; items: SessionItem[] }> = [];
+    const views = sessions.map(session => {
+      let changed = false;
+      const items = session.items.map(item => {
+        const goalId = item.outcome?.kind === 'goal' && !item.outcome.goalId
+          ? goalIdsByTitle.get(normalizeItemText(item.text))
+          : undefined;
+        if (!goalId) {
+          return item;
+        }
+        changed = true;
+        return { ...item, outcome: { kind: 'goal', goalId } } as SessionItem;
+      });
+      if (changed) {
+        linked.push({ session, items });
+      }
+      return { session, items, summary: summarizeSession(items, taskStatuses) };
+    });
+
+    if (linked.length > 0) {
+      await database.write(async () => {
+        for (const { session, items } of linked) {
+          await session.update(s => {
+            s.itemsJson = JSON.stringify(items);
+          });
+        }
+      });
+    }
+
+    return views;
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    const session = await this.getSessionById(id);
+    if (!session) {
+      return;
+    }
+
+    const database = getDatabase();
+    await database.write(async () => {
+      await session.destroyPermanently();
+    });
+  }
+
+  // Observable query helpers
+  observeSessions(): Observable<BrainDumpSession[]> {
+    const database = getDatabase();
+    let userId: string;
+    try {
+      userId = this.getCurrentUserId();
+    } catch (error) {
+      console.error('Error retrieving user ID in observeSessions:', error);
+      return of([]);
+    }
+
+    return database.get<BrainDumpSession>('brain_dump_sessions')
+      .query(
+        Q.where('user_id', userId),
+        Q.sortBy('created_at', Q.desc)
+      )
+      .observeWithColumns(['items', 'stage']);
+  }
+}
+
+export const brainDumpSessionRepository = new BrainDumpSessionRepository();
@@ -0,0 +1,129 @@
+import { getDatabase } from '../db';
+import { Q } from '@nozbe/watermelondb';
+import CalendarEvent from '../db/models/CalendarEvent';
+import { authService } from '../services/auth';
+import { IcsOccurrence } from '../utils/ics';
+import { getDeviceTimeZone } from '../utils/dateUtils';
+import { outboxRepository } from './OutboxRepository';
+
+export interface IcsImportResult {
+  created: number;
+  updated: number;
+  unchanged: number;
+}
+
+/**
+ * CalendarEventRepository handles local calendar events that are not tied to a task.
+ *
+ * Behavioral Contract:
+ * - Events are written locally first and pushed by SyncService
+ * - Imported events are matched by their .ics UID (`ics_uid`), so importing the same file again
+ *   updates the earlier events instead of duplicating them. The UID is stored on the server too,
+ *   so events imported on another device match once they are pulled
+ * - Events the user deleted locally are not brought back by a re-import
+ */
+export class CalendarEventRepository {
+  private getCurrentUserId(): string {
+    const user = authService.getCurrentUser();
+    if (!user?.id) {
+      throw new Error('User not authenticated');
+    }
+    return user.id;
+  }
+
+  /**
+   * Gets the user's events that overlap [start, end).
+   */
+  async getEventsInRange(start: Date, end: Date): Promise<CalendarEvent[]> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    return await database.get<CalendarEvent>('calendar_events')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('status', Q.notEq('pending_delete')),
+        Q.where('start_time', Q.lt(end.getTime())),
+        Q.where('end_time', Q.gt(start.getTime())),
+        Q.sortBy('start_time', Q.asc)
+      )
+      .fetch();
+  }
+
+  /**
+   * Creates or updates events from expanded .ics occurrences in a single write.
+   * When an occurrence UID appears more than once, the last one wins.
+   */
+  async importOccurrences(occurrences: IcsOccurrence[]): Promise<IcsImportResult> {
+    const result: IcsImportResult = { created: 0, updated: 0, unchanged: 0 };
+    const byUid = new Map(occurrences.map(o => [o.uid, o]));
+    if (byUid.size === 0) {
+      return result;
+    }
+
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    const existing = await database.get<CalendarEvent>('calendar_events')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('ics_uid', Q.oneOf([...byUid.keys()]))
+      )
+      .fetch();
+    const existingByUid = new Map(existing.map(e => [e.icsUid as string, e]));
+
+    await database.write(async () => {
+      for (const occurrence of byUid.values()) {
+        const event = existingByUid.get(occurrence.uid);
+        if (event) {
+          if (event.status === 'pending_delete' || !this.hasChanges(event, occurrence)) {
+            result.unchanged++;
+            continue;
+          }
+          await event.update(e => {
+            this.applyOccurrence(e, occurrence);
+            // Preserve pending_create for events that never reached the server
+            e.status = e.status === 'pending_create' ? 'pending_create' : 'pending_update';
+            e.updatedAt = new Date();
+          });
+          await outboxRepository.enqueue('calendar_events', event.id, 'update');
+          result.updated++;
+          continue;
+        }
+
+        const created = await database.get<CalendarEvent>('calendar_events').create(e => {
+          e.userId = userId;
+          e.icsUid = occurrence.uid;
+          this.applyOccurrence(e, occurrence);
+          e.status = 'pending_create';
+          e.createdAt = new Date();
+          e.updatedAt = new Date();
+        });
+        await outboxRepository.enqueue('calendar_events', created.id, 'create');
+        result.created++;
+      }
+    });
+
+    return result;
+  }
+
+  private applyOccurrence(event: CalendarEvent, occurrence: IcsOccurrence): void {
+    event.title = occurrence.title;
+    event.description = occurrence.description;
+    event.location = occurrence.location;
+    event.startTime = occurrence.start;
+    event.endTime = occurrence.end;
+    event.isAllDay = occurrence.isAllDay;
+    // Files without a TZID were written for the zone the user imports them in
+    event.timeZone = occurrence.timeZone || event.timeZone || getDeviceTimeZone();
+  }
+
+  private hasChanges(event: CalendarEvent, occurrence: IcsOccurrence): boolean {
+    return event.title !== occurrence.title
+      || (event.description || undefined) !== occurrence.description
+      || (event.location || undefined) !== occurrence.location
+      || event.startTime.getTime() !== occurrence.start.getTime()
+      || event.endTime.getTime() !== occurrence.end.getTime()
+      || event.isAllDay !== occurrence.isAllDay
+      || (!!occurrence.timeZone && event.timeZone !== occurrence.timeZone);
+  }
+}
+
+export const calendarEventRepository = new CalendarEventRepository();
@@ -4,6 +4,7 @@ import ConversationThread from '../db/models/ConversationThread';
 import ConversationMessage from '../db/models/ConversationMessage';
 import {authService} from '../services/auth';
 import logger from '../utils/logger';
+import {outboxRepository} from './OutboxRepository';
 
 /**
  * ConversationRepository handles all conversation-related database operations.
@@ -104,7 +105,7 @@ export class ConversationRepository {
     
     try {
       return await database.write(async () => {
-        return await database.get<ConversationThread>('conversation_threads').create(thread => {
+        const created = await database.get<ConversationThread>('conversation_threads').create(thread => {
           thread.userId = userId;
           thread.title = data.title;
           thread.summary = data.summary ?? null;
@@ -114,6 +115,8 @@ export class ConversationRepository {
           thread.createdAt = new Date();
           thread.updatedAt = new Date();
         });
+        await outboxRepository.enqueue('conversation_threads', created.id, 'create');
+        return created;
       });
     } catch (error) {
       logger.error('Failed to create thread', {
@@ -143,7 +146,7 @@ export class ConversationRepository {
     
     try {
       return await database.write(async () => {
-        return await thread.update(t => {
+        const updated = await thread.update(t => {
           if (data.title !== undefined) t.title = data.title;
           if (data.summary !== undefined) t.summary = data.summary;
           if (data.isActive !== undefined) t.isActive = data.isActive;
@@ -156,6 +159,8 @@ export class ConversationRepository {
           }
           t.updatedAt = new Date();
         });
+        await outboxRepository.enqueueSyncState('conversation_threads', updated.id, updated.status);
+        return updated;
       });
     } catch (error) {
       logger.error('Failed to update thread', { 
@@ -180,6 +185,7 @@ export class ConversationRepository {
           t.status = 'pending_delete';
           t.updatedAt = new Date();
         });
+        await outboxRepository.enqueue('conversation_threads', thread.id, 'delete');
       });
     } catch (error) {
       logger.error('Failed to delete thread', { 
@@ -204,7 +210,7 @@ export class ConversationRepository {
     
     try {
       return await database.write(async () => {
-        return await database.get<ConversationMessage>('conversation_messages').create(message => {
+        const created = await database.get<ConversationMessage>('conversation_messages').create(message => {
           message.threadId = threadId;
           message.userId = userId;
           message.role = role;
@@ -221,6 +227,13 @@ export class ConversationRepository {
           message.createdAt = new Date();
           message.updatedAt = new Date();
         });
+        // Only user messages are pushed; assistant replies come from the server
+        if (role === 'user') {
+          await outboxRepository.enqueue('conversation_messages', created.id, 'create', [
+            { table: 'conversation_threads', id: threadId },
+          ]);
+        }
+        return created;
       });
     } catch (error) {
       logger.error('Failed to create message', {
@@ -246,7 +259,7 @@ export class ConversationRepository {
       const message = await database.get<ConversationMessage>('conversation_messages').find(id);
       
       return await database.write(async () => {
-        return await message.update(m => {
+        const updated = await message.update(m => {
           if (data.content !== undefined) m.content = data.content;
           if (data.metadata !== undefined) {
             m.metadata = typeof data.metadata === 'string' ? data.metadata : JSON.stringify(data.metadata);
@@ -259,6 +272,10 @@ export class ConversationRepository {
           }
           m.updatedAt = new Date();
         });
+        if (updated.role === 'user') {
+          await outboxRepository.enqueueSyncState('conversation_messages', updated.id, updated.status);
+        }
+        return updated;
       });
     } catch (error) {
       if (error instanceof Error && error.message.includes('not found')) {
@@ -402,6 +419,8 @@ export class ConversationRepository {
           });
         }
         
+        await outboxRepository.remapRecordId('conversation_threads', localId, serverId);
+
         // Delete old thread record
         await thread.destroyPermanently();
       });
@@ -0,0 +1,183 @@
+import { getDatabase } from '../db';
+import { Q } from '@nozbe/watermelondb';
+import { Observable, of } from 'rxjs';
+import DailyReflection from '../db/models/DailyReflection';
+import { authService } from '../services/auth';
+import { EodCounts, MAX_REFLECTION_NOTE_LENGTH, isReflectionScore } from '../utils/endOfDayReview';
+import { outboxRepository } from './OutboxRepository';
+
+export interface DailyReflectionInput extends EodCounts {
+  reflectionDate: string;
+  mood: number;
+  energy: number;
+  note?: string | null;
+}
+
+/**
+ * DailyReflectionRepository handles the end-of-day reflections.
+ *
+ * Behavioral Contract:
+ * - Reflections are written locally first and pushed by SyncService
+ * - There is at most one reflection per day; saving again for the same day updates it
+ * - saveReflection throws for scores outside 1-5 or an over-long note
+ */
+export class DailyReflectionRepository {
+  private getCurrentUserId(): string {
+    const user = authService.getCurrentUser();
+    if (!user?.id) {
+      throw new Error('User not authenticated');
+    }
+    return user.id;
+  }
+
+  async getReflections(): Promise<DailyReflection[]> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    return await database.get<DailyReflection>('daily_reflections')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('status', Q.notEq('pending_delete')),
+        Q.sortBy('reflection_date', Q.desc)
+      )
+      .fetch();
+  }
+
+  async getReflectionForDate(reflectionDate: string): Promise<DailyReflection | null> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    const [reflection] = await database.get<DailyReflection>('daily_reflections')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('reflection_date', reflectionDate),
+        Q.where('status', Q.notEq('pending_delete'))
+      )
+      .fetch();
+    return reflection ?? null;
+  }
+
+  /**
+   * Creates the day's reflection, or updates it when the day already has one.
+   */
+  async saveReflection(input: DailyReflectionInput): Promise<DailyReflection> {
+    if (!isReflectionScore(input.mood) || !isReflectionScore(input.energy)) {
+      throw new Error('Mood and energy must be between 1 and 5');
+    }
+    const note = input.note?.trim() || null;
+    if (note && note.length > MAX_REFLECTION_NOTE_LENGTH) {
+      throw new Error(`Note must be ${MAX_REFLECTION_NOTE_LENGTH} characters or less`);
+    }
+
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    const existing = await this.getReflectionForDate(input.reflectionDate);
+
+    return await database.write(async () => {
+      if (existing) {
+        await existing.update(r => {
+          r.mood = input.mood;
+          r.energy = input.energy;
+          r.note = note;
+          r.completedCount = input.completedCount;
+          r.rolledOverCount = input.rolledOverCount;
+          r.droppedCount = input.droppedCount;
+          // Reflections never created on the server stay as creates
+          if (r.status !== 'pending_create' && r.status !== 'sync_failed_create') {
+            r.status = 'pending_update';
+          }
+          r.updatedAt = new Date();
+        });
+        await outboxRepository.enqueue('daily_reflections', existing.id, 'update');
+        return existing;
+      }
+
+      const created = await database.get<DailyReflection>('daily_reflections').create(r => {
+        r.userId = userId;
+        r.reflectionDate = input.reflectionDate;
+        r.mood = input.mood;
+        r.energy = input.energy;
+        r.note = note;
+        r.completedCount = input.completedCount;
+        r.rolledOverCount = input.rolledOverCount;
+        r.droppedCount = input.droppedCount;
+        r.status = 'pending_create';
+        r.createdAt = new Date();
+        r.updatedAt = new Date();
+      });
+      await outboxRepository.enqueue('daily_reflections', created.id, 'create');
+      return created;
+    });
+  }
+
+  /**
+   * Moves a pushed reflection to its server ID. The server keeps one reflection per day, so the
+   * ID may belong to a copy already pulled from another device; that copy is replaced.
+   */
+  async updateReflectionServerId(localId: string, serverId: string): Promise<void> {
+    const database = getDatabase();
+    const collection = database.get<DailyReflection>('daily_reflections');
+    let localReflection: DailyReflection | null = null;
+    try {
+      localReflection = await collection.find(localId);
+    } catch {
+      return;
+    }
+
+    let pulledCopy: DailyReflection | null = null;
+    try {
+      pulledCopy = await collection.find(serverId);
+    } catch {
+      // No copy yet
+    }
+
+    try {
+      await database.write(async () => {
+        if (pulledCopy) {
+          await pulledCopy.destroyPermanently();
+        }
+        await collection.create(r => {
+          r._raw.id = serverId;
+          r._raw._status = 'synced';
+          r._raw._changed = '';
+          r.userId = localReflection.userId;
+          r.reflectionDate = localReflection.reflectionDate;
+          r.mood = localReflection.mood;
+          r.energy = localReflection.energy;
+          r.note = localReflection.note;
+          r.completedCount = localReflection.completedCount;
+          r.rolledOverCount = localReflection.rolledOverCount;
+          r.droppedCount = localReflection.droppedCount;
+          r.status = 'synced';
+          r.createdAt = localReflection.createdAt;
+          r.updatedAt = localReflection.updatedAt;
+        });
+
+        await outboxRepository.remapRecordId('daily_reflections', localId, serverId);
+        await localReflection.destroyPermanently();
+      });
+    } catch (error) {
+      throw new Error(`Failed to migrate reflection server ID: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Observable query helpers
+  observeReflections(): Observable<DailyReflection[]> {
+    const database = getDatabase();
+    let userId: string;
+    try {
+      userId = this.getCurrentUserId();
+    } catch (error) {
+      console.error('Error retrieving user ID in observeReflections:', error);
+      return of([]);
+    }
+
+    return database.get<DailyReflection>('daily_reflections')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('status', Q.notEq('pending_delete')),
+        Q.sortBy('reflection_date', Q.desc)
+      )
+      .observeWithColumns(['mood', 'energy', 'note']);
+  }
+}
+
+export const dailyReflectionRepository = new DailyReflectionRepository();
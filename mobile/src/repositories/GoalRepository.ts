@@ -7,6 +7,9 @@ import Milestone from '../db/models/Milestone';
 import MilestoneStep from '../db/models/MilestoneStep';
 import Task from '../db/models/Task';
 import { authService } from '../services/auth';
+import { goalToSnapshot, serializeSnapshot } from '../utils/syncMerge';
+import { computeGoalProgress, GoalProgress } from '../utils/goalProgress';
+import { outboxRepository } from './OutboxRepository';
 
 // Custom error classes for domain-specific errors
 export class NotFoundError extends Error {
@@ -86,7 +89,7 @@ export class GoalRepository {
     const userId = this.getCurrentUserId();
 
     return await database.write(async () => {
-      return await database.get<Goal>('goals').create(goal => {
+      const created = await database.get<Goal>('goals').create(goal => {
         goal.title = data.title;
         goal.description = data.description;
         goal.targetCompletionDate = data.targetCompletionDate;
@@ -98,6 +101,8 @@ export class GoalRepository {
         goal.createdAt = new Date();
         goal.updatedAt = new Date();
       });
+      await outboxRepository.enqueue('goals', created.id, 'create');
+      return created;
     });
   }
 
@@ -114,7 +119,7 @@ export class GoalRepository {
     if (!goal) throw new Error('Goal not found');
 
     return await database.write(async () => {
-      return await goal.update(g => {
+      const updated = await goal.update(g => {
         if (data.title !== undefined) g.title = data.title;
         if (data.description !== undefined) g.description = data.description;
         if (data.targetCompletionDate !== undefined) g.targetCompletionDate = data.targetCompletionDate;
@@ -124,6 +129,8 @@ export class GoalRepository {
         g.status = 'pending_update';
         g.updatedAt = new Date();
       });
+      await outboxRepository.enqueue('goals', updated.id, 'update');
+      return updated;
     });
   }
 
@@ -137,6 +144,7 @@ export class GoalRepository {
         g.status = 'pending_delete';
         g.updatedAt = new Date();
       });
+      await outboxRepository.enqueue('goals', goal.id, 'delete');
     });
   }
 
@@ -170,6 +178,7 @@ export class GoalRepository {
         g.createdAt = new Date();
         g.updatedAt = new Date();
       });
+      await outboxRepository.enqueue('goals', goal.id, 'create');
 
       // Create Milestones and Steps
       for (let i = 0; i < milestones.length; i++) {
@@ -184,11 +193,12 @@ export class GoalRepository {
           m.createdAt = new Date();
           m.updatedAt = new Date();
         });
+        await outboxRepository.enqueue('milestones', milestone.id, 'create', [{ table: 'goals', id: goal.id }]);
 
         if (mData.steps) {
           for (let j = 0; j < mData.steps.length; j++) {
             const sData = mData.steps[j];
-            await database.get<MilestoneStep>('milestone_steps').create(s => {
+            const step = await database.get<MilestoneStep>('milestone_steps').create(s => {
               s.milestoneId = milestone.id;
               s.text = sData.text;
               s.completed = false;
@@ -197,6 +207,7 @@ export class GoalRepository {
               s.createdAt = new Date();
               s.updatedAt = new Date();
             });
+            await outboxRepository.enqueue('milestone_steps', step.id, 'create', [{ table: 'milestones', id: milestone.id }]);
           }
         }
       }
@@ -220,7 +231,7 @@ export class GoalRepository {
     }
 
     return await database.write(async () => {
-      return await database.get<Milestone>('milestones').create(milestone => {
+      const created = await database.get<Milestone>('milestones').create(milestone => {
         milestone.goalId = goalId;
         milestone.title = data.title;
         milestone.description = data.description;
@@ -230,6 +241,9 @@ export class GoalRepository {
         milestone.createdAt = new Date();
         milestone.updatedAt = new Date();
       });
+      await outboxRepository.enqueue('milestones', created.id, 'create', [{ table: 'goals', id: goalId }]);
+      await this.recalculateGoalProgress(goalId);
+      return created;
     });
   }
 
@@ -248,7 +262,7 @@ export class GoalRepository {
     }
 
     return await database.write(async () => {
-      return await milestone.update(m => {
+      const updated = await milestone.update(m => {
         if (data.title !== undefined) m.title = data.title;
         if (data.description !== undefined) m.description = data.description;
         if (data.completed !== undefined) m.completed = data.completed;
@@ -256,6 +270,9 @@ export class GoalRepository {
         m.status = 'pending_update';
         m.updatedAt = new Date();
       });
+      await outboxRepository.enqueue('milestones', updated.id, 'update', [{ table: 'goals', id: updated.goalId }]);
+      await this.recalculateGoalProgress(updated.goalId);
+      return updated;
     });
   }
 
@@ -351,6 +368,8 @@ export class GoalRepository {
           m.status = 'pending_delete';
           m.updatedAt = new Date();
         });
+        await outboxRepository.enqueue('milestones', milestone.id, 'delete');
+        await this.recalculateGoalProgress(milestone.goalId);
       });
     } catch (error) {
       // Handle WatermelonDB "not found" errors - return gracefully (idempotent)
@@ -386,7 +405,7 @@ export class GoalRepository {
     }
 
     return await database.write(async () => {
-      return await database.get<MilestoneStep>('milestone_steps').create(step => {
+      const created = await database.get<MilestoneStep>('milestone_steps').create(step => {
         step.milestoneId = milestoneId;
         step.text = data.text;
         step.completed = false;
@@ -395,6 +414,9 @@ export class GoalRepository {
         step.createdAt = new Date();
         step.updatedAt = new Date();
       });
+      await outboxRepository.enqueue('milestone_steps', created.id, 'create', [{ table: 'milestones', id: milestoneId }]);
+      await this.recalculateGoalProgress(milestone.goalId);
+      return created;
     });
   }
 
@@ -421,13 +443,16 @@ export class GoalRepository {
 
       // Perform the database write operation
       return await database.write(async () => {
-        return await step.update(s => {
+        const updated = await step.update(s => {
           if (data.text !== undefined) s.text = data.text;
           if (data.completed !== undefined) s.completed = data.completed;
           if (data.order !== undefined) s.order = data.order;
           s.status = 'pending_update';
           s.updatedAt = new Date();
         });
+        await outboxRepository.enqueue('milestone_steps', updated.id, 'update', [{ table: 'milestones', id: updated.milestoneId }]);
+        await this.recalculateGoalProgress(milestone.goalId);
+        return updated;
       });
     } catch (error) {
       // Handle WatermelonDB "not found" errors
@@ -472,6 +497,8 @@ export class GoalRepository {
           s.status = 'pending_delete';
           s.updatedAt = new Date();
         });
+        await outboxRepository.enqueue('milestone_steps', step.id, 'delete');
+        await this.recalculateGoalProgress(milestone.goalId);
       });
     } catch (error) {
       // Handle WatermelonDB "not found" errors - return gracefully (idempotent)
@@ -544,6 +571,8 @@ export class GoalRepository {
           });
         }
 
+        await outboxRepository.remapRecordId('milestones', localId, serverId);
+
         // Remove the old milestone record
         await localMilestone.destroyPermanently();
       });
@@ -604,6 +633,7 @@ export class GoalRepository {
           g.isActive = localGoal.isActive;
           g.userId = localGoal.userId;
           g.status = 'synced';
+          g.baseSnapshot = serializeSnapshot(goalToSnapshot(g));
           g.createdAt = localGoal.createdAt;
           g.updatedAt = localGoal.updatedAt;
         });
@@ -622,6 +652,8 @@ export class GoalRepository {
           });
         }
 
+        await outboxRepository.remapRecordId('goals', localId, serverId);
+
         // Remove the old goal record
         await localGoal.destroyPermanently();
       });
@@ -630,6 +662,66 @@ export class GoalRepository {
     }
   }
 
+  /**
+   * Recomputes a goal's stored progress from its milestones, steps and linked tasks, and queues
+   * the goal for sync when the value changed. The stored field only exists so the server sees
+   * progress; the UI reads it through observeGoalProgress.
+   * NOTE: Must be called inside the caller's database.write() block.
+   */
+  async recalculateGoalProgress(goalId: string): Promise<void> {
+    const database = getDatabase();
+
+    let goal: Goal;
+    try {
+      goal = await database.get<Goal>('goals').find(goalId);
+    } catch {
+      return;
+    }
+    if (goal.status === 'pending_delete') {
+      return;
+    }
+
+    const [milestones, steps, tasks] = await Promise.all([
+      this.queryProgressMilestones(goalId).fetch(),
+      this.queryProgressSteps(goalId).fetch(),
+      this.queryProgressTasks(goalId).fetch(),
+    ]);
+    const { percentage } = computeGoalProgress(milestones, steps, tasks);
+    if (goal.progressPercentage === percentage) {
+      return;
+    }
+
+    await goal.update(g => {
+      g.progressPercentage = percentage;
+      if (g.status !== 'pending_create') {
+        g.status = 'pending_update';
+      }
+      g.updatedAt = new Date();
+    });
+    await outboxRepository.enqueueSyncState('goals', goal.id, goal.status);
+  }
+
+  private queryProgressMilestones(goalId: string) {
+    return getDatabase().get<Milestone>('milestones').query(
+      Q.where('goal_id', goalId),
+      Q.where('status', Q.notEq('pending_delete'))
+    );
+  }
+
+  private queryProgressSteps(goalId: string) {
+    return getDatabase().get<MilestoneStep>('milestone_steps').query(
+      Q.on('milestones', 'goal_id', goalId),
+      Q.where('status', Q.notEq('pending_delete'))
+    );
+  }
+
+  private queryProgressTasks(goalId: string) {
+    return getDatabase().get<Task>('tasks').query(
+      Q.where('goal_id', goalId),
+      Q.where('sync_state', Q.notEq('pending_delete'))
+    );
+  }
+
   // Observable query helpers for use with withObservables
   observeAllGoals() {
     const database = getDatabase();
@@ -710,6 +802,19 @@ export class GoalRepository {
       return of([]);
     }
   }
+  /**
+   * Emits a goal's progress, derived from its milestones, steps and linked tasks, whenever any
+   * of them change. This is the value to show; the goal's stored progressPercentage may lag.
+   */
+  observeGoalProgress(goalId: string): Observable<GoalProgress> {
+    return combineLatest([
+      this.queryProgressMilestones(goalId).observeWithColumns(['completed']),
+      this.queryProgressSteps(goalId).observeWithColumns(['completed']),
+      this.queryProgressTasks(goalId).observeWithColumns(['lifecycle_status']),
+    ]).pipe(
+      map(([milestones, steps, tasks]) => computeGoalProgress(milestones, steps, tasks))
+    );
+  }
 }
 
 export const goalRepository = new GoalRepository();
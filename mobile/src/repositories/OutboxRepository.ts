@@ -0,0 +1,330 @@
+import { getDatabase } from '../db';
+import { Q } from '@nozbe/watermelondb';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import OutboxOperation from '../db/models/OutboxOperation';
+import { authService } from '../services/auth';
+import logger from '../utils/logger';
+import {
+  OUTBOX_TABLES,
+  OutboxOperationType,
+  OutboxParent,
+  OutboxTable,
+  coalesceOperation,
+  generateIdempotencyKey,
+  getRetryDelayMs,
+  isOperationDue,
+  operationFromSyncState,
+  parseDependencies,
+  serializeDependencies,
+} from '../utils/outbox';
+import { TableCounts, countByTable, describeSyncError } from '../utils/syncStatus';
+
+// Set once rows that were dirty before the outbox existed have been queued
+const OUTBOX_ADOPTED_KEY = 'sync_outbox_adopted';
+
+/**
+ * OutboxRepository records local changes as ordered operations for SyncService to push.
+ *
+ * Behavioral Contract:
+ * - Repositories call enqueue() inside the write that marks a record dirty, so the change and
+ *   its operation are saved together
+ * - A record has at most one queued operation; later changes fold into it and bump its revision
+ * - Operations are pushed in sequence order, and wait while an operation they depend on is queued
+ * - Each operation keeps its idempotency key across retries, so a create that reached the server
+ *   but lost its response is not duplicated
+ * - Failed operations are retried with an exponential backoff
+ */
+export class OutboxRepository {
+  private lastSequence = 0;
+
+  private getCurrentUserId(): string | null {
+    return authService.getCurrentUser()?.id ?? null;
+  }
+
+  private nextSequence(): number {
+    this.lastSequence = Math.max(Date.now(), this.lastSequence + 1);
+    return this.lastSequence;
+  }
+
+  private async findOperation(tableName: string, recordId: string): Promise<OutboxOperation | null> {
+    const database = getDatabase();
+    const operations = await database.get<OutboxOperation>('sync_outbox')
+      .query(Q.where('table_name', tableName), Q.where('record_id', recordId))
+      .fetch();
+    return operations.length > 0 ? operations[0] : null;
+  }
+
+  /**
+   * IDs of the queued creates of the given parents. A parent already on the server adds nothing.
+   */
+  private async findParentCreates(parents: OutboxParent[]): Promise<string[]> {
+    const ids: string[] = [];
+    for (const parent of parents) {
+      if (!parent.id) {
+        continue;
+      }
+      const operation = await this.findOperation(parent.table, parent.id);
+      if (operation?.operation === 'create') {
+        ids.push(operation.id);
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * The idempotency key of a record's queued operation, for pushes that handle several records at once.
+   */
+  async getIdempotencyKey(tableName: OutboxTable, recordId: string): Promise<string | undefined> {
+    return (await this.findOperation(tableName, recordId))?.idempotencyKey;
+  }
+
+  /**
+   * Queues a local change, folding it into the record's queued operation if there is one.
+   * NOTE: Must be called inside the caller's database.write() block.
+   * @param parents - Records that must reach the server before this one, e.g. the goal of a task
+   */
+  async enqueue(
+    tableName: OutboxTable,
+    recordId: string,
+    operation: OutboxOperationType,
+    parents: OutboxParent[] = []
+  ): Promise<OutboxOperation> {
+    const database = getDatabase();
+    const dependsOn = await this.findParentCreates(parents);
+    const queued = await this.findOperation(tableName, recordId);
+
+    if (queued) {
+      return await queued.update(op => {
+        op.operation = coalesceOperation(op.operation as OutboxOperationType, operation);
+        op.dependsOn = serializeDependencies([...parseDependencies(op.dependsOn), ...dependsOn]);
+        op.revision = (op.revision || 0) + 1;
+        // A fresh change is worth trying again right away
+        op.attemptCount = 0;
+        op.nextAttemptAt = undefined;
+        op.lastError = undefined;
+        op.updatedAt = new Date();
+      });
+    }
+
+    return await database.get<OutboxOperation>('sync_outbox').create(op => {
+      op.userId = this.getCurrentUserId() || '';
+      op.tableName = tableName;
+      op.recordId = recordId;
+      op.operation = operation;
+      op.sequence = this.nextSequence();
+      op.idempotencyKey = generateIdempotencyKey();
+      op.dependsOn = serializeDependencies(dependsOn);
+      op.revision = 1;
+      op.attemptCount = 0;
+      op.createdAt = new Date();
+      op.updatedAt = new Date();
+    });
+  }
+
+  /**
+   * Queues the change a record's sync state asks for, e.g. 'pending_update'. Synced records are skipped.
+   * NOTE: Must be called inside the caller's database.write() block.
+   */
+  async enqueueSyncState(
+    tableName: OutboxTable,
+    recordId: string,
+    syncState: string | null | undefined,
+    parents: OutboxParent[] = []
+  ): Promise<OutboxOperation | null> {
+    const operation = operationFromSyncState(syncState);
+    if (!operation) {
+      return null;
+    }
+    return await this.enqueue(tableName, recordId, operation, parents);
+  }
+
+  /**
+   * Operations ready to push, in the order they were queued. Operations in backoff are skipped.
+   */
+  async getDueOperations(now: Date = new Date()): Promise<OutboxOperation[]> {
+    const database = getDatabase();
+    const operations = await database.get<OutboxOperation>('sync_outbox')
+      .query(Q.sortBy('sequence', Q.asc))
+      .fetch();
+    return operations.filter(op => isOperationDue(op.nextAttemptAt, now));
+  }
+
+  /**
+   * IDs of every queued operation, including those waiting out a backoff.
+   */
+  async getQueuedOperationIds(): Promise<Set<string>> {
+    const database = getDatabase();
+    const operations = await database.get<OutboxOperation>('sync_outbox').query().fetch();
+    return new Set(operations.map(op => op.id));
+  }
+
+  async getPendingCount(): Promise<number> {
+    const userId = this.getCurrentUserId();
+    if (!userId) {
+      return 0;
+    }
+    try {
+      const database = getDatabase();
+      return await database.get<OutboxOperation>('sync_outbox')
+        .query(Q.where('user_id', userId))
+        .fetchCount();
+    } catch (error) {
+      logger.error('Failed to count outbox operations', { error: error instanceof Error ? error.message : 'Unknown error' });
+      return 0;
+    }
+  }
+
+  /**
+   * Queued operations per table, for the sync status.
+   */
+  async getPendingCountsByTable(): Promise<TableCounts> {
+    const userId = this.getCurrentUserId();
+    if (!userId) {
+      return {};
+    }
+    const database = getDatabase();
+    const operations = await database.get<OutboxOperation>('sync_outbox')
+      .query(Q.where('user_id', userId))
+      .fetch();
+    return countByTable(operations.map(op => op.tableName));
+  }
+
+  /**
+   * Operations that have failed at least once, in the order they were queued.
+   */
+  async getFailedOperations(): Promise<OutboxOperation[]> {
+    const database = getDatabase();
+    return await database.get<OutboxOperation>('sync_outbox')
+      .query(Q.where('attempt_count', Q.gt(0)), Q.sortBy('sequence', Q.asc))
+      .fetch();
+  }
+
+  async getOperation(operationId: string): Promise<OutboxOperation | null> {
+    const database = getDatabase();
+    const operations = await database.get<OutboxOperation>('sync_outbox')
+      .query(Q.where('id', operationId))
+      .fetch();
+    return operations.length > 0 ? operations[0] : null;
+  }
+
+  /**
+   * Whether other queued operations wait on this one, e.g. tasks created under an offline-created goal.
+   */
+  async hasDependents(operationId: string): Promise<boolean> {
+    const database = getDatabase();
+    const operations = await database.get<OutboxOperation>('sync_outbox').query().fetch();
+    return operations.some(op => parseDependencies(op.dependsOn).includes(operationId));
+  }
+
+  /**
+   * Makes a failed operation due again without waiting out its backoff.
+   */
+  async retryNow(operation: OutboxOperation): Promise<void> {
+    const database = getDatabase();
+    await database.write(async () => {
+      await operation.update(op => {
+        op.nextAttemptAt = undefined;
+        op.updatedAt = new Date();
+      });
+    });
+  }
+
+  /**
+   * Drops an operation without pushing it.
+   * NOTE: Must be called inside the caller's database.write() block.
+   */
+  async remove(operation: OutboxOperation): Promise<void> {
+    await operation.destroyPermanently();
+  }
+
+  /**
+   * Removes a pushed operation.
+   * If the record changed while it was being pushed, the operation stays queued for the newer
+   * revision; a create that reached the server becomes an update.
+   * @param revision - The revision that was pushed
+   * @returns Whether the operation left the queue
+   */
+  async complete(operation: OutboxOperation, revision: number): Promise<boolean> {
+    const database = getDatabase();
+    return await database.write(async () => {
+      if (operation.revision !== revision) {
+        await operation.update(op => {
+          if (op.operation === 'create') {
+            op.operation = 'update';
+          }
+          op.attemptCount = 0;
+          op.nextAttemptAt = undefined;
+          op.lastError = undefined;
+          op.updatedAt = new Date();
+        });
+        return false;
+      }
+      await operation.destroyPermanently();
+      return true;
+    });
+  }
+
+  /**
+   * Records a failed attempt and schedules the next one.
+   */
+  async fail(operation: OutboxOperation, error: any): Promise<void> {
+    const database = getDatabase();
+    const attemptCount = (operation.attemptCount || 0) + 1;
+
+    await database.write(async () => {
+      await operation.update(op => {
+        op.attemptCount = attemptCount;
+        op.nextAttemptAt = new Date(Date.now() + getRetryDelayMs(attemptCount));
+        op.lastError = describeSyncError(error);
+        op.updatedAt = new Date();
+      });
+    });
+  }
+
+  /**
+   * Points the queued operation of a record at its new ID after a local-to-server ID migration.
+   * NOTE: Must be called inside the caller's database.write() block.
+   */
+  async remapRecordId(tableName: OutboxTable, localId: string, serverId: string): Promise<void> {
+    const operation = await this.findOperation(tableName, localId);
+    if (!operation) {
+      return;
+    }
+    await operation.update(op => {
+      op.recordId = serverId;
+      op.updatedAt = new Date();
+    });
+  }
+
+  /**
+   * Queues rows that were left unsynced before the outbox existed. Runs once per install.
+   */
+  async adoptUntrackedChanges(): Promise<void> {
+    if (await AsyncStorage.getItem(OUTBOX_ADOPTED_KEY)) {
+      return;
+    }
+
+    const database = getDatabase();
+    await database.write(async () => {
+      for (const tableName of OUTBOX_TABLES) {
+        const stateColumn = tableName === 'tasks' ? 'sync_state' : 'status';
+        const conditions = [Q.where(stateColumn, Q.notEq('synced'))];
+        if (tableName === 'conversation_messages') {
+          // Assistant messages are created by the server
+          conditions.push(Q.where('role', 'user'));
+        }
+        const records = await database.get(tableName).query(...conditions).fetch();
+
+        for (const record of records) {
+          if (!(await this.findOperation(tableName, record.id))) {
+            await this.enqueueSyncState(tableName, record.id, (record._raw as any)[stateColumn]);
+          }
+        }
+      }
+    });
+
+    await AsyncStorage.setItem(OUTBOX_ADOPTED_KEY, 'true');
+  }
+}
+
+export const outboxRepository = new OutboxRepository();
@@ -0,0 +1,513 @@
+import { getDatabase } from '../db';
+import { Q } from '@nozbe/watermelondb';
+import { combineLatest, Observable, of } from 'rxjs';
+import { map } from 'rxjs/operators';
+import Routine from '../db/models/Routine';
+import RoutineCompletion from '../db/models/RoutineCompletion';
+import { authService } from '../services/auth';
+import type { CreateRoutinePayload, Routine as RoutineView } from '../services/routineService';
+import logger from '../utils/logger';
+import { outboxRepository } from './OutboxRepository';
+import {
+  RoutineCompletionEntry,
+  RoutineStreakState,
+  applyCompletion,
+  applyReset,
+  applyUndo,
+  getPeriodBounds,
+  getPeriodStatus,
+  resolveStreak,
+} from '../utils/routineStreak';
+
+export interface RoutineCelebration {
+  type: 'overachiever' | 'streak_increment';
+  message: string;
+}
+
+const TIME_WINDOWS = ['morning', 'afternoon', 'evening', 'anytime'];
+const REMINDER_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)(:([0-5]\d))?$/;
+
+// Routine columns that feed the view; routines are re-emitted when any of them change
+const OBSERVED_COLUMNS = [
+  'title', 'description', 'target_count', 'time_window', 'icon', 'color', 'reminder_enabled',
+  'reminder_time', 'current_streak', 'longest_streak', 'total_completions', 'grace_periods_remaining',
+  'grace_period_used_at', 'last_completed_at', 'last_streak_increment_period',
+];
+
+const toEntries = (completions: RoutineCompletion[]): RoutineCompletionEntry[] =>
+  completions.map(c => ({ completedAt: c.completedAt, periodDate: c.periodDate }));
+
+const toStreakState = (routine: Routine): RoutineStreakState => ({
+  currentStreak: routine.currentStreak || 0,
+  longestStreak: routine.longestStreak || 0,
+  totalCompletions: routine.totalCompletions || 0,
+  gracePeriodsRemaining: routine.gracePeriodsRemaining || 0,
+  gracePeriodUsedAt: routine.gracePeriodUsedAt ?? null,
+  lastCompletedAt: routine.lastCompletedAt ?? null,
+  lastStreakIncrementPeriod: routine.lastStreakIncrementPeriod ?? null,
+});
+
+const writeStreakState = (r: Routine, state: RoutineStreakState) => {
+  r.currentStreak = state.currentStreak;
+  r.longestStreak = state.longestStreak;
+  r.totalCompletions = state.totalCompletions;
+  r.gracePeriodsRemaining = state.gracePeriodsRemaining;
+  r.gracePeriodUsedAt = state.gracePeriodUsedAt ?? undefined;
+  r.lastCompletedAt = state.lastCompletedAt ?? undefined;
+  r.lastStreakIncrementPeriod = state.lastStreakIncrementPeriod ?? undefined;
+};
+
+// Latest first, matching the server's undo order
+const byMostRecent = (a: RoutineCompletion, b: RoutineCompletion) =>
+  b.completedAt.getTime() - a.completedAt.getTime() || b.occurrenceIndex - a.occurrenceIndex;
+
+/**
+ * RoutineRepository handles routine and routine completion database operations.
+ *
+ * Behavioral Contract:
+ * - Routines and completions are written locally first and pushed by SyncService
+ * - Streaks, grace periods and period_status are computed locally in the routine's time zone (see utils/routineStreak)
+ *   and replaced by the server's values once completions are pushed
+ * - Modifying operations throw "Routine not found" for unknown or foreign routines
+ * - Read operations return routines in the `Routine` shape used by the routine screens
+ */
+export class RoutineRepository {
+  private getCurrentUserId(): string {
+    const user = authService.getCurrentUser();
+    if (!user?.id) {
+      throw new Error('User not authenticated');
+    }
+    return user.id;
+  }
+
+  /**
+   * Builds the screen-facing routine, resolving stale streaks and the current period status.
+   */
+  toRoutineView(routine: Routine, completions: RoutineCompletion[], now: Date = new Date()): RoutineView {
+    const state = resolveStreak(routine.frequencyType, toStreakState(routine), now, routine.timezone);
+
+    return {
+      id: routine.id,
+      user_id: routine.userId,
+      title: routine.title,
+      description: routine.description,
+      frequency_type: routine.frequencyType,
+      target_count: routine.targetCount,
+      time_window: routine.timeWindow,
+      icon: routine.icon || '📌',
+      color: routine.color || '#6366F1',
+      is_active: routine.isActive,
+      reminder_enabled: routine.reminderEnabled,
+      reminder_time: routine.reminderTime,
+      timezone: routine.timezone,
+      current_streak: state.currentStreak,
+      longest_streak: state.longestStreak,
+      total_completions: state.totalCompletions,
+      grace_periods_remaining: state.gracePeriodsRemaining,
+      grace_period_used_at: state.gracePeriodUsedAt,
+      last_completed_at: state.lastCompletedAt?.toISOString() ?? null,
+      last_streak_increment_period: state.lastStreakIncrementPeriod,
+      created_at: routine.createdAt?.toISOString(),
+      updated_at: routine.updatedAt?.toISOString(),
+      period_status: getPeriodStatus(routine.frequencyType, routine.targetCount, toEntries(completions), now, routine.timezone),
+    };
+  }
+
+  async getAllRoutines(): Promise<Routine[]> {
+    try {
+      const database = getDatabase();
+      const userId = this.getCurrentUserId();
+      return await database.get<Routine>('routines')
+        .query(
+          Q.where('user_id', userId),
+          Q.where('is_active', true),
+          Q.where('status', Q.notEq('pending_delete')),
+          Q.sortBy('created_at', Q.desc)
+        )
+        .fetch();
+    } catch (error) {
+      logger.error('Failed to fetch all routines', { error: error instanceof Error ? error.message : 'Unknown error' });
+      return [];
+    }
+  }
+
+  async getRoutineById(id: string): Promise<Routine | null> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+
+    try {
+      const routine = await database.get<Routine>('routines').find(id);
+      if (!routine || routine.userId !== userId || routine.status === 'pending_delete') {
+        return null;
+      }
+      return routine;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Gets a routine's completions, excluding ones removed locally but not yet pushed.
+   */
+  async getCompletionsForRoutine(routineId: string): Promise<RoutineCompletion[]> {
+    const database = getDatabase();
+    const completions = await database.get<RoutineCompletion>('routine_completions')
+      .query(
+        Q.where('routine_id', routineId),
+        Q.where('status', Q.notEq('pending_delete'))
+      )
+      .fetch();
+    return completions.sort(byMostRecent);
+  }
+
+  async getRoutines(): Promise<RoutineView[]> {
+    const routines = await this.getAllRoutines();
+    const now = new Date();
+    return await Promise.all(routines.map(async routine =>
+      this.toRoutineView(routine, await this.getCompletionsForRoutine(routine.id), now)
+    ));
+  }
+
+  private async getRoutineOrThrow(id: string): Promise<Routine> {
+    const routine = await this.getRoutineById(id);
+    if (!routine) {
+      throw new Error('Routine not found');
+    }
+    return routine;
+  }
+
+  private validatePayload(payload: Partial<CreateRoutinePayload>): void {
+    if (payload.title !== undefined) {
+      if (typeof payload.title !== 'string' || payload.title.trim() === '') {
+        throw new Error('Title is required');
+      }
+      if (payload.title.length > 100) {
+        throw new Error('Title must be 100 characters or less');
+      }
+    }
+    if (payload.target_count !== undefined
+      && (!Number.isInteger(payload.target_count) || payload.target_count < 1 || payload.target_count > 10)) {
+      throw new Error('target_count must be an integer between 1 and 10');
+    }
+    if (payload.time_window !== undefined && !TIME_WINDOWS.includes(payload.time_window)) {
+      throw new Error('Invalid time_window. Must be morning, afternoon, evening, or anytime');
+    }
+    if (payload.reminder_time && !REMINDER_TIME_PATTERN.test(payload.reminder_time)) {
+      throw new Error('Invalid reminder_time format. Use HH:mm or HH:mm:ss');
+    }
+  }
+
+  async createRoutine(payload: CreateRoutinePayload): Promise<RoutineView> {
+    this.validatePayload({ ...payload, title: payload.title ?? '' });
+
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+
+    const routine = await database.write(async () => {
+      const created = await database.get<Routine>('routines').create(r => {
+        r.userId = userId;
+        r.title = payload.title.trim();
+        r.description = payload.description;
+        r.frequencyType = payload.frequency_type || 'daily';
+        r.targetCount = payload.target_count || 1;
+        r.timeWindow = payload.time_window || 'anytime';
+        r.icon = payload.icon || '📌';
+        r.color = payload.color || '#6366F1';
+        r.isActive = true;
+        r.reminderEnabled = payload.reminder_enabled === undefined ? true : payload.reminder_enabled;
+        r.reminderTime = payload.reminder_time;
+        r.timezone = payload.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+        r.currentStreak = 0;
+        r.longestStreak = 0;
+        r.totalCompletions = 0;
+        r.gracePeriodsRemaining = 1;
+        r.status = 'pending_create';
+        r.createdAt = new Date();
+        r.updatedAt = new Date();
+      });
+      await outboxRepository.enqueue('routines', created.id, 'create');
+      return created;
+    });
+
+    return this.toRoutineView(routine, []);
+  }
+
+  /**
+   * Updates routine settings. frequency_type cannot change once created, as on the server.
+   */
+  async updateRoutine(id: string, payload: Partial<CreateRoutinePayload>): Promise<RoutineView> {
+    this.validatePayload(payload);
+
+    const database = getDatabase();
+    const routine = await this.getRoutineOrThrow(id);
+
+    await database.write(async () => {
+      await routine.update(r => {
+        if (payload.title !== undefined) { r.title = payload.title.trim(); }
+        if (payload.description !== undefined) { r.description = payload.description; }
+        if (payload.target_count !== undefined) { r.targetCount = payload.target_count; }
+        if (payload.time_window !== undefined) { r.timeWindow = payload.time_window; }
+        if (payload.icon !== undefined) { r.icon = payload.icon; }
+        if (payload.color !== undefined) { r.color = payload.color; }
+        if (payload.reminder_enabled !== undefined) { r.reminderEnabled = payload.reminder_enabled; }
+        if (payload.reminder_time !== undefined) { r.reminderTime = payload.reminder_time; }
+        if (payload.timezone !== undefined) { r.timezone = payload.timezone; }
+        // Routines never created on the server stay as creates
+        if (r.status !== 'pending_create' && r.status !== 'sync_failed_create') {
+          r.status = 'pending_update';
+        }
+        r.updatedAt = new Date();
+      });
+      await outboxRepository.enqueue('routines', routine.id, 'update');
+    });
+
+    return this.toRoutineView(routine, await this.getCompletionsForRoutine(id));
+  }
+
+  /**
+   * Deletes a routine. Routines that never reached the server are removed immediately,
+   * others are marked pending_delete and removed after the push.
+   */
+  async deleteRoutine(id: string): Promise<void> {
+    const database = getDatabase();
+    const routine = await this.getRoutineById(id);
+    if (!routine) { return; }
+
+    const completions = await database.get<RoutineCompletion>('routine_completions')
+      .query(Q.where('routine_id', id))
+      .fetch();
+
+    await database.write(async () => {
+      if (routine.status === 'pending_create' || routine.status === 'sync_failed_create') {
+        for (const completion of completions) {
+          await completion.destroyPermanently();
+        }
+        await routine.destroyPermanently();
+        return;
+      }
+      await routine.update(r => {
+        r.status = 'pending_delete';
+        r.updatedAt = new Date();
+      });
+      await outboxRepository.enqueue('routines', routine.id, 'delete');
+    });
+  }
+
+  /**
+   * Logs a completion for the current period and updates the streak locally.
+   */
+  async logCompletion(id: string, notes?: string): Promise<{ routine: RoutineView; celebration: RoutineCelebration | null }> {
+    const database = getDatabase();
+    const routine = await this.getRoutineOrThrow(id);
+    const now = new Date();
+    const { periodDate } = getPeriodBounds(routine.frequencyType, now, routine.timezone);
+    const existing = await this.getCompletionsForRoutine(id);
+
+    // Include completions removed locally so the index stays unique until they are pushed
+    const periodCompletions = await database.get<RoutineCompletion>('routine_completions')
+      .query(Q.where('routine_id', id), Q.where('period_date', periodDate))
+      .fetch();
+    const occurrenceIndex = periodCompletions.reduce((max, c) => Math.max(max, c.occurrenceIndex || 0), 0) + 1;
+
+    const inPeriod = existing.filter(c => c.periodDate === periodDate).length;
+    const result = applyCompletion(routine.frequencyType, routine.targetCount, toStreakState(routine), inPeriod, now, routine.timezone);
+
+    const completion = await database.write(async () => {
+      const created = await database.get<RoutineCompletion>('routine_completions').create(c => {
+        c.routineId = routine.id;
+        c.userId = routine.userId;
+        c.completedAt = now;
+        c.periodDate = periodDate;
+        c.notes = notes;
+        c.occurrenceIndex = occurrenceIndex;
+        c.status = 'pending_create';
+        c.createdAt = now;
+        c.updatedAt = now;
+      });
+      await outboxRepository.enqueue('routine_completions', created.id, 'create', [{ table: 'routines', id: routine.id }]);
+      await routine.update(r => {
+        writeStreakState(r, result.state);
+        r.updatedAt = now;
+      });
+      return created;
+    });
+
+    const celebration: RoutineCelebration | null = result.completionsCount > routine.targetCount
+      ? { type: 'overachiever', message: 'Extra credit!' }
+      : result.streakIncremented
+        ? { type: 'streak_increment', message: 'Streak kept!' }
+        : null;
+
+    return { routine: this.toRoutineView(routine, [completion, ...existing], now), celebration };
+  }
+
+  /**
+   * Removes the most recent completion and rolls back the streak if needed.
+   */
+  async undoCompletion(id: string): Promise<RoutineView> {
+    const database = getDatabase();
+    const routine = await this.getRoutineOrThrow(id);
+    const [latest, ...remaining] = await this.getCompletionsForRoutine(id);
+    if (!latest) {
+      throw new Error('No completions to undo');
+    }
+
+    const state = applyUndo(
+      routine.targetCount,
+      toStreakState(routine),
+      { completedAt: latest.completedAt, periodDate: latest.periodDate },
+      toEntries(remaining)
+    );
+
+    await database.write(async () => {
+      await this.removeCompletion(latest);
+      await routine.update(r => {
+        writeStreakState(r, state);
+        r.updatedAt = new Date();
+      });
+    });
+
+    return this.toRoutineView(routine, remaining);
+  }
+
+  /**
+   * Removes all completions in the current period.
+   */
+  async resetCompletions(id: string): Promise<RoutineView> {
+    const database = getDatabase();
+    const routine = await this.getRoutineOrThrow(id);
+    const { periodDate } = getPeriodBounds(routine.frequencyType, new Date(), routine.timezone);
+    const completions = await this.getCompletionsForRoutine(id);
+    const removed = completions.filter(c => c.periodDate === periodDate);
+    const remaining = completions.filter(c => c.periodDate !== periodDate);
+
+    if (removed.length === 0) {
+      return this.toRoutineView(routine, completions);
+    }
+
+    const state = applyReset(toStreakState(routine), periodDate, removed.length, toEntries(remaining));
+
+    await database.write(async () => {
+      for (const completion of removed) {
+        await this.removeCompletion(completion);
+      }
+      await routine.update(r => {
+        writeStreakState(r, state);
+        r.updatedAt = new Date();
+      });
+    });
+
+    return this.toRoutineView(routine, remaining);
+  }
+
+  /**
+   * Completions not yet on the server are dropped; synced ones wait for the push.
+   * Must be called inside database.write().
+   */
+  private async removeCompletion(completion: RoutineCompletion): Promise<void> {
+    if (completion.status === 'pending_create' || completion.status === 'sync_failed_create') {
+      await completion.destroyPermanently();
+      return;
+    }
+    await completion.update(c => {
+      c.status = 'pending_delete';
+      c.updatedAt = new Date();
+    });
+    await outboxRepository.enqueue('routine_completions', completion.id, 'delete');
+  }
+
+  /**
+   * Migrates a locally-created routine to use the server-assigned ID.
+   * Creates a new routine with the server ID, re-points its completions,
+   * then deletes the old routine record.
+   */
+  async updateRoutineServerId(localId: string, serverId: string): Promise<void> {
+    const database = getDatabase();
+    let localRoutine: Routine | null = null;
+    try {
+      localRoutine = await database.get<Routine>('routines').find(localId);
+    } catch {
+      return;
+    }
+
+    const completions = await database.get<RoutineCompletion>('routine_completions')
+      .query(Q.where('routine_id', localId))
+      .fetch();
+
+    try {
+      await database.write(async () => {
+        const newRoutine = await database.get<Routine>('routines').create(r => {
+          r._raw.id = serverId;
+          r._raw._status = 'synced';
+          r._raw._changed = '';
+          r.userId = localRoutine.userId;
+          r.title = localRoutine.title;
+          r.description = localRoutine.description;
+          r.frequencyType = localRoutine.frequencyType;
+          r.targetCount = localRoutine.targetCount;
+          r.timeWindow = localRoutine.timeWindow;
+          r.icon = localRoutine.icon;
+          r.color = localRoutine.color;
+          r.isActive = localRoutine.isActive;
+          r.reminderEnabled = localRoutine.reminderEnabled;
+          r.reminderTime = localRoutine.reminderTime;
+          r.timezone = localRoutine.timezone;
+          writeStreakState(r, toStreakState(localRoutine));
+          r.status = 'synced';
+          r.createdAt = localRoutine.createdAt;
+          r.updatedAt = localRoutine.updatedAt;
+        });
+
+        for (const completion of completions) {
+          await completion.update(c => {
+            c.routineId = newRoutine.id;
+          });
+        }
+
+        await outboxRepository.remapRecordId('routines', localId, serverId);
+        await localRoutine.destroyPermanently();
+      });
+    } catch (error) {
+      throw new Error(`Failed to migrate routine server ID: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Observable query helpers
+  observeRoutines(): Observable<RoutineView[]> {
+    const database = getDatabase();
+    let userId: string;
+    try {
+      userId = this.getCurrentUserId();
+    } catch (error) {
+      console.error('Error retrieving user ID in observeRoutines:', error);
+      return of([]);
+    }
+
+    const routinesObservable = database.get<Routine>('routines')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('is_active', true),
+        Q.where('status', Q.notEq('pending_delete')),
+        Q.sortBy('created_at', Q.desc)
+      )
+      .observeWithColumns(OBSERVED_COLUMNS);
+
+    const completionsObservable = database.get<RoutineCompletion>('routine_completions')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('status', Q.notEq('pending_delete'))
+      )
+      .observe();
+
+    return combineLatest([routinesObservable, completionsObservable]).pipe(
+      map(([routines, completions]) => {
+        const now = new Date();
+        return routines.map(routine =>
+          this.toRoutineView(routine, completions.filter(c => c.routineId === routine.id), now)
+        );
+      })
+    );
+  }
+}
+
+export const routineRepository = new RoutineRepository();
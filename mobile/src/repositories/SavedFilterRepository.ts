@@ -0,0 +1,196 @@
+import { getDatabase } from '../db';
+import { Q } from '@nozbe/watermelondb';
+import { Observable, of } from 'rxjs';
+import SavedFilter from '../db/models/SavedFilter';
+import { authService } from '../services/auth';
+import { FilterOptions, serializeFilterOptions } from '../utils/filterEngine';
+import { outboxRepository } from './OutboxRepository';
+
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * SavedFilterRepository handles named saved filters ("smart lists").
+ *
+ * Behavioral Contract:
+ * - Filters are written locally first and pushed by SyncService
+ * - Options are stored as JSON (see utils/filterEngine) and evaluated on the device
+ * - Modifying operations throw "Saved filter not found" for unknown or foreign filters
+ */
+export class SavedFilterRepository {
+  private getCurrentUserId(): string {
+    const user = authService.getCurrentUser();
+    if (!user?.id) {
+      throw new Error('User not authenticated');
+    }
+    return user.id;
+  }
+
+  async getSavedFilters(): Promise<SavedFilter[]> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    return await database.get<SavedFilter>('saved_filters')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('status', Q.notEq('pending_delete')),
+        Q.sortBy('position', Q.asc)
+      )
+      .fetch();
+  }
+
+  async getSavedFilterById(id: string): Promise<SavedFilter | null> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+
+    try {
+      const filter = await database.get<SavedFilter>('saved_filters').find(id);
+      if (!filter || filter.userId !== userId || filter.status === 'pending_delete') {
+        return null;
+      }
+      return filter;
+    } catch {
+      return null;
+    }
+  }
+
+  private async getSavedFilterOrThrow(id: string): Promise<SavedFilter> {
+    const filter = await this.getSavedFilterById(id);
+    if (!filter) {
+      throw new Error('Saved filter not found');
+    }
+    return filter;
+  }
+
+  private validateName(name: string): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed) {
+      throw new Error('Name is required');
+    }
+    if (trimmed.length > MAX_NAME_LENGTH) {
+      throw new Error(`Name must be ${MAX_NAME_LENGTH} characters or less`);
+    }
+    return trimmed;
+  }
+
+  /**
+   * Saves a filter under a name. New filters are listed after the existing ones.
+   */
+  async createSavedFilter(name: string, options: FilterOptions): Promise<SavedFilter> {
+    const trimmed = this.validateName(name);
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    const existing = await this.getSavedFilters();
+    const position = existing.reduce((max, f) => Math.max(max, f.position + 1), 0);
+
+    return await database.write(async () => {
+      const created = await database.get<SavedFilter>('saved_filters').create(f => {
+        f.userId = userId;
+        f.name = trimmed;
+        f.filterOptionsJson = serializeFilterOptions(options);
+        f.position = position;
+        f.status = 'pending_create';
+        f.createdAt = new Date();
+        f.updatedAt = new Date();
+      });
+      await outboxRepository.enqueue('saved_filters', created.id, 'create');
+      return created;
+    });
+  }
+
+  async updateSavedFilter(id: string, changes: { name?: string; options?: FilterOptions; position?: number }): Promise<SavedFilter> {
+    const name = changes.name !== undefined ? this.validateName(changes.name) : undefined;
+    const database = getDatabase();
+    const filter = await this.getSavedFilterOrThrow(id);
+
+    await database.write(async () => {
+      await filter.update(f => {
+        if (name !== undefined) { f.name = name; }
+        if (changes.options !== undefined) { f.filterOptionsJson = serializeFilterOptions(changes.options); }
+        if (changes.position !== undefined) { f.position = changes.position; }
+        // Filters never created on the server stay as creates
+        if (f.status !== 'pending_create' && f.status !== 'sync_failed_create') {
+          f.status = 'pending_update';
+        }
+        f.updatedAt = new Date();
+      });
+      await outboxRepository.enqueue('saved_filters', filter.id, 'update');
+    });
+
+    return filter;
+  }
+
+  /**
+   * Deletes a saved filter. Filters that never reached the server are removed immediately,
+   * others are marked pending_delete and removed after the push.
+   */
+  async deleteSavedFilter(id: string): Promise<void> {
+    const database = getDatabase();
+    const filter = await this.getSavedFilterById(id);
+    if (!filter) { return; }
+
+    await database.write(async () => {
+      if (filter.status === 'pending_create' || filter.status === 'sync_failed_create') {
+        await filter.destroyPermanently();
+        return;
+      }
+      await filter.update(f => {
+        f.status = 'pending_delete';
+        f.updatedAt = new Date();
+      });
+      await outboxRepository.enqueue('saved_filters', filter.id, 'delete');
+    });
+  }
+
+  async updateSavedFilterServerId(localId: string, serverId: string): Promise<void> {
+    const database = getDatabase();
+    let localFilter: SavedFilter | null = null;
+    try {
+      localFilter = await database.get<SavedFilter>('saved_filters').find(localId);
+    } catch {
+      return;
+    }
+
+    try {
+      await database.write(async () => {
+        await database.get<SavedFilter>('saved_filters').create(f => {
+          f._raw.id = serverId;
+          f._raw._status = 'synced';
+          f._raw._changed = '';
+          f.userId = localFilter.userId;
+          f.name = localFilter.name;
+          f.filterOptionsJson = localFilter.filterOptionsJson;
+          f.position = localFilter.position;
+          f.status = 'synced';
+          f.createdAt = localFilter.createdAt;
+          f.updatedAt = localFilter.updatedAt;
+        });
+
+        await outboxRepository.remapRecordId('saved_filters', localId, serverId);
+        await localFilter.destroyPermanently();
+      });
+    } catch (error) {
+      throw new Error(`Failed to migrate saved filter server ID: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Observable query helpers
+  observeSavedFilters(): Observable<SavedFilter[]> {
+    const database = getDatabase();
+    let userId: string;
+    try {
+      userId = this.getCurrentUserId();
+    } catch (error) {
+      console.error('Error retrieving user ID in observeSavedFilters:', error);
+      return of([]);
+    }
+
+    return database.get<SavedFilter>('saved_filters')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('status', Q.notEq('pending_delete')),
+        Q.sortBy('position', Q.asc)
+      )
+      .observeWithColumns(['name', 'filter_options', 'position']);
+  }
+}
+
+export const savedFilterRepository = new SavedFilterRepository();
@@ -0,0 +1,188 @@
+import { getDatabase } from '../db';
+import { Q } from '@nozbe/watermelondb';
+import { isSearchIndexAvailable, SEARCH_SOURCES, SearchSourceTable } from '../db/searchIndex';
+import { authService } from '../services/auth';
+import {
+  buildMatchQuery,
+  HighlightSegment,
+  highlightWords,
+  parseSnippet,
+  searchWords,
+  SNIPPET_MATCH_END,
+  SNIPPET_MATCH_START,
+} from '../utils/search';
+
+export interface SearchResult {
+  tableName: SearchSourceTable;
+  recordId: string;
+  // Record to open: the task, the goal (for goals, milestones and steps) or the conversation thread
+  targetId: string;
+  title: string;
+  // Where the match lives, e.g. the goal a milestone belongs to
+  context?: string;
+  snippet: HighlightSegment[];
+  // bm25 rank; lower is a better match
+  score: number;
+}
+
+interface RawSearchRow {
+  table_name: SearchSourceTable;
+  record_id: string;
+  target_id: string;
+  title: string;
+  context: string | null;
+  snippet: string | null;
+  score: number;
+}
+
+const DEFAULT_LIMIT = 50;
+const SNIPPET_TOKENS = 12;
+
+interface SourceQuery {
+  // Alias of the searched table in the joins and filters below
+  alias: string;
+  // record_id, target_id, title and context columns
+  select: string;
+  // Joins to the parent rows that decide the target and context
+  joins: string;
+  // Binds the user ID. Rows deleted locally (pending_delete) or belonging to deleted parents are left out.
+  where: string;
+  // bm25 column weights
+  weights: string;
+}
+
+const SOURCE_QUERIES: Record<SearchSourceTable, SourceQuery> = {
+  tasks: {
+    alias: 't',
+    select: `t."id" as record_id, t."id" as target_id, t."title" as title, null as context`,
+    joins: '',
+    where: `t."user_id" = ? and t."_status" != 'deleted' and t."sync_state" != 'pending_delete'`,
+    weights: ', 10.0, 1.0',
+  },
+  goals: {
+    alias: 'g',
+    select: `g."id" as record_id, g."id" as target_id, g."title" as title, null as context`,
+    joins: '',
+    where: `g."user_id" = ? and g."_status" != 'deleted' and g."status" != 'pending_delete'`,
+    weights: ', 10.0, 1.0',
+  },
+  milestones: {
+    alias: 'm',
+    select: `m."id" as record_id, g."id" as target_id, m."title" as title, g."title" as context`,
+    joins: `join "goals" g on g."id" = m."goal_id"`,
+    where: `g."user_id" = ?
+      and m."_status" != 'deleted' and m."status" != 'pending_delete'
+      and g."_status" != 'deleted' and g."status" != 'pending_delete'`,
+    weights: ', 10.0, 1.0',
+  },
+  milestone_steps: {
+    alias: 's',
+    select: `s."id" as record_id, g."id" as target_id, s."text" as title, m."title" as context`,
+    joins: `join "milestones" m on m."id" = s."milestone_id"
+      join "goals" g on g."id" = m."goal_id"`,
+    where: `g."user_id" = ?
+      and s."_status" != 'deleted' and s."status" != 'pending_delete'
+      and m."_status" != 'deleted' and m."status" != 'pending_delete'
+      and g."_status" != 'deleted' and g."status" != 'pending_delete'`,
+    weights: '',
+  },
+  conversation_messages: {
+    alias: 'c',
+    select: `c."id" as record_id, th."id" as target_id, th."title" as title, null as context`,
+    joins: `join "conversation_threads" th on th."id" = c."thread_id"`,
+    where: `c."user_id" = ?
+      and c."_status" != 'deleted' and c."status" != 'pending_delete'
+      and th."_status" != 'deleted' and th."status" != 'pending_delete'`,
+    weights: '',
+  },
+};
+
+const columnsOf = (table: SearchSourceTable): string[] =>
+  SEARCH_SOURCES.find(source => source.table === table)?.columns ?? [];
+
+// Binds the snippet markers, the match query and the user ID
+const ftsQuery = (table: SearchSourceTable): string => {
+  const { alias, select, joins, where, weights } = SOURCE_QUERIES[table];
+  const fts = `${table}_search`;
+  return `
+    select '${table}' as table_name, ${select},
+      snippet("${fts}", -1, ?, ?, '…', ${SNIPPET_TOKENS}) as snippet, bm25("${fts}"${weights}) as score
+    from "${fts}" join "${table}" ${alias} on ${alias}."rowid" = "${fts}"."rowid"
+      ${joins}
+    where "${fts}" match ? and ${where}`;
+};
+
+// Binds one LIKE pattern per column for each word, then the user ID. The snippet is the row's text.
+const likeQuery = (table: SearchSourceTable, wordCount: number): string => {
+  const { alias, select, joins, where } = SOURCE_QUERIES[table];
+  const columns = columnsOf(table).map(column => `${alias}."${column}"`);
+  const wordMatches = Array.from({ length: wordCount }, () =>
+    `(${columns.map(column => `${column} like ?`).join(' or ')})`);
+  return `
+    select '${table}' as table_name, ${select},
+      ${columns.map(column => `coalesce(${column}, '')`).join(` || ' ' || `)} as snippet, 0 as score
+    from "${table}" ${alias}
+      ${joins}
+    where ${[...wordMatches, where].join(' and ')}`;
+};
+
+// Words are letters and digits only, so they need no escaping in a LIKE pattern
+const likePattern = (word: string): string => `%${word}%`;
+
+export class SearchRepository {
+  private getCurrentUserId(): string {
+    const user = authService.getCurrentUser();
+    if (!user?.id) {
+      throw new Error('User not authenticated');
+    }
+    return user.id;
+  }
+
+  /**
+   * Searches task titles and descriptions, goals, milestones, steps and AI conversation messages.
+   * Every typed word must match (as a prefix). Results are ranked best first across all types.
+   */
+  async search(text: string, options: { limit?: number; tables?: SearchSourceTable[] } = {}): Promise<SearchResult[]> {
+    const words = searchWords(text);
+    if (words.length === 0) {
+      return [];
+    }
+
+    const userId = this.getCurrentUserId();
+    const tables = options.tables ?? (Object.keys(SOURCE_QUERIES) as SearchSourceTable[]);
+    if (tables.length === 0) {
+      return [];
+    }
+
+    // Without FTS5 every word is matched as plain text, which is slower and unranked
+    const indexed = isSearchIndexAvailable();
+    const matchQuery = buildMatchQuery(text);
+    const queries = tables.map(table => (indexed ? ftsQuery(table) : likeQuery(table, words.length)));
+    const sql = `${queries.join('\n    union all')}
+    order by score asc
+    limit ?`;
+    const args = [
+      ...tables.flatMap(table => (indexed
+        ? [SNIPPET_MATCH_START, SNIPPET_MATCH_END, matchQuery, userId]
+        : [...words.flatMap(word => columnsOf(table).map(() => likePattern(word))), userId])),
+      options.limit ?? DEFAULT_LIMIT,
+    ];
+
+    // The query spans several tables; any collection can run raw SQL
+    const rows = await getDatabase().get('tasks')
+      .query(Q.unsafeSqlQuery(sql, args))
+      .unsafeFetchRaw() as RawSearchRow[];
+
+    return rows.map(row => ({
+      tableName: row.table_name,
+      recordId: row.record_id,
+      targetId: row.target_id,
+      title: row.title,
+      context: row.context ?? undefined,
+      snippet: indexed ? parseSnippet(row.snippet) : highlightWords(row.snippet, words),
+      score: row.score,
+    }));
+  }
+}
+
+export const searchRepository = new SearchRepository();
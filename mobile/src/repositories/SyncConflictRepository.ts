@@ -0,0 +1,262 @@
+import { getDatabase } from '../db';
+import { Q } from '@nozbe/watermelondb';
+import { Observable, of } from 'rxjs';
+import SyncConflict from '../db/models/SyncConflict';
+import Task from '../db/models/Task';
+import Goal from '../db/models/Goal';
+import { authService } from '../services/auth';
+import logger from '../utils/logger';
+import {
+  ConflictTable,
+  FieldConflict,
+  SnapshotValue,
+  applyGoalSnapshot,
+  applyTaskSnapshot,
+  getSyncFields,
+  goalToSnapshot,
+  hasChangesFromBase,
+  parseSnapshot,
+  serializeSnapshot,
+  taskToSnapshot,
+} from '../utils/syncMerge';
+
+export type ConflictChoice = 'local' | 'server';
+
+export interface SyncConflictView {
+  id: string;
+  tableName: ConflictTable;
+  recordId: string;
+  recordTitle: string;
+  field: string;
+  baseValue: SnapshotValue;
+  localValue: SnapshotValue;
+  serverValue: SnapshotValue;
+  createdAt: Date;
+}
+
+const encodeValue = (value: SnapshotValue): string => JSON.stringify(value);
+
+const decodeValue = (value: string | undefined): SnapshotValue => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const isDeleteState = (state: string | undefined) =>
+  state === 'pending_delete' || state === 'sync_failed_delete';
+
+/**
+ * SyncConflictRepository stores fields that could not be merged automatically during sync.
+ *
+ * Behavioral Contract:
+ * - SyncService records conflicts while merging a pull into a task or goal with unpushed edits
+ * - A record with open conflicts keeps its local values and is not pushed until they are resolved
+ * - Resolving a conflict applies the chosen value and removes the conflict row
+ * - Conflicts for records that were deleted are dropped when read
+ */
+export class SyncConflictRepository {
+  private getCurrentUserId(): string {
+    const user = authService.getCurrentUser();
+    if (!user?.id) {
+      throw new Error('User not authenticated');
+    }
+    return user.id;
+  }
+
+  private async findRecord(tableName: string, recordId: string): Promise<Task | Goal | null> {
+    const database = getDatabase();
+    let records: (Task | Goal)[] = [];
+    if (tableName === 'tasks') {
+      records = await database.get<Task>('tasks').query(Q.where('id', recordId)).fetch();
+    } else if (tableName === 'goals') {
+      records = await database.get<Goal>('goals').query(Q.where('id', recordId)).fetch();
+    }
+    return records.length > 0 ? records[0] : null;
+  }
+
+  async getOpenConflicts(): Promise<SyncConflict[]> {
+    try {
+      const database = getDatabase();
+      const userId = this.getCurrentUserId();
+      return await database.get<SyncConflict>('sync_conflicts')
+        .query(Q.where('user_id', userId), Q.sortBy('created_at', Q.desc))
+        .fetch();
+    } catch (error) {
+      logger.error('Failed to fetch sync conflicts', { error: error instanceof Error ? error.message : 'Unknown error' });
+      return [];
+    }
+  }
+
+  /**
+   * IDs of records with open conflicts in a table. Used by SyncService to hold back pushes.
+   */
+  async getConflictedRecordIds(tableName: ConflictTable): Promise<Set<string>> {
+    const database = getDatabase();
+    const conflicts = await database.get<SyncConflict>('sync_conflicts')
+      .query(Q.where('table_name', tableName))
+      .fetch();
+    return new Set(conflicts.map(c => c.recordId));
+  }
+
+  observeConflicts(): Observable<SyncConflict[]> {
+    const database = getDatabase();
+    let userId: string;
+    try {
+      userId = this.getCurrentUserId();
+    } catch (error) {
+      console.error('Error retrieving user ID in observeConflicts:', error);
+      return of([]);
+    }
+
+    return database.get<SyncConflict>('sync_conflicts')
+      .query(Q.where('user_id', userId), Q.sortBy('created_at', Q.desc))
+      .observe();
+  }
+
+  /**
+   * Builds the screen-facing conflicts, skipping records that no longer exist or are being deleted.
+   */
+  async getConflictViews(conflicts: SyncConflict[]): Promise<SyncConflictView[]> {
+    const views: SyncConflictView[] = [];
+    for (const conflict of conflicts) {
+      const record = await this.findRecord(conflict.tableName, conflict.recordId);
+      if (!record) {
+        continue;
+      }
+      const state = record instanceof Task ? record.syncState : record.status;
+      if (isDeleteState(state)) {
+        continue;
+      }
+      // Show the current local value, which may have been edited since the conflict was recorded
+      const current = record instanceof Task ? taskToSnapshot(record) : goalToSnapshot(record);
+      views.push({
+        id: conflict.id,
+        tableName: conflict.tableName as ConflictTable,
+        recordId: conflict.recordId,
+        recordTitle: record.title,
+        field: conflict.field,
+        baseValue: decodeValue(conflict.baseValue),
+        localValue: current[conflict.field] ?? null,
+        serverValue: decodeValue(conflict.serverValue),
+        createdAt: conflict.createdAt,
+      });
+    }
+    return views;
+  }
+
+  /**
+   * Replaces the open conflicts of a record with the latest merge result.
+   * Fields that no longer conflict are cleared.
+   * NOTE: Called from SyncService inside its pull write block, so it must not call database.write().
+   * @returns Number of fields that newly conflict
+   */
+  async recordConflicts(tableName: ConflictTable, recordId: string, userId: string, conflicts: FieldConflict[]): Promise<number> {
+    const database = getDatabase();
+    const collection = database.get<SyncConflict>('sync_conflicts');
+    const existing = await collection
+      .query(Q.where('table_name', tableName), Q.where('record_id', recordId))
+      .fetch();
+
+    const conflictsByField = new Map(conflicts.map(c => [c.field, c]));
+    const existingFields = new Set<string>();
+    let created = 0;
+
+    for (const row of existing) {
+      const conflict = conflictsByField.get(row.field);
+      if (!conflict || existingFields.has(row.field)) {
+        await row.destroyPermanently();
+        continue;
+      }
+      existingFields.add(row.field);
+      await row.update(c => {
+        c.baseValue = encodeValue(conflict.base);
+        c.localValue = encodeValue(conflict.local);
+        c.serverValue = encodeValue(conflict.server);
+        c.updatedAt = new Date();
+      });
+    }
+
+    for (const conflict of conflicts) {
+      if (existingFields.has(conflict.field)) {
+        continue;
+      }
+      await collection.create(c => {
+        c.userId = userId;
+        c.tableName = tableName;
+        c.recordId = recordId;
+        c.field = conflict.field;
+        c.baseValue = encodeValue(conflict.base);
+        c.localValue = encodeValue(conflict.local);
+        c.serverValue = encodeValue(conflict.server);
+        c.createdAt = new Date();
+        c.updatedAt = new Date();
+      });
+      created++;
+    }
+
+    return created;
+  }
+
+  /**
+   * Keeps the local or server value of a conflicting field.
+   * The server value becomes the field's base, so a kept local value is pushed on the next sync.
+   * A record left with no changes from its base is marked synced.
+   */
+  async resolveConflict(conflictId: string, choice: ConflictChoice): Promise<void> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+
+    try {
+      const conflict = await database.get<SyncConflict>('sync_conflicts').find(conflictId);
+      if (conflict.userId !== userId) {
+        throw new Error('Conflict not found');
+      }
+      const record = await this.findRecord(conflict.tableName, conflict.recordId);
+
+      await database.write(async () => {
+        if (record) {
+          const fields = getSyncFields(conflict.tableName as ConflictTable);
+          const serverValue = decodeValue(conflict.serverValue);
+          const base = { ...(parseSnapshot(record.baseSnapshot) || {}), [conflict.field]: serverValue };
+
+          if (record instanceof Task) {
+            await record.update(r => {
+              if (choice === 'server') {
+                applyTaskSnapshot(r, { [conflict.field]: serverValue });
+              }
+              r.baseSnapshot = serializeSnapshot(base);
+              if (!hasChangesFromBase(taskToSnapshot(r), base, fields) && !isDeleteState(r.syncState)) {
+                r.syncState = 'synced';
+              }
+            });
+          } else {
+            await record.update(r => {
+              if (choice === 'server') {
+                applyGoalSnapshot(r, { [conflict.field]: serverValue });
+              }
+              r.baseSnapshot = serializeSnapshot(base);
+              if (!hasChangesFromBase(goalToSnapshot(r), base, fields) && !isDeleteState(r.status)) {
+                r.status = 'synced';
+              }
+            });
+          }
+        }
+        await conflict.destroyPermanently();
+      });
+    } catch (error) {
+      logger.error('Failed to resolve sync conflict', {
+        conflictId,
+        choice,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+}
+
+export const syncConflictRepository = new SyncConflictRepository();
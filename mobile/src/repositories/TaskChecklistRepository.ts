@@ -0,0 +1,296 @@
+import { getDatabase } from '../db';
+import { Q } from '@nozbe/watermelondb';
+import { Observable, of } from 'rxjs';
+import TaskChecklistItem from '../db/models/TaskChecklistItem';
+import { authService } from '../services/auth';
+import { MAX_CHECKLIST_ITEM_LENGTH } from '../utils/checklist';
+import { outboxRepository } from './OutboxRepository';
+
+/**
+ * TaskChecklistRepository handles the checklist items inside tasks.
+ *
+ * Behavioral Contract:
+ * - Items are written locally first and pushed by SyncService, after their task's create
+ * - Items are ordered by position within their task; new items go last
+ * - Modifying operations throw "Checklist item not found" for unknown or foreign items
+ */
+export class TaskChecklistRepository {
+  private getCurrentUserId(): string {
+    const user = authService.getCurrentUser();
+    if (!user?.id) {
+      throw new Error('User not authenticated');
+    }
+    return user.id;
+  }
+
+  async getItemsForTask(taskId: string): Promise<TaskChecklistItem[]> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    return await database.get<TaskChecklistItem>('task_checklist_items')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('task_id', taskId),
+        Q.where('status', Q.notEq('pending_delete')),
+        Q.sortBy('position', Q.asc)
+      )
+      .fetch();
+  }
+
+  async getItemById(id: string): Promise<TaskChecklistItem | null> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+
+    try {
+      const item = await database.get<TaskChecklistItem>('task_checklist_items').find(id);
+      if (!item || item.userId !== userId || item.status === 'pending_delete') {
+        return null;
+      }
+      return item;
+    } catch {
+      return null;
+    }
+  }
+
+  private async getItemOrThrow(id: string): Promise<TaskChecklistItem> {
+    const item = await this.getItemById(id);
+    if (!item) {
+      throw new Error('Checklist item not found');
+    }
+    return item;
+  }
+
+  private validateText(text: string): string {
+    const trimmed = typeof text === 'string' ? text.trim() : '';
+    if (!trimmed) {
+      throw new Error('Text is required');
+    }
+    if (trimmed.length > MAX_CHECKLIST_ITEM_LENGTH) {
+      throw new Error(`Text must be ${MAX_CHECKLIST_ITEM_LENGTH} characters or less`);
+    }
+    return trimmed;
+  }
+
+  /**
+   * Appends items to a task's checklist in the given order, e.g. the steps of an AI breakdown.
+   */
+  async addItems(taskId: string, texts: string[]): Promise<TaskChecklistItem[]> {
+    const trimmed = texts.map(text => this.validateText(text));
+    if (trimmed.length === 0) {
+      return [];
+    }
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    const existing = await this.getItemsForTask(taskId);
+    const firstPosition = existing.reduce((max, item) => Math.max(max, item.position + 1), 0);
+
+    return await database.write(async () => {
+      const created: TaskChecklistItem[] = [];
+      for (const [index, text] of trimmed.entries()) {
+        const item = await database.get<TaskChecklistItem>('task_checklist_items').create(i => {
+          i.userId = userId;
+          i.taskId = taskId;
+          i.text = text;
+          i.isCompleted = false;
+          i.position = firstPosition + index;
+          i.status = 'pending_create';
+          i.createdAt = new Date();
+          i.updatedAt = new Date();
+        });
+        await outboxRepository.enqueue('task_checklist_items', item.id, 'create', [{ table: 'tasks', id: taskId }]);
+        created.push(item);
+      }
+      return created;
+    });
+  }
+
+  async addItem(taskId: string, text: string): Promise<TaskChecklistItem> {
+    const [item] = await this.addItems(taskId, [text]);
+    return item;
+  }
+
+  async updateItem(id: string, changes: { text?: string; isCompleted?: boolean; position?: number }): Promise<TaskChecklistItem> {
+    const text = changes.text !== undefined ? this.validateText(changes.text) : undefined;
+    const database = getDatabase();
+    const item = await this.getItemOrThrow(id);
+
+    await database.write(async () => {
+      await item.update(i => {
+        if (text !== undefined) { i.text = text; }
+        if (changes.isCompleted !== undefined) { i.isCompleted = changes.isCompleted; }
+        if (changes.position !== undefined) { i.position = changes.position; }
+        // Items never created on the server stay as creates
+        if (i.status !== 'pending_create' && i.status !== 'sync_failed_create') {
+          i.status = 'pending_update';
+        }
+        i.updatedAt = new Date();
+      });
+      await outboxRepository.enqueue('task_checklist_items', item.id, 'update');
+    });
+
+    return item;
+  }
+
+  async toggleItem(id: string): Promise<TaskChecklistItem> {
+    const item = await this.getItemOrThrow(id);
+    return await this.updateItem(id, { isCompleted: !item.isCompleted });
+  }
+
+  /**
+   * Swaps an item with its neighbour above or below. Does nothing at either end of the list.
+   */
+  async moveItem(id: string, direction: 'up' | 'down'): Promise<void> {
+    const item = await this.getItemOrThrow(id);
+    const items = await this.getItemsForTask(item.taskId);
+    const index = items.findIndex(i => i.id === id);
+    const neighbour = items[direction === 'up' ? index - 1 : index + 1];
+    if (!neighbour) {
+      return;
+    }
+
+    // Positions can repeat after concurrent edits, so renumber the whole list
+    const reordered = [...items];
+    reordered[index] = neighbour;
+    reordered[direction === 'up' ? index - 1 : index + 1] = item;
+
+    const database = getDatabase();
+    await database.write(async () => {
+      for (const [position, current] of reordered.entries()) {
+        if (current.position === position) {
+          continue;
+        }
+        await current.update(i => {
+          i.position = position;
+          if (i.status !== 'pending_create' && i.status !== 'sync_failed_create') {
+            i.status = 'pending_update';
+          }
+          i.updatedAt = new Date();
+        });
+        await outboxRepository.enqueue('task_checklist_items', current.id, 'update');
+      }
+    });
+  }
+
+  /**
+   * Deletes an item. Items that never reached the server are removed immediately,
+   * others are marked pending_delete and removed after the push.
+   */
+  async deleteItem(id: string): Promise<void> {
+    const database = getDatabase();
+    const item = await this.getItemById(id);
+    if (!item) { return; }
+
+    await database.write(async () => {
+      if (item.status === 'pending_create' || item.status === 'sync_failed_create') {
+        await item.destroyPermanently();
+        return;
+      }
+      await item.update(i => {
+        i.status = 'pending_delete';
+        i.updatedAt = new Date();
+      });
+      await outboxRepository.enqueue('task_checklist_items', item.id, 'delete');
+    });
+  }
+
+  /**
+   * Removes a deleted task's items. The server deletes its copies along with the task.
+   * Must be called inside database.write().
+   */
+  async removeItemsForTask(taskId: string): Promise<void> {
+    const items = await getDatabase().get<TaskChecklistItem>('task_checklist_items')
+      .query(Q.where('task_id', taskId))
+      .fetch();
+    for (const item of items) {
+      await item.destroyPermanently();
+    }
+  }
+
+  /**
+   * Points items at a task's server ID once its create has been pushed.
+   * Must be called inside database.write().
+   */
+  async remapTaskId(localId: string, serverId: string): Promise<void> {
+    const items = await getDatabase().get<TaskChecklistItem>('task_checklist_items')
+      .query(Q.where('task_id', localId))
+      .fetch();
+    for (const item of items) {
+      await item.update(i => {
+        i.taskId = serverId;
+      });
+    }
+  }
+
+  async updateItemServerId(localId: string, serverId: string): Promise<void> {
+    const database = getDatabase();
+    let localItem: TaskChecklistItem | null = null;
+    try {
+      localItem = await database.get<TaskChecklistItem>('task_checklist_items').find(localId);
+    } catch {
+      return;
+    }
+
+    try {
+      await database.write(async () => {
+        await database.get<TaskChecklistItem>('task_checklist_items').create(i => {
+          i._raw.id = serverId;
+          i._raw._status = 'synced';
+          i._raw._changed = '';
+          i.userId = localItem.userId;
+          i.taskId = localItem.taskId;
+          i.text = localItem.text;
+          i.isCompleted = localItem.isCompleted;
+          i.position = localItem.position;
+          i.status = 'synced';
+          i.createdAt = localItem.createdAt;
+          i.updatedAt = localItem.updatedAt;
+        });
+
+        await outboxRepository.remapRecordId('task_checklist_items', localId, serverId);
+        await localItem.destroyPermanently();
+      });
+    } catch (error) {
+      throw new Error(`Failed to migrate checklist item server ID: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Observable query helpers
+  observeItemsForTask(taskId: string): Observable<TaskChecklistItem[]> {
+    const database = getDatabase();
+    let userId: string;
+    try {
+      userId = this.getCurrentUserId();
+    } catch (error) {
+      console.error('Error retrieving user ID in observeItemsForTask:', error);
+      return of([]);
+    }
+
+    return database.get<TaskChecklistItem>('task_checklist_items')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('task_id', taskId),
+        Q.where('status', Q.notEq('pending_delete')),
+        Q.sortBy('position', Q.asc)
+      )
+      .observeWithColumns(['text', 'is_completed', 'position']);
+  }
+
+  observeAllItems(): Observable<TaskChecklistItem[]> {
+    const database = getDatabase();
+    let userId: string;
+    try {
+      userId = this.getCurrentUserId();
+    } catch (error) {
+      console.error('Error retrieving user ID in observeAllItems:', error);
+      return of([]);
+    }
+
+    return database.get<TaskChecklistItem>('task_checklist_items')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('status', Q.notEq('pending_delete'))
+      )
+      .observeWithColumns(['task_id', 'is_completed']);
+  }
+}
+
+export const taskChecklistRepository = new TaskChecklistRepository();
@@ -0,0 +1,223 @@
+import { getDatabase } from '../db';
+import { Q } from '@nozbe/watermelondb';
+import { Observable, of } from 'rxjs';
+import Task from '../db/models/Task';
+import TaskDependency from '../db/models/TaskDependency';
+import { authService } from '../services/auth';
+import { DependencyLink, getOpenBlockers, wouldCreateCycle } from '../utils/taskDependencies';
+import { outboxRepository } from './OutboxRepository';
+
+export const toDependencyLinks = (dependencies: TaskDependency[]): DependencyLink[] =>
+  dependencies.map(d => ({ taskId: d.taskId, dependsOnTaskId: d.dependsOnTaskId }));
+
+/**
+ * TaskDependencyRepository handles "blocked by" links between tasks.
+ *
+ * Behavioral Contract:
+ * - Links are written locally first and pushed by SyncService; they are created or deleted, never edited
+ * - addDependency throws "Task not found" for unknown tasks and rejects links that would form a cycle
+ * - A task is blocked while any task it depends on is not completed (see utils/taskDependencies)
+ */
+export class TaskDependencyRepository {
+  private getCurrentUserId(): string {
+    const user = authService.getCurrentUser();
+    if (!user?.id) {
+      throw new Error('User not authenticated');
+    }
+    return user.id;
+  }
+
+  async getDependencies(): Promise<TaskDependency[]> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    return await database.get<TaskDependency>('task_dependencies')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('status', Q.notEq('pending_delete'))
+      )
+      .fetch();
+  }
+
+  private async getTaskOrThrow(id: string, userId: string): Promise<Task> {
+    try {
+      const task = await getDatabase().get<Task>('tasks').find(id);
+      if (task.userId === userId && task.syncState !== 'pending_delete') {
+        return task;
+      }
+    } catch {
+      // Not found, handled below
+    }
+    throw new Error('Task not found');
+  }
+
+  /**
+   * Maps each blocked task to the IDs of its unfinished prerequisites.
+   */
+  async getOpenBlockers(): Promise<Map<string, string[]>> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    const dependencies = await this.getDependencies();
+    if (dependencies.length === 0) {
+      return new Map();
+    }
+
+    const tasks = await database.get<Task>('tasks')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('sync_state', Q.notEq('pending_delete'))
+      )
+      .fetch();
+    return getOpenBlockers(toDependencyLinks(dependencies), tasks.map(t => ({ id: t.id, status: t.lifecycleStatus })));
+  }
+
+  /**
+   * Marks taskId as blocked until dependsOnTaskId is completed. Adding an existing link returns it.
+   * @throws Error - "A task can't depend on itself" or "This would create a circular dependency"
+   */
+  async addDependency(taskId: string, dependsOnTaskId: string): Promise<TaskDependency> {
+    if (taskId === dependsOnTaskId) {
+      throw new Error("A task can't depend on itself");
+    }
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    await this.getTaskOrThrow(taskId, userId);
+    await this.getTaskOrThrow(dependsOnTaskId, userId);
+
+    const dependencies = await this.getDependencies();
+    const existing = dependencies.find(d => d.taskId === taskId && d.dependsOnTaskId === dependsOnTaskId);
+    if (existing) {
+      return existing;
+    }
+    if (wouldCreateCycle(toDependencyLinks(dependencies), taskId, dependsOnTaskId)) {
+      throw new Error('This would create a circular dependency');
+    }
+
+    return await database.write(async () => {
+      const created = await database.get<TaskDependency>('task_dependencies').create(d => {
+        d.userId = userId;
+        d.taskId = taskId;
+        d.dependsOnTaskId = dependsOnTaskId;
+        d.status = 'pending_create';
+        d.createdAt = new Date();
+        d.updatedAt = new Date();
+      });
+      // Both tasks must exist on the server before the link can be pushed
+      await outboxRepository.enqueue('task_dependencies', created.id, 'create', [
+        { table: 'tasks', id: taskId },
+        { table: 'tasks', id: dependsOnTaskId },
+      ]);
+      return created;
+    });
+  }
+
+  /**
+   * Removes a link. Links that never reached the server are removed immediately,
+   * others are marked pending_delete and removed after the push.
+   */
+  async removeDependency(id: string): Promise<void> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    let dependency: TaskDependency;
+    try {
+      dependency = await database.get<TaskDependency>('task_dependencies').find(id);
+    } catch {
+      return;
+    }
+    if (dependency.userId !== userId || dependency.status === 'pending_delete') {
+      return;
+    }
+
+    await database.write(async () => {
+      if (dependency.status === 'pending_create' || dependency.status === 'sync_failed_create') {
+        await dependency.destroyPermanently();
+        return;
+      }
+      await dependency.update(d => {
+        d.status = 'pending_delete';
+        d.updatedAt = new Date();
+      });
+      await outboxRepository.enqueue('task_dependencies', dependency.id, 'delete');
+    });
+  }
+
+  /**
+   * Removes every link to or from a deleted task. The server deletes its copies along with the task.
+   * Must be called inside database.write().
+   */
+  async removeDependenciesForTask(taskId: string): Promise<void> {
+    const dependencies = await getDatabase().get<TaskDependency>('task_dependencies')
+      .query(Q.or(Q.where('task_id', taskId), Q.where('depends_on_task_id', taskId)))
+      .fetch();
+    for (const dependency of dependencies) {
+      await dependency.destroyPermanently();
+    }
+  }
+
+  /**
+   * Points links at a task's server ID once its create has been pushed.
+   * Must be called inside database.write().
+   */
+  async remapTaskId(localId: string, serverId: string): Promise<void> {
+    const dependencies = await getDatabase().get<TaskDependency>('task_dependencies')
+      .query(Q.or(Q.where('task_id', localId), Q.where('depends_on_task_id', localId)))
+      .fetch();
+    for (const dependency of dependencies) {
+      await dependency.update(d => {
+        if (d.taskId === localId) { d.taskId = serverId; }
+        if (d.dependsOnTaskId === localId) { d.dependsOnTaskId = serverId; }
+      });
+    }
+  }
+
+  async updateDependencyServerId(localId: string, serverId: string): Promise<void> {
+    const database = getDatabase();
+    let localDependency: TaskDependency | null = null;
+    try {
+      localDependency = await database.get<TaskDependency>('task_dependencies').find(localId);
+    } catch {
+      return;
+    }
+
+    try {
+      await database.write(async () => {
+        await database.get<TaskDependency>('task_dependencies').create(d => {
+          d._raw.id = serverId;
+          d._raw._status = 'synced';
+          d._raw._changed = '';
+          d.userId = localDependency.userId;
+          d.taskId = localDependency.taskId;
+          d.dependsOnTaskId = localDependency.dependsOnTaskId;
+          d.status = 'synced';
+          d.createdAt = localDependency.createdAt;
+          d.updatedAt = localDependency.updatedAt;
+        });
+
+        await outboxRepository.remapRecordId('task_dependencies', localId, serverId);
+        await localDependency.destroyPermanently();
+      });
+    } catch (error) {
+      throw new Error(`Failed to migrate task dependency server ID: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Observable query helpers
+  observeDependencies(): Observable<TaskDependency[]> {
+    const database = getDatabase();
+    let userId: string;
+    try {
+      userId = this.getCurrentUserId();
+    } catch (error) {
+      console.error('Error retrieving user ID in observeDependencies:', error);
+      return of([]);
+    }
+
+    return database.get<TaskDependency>('task_dependencies')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('status', Q.notEq('pending_delete'))
+      )
+      .observeWithColumns(['task_id', 'depends_on_task_id']);
+  }
+}
+
+export const taskDependencyRepository = new TaskDependencyRepository();
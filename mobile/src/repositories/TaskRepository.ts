@@ -1,9 +1,44 @@
 import { getDatabase } from '../db';
 import { Q } from '@nozbe/watermelondb';
 import Task, { RecurrencePattern } from '../db/models/Task';
+import Goal from '../db/models/Goal';
+import CalendarEvent from '../db/models/CalendarEvent';
+import { TaskLifecycleStatus, getPendingSyncState, isTaskLifecycleStatus } from '../utils/taskStatus';
 import { authService } from '../services/auth';
 import logger from '../utils/logger';
-import { safeParseDate } from '../utils/dateUtils';
+import { getDeviceTimeZone, safeParseDate } from '../utils/dateUtils';
+import { advanceRecurrence } from '../utils/recurrenceEngine';
+import { isValidRecurrencePattern } from '../utils/recurrenceUtils';
+import { serializeSnapshot, taskToSnapshot } from '../utils/syncMerge';
+import {
+  FocusCandidate,
+  FocusRankingContext,
+  FocusRankingStrategy,
+  balancedFocusStrategy,
+  rankFocusCandidates,
+} from '../utils/focusRanking';
+import { focusSkips } from '../services/focusSkips';
+import { SchedulingPreferences, TimeSlot } from '../types/autoScheduling';
+import { FindSlotsOptions, FreeBusyPreferences, findFreeSlots } from '../utils/freeBusy';
+import { outboxRepository } from './OutboxRepository';
+import { goalRepository } from './GoalRepository';
+import { taskDependencyRepository } from './TaskDependencyRepository';
+import { taskChecklistRepository } from './TaskChecklistRepository';
+
+// Queues a task's pending change in the sync outbox, after its goal if that was created offline.
+// Must run inside a database.write() block.
+const enqueueTaskChange = (task: Task) =>
+  outboxRepository.enqueueSyncState('tasks', task.id, task.syncState, [{ table: 'goals', id: task.goalId }]);
+
+// Linked tasks count toward goal progress, so recompute it for every goal a change touched.
+// Must run inside a database.write() block.
+const recalculateLinkedGoals = async (...goalIds: (string | null | undefined)[]) => {
+  for (const goalId of new Set(goalIds)) {
+    if (goalId) {
+      await goalRepository.recalculateGoalProgress(goalId);
+    }
+  }
+};
 
 // Lazy import to avoid circular dependency
 let syncServiceModule: { syncService: { getIsSyncing: () => boolean } } | null = null;
@@ -32,34 +67,6 @@ export class TaskRepository {
     return user.id;
   }
 
-  private extractLifecycleStatus(statusStr: string): 'not_started' | 'in_progress' | 'completed' {
-    const lifecycleStatuses = ['not_started', 'in_progress', 'completed'] as const;
-    type LifecycleStatus = typeof lifecycleStatuses[number];
-    const lifecycleStatusesSet = new Set<string>(lifecycleStatuses);
-    const syncStatuses = new Set(['pending_create', 'pending_update', 'pending_delete', 'synced']);
-
-    if (!statusStr) {
-      return 'not_started';
-    }
-
-    if (lifecycleStatusesSet.has(statusStr)) {
-      return statusStr as LifecycleStatus;
-    }
-
-    if (statusStr.includes(':')) {
-      const [, lifecycleStatus] = statusStr.split(':');
-      if (lifecycleStatus && lifecycleStatusesSet.has(lifecycleStatus)) {
-        return lifecycleStatus as LifecycleStatus;
-      }
-    }
-
-    if (syncStatuses.has(statusStr)) {
-      return 'not_started';
-    }
-
-    return 'not_started';
-  }
-
   async getAllTasks(): Promise<Task[]> {
     try {
       const database = getDatabase();
@@ -67,7 +74,7 @@ export class TaskRepository {
       return await database.get<Task>('tasks')
         .query(
           Q.where('user_id', userId),
-          Q.where('status', Q.notEq('pending_delete'))
+          Q.where('sync_state', Q.notEq('pending_delete'))
         )
         .fetch();
     } catch (error) {
@@ -91,7 +98,7 @@ export class TaskRepository {
     const tasks = await database.get<Task>('tasks')
       .query(
         Q.where('user_id', userId),
-        Q.where('status', Q.notEq('pending_delete'))
+        Q.where('sync_state', Q.notEq('pending_delete'))
       )
       .fetch();
     const lowered = title.trim().toLowerCase();
@@ -106,7 +113,7 @@ export class TaskRepository {
     dueDate?: Date;
     goalId?: string;
     isTodayFocus?: boolean;
-    status?: 'not_started' | 'in_progress' | 'completed'; // Lifecycle status
+    status?: TaskLifecycleStatus;
     recurrencePattern?: RecurrencePattern | null;
   }): Promise<Task> {
     // Validate date if provided
@@ -119,7 +126,7 @@ export class TaskRepository {
     const lifecycleStatus = data.status || 'not_started';
 
     return await database.write(async () => {
-      return await database.get<Task>('tasks').create(task => {
+      const created = await database.get<Task>('tasks').create(task => {
         task.title = data.title;
         task.description = data.description;
         task.priority = data.priority;
@@ -128,8 +135,8 @@ export class TaskRepository {
         task.goalId = data.goalId;
         task.isTodayFocus = data.isTodayFocus;
         task.userId = userId;
-        // Store lifecycle status with sync marker: "pending_create:<lifecycle_status>"
-        task.status = `pending_create:${lifecycleStatus}`;
+        task.lifecycleStatus = lifecycleStatus;
+        task.syncState = 'pending_create';
         task.createdAt = new Date();
         task.updatedAt = new Date();
         // Serialize recurrence pattern to JSON - handle undefined/null consistently with updateTask
@@ -155,6 +162,9 @@ export class TaskRepository {
           }
         }
       });
+      await enqueueTaskChange(created);
+      await recalculateLinkedGoals(created.goalId);
+      return created;
     });
   }
 
@@ -173,7 +183,7 @@ export class TaskRepository {
     dueDate?: Date;
     goalId?: string;
     isTodayFocus?: boolean;
-    status?: 'not_started' | 'in_progress' | 'completed'; // Lifecycle status
+    status?: TaskLifecycleStatus;
     recurrencePattern?: RecurrencePattern | null;
   }): Promise<Task> {
     // Validate date if provided
@@ -185,8 +195,7 @@ export class TaskRepository {
     const task = await this.getTaskById(id);
     if (!task) throw new Error('Task not found');
 
-    const currentLifecycleStatus = this.extractLifecycleStatus(task.status as string);
-    const newLifecycleStatus = data.status || currentLifecycleStatus;
+    const previousGoalId = task.goalId;
 
     return await database.write(async () => {
       const updatedTask = await task.update(t => {
@@ -217,16 +226,15 @@ export class TaskRepository {
             t.recurrencePatternJson = undefined;
           }
         }
-        // Store lifecycle status with sync marker, preserving pending_create for offline-created tasks
-        // SyncService will extract lifecycle status during push
-        const currentStatus = t.status as string;
-        if (currentStatus && currentStatus.startsWith('pending_create:')) {
-          t.status = `pending_create:${newLifecycleStatus}`;
-        } else {
-          t.status = `pending_update:${newLifecycleStatus}`;
-        }
+        if (data.status !== undefined) t.lifecycleStatus = data.status;
+        // Preserve pending_create for offline-created tasks
+        t.syncState = getPendingSyncState(t.syncState);
         t.updatedAt = new Date();
       });
+      await enqueueTaskChange(updatedTask);
+      if (data.status !== undefined || data.goalId !== undefined) {
+        await recalculateLinkedGoals(previousGoalId, updatedTask.goalId);
+      }
 
       return updatedTask;
     });
@@ -257,9 +265,13 @@ export class TaskRepository {
 
         await database.write(async () => {
           await task.update(t => {
-            t.status = 'pending_delete';
+            t.syncState = 'pending_delete';
             t.updatedAt = new Date();
           });
+          await enqueueTaskChange(task);
+          await taskDependencyRepository.removeDependenciesForTask(task.id);
+          await taskChecklistRepository.removeItemsForTask(task.id);
+          await recalculateLinkedGoals(task.goalId);
         });
 
         // Success - exit the retry loop
@@ -296,23 +308,62 @@ export class TaskRepository {
    */
   async updateTaskStatus(
     id: string,
-    status: 'not_started' | 'in_progress' | 'completed'
+    status: TaskLifecycleStatus
   ): Promise<Task> {
     const database = getDatabase();
     const task = await this.getTaskById(id);
     if (!task) throw new Error('Task not found');
 
+    // Completing a recurring task advances it to the next occurrence
+    if (status === 'completed') {
+      return await this.completeTask(id);
+    }
+
     return await this.updateTask(id, { status });
   }
 
   /**
    * Completes a task by updating its status.
+   * Recurring tasks are advanced locally (same record, next due date, completedCount + 1)
+   * so offline completions never stall; the result syncs as a regular update.
+   * Paused series and series whose end condition is met are simply marked completed.
    * @param id - The ID of the task to complete
-   * @returns Promise<Task> - The completed task
+   * @returns Promise<Task> - The completed (or advanced) task
    * @throws Error - Throws "Task not found" if the task doesn't exist
    */
   async completeTask(id: string): Promise<Task> {
-    return await this.updateTaskStatus(id, 'completed');
+    const task = await this.getTaskById(id);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    const pattern = task.recurrence_pattern;
+    if (!isValidRecurrencePattern(pattern)) {
+      return await this.updateTask(id, { status: 'completed' });
+    }
+
+    const advance = advanceRecurrence(pattern, task.dueDate);
+    switch (advance.type) {
+      case 'advanced':
+        logger.info('Recurring task advanced locally', {
+          taskId: id,
+          nextDueDate: advance.nextDueDate.toISOString(),
+          completedCount: advance.pattern.completedCount,
+        });
+        return await this.updateTask(id, {
+          status: 'not_started',
+          dueDate: advance.nextDueDate,
+          recurrencePattern: advance.pattern,
+        });
+      case 'ended':
+        logger.info('Recurring task series ended', { taskId: id, reason: advance.reason });
+        return await this.updateTask(id, {
+          status: 'completed',
+          recurrencePattern: advance.pattern,
+        });
+      default:
+        return await this.updateTask(id, { status: 'completed' });
+    }
   }
 
   /**
@@ -340,16 +391,70 @@ export class TaskRepository {
     }
   }
 
+  /**
+   * Builds the focus ranking input from the user's tasks: skip counts, goal deadlines and
+   * the categories of tasks completed today.
+   */
+  private async buildFocusRanking(
+    userId: string,
+    tasks: Task[],
+    schedulingPreferences?: Pick<SchedulingPreferences, 'preferred_start_time' | 'preferred_end_time' | 'work_days'> | null
+  ): Promise<{ toCandidate: (task: Task) => FocusCandidate; context: FocusRankingContext }> {
+    const now = new Date();
+    const [skipCounts, goals] = await Promise.all([
+      focusSkips.getSkipCounts(),
+      getDatabase().get<Goal>('goals').query(Q.where('user_id', userId)).fetch(),
+    ]);
+    const goalById = new Map(goals.map(goal => [goal.id, goal]));
+
+    const startOfToday = new Date(now);
+    startOfToday.setHours(0, 0, 0, 0);
+    const recentCategories = tasks
+      .filter(t => t.lifecycleStatus === 'completed' && t.category && t.updatedAt >= startOfToday)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(t => t.category!);
+
+    const toCandidate = (task: Task): FocusCandidate => {
+      const goal = task.goalId ? goalById.get(task.goalId) : undefined;
+      return {
+        id: task.id,
+        title: task.title,
+        priority: task.priority,
+        dueDate: task.dueDate,
+        estimatedDurationMinutes: task.estimatedDurationMinutes,
+        category: task.category,
+        goalTitle: goal?.title ?? null,
+        goalTargetDate: goal?.targetCompletionDate ?? null,
+        skipCount: skipCounts[task.id] ?? 0,
+      };
+    };
+
+    return {
+      toCandidate,
+      context: {
+        now,
+        recentCategories,
+        window: schedulingPreferences
+          ? {
+            startTime: schedulingPreferences.preferred_start_time,
+            endTime: schedulingPreferences.preferred_end_time,
+            workDays: schedulingPreferences.work_days,
+          }
+          : null,
+      },
+    };
+  }
+
   /**
    * Momentum Mode: Find and set the next focus task for today.
-   * Replicates backend logic from getNextFocusTask() controller.
+   * Replicates the backend getNextFocusTask() controller's filtering; ranking is pluggable.
    * 
    * Selection criteria:
    * 1. Unset current focus if currentTaskId provided
-   * 2. Filter candidates: user's tasks, not completed, not in excludeIds
-   * 3. If travelPreference === 'home_only', prefer tasks without location
-   * 4. Sort by priority (high > medium > low), then due date (earliest first, nulls last)
-   * 5. Select first candidate
+   * 2. Filter candidates: user's tasks, not completed, not blocked by an open task, not in excludeIds
+   * 3. If travelPreference === 'home_only', only tasks without location
+   * 4. Rank with the strategy (default: balancedFocusStrategy from utils/focusRanking)
+   * 5. Select the best candidate
    * 6. Ensure estimated_duration_minutes (default to 30 if missing)
    * 7. Set is_today_focus = true and mark for sync
    * 
@@ -357,6 +462,8 @@ export class TaskRepository {
    * @param options.currentTaskId - ID of current focus task to unset (optional)
    * @param options.travelPreference - 'allow_travel' or 'home_only' (optional, defaults to 'allow_travel')
    * @param options.excludeIds - Array of task IDs to exclude (optional)
+   * @param options.schedulingPreferences - Working hours used to judge whether a task fits the rest of the day (optional)
+   * @param options.strategy - Ranking strategy (optional)
    * @returns Promise<Task> - The selected and updated focus task
    * @throws Error - If no matching task found (message: 'No other tasks match your criteria.')
    */
@@ -364,52 +471,63 @@ export class TaskRepository {
     currentTaskId?: string | null;
     travelPreference?: 'allow_travel' | 'home_only';
     excludeIds?: string[];
+    schedulingPreferences?: Pick<SchedulingPreferences, 'preferred_start_time' | 'preferred_end_time' | 'work_days'> | null;
+    strategy?: FocusRankingStrategy;
   }): Promise<Task> {
     const database = getDatabase();
     const userId = this.getCurrentUserId();
-    const { currentTaskId, travelPreference = 'allow_travel', excludeIds = [] } = options;
-
-    return await database.write(async () => {
+    const {
+      currentTaskId,
+      travelPreference = 'allow_travel',
+      excludeIds = [],
+      schedulingPreferences,
+      strategy = balancedFocusStrategy,
+    } = options;
+    let openTaskIds: string[] = [];
+
+    const selected = await database.write(async () => {
       // Step 1: Unset current focus if provided (inline to avoid nested writes)
       if (currentTaskId) {
         const focusTasks = await database.get<Task>('tasks')
           .query(
             Q.where('user_id', userId),
             Q.where('is_today_focus', true),
-            Q.where('status', Q.notEq('pending_delete'))
+            Q.where('sync_state', Q.notEq('pending_delete'))
           )
           .fetch();
 
         for (const task of focusTasks) {
-          const currentLifecycleStatus = this.extractLifecycleStatus(task.status as string);
           await task.update(t => {
             t.isTodayFocus = false;
-            // Preserve lifecycle status while marking for sync, preserving pending_create for offline-created tasks
-            const currentStatus = t.status as string;
-            if (currentStatus && currentStatus.startsWith('pending_create:')) {
-              t.status = `pending_create:${currentLifecycleStatus}`;
-            } else {
-              t.status = `pending_update:${currentLifecycleStatus}`;
-            }
+            // Mark for sync, preserving pending_create for offline-created tasks
+            t.syncState = getPendingSyncState(t.syncState);
             t.updatedAt = new Date();
           });
+          await enqueueTaskChange(task);
         }
       }
 
       // Step 2: Fetch candidate tasks
       // WatermelonDB doesn't support complex OR conditions, so we'll fetch and filter in JavaScript
-      let candidates = await database.get<Task>('tasks')
+      const allTasks = await database.get<Task>('tasks')
         .query(
           Q.where('user_id', userId),
-          Q.where('status', Q.notEq('pending_delete'))
+          Q.where('sync_state', Q.notEq('pending_delete'))
         )
         .fetch();
+      openTaskIds = allTasks.filter(t => t.lifecycleStatus !== 'completed').map(t => t.id);
+
+      const blockers = await taskDependencyRepository.getOpenBlockers();
 
       // Step 3: Filter candidates in JavaScript
-      candidates = candidates.filter(task => {
-        // Exclude completed tasks (extract lifecycle status from combined format)
-        const lifecycleStatus = this.extractLifecycleStatus(task.status as string);
-        if (lifecycleStatus === 'completed') {
+      let candidates = allTasks.filter(task => {
+        // Exclude completed tasks
+        if (task.lifecycleStatus === 'completed') {
+          return false;
+        }
+
+        // Exclude tasks still waiting on another task
+        if (blockers.has(task.id)) {
           return false;
         }
 
@@ -426,66 +544,155 @@ export class TaskRepository {
         return true;
       });
 
-      // Step 4: Sort candidates
-      // Priority mapping: high=3, medium=2, low=1, undefined/null=0
-      const priorityMap: Record<string, number> = {
-        'high': 3,
-        'medium': 2,
-        'low': 1,
-      };
-
-      candidates.sort((a, b) => {
-        // Primary sort: Priority (descending - higher priority first)
-        const aPriority = priorityMap[a.priority || ''] || 0;
-        const bPriority = priorityMap[b.priority || ''] || 0;
-        if (aPriority !== bPriority) {
-          return bPriority - aPriority; // Descending
-        }
-
-        // Secondary sort: Due date (ascending - earliest first, nulls last)
-        const aDueDate = a.dueDate?.getTime() ?? Number.MAX_SAFE_INTEGER;
-        const bDueDate = b.dueDate?.getTime() ?? Number.MAX_SAFE_INTEGER;
-        return aDueDate - bDueDate;
-      });
-
-      // Step 5: Apply travel preference (if home_only)
+      // Apply travel preference (if home_only)
       // Filter out tasks with non-empty location (exclude tasks that require travel)
       if (travelPreference === 'home_only') {
         candidates = candidates.filter(t => !t.location || t.location.trim() === '');
-        // Preserve existing priority/due-date ordering (already sorted in Step 4)
-        // If candidates array is empty after filtering, Step 6 will handle the error
       }
 
-      // Step 6: Select first candidate
       if (candidates.length === 0) {
         throw new Error('No other tasks match your criteria.');
       }
 
-      const next = candidates[0];
+      // Step 4: Rank candidates
+      const { toCandidate, context } = await this.buildFocusRanking(userId, allTasks, schedulingPreferences);
+      const ranked = rankFocusCandidates(candidates.map(toCandidate), context, strategy);
+      const next = candidates.find(t => t.id === ranked[0].candidate.id)!;
 
-      // Step 7: Ensure estimated duration (default to 30 if missing or invalid)
+      // Step 5: Ensure estimated duration (default to 30 if missing or invalid)
       const ensureDuration = (task: Task): number => {
         const duration = task.estimatedDurationMinutes;
         return (Number.isFinite(duration) && duration && duration > 0) ? duration : 30;
       };
 
-      // Step 8: Update task as focus
-      const currentLifecycleStatus = this.extractLifecycleStatus(next.status as string);
+      // Step 6: Update task as focus
       const updatedTask = await next.update(t => {
         t.isTodayFocus = true;
         t.estimatedDurationMinutes = ensureDuration(next);
-        // Preserve lifecycle status while marking for sync, preserving pending_create for offline-created tasks
-        const currentStatus = t.status as string;
-        if (currentStatus && currentStatus.startsWith('pending_create:')) {
-          t.status = `pending_create:${currentLifecycleStatus}`;
-        } else {
-          t.status = `pending_update:${currentLifecycleStatus}`;
-        }
+        // Mark for sync, preserving pending_create for offline-created tasks
+        t.syncState = getPendingSyncState(t.syncState);
         t.updatedAt = new Date();
       });
+      await enqueueTaskChange(updatedTask);
 
       return updatedTask;
     });
+
+    await focusSkips.prune(openTaskIds).catch(() => { });
+    return selected;
+  }
+
+  /**
+   * Explains why today's focus task is a good pick ("why this task"), scored the same way
+   * getNextFocusTask ranks candidates.
+   * @returns The focus task and its reasons, or null when no task is in focus
+   */
+  async explainFocusTask(options: {
+    schedulingPreferences?: Pick<SchedulingPreferences, 'preferred_start_time' | 'preferred_end_time' | 'work_days'> | null;
+    strategy?: FocusRankingStrategy;
+  } = {}): Promise<{ task: Task; reasons: string[] } | null> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    const tasks = await database.get<Task>('tasks')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('sync_state', Q.notEq('pending_delete'))
+      )
+      .fetch();
+
+    const focus = tasks.find(t => t.isTodayFocus && t.lifecycleStatus !== 'completed');
+    if (!focus) {
+      return null;
+    }
+
+    const { toCandidate, context } = await this.buildFocusRanking(userId, tasks, options.schedulingPreferences);
+    const [ranked] = rankFocusCandidates([toCandidate(focus)], context, options.strategy);
+    return { task: focus, reasons: ranked.reasons };
+  }
+
+  /**
+   * Finds free time for a task from the calendar events on this device, so scheduling works
+   * offline. See utils/freeBusy.ts for how preferences shape the slots.
+   * @returns Slots of the task's estimated duration (60 minutes if unset), earliest first
+   */
+  async getLocalTimeSlots(
+    taskId: string,
+    schedulingPreferences?: Partial<FreeBusyPreferences> | null,
+    options: Pick<FindSlotsOptions, 'from' | 'days' | 'limit'> = {}
+  ): Promise<TimeSlot[]> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    const task = await this.getTaskById(taskId);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    const events = await database.get<CalendarEvent>('calendar_events')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('status', Q.notEq('pending_delete'))
+      )
+      .fetch();
+
+    return findFreeSlots(events, schedulingPreferences, {
+      ...options,
+      durationMinutes: task.estimatedDurationMinutes,
+      ignoreTaskId: task.id,
+    });
+  }
+
+  /**
+   * Places a task in a slot: moves its calendar event if it has one, otherwise creates a pending
+   * event linked to it. The event syncs after the task when the task was created offline.
+   * @returns The task's calendar event
+   */
+  async scheduleTaskLocally(taskId: string, slot: Pick<TimeSlot, 'start_time' | 'end_time'>): Promise<CalendarEvent> {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    const task = await this.getTaskById(taskId);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    const [existing] = await database.get<CalendarEvent>('calendar_events')
+      .query(
+        Q.where('task_id', task.id),
+        Q.where('status', Q.notEq('pending_delete'))
+      )
+      .fetch();
+
+    return await database.write(async () => {
+      if (existing) {
+        await existing.update(e => {
+          e.startTime = slot.start_time;
+          e.endTime = slot.end_time;
+          e.isAllDay = false;
+          e.timeZone = e.timeZone || getDeviceTimeZone();
+          // Preserve pending_create for events that never reached the server
+          e.status = e.status === 'pending_create' ? 'pending_create' : 'pending_update';
+          e.updatedAt = new Date();
+        });
+        await outboxRepository.enqueue('calendar_events', existing.id, 'update', [{ table: 'tasks', id: task.id }]);
+        return existing;
+      }
+
+      const event = await database.get<CalendarEvent>('calendar_events').create(e => {
+        e.userId = userId;
+        e.title = task.title;
+        e.description = task.description;
+        e.location = task.location;
+        e.startTime = slot.start_time;
+        e.endTime = slot.end_time;
+        e.isAllDay = false;
+        e.timeZone = getDeviceTimeZone();
+        e.taskId = task.id;
+        e.status = 'pending_create';
+        e.createdAt = new Date();
+        e.updatedAt = new Date();
+      });
+      await outboxRepository.enqueue('calendar_events', event.id, 'create', [{ table: 'tasks', id: task.id }]);
+      return event;
+    });
   }
 
   /**
@@ -501,7 +708,7 @@ export class TaskRepository {
         .query(
           Q.where('user_id', userId),
           Q.where('is_today_focus', true),
-          Q.where('status', Q.notEq('pending_delete'))
+          Q.where('sync_state', Q.notEq('pending_delete'))
         )
         .fetch();
 
@@ -511,19 +718,13 @@ export class TaskRepository {
 
       await database.write(async () => {
         for (const task of focusTasks) {
-          const currentLifecycleStatus = this.extractLifecycleStatus(task.status as string);
-
           await task.update(t => {
             t.isTodayFocus = false;
-            // Preserve lifecycle status while marking for sync, preserving pending_create for offline-created tasks
-            const currentStatus = t.status as string;
-            if (currentStatus && currentStatus.startsWith('pending_create:')) {
-              t.status = `pending_create:${currentLifecycleStatus}`;
-            } else {
-              t.status = `pending_update:${currentLifecycleStatus}`;
-            }
+            // Mark for sync, preserving pending_create for offline-created tasks
+            t.syncState = getPendingSyncState(t.syncState);
             t.updatedAt = new Date();
           });
+          await enqueueTaskChange(task);
         }
       });
     } catch (error) {
@@ -543,11 +744,23 @@ export class TaskRepository {
     return database.get<Task>('tasks')
       .query(
         Q.where('user_id', userId),
-        Q.where('status', Q.notEq('pending_delete'))
+        Q.where('sync_state', Q.notEq('pending_delete'))
       )
       .observe();
   }
 
+  // Re-emits when a title or status changes, e.g. for "blocked by" pickers
+  observeTasksWithStatus() {
+    const database = getDatabase();
+    const userId = this.getCurrentUserId();
+    return database.get<Task>('tasks')
+      .query(
+        Q.where('user_id', userId),
+        Q.where('sync_state', Q.notEq('pending_delete'))
+      )
+      .observeWithColumns(['title', 'lifecycle_status']);
+  }
+
   observeTaskById(id: string) {
     const database = getDatabase();
     return database.get<Task>('tasks').findAndObserve(id);
@@ -560,7 +773,7 @@ export class TaskRepository {
       .query(
         Q.where('user_id', userId),
         Q.where('goal_id', goalId),
-        Q.where('status', Q.notEq('pending_delete'))
+        Q.where('sync_state', Q.notEq('pending_delete'))
       )
       .observe();
   }
@@ -572,7 +785,7 @@ export class TaskRepository {
       .query(
         Q.where('user_id', userId),
         Q.where('is_today_focus', true),
-        Q.where('status', Q.notEq('pending_delete'))
+        Q.where('sync_state', Q.notEq('pending_delete'))
       )
       .observe();
   }
@@ -596,8 +809,6 @@ export class TaskRepository {
         .fetch();
 
       await database.write(async () => {
-        const lifecycleStatus = this.extractLifecycleStatus(localTask.status as string);
-
         // Create new task with server ID
         const newTask = await database.get<Task>('tasks').create(t => {
           t._raw.id = serverId;
@@ -614,7 +825,9 @@ export class TaskRepository {
           t.calendarEventId = localTask.calendarEventId;
           t.recurrencePatternJson = localTask.recurrencePatternJson;
           t.userId = localTask.userId;
-          t.status = 'synced';
+          t.lifecycleStatus = localTask.lifecycleStatus;
+          t.syncState = 'synced';
+          t.baseSnapshot = serializeSnapshot(taskToSnapshot(t));
           t.createdAt = localTask.createdAt;
           t.updatedAt = localTask.updatedAt;
         });
@@ -626,6 +839,10 @@ export class TaskRepository {
           });
         }
 
+        await taskDependencyRepository.remapTaskId(localId, serverId);
+        await taskChecklistRepository.remapTaskId(localId, serverId);
+        await outboxRepository.remapRecordId('tasks', localId, serverId);
+
         // Delete old task record
         await localTask.destroyPermanently();
       });
@@ -722,8 +939,10 @@ export class TaskRepository {
               }
             }
             t.userId = serverTask.user_id || userId;
-            // Set status to 'synced' to mark record as synced and prevent sync loop
-            t.status = 'synced';
+            t.lifecycleStatus = isTaskLifecycleStatus(serverTask.status) ? serverTask.status : 'not_started';
+            // Mark record as synced to prevent sync loop
+            t.syncState = 'synced';
+            t.baseSnapshot = serializeSnapshot(taskToSnapshot(t));
             t.createdAt = serverTask.created_at ? new Date(serverTask.created_at) : new Date();
             t.updatedAt = serverTask.updated_at ? new Date(serverTask.updated_at) : new Date();
           });
@@ -0,0 +1,104 @@
+/// <reference types="jest" />
+
+const mockUnsafeSqlQuery = jest.fn((sql: string, args: any[]) => ({ sql, args }));
+const mockFetchRaw = jest.fn();
+let mockIndexAvailable = false;
+
+jest.mock('@nozbe/watermelondb', () => ({
+  Q: {
+    unsafeSqlQuery: (sql: string, args: any[]) => mockUnsafeSqlQuery(sql, args),
+  },
+}));
+
+jest.mock('../../db', () => ({
+  getDatabase: () => ({
+    get: () => ({
+      query: () => ({ unsafeFetchRaw: () => mockFetchRaw() }),
+    }),
+  }),
+}));
+
+jest.mock('../../db/searchIndex', () => ({
+  ...jest.requireActual('../../db/searchIndex'),
+  isSearchIndexAvailable: () => mockIndexAvailable,
+}));
+
+jest.mock('../../services/auth', () => ({
+  authService: {
+    getCurrentUser: () => ({ id: 'user-1' }),
+  },
+}));
+
+const { searchRepository } = require('../SearchRepository');
+
+describe('SearchRepository.search()', () => {
+  beforeEach(() => {
+    mockUnsafeSqlQuery.mockClear();
+    mockFetchRaw.mockReset();
+  });
+
+  it('ranks FTS matches when the search index is available', async () => {
+    mockIndexAvailable = true;
+    mockFetchRaw.mockResolvedValue([]);
+
+    await searchRepository.search('plan trip', { tables: ['tasks'] });
+
+    const [sql, args] = mockUnsafeSqlQuery.mock.calls[0];
+    expect(sql).toContain('"tasks_search" match ?');
+    expect(sql).toContain('bm25("tasks_search", 10.0, 1.0)');
+    expect(args).toEqual(['\u0002', '\u0003', '"plan"* "trip"*', 'user-1', 50]);
+  });
+
+  it('falls back to plain text matching without FTS5', async () => {
+    mockIndexAvailable = false;
+    mockFetchRaw.mockResolvedValue([
+      {
+        table_name: 'tasks',
+        record_id: 'task-1',
+        target_id: 'task-1',
+        title: 'Plan the trip',
+        context: null,
+        snippet: 'Plan the trip Book flights',
+        score: 0,
+      },
+    ]);
+
+    const results = await searchRepository.search('plan trip', { tables: ['tasks', 'milestone_steps'] });
+
+    const [sql, args] = mockUnsafeSqlQuery.mock.calls[0];
+    expect(sql).not.toContain('match');
+    expect(sql).not.toContain('_search');
+    // Every word has to appear in one of the table's columns
+    expect(sql).toContain('(t."title" like ? or t."description" like ?) and (t."title" like ? or t."description" like ?)');
+    expect(sql).toContain('(s."text" like ?) and (s."text" like ?)');
+    expect(args).toEqual([
+      '%plan%', '%plan%', '%trip%', '%trip%', 'user-1',
+      '%plan%', '%trip%', 'user-1',
+      50,
+    ]);
+
+    expect(results).toEqual([
+      {
+        tableName: 'tasks',
+        recordId: 'task-1',
+        targetId: 'task-1',
+        title: 'Plan the trip',
+        context: undefined,
+        snippet: [
+          { text: 'Plan', highlighted: true },
+          { text: ' the ', highlighted: false },
+          { text: 'trip', highlighted: true },
+          { text: ' Book flights', highlighted: false },
+        ],
+        score: 0,
+      },
+    ]);
+  });
+
+  it('returns nothing for input without words', async () => {
+    mockIndexAvailable = false;
+
+    expect(await searchRepository.search(' -* ')).toEqual([]);
+    expect(mockUnsafeSqlQuery).not.toHaveBeenCalled();
+  });
+});
@@ -44,8 +44,8 @@ describe('TaskRepository Comprehensive Tests', () => {
       expect(task.title).toBe('Test Task');
       expect(task.description).toBe('Test Description');
       expect(task.priority).toBe('medium');
-      // Task should have combined status format with lifecycle status
-      expect(task.status).toMatch(/pending_create:not_started/);
+      expect(task.lifecycleStatus).toBe('not_started');
+      expect(task.syncState).toBe('pending_create');
       expect(task.userId).toBe('test-user-id');
     });
 
@@ -55,7 +55,7 @@ describe('TaskRepository Comprehensive Tests', () => {
         status: 'in_progress',
       });
 
-      expect(task.status).toBe('pending_create:in_progress');
+      expect(task.lifecycleStatus).toBe('in_progress');
     });
 
     test('creates task with completed status', async () => {
@@ -64,7 +64,7 @@ describe('TaskRepository Comprehensive Tests', () => {
         status: 'completed',
       });
 
-      expect(task.status).toBe('pending_create:completed');
+      expect(task.lifecycleStatus).toBe('completed');
     });
 
     test('creates task with all fields', async () => {
@@ -87,7 +87,7 @@ describe('TaskRepository Comprehensive Tests', () => {
       expect(task.dueDate).toEqual(dueDate);
       expect(task.goalId).toBe('goal-123');
       expect(task.isTodayFocus).toBe(true);
-      expect(task.status).toBe('pending_create:in_progress');
+      expect(task.lifecycleStatus).toBe('in_progress');
     });
 
     test('rejects invalid due date', async () => {
@@ -118,34 +118,33 @@ describe('TaskRepository Comprehensive Tests', () => {
 
       expect(updated.title).toBe('Updated Title');
       expect(updated.description).toBe('Original Description');
-      expect(updated.status).toMatch(/pending_update:/);
+      expect(updated.syncState).toMatch(/^pending_/);
     });
 
-    test('updates task with combined status format', async () => {
-      // Task starts with pending_create:not_started
-      expect(testTask.status).toBe('pending_create:not_started');
+    test('keeps pending_create sync state when updating an unsynced task', async () => {
+      expect(testTask.syncState).toBe('pending_create');
 
       const updated = await taskRepository.updateTask(testTask.id, {
         title: 'Updated Title',
       });
 
-      // Should preserve lifecycle status and add pending_update marker
-      expect(updated.status).toBe('pending_update:not_started');
+      // Should preserve lifecycle status and remain a create for the server
+      expect(updated.lifecycleStatus).toBe('not_started');
+      expect(updated.syncState).toBe('pending_create');
     });
 
-    test('updates task status from combined format', async () => {
-      // Start with pending_create:not_started
+    test('updates lifecycle status independently of sync state', async () => {
       const updated1 = await taskRepository.updateTask(testTask.id, {
         title: 'Updated',
       });
-      expect(updated1.status).toBe('pending_update:not_started');
+      expect(updated1.lifecycleStatus).toBe('not_started');
 
       // Update status to completed
       const updated2 = await taskRepository.updateTask(testTask.id, {
         status: 'completed',
       });
 
-      expect(updated2.status).toBe('pending_update:completed');
+      expect(updated2.lifecycleStatus).toBe('completed');
     });
 
     test('preserves lifecycle status when updating other fields', async () => {
@@ -160,14 +159,14 @@ describe('TaskRepository Comprehensive Tests', () => {
       });
 
       expect(updated.title).toBe('New Title');
-      expect(updated.status).toBe('pending_update:completed');
+      expect(updated.lifecycleStatus).toBe('completed');
     });
 
     test('handles update from synced status', async () => {
       // Manually set status to synced (simulating after sync)
       await database.write(async () => {
         await testTask.update(t => {
-          t.status = 'synced';
+          t.syncState = 'synced';
         });
       });
 
@@ -175,8 +174,9 @@ describe('TaskRepository Comprehensive Tests', () => {
         title: 'Updated from synced',
       });
 
-      // Should default to not_started lifecycle status
-      expect(updated.status).toBe('pending_update:not_started');
+      // Should keep the lifecycle status and mark the task for update
+      expect(updated.lifecycleStatus).toBe('not_started');
+      expect(updated.syncState).toBe('pending_update');
     });
 
     test('rejects update for non-existent task', async () => {
@@ -207,30 +207,30 @@ describe('TaskRepository Comprehensive Tests', () => {
 
     test('updates status to not_started', async () => {
       const updated = await taskRepository.updateTaskStatus(testTask.id, 'not_started');
-      expect(updated.status).toBe('pending_update:not_started');
+      expect(updated.lifecycleStatus).toBe('not_started');
     });
 
     test('updates status to in_progress', async () => {
       const updated = await taskRepository.updateTaskStatus(testTask.id, 'in_progress');
-      expect(updated.status).toBe('pending_update:in_progress');
+      expect(updated.lifecycleStatus).toBe('in_progress');
     });
 
     test('updates status to completed', async () => {
       const updated = await taskRepository.updateTaskStatus(testTask.id, 'completed');
-      expect(updated.status).toBe('pending_update:completed');
+      expect(updated.lifecycleStatus).toBe('completed');
     });
 
-    test('updates status from combined format', async () => {
-      // First update to pending_update:in_progress
+    test('updates status after a previous status change', async () => {
+      // First update to in_progress
       await taskRepository.updateTaskStatus(testTask.id, 'in_progress');
       
       // Then update to completed
       const updated = await taskRepository.updateTaskStatus(testTask.id, 'completed');
-      expect(updated.status).toBe('pending_update:completed');
+      expect(updated.lifecycleStatus).toBe('completed');
     });
 
-    test('preserves lifecycle status when task has combined status', async () => {
-      // Set to pending_update:in_progress
+    test('preserves lifecycle status when updating other fields', async () => {
+      // Set to in_progress
       await taskRepository.updateTaskStatus(testTask.id, 'in_progress');
       
       // Update other field - should preserve in_progress status
@@ -238,7 +238,7 @@ describe('TaskRepository Comprehensive Tests', () => {
         title: 'Updated Title',
       });
       
-      expect(updated.status).toBe('pending_update:in_progress');
+      expect(updated.lifecycleStatus).toBe('in_progress');
     });
 
     test('rejects status update for non-existent task', async () => {
@@ -259,26 +259,27 @@ describe('TaskRepository Comprehensive Tests', () => {
 
     test('completes task', async () => {
       const completed = await taskRepository.completeTask(testTask.id);
-      expect(completed.status).toBe('pending_update:completed');
+      expect(completed.lifecycleStatus).toBe('completed');
     });
 
     test('completes task from different statuses', async () => {
       // From not_started
       await taskRepository.completeTask(testTask.id);
       let task = await taskRepository.getTaskById(testTask.id);
-      expect(task?.status).toBe('pending_update:completed');
+      expect(task.lifecycleStatus).toBe('completed');
 
       // Reset to not_started
       await database.write(async () => {
         await task!.update(t => {
-          t.status = 'pending_update:not_started';
+          t.lifecycleStatus = 'not_started';
+          t.syncState = 'pending_update';
         });
       });
 
       // Complete from in_progress
       await taskRepository.updateTaskStatus(testTask.id, 'in_progress');
       const completed = await taskRepository.completeTask(testTask.id);
-      expect(completed.status).toBe('pending_update:completed');
+      expect(completed.lifecycleStatus).toBe('completed');
     });
 
     test('rejects completion for non-existent task', async () => {
@@ -288,6 +289,71 @@ describe('TaskRepository Comprehensive Tests', () => {
     });
   });
 
+  describe('Recurring Task Completion', () => {
+    test('advances a recurring task to its next occurrence', async () => {
+      const task = await taskRepository.createTask({
+        title: 'Water plants',
+        dueDate: new Date(2024, 0, 10, 9, 0),
+        recurrencePattern: { type: 'daily', interval: 2, completedCount: 0 },
+      });
+
+      const advanced = await taskRepository.completeTask(task.id);
+
+      expect(advanced.id).toBe(task.id);
+      expect(advanced.lifecycleStatus).toBe('not_started');
+      expect(advanced.dueDate).toEqual(new Date(2024, 0, 12, 9, 0));
+      expect(advanced.recurrence_pattern.completedCount).toBe(1);
+      expect(advanced.syncState).toBe('pending_create');
+      expect(mockCollection._mockTasks).toHaveLength(1);
+    });
+
+    test('advances when completed through updateTaskStatus', async () => {
+      const task = await taskRepository.createTask({
+        title: 'Weekly review',
+        dueDate: new Date(2024, 0, 5, 9, 0),
+        recurrencePattern: { type: 'weekly', interval: 1, daysOfWeek: [5] },
+      });
+
+      const advanced = await taskRepository.updateTaskStatus(task.id, 'completed');
+
+      expect(advanced.lifecycleStatus).toBe('not_started');
+      expect(advanced.dueDate).toEqual(new Date(2024, 0, 12, 9, 0));
+    });
+
+    test('ends the series when the count end condition is reached', async () => {
+      const task = await taskRepository.createTask({
+        title: 'Physio exercises',
+        dueDate: new Date(2024, 0, 10, 9, 0),
+        recurrencePattern: {
+          type: 'daily',
+          interval: 1,
+          completedCount: 2,
+          endCondition: { type: 'count', value: 3 },
+        },
+      });
+
+      const completed = await taskRepository.completeTask(task.id);
+
+      expect(completed.lifecycleStatus).toBe('completed');
+      expect(completed.dueDate).toEqual(new Date(2024, 0, 10, 9, 0));
+      expect(completed.recurrence_pattern.completedCount).toBe(3);
+    });
+
+    test('completes a paused recurring task without advancing', async () => {
+      const task = await taskRepository.createTask({
+        title: 'Paused habit',
+        dueDate: new Date(2024, 0, 10, 9, 0),
+        recurrencePattern: { type: 'daily', interval: 1, completedCount: 4, is_paused: true },
+      });
+
+      const completed = await taskRepository.completeTask(task.id);
+
+      expect(completed.lifecycleStatus).toBe('completed');
+      expect(completed.dueDate).toEqual(new Date(2024, 0, 10, 9, 0));
+      expect(completed.recurrence_pattern.completedCount).toBe(4);
+    });
+  });
+
   describe('Focus Task Management', () => {
     let task1: Task;
     let task2: Task;
@@ -309,7 +375,7 @@ describe('TaskRepository Comprehensive Tests', () => {
       const focused = await taskRepository.setTaskAsFocus(task1.id);
       
       expect(focused.isTodayFocus).toBe(true);
-      expect(focused.status).toMatch(/pending_update:/);
+      expect(focused.syncState).toMatch(/^pending_/);
       
       // Verify task is actually focus
       const retrieved = await taskRepository.getTaskById(task1.id);
@@ -321,7 +387,7 @@ describe('TaskRepository Comprehensive Tests', () => {
       await database.write(async () => {
         await task1.update(t => {
           t.isTodayFocus = true;
-          t.status = 'synced';
+          t.syncState = 'synced';
         });
       });
 
@@ -347,7 +413,7 @@ describe('TaskRepository Comprehensive Tests', () => {
       const focused = await taskRepository.setTaskAsFocus(task1.id);
       
       expect(focused.isTodayFocus).toBe(true);
-      expect(focused.status).toBe('pending_update:completed');
+      expect(focused.lifecycleStatus).toBe('completed');
     });
 
     test('preserves lifecycle status when unsetting focus', async () => {
@@ -365,7 +431,7 @@ describe('TaskRepository Comprehensive Tests', () => {
       // Verify task1 is not focus but still completed
       const retrieved1 = await taskRepository.getTaskById(task1.id);
       expect(retrieved1?.isTodayFocus).toBe(false);
-      expect(retrieved1?.status).toBe('pending_update:completed');
+      expect(retrieved1.lifecycleStatus).toBe('completed');
     });
 
     test('unsets all focus tasks', async () => {
@@ -373,11 +439,11 @@ describe('TaskRepository Comprehensive Tests', () => {
       await database.write(async () => {
         await task1.update(t => {
           t.isTodayFocus = true;
-          t.status = 'synced';
+          t.syncState = 'synced';
         });
         await task2.update(t => {
           t.isTodayFocus = true;
-          t.status = 'synced';
+          t.syncState = 'synced';
         });
       });
 
@@ -410,7 +476,7 @@ describe('TaskRepository Comprehensive Tests', () => {
       await taskRepository.deleteTask(testTask.id);
       
       const deleted = await taskRepository.getTaskById(testTask.id);
-      expect(deleted?.status).toBe('pending_delete');
+      expect(deleted?.syncState).toBe('pending_delete');
     });
 
     test('deletion is idempotent for non-existent task', async () => {
@@ -428,7 +494,7 @@ describe('TaskRepository Comprehensive Tests', () => {
     });
   });
 
-  describe('Combined Status Format Handling', () => {
+  describe('Sync State Tracking', () => {
     let testTask: Task;
 
     beforeEach(async () => {
@@ -437,51 +503,75 @@ describe('TaskRepository Comprehensive Tests', () => {
       });
     });
 
-    test('handles pending_create:not_started format', async () => {
-      expect(testTask.status).toBe('pending_create:not_started');
-      
+    test('new task starts as pending_create with not_started lifecycle', async () => {
+      expect(testTask.lifecycleStatus).toBe('not_started');
+      expect(testTask.syncState).toBe('pending_create');
+    });
+
+    test('moves a synced task to pending_update on edit', async () => {
+      await database.write(async () => {
+        await testTask.update(t => {
+          t.syncState = 'synced';
+        });
+      });
+
       const updated = await taskRepository.updateTask(testTask.id, {
         title: 'Updated',
       });
-      
-      expect(updated.status).toBe('pending_update:not_started');
+
+      expect(updated.lifecycleStatus).toBe('not_started');
+      expect(updated.syncState).toBe('pending_update');
+    });
+
+    test('moves a failed create back to pending_create on edit', async () => {
+      await database.write(async () => {
+        await testTask.update(t => {
+          t.syncState = 'sync_failed_create';
+        });
+      });
+
+      const updated = await taskRepository.updateTask(testTask.id, {
+        title: 'Updated',
+      });
+
+      expect(updated.syncState).toBe('pending_create');
     });
 
-    test('handles pending_update:in_progress format', async () => {
+    test('preserves in_progress lifecycle across edits', async () => {
       await taskRepository.updateTaskStatus(testTask.id, 'in_progress');
       
       const updated = await taskRepository.updateTask(testTask.id, {
         title: 'Updated',
       });
       
-      expect(updated.status).toBe('pending_update:in_progress');
+      expect(updated.lifecycleStatus).toBe('in_progress');
     });
 
-    test('handles pending_update:completed format', async () => {
+    test('preserves completed lifecycle across edits', async () => {
       await taskRepository.updateTaskStatus(testTask.id, 'completed');
       
       const updated = await taskRepository.updateTask(testTask.id, {
         title: 'Updated',
       });
       
-      expect(updated.status).toBe('pending_update:completed');
+      expect(updated.lifecycleStatus).toBe('completed');
     });
 
-    test('extracts lifecycle status from combined format', async () => {
+    test('creates and updates a completed task', async () => {
       // Create with completed status
       const task = await taskRepository.createTask({
         title: 'Completed Task',
         status: 'completed',
       });
       
-      expect(task.status).toBe('pending_create:completed');
+      expect(task.lifecycleStatus).toBe('completed');
       
       // Update should preserve completed status
       const updated = await taskRepository.updateTask(task.id, {
         title: 'Updated Completed Task',
       });
       
-      expect(updated.status).toBe('pending_update:completed');
+      expect(updated.lifecycleStatus).toBe('completed');
     });
   });
 
@@ -520,7 +610,7 @@ describe('TaskRepository Comprehensive Tests', () => {
       await taskRepository.updateTaskStatus(task.id, 'not_started');
       
       const final = await taskRepository.getTaskById(task.id);
-      expect(final?.status).toBe('pending_update:not_started');
+      expect(final.lifecycleStatus).toBe('not_started');
     });
 
     test('handles focus task changes with status updates', async () => {
@@ -533,7 +623,7 @@ describe('TaskRepository Comprehensive Tests', () => {
       const focused = await taskRepository.setTaskAsFocus(task.id);
       
       expect(focused.isTodayFocus).toBe(true);
-      expect(focused.status).toBe('pending_update:completed');
+      expect(focused.lifecycleStatus).toBe('completed');
       
       // Unset focus - should preserve completed status
       await taskRepository.setTaskAsFocus(task.id); // Set again (unsets first)
@@ -544,7 +634,7 @@ describe('TaskRepository Comprehensive Tests', () => {
       });
       
       const afterUnset = await taskRepository.getTaskById(task.id);
-      expect(afterUnset?.status).toBe('pending_update:completed');
+      expect(afterUnset.lifecycleStatus).toBe('completed');
     });
   });
 
@@ -459,21 +459,21 @@ describe('TaskRepository.getNextFocusTask()', () => {
       expect(next.estimatedDurationMinutes).toBe(30);
     });
 
-    test('preserves sync status format when updating focus', async () => {
+    test('preserves sync state when updating focus', async () => {
       const task = await taskRepository.createTask({
         title: 'Task',
         priority: 'high',
         status: 'not_started',
       });
 
-      // Task starts with pending_create status
-      expect(task.status).toMatch(/pending_create:/);
+      // Task starts with pending_create sync state
+      expect(task.syncState).toBe('pending_create');
 
       const next = await taskRepository.getNextFocusTask({});
 
       // Should preserve pending_create status for newly created tasks
       // This is correct behavior - newly created tasks keep pending_create until synced
-      expect(next.status).toMatch(/pending_create:/);
+      expect(next.syncState).toBe('pending_create');
     });
 
     test('preserves pending_create status for offline-created tasks', async () => {
@@ -483,14 +483,14 @@ describe('TaskRepository.getNextFocusTask()', () => {
         status: 'not_started',
       });
 
-      // Verify it has pending_create status
-      expect(task.status).toMatch(/pending_create:/);
+      // Verify it has pending_create sync state
+      expect(task.syncState).toBe('pending_create');
 
       const next = await taskRepository.getNextFocusTask({});
 
       // Should preserve pending_create status (not change to pending_update)
-      expect(next.status).toMatch(/pending_create:/);
-      expect(next.status).not.toMatch(/pending_update:/);
+      expect(next.syncState).toBe('pending_create');
+      expect(next.syncState).not.toBe('pending_update');
     });
   });
 
@@ -512,19 +512,17 @@ describe('TaskRepository.getNextFocusTask()', () => {
       expect(next.title).toBe('In Progress Task');
     });
 
-    test('handles combined status format (pending_update:completed)', async () => {
-      // Create a task with combined status format
+    test('excludes completed tasks with pending sync state', async () => {
       const task = await taskRepository.createTask({
         title: 'Completed Task',
         priority: 'high',
         status: 'completed',
       });
-      // Manually set combined status to simulate sync state
       await taskRepository.updateTask(task.id, { status: 'completed' });
       const updatedTask = await taskRepository.getTaskById(task.id);
-      // The update should have created pending_update:completed (or pending_create if still unsynced)
       // Newly created tasks keep pending_create until first sync
-      expect(updatedTask?.status).toMatch(/pending_(create|update):completed/);
+      expect(updatedTask?.lifecycleStatus).toBe('completed');
+      expect(updatedTask?.syncState).toBe('pending_create');
 
       await taskRepository.createTask({
         title: 'Not Started Task',
@@ -43,8 +43,12 @@ import ScheduleDisplay from '../../components/ai/ScheduleDisplay';
 import GoalBreakdownDisplay from '../../components/ai/GoalBreakdownDisplay';
 import GoalTitlesDisplay from '../../components/ai/GoalTitlesDisplay';
 import TaskDisplay, { Task as TaskDataFromDisplay } from '../../components/ai/TaskDisplay';
+import AiPayloadView from '../../components/ai/AiPayloadView';
 import Markdown from 'react-native-markdown-display';
 import { taskRepository } from '../../repositories/TaskRepository';
+import { taskChecklistRepository } from '../../repositories/TaskChecklistRepository';
+import { extractChecklistItems } from '../../utils/checklist';
+import { buildMessageMetadata, resolveMessagePayload } from '../../utils/aiPayload';
 import Task from '../../db/models/Task';
 
 const validGoalCategories = ['career', 'health', 'personal', 'education', 'finance', 'relationships', 'other'];
@@ -109,6 +113,7 @@ interface Message {
   sender: 'user' | 'ai';
   status?: string; // For sync status: 'synced', 'pending_create', etc.
   messageId?: string; // WatermelonDB message ID for status lookups (same as id)
+  metadata?: string; // Raw conversation_messages.metadata, may hold a structured payload
 }
 
 interface Conversation {
@@ -270,6 +275,7 @@ function AIChatScreen({ navigation, route, threads: observableThreads, database
         sender: (m.role === 'user' ? 'user' : 'ai') as 'user' | 'ai',
         status: m.status,
         messageId: m.id,
+        metadata: m.metadata,
       }));
       // Deduplicate to prevent duplicate keys
       return deduplicateMessages(mappedMessages);
@@ -748,6 +754,24 @@ function AIChatScreen({ navigation, route, threads: observableThreads, database
     });
   };
 
+  // Messages whose steps were already added to the task's checklist, so the action isn't repeated
+  const [checklistMessageIds, setChecklistMessageIds] = useState<Set<string>>(new Set());
+
+  const handleAddToChecklist = async (messageId: string, items: string[]) => {
+    const taskId = route?.params?.taskId;
+    if (!taskId) { return; }
+    try {
+      await taskChecklistRepository.addItems(taskId, items);
+      setChecklistMessageIds(prev => new Set(prev).add(messageId));
+      syncService.silentSync().catch(err => {
+        logger.warn('Background sync failed after adding checklist items:', err);
+      });
+    } catch (error) {
+      logger.error('Failed to add checklist items from AIChatScreen:', error);
+      Alert.alert('Error', 'There was an error adding the checklist. Please try again.');
+    }
+  };
+
   const handleSaveTasks = async (tasks: TaskDataFromDisplay[]) => {
     try {
       let updatedCount = 0;
@@ -1244,7 +1268,7 @@ function AIChatScreen({ navigation, route, threads: observableThreads, database
     tempAiMsgId: string,
     userId: string,
     userMessage: string,
-    response: { message: string; actions?: any[] },
+    response: { message: string; actions?: any[]; payload?: unknown },
     now: Date
   ) => {
     try {
@@ -1268,9 +1292,10 @@ function AIChatScreen({ navigation, route, threads: observableThreads, database
           m.userId = userId;
           m.role = 'assistant';
           m.content = response.message;
-          if (response.actions && response.actions.length > 0) {
-            m.metadata = JSON.stringify({ actions: response.actions });
-          }
+          m.metadata = buildMessageMetadata(
+            response.payload,
+            response.actions && response.actions.length > 0 ? { actions: response.actions } : {}
+          );
           m.status = 'synced'; // Mark as synced since backend already saved it
           m.createdAt = now;
           m.updatedAt = now;
@@ -1602,7 +1627,7 @@ function AIChatScreen({ navigation, route, threads: observableThreads, database
                 tempAiMessageId,
                 userId,
                 userMessage,
-                { message: finalMessage, actions },
+                { message: finalMessage, actions, payload: payload.payload },
                 now
               ).then(async () => {
                 // Trigger background sync to reconcile IDs
@@ -1862,6 +1887,27 @@ function AIChatScreen({ navigation, route, threads: observableThreads, database
     }
   }, [route.params?.initialMessage, handleSend, navigation, getMessagesForThread]);
 
+  // Open a thread at a specific message, e.g. from search
+  const messagesScrollRef = useRef<ScrollView>(null);
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const threadId = route.params?.threadId;
+    const messageId = route.params?.messageId;
+    if (!threadId || !messageId || route.params?.initialMessage) {
+      return;
+    }
+    setCurrentConversationId(threadId);
+    setFocusedMessageId(messageId);
+    setSidebarVisible(false);
+    navigation.setParams({ messageId: undefined });
+  }, [route.params?.threadId, route.params?.messageId, route.params?.initialMessage, navigation]);
+
+  const scrollToFocusedMessage = (y: number) => {
+    messagesScrollRef.current?.scrollTo({ y, animated: true });
+    setFocusedMessageId(null);
+  };
+
   // Initialize onboarding on component mount
   useEffect(() => {
     initializeOnboarding();
@@ -1929,11 +1975,13 @@ function AIChatScreen({ navigation, route, threads: observableThreads, database
       );
     }
 
-    // Check if this is structured content
-    const hasScheduleContent = isScheduleContent(msg.text);
-    const hasGoalBreakdownContent = isGoalBreakdownContent(msg.text);
-    const hasGoalTitlesContent = isGoalTitlesContent(msg.text);
-    const hasTaskContent = isTaskContent(msg.text);
+    // Structured payloads render through the registry; the text detectors only cover prose replies
+    const resolvedPayload = resolveMessagePayload(msg.metadata, msg.text);
+    const payloadType = resolvedPayload?.status === 'ok' ? resolvedPayload.payload.type : null;
+    const hasScheduleContent = !resolvedPayload && isScheduleContent(msg.text);
+    const hasGoalBreakdownContent = payloadType === 'goal_breakdown' || (!resolvedPayload && isGoalBreakdownContent(msg.text));
+    const hasGoalTitlesContent = !resolvedPayload && isGoalTitlesContent(msg.text);
+    const hasTaskContent = payloadType === 'task_list' || (!resolvedPayload && isTaskContent(msg.text));
 
     // Remove JSON code blocks and (when present) the goal breakdown section
     // from AI text for conversational display, then simplify redundant lines
@@ -1954,8 +2002,19 @@ function AIChatScreen({ navigation, route, threads: observableThreads, database
       return text.trim();
     })();
 
+    const checklistItems = route?.params?.taskId && !hasTaskContent ? extractChecklistItems(conversationalText) : [];
+
     // Use full width for structured content to prevent truncation
-    const shouldUseFullWidth = hasGoalBreakdownContent || hasScheduleContent || hasTaskContent || hasGoalTitlesContent;
+    const shouldUseFullWidth = !!resolvedPayload || hasGoalBreakdownContent || hasScheduleContent || hasTaskContent || hasGoalTitlesContent;
+
+    const handleGoalAction = (prefill: string, sendNow?: boolean) => {
+      setInput(prefill);
+      if (sendNow) {
+        setTimeout(() => {
+          handleSend();
+        }, 50);
+      }
+    };
 
     return (
       <View key={msg.id} style={[styles.aiMsg, shouldUseFullWidth && styles.aiMsgFullWidth]}>
@@ -1970,10 +2029,25 @@ function AIChatScreen({ navigation, route, threads: observableThreads, database
           </View>
         )}
         {/* Structured content components handle their own padding */}
+        {resolvedPayload && (
+          <AiPayloadView
+            resolved={resolvedPayload}
+            context={{
+              messageId: msg.id,
+              text: msg.text,
+              conversationalText,
+              conversationTitle: currentConversation?.title,
+              taskTitle: route?.params?.taskTitle,
+              onSaveGoal: handleSaveGoal,
+              onSaveTasks: handleSaveTasks,
+              onGoalAction: handleGoalAction,
+            }}
+          />
+        )}
         {hasScheduleContent && (
           <ScheduleDisplay text={msg.text} taskTitle={route?.params?.taskTitle} />
         )}
-        {hasGoalBreakdownContent && (
+        {hasGoalBreakdownContent && !resolvedPayload && (
           <GoalBreakdownDisplay
             key={`goal-breakdown-${msg.id}`}
             text={msg.text}
@@ -1983,21 +2057,25 @@ function AIChatScreen({ navigation, route, threads: observableThreads, database
           />
         )}
         {hasGoalTitlesContent && (
-          <GoalTitlesDisplay
-            text={msg.text}
-            onAction={(prefill, sendNow) => {
-              setInput(prefill);
-              if (sendNow) {
-                setTimeout(() => {
-                  handleSend();
-                }, 50);
-              }
-            }}
-          />
+          <GoalTitlesDisplay text={msg.text} onAction={handleGoalAction} />
         )}
-        {hasTaskContent && (
+        {hasTaskContent && !resolvedPayload && (
           <TaskDisplay text={msg.text} onSaveTasks={handleSaveTasks} />
         )}
+        {/* Opened from a task's AI help: offer the breakdown as that task's checklist */}
+        {!!route?.params?.taskId && checklistItems.length >= 2 && (
+          checklistMessageIds.has(msg.id) ? (
+            <Text style={styles.checklistAddedText}>Added to checklist</Text>
+          ) : (
+            <TouchableOpacity
+              style={styles.checklistButton}
+              onPress={() => handleAddToChecklist(msg.id, checklistItems)}
+              accessibilityRole="button"
+            >
+              <Text style={styles.checklistButtonText}>Add {checklistItems.length} steps to checklist</Text>
+            </TouchableOpacity>
+          )
+        )}
         {showOnboarding && msg.text.includes('Hi there, and welcome to Mind Clear') && (
           <QuickActions
             actions={quickActions}
@@ -2099,6 +2177,7 @@ function AIChatScreen({ navigation, route, threads: observableThreads, database
         keyboardVerticalOffset={Platform.OS === 'ios' ? 0 : 20}
       >
         <ScrollView
+          ref={messagesScrollRef}
           style={styles.messagesContainer}
           contentContainerStyle={{
             paddingBottom: Platform.OS === 'android' ? 160 + insets.bottom : 160
@@ -2113,7 +2192,13 @@ function AIChatScreen({ navigation, route, threads: observableThreads, database
             </Text>
           </View>
 
-          {currentConversation?.messages.map((msg) => renderMessage(msg))}
+          {currentConversation?.messages.map((msg) => (
+            msg.id === focusedMessageId ? (
+              <View key={msg.id} onLayout={(event) => scrollToFocusedMessage(event.nativeEvent.layout.y)}>
+                {renderMessage(msg)}
+              </View>
+            ) : renderMessage(msg)
+          ))}
           {error ? <Text style={styles.error}>{error}</Text> : null}
         </ScrollView>
 
@@ -2318,6 +2403,25 @@ const styles = StyleSheet.create({
     color: colors.text.primary,
     fontSize: typography.fontSize.base,
   },
+  checklistButton: {
+    alignSelf: 'flex-start',
+    marginTop: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  checklistButtonText: {
+    color: colors.primary,
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.medium as any,
+  },
+  checklistAddedText: {
+    marginTop: spacing.sm,
+    color: colors.text.secondary,
+    fontSize: typography.fontSize.sm,
+  },
   conversationalTextContainer: {
     // This container ensures conversational text has proper padding
     // while allowing structured content components to handle their own spacing
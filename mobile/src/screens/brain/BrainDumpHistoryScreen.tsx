@@ -0,0 +1,320 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, FlatList, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useBrainDump } from '../../contexts/BrainDumpContext';
+import { BrainDumpSessionView, brainDumpSessionRepository } from '../../repositories/BrainDumpSessionRepository';
+import { BrainDumpItemOutcome, BrainDumpStage, getOpenItems } from '../../utils/brainDumpSessions';
+import { colors } from '../../themes/colors';
+import { spacing, borderRadius } from '../../themes/spacing';
+import { typography } from '../../themes/typography';
+
+const STAGE_LABELS: Record<BrainDumpStage, string> = {
+  refining: 'Refining',
+  prioritizing: 'Prioritizing',
+  completed: 'Finished',
+};
+
+const describeOutcome = (outcome: BrainDumpItemOutcome | undefined): string => {
+  switch (outcome?.kind) {
+    case 'task':
+      return 'Task';
+    case 'goal':
+      return outcome.goalId ? 'Goal' : 'Goal (in chat)';
+    case 'discarded':
+      return 'Discarded';
+    default:
+      return 'Open';
+  }
+};
+
+const describeSummary = ({ summary }: BrainDumpSessionView): string => {
+  const parts = [`${summary.total} ${summary.total === 1 ? 'item' : 'items'}`];
+  if (summary.tasks > 0) {
+    parts.push(`${summary.tasks} ${summary.tasks === 1 ? 'task' : 'tasks'}`);
+  }
+  if (summary.goals > 0) {
+    parts.push(`${summary.goals} ${summary.goals === 1 ? 'goal' : 'goals'}`);
+  }
+  if (summary.discarded > 0) {
+    parts.push(`${summary.discarded} discarded`);
+  }
+  if (summary.open > 0) {
+    parts.push(`${summary.open} open`);
+  }
+  return parts.join(' · ');
+};
+
+const BrainDumpHistoryScreen = ({ navigation }: any) => {
+  const { resumeSession } = useBrainDump();
+  const [views, setViews] = useState<BrainDumpSessionView[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadViews = useCallback(async () => {
+    try {
+      setViews(await brainDumpSessionRepository.getSessionViews());
+    } catch (error) {
+      console.error('Error loading brain dump history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload whenever a session changes
+  useEffect(() => {
+    const subscription = brainDumpSessionRepository.observeSessions().subscribe(() => {
+      loadViews();
+    });
+    return () => subscription.unsubscribe();
+  }, [loadViews]);
+
+  const resume = async (view: BrainDumpSessionView) => {
+    setBusyId(view.session.id);
+    try {
+      const stage = await resumeSession(view.session.id);
+      if (stage === 'prioritizing') {
+        navigation.navigate('BrainDumpPrioritization');
+      } else if (stage === 'refining') {
+        navigation.navigate('BrainDumpRefinement', { threadId: view.session.threadId || '', items: getOpenItems(view.items) });
+      }
+    } catch (error) {
+      console.error('Error resuming brain dump session:', error);
+      Alert.alert('Error', 'Could not resume this brain dump. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const remove = (view: BrainDumpSessionView) => {
+    Alert.alert(
+      'Remove from history?',
+      'Tasks and goals created from this brain dump are kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await brainDumpSessionRepository.deleteSession(view.session.id);
+            } catch (error) {
+              console.error('Error removing brain dump session:', error);
+              Alert.alert('Error', 'Could not remove this brain dump.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item: view }: { item: BrainDumpSessionView }) => {
+    const { session, summary } = view;
+    const expanded = expandedId === session.id;
+    const finished = session.stage === 'completed';
+
+    return (
+      <View style={styles.card}>
+        <TouchableOpacity
+          onPress={() => setExpandedId(expanded ? null : session.id)}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityState={{ expanded }}
+        >
+          <View style={styles.headerRow}>
+            <Text style={styles.date}>{session.createdAt.toLocaleString()}</Text>
+            <View style={[styles.stageChip, finished && styles.stageChipDone]}>
+              <Text style={[styles.stageText, finished && styles.stageTextDone]}>{STAGE_LABELS[session.stage] ?? session.stage}</Text>
+            </View>
+          </View>
+          <Text style={styles.rawText} numberOfLines={expanded ? undefined : 2}>{session.rawText}</Text>
+          <Text style={styles.meta}>{describeSummary(view)}</Text>
+          {summary.tasks > 0 && (
+            <Text style={styles.progress}>{summary.completedTasks} of {summary.tasks} tasks completed</Text>
+          )}
+        </TouchableOpacity>
+
+        {expanded && (
+          <View style={styles.items}>
+            {view.items.map(item => (
+              <View key={item.id} style={styles.itemRow}>
+                <Text style={styles.itemText} numberOfLines={2}>{item.text}</Text>
+                <Text style={[styles.outcome, item.outcome?.kind === 'discarded' && styles.outcomeMuted]}>
+                  {describeOutcome(item.outcome)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {busyId === session.id ? (
+          <ActivityIndicator style={styles.busy} color={colors.primary} />
+        ) : (
+          <View style={styles.actions}>
+            {!finished && summary.open > 0 && (
+              <TouchableOpacity style={[styles.button, styles.primaryButton]} onPress={() => resume(view)} disabled={busyId !== null}>
+                <Text style={styles.primaryButtonText}>Resume</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.button} onPress={() => remove(view)} disabled={busyId !== null}>
+              <Text style={[styles.buttonText, { color: colors.error }]}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['left', 'right']}>
+      <FlatList
+        data={views}
+        renderItem={renderItem}
+        keyExtractor={(view) => view.session.id}
+        contentContainerStyle={styles.container}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>Your brain dumps will show up here.</Text>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: colors.background.surface,
+  },
+  container: {
+    padding: spacing.md,
+    flexGrow: 1,
+  },
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  card: {
+    backgroundColor: colors.secondary,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.xs,
+  },
+  date: {
+    color: colors.text.secondary,
+    fontSize: typography.fontSize.xs,
+  },
+  stageChip: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.full,
+    paddingVertical: 2,
+    paddingHorizontal: spacing.sm,
+  },
+  stageChipDone: {
+    borderColor: colors.border.light,
+  },
+  stageText: {
+    color: colors.primary,
+    fontSize: typography.fontSize.xs,
+    fontWeight: typography.fontWeight.semibold,
+  },
+  stageTextDone: {
+    color: colors.text.secondary,
+  },
+  rawText: {
+    color: colors.text.primary,
+    fontSize: typography.fontSize.base,
+  },
+  meta: {
+    color: colors.text.secondary,
+    fontSize: typography.fontSize.sm,
+    marginTop: spacing.xs,
+  },
+  progress: {
+    color: colors.text.primary,
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.medium,
+    marginTop: 2,
+  },
+  items: {
+    marginTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.border.light,
+    paddingTop: spacing.xs,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+  },
+  itemText: {
+    flex: 1,
+    color: colors.text.primary,
+    fontSize: typography.fontSize.sm,
+    paddingRight: spacing.sm,
+  },
+  outcome: {
+    color: colors.primary,
+    fontSize: typography.fontSize.xs,
+    fontWeight: typography.fontWeight.semibold,
+  },
+  outcomeMuted: {
+    color: colors.text.secondary,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: spacing.sm,
+  },
+  button: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    marginLeft: spacing.sm,
+  },
+  buttonText: {
+    color: colors.text.primary,
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.medium,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  primaryButtonText: {
+    color: colors.secondary,
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.bold,
+  },
+  busy: {
+    marginTop: spacing.sm,
+  },
+  emptyText: {
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginTop: spacing.xl,
+  },
+});
+
+export default BrainDumpHistoryScreen;
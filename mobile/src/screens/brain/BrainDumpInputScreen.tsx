@@ -3,7 +3,7 @@ import { View, Text, TextInput, TouchableOpacity, StyleSheet, KeyboardAvoidingVi
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import BrainDumpSubNav from './BrainDumpSubNav';
 import { HugeiconsIcon as Icon } from '@hugeicons/react-native';
-import { SparklesIcon, Shield01Icon, HelpCircleIcon } from '@hugeicons/core-free-icons';
+import { SparklesIcon, Shield01Icon, HelpCircleIcon, Clock01Icon } from '@hugeicons/core-free-icons';
 import { colors } from '../../themes/colors';
 import { spacing, borderRadius } from '../../themes/spacing';
 import { typography } from '../../themes/typography';
@@ -12,6 +12,9 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useBrainDump } from '../../contexts/BrainDumpContext';
 import { useFocusEffect } from '@react-navigation/native';
 import { taskRepository } from '../../repositories/TaskRepository';
+import { normalizeItemText, withItemIds } from '../../utils/brainDumpSessions';
+import { createDraftItems, openTaskKeys, removeExistingTasks } from '../../utils/brainDumpSplitter';
+import { errorHandlingService } from '../../services/errorHandling';
 
 type IncomingItem = {
   text: string;
@@ -20,6 +23,7 @@ type IncomingItem = {
   priority: 'low' | 'medium' | 'high';
   type?: 'task' | 'goal';
   confidence?: number;
+  draft?: { text: string; type: 'task' | 'goal' };
 };
 
 export default function BrainDumpInputScreen({ navigation }: any) {
@@ -28,7 +32,7 @@ export default function BrainDumpInputScreen({ navigation }: any) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [hasSavedRefinement, setHasSavedRefinement] = useState<boolean>(false);
-  const { items: sessionItems, setItems: setSessionItems, setThreadId } = useBrainDump();
+  const { items: sessionItems, setItems: setSessionItems, setThreadId, recordDump } = useBrainDump();
 
   useEffect(() => {
     (async () => {
@@ -54,7 +58,6 @@ export default function BrainDumpInputScreen({ navigation }: any) {
     }, [])
   );
 
-  const normalizeKey = (s: string) => String(s || '').replace(/\r?\n|\r/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
   const sanitizeText = (s: string) => String(s || '').replace(/\r?\n|\r/g, ' ').replace(/\s+/g, ' ').trim();
 
   const onSubmit = async () => {
@@ -62,7 +65,19 @@ export default function BrainDumpInputScreen({ navigation }: any) {
     setLoading(true);
     setError('');
     try {
-      const { threadId, items } = await brainDumpAPI.submit(text.trim());
+      let submission: { threadId: string; items: IncomingItem[] };
+      let capturedOffline = false;
+      try {
+        submission = await brainDumpAPI.submit(text.trim());
+      } catch (submitError) {
+        if (!(await errorHandlingService.isNetworkError(submitError))) {
+          throw submitError;
+        }
+        // Offline: split on the device now, AI sorts the items once the connection is back
+        capturedOffline = true;
+        submission = { threadId: '', items: createDraftItems(text.trim()) };
+      }
+      const { threadId, items } = submission;
       // Merge with existing saved items if any
       let mergedItems: any[] = [];
       try {
@@ -70,11 +85,11 @@ export default function BrainDumpInputScreen({ navigation }: any) {
         const existing: any[] = existingStr ? JSON.parse(existingStr) : [];
         const map = new Map<string, any>();
         existing.forEach((it) => {
-          const key = normalizeKey(it?.text);
+          const key = normalizeItemText(it?.text);
           if (key) { map.set(key, { ...it, text: sanitizeText(it?.text) }); }
         });
         (Array.isArray(items) ? (items as IncomingItem[]) : []).forEach((it) => {
-          const key = normalizeKey(it?.text);
+          const key = normalizeItemText(it?.text);
           if (!key) { return; }
           if (!map.has(key)) {
             map.set(key, {
@@ -86,6 +101,7 @@ export default function BrainDumpInputScreen({ navigation }: any) {
               priority: it?.priority && /^(low|medium|high)$/i.test(it.priority) ? (it.priority as string).toLowerCase() : (
                 /^(low|medium|high)$/i.test(it?.stress_level) ? it.stress_level.toLowerCase() : 'medium'
               ),
+              ...(it?.draft ? { draft: it.draft } : {}),
             });
           }
         });
@@ -100,30 +116,19 @@ export default function BrainDumpInputScreen({ navigation }: any) {
           priority: it?.priority && /^(low|medium|high)$/i.test(it.priority) ? (it.priority as string).toLowerCase() : (
             /^(low|medium|high)$/i.test(it?.stress_level) ? it.stress_level.toLowerCase() : 'medium'
           ),
+          ...(it?.draft ? { draft: it.draft } : {}),
         }));
       }
+      mergedItems = withItemIds(mergedItems);
       let duplicatesRemovedCount = 0;
       try {
         // Remove items that already exist as tasks (by normalized title, excluding completed)
         // Use local database instead of API call for faster duplicate checking
+        // Completed tasks don't count (pending deletes are already excluded by getAllTasks)
         const existingTasks = await taskRepository.getAllTasks();
-        const existingActiveTitles = new Set(
-          existingTasks
-            .filter((t) => {
-              const status = String(t?.status || '').toLowerCase();
-              // Exclude completed tasks and pending deletes
-              return status !== 'completed' && !status.startsWith('pending_delete');
-            })
-            .map((t) => normalizeKey(t?.title))
-            .filter(Boolean)
-        );
         const beforeCount = mergedItems.length;
-        mergedItems = mergedItems.filter((it: any) => {
-          const key = normalizeKey(it?.text);
-          // Only treat tasks as duplicates; keep goals
-          const isTask = (String(it?.type || 'task').toLowerCase() === 'task');
-          return !(isTask && existingActiveTitles.has(key));
-        });
+        // Only treat tasks as duplicates; keep goals
+        mergedItems = removeExistingTasks(mergedItems, openTaskKeys(existingTasks));
         duplicatesRemovedCount = Math.max(0, beforeCount - mergedItems.length);
 
         await AsyncStorage.multiSet([
@@ -137,6 +142,8 @@ export default function BrainDumpInputScreen({ navigation }: any) {
         setThreadId(threadId);
         setSessionItems(mergedItems as any);
       } catch { }
+      // Keep the dump in the session history
+      await recordDump(text.trim(), threadId, mergedItems, { extractionPending: capturedOffline }).catch(() => { });
       navigation.navigate('BrainDumpRefinement', { threadId, items: mergedItems, duplicatesRemovedCount });
     } catch (e: any) {
       setError(e?.message || 'Failed to process brain dump. Please try again.');
@@ -148,15 +155,26 @@ export default function BrainDumpInputScreen({ navigation }: any) {
   useLayoutEffect(() => {
     navigation.setOptions({
       headerRight: () => (
-        <TouchableOpacity
-          accessibilityLabel="Help"
-          onPress={() => navigation.navigate('BrainDumpOnboarding')}
-          activeOpacity={0.7}
-          style={{ padding: spacing.xs }}
-          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-        >
-          <Icon icon={HelpCircleIcon} size={24} color={colors.primary} />
-        </TouchableOpacity>
+        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          <TouchableOpacity
+            accessibilityLabel="Brain dump history"
+            onPress={() => navigation.navigate('BrainDumpHistory')}
+            activeOpacity={0.7}
+            style={{ padding: spacing.xs, marginRight: spacing.xs }}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Icon icon={Clock01Icon} size={24} color={colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            accessibilityLabel="Help"
+            onPress={() => navigation.navigate('BrainDumpOnboarding')}
+            activeOpacity={0.7}
+            style={{ padding: spacing.xs }}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Icon icon={HelpCircleIcon} size={24} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
       ),
     });
   }, [navigation]);
@@ -13,6 +13,8 @@ import { tasksAPI } from '../../services/api';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useBrainDump } from '../../contexts/BrainDumpContext';
 import { taskRepository } from '../../repositories/TaskRepository';
+import { brainDumpSessionRepository } from '../../repositories/BrainDumpSessionRepository';
+import { taskDependencyRepository } from '../../repositories/TaskDependencyRepository';
 import { BrainDumpLoadingScreen } from '../../components/brain/BrainDumpLoadingScreen';
 import { OnboardingService } from '../../services/onboarding';
 import { Switch } from 'react-native';
@@ -111,7 +113,7 @@ const DraggableTask: React.FC<DraggableTaskProps> = ({ item, onDragStart, isDrag
 
 export default function BrainDumpPrioritizationScreen({ navigation, route }: any) {
   const incomingTasks = (route?.params?.tasks as Array<{ text: string; priority: Priority; category?: string | null }> | undefined) ?? [];
-  const { items, clearSession } = useBrainDump();
+  const { items, sessionId, clearSession } = useBrainDump();
   const seeded = React.useMemo<TaskItem[]>(() => {
     const now = Date.now();
     const source = (Array.isArray(incomingTasks) && incomingTasks.length > 0)
@@ -412,18 +414,27 @@ export default function BrainDumpPrioritizationScreen({ navigation, route }: any
             priority: localFocus.priority,
             category: localFocus.category,
             isTodayFocus: true,
-            status: localFocus.status
+            lifecycleStatus: localFocus.lifecycleStatus
           };
         }
 
         // TRIGGER AUTO-SCHEDULING IN BACKGROUND
         if (autoScheduleOnFinish) {
-          autoSchedulingAPI.autoScheduleTasks().catch(err => {
-            console.warn('Background auto-scheduling failed:', err);
-          });
+          // Blocked tasks the server may not know about yet are excluded
+          taskDependencyRepository.getOpenBlockers()
+            .catch(() => new Map<string, string[]>())
+            .then(blockers => autoSchedulingAPI.autoScheduleTasks([...blockers.keys()]))
+            .catch(err => {
+              console.warn('Background auto-scheduling failed:', err);
+            });
         }
       }
 
+      // Record what each item became before the working session is cleared
+      if (sessionId) {
+        await brainDumpSessionRepository.completeSession(sessionId, items as any, allCreatedTasks).catch(() => { });
+      }
+
       // Cleanup session
       await AsyncStorage.multiRemove(['lastBrainDumpThreadId', 'lastBrainDumpItems', 'brainDumpPrioritizedTasks']).catch(() => { });
       await clearSession().catch(() => { });
@@ -10,6 +10,7 @@ import { spacing, borderRadius } from '../../themes/spacing';
 import { typography } from '../../themes/typography';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useBrainDump } from '../../contexts/BrainDumpContext';
+import { brainDumpSessionRepository } from '../../repositories/BrainDumpSessionRepository';
 import { authService } from '../../services/auth';
 import { configService } from '../../services/config';
 import secureConfigService from '../../services/secureConfig';
@@ -29,11 +30,11 @@ import { SuccessToast } from '../../components/common/SuccessToast';
 import { ErrorToast } from '../../components/common/ErrorToast';
 import { useFocusEffect } from '@react-navigation/native';
 
-type Item = { id: string; text: string; type: 'task' | 'goal'; confidence?: number; category?: string | null; stress_level?: 'low' | 'medium' | 'high'; priority: 'low' | 'medium' | 'high' };
+type Item = { id: string; text: string; type: 'task' | 'goal'; confidence?: number; category?: string | null; stress_level?: 'low' | 'medium' | 'high'; priority: 'low' | 'medium' | 'high'; draft?: { text: string; type: 'task' | 'goal' } };
 
 export default function BrainDumpRefinementScreen({ navigation, route }: any) {
   const params = route?.params || {};
-  const { threadId, setThreadId, items, setItems } = useBrainDump();
+  const { threadId, setThreadId, items, setItems, sessionId, itemsRevision } = useBrainDump();
   const [tab, setTab] = useState<'task' | 'goal'>('task');
 
   // Helper function to generate unique IDs
@@ -55,7 +56,8 @@ export default function BrainDumpRefinementScreen({ navigation, route }: any) {
       confidence: item.confidence,
       category: item.category || null,
       stress_level: item.stress_level || undefined, // Keep undefined for missing stress_level
-      priority: item.priority || 'medium' // Default to 'medium' priority for legacy data
+      priority: item.priority || 'medium', // Default to 'medium' priority for legacy data
+      ...(item.draft ? { draft: item.draft } : {}) // Split offline, AI extraction still to come
     };
   };
 
@@ -74,6 +76,7 @@ export default function BrainDumpRefinementScreen({ navigation, route }: any) {
   const list = useMemo(() => Array.isArray(editedItems) ? editedItems : [], [editedItems]);
   const tasks = useMemo(() => list.filter(i => i.type === 'task'), [list]);
   const goals = useMemo(() => list.filter(i => i.type === 'goal'), [list]);
+  const hasDrafts = useMemo(() => list.some(i => !!i.draft), [list]);
 
   // If navigated without params, try loading last session from AsyncStorage
   useEffect(() => {
@@ -101,7 +104,14 @@ export default function BrainDumpRefinementScreen({ navigation, route }: any) {
     }
   }, [params?.duplicatesRemovedCount, initialToastShown]);
 
-  // Persist latest refinement session so user can return later
+  // Adopt items replaced in the shared session (resumed from history or sorted by AI after an offline dump)
+  useEffect(() => {
+    if (itemsRevision > 0) {
+      setEditedItems((items as unknown as Item[]).map((it: any) => normalizeItem(it)).filter((it: Item) => it.text.length > 0));
+    }
+  }, [itemsRevision]);
+
+    // Persist latest refinement session so user can return later
   useEffect(() => {
     setItems(editedItems as any);
   }, [editedItems, setItems]);
@@ -199,7 +209,10 @@ export default function BrainDumpRefinementScreen({ navigation, route }: any) {
     } catch (error) {
       // Error toast is already shown above, so we don't need to show it again here
     }
-    // Remove the goal from the refinement list
+    // Remove the goal from the refinement list; the session history remembers it went to chat
+    if (sessionId) {
+      brainDumpSessionRepository.recordGoal(sessionId, item.id).catch(() => { });
+    }
     setEditedItems(prev => prev.filter(i => i.id !== item.id));
     // Navigate to chat with the prefilled message so title can be inferred
     navigation.navigate('AIChat', { initialMessage: `Help me break down this goal: ${item.text}`, threadId });
@@ -229,6 +242,9 @@ export default function BrainDumpRefinementScreen({ navigation, route }: any) {
   const goToPrioritize = () => {
     if (tasks.length === 0) { return; }
     const payload = tasks.map(t => ({ id: t.id, text: sanitizeText(t.text), priority: t.priority, category: t.category ?? undefined }));
+    if (sessionId) {
+      brainDumpSessionRepository.setStage(sessionId, 'prioritizing').catch(() => { });
+    }
     navigation.navigate('BrainDumpPrioritization', { tasks: payload });
   };
 
@@ -245,7 +261,11 @@ export default function BrainDumpRefinementScreen({ navigation, route }: any) {
       </View>
 
       <View style={styles.tipBox}>
-        <Text style={styles.tipText}>Tip: Don't worry about getting it perfect. You can edit all details later.</Text>
+        <Text style={styles.tipText}>
+          {hasDrafts
+            ? 'You were offline, so we split your brain dump on this device. We\'ll sort it with AI once you\'re back online, keeping your edits.'
+            : 'Tip: Don\'t worry about getting it perfect. You can edit all details later.'}
+        </Text>
       </View>
 
       <FlatList
@@ -15,8 +15,11 @@ import { typography } from '../../themes/typography';
 import { spacing } from '../../themes/spacing';
 import { Button } from '../../components/common/Button';
 import { EventCard } from '../../components/calendar/EventCard';
+import { TimeGrid, TimeGridEvent } from '../../components/calendar/TimeGrid';
+import { confirmConflictingTime } from '../../components/calendar/ConflictWarning';
 import { EventFormModal } from '../../components/calendar/EventFormModal';
 import { CalendarImportModal } from '../../components/calendar/CalendarImportModal';
+import { IcsCalendarModal } from '../../components/calendar/IcsCalendarModal';
 import { GoalDueCard } from '../../components/goals/GoalDueCard';
 // import { VirtualizedEventList } from '../../components/calendar/VirtualizedEventList';
 import { OfflineIndicator } from '../../components/common/OfflineIndicator';
@@ -27,14 +30,14 @@ import { errorHandlingService, ErrorCategory, UserFriendlyError } from '../../se
 import {
   ViewType,
   CalendarState,
-  DayViewEvent,
-  WeekViewEvent,
   CalendarEvent as CalendarEventType,
   Task as TaskType,
 } from '../../types/calendar';
 // import { Goal } from '../../services/api';
-import { formatDateToYYYYMMDD, getLocalDateKey } from '../../utils/dateUtils';
+import { formatDateToYYYYMMDD, formatSecondaryTime, getAllDayRangeInZone, getDeviceTimeZone, getLocalDateKey, isValidTimeZone } from '../../utils/dateUtils';
 import { hapticFeedback } from '../../utils/hapticFeedback';
+import { findConflicts, getConflictingIds, suggestAlternatives } from '../../utils/calendarConflicts';
+import { FreeBusyPreferences, resolveFreeBusyPreferences } from '../../utils/freeBusy';
 import { LoadingSkeleton } from '../../components/common/LoadingSkeleton';
 import {
   useFadeAnimation,
@@ -42,7 +45,7 @@ import {
 } from '../../utils/animations';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { HugeiconsIcon as Icon } from '@hugeicons/react-native';
-import { Bug01Icon, ReloadIcon, Download01Icon, PlusSignIcon } from '@hugeicons/core-free-icons';
+import { Bug01Icon, ReloadIcon, Download01Icon, Share01Icon, PlusSignIcon } from '@hugeicons/core-free-icons';
 import withObservables from '@nozbe/watermelondb/react/withObservables';
 import { useDatabase } from '../../contexts/DatabaseContext';
 import CalendarEvent from '../../db/models/CalendarEvent';
@@ -51,17 +54,24 @@ import Goal from '../../db/models/Goal';
 import { authService } from '../../services/auth';
 import { Q } from '@nozbe/watermelondb';
 import { syncService } from '../../services/SyncService';
+import { outboxRepository } from '../../repositories/OutboxRepository';
+import { offlineService } from '../../services/offline';
 
 // const { width } = Dimensions.get('window');
 
 // Adapter functions to convert database models to calendar types
 const convertCalendarEventToType = (event: CalendarEvent): CalendarEventType => {
+  // All-day events stay on the dates they have where they were planned
+  const allDayRange = event.isAllDay && event.startTime && event.endTime && isValidTimeZone(event.timeZone)
+    ? getAllDayRangeInZone(event.startTime, event.endTime, event.timeZone)
+    : null;
   return {
     id: event.id,
     title: event.title,
     description: event.description,
-    start_time: event.startTime?.toISOString(),
-    end_time: event.endTime?.toISOString(),
+    start_time: (allDayRange?.start ?? event.startTime)?.toISOString(),
+    end_time: (allDayRange?.end ?? event.endTime)?.toISOString(),
+    time_zone: event.timeZone,
     is_all_day: event.isAllDay,
     location: event.location,
     task_id: event.taskId,
@@ -76,7 +86,7 @@ const convertCalendarEventToType = (event: CalendarEvent): CalendarEventType =>
 
 const convertTaskToType = (task: Task): TaskType => {
   const priority = (task.priority as 'low' | 'medium' | 'high') || 'medium';
-  const status = (task.status as 'not_started' | 'in_progress' | 'completed') || 'not_started';
+  const status = task.lifecycleStatus || 'not_started';
 
   return {
     id: task.id,
@@ -88,6 +98,8 @@ const convertTaskToType = (task: Task): TaskType => {
     category: task.category,
     goal_id: task.goalId,
     estimated_duration_minutes: task.estimatedDurationMinutes,
+    location: task.location,
+    is_recurring: !!task.recurrence_pattern,
     created_at: task.createdAt?.toISOString(),
     updated_at: task.updatedAt?.toISOString(),
     goal: task.goal ? {
@@ -107,7 +119,6 @@ interface CalendarScreenProps {
 function CalendarScreen({ events, tasks, goals, database }: CalendarScreenProps) {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<any>();
-  const dayViewScrollRef = useRef<ScrollView>(null);
 
   // Animation hooks
   const { } = useFadeAnimation(1); // animations disabled for now
@@ -132,6 +143,7 @@ function CalendarScreen({ events, tasks, goals, database }: CalendarScreenProps)
   const [showImportPrompt, setShowImportPrompt] = useState(false);
   const [importing, setImporting] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
+  const [showIcsModal, setShowIcsModal] = useState(false);
 
   // Enhanced error handling state
   const [currentError, setCurrentError] = useState<UserFriendlyError | null>(null);
@@ -157,7 +169,16 @@ function CalendarScreen({ events, tasks, goals, database }: CalendarScreenProps)
   // Filtered state for search and filtering (using calendar types for component compatibility)
   // Initialize with converted data, but let SearchAndFilter manage updates to prevent loops
   const [filteredEvents, setFilteredEvents] = useState<CalendarEventType[]>(convertedEvents);
-  const [filteredTasks, setFilteredTasks] = useState<TaskType[]>(convertedTasks);
+
+  // Conflict badges cover every event, not just the filtered ones
+  const conflictIds = useMemo(() => getConflictingIds(events), [events]);
+  const [schedulingPreferences, setSchedulingPreferences] = useState<FreeBusyPreferences | null>(null);
+  const bufferMinutes = schedulingPreferences?.buffer_time_minutes ?? 0;
+  useEffect(() => {
+    offlineService.getCachedSchedulingPreferences()
+      .then(preferences => setSchedulingPreferences(resolveFreeBusyPreferences(preferences)))
+      .catch(() => { });
+  }, []);
 
   // Only update filtered state from source data if SearchAndFilter hasn't applied filters yet
   // Use a ref to track if we need to sync with source data
@@ -167,12 +188,11 @@ function CalendarScreen({ events, tasks, goals, database }: CalendarScreenProps)
     // If SearchAndFilter hasn't called handleFilterChange yet, sync with source data
     if (!hasActiveFiltersRef.current) {
       setFilteredEvents(convertedEvents);
-      setFilteredTasks(convertedTasks);
     }
-  }, [convertedEvents, convertedTasks]);
+  }, [convertedEvents]);
 
   // Handle filter changes from SearchAndFilter component
-  const handleFilterChange = useCallback((nextFilteredEvents: CalendarEventType[], nextFilteredTasks: TaskType[]) => {
+  const handleFilterChange = useCallback((nextFilteredEvents: CalendarEventType[]) => {
     hasActiveFiltersRef.current = true;
     // Only update if the arrays are actually different to prevent infinite loops
     setFilteredEvents(prev => {
@@ -182,13 +202,6 @@ function CalendarScreen({ events, tasks, goals, database }: CalendarScreenProps)
       }
       return prev;
     });
-    setFilteredTasks(prev => {
-      if (prev.length !== nextFilteredTasks.length ||
-        prev.some((t, i) => t.id !== nextFilteredTasks[i]?.id)) {
-        return nextFilteredTasks;
-      }
-      return prev;
-    });
   }, []);
 
   // Load calendar data - now a no-op as data is reactive
@@ -324,6 +337,7 @@ function CalendarScreen({ events, tasks, goals, database }: CalendarScreenProps)
         await eventToDelete.update((e: CalendarEvent) => {
           e.status = 'pending_delete';
         });
+        await outboxRepository.enqueue('calendar_events', eventToDelete.id, 'delete');
       });
       hapticFeedback.success();
     } catch (error) {
@@ -337,11 +351,6 @@ function CalendarScreen({ events, tasks, goals, database }: CalendarScreenProps)
     // This will be handled by optimistic updates in Milestone 3
   }, []);
 
-  // Handle event rescheduling with enhanced error handling
-  const handleReschedule = useCallback(async (eventId: string, newDate: Date) => {
-    // This will be handled by optimistic updates in Milestone 3
-  }, []);
-
   // Create new event
   const handleCreateEvent = useCallback(() => {
     hapticFeedback.medium();
@@ -459,54 +468,103 @@ function CalendarScreen({ events, tasks, goals, database }: CalendarScreenProps)
     });
   }, [goals]);
 
-  // Get events for selected date (only calendar events; tasks are no longer rendered directly as events)
-  const getEventsForSelectedDate = useCallback(() => {
-    const selectedDateStr = formatDateToYYYYMMDD(state.selectedDate);
-    const dayEvents: DayViewEvent[] = [];
-    const goalsDueToday: any[] = [];
+  // Calendar events on the given days for the time grid; all-day events are listed above it.
+  // Tasks are not rendered directly as events.
+  const getGridEvents = useCallback((days: Date[]) => {
+    const rangeStart = days[0];
+    const rangeEnd = new Date(days[days.length - 1]);
+    rangeEnd.setDate(rangeEnd.getDate() + 1);
+    const timed: TimeGridEvent[] = [];
+    const allDay: CalendarEventType[] = [];
 
-    // Add calendar events
     filteredEvents.forEach((event) => {
       try {
         const startTime = event.start_time ? new Date(event.start_time) : (event.start?.dateTime ? new Date(event.start.dateTime) : null);
-        if (!startTime) return;
-
-        const eventDateStr = getLocalDateKey(startTime);
+        if (!startTime || isNaN(startTime.getTime())) { return; }
+        const endTime = event.end_time ? new Date(event.end_time) : (event.end?.dateTime ? new Date(event.end.dateTime) : startTime);
+        if (startTime >= rangeEnd || (endTime <= rangeStart && startTime < rangeStart)) { return; }
 
-        if (eventDateStr === selectedDateStr) {
-          const endTime = event.end_time ? new Date(event.end_time) : (event.end?.dateTime ? new Date(event.end.dateTime) : startTime);
-          const dayEvent: DayViewEvent = {
+        if (event.is_all_day) {
+          allDay.push(event);
+        } else {
+          timed.push({
             id: event.id,
-            title: event.title || 'Untitled Event',
-            startTime,
-            endTime,
-            type: 'event' as const,
-            data: event,
-            color: colors.info,
-          };
-          dayEvents.push(dayEvent);
+            title: event.title || event.summary || 'Untitled Event',
+            start: startTime,
+            end: endTime,
+            color: event.task_id ? colors.success : colors.info,
+            hasConflict: conflictIds.has(event.id),
+            secondaryTime: formatSecondaryTime(startTime, event.time_zone) ?? undefined,
+          });
         }
       } catch (_error) {
         // invalid event date
       }
     });
 
-    // Collect goals due today for a lightweight summary card in Day view
-    goals.forEach(goal => {
-      if (!goal.targetCompletionDate) { return; }
+    return { timed, allDay };
+  }, [conflictIds, filteredEvents]);
+
+  // Goals whose target date falls on one of the given days
+  const getGoalsDueOn = useCallback((days: Date[]) => {
+    const keys = new Set(days.map(day => getLocalDateKey(day)));
+    return goals.filter(goal => {
+      if (!goal.targetCompletionDate) { return false; }
       try {
-        const goalDate = new Date(goal.targetCompletionDate);
-        if (getLocalDateKey(goalDate) === selectedDateStr) {
-          goalsDueToday.push(goal);
-        }
-      } catch { }
+        return keys.has(getLocalDateKey(new Date(goal.targetCompletionDate)));
+      } catch {
+        return false;
+      }
     });
+  }, [goals]);
 
-    // Attach as property for renderDayView to read (avoid prop threading for now)
-    (getEventsForSelectedDate as any)._goalsDueToday = goalsDueToday;
+  // Move or resize from the time grid; synced like any other local edit
+  const handleEventTimeChange = useCallback(async (eventId: string, startTime: Date, endTime: Date) => {
+    try {
+      const eventRecord = (await database.get('calendar_events').find(eventId)) as CalendarEvent;
+      await database.write(async () => {
+        await eventRecord.update((e: CalendarEvent) => {
+          e.startTime = startTime;
+          e.endTime = endTime;
+          e.timeZone = e.timeZone || getDeviceTimeZone();
+          // An event the server has not seen yet is still a create
+          e.status = e.status === 'pending_create' ? 'pending_create' : 'pending_update';
+        });
+        await outboxRepository.enqueue('calendar_events', eventRecord.id, 'update');
+      });
+      hapticFeedback.success();
+    } catch (error) {
+      hapticFeedback.error();
+      Alert.alert('Error', 'Failed to update event locally.');
+    }
+  }, [database]);
 
-    return dayEvents.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
-  }, [filteredEvents, goals, state.selectedDate]);
+  // Move an event to a new start, keeping its length; asks first when the new time conflicts
+  const handleReschedule = useCallback(async (eventId: string, newDate: Date) => {
+    const record = events.find(e => e.id === eventId);
+    if (!record) { return; }
+    const duration = record.endTime.getTime() - record.startTime.getTime();
+    const candidate = { id: eventId, startTime: newDate, endTime: new Date(newDate.getTime() + duration), isAllDay: record.isAllDay };
+
+    let startTime: Date | null = newDate;
+    const conflicts = findConflicts(candidate, events, { bufferMinutes });
+    if (conflicts.some(c => c.kind !== 'all_day')) {
+      const [alternative] = suggestAlternatives(candidate, events, schedulingPreferences, { count: 1 });
+      startTime = await confirmConflictingTime(newDate, conflicts, bufferMinutes, alternative);
+    }
+    if (!startTime) { return; }
+    await handleEventTimeChange(eventId, startTime, new Date(startTime.getTime() + duration));
+  }, [bufferMinutes, events, handleEventTimeChange, schedulingPreferences]);
+
+  const handleGridEventPress = useCallback((eventId: string) => {
+    const event = filteredEvents.find(e => e.id === eventId);
+    if (!event) { return; }
+    Alert.alert(event.title || event.summary || 'Event', undefined, [
+      { text: 'Edit', onPress: () => handleEventEdit(event) },
+      { text: 'Delete', style: 'destructive', onPress: () => handleEventDelete(event.id) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [filteredEvents, handleEventDelete, handleEventEdit]);
 
   // Get goals due in the current month
   const getGoalsForCurrentMonth = useCallback(() => {
@@ -576,318 +634,109 @@ function CalendarScreen({ events, tasks, goals, database }: CalendarScreenProps)
     return marked;
   }, [filteredEvents, goals]);
 
-  // Render day view with time blocks
-  const renderDayView = useCallback(() => {
-
-    // Get events for the selected date
-    const dayEvents = getEventsForSelectedDate();
-    const goalsDueToday: any[] = (getEventsForSelectedDate as any)._goalsDueToday || [];
-    // day view rendering
-
-    // Group events by time blocks (6-hour segments)
-    const timeBlocks: Array<{
-      name: string;
-      start: number;
-      end: number;
-      events: DayViewEvent[];
-    }> = [
-        {
-          name: 'Early Morning',
-          start: 0,
-          end: 6,
-          events: [],
-        },
-        {
-          name: 'Morning',
-          start: 6,
-          end: 12,
-          events: [],
-        },
-        {
-          name: 'Afternoon',
-          start: 12,
-          end: 18,
-          events: [],
-        },
-        {
-          name: 'Evening',
-          start: 18,
-          end: 24,
-          events: [],
-        },
-      ];
-
-    // Distribute events into time blocks
-    dayEvents.forEach(event => {
-      const eventHour = event.startTime.getHours();
-      let blockIndex = -1;
-
-      if (eventHour >= 0 && eventHour < 6) {
-        blockIndex = 0; // Early Morning
-      } else if (eventHour >= 6 && eventHour < 12) {
-        blockIndex = 1; // Morning
-      } else if (eventHour >= 12 && eventHour < 18) {
-        blockIndex = 2; // Afternoon
-      } else if (eventHour >= 18 && eventHour < 24) {
-        blockIndex = 3; // Evening
-      }
+  // All-day events and goals due, shown above the time grid
+  const renderGridHeader = useCallback((title: string, allDay: CalendarEventType[], goalsDue: Goal[]) => (
+    <View style={styles.gridHeader}>
+      <Text style={styles.dayViewTitle}>{title}</Text>
+
+      {goalsDue.length > 0 && (
+        <View style={{ marginBottom: spacing.md }}>
+          <Text style={styles.timeBlockTitle}>Goals Due</Text>
+          <View style={{ marginTop: spacing.xs }}>
+            {goalsDue.map(goal => (
+              <GoalDueCard key={goal.id} goal={goal} />
+            ))}
+          </View>
+        </View>
+      )}
 
-      if (blockIndex >= 0 && blockIndex < timeBlocks.length) {
-        timeBlocks[blockIndex].events.push(event);
-      }
-    });
+      {allDay.length > 0 && (
+        <View style={{ marginBottom: spacing.md }}>
+          <Text style={styles.timeBlockTitle}>All Day</Text>
+          {allDay.map(event => (
+            <View key={event.id} style={styles.eventCardContainer}>
+              <EventCard
+                event={event}
+                type="event"
+                onEdit={handleEventEdit}
+                onDelete={handleEventDelete}
+                onCompleteTask={handleTaskComplete}
+                onReschedule={handleReschedule}
+                compact={true}
+              />
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  ), [handleEventDelete, handleEventEdit, handleReschedule, handleTaskComplete]);
 
-    // Sort events within each block by start time
-    timeBlocks.forEach(block => {
-      block.events.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  // Render day view as an hourly time grid
+  const renderDayView = useCallback(() => {
+    const day = new Date(state.selectedDate);
+    day.setHours(0, 0, 0, 0);
+    const days = [day];
+    const { timed, allDay } = getGridEvents(days);
+    const goalsDue = getGoalsDueOn(days);
+    const title = state.selectedDate.toLocaleDateString([], {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
     });
 
     return (
-      <ScrollView
-        ref={dayViewScrollRef}
-        style={styles.dayViewContainer}
-        contentContainerStyle={styles.dayViewContent}
-        showsVerticalScrollIndicator={true}
-        scrollIndicatorInsets={{ right: 1 }}
-        bounces={true}
-        scrollEventThrottle={16}
-        directionalLockEnabled={true}
-        refreshControl={
-          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
-        }
-      >
-        <Text style={styles.dayViewTitle}>
-          {state.selectedDate.toLocaleDateString([], {
-            weekday: 'long',
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric',
-          })}
-        </Text>
-
-        {/* Goals due today (show at top before time blocks) */}
-        {goalsDueToday.length > 0 && (
-          <View style={{ marginBottom: spacing.md }}>
-            <Text style={styles.timeBlockTitle}>Goals Due</Text>
-            <View style={{ marginTop: spacing.xs }}>
-              {goalsDueToday.map(goal => (
-                <GoalDueCard key={goal.id} goal={goal} />
-              ))}
-            </View>
-          </View>
-        )}
-
-        {dayEvents.length === 0 && goalsDueToday.length === 0 ? (
-          <View style={styles.emptyState}>
-            <Text style={styles.emptyStateText}>No events scheduled for this day</Text>
-            <Button
-              title="Create Event"
-              onPress={handleCreateEvent}
-              variant="outline"
-              style={styles.createButton}
-            />
-          </View>
-        ) : (
-          timeBlocks.map(block => (
-            <View key={block.name} style={styles.timeBlock}>
-              <View style={styles.timeBlockHeader}>
-                <Text style={styles.timeBlockTitle}>{block.name}</Text>
-                <Text style={styles.timeBlockTime}>
-                  {block.start === 0 ? '12:00 AM' : block.start === 12 ? '12:00 PM' : block.start > 12 ? `${block.start - 12}:00 PM` : `${block.start}:00 AM`} - {block.end === 24 ? '12:00 AM' : block.end === 12 ? '12:00 PM' : block.end > 12 ? `${block.end - 12}:00 PM` : `${block.end}:00 AM`}
-                </Text>
+      <TimeGrid
+        days={days}
+        events={timed}
+        onEventPress={handleGridEventPress}
+        onEventChange={handleEventTimeChange}
+        header={
+          <>
+            {renderGridHeader(title, allDay, goalsDue)}
+            {timed.length === 0 && allDay.length === 0 && goalsDue.length === 0 && (
+              <View style={styles.emptyState}>
+                <Text style={styles.emptyStateText}>No events scheduled for this day</Text>
+                <Button
+                  title="Create Event"
+                  onPress={handleCreateEvent}
+                  variant="outline"
+                  style={styles.createButton}
+                />
               </View>
-
-              {block.events.length === 0 ? (
-                <View style={styles.emptyTimeBlock}>
-                  <Text style={styles.emptyTimeBlockText}>No events</Text>
-                </View>
-              ) : (
-                <View style={styles.eventsList}>
-                  {block.events.map(event => (
-                    <View key={event.id} style={styles.eventCardContainer}>
-                      <EventCard
-                        event={event.data}
-                        type={event.type}
-                        onEdit={handleEventEdit}
-                        onDelete={handleEventDelete}
-                        onCompleteTask={handleTaskComplete}
-                        onReschedule={handleReschedule}
-                        compact={false}
-                      />
-                    </View>
-                  ))}
-                </View>
-              )}
-            </View>
-          ))
-        )}
-
-
-      </ScrollView>
+            )}
+          </>
+        }
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      />
     );
-  }, [handleCreateEvent, handleEventDelete, handleEventEdit, handleReschedule, handleTaskComplete, onRefresh, refreshing, state.selectedDate, getEventsForSelectedDate]);
+  }, [getGridEvents, getGoalsDueOn, handleCreateEvent, handleEventTimeChange, handleGridEventPress, onRefresh, refreshing, renderGridHeader, state.selectedDate]);
 
-  // Render week view with list-based layout grouped by date
+  // Render week view as a seven day time grid
   const renderWeekView = useCallback(() => {
     const weekStart = new Date(state.selectedDate);
+    weekStart.setHours(0, 0, 0, 0);
     weekStart.setDate(weekStart.getDate() - weekStart.getDay());
-    // week view rendering
-
-    // Create date groups for the week
-    const dateGroups: Array<{
-      date: Date;
-      dayName: string;
-      dateString: string;
-      events: WeekViewEvent[];
-    }> = [];
-
-    // Initialize date groups for the week
-    for (let i = 0; i < 7; i++) {
-      const currentDate = new Date(weekStart);
-      currentDate.setDate(currentDate.getDate() + i);
-      const dateStr = getLocalDateKey(currentDate);
-
-      dateGroups.push({
-        date: currentDate,
-        dayName: currentDate.toLocaleDateString([], { weekday: 'long' }),
-        dateString: dateStr,
-        events: [],
-      });
-    }
-
-    // Distribute events into date groups (calendar events only)
-    filteredEvents.forEach(event => {
-      try {
-        // Handle both database format and Google Calendar API format
-        const startTime = event.start_time ? new Date(event.start_time) : (event.start?.dateTime ? new Date(event.start.dateTime) : null);
-        if (!startTime) return;
-
-        const eventDateStr = getLocalDateKey(startTime);
-        const endTime = event.end_time ? new Date(event.end_time) : (event.end?.dateTime ? new Date(event.end.dateTime) : startTime);
-
-        const group = dateGroups.find(g => g.dateString === eventDateStr);
-        if (group) {
-          group.events.push({
-            id: event.id,
-            title: event.title || 'Untitled Event',
-            startTime,
-            endTime,
-            day: startTime.getDay(),
-            type: 'event' as const,
-            data: event,
-            color: colors.primary,
-          });
-        }
-      } catch (error) {
-        // error processing event
-      }
-    });
-
-    // Do not add raw tasks to date groups; tasks should appear as calendar events linked via task_id
-
-    // Sort events within each date group by start time
-    dateGroups.forEach(group => {
-      group.events.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
-    });
-
-    // Add a compact goal-due entry into each group's end if any goal is due that day
-    goals.forEach(goal => {
-      if (!goal.targetCompletionDate) { return; }
-      try {
-        const goalDateStr = getLocalDateKey(new Date(goal.targetCompletionDate));
-        const group = dateGroups.find(g => g.dateString === goalDateStr);
-        if (group) {
-          group.events.push({
-            id: `goal-${goal.id}`,
-            title: `Goal Due: ${goal.title}`,
-            startTime: group.date,
-            endTime: group.date,
-            day: group.date.getDay(),
-            type: 'event' as const,
-            // Pass a minimal CalendarEvent shape so types are satisfied
-            data: {
-              id: `goal-${goal.id}`,
-              title: `Goal Due: ${goal.title}`,
-              description: goal.description,
-              start_time: group.date.toISOString(),
-              end_time: group.date.toISOString(),
-              location: undefined,
-            } as any,
-            color: colors.warning,
-          });
-        }
-      } catch { }
+    const days = Array.from({ length: 7 }, (_, i) => {
+      const day = new Date(weekStart);
+      day.setDate(day.getDate() + i);
+      return day;
     });
-
-    // Filter out empty date groups or show them with empty state
-    const nonEmptyGroups = dateGroups.filter(group => group.events.length > 0);
-    const hasAnyEvents = nonEmptyGroups.length > 0;
+    const { timed, allDay } = getGridEvents(days);
+    const title = `Week of ${weekStart.toLocaleDateString([], { month: 'short', day: 'numeric' })} - ${days[6].toLocaleDateString([], { month: 'short', day: 'numeric' })}`;
 
     return (
-      <ScrollView
-        style={styles.weekViewContainer}
-        scrollEventThrottle={16}
-        directionalLockEnabled={true}
-        refreshControl={
-          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
-        }
-      >
-        <Text style={styles.weekViewTitle}>
-          Week of {weekStart.toLocaleDateString([], { month: 'short', day: 'numeric' })} - {
-            new Date(weekStart.getTime() + 6 * 24 * 60 * 60 * 1000).toLocaleDateString([], { month: 'short', day: 'numeric' })
-          }
-        </Text>
-
-        {!hasAnyEvents ? (
-          <View style={styles.emptyState}>
-            <Text style={styles.emptyStateText}>No events scheduled this week</Text>
-            <Button
-              title="Create Event"
-              onPress={handleCreateEvent}
-              variant="outline"
-              style={styles.createButton}
-            />
-          </View>
-        ) : (
-          dateGroups.map(group => (
-            <View key={group.dateString} style={styles.dateGroup}>
-              <View style={styles.dateGroupHeader}>
-                <Text style={styles.dateGroupTitle}>{group.dayName}</Text>
-                <Text style={styles.dateGroupDate}>
-                  {group.date.toLocaleDateString([], {
-                    month: 'short',
-                    day: 'numeric'
-                  })}
-                </Text>
-              </View>
-
-              {group.events.length === 0 ? (
-                <View style={styles.emptyDateGroup}>
-                  <Text style={styles.emptyDateGroupText}>No events</Text>
-                </View>
-              ) : (
-                <View style={styles.eventsList}>
-                  {group.events.map(event => (
-                    <View key={event.id} style={styles.eventCardContainer}>
-                      <EventCard
-                        event={event.data}
-                        type={event.type}
-                        onEdit={handleEventEdit}
-                        onDelete={handleEventDelete}
-                        onCompleteTask={handleTaskComplete}
-                        onReschedule={handleReschedule}
-                        compact={false}
-                      />
-                    </View>
-                  ))}
-                </View>
-              )}
-            </View>
-          ))
-        )}
-      </ScrollView>
+      <TimeGrid
+        days={days}
+        events={timed}
+        onEventPress={handleGridEventPress}
+        onEventChange={handleEventTimeChange}
+        onDayPress={(day) => setState(prev => ({ ...prev, selectedDate: day, viewType: 'day' }))}
+        header={renderGridHeader(title, allDay, getGoalsDueOn(days))}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      />
     );
-  }, [filteredEvents, filteredTasks, goals, handleCreateEvent, handleEventDelete, handleEventEdit, handleReschedule, handleTaskComplete, onRefresh, refreshing, state.selectedDate]);
+  }, [getGridEvents, getGoalsDueOn, handleEventTimeChange, handleGridEventPress, onRefresh, refreshing, renderGridHeader, state.selectedDate]);
 
   // Render month view
   const renderMonthView = () => {
@@ -1090,6 +939,12 @@ function CalendarScreen({ events, tasks, goals, database }: CalendarScreenProps)
           >
             <Icon icon={Download01Icon} size={18} color={colors.text.secondary} />
           </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => setShowIcsModal(true)}
+            style={styles.importButton}
+          >
+            <Icon icon={Share01Icon} size={18} color={colors.text.secondary} />
+          </TouchableOpacity>
           <TouchableOpacity onPress={onRefresh} style={styles.refreshButton}>
             <Text style={styles.refreshButtonText}>↻</Text>
           </TouchableOpacity>
@@ -1271,6 +1126,13 @@ function CalendarScreen({ events, tasks, goals, database }: CalendarScreenProps)
         onClose={() => setShowImportModal(false)}
         onImportComplete={handleImportModalComplete}
       />
+
+      {/* .ics Export/Import Modal */}
+      <IcsCalendarModal
+        visible={showIcsModal}
+        fromDate={state.selectedDate}
+        onClose={() => setShowIcsModal(false)}
+      />
     </View>
   );
 }
@@ -1396,34 +1258,16 @@ const styles = StyleSheet.create({
   retryButton: {
     marginTop: spacing.sm,
   },
-  dayViewContainer: {
-    padding: spacing.md,
-  },
-  dayViewContent: {
-    flexGrow: 1, // Allow content to grow and take available space
-    paddingBottom: 100, // Add padding at bottom for better scrolling
-  },
   dayViewTitle: {
     fontSize: typography.fontSize.lg,
     fontWeight: typography.fontWeight.bold as any,
     color: colors.text.primary,
     marginBottom: spacing.md,
   },
-  weekViewContainer: {
-    padding: spacing.md,
-  },
-  weekViewTitle: {
-    fontSize: typography.fontSize.lg,
-    fontWeight: typography.fontWeight.bold as any,
-    color: colors.text.primary,
-    marginBottom: spacing.md,
-  },
   monthViewContainer: {
     flex: 1,
   },
   emptyState: {
-    flex: 1,
-    justifyContent: 'center',
     alignItems: 'center',
     padding: spacing.xl,
   },
@@ -1465,79 +1309,17 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 2,
   },
-  timeBlockHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: spacing.sm,
-    paddingBottom: spacing.sm,
-    borderBottomWidth: 1,
-    borderBottomColor: colors.border.light,
+  gridHeader: {
+    paddingHorizontal: spacing.md,
   },
   timeBlockTitle: {
     fontSize: typography.fontSize.lg,
     fontWeight: typography.fontWeight.bold as any,
     color: colors.text.primary,
   },
-  timeBlockTime: {
-    fontSize: typography.fontSize.sm,
-    color: colors.text.secondary,
-    fontWeight: typography.fontWeight.medium as any,
-  },
-  emptyTimeBlock: {
-    padding: spacing.md,
-    alignItems: 'center',
-  },
-  emptyTimeBlockText: {
-    fontSize: typography.fontSize.sm,
-    color: colors.text.disabled,
-    fontStyle: 'italic',
-  },
-  eventsList: {
-    gap: spacing.sm,
-  },
   eventCardContainer: {
     marginBottom: spacing.sm,
   },
-  dateGroup: {
-    marginBottom: spacing.lg,
-    backgroundColor: colors.surface,
-    borderRadius: spacing.sm,
-    padding: spacing.md,
-    shadowColor: colors.text.primary,
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 4,
-    elevation: 2,
-  },
-  dateGroupHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: spacing.sm,
-    paddingBottom: spacing.sm,
-    borderBottomWidth: 1,
-    borderBottomColor: colors.border.light,
-  },
-  dateGroupTitle: {
-    fontSize: typography.fontSize.lg,
-    fontWeight: typography.fontWeight.bold as any,
-    color: colors.text.primary,
-  },
-  dateGroupDate: {
-    fontSize: typography.fontSize.sm,
-    color: colors.text.secondary,
-    fontWeight: typography.fontWeight.medium as any,
-  },
-  emptyDateGroup: {
-    padding: spacing.md,
-    alignItems: 'center',
-  },
-  emptyDateGroupText: {
-    fontSize: typography.fontSize.sm,
-    color: colors.text.disabled,
-    fontStyle: 'italic',
-  },
   goalsSection: {
     padding: spacing.md,
     backgroundColor: colors.background.primary,
@@ -1734,7 +1516,9 @@ const enhance = withObservables(['database'], ({ database }) => ({
   events: database.collections.get('calendar_events').query(
     Q.where('status', Q.notEq('pending_delete'))
   ).observe(),
-  tasks: database.collections.get('tasks').query().observe(),
+  tasks: database.collections.get('tasks').query(
+    Q.where('sync_state', Q.notEq('pending_delete'))
+  ).observe(),
   goals: database.collections.get('goals').query().observe(),
 }));
 
@@ -12,6 +12,7 @@ import { syncService } from '../../services/SyncService';
 import { Q } from '@nozbe/watermelondb';
 import Goal from '../../db/models/Goal';
 import Milestone from '../../db/models/Milestone';
+import { GoalProgress } from '../../utils/goalProgress';
 
 import { Delete01Icon, PencilEdit01Icon } from '@hugeicons/core-free-icons';
 import { HugeiconsIcon as Icon } from '@hugeicons/react-native';
@@ -21,6 +22,7 @@ interface GoalDetailScreenProps {
   navigation: any;
   goal: Goal; // From withObservables
   milestones: Milestone[]; // From withObservables
+  progress: GoalProgress | null; // From withObservables
   database: any;
 }
 
@@ -29,6 +31,7 @@ const GoalDetailScreen: React.FC<GoalDetailScreenProps> = ({
   navigation,
   goal,
   milestones,
+  progress,
 }) => {
   const { goalId } = route.params;
 
@@ -78,22 +81,7 @@ const GoalDetailScreen: React.FC<GoalDetailScreenProps> = ({
     return total > 0 ? (completed / total) * 100 : 0;
   };
 
-  const calculateProgress = () => {
-    const totalMilestones = milestones?.length || 0;
-    const completedMilestones = milestones?.filter(m => m.completed).length || 0;
-
-    // Steps are nested in milestones in the model
-    let totalSteps = 0;
-    let completedSteps = 0;
-
-    // WatermelonDB milestones might need different handling for steps 
-    // but if they are fetched already, we can use them.
-    // For now, let's keep it simple as the model might not have array of steps.
-
-    return { completedMilestones, totalMilestones, completedSteps, totalSteps };
-  };
-
-  const renderProgressBar = (completed: number, total: number, type: 'milestones' | 'steps') => {
+  const renderProgressBar = (completed: number, total: number, type: 'milestones' | 'steps' | 'tasks') => {
     const percentage = getProgressPercentage(completed, total);
 
     return (
@@ -136,21 +124,19 @@ const GoalDetailScreen: React.FC<GoalDetailScreenProps> = ({
             <Text style={styles.goalTitle}>{goal.title}</Text>
             <View style={[
               styles.statusIndicator,
-              { backgroundColor: (goal.progressPercentage || 0) >= 100 ? colors.success : colors.warning }
+              { backgroundColor: (progress?.percentage || 0) >= 100 ? colors.success : colors.warning }
             ]} />
           </View>
 
           <Text style={styles.goalDescription}>{goal.description}</Text>
 
-          {(() => {
-            const progress = calculateProgress();
-            return (
-              <>
-                {renderProgressBar(progress.completedMilestones, progress.totalMilestones, 'milestones')}
-                {renderProgressBar(progress.completedSteps, progress.totalSteps, 'steps')}
-              </>
-            );
-          })()}
+          {progress && (
+            <>
+              {renderProgressBar(progress.completedMilestones, progress.totalMilestones, 'milestones')}
+              {renderProgressBar(progress.completedSteps, progress.totalSteps, 'steps')}
+              {progress.totalTasks > 0 && renderProgressBar(progress.completedTasks, progress.totalTasks, 'tasks')}
+            </>
+          )}
         </View>
 
         {/* Next Milestone */}
@@ -477,6 +463,7 @@ const enhance = withObservables(['route', 'database'], ({ route, database }) =>
     return {
       goal: null,
       milestones: [],
+      progress: null,
     };
   }
 
@@ -489,6 +476,7 @@ const enhance = withObservables(['route', 'database'], ({ route, database }) =>
         Q.sortBy('order', Q.asc)
       )
       .observe(),
+    progress: goalRepository.observeGoalProgress(goalId),
   };
 });
 
@@ -36,6 +36,7 @@ import HelpTarget from '../../components/help/HelpTarget';
 import { useHelp, HelpContent, HelpScope } from '../../contexts/HelpContext';
 import { useFocusEffect } from '@react-navigation/native';
 import { LoadingSkeleton } from '../../components/common/LoadingSkeleton';
+import { computeGoalProgress, ProgressTask } from '../../utils/goalProgress';
 
 interface Step {
   id: string;
@@ -62,6 +63,9 @@ interface Goal {
   totalMilestones: number;
   completedSteps: number;
   totalSteps: number;
+  // Derived from milestones, steps and linked tasks; the stored goal field may lag behind
+  progressPercentage: number;
+  linkedTasks: ProgressTask[];
   nextMilestone: string;
   nextStep: string;
   status: 'active' | 'completed' | 'paused';
@@ -77,6 +81,11 @@ interface StepItemProps {
   onToggle: (goalId: string, milestoneId: string, stepId: string) => void;
 }
 
+const deriveGoalProgress = (milestones: Milestone[], linkedTasks: ProgressTask[]): number => {
+  const steps = milestones.flatMap((m) => m.steps.map((s) => ({ milestoneId: m.id, completed: s.completed })));
+  return computeGoalProgress(milestones, steps, linkedTasks).percentage;
+};
+
 // Memoized components moved outside the main component to avoid hooks issues
 const StepItem = React.memo(({
   step,
@@ -164,10 +173,11 @@ interface GoalsScreenProps {
   goals: Goal[]; // From withObservables
   milestones: Milestone[]; // From withObservables
   steps: Step[]; // From withObservables
+  tasks: ProgressTask[]; // From withObservables
   database: any;
 }
 
-const GoalsScreen: React.FC<GoalsScreenProps> = ({ navigation, goals: observableGoals, milestones: observableMilestones, steps: observableSteps, database }) => {
+const GoalsScreen: React.FC<GoalsScreenProps> = ({ navigation, goals: observableGoals, milestones: observableMilestones, steps: observableSteps, tasks: observableTasks, database }) => {
   const insets = useSafeAreaInsets();
   const { setHelpContent, setIsHelpOverlayActive, setHelpScope } = useHelp();
   const [goals, setGoals] = useState<Goal[]>([]);
@@ -293,19 +303,29 @@ const GoalsScreen: React.FC<GoalsScreenProps> = ({ navigation, goals: observable
 
     const goalIds = watermelonGoals.map(g => g.id);
 
-    // Batch fetch all milestones for all goals (eliminates N+1 query)
+    // Batch fetch all milestones for all goals (eliminates N+1 query); deleted ones are left out of display and progress
     const allMilestones = await database.collections.get('milestones')
-      .query(Q.where('goal_id', Q.oneOf(goalIds)))
+      .query(Q.where('goal_id', Q.oneOf(goalIds)), Q.where('status', Q.notEq('pending_delete')))
       .fetch();
 
     // Batch fetch all steps for all milestones (eliminates N*M+1 query)
     const milestoneIds = allMilestones.map((m: any) => m.id);
     const allSteps = milestoneIds.length > 0
       ? await database.collections.get('milestone_steps')
-        .query(Q.where('milestone_id', Q.oneOf(milestoneIds)))
+        .query(Q.where('milestone_id', Q.oneOf(milestoneIds)), Q.where('status', Q.notEq('pending_delete')))
         .fetch()
       : [];
 
+    // Linked tasks count toward progress
+    const allTasks = await database.collections.get('tasks')
+      .query(Q.where('goal_id', Q.oneOf(goalIds)), Q.where('sync_state', Q.notEq('pending_delete')))
+      .fetch();
+    const tasksByGoal = allTasks.reduce((acc: Record<string, ProgressTask[]>, task: any) => {
+      if (!acc[task.goalId]) { acc[task.goalId] = []; }
+      acc[task.goalId].push({ lifecycleStatus: task.lifecycleStatus });
+      return acc;
+    }, {} as Record<string, ProgressTask[]>);
+
     // Group milestones by goal_id for efficient lookup
     const milestonesByGoal = allMilestones.reduce((acc: Record<string, any[]>, milestone: any) => {
       // Handle both camelCase and snake_case property names
@@ -375,7 +395,7 @@ const GoalsScreen: React.FC<GoalsScreenProps> = ({ navigation, goals: observable
       const nextMilestoneObj = milestonesWithSteps.find((m: any) => !m.completed);
       const nextMilestone = nextMilestoneObj?.title || '';
       const nextStep = nextMilestoneObj?.steps?.find((s: any) => !s.completed)?.text || '';
-
+      const linkedTasks = tasksByGoal[goal.id] || [];
 
       return {
         id: goal.id,
@@ -385,6 +405,8 @@ const GoalsScreen: React.FC<GoalsScreenProps> = ({ navigation, goals: observable
         totalMilestones,
         completedSteps,
         totalSteps,
+        progressPercentage: deriveGoalProgress(milestonesWithSteps, linkedTasks),
+        linkedTasks,
         nextMilestone,
         nextStep,
         status: goal.status || 'active',
@@ -421,7 +443,7 @@ const GoalsScreen: React.FC<GoalsScreenProps> = ({ navigation, goals: observable
       console.error('Error transforming goals:', error);
       setGoalsLoading(false);
     });
-  }, [observableGoals, observableMilestones, observableSteps, transformGoals, database]);
+  }, [observableGoals, observableMilestones, observableSteps, observableTasks, transformGoals, database]);
 
   // Reset help overlay when this screen gains focus
   useFocusEffect(
@@ -657,6 +679,7 @@ const GoalsScreen: React.FC<GoalsScreenProps> = ({ navigation, goals: observable
         milestones: updatedMilestones,
         completedSteps,
         totalSteps,
+        progressPercentage: deriveGoalProgress(updatedMilestones, g.linkedTasks),
         nextMilestone,
         nextStep,
         completedMilestones: updatedCompletedMilestones,
@@ -675,10 +698,6 @@ const GoalsScreen: React.FC<GoalsScreenProps> = ({ navigation, goals: observable
     }
   }, [goals, loadGoals]);
 
-  const getProgressPercentage = (completed: number, total: number) => {
-    return total > 0 ? (completed / total) * 100 : 0;
-  };
-
 
   const formatTargetDate = (date?: Date): { text: string; tone: 'muted' | 'warn' | 'danger' } => {
     if (!date) { return { text: 'No target', tone: 'muted' }; }
@@ -710,7 +729,6 @@ const GoalsScreen: React.FC<GoalsScreenProps> = ({ navigation, goals: observable
 
 
   const renderGoalCard = useCallback((goal: Goal) => {
-    const stepsPct = getProgressPercentage(goal.completedSteps, goal.totalSteps);
     const due = formatTargetDate(goal.targetDate);
     const currentMilestone = goal.milestones.find((m) => !m.completed);
     const currentSteps = currentMilestone?.steps || [];
@@ -823,7 +841,7 @@ const GoalsScreen: React.FC<GoalsScreenProps> = ({ navigation, goals: observable
             )}
           </View>
           <View style={styles.ringContainer}>
-            <CircularProgress percentage={stepsPct} />
+            <CircularProgress percentage={goal.progressPercentage} />
             <Text style={styles.ringCaption}>{goal.completedSteps}/{goal.totalSteps} steps</Text>
           </View>
         </View>
@@ -1175,9 +1193,9 @@ const GoalsScreen: React.FC<GoalsScreenProps> = ({ navigation, goals: observable
     const isOverdueGoal = (g: Goal) => !!g.targetDate && isPast(g.targetDate) && !isToday(g.targetDate);
     const overdue = sortGoalsByTargetDate(active.filter((g) => isOverdueGoal(g)));
     const nonOverdue = sortGoalsByTargetDate(active.filter((g) => !isOverdueGoal(g)));
-    const overallCompleted = active.reduce((sum, g) => sum + (g.completedSteps || 0), 0);
-    const overallTotal = active.reduce((sum, g) => sum + (g.totalSteps || 0), 0);
-    const overallPercentage = overallTotal > 0 ? (overallCompleted / overallTotal) * 100 : 0;
+    const overallPercentage = active.length > 0
+      ? active.reduce((sum, g) => sum + (g.progressPercentage || 0), 0) / active.length
+      : 0;
 
     return {
       completedGoals: completed,
@@ -2077,10 +2095,16 @@ const enhance = withObservables(['database'], ({ database }) => {
     .query()
     .observe();
 
+  // Linked tasks count toward goal progress, so refresh when their status or goal changes
+  const tasks = database.collections.get('tasks')
+    .query(Q.where('goal_id', Q.notEq(null)))
+    .observeWithColumns(['lifecycle_status', 'goal_id']);
+
   return {
     goals,
     milestones,
     steps,
+    tasks,
   };
 });
 
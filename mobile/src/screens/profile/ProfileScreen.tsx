@@ -19,6 +19,8 @@ import {
   Clock01Icon,
   Logout01Icon,
   Delete01Icon,
+  RefreshIcon,
+  Activity01Icon,
   HelpCircleIcon // for fallback or alert?
 } from '@hugeicons/core-free-icons';
 import { colors } from '../../themes/colors';
@@ -31,6 +33,9 @@ import { authService } from '../../services/auth';
 import { notificationService } from '../../services/notificationService';
 import MobileAnalyticsDashboard from '../../components/analytics/MobileAnalyticsDashboard';
 import { ApiToggle } from '../../components/common/ApiToggle';
+import { syncConflictRepository } from '../../repositories/SyncConflictRepository';
+import { syncService } from '../../services/SyncService';
+import { totalCount } from '../../utils/syncStatus';
 
 type Profile = {
   id: string;
@@ -71,6 +76,8 @@ export default function ProfileScreen({ navigation }: any) {
   const [notificationPermission, setNotificationPermission] = useState<boolean>(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [deleteConfirmationText, setDeleteConfirmationText] = useState('');
+  const [conflictCount, setConflictCount] = useState(0);
+  const [failedSyncCount, setFailedSyncCount] = useState(0);
 
   // Ref for tracking delete timeout to enable cleanup
   const deleteTimeoutRef = useRef<number | null>(null);
@@ -118,6 +125,20 @@ export default function ProfileScreen({ navigation }: any) {
     });
   }, [navigation]);
 
+  useEffect(() => {
+    const subscription = syncConflictRepository.observeConflicts().subscribe({
+      next: (conflicts) => setConflictCount(conflicts.length),
+      error: (error) => console.error('Failed to observe sync conflicts', error),
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = syncService.onStatusChange(status => setFailedSyncCount(totalCount(status.failedCounts)));
+    syncService.refreshStatus();
+    return unsubscribe;
+  }, []);
+
   // Cleanup delete timeout on unmount
   useEffect(() => {
     return () => {
@@ -499,6 +520,32 @@ export default function ProfileScreen({ navigation }: any) {
           </View>
         )}
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Sync</Text>
+          <TouchableOpacity
+            style={styles.row}
+            onPress={() => navigation.navigate('SyncConflicts' as never)}
+          >
+            <Icon icon={RefreshIcon} size={18} color={conflictCount > 0 ? colors.warning : colors.primary} />
+            <Text style={styles.rowLabel}>Sync conflicts</Text>
+            <Text style={[styles.rowValue, conflictCount > 0 && { color: colors.warning }]}>
+              {conflictCount > 0 ? `${conflictCount} to review` : 'None'}
+            </Text>
+            <Icon icon={ArrowRight01Icon} size={16} color={colors.text.secondary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.row}
+            onPress={() => navigation.navigate('SyncHealth' as never)}
+          >
+            <Icon icon={Activity01Icon} size={18} color={failedSyncCount > 0 ? colors.error : colors.primary} />
+            <Text style={styles.rowLabel}>Sync health</Text>
+            <Text style={[styles.rowValue, failedSyncCount > 0 && { color: colors.error }]}>
+              {failedSyncCount > 0 ? `${failedSyncCount} failed` : 'OK'}
+            </Text>
+            <Icon icon={ArrowRight01Icon} size={16} color={colors.text.secondary} />
+          </TouchableOpacity>
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Security</Text>
           {!!profile.last_login && (
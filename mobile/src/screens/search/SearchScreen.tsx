@@ -0,0 +1,216 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TextInput, FlatList, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { HugeiconsIcon as Icon } from '@hugeicons/react-native';
+import { Search01Icon } from '@hugeicons/core-free-icons';
+import { SearchResult, searchRepository } from '../../repositories/SearchRepository';
+import { SearchSourceTable } from '../../db/searchIndex';
+import { HighlightSegment } from '../../utils/search';
+import { colors } from '../../themes/colors';
+import { spacing, borderRadius } from '../../themes/spacing';
+import { typography } from '../../themes/typography';
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const TYPE_LABELS: Record<SearchSourceTable, string> = {
+  tasks: 'Task',
+  goals: 'Goal',
+  milestones: 'Milestone',
+  milestone_steps: 'Step',
+  conversation_messages: 'Conversation',
+};
+
+const Snippet = ({ segments }: { segments: HighlightSegment[] }) => (
+  <Text style={styles.snippet} numberOfLines={2}>
+    {segments.map((segment, index) => (
+      <Text key={index} style={segment.highlighted ? styles.highlight : undefined}>
+        {segment.text}
+      </Text>
+    ))}
+  </Text>
+);
+
+const SearchScreen = ({ navigation }: any) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState('');
+  const latestQueryRef = useRef('');
+
+  React.useLayoutEffect(() => {
+    navigation.setOptions({
+      title: 'Search',
+    });
+  }, [navigation]);
+
+  useEffect(() => {
+    latestQueryRef.current = query;
+    if (!query.trim()) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const found = await searchRepository.search(query);
+        // Drop results for a query the user has already typed past
+        if (latestQueryRef.current === query) {
+          setResults(found);
+          setError('');
+        }
+      } catch (err) {
+        console.error('Error searching:', err);
+        if (latestQueryRef.current === query) {
+          setError('Search is unavailable right now.');
+        }
+      } finally {
+        if (latestQueryRef.current === query) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const openResult = (result: SearchResult) => {
+    switch (result.tableName) {
+      case 'tasks':
+        navigation.navigate('TaskDetail', { taskId: result.targetId });
+        break;
+      case 'conversation_messages':
+        navigation.navigate('Main', {
+          screen: 'AIChat',
+          params: { threadId: result.targetId, messageId: result.recordId },
+        });
+        break;
+      default:
+        navigation.navigate('GoalDetail', { goalId: result.targetId });
+    }
+  };
+
+  const renderItem = ({ item }: { item: SearchResult }) => (
+    <TouchableOpacity
+      style={styles.result}
+      onPress={() => openResult(item)}
+      accessibilityRole="button"
+      accessibilityLabel={`${TYPE_LABELS[item.tableName]}: ${item.title}`}
+    >
+      <Text style={styles.resultType}>
+        {TYPE_LABELS[item.tableName]}{item.context ? ` · ${item.context}` : ''}
+      </Text>
+      <Text style={styles.resultTitle} numberOfLines={1}>{item.title || 'Untitled'}</Text>
+      {item.snippet.length > 0 && <Snippet segments={item.snippet} />}
+    </TouchableOpacity>
+  );
+
+  const renderEmpty = () => {
+    if (searching) {
+      return <ActivityIndicator style={styles.empty} color={colors.primary} />;
+    }
+    if (error) {
+      return <Text style={[styles.emptyText, { color: colors.error }]}>{error}</Text>;
+    }
+    return (
+      <Text style={styles.emptyText}>
+        {query.trim() ? 'No matches.' : 'Search tasks, goals, milestones and conversations.'}
+      </Text>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['left', 'right']}>
+      <View style={styles.searchBar}>
+        <Icon icon={Search01Icon} size={20} color={colors.text.secondary} />
+        <TextInput
+          style={styles.input}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search"
+          placeholderTextColor={colors.text.disabled}
+          autoFocus
+          autoCorrect={false}
+          returnKeyType="search"
+          clearButtonMode="while-editing"
+          accessibilityLabel="Search"
+        />
+      </View>
+      <FlatList
+        data={results}
+        renderItem={renderItem}
+        keyExtractor={(item) => `${item.tableName}:${item.recordId}`}
+        contentContainerStyle={styles.container}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={renderEmpty}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: spacing.md,
+    paddingHorizontal: spacing.md,
+    backgroundColor: colors.background.surface,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+  },
+  input: {
+    flex: 1,
+    marginLeft: spacing.sm,
+    paddingVertical: spacing.sm,
+    color: colors.text.primary,
+    fontSize: typography.fontSize.base,
+  },
+  container: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.lg,
+    flexGrow: 1,
+  },
+  result: {
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderColor: colors.border.light,
+  },
+  resultType: {
+    color: colors.text.disabled,
+    fontSize: typography.fontSize.xs,
+    textTransform: 'uppercase',
+  },
+  resultTitle: {
+    color: colors.text.primary,
+    fontSize: typography.fontSize.base,
+    fontWeight: typography.fontWeight.semibold,
+    marginTop: spacing.xs,
+  },
+  snippet: {
+    color: colors.text.secondary,
+    fontSize: typography.fontSize.sm,
+    marginTop: spacing.xs,
+  },
+  highlight: {
+    color: colors.text.primary,
+    fontWeight: typography.fontWeight.semibold,
+    backgroundColor: colors.accent.secondary,
+  },
+  empty: {
+    marginTop: spacing.lg,
+  },
+  emptyText: {
+    color: colors.text.secondary,
+    fontSize: typography.fontSize.base,
+    textAlign: 'center',
+    marginTop: spacing.lg,
+  },
+});
+
+export default SearchScreen;
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, FlatList, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { HugeiconsIcon as Icon } from '@hugeicons/react-native';
+import { Tick01Icon } from '@hugeicons/core-free-icons';
+import { ConflictChoice, SyncConflictView, syncConflictRepository } from '../../repositories/SyncConflictRepository';
+import { syncService } from '../../services/SyncService';
+import { formatRecurrencePattern } from '../../utils/recurrenceUtils';
+import { SnapshotValue } from '../../utils/syncMerge';
+import { colors } from '../../themes/colors';
+import { spacing, borderRadius } from '../../themes/spacing';
+import { typography } from '../../themes/typography';
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  priority: 'Priority',
+  estimated_duration_minutes: 'Estimated duration',
+  due_date: 'Due date',
+  goal_id: 'Goal',
+  is_today_focus: "Today's focus",
+  status: 'Status',
+  recurrence_pattern: 'Repeat',
+  target_completion_date: 'Target date',
+  progress_percentage: 'Progress',
+  category: 'Category',
+  is_active: 'Active',
+};
+
+const formatValue = (field: string, value: SnapshotValue): string => {
+  if (value === null || value === '') {
+    return 'Empty';
+  }
+  switch (field) {
+    case 'due_date':
+    case 'target_completion_date':
+      return new Date(value as string).toLocaleString();
+    case 'is_today_focus':
+    case 'is_active':
+      return value ? 'Yes' : 'No';
+    case 'estimated_duration_minutes':
+      return `${value} min`;
+    case 'progress_percentage':
+      return `${value}%`;
+    case 'status':
+      return String(value).replace(/_/g, ' ');
+    case 'recurrence_pattern':
+      try {
+        return formatRecurrencePattern(JSON.parse(value as string)) || 'Does not repeat';
+      } catch {
+        return String(value);
+      }
+    default:
+      return String(value);
+  }
+};
+
+const SyncConflictsScreen = ({ navigation }: any) => {
+  const [conflicts, setConflicts] = useState<SyncConflictView[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  React.useLayoutEffect(() => {
+    navigation.setOptions({
+      title: 'Sync Conflicts',
+    });
+  }, [navigation]);
+
+  useEffect(() => {
+    let active = true;
+    const subscription = syncConflictRepository.observeConflicts().subscribe({
+      next: async (rows) => {
+        const views = await syncConflictRepository.getConflictViews(rows);
+        if (active) {
+          setConflicts(views);
+          setLoading(false);
+        }
+      },
+      error: (error) => {
+        console.error('Error observing sync conflicts:', error);
+        setLoading(false);
+      },
+    });
+
+    return () => {
+      active = false;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const resolve = async (conflict: SyncConflictView, choice: ConflictChoice) => {
+    setResolvingId(conflict.id);
+    try {
+      await syncConflictRepository.resolveConflict(conflict.id, choice);
+      syncService.silentSync().catch(err => {
+        console.warn('Background sync after resolving conflict failed:', err);
+      });
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      Alert.alert('Error', 'Could not save your choice. Please try again.');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const renderOption = (conflict: SyncConflictView, choice: ConflictChoice) => {
+    const value = choice === 'local' ? conflict.localValue : conflict.serverValue;
+    return (
+      <TouchableOpacity
+        style={styles.option}
+        onPress={() => resolve(conflict, choice)}
+        disabled={resolvingId !== null}
+      >
+        <View style={styles.optionText}>
+          <Text style={styles.optionLabel}>{choice === 'local' ? 'This device' : 'Other device'}</Text>
+          <Text style={styles.optionValue}>{formatValue(conflict.field, value)}</Text>
+        </View>
+        <Icon icon={Tick01Icon} size={18} color={colors.primary} />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderItem = ({ item }: { item: SyncConflictView }) => (
+    <View style={styles.card}>
+      <Text style={styles.recordType}>{item.tableName === 'tasks' ? 'Task' : 'Goal'}</Text>
+      <Text style={styles.recordTitle}>{item.recordTitle}</Text>
+      <Text style={styles.field}>
+        {FIELD_LABELS[item.field] || item.field} was changed on both devices. Which version do you want to keep?
+      </Text>
+      {resolvingId === item.id ? (
+        <ActivityIndicator style={styles.resolving} color={colors.primary} />
+      ) : (
+        <>
+          {renderOption(item, 'local')}
+          {renderOption(item, 'server')}
+        </>
+      )}
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['left', 'right']}>
+      <FlatList
+        data={conflicts}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.container}
+        ListEmptyComponent={
+          <View style={styles.center}>
+            <Text style={styles.emptyText}>No conflicts. Everything is in sync.</Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  container: {
+    padding: spacing.md,
+    flexGrow: 1,
+  },
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  card: {
+    backgroundColor: colors.background.surface,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+  },
+  recordType: {
+    color: colors.text.disabled,
+    fontSize: typography.fontSize.xs,
+    textTransform: 'uppercase',
+  },
+  recordTitle: {
+    color: colors.text.primary,
+    fontSize: typography.fontSize.base,
+    fontWeight: typography.fontWeight.semibold,
+    marginTop: spacing.xs,
+  },
+  field: {
+    color: colors.text.secondary,
+    fontSize: typography.fontSize.sm,
+    marginTop: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderColor: colors.border.light,
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionLabel: {
+    color: colors.text.disabled,
+    fontSize: typography.fontSize.xs,
+  },
+  optionValue: {
+    color: colors.text.primary,
+    fontSize: typography.fontSize.sm,
+    marginTop: 2,
+  },
+  resolving: {
+    marginVertical: spacing.md,
+  },
+  emptyText: {
+    color: colors.text.secondary,
+    fontSize: typography.fontSize.base,
+    textAlign: 'center',
+  },
+});
+
+export default SyncConflictsScreen;
@@ -0,0 +1,331 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, FlatList, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { FailingRecord, syncService } from '../../services/SyncService';
+import { OutboxTable } from '../../utils/outbox';
+import { describePullProgress } from '../../utils/pullCursors';
+import { SyncStatus, TableCounts, totalCount } from '../../utils/syncStatus';
+import { colors } from '../../themes/colors';
+import { spacing, borderRadius } from '../../themes/spacing';
+import { typography } from '../../themes/typography';
+
+const TABLE_LABELS: Record<OutboxTable, string> = {
+  goals: 'Goal',
+  milestones: 'Milestone',
+  milestone_steps: 'Milestone step',
+  tasks: 'Task',
+  calendar_events: 'Event',
+  conversation_threads: 'Conversation',
+  conversation_messages: 'Message',
+  routines: 'Routine',
+  routine_completions: 'Routine completion',
+  saved_filters: 'Saved filter',
+  task_dependencies: 'Task dependency',
+  task_checklist_items: 'Checklist item',
+  daily_reflections: 'Daily reflection',
+};
+
+const OPERATION_LABELS: Record<string, string> = {
+  create: 'Create',
+  update: 'Edit',
+  delete: 'Delete',
+};
+
+const formatTime = (value: string | Date | null): string => {
+  return value ? new Date(value).toLocaleString() : 'Never';
+};
+
+const formatCounts = (counts: TableCounts): string => {
+  const parts = (Object.keys(counts) as OutboxTable[])
+    .filter(tableName => (counts[tableName] || 0) > 0)
+    .map(tableName => `${counts[tableName]} ${TABLE_LABELS[tableName].toLowerCase()}`);
+  return parts.length > 0 ? parts.join(', ') : 'None';
+};
+
+const describePhase = (status: SyncStatus): string => {
+  if (status.pullProgress) {
+    return describePullProgress(status.pullProgress);
+  }
+  switch (status.phase) {
+    case 'pushing':
+      return 'Sending changes';
+    case 'pulling':
+      return 'Receiving changes';
+    default:
+      return 'Idle';
+  }
+};
+
+const SyncHealthScreen = ({ navigation }: any) => {
+  const [status, setStatus] = useState<SyncStatus>(syncService.getStatus());
+  const [failing, setFailing] = useState<FailingRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  React.useLayoutEffect(() => {
+    navigation.setOptions({
+      title: 'Sync Health',
+    });
+  }, [navigation]);
+
+  const loadFailing = useCallback(async () => {
+    try {
+      setFailing(await syncService.getFailingRecords());
+    } catch (error) {
+      console.error('Error loading failing sync records:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => syncService.onStatusChange(setStatus), []);
+
+  // Reload the failing records whenever a sync finishes
+  useEffect(() => {
+    if (status.phase === 'idle') {
+      loadFailing();
+    }
+  }, [status.phase, status.lastSuccessAt, status.lastFailureAt, loadFailing]);
+
+  useEffect(() => {
+    syncService.refreshStatus();
+  }, []);
+
+  const retry = async (item: FailingRecord) => {
+    setBusyId(item.operationId);
+    try {
+      await syncService.retryFailedRecord(item.operationId);
+      await loadFailing();
+    } catch (error) {
+      console.error('Error retrying sync record:', error);
+      Alert.alert('Error', 'Could not retry this change. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const discard = (item: FailingRecord) => {
+    const label = TABLE_LABELS[item.tableName].toLowerCase();
+    Alert.alert(
+      'Discard change?',
+      item.operation === 'create'
+        ? `This ${label} was never saved to your account and will be removed from this device.`
+        : `Your change to this ${label} will be dropped and the version saved to your account restored.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            setBusyId(item.operationId);
+            try {
+              await syncService.discardFailedRecord(item.operationId);
+              await loadFailing();
+            } catch (error) {
+              console.error('Error discarding sync record:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : 'Could not discard this change.');
+            } finally {
+              setBusyId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const syncNow = () => {
+    syncService.sync().catch(err => {
+      console.warn('Manual sync from sync health failed:', err);
+    });
+  };
+
+  const renderHeader = () => (
+    <View style={styles.card}>
+      <View style={styles.statusRow}>
+        <Text style={styles.statusLabel}>Status</Text>
+        <Text style={styles.statusValue}>{describePhase(status)}</Text>
+      </View>
+      <View style={styles.statusRow}>
+        <Text style={styles.statusLabel}>Last successful sync</Text>
+        <Text style={styles.statusValue}>{formatTime(status.lastSuccessAt)}</Text>
+      </View>
+      <View style={styles.statusRow}>
+        <Text style={styles.statusLabel}>Last failed sync</Text>
+        <Text style={styles.statusValue}>{formatTime(status.lastFailureAt)}</Text>
+      </View>
+      {!!status.lastError && (
+        <Text style={styles.error}>{status.lastError}</Text>
+      )}
+      <View style={styles.statusRow}>
+        <Text style={styles.statusLabel}>Waiting to send</Text>
+        <Text style={styles.statusValue}>{formatCounts(status.pendingCounts)}</Text>
+      </View>
+      <View style={styles.statusRow}>
+        <Text style={styles.statusLabel}>Failed</Text>
+        <Text style={[styles.statusValue, totalCount(status.failedCounts) > 0 && { color: colors.error }]}>
+          {formatCounts(status.failedCounts)}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={[styles.button, styles.primaryButton]}
+        onPress={syncNow}
+        disabled={status.phase !== 'idle'}
+        accessibilityRole="button"
+      >
+        {status.phase !== 'idle' ? (
+          <ActivityIndicator color={colors.secondary} />
+        ) : (
+          <Text style={styles.primaryButtonText}>Sync now</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderItem = ({ item }: { item: FailingRecord }) => (
+    <View style={styles.card}>
+      <Text style={styles.recordType}>
+        {TABLE_LABELS[item.tableName]} · {OPERATION_LABELS[item.operation] || item.operation}
+      </Text>
+      <Text style={styles.recordTitle} numberOfLines={2}>{item.title ?? 'Removed from this device'}</Text>
+      {!!item.lastError && <Text style={styles.error}>{item.lastError}</Text>}
+      <Text style={styles.meta}>
+        {item.attemptCount} {item.attemptCount === 1 ? 'attempt' : 'attempts'}
+        {item.nextAttemptAt ? ` · next try ${formatTime(item.nextAttemptAt)}` : ''}
+      </Text>
+      {busyId === item.operationId ? (
+        <ActivityIndicator style={styles.busy} color={colors.primary} />
+      ) : (
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.button} onPress={() => retry(item)} disabled={busyId !== null}>
+            <Text style={styles.buttonText}>Retry</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.button} onPress={() => discard(item)} disabled={busyId !== null}>
+            <Text style={[styles.buttonText, { color: colors.error }]}>Discard</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['left', 'right']}>
+      <FlatList
+        data={failing}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.operationId}
+        ListHeaderComponent={renderHeader}
+        contentContainerStyle={styles.container}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>No failed changes.</Text>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: colors.background.primary,
+  },
+  container: {
+    padding: spacing.md,
+    flexGrow: 1,
+  },
+  center: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  card: {
+    backgroundColor: colors.background.surface,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+  statusLabel: {
+    color: colors.text.secondary,
+    fontSize: typography.fontSize.sm,
+  },
+  statusValue: {
+    color: colors.text.primary,
+    fontSize: typography.fontSize.sm,
+    flexShrink: 1,
+    textAlign: 'right',
+    marginLeft: spacing.md,
+  },
+  recordType: {
+    color: colors.text.disabled,
+    fontSize: typography.fontSize.xs,
+    textTransform: 'uppercase',
+  },
+  recordTitle: {
+    color: colors.text.primary,
+    fontSize: typography.fontSize.base,
+    fontWeight: typography.fontWeight.semibold,
+    marginTop: spacing.xs,
+  },
+  error: {
+    color: colors.error,
+    fontSize: typography.fontSize.sm,
+    marginTop: spacing.xs,
+  },
+  meta: {
+    color: colors.text.disabled,
+    fontSize: typography.fontSize.xs,
+    marginTop: spacing.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: spacing.sm,
+    borderTopWidth: 1,
+    borderColor: colors.border.light,
+  },
+  button: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
+  buttonText: {
+    color: colors.primary,
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.medium,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.md,
+    marginTop: spacing.md,
+  },
+  primaryButtonText: {
+    color: colors.secondary,
+    fontSize: typography.fontSize.sm,
+    fontWeight: typography.fontWeight.semibold,
+  },
+  busy: {
+    marginVertical: spacing.md,
+  },
+  emptyText: {
+    color: colors.text.secondary,
+    fontSize: typography.fontSize.base,
+    textAlign: 'center',
+    marginTop: spacing.lg,
+  },
+});
+
+export default SyncHealthScreen;
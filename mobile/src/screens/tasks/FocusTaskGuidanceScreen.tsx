@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import AsyncStorage from '@react-native-async-storage/async-storage';
@@ -7,8 +7,28 @@ import { Target01Icon, Tick01Icon } from '@hugeicons/core-free-icons';
 import { colors } from '../../themes/colors';
 import { spacing, borderRadius } from '../../themes/spacing';
 import { typography } from '../../themes/typography';
+import { taskRepository } from '../../repositories/TaskRepository';
+import { offlineService } from '../../services/offline';
 
 export default function FocusTaskGuidanceScreen({ navigation }: any) {
+  const [focusReason, setFocusReason] = useState<{ title: string; reasons: string[] } | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    // Same preferences TasksScreen ranks with, as last cached from the server
+    offlineService.getCachedSchedulingPreferences()
+      .then(schedulingPreferences => taskRepository.explainFocusTask({ schedulingPreferences }))
+      .then(explanation => {
+        if (active && explanation) {
+          setFocusReason({ title: explanation.task.title, reasons: explanation.reasons });
+        }
+      })
+      .catch(error => console.warn('Failed to explain focus task:', error));
+    return () => {
+      active = false;
+    };
+  }, []);
+
   const handleGotIt = async () => {
     try {
       // Mark guidance as shown
@@ -50,6 +70,15 @@ export default function FocusTaskGuidanceScreen({ navigation }: any) {
             </View>
           </View>
 
+          {focusReason && (
+            <View style={styles.reasonCard} accessibilityLabel={`Why ${focusReason.title}: ${focusReason.reasons.join(', ')}`}>
+              <Text style={styles.reasonTitle}>Why "{focusReason.title}"</Text>
+              {focusReason.reasons.map(reason => (
+                <Text key={reason} style={styles.reasonText}>• {reason}</Text>
+              ))}
+            </View>
+          )}
+
           <TouchableOpacity
             style={styles.primaryBtn}
             onPress={handleGotIt}
@@ -136,6 +165,27 @@ const styles = StyleSheet.create({
     color: colors.text.primary,
     lineHeight: typography.lineHeight.normal * typography.fontSize.base,
   },
+  reasonCard: {
+    width: '100%',
+    maxWidth: 400,
+    marginBottom: spacing.xl,
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    backgroundColor: colors.secondary,
+  },
+  reasonTitle: {
+    fontSize: typography.fontSize.base,
+    fontWeight: typography.fontWeight.semibold as any,
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  reasonText: {
+    fontSize: typography.fontSize.sm,
+    color: colors.text.secondary,
+    lineHeight: typography.lineHeight.normal * typography.fontSize.sm,
+  },
   primaryBtn: {
     paddingVertical: spacing.md,
     paddingHorizontal: spacing.xl,
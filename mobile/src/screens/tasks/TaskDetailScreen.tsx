@@ -12,6 +12,8 @@ import { colors } from '../../themes/colors';
 import { spacing, borderRadius } from '../../themes/spacing';
 import { typography } from '../../themes/typography';
 import { Button } from '../../components/common/Button';
+import { TaskDependencyEditor } from '../../components/tasks/TaskDependencyEditor';
+import { TaskChecklistEditor } from '../../components/tasks/TaskChecklistEditor';
 import { taskRepository } from '../../repositories/TaskRepository';
 import { syncService } from '../../services/SyncService';
 import withObservables from '@nozbe/watermelondb/react/withObservables';
@@ -100,7 +102,7 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({
 
     try {
       setUpdating(true);
-      const newStatus = task.status === 'completed' ? 'not_started' : 'completed';
+      const newStatus = task.lifecycleStatus === 'completed' ? 'not_started' : 'completed';
       await taskRepository.updateTask(taskId, { status: newStatus });
       // Trigger silent sync to push changes to server
       try {
@@ -182,11 +184,11 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({
               <View
                 style={[
                   styles.statusBadge,
-                  { backgroundColor: getStatusColor(task.status) },
+                  { backgroundColor: getStatusColor(task.lifecycleStatus) },
                 ]}
               >
                 <Text style={styles.badgeText}>
-                  {getStatusText(task.status)}
+                  {getStatusText(task.lifecycleStatus)}
                 </Text>
               </View>
               <View
@@ -235,13 +237,19 @@ const TaskDetailScreen: React.FC<TaskDetailScreenProps> = ({
             )}
           </View>
 
+          {/* Checklist */}
+          <TaskChecklistEditor taskId={task.id} />
+
+          {/* Dependencies */}
+          <TaskDependencyEditor taskId={task.id} />
+
           {/* Actions */}
           <View style={styles.actions}>
             <Button
-              title={task.status === 'completed' ? 'Mark Incomplete' : 'Mark Complete'}
+              title={task.lifecycleStatus === 'completed' ? 'Mark Incomplete' : 'Mark Complete'}
               onPress={handleToggleStatus}
               loading={updating}
-              variant={task.status === 'completed' ? 'outline' : 'primary'}
+              variant={task.lifecycleStatus === 'completed' ? 'outline' : 'primary'}
               style={styles.actionButton}
             />
             <Button
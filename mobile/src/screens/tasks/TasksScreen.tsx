@@ -7,6 +7,7 @@ import {
   Modal,
   Alert,
   ActivityIndicator,
+  ScrollView,
 } from 'react-native';
 import { useWindowDimensions } from 'react-native';
 import { colors } from '../../themes/colors';
@@ -25,6 +26,8 @@ import { enhancedAPI } from '../../services/enhancedApi';
 import { taskRepository } from '../../repositories/TaskRepository';
 import { goalRepository } from '../../repositories/GoalRepository';
 import { syncService } from '../../services/SyncService';
+import { offlineService } from '../../services/offline';
+import { errorHandlingService } from '../../services/errorHandling';
 import analyticsService from '../../services/analyticsService';
 import { HugeiconsIcon as Icon } from '@hugeicons/react-native';
 import {
@@ -41,7 +44,6 @@ import {
   Tick01Icon,
   ArrowRight01Icon,
   ArrowLeftRightIcon,
-  Clock01Icon,
   HelpCircleIcon
 } from '@hugeicons/core-free-icons';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
@@ -62,8 +64,35 @@ import { showToast as showToastMessage } from '../../contexts/ToastContext';
 import Task from '../../db/models/Task';
 import Goal from '../../db/models/Goal';
 import { extractCalendarEvents } from './utils/calendarEventUtils';
-import { getLifecycleStatus as extractLifecycleStatus } from './utils/statusUtils';
 import { useSoundEffect } from '../../hooks/useSoundEffect';
+import { useSavedFilters } from '../../hooks/useSavedFilters';
+import { useTaskDependencies } from '../../hooks/useTaskDependencies';
+import { useChecklistProgress } from '../../hooks/useTaskChecklist';
+import { describeBlockers, getOpenBlockers } from '../../utils/taskDependencies';
+import { taskMatchesFilter } from '../../utils/filterEngine';
+import { focusSkips } from '../../services/focusSkips';
+import { EndOfDayReviewModal, EndOfDayReviewResult } from '../../components/tasks/EndOfDayReviewModal';
+import { dailyReflectionRepository } from '../../repositories/DailyReflectionRepository';
+import { countEodActions, getEndOfDayTasks, rolloverDueDate, toReflectionDate } from '../../utils/endOfDayReview';
+import { addDays, startOfDay } from 'date-fns';
+import { ConflictEvent, conflictEventFromApi, findConflicts, suggestAlternatives } from '../../utils/calendarConflicts';
+import { resolveFreeBusyPreferences } from '../../utils/freeBusy';
+import { confirmConflictingTime } from '../../components/calendar/ConflictWarning';
+import type { Task as FilterTask } from '../../types/calendar';
+
+// The shape the shared filter engine evaluates (see utils/filterEngine)
+const toFilterTask = (task: Task): FilterTask => ({
+  id: task.id,
+  title: task.title,
+  description: task.description,
+  priority: (task.priority as 'low' | 'medium' | 'high') || 'medium',
+  status: task.lifecycleStatus || 'not_started',
+  due_date: task.dueDate?.toISOString(),
+  category: task.category,
+  location: task.location,
+  estimated_duration_minutes: task.estimatedDurationMinutes,
+  is_recurring: !!task.recurrencePatternJson,
+});
 
 // Internal props interface - what the component actually uses
 interface InternalTasksScreenProps {
@@ -178,7 +207,8 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
                 title: t.title,
                 description: t.description,
                 priority: t.priority,
-                status: t.status,
+                lifecycleStatus: t.lifecycleStatus,
+                syncState: t.syncState,
                 isTodayFocus: true,
                 category: t.category,
                 estimatedDurationMinutes: t.estimatedDurationMinutes,
@@ -200,7 +230,8 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
               title: t.title,
               description: t.description,
               priority: t.priority,
-              status: t.status,
+              lifecycleStatus: t.lifecycleStatus,
+              syncState: t.syncState,
               isTodayFocus: false, // Override
               category: t.category,
               estimatedDurationMinutes: t.estimatedDurationMinutes,
@@ -223,7 +254,8 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
             id: optimisticTaskData.id,
             title: optimisticTaskData.title,
             priority: optimisticTaskData.priority || 'medium',
-            status: optimisticTaskData.status || 'not_started',
+            lifecycleStatus: optimisticTaskData.lifecycleStatus || 'not_started',
+            syncState: 'pending_create',
             isTodayFocus: true,
             category: optimisticTaskData.category,
             // Defaults for missing properties
@@ -261,14 +293,12 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
   const [toastScheduledTime, setToastScheduledTime] = useState<string | undefined>();
   const [toastCalendarEvent, setToastCalendarEvent] = useState(false);
   const [showInbox, setShowInbox] = useState(false);
+  const [activeSmartListId, setActiveSmartListId] = useState<string | null>(null);
+  const savedFilters = useSavedFilters();
+  const taskDependencies = useTaskDependencies();
+  const checklistProgress = useChecklistProgress();
   const [selectingFocus, setSelectingFocus] = useState(false);
 
-  // Helper function to extract lifecycle status from combined format
-  // Status can be: lifecycle status ('not_started', 'in_progress', 'completed')
-  // or combined format ('pending_update:<lifecycle_status>' or 'pending_create:<lifecycle_status>')
-  // or sync status ('pending_create', 'pending_update', 'pending_delete', 'synced')
-  const getLifecycleStatus = React.useCallback(extractLifecycleStatus, []);
-
   const [showEodPrompt, setShowEodPrompt] = useState(false);
   const [quickMenuVisible, setQuickMenuVisible] = useState(false);
   const [quickAnchor, setQuickAnchor] = useState<{ x: number; y: number } | undefined>(undefined);
@@ -283,7 +313,7 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
   );
 
   const eodActionInFlightRef = React.useRef<boolean>(false);
-  const eodFocusIdRef = React.useRef<string | undefined>(undefined);
+  const [eodTasks, setEodTasks] = useState<Task[]>([]);
   const [travelPreference, setTravelPreference] = useState<'allow_travel' | 'home_only'>('allow_travel');
   const [_userNotificationPrefs, _setUserNotificationPrefs] = useState<any | null>(null);
   const [userSchedulingPreferences, setUserSchedulingPreferences] = useState<any>(null);
@@ -307,13 +337,43 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
   }), []);
 
   const getFocusTask = useCallback((): Task | undefined => {
-    return tasks.find(task => task.isTodayFocus && getLifecycleStatus(task.status) !== 'completed');
+    return tasks.find(task => task.isTodayFocus && task.lifecycleStatus !== 'completed');
   }, [tasks]);
 
   const inboxTasks = useMemo(() => {
-    return tasks.filter(task => !task.isTodayFocus && getLifecycleStatus(task.status) !== 'completed');
+    return tasks.filter(task => !task.isTodayFocus && task.lifecycleStatus !== 'completed');
   }, [tasks]);
 
+  // Smart lists: saved filters evaluated against the Inbox, recomputed as tasks change
+  const smartListTasks = useMemo(() => {
+    const now = new Date();
+    const candidates = inboxTasks.map(task => ({ task, filterTask: toFilterTask(task) }));
+    const matches: Record<string, Task[]> = {};
+    for (const saved of savedFilters) {
+      matches[saved.id] = candidates
+        .filter(({ filterTask }) => taskMatchesFilter(filterTask, saved.options, now))
+        .map(({ task }) => task);
+    }
+    return matches;
+  }, [inboxTasks, savedFilters]);
+
+  // Tasks waiting on an unfinished task, and a "Blocked by ..." label for each
+  const blockedReasons = useMemo(() => {
+    const blockers = getOpenBlockers(taskDependencies, tasks.map(t => ({ id: t.id, status: t.lifecycleStatus })));
+    const titleById = new Map(tasks.map(t => [t.id, t.title]));
+    const reasons = new Map<string, string>();
+    blockers.forEach((blockerIds, taskId) => {
+      const reason = describeBlockers(blockerIds, titleById);
+      if (reason) {
+        reasons.set(taskId, reason);
+      }
+    });
+    return reasons;
+  }, [taskDependencies, tasks]);
+
+  // Falls back to the whole Inbox if the selected smart list was deleted
+  const visibleInboxTasks = (activeSmartListId && smartListTasks[activeSmartListId]) || inboxTasks;
+
   useEffect(() => {
     loadData();
     loadSchedulingPreferences();
@@ -323,7 +383,7 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
   useEffect(() => {
     analyticsService.trackScreenView('tasks', {
       taskCount: tasks.length,
-      completedCount: tasks.filter(t => getLifecycleStatus(t.status) === 'completed').length,
+      completedCount: tasks.filter(t => t.lifecycleStatus === 'completed').length,
       focusTaskCount: tasks.filter(t => t.isTodayFocus).length
     }).catch(error => {
       console.warn('Failed to track screen view analytics:', error);
@@ -377,8 +437,15 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
     try {
       const prefs = await (enhancedAPI as any).getSchedulingPreferences();
       setUserSchedulingPreferences(prefs);
+      // Kept for scheduling offline
+      offlineService.cacheSchedulingPreferences(prefs).catch(() => { });
     } catch (error) {
       console.warn('Failed to load scheduling preferences:', error);
+      const cached = await offlineService.getCachedSchedulingPreferences();
+      if (cached) {
+        setUserSchedulingPreferences(cached);
+        return;
+      }
       // Use defaults if preferences can't be loaded
       setUserSchedulingPreferences({
         preferred_start_time: '09:00:00',
@@ -506,7 +573,7 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
       title: task.title,
       description: task.description,
       priority: (task.priority as 'low' | 'medium' | 'high') || 'medium',
-      status: getLifecycleStatus(task.status),
+      status: task.lifecycleStatus,
       due_date: task.dueDate?.toISOString(),
       category: task.category,
       goal_id: task.goalId,
@@ -526,7 +593,7 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
       title: task.title,
       description: task.description,
       priority: (task.priority as 'low' | 'medium' | 'high') || 'medium',
-      status: getLifecycleStatus(task.status),
+      status: task.lifecycleStatus,
       due_date: task.dueDate?.toISOString(),
       category: task.category,
       goal: task.goal ? {
@@ -554,7 +621,7 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
     // Only include is_today_focus if it's explicitly a boolean (not null or undefined)
     // Backend validation requires boolean or absent, not null
     if (typeof taskData.isTodayFocus === 'boolean') apiData.is_today_focus = taskData.isTodayFocus;
-    if (taskData.status !== undefined) apiData.status = taskData.status;
+    if (taskData.lifecycleStatus !== undefined) apiData.status = taskData.lifecycleStatus;
     return apiData;
   };
 
@@ -653,7 +720,7 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
       console.error('[TasksScreen] Error updating task status:', error);
       Alert.alert('Error', 'Failed to update task status');
     }
-  }, [tasks, getLifecycleStatus]);
+  }, [tasks]);
 
   const handleResetCompletedTask = useCallback(async (taskId: string) => {
     try {
@@ -765,8 +832,9 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
       const durationPart = Number.isFinite(task.estimatedDurationMinutes)
         ? String(task.estimatedDurationMinutes)
         : 'none';
-      const prompt = `Help me think through and schedule this task. Ask conversational clarifying questions if needed, then summarize final values and suggest one tiny micro-step.\n\nTask details:\n- Title: ${task.title}${descriptionPart}\n- Current due date: ${duePart}\n- Estimated duration (minutes): ${durationPart}`;
-      (navigation as any).navigate('AIChat', { initialMessage: prompt, taskTitle: task.title });
+      const prompt = `Help me think through and schedule this task. Ask conversational clarifying questions if needed, then summarize final values and suggest one tiny micro-step. If the task has several parts, list them as a short numbered checklist.\n\nTask details:\n- Title: ${task.title}${descriptionPart}\n- Current due date: ${duePart}\n- Estimated duration (minutes): ${durationPart}`;
+      // taskId lets the chat add the assistant's breakdown to this task's checklist
+      (navigation as any).navigate('AIChat', { initialMessage: prompt, taskTitle: task.title, taskId: task.id });
     } catch {
       Alert.alert('Error', 'Failed to open AI assistant');
     }
@@ -899,11 +967,59 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
     return null; // No available slots
   };
 
+  const showScheduledToast = (start: Date, actionText: string) => {
+    // Format the scheduled date/time for the toast message
+    const timeString = start.toLocaleTimeString([], {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true
+    });
+    const dateString = start.toLocaleDateString([], {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric'
+    });
+
+    setToastMessage(`${actionText}: ${dateString} at ${timeString}`);
+    setToastCalendarEvent(true);
+    setShowToast(true);
+  };
+
+  // Offline quick schedule: the first free slot in the preset's range, from events on this device
+  const quickScheduleLocally = async (
+    taskId: string,
+    preset: 'today' | 'tomorrow' | 'this_week' | 'next_week'
+  ) => {
+    const today = startOfDay(new Date());
+    const dow = today.getDay(); // 0 Sun .. 6 Sat
+    const range = {
+      today: { from: new Date(), days: 1 },
+      tomorrow: { from: addDays(today, 1), days: 1 },
+      // Tomorrow through Saturday
+      this_week: { from: addDays(today, 1), days: Math.max(6 - dow, 1) },
+      next_week: { from: addDays(today, ((8 - dow) % 7) || 7), days: 7 },
+    }[preset];
+
+    const [slot] = await taskRepository.getLocalTimeSlots(taskId, userSchedulingPreferences, { ...range, limit: 1 });
+    if (!slot) {
+      Alert.alert('No free time', 'There is no free slot for this task in that range. Try a later one.');
+      return;
+    }
+
+    await taskRepository.scheduleTaskLocally(taskId, slot);
+    showScheduledToast(slot.start_time, 'Scheduled offline');
+  };
+
   const handleQuickSchedule = async (
     taskId: string,
     preset: 'today' | 'tomorrow' | 'this_week' | 'next_week'
   ) => {
     try {
+      if (offlineService.shouldUseCache()) {
+        await quickScheduleLocally(taskId, preset);
+        return;
+      }
+
       const base = new Date();
       const target = new Date(base);
 
@@ -934,7 +1050,7 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
 
       // Calculate end time (use estimated duration or default to 1 hour)
       const durationMinutes = task.estimatedDurationMinutes || 60;
-      const endTime = new Date(target.getTime() + durationMinutes * 60 * 1000);
+      let endTime = new Date(target.getTime() + durationMinutes * 60 * 1000);
 
       // Check if a calendar event already exists for this task
       const allEventsResponse = await enhancedAPI.getEvents(500); // Get a large number to find existing events
@@ -947,6 +1063,27 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
         return taskIdFromEvent === taskId;
       });
 
+      // Check the time against the calendar before placing the task on it
+      const busy = allEvents.map(conflictEventFromApi).filter((e): e is ConflictEvent => !!e);
+      const candidate = { startTime: target, endTime };
+      const conflictOptions = {
+        bufferMinutes: resolveFreeBusyPreferences(userSchedulingPreferences).buffer_time_minutes,
+        ignoreIds: existingEvent ? [String(existingEvent.id)] : [],
+      };
+      const conflicts = findConflicts(candidate, busy, conflictOptions);
+      if (conflicts.some(c => c.kind !== 'all_day')) {
+        const [alternative] = suggestAlternatives(candidate, busy, userSchedulingPreferences, {
+          ignoreIds: conflictOptions.ignoreIds,
+          count: 1,
+        });
+        const chosen = await confirmConflictingTime(target, conflicts, conflictOptions.bufferMinutes, alternative);
+        if (!chosen) {
+          return;
+        }
+        target.setTime(chosen.getTime());
+        endTime = new Date(target.getTime() + durationMinutes * 60 * 1000);
+      }
+
       let wasRescheduled = false;
 
       if (existingEvent) {
@@ -972,24 +1109,18 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
         });
       }
 
-      // Format the scheduled date/time for the toast message
-      const timeString = target.toLocaleTimeString([], {
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true
-      });
-      const dateString = target.toLocaleDateString([], {
-        weekday: 'short',
-        month: 'short',
-        day: 'numeric'
-      });
-
-      const actionText = wasRescheduled ? 'Rescheduled' : 'Scheduled';
-      setToastMessage(`${actionText}: ${dateString} at ${timeString}`);
-      setToastCalendarEvent(true);
-      setShowToast(true);
+      showScheduledToast(target, wasRescheduled ? 'Rescheduled' : 'Scheduled');
     } catch (error) {
-      console.error('Quick schedule error:', error);
+      if (await errorHandlingService.isNetworkError(error)) {
+        try {
+          await quickScheduleLocally(taskId, preset);
+          return;
+        } catch (localError) {
+          console.error('Local quick schedule error:', localError);
+        }
+      } else {
+        console.error('Quick schedule error:', error);
+      }
       Alert.alert('Error', 'Failed to schedule task on calendar');
     }
   };
@@ -1067,7 +1198,7 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
   const handleBulkAutoSchedule = async () => {
     try {
       setBulkScheduling(true);
-      const result = await autoSchedulingAPI.autoScheduleTasks();
+      const result = await autoSchedulingAPI.autoScheduleTasks([...blockedReasons.keys()]);
 
       // Show results in toast
       const successfulCount = result.successful;
@@ -1103,11 +1234,11 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
   };
 
   const _getActiveTasks = () => {
-    return tasks.filter(task => getLifecycleStatus(task.status) !== 'completed');
+    return tasks.filter(task => task.lifecycleStatus !== 'completed');
   };
 
   const getCompletedTasks = () => {
-    return tasks.filter(task => getLifecycleStatus(task.status) === 'completed');
+    return tasks.filter(task => task.lifecycleStatus === 'completed');
   };
 
   const getAutoScheduledTasks = () => {
@@ -1274,6 +1405,8 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
           const taskCard = (
             <TaskCard
               task={convertTaskForTaskCard(item)}
+              blockedReason={blockedReasons.get(item.id)}
+              checklistProgress={checklistProgress.get(item.id)}
               onPress={(task) => {
                 // Find the original WatermelonDB Task by ID
                 const originalTask = tasks.find(t => t.id === task.id);
@@ -1313,7 +1446,7 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
         }}
       </CelebratoryDismissal>
     );
-  }, [celebrationMessages, selectingFocus, handleTaskSelect, handleTaskPress, handleDeleteTask, handleToggleStatus, handleAddToCalendar, handleToggleAutoSchedule, handleScheduleNow, handleOpenQuickSchedule, handleQuickSchedule, handleAIHelp, showFirstFocusHelp, firstFocusHelpDismissed, tasks]);
+  }, [celebrationMessages, selectingFocus, handleTaskSelect, handleTaskPress, handleDeleteTask, handleToggleStatus, handleAddToCalendar, handleToggleAutoSchedule, handleScheduleNow, handleOpenQuickSchedule, handleQuickSchedule, handleAIHelp, showFirstFocusHelp, firstFocusHelpDismissed, tasks, blockedReasons, checklistProgress]);
 
   const keyExtractor = useCallback((item: Task) => item.id, []);
 
@@ -1365,27 +1498,26 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
     </View>
   );
 
-  // End-of-day prompt logic: once per day if focus exists and is not completed
+  // End-of-day review: once per day while tasks due today (or the focus task) are still open
   useEffect(() => {
     const maybePromptEndOfDay = async () => {
       if (loading) { return; }
-      const focus = getFocusTask();
-      if (!focus) { return; }
+      const reviewTasks = getEndOfDayTasks(tasks);
+      if (reviewTasks.length === 0) { return; }
       const todayStr = new Date().toISOString().slice(0, 10);
       try {
         const lastPrompt = await AsyncStorage.getItem('lastEODPromptDate');
         if (lastPrompt === todayStr) { return; }
-        if (getLifecycleStatus(focus.status) !== 'completed') {
-          // prevent re-open if already visible
-          if (showEodPrompt) { return; }
-          eodFocusIdRef.current = focus.id;
-          setShowEodPrompt(true);
-        }
+        // prevent re-open if already visible
+        if (showEodPrompt) { return; }
+        // Review the tasks as they were when the prompt opened
+        setEodTasks(reviewTasks);
+        setShowEodPrompt(true);
       } catch { }
     };
     maybePromptEndOfDay();
 
-  }, [loading, getFocusTask, showEodPrompt]);
+  }, [loading, tasks, showEodPrompt]);
 
   const markEodPrompted = async () => {
     const todayStr = new Date().toISOString().slice(0, 10);
@@ -1416,6 +1548,7 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
             currentTaskId: task.id,
             travelPreference: travelPreference,
             excludeIds: [],
+            schedulingPreferences: userSchedulingPreferences,
           });
 
           // Force a small delay to allow WatermelonDB to process the update
@@ -1517,62 +1650,50 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
     }
   }, [momentumEnabled, travelPreference, userSchedulingPreferences]);
 
-  const handleEodMarkDone = useCallback(async () => {
+  const handleEodSubmit = useCallback(async (review: EndOfDayReviewResult) => {
     if (eodActionInFlightRef.current) { return; }
     eodActionInFlightRef.current = true;
-    const focus = tasks.find(t => t.id === eodFocusIdRef.current) || getFocusTask();
-    if (!focus) {
-      setShowEodPrompt(false);
-      await markEodPrompted();
-      eodActionInFlightRef.current = false;
-      return;
-    }
     try {
-      await handleFocusDone(focus);
-      setShowEodPrompt(false);
-      await markEodPrompted();
-    } catch (err) {
-      // Error already handled in handleFocusDone
-    } finally {
-      eodFocusIdRef.current = undefined;
-      eodActionInFlightRef.current = false;
-    }
-  }, [tasks, getFocusTask, handleFocusDone]);
-
-  const handleEodRollover = useCallback(async () => {
-    if (eodActionInFlightRef.current) { return; }
-    eodActionInFlightRef.current = true;
-    const focus = (tasks || []).find(t => t.id === eodFocusIdRef.current) || getFocusTask();
-    if (!focus) {
-      // even if focus vanished, mark prompted so the modal doesn't re-open
+      for (const task of eodTasks) {
+        switch (review.actions[task.id]) {
+          case 'done':
+            await taskRepository.updateTaskStatus(task.id, 'completed');
+            break;
+          case 'rollover':
+            // Update using repository (local-first)
+            await taskRepository.updateTask(task.id, { dueDate: rolloverDueDate(task.dueDate, review.rolloverDay) });
+            break;
+          case 'drop':
+            await taskRepository.deleteTask(task.id);
+            break;
+        }
+      }
+      await dailyReflectionRepository.saveReflection({
+        reflectionDate: toReflectionDate(new Date()),
+        mood: review.mood,
+        energy: review.energy,
+        note: review.note,
+        ...countEodActions(review.actions),
+      });
       await markEodPrompted();
       setShowEodPrompt(false);
-      eodActionInFlightRef.current = false;
-      return;
-    }
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const yyyy = tomorrow.getFullYear();
-    const mm = String(tomorrow.getMonth() + 1).padStart(2, '0');
-    const dd = String(tomorrow.getDate()).padStart(2, '0');
-
-    // Mark as prompted FIRST to prevent race condition
-    await markEodPrompted();
-
-    try {
-      const tomorrowDate = new Date(yyyy, parseInt(mm) - 1, parseInt(dd));
-      // Update using repository (local-first)
-      await taskRepository.updateTask(focus.id, { dueDate: tomorrowDate });
-      setToastMessage('Rolled over to tomorrow.');
+      setEodTasks([]);
+      setTasksVersion(prev => prev + 1);
+      setToastMessage('Day reviewed. See you tomorrow!');
       setToastCalendarEvent(false);
       setShowToast(true);
-    } catch {
-      Alert.alert('Error', 'Failed to roll over task');
+    } catch (error) {
+      console.error('Failed to save end-of-day review:', error);
+      Alert.alert('Error', 'Failed to save your review');
+    } finally {
+      eodActionInFlightRef.current = false;
     }
+  }, [eodTasks, markEodPrompted]);
+
+  const handleEodDismiss = useCallback(async () => {
     setShowEodPrompt(false);
-    eodFocusIdRef.current = undefined;
-    eodActionInFlightRef.current = false;
-  }, [tasks, getFocusTask, markEodPrompted]);
+    await markEodPrompted();
+  }, [markEodPrompted]);
 
   const handleEodChooseNew = useCallback(async () => {
     if (eodActionInFlightRef.current) { return; }
@@ -1634,11 +1755,15 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
     if (!focus) { return; }
 
     try {
+      // Tasks the user keeps skipping rank lower next time
+      await focusSkips.recordSkip(focus.id).catch(() => { });
+
       // Get next focus task using local repository (offline-capable)
       const next = await taskRepository.getNextFocusTask({
         currentTaskId: focus.id,
         travelPreference: travelPreference,
         excludeIds: [focus.id],
+        schedulingPreferences: userSchedulingPreferences,
       });
 
       // Force a small delay to allow WatermelonDB to process the update
@@ -1899,8 +2024,35 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
             })()}
           </View>
 
+          {showInbox && savedFilters.length > 0 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.smartListRow}
+            >
+              {savedFilters.map(saved => {
+                const active = activeSmartListId === saved.id;
+                const count = smartListTasks[saved.id]?.length ?? 0;
+                return (
+                  <TouchableOpacity
+                    key={saved.id}
+                    style={[styles.smartListChip, active && styles.smartListChipActive]}
+                    onPress={() => setActiveSmartListId(active ? null : saved.id)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: active }}
+                    accessibilityLabel={`${saved.name}, ${count} tasks`}
+                  >
+                    <Text style={[styles.smartListText, active && styles.smartListTextActive]}>
+                      {saved.name} ({count})
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+
           <LazyList
-            data={showInbox ? inboxTasks : []}
+            data={showInbox ? visibleInboxTasks : []}
             renderItem={renderTaskItem}
             keyExtractor={keyExtractor}
             contentContainerStyle={styles.listContainer}
@@ -1992,48 +2144,14 @@ const TasksScreen: React.FC<InternalTasksScreenProps> = ({ tasks: observableTask
             onSave={handlePreferencesSave}
           />
 
-          {/* End-of-day prompt modal */}
-          <Modal
+          {/* End-of-day review */}
+          <EndOfDayReviewModal
             visible={showEodPrompt}
-            animationType="fade"
-            transparent
-            onRequestClose={() => setShowEodPrompt(false)}
-          >
-            <View style={styles.eodOverlay}>
-              <View style={styles.eodCard}>
-                <Text style={styles.eodTitle}>How did today’s focus go?</Text>
-                <Text style={styles.eodSubtitle}>No pressure—want to mark it done, roll it over to tomorrow, or choose something new?</Text>
-                {(() => {
-                  const focus = getFocusTask();
-                  if (!focus) { return null; }
-                  return (
-                    <View style={[styles.focusCard, styles.focusCardGutter]}>
-                      <Text style={styles.focusTaskTitle}>{focus.title}</Text>
-                      <View style={styles.focusBadges}>
-                        {!!focus.category && (
-                          <View style={styles.badge}><Text style={styles.badgeText}>{focus.category}</Text></View>
-                        )}
-                        <View style={[styles.badge, (styles as any)[focus.priority || 'medium']]}><Text style={[styles.badgeText, styles.badgeTextDark]}>{focus.priority}</Text></View>
-                      </View>
-                    </View>
-                  );
-                })()}
-                <View style={styles.eodActionsRow}>
-                  <TouchableOpacity style={[styles.eodBtn, styles.eodPrimary]} onPress={handleEodMarkDone}>
-                    <Icon icon={Tick01Icon} size={16} color={colors.secondary} />
-                    <Text style={styles.eodBtnText}>Mark done</Text>
-                  </TouchableOpacity>
-                  <TouchableOpacity style={[styles.eodBtn, styles.eodPrimary]} onPress={handleEodRollover}>
-                    <Icon icon={Clock01Icon} size={16} color={colors.secondary} />
-                    <Text style={styles.eodBtnText}>Roll over</Text>
-                  </TouchableOpacity>
-                </View>
-                <TouchableOpacity style={styles.eodSecondary} onPress={handleEodChooseNew}>
-                  <Text style={styles.eodSecondaryText}>Choose a new focus</Text>
-                </TouchableOpacity>
-              </View>
-            </View>
-          </Modal>
+            tasks={eodTasks}
+            onSubmit={handleEodSubmit}
+            onChooseNewFocus={handleEodChooseNew}
+            onClose={handleEodDismiss}
+          />
 
           {/* Success Toast */}
           <SuccessToast
@@ -2119,6 +2237,31 @@ const styles = StyleSheet.create({
     color: colors.text.primary,
     fontSize: typography.fontSize.sm,
   },
+  smartListRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.sm,
+  },
+  smartListChip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.background.surface,
+  },
+  smartListChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  smartListText: {
+    color: colors.text.primary,
+    fontSize: typography.fontSize.sm,
+  },
+  smartListTextActive: {
+    color: colors.secondary,
+  },
   focusCard: {
     borderWidth: 2,
     borderColor: colors.border.light,
@@ -2359,65 +2502,6 @@ const styles = StyleSheet.create({
     fontSize: typography.fontSize.sm,
     fontWeight: typography.fontWeight.medium as any,
   },
-  eodOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0,0,0,0.4)',
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  eodCard: {
-    width: '88%',
-    backgroundColor: colors.background.surface,
-    borderRadius: borderRadius.md,
-    borderWidth: 1,
-    borderColor: colors.border.light,
-    padding: spacing.lg,
-  },
-  eodTitle: {
-    color: colors.text.primary,
-    fontSize: typography.fontSize.lg,
-    fontWeight: typography.fontWeight.bold as any,
-    marginBottom: spacing.xs,
-  },
-  eodSubtitle: {
-    color: colors.text.secondary,
-    fontSize: typography.fontSize.sm,
-    marginBottom: spacing.md,
-  },
-  eodActionsRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    gap: spacing.sm,
-  },
-  eodBtn: {
-    flex: 1,
-    flexDirection: 'row',
-    justifyContent: 'center',
-    alignItems: 'center',
-    gap: 6,
-    paddingVertical: spacing.sm,
-    borderRadius: borderRadius.sm,
-  },
-  eodPrimary: {
-    backgroundColor: colors.primary,
-  },
-  eodBtnText: {
-    color: colors.secondary,
-    fontWeight: typography.fontWeight.bold as any,
-  },
-  eodSecondary: {
-    marginTop: spacing.sm,
-    paddingVertical: spacing.sm,
-    alignItems: 'center',
-    borderWidth: 1,
-    borderColor: colors.border.light,
-    borderRadius: borderRadius.sm,
-  },
-  eodSecondaryText: {
-    color: colors.text.primary,
-    fontSize: typography.fontSize.sm,
-    fontWeight: typography.fontWeight.medium as any,
-  },
   dashboardContainer: {
     paddingHorizontal: spacing.md,
     paddingTop: spacing.xs,
@@ -2446,7 +2530,7 @@ const enhance = withObservables<{ database: Database }, "tasks" | "goals">(
   // @ts-expect-error - WatermelonDB's withObservables type definition expects the factory to return the keys, but implementation requires observables object
   ({ database }) => {
     const tasksQuery = database.collections.get<Task>('tasks').query(
-      Q.where('status', Q.notEq('pending_delete'))
+      Q.where('sync_state', Q.notEq('pending_delete'))
     );
     // Observe the query - WatermelonDB automatically detects all field changes
     const tasks: Observable<Task[]> = tasksQuery.observe();
@@ -2,7 +2,6 @@ import React from 'react';
 import { render, fireEvent, waitFor } from '@testing-library/react-native';
 import { NavigationContainer } from '@react-navigation/native';
 import TasksScreen from '../TasksScreen';
-import { getLifecycleStatus } from '../utils/statusUtils';
 import { taskRepository } from '../../../repositories/TaskRepository';
 import { syncService } from '../../../services/SyncService';
 
@@ -101,7 +100,8 @@ describe('TasksScreen Task Operations', () => {
       title: 'Task 1',
       description: 'Description 1',
       priority: 'medium',
-      status: 'pending_update:not_started',
+      lifecycleStatus: 'not_started',
+      syncState: 'pending_update',
       goalId: undefined,
       isTodayFocus: false,
     },
@@ -110,7 +110,8 @@ describe('TasksScreen Task Operations', () => {
       title: 'Task 2',
       description: 'Description 2',
       priority: 'high',
-      status: 'pending_update:in_progress',
+      lifecycleStatus: 'in_progress',
+      syncState: 'pending_update',
       isTodayFocus: true,
       goalId: undefined,
     },
@@ -126,13 +127,15 @@ describe('TasksScreen Task Operations', () => {
       const mockUpdateStatus = taskRepository.updateTaskStatus as jest.Mock;
       mockUpdateStatus.mockResolvedValue({
         id: 'task-1',
-        status: 'pending_update:completed',
+        lifecycleStatus: 'completed',
+        syncState: 'pending_update',
       });
 
       const tasksWithInProgress = [
         {
           ...mockTasks[0],
-          status: 'pending_update:in_progress',
+          lifecycleStatus: 'in_progress',
+          syncState: 'pending_update',
         },
         {
           ...mockTasks[1],
@@ -158,13 +161,15 @@ describe('TasksScreen Task Operations', () => {
       const mockUpdateStatus = taskRepository.updateTaskStatus as jest.Mock;
       mockUpdateStatus.mockResolvedValue({
         id: 'task-1',
-        status: 'pending_update:in_progress',
+        lifecycleStatus: 'in_progress',
+        syncState: 'pending_update',
       });
 
       const tasksWithCompleted = [
         {
           ...mockTasks[0],
-          status: 'pending_update:completed',
+          lifecycleStatus: 'completed',
+          syncState: 'pending_update',
         },
         {
           ...mockTasks[1],
@@ -213,7 +218,8 @@ describe('TasksScreen Task Operations', () => {
       mockCreateTask.mockResolvedValue({
         id: 'new-task',
         title: 'New Task',
-        status: 'pending_create:not_started',
+        lifecycleStatus: 'not_started',
+        syncState: 'pending_create',
       });
 
       const { getByTestId } = render(
@@ -232,12 +238,13 @@ describe('TasksScreen Task Operations', () => {
       });
     });
 
-    test('creates task with combined status format', async () => {
+    test('creates task with a lifecycle status', async () => {
       const mockCreateTask = taskRepository.createTask as jest.Mock;
       mockCreateTask.mockResolvedValue({
         id: 'new-task',
         title: 'New Task',
-        status: 'pending_create:completed',
+        lifecycleStatus: 'completed',
+        syncState: 'pending_create',
       });
 
       const { getByText, getByPlaceholderText, getByLabelText } = render(
@@ -295,7 +302,8 @@ describe('TasksScreen Task Operations', () => {
       mockSetFocus.mockResolvedValue({
         id: 'task-1',
         isTodayFocus: true,
-        status: 'pending_update:not_started',
+        lifecycleStatus: 'not_started',
+        syncState: 'pending_update',
       });
 
       const { getByTestId } = render(
@@ -315,44 +323,31 @@ describe('TasksScreen Task Operations', () => {
   });
 
 
-  describe('Status Format Handling', () => {
-    test('correctly extracts lifecycle status from combined format', () => {
-      const testCases = [
-        { status: 'pending_update:completed', expected: 'completed' },
-        { status: 'pending_update:in_progress', expected: 'in_progress' },
-        { status: 'pending_update:not_started', expected: 'not_started' },
-        { status: 'pending_create:completed', expected: 'completed' },
-        { status: 'completed', expected: 'completed' },
-        { status: 'in_progress', expected: 'in_progress' },
-        { status: 'not_started', expected: 'not_started' },
-      ];
-
-      testCases.forEach(({ status, expected }) => {
-        expect(getLifecycleStatus(status)).toBe(expected);
-      });
-    });
-
+  describe('Lifecycle Status Handling', () => {
     test('filters tasks correctly based on lifecycle status', async () => {
       const tasks = [
         {
           ...mockTasks[0],
           id: 'task-completed-1',
-          title: 'Completed Combined',
-          status: 'pending_update:completed',
+          title: 'Completed Pending',
+          lifecycleStatus: 'completed',
+          syncState: 'pending_update',
           isTodayFocus: false,
         },
         {
           ...mockTasks[0],
           id: 'task-completed-2',
-          title: 'Completed Direct',
-          status: 'completed',
+          title: 'Completed Synced',
+          lifecycleStatus: 'completed',
+          syncState: 'synced',
           isTodayFocus: false,
         },
         {
           ...mockTasks[0],
           id: 'task-active-1',
           title: 'Active Task',
-          status: 'pending_update:not_started',
+          lifecycleStatus: 'not_started',
+          syncState: 'pending_update',
           isTodayFocus: false,
         },
       ];
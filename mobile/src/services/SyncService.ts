@@ -1,21 +1,77 @@
 import { getDatabase } from '../db';
-import { Q, Database } from '@nozbe/watermelondb';
+import { Q, Database, Model } from '@nozbe/watermelondb';
 import { enhancedAPI } from './enhancedApi';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import CalendarEvent from '../db/models/CalendarEvent';
 import Task from '../db/models/Task';
+import { TaskLifecycleStatus, getFailedSyncState, isTaskLifecycleStatus } from '../utils/taskStatus';
 import Goal from '../db/models/Goal';
 import Milestone from '../db/models/Milestone';
 import MilestoneStep from '../db/models/MilestoneStep';
 import ConversationThread from '../db/models/ConversationThread';
 import ConversationMessage from '../db/models/ConversationMessage';
+import Routine from '../db/models/Routine';
+import RoutineCompletion from '../db/models/RoutineCompletion';
+import SavedFilter from '../db/models/SavedFilter';
+import TaskDependency from '../db/models/TaskDependency';
+import TaskChecklistItem from '../db/models/TaskChecklistItem';
+import DailyReflection from '../db/models/DailyReflection';
+import OutboxOperation from '../db/models/OutboxOperation';
 import { notificationService } from './notificationService';
 import { authService } from './auth';
-import { safeParseDate } from '../utils/dateUtils';
+import { isValidTimeZone, safeParseDate } from '../utils/dateUtils';
 import { conversationRepository } from '../repositories/ConversationRepository';
 import { goalRepository } from '../repositories/GoalRepository';
 import { taskRepository } from '../repositories/TaskRepository';
+import { routineRepository } from '../repositories/RoutineRepository';
+import { savedFilterRepository } from '../repositories/SavedFilterRepository';
+import { taskDependencyRepository } from '../repositories/TaskDependencyRepository';
+import { taskChecklistRepository } from '../repositories/TaskChecklistRepository';
+import { dailyReflectionRepository } from '../repositories/DailyReflectionRepository';
+import { syncConflictRepository } from '../repositories/SyncConflictRepository';
+import { outboxRepository } from '../repositories/OutboxRepository';
 import { conversationService } from './conversationService';
+import { routineService, Routine as RoutinePayload } from './routineService';
+import { savedFilterService, SavedFilterRecord } from './savedFilterService';
+import { taskDependencyService, TaskDependencyRecord } from './taskDependencyService';
+import { taskChecklistService, TaskChecklistItemRecord } from './taskChecklistService';
+import { dailyReflectionService, DailyReflectionRecord } from './dailyReflectionService';
+import { getPeriodBounds } from '../utils/routineStreak';
+import {
+  GOAL_SYNC_FIELDS,
+  TASK_SYNC_FIELDS,
+  applyGoalSnapshot,
+  applyTaskSnapshot,
+  goalPayloadToSnapshot,
+  goalToSnapshot,
+  mergeSnapshots,
+  parseSnapshot,
+  serializeSnapshot,
+  taskPayloadToSnapshot,
+  taskToSnapshot,
+} from '../utils/syncMerge';
+import { OUTBOX_TABLES, OutboxOperationType, OutboxTable, isOperationBlocked, parseDependencies } from '../utils/outbox';
+import {
+  PULL_COLLECTIONS,
+  PageRequest,
+  PullCollection,
+  PullProgress,
+  PulledPage,
+  getPageRequest,
+  isCaughtUp,
+  parsePullCursors,
+  readPulledPage,
+  recordPage,
+  resetCollection,
+} from '../utils/pullCursors';
+import {
+  INITIAL_SYNC_STATUS,
+  SyncHealth,
+  SyncStatus,
+  TableCounts,
+  parseSyncHealth,
+  recordSyncResult,
+} from '../utils/syncStatus';
 
 // Interface for task data received from server during sync
 interface TaskPayload {
@@ -32,11 +88,44 @@ interface TaskPayload {
   recurrence_pattern?: any;
 }
 
+// An outbox operation that has failed to push, as listed on the sync health screen
+export interface FailingRecord {
+  operationId: string;
+  tableName: OutboxTable;
+  recordId: string;
+  operation: OutboxOperationType;
+  // Title of the record, or null if the record no longer exists locally
+  title: string | null;
+  attemptCount: number;
+  lastError: string | null;
+  nextAttemptAt: Date | null;
+}
+
+// Records pushed through the generic endpoints in pushRecord
+type PushableRecord = CalendarEvent | Task | Goal | Milestone | MilestoneStep | ConversationThread;
+// Any record an outbox operation can point at
+type SyncableRecord = PushableRecord | ConversationMessage | Routine | RoutineCompletion | SavedFilter | TaskDependency | TaskChecklistItem | DailyReflection;
+
 const LAST_SYNCED_AT_KEY = 'last_synced_at';
+// Per-collection pull cursors, see utils/pullCursors
+const PULL_CURSORS_KEY = 'pull_cursors';
+const PULL_PAGE_SIZE = 200;
+// Collections pulled before per-collection cursors existed; others start with a full pull
+const LEGACY_CURSOR_COLLECTIONS: PullCollection[] = ['goals', 'tasks', 'calendar_events'];
+// Outcome of the last sync, see utils/syncStatus
+const SYNC_HEALTH_KEY = 'sync_health';
 
 class SyncService {
   private isSyncing = false;
   private logger = console;
+  // Fields that newly conflicted during the current pull
+  private conflictsRecorded = 0;
+  private pullProgressListeners = new Set<(progress: PullProgress | null) => void>();
+  private status: SyncStatus = INITIAL_SYNC_STATUS;
+  private statusListeners = new Set<(status: SyncStatus) => void>();
+  private healthLoaded = false;
+  // Set by syncWithin(); past it, push and pull stop taking on new work
+  private deadline: number | null = null;
 
   /**
    * Returns whether a sync operation is currently in progress.
@@ -47,745 +136,253 @@ class SyncService {
   }
 
   /**
-   * Yields to the event loop to allow other operations to process.
-   * This prevents the sync from monopolizing the write queue and allows
-   * user operations (like delete) to execute between sync operations.
+   * Subscribes to pull progress. Listeners get a progress update after each applied page,
+   * and null once the pull has finished.
+   * @returns An unsubscribe function
    */
-  private async yieldToEventLoop(): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, 0));
+  onPullProgress(listener: (progress: PullProgress | null) => void): () => void {
+    this.pullProgressListeners.add(listener);
+    return () => {
+      this.pullProgressListeners.delete(listener);
+    };
   }
 
-  // Simple UUID v4/v1 checker (relaxed to accept standard UUIDs)
-  private isUUID(value: string | undefined | null): boolean {
-    if (!value) return false;
-    return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(String(value));
+  /**
+   * The current sync status: phase, pending and failed counts, and the outcome of the last sync.
+   */
+  getStatus(): SyncStatus {
+    return this.status;
   }
 
-  private async ensureServerGoalId(localGoalId: string, database: Database): Promise<string> {
-    if (this.isUUID(localGoalId)) {
-      return localGoalId;
-    }
-    // Attempt to find local goal
-    let goal: Goal | null = null;
-    try {
-      goal = await database.get<Goal>('goals').find(localGoalId);
-    } catch (error) {
-      console.warn(`ensureServerGoalId: Failed to find local goal ${localGoalId}`, error);
-    }
-    if (!goal) {
-      // If not found, just return original; downstream will fail and be retried
-      return localGoalId;
-    }
-
-    // Create goal on server using local data
-    const goalData = {
-      title: goal.title,
-      description: goal.description,
-      target_completion_date: goal.targetCompletionDate?.toISOString(),
-      progress_percentage: goal.progressPercentage,
-      category: goal.category,
-      is_active: goal.isActive,
-      client_updated_at: goal.updatedAt?.toISOString(),
-    } as any;
-
-    const created = await enhancedAPI.createGoal(goalData);
-    if (created && created.id && created.id !== localGoalId) {
+  /**
+   * Subscribes to sync status changes. The listener is called right away with the current status.
+   * @returns An unsubscribe function
+   */
+  onStatusChange(listener: (status: SyncStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private updateStatus(changes: Partial<SyncStatus>) {
+    this.status = { ...this.status, ...changes };
+    this.statusListeners.forEach(listener => {
       try {
-        await goalRepository.updateGoalServerId(localGoalId, created.id);
-        return created.id;
-      } catch (e) {
-        console.warn('ensureServerGoalId: Failed to migrate local goal id to server id', e);
-        return created.id;
+        listener(this.status);
+      } catch (listenerError) {
+        console.warn('Sync: Status listener failed', listenerError);
       }
-    }
-    return localGoalId;
+    });
   }
 
-  private async ensureServerMilestoneId(localMilestoneId: string, database: Database): Promise<string> {
-    if (this.isUUID(localMilestoneId)) {
-      return localMilestoneId;
+  private async loadHealth(): Promise<SyncHealth> {
+    if (!this.healthLoaded) {
+      const health = parseSyncHealth(await AsyncStorage.getItem(SYNC_HEALTH_KEY));
+      this.healthLoaded = true;
+      this.updateStatus(health);
     }
+    return {
+      lastSuccessAt: this.status.lastSuccessAt,
+      lastFailureAt: this.status.lastFailureAt,
+      lastError: this.status.lastError,
+    };
+  }
 
-    // Load local milestone
-    let milestone: Milestone | null = null;
+  /**
+   * Recounts pending and failed records. Called after each sync and after a local change to the
+   * outbox from the sync health screen.
+   */
+  async refreshStatus(): Promise<SyncStatus> {
     try {
-      milestone = await database.get<Milestone>('milestones').find(localMilestoneId);
-    } catch { }
-    if (!milestone) {
-      return localMilestoneId;
-    }
-
-    // Ensure the parent goal has a server UUID
-    const serverGoalId = await this.ensureServerGoalId(milestone.goalId, database);
-
-    // Create milestone on server
-    const milestoneData = {
-      title: milestone.title,
-      description: milestone.description,
-      completed: milestone.completed,
-      order: milestone.order,
-      client_updated_at: milestone.updatedAt?.toISOString(),
-    } as any;
-
-    const created = await enhancedAPI.createMilestone(serverGoalId, milestoneData);
-    if (created && created.id && created.id !== localMilestoneId) {
-      try {
-        await goalRepository.updateMilestoneServerId(localMilestoneId, created.id, created.goal_id || serverGoalId);
-        return created.id;
-      } catch (e) {
-        console.warn('ensureServerMilestoneId: Failed to migrate local milestone id to server id', e);
-        return created.id;
-      }
+      await this.loadHealth();
+      const pendingCounts = await outboxRepository.getPendingCountsByTable();
+      const failedCounts = await this.countFailedRecords(getDatabase());
+      this.updateStatus({ pendingCounts, failedCounts });
+    } catch (error) {
+      console.error('Sync: Failed to refresh sync status', error);
     }
-    return localMilestoneId;
+    return this.status;
   }
 
-  async pushData() {
-    const database = getDatabase();
+  private async countFailedRecords(database: Database): Promise<TableCounts> {
+    const counts: TableCounts = {};
+    for (const tableName of OUTBOX_TABLES) {
+      const stateColumn = tableName === 'tasks' ? 'sync_state' : 'status';
+      const count = await database.get(tableName)
+        .query(Q.where(stateColumn, Q.like('sync_failed%')))
+        .fetchCount();
+      if (count > 0) {
+        counts[tableName] = count;
+      }
+    }
+    return counts;
+  }
 
-    // Find records that need pushing
-    const dirtyEvents = await database.get<CalendarEvent>('calendar_events').query(
-      Q.where('status', Q.notEq('synced'))
-    ).fetch();
+  private async recordSyncOutcome(error: any) {
+    try {
+      const health = recordSyncResult(await this.loadHealth(), error);
+      this.updateStatus(health);
+      await AsyncStorage.setItem(SYNC_HEALTH_KEY, JSON.stringify(health));
+    } catch (storageError) {
+      console.error('Sync: Failed to save sync health', storageError);
+    }
+    await this.refreshStatus();
+  }
 
-    // Find tasks that need syncing: those with pending_* status or lifecycle status
-    // Tasks with combined format (pending_update:*) or sync statuses need syncing
-    // Query for status NOT 'synced' and NOT a pure lifecycle status (we want pending states)
-    const allTasks = await database.get<Task>('tasks').query().fetch();
-    const dirtyTasks = allTasks.filter(task => {
-      const status = task.status;
-      // Include tasks with sync statuses
-      if (status === 'pending_create' || status === 'pending_update' || status === 'pending_delete') {
-        return true;
-      }
-      // Include tasks with failed sync statuses (for retry)
-      if (status === 'sync_failed_delete' || status === 'sync_failed_create' || status === 'sync_failed_update') {
-        return true;
-      }
-      // Include tasks with combined format (pending_update:* or pending_create:*)
-      if (typeof status === 'string' && (status.startsWith('pending_update:') || status.startsWith('pending_create:'))) {
-        return true;
-      }
-      // Include tasks with sync_failed: combined format (for retry)
-      if (typeof status === 'string' && status.startsWith('sync_failed:')) {
-        return true;
-      }
-      // Exclude synced tasks
-      if (status === 'synced') {
-        return false;
+  private emitPullProgress(progress: PullProgress | null) {
+    this.updateStatus({ pullProgress: progress });
+    this.pullProgressListeners.forEach(listener => {
+      try {
+        listener(progress);
+      } catch (listenerError) {
+        console.warn('Pull: Progress listener failed', listenerError);
       }
-      // For legacy compatibility: if status is lifecycle-only, it still needs syncing check
-      // Actually, pure lifecycle statuses ('not_started', 'in_progress', 'completed') should be synced,
-      // so we don't include them here unless they're marked as needing sync
-      return false;
     });
+  }
 
-    const dirtyGoals = await database.get<Goal>('goals').query(
-      Q.where('status', Q.notEq('synced'))
-    ).fetch();
-
-    const dirtyMilestones = await database.get<Milestone>('milestones').query(
-      Q.where('status', Q.notEq('synced'))
-    ).fetch();
-
-    const dirtyMilestoneSteps = await database.get<MilestoneStep>('milestone_steps').query(
-      Q.where('status', Q.notEq('synced'))
-    ).fetch();
+  /**
+   * Yields to the event loop to allow other operations to process.
+   * This prevents the sync from monopolizing the write queue and allows
+   * user operations (like delete) to execute between sync operations.
+   */
+  private async yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+  }
 
-    const dirtyThreads = await database.get<ConversationThread>('conversation_threads').query(
-      Q.where('status', Q.notEq('synced'))
-    ).fetch();
+  private isPastDeadline(): boolean {
+    return this.deadline !== null && Date.now() >= this.deadline;
+  }
 
-    // Messages need special handling - only sync user messages, assistant messages are created by server
-    const dirtyMessages = await database.get<ConversationMessage>('conversation_messages').query(
-      Q.where('status', Q.notEq('synced')),
-      Q.where('role', 'user') // Only sync user messages
-    ).fetch();
+  // Simple UUID v4/v1 checker (relaxed to accept standard UUIDs)
+  private isUUID(value: string | undefined | null): boolean {
+    if (!value) return false;
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(String(value));
+  }
 
-    const allDirtyRecords = [...dirtyEvents, ...dirtyTasks, ...dirtyGoals, ...dirtyMilestones, ...dirtyMilestoneSteps, ...dirtyThreads];
+  /**
+   * Returns the sync state of any syncable record.
+   * Tasks track it in a dedicated column; other tables still use `status`.
+   */
+  private getRecordSyncState(record: { status?: string } | Task): string {
+    return record instanceof Task ? record.syncState : String(record.status ?? '');
+  }
 
-    // Handle messages separately because they require special AI chat endpoint handling
-    // Process messages after other records to ensure threads exist first
-    const messagePushErrors: { recordId: string; error: any }[] = [];
+  private isDeleteState(state: string | undefined | null): boolean {
+    return state === 'pending_delete' || state === 'sync_failed_delete';
+  }
 
-    if (allDirtyRecords.length === 0 && dirtyMessages.length === 0) {
-      return;
+  /**
+   * Recurring tasks completed offline are advanced in place by TaskRepository.completeTask.
+   * Until that update is pushed the server still holds the previous occurrence, so a pull
+   * must not roll the local task back. The higher completedCount wins.
+   */
+  private hasUnpushedRecurrenceAdvance(localTask: Task, taskData: TaskPayload): boolean {
+    if (localTask.syncState === 'synced') {
+      return false;
+    }
+    const localCount = localTask.recurrence_pattern?.completedCount;
+    if (typeof localCount !== 'number') {
+      return false;
     }
 
-    const pushErrors: { recordId: string; error: any }[] = [];
-
-    for (const record of allDirtyRecords) {
+    let serverPattern = taskData.recurrence_pattern;
+    if (typeof serverPattern === 'string') {
       try {
-        let recordData: any;
-        let serverResponse: any;
-
-        // Handle different record types
-        if (record instanceof CalendarEvent) {
-          recordData = {
-            summary: record.title, // Map title to summary for the API
-            description: record.description,
-            startTime: record.startTime.toISOString(),
-            endTime: record.endTime.toISOString(),
-            location: record.location,
-            isAllDay: record.isAllDay,
-            client_updated_at: record.updatedAt?.toISOString(), // For conflict resolution
-          };
-
-          switch (record.status) {
-            case 'pending_create':
-              serverResponse = await enhancedAPI.createEvent(recordData);
-              break;
-            case 'pending_update':
-              serverResponse = await enhancedAPI.updateEvent(record.id, recordData);
-              break;
-            case 'pending_delete':
-              await enhancedAPI.deleteEvent(record.id);
-              break;
-            default:
-              console.warn(`Push: Unknown status ${record.status} for event ${record.id}`);
-              continue;
-          }
-        } else if (record instanceof Task) {
-          const { lifecycleStatus, syncStatus } = this.extractLifecycleStatus(record.status);
-          const statusStr = typeof record.status === 'string' ? record.status : '';
-
-          // Normalize sync_failed:* and pending_update with local IDs into concrete retry statuses
-          let normalizedSyncStatus = syncStatus;
-          const allowedPriorities = ['low', 'medium', 'high'];
-          const normalizedPriority = record.priority
-            ? String(record.priority).toLowerCase()
-            : undefined;
-          const priorityForPayload = normalizedPriority && allowedPriorities.includes(normalizedPriority)
-            ? normalizedPriority
-            : normalizedPriority
-              ? (console.warn(`Push: Normalizing unsupported priority "${record.priority}" to "medium"`), 'medium')
-              : undefined;
-
-          const isDeleteStatus =
-            statusStr.startsWith('pending_delete') ||
-            statusStr.startsWith('sync_failed_delete') ||
-            statusStr.includes('pending_delete');
-
-          if (statusStr.startsWith('sync_failed_delete')) {
-            normalizedSyncStatus = 'sync_failed_delete';
-          } else if (isDeleteStatus && syncStatus === 'pending_delete') {
-            normalizedSyncStatus = 'pending_delete';
-          } else if (statusStr.startsWith('sync_failed_create')) {
-            normalizedSyncStatus = 'sync_failed_create';
-          } else if (statusStr.startsWith('sync_failed_update')) {
-            normalizedSyncStatus = 'sync_failed_update';
-          } else if (syncStatus === 'sync_failed' || statusStr.startsWith('sync_failed')) {
-            // Generic sync_failed:<lifecycle> — decide create vs update by ID form
-            normalizedSyncStatus = this.isUUID(record.id) ? 'sync_failed_update' : 'sync_failed_create';
-          }
-
-          // If we have a pending/update status on a local (non-UUID) record, treat as create
-          if (normalizedSyncStatus === 'pending_update' && !this.isUUID(record.id)) {
-            normalizedSyncStatus = 'pending_create';
-          }
+        serverPattern = JSON.parse(serverPattern);
+      } catch {
+        serverPattern = null;
+      }
+    }
+    const serverCount = typeof serverPattern?.completedCount === 'number' ? serverPattern.completedCount : 0;
+    return localCount > serverCount;
+  }
 
-          recordData = {
-            title: record.title,
-            description: record.description,
-            priority: priorityForPayload,
-            estimated_duration_minutes: record.estimatedDurationMinutes,
-            due_date: record.dueDate?.toISOString(),
-            // Only include optional fields if they have values (don't send null)
-            ...(record.goalId ? { goal_id: record.goalId } : {}),
-            // Only include is_today_focus if it's explicitly a boolean (not null or undefined)
-            // Backend validation requires boolean or absent, not null
-            ...(typeof record.isTodayFocus === 'boolean' ? { is_today_focus: record.isTodayFocus } : {}),
-            // Include recurrence_pattern - ensure it can be null to clear recurrence
-            recurrence_pattern: (() => {
-              if (!record.recurrencePatternJson) return null;
-              try {
-                return JSON.parse(record.recurrencePatternJson);
-              } catch (e) {
-                console.warn(`Push: Invalid recurrencePatternJson for task ${record.id}, sending null`, e);
-                return null;
-              }
-            })(), status: lifecycleStatus, // Include lifecycle status in sync
-            client_updated_at: record.updatedAt?.toISOString(),
-          };
+  /**
+   * Returns the ID of a parent record that must already be on the server.
+   * The outbox pushes a parent's create before its children, and a successful create moves the
+   * parent to its server ID, so a local ID here means that create has not gone through yet;
+   * the child is retried later.
+   */
+  private requireServerId(id: string, kind: string): string {
+    if (!this.isUUID(id)) {
+      throw new Error(`Push: ${kind} ${id} has not been created on the server yet`);
+    }
+    return id;
+  }
 
-          // Check if this is a delete operation (pending_delete or sync_failed_delete)
-          const isDeleteOperation = syncStatus === 'pending_delete' ||
-            syncStatus === 'sync_failed_delete' ||
-            (typeof record.status === 'string' && record.status.includes('pending_delete')) ||
-            (typeof record.status === 'string' && record.status === 'sync_failed_delete');
+  async pushData() {
+    const database = getDatabase();
 
-          if (isDeleteOperation) {
-            // If task ID is not a UUID, it was never synced to server
-            // Just delete it locally without attempting server deletion
-            if (!this.isUUID(record.id)) {
-              await database.write(async () => {
-                await record.destroyPermanently();
-              });
-              // Skip the normal update logic since we've already deleted locally
-              continue;
-            }
-            // Delete task on server
-            try {
-              await enhancedAPI.deleteTask(record.id);
-              // Immediately delete local record after successful server deletion
-              await database.write(async () => {
-                await record.destroyPermanently();
-              });
-              // Skip the normal update logic since we've already deleted locally
-              continue;
-            } catch (deleteError: any) {
-              // Re-throw error to be handled by outer catch block
-              // This allows idempotent delete handling (404/410) and proper error tracking
-              console.error(`Push: Failed to delete task ${record.id} from server:`, deleteError);
-              throw deleteError;
-            }
-          }
+    // Rows left unsynced by versions without the outbox are queued once
+    await outboxRepository.adoptUntrackedChanges();
 
-          switch (normalizedSyncStatus) {
-            case 'pending_create':
-            case 'sync_failed_create':
-              serverResponse = await enhancedAPI.createTask(recordData);
-              // If server returned a different ID, we'll let the pull operation handle the ID migration
-              // via duplicate detection. For now, just mark the task as synced with its current ID.
-              // The pull operation will detect the duplicate and migrate it properly.
-              // This avoids the _raw.id error that occurs when trying to migrate during push.
-              break;
-            case 'pending_update':
-            case 'sync_failed_update':
-              // If task ID is not a UUID, it was never synced to server
-              // This shouldn't happen in normal flow, but treat it as a create if it does
-              if (!this.isUUID(record.id)) {
-                console.warn(`Push: Task ${record.id} has pending_update but non-UUID ID, treating as create`);
-                serverResponse = await enhancedAPI.createTask(recordData);
-                // If server returned a different ID, we'll let the pull operation handle the ID migration
-                // via duplicate detection. For now, just mark the task as synced with its current ID.
-                // The pull operation will detect the duplicate and migrate it properly.
-                // This avoids the _raw.id error that occurs when trying to migrate during push.
-              } else {
-                serverResponse = await enhancedAPI.updateTask(record.id, recordData);
-              }
-              break;
-            default:
-              console.warn(`Push: Unknown status ${record.status} for task ${record.id}`);
-              continue;
-          }
-        } else if (record instanceof Goal) {
-          recordData = {
-            title: record.title,
-            description: record.description,
-            target_completion_date: record.targetCompletionDate?.toISOString(),
-            progress_percentage: record.progressPercentage,
-            category: record.category,
-            is_active: record.isActive,
-            client_updated_at: record.updatedAt?.toISOString(),
-          };
-
-          switch (record.status) {
-            case 'pending_create':
-            case 'sync_failed_create':
-              serverResponse = await enhancedAPI.createGoal(recordData);
-              break;
-            case 'pending_update':
-            case 'sync_failed_update':
-            // Fallback for legacy sync_failed, assume update
-            case 'sync_failed':
-              // Check if the record exists on the server before attempting an update
-              try {
-                await enhancedAPI.getGoal(record.id);
-                serverResponse = await enhancedAPI.updateGoal(record.id, recordData);
-              } catch (error: any) {
-                if (error.response && error.response.status === 404) {
-                  // Not found, so it should be a create operation
-                  serverResponse = await enhancedAPI.createGoal(recordData);
-                } else {
-                  // Re-throw other errors
-                  throw error;
-                }
-              }
-              break;
-            case 'pending_delete':
-            case 'sync_failed_delete':
-              serverResponse = await enhancedAPI.deleteGoal(record.id);
-              break;
-            default:
-              console.warn(`Push: Unknown status ${record.status} for goal ${record.id}`);
-              continue;
-          }
-        } else if (record instanceof Milestone) {
-          recordData = {
-            title: record.title,
-            description: record.description,
-            completed: record.completed,
-            order: record.order,
-            client_updated_at: record.updatedAt?.toISOString(),
-          };
-
-          switch (record.status) {
-            case 'pending_create':
-            case 'sync_failed_create':
-              // Ensure goal ID is a server UUID before creating milestone
-              {
-                const serverGoalId = await this.ensureServerGoalId(record.goalId, database);
-                serverResponse = await enhancedAPI.createMilestone(serverGoalId, recordData);
-              }
-              // If server assigned a different ID, migrate local milestone and its steps
-              if (serverResponse && serverResponse.id && serverResponse.id !== record.id) {
-                try {
-                  await goalRepository.updateMilestoneServerId(record.id, serverResponse.id, serverResponse.goal_id);
-                  // After migration, skip normal update for this record and continue
-                  continue;
-                } catch (migrationError) {
-                  console.warn('Push: Failed to migrate milestone ID to server ID, will proceed with normal update.', migrationError);
-                }
-              }
-              break;
-            case 'pending_update':
-            case 'sync_failed_update':
-            // Fallback for legacy sync_failed, assume update
-            case 'sync_failed':
-              // Check if the record exists on the server before attempting an update
-              try {
-                await enhancedAPI.getMilestone(record.id);
-                serverResponse = await enhancedAPI.updateMilestone(record.id, recordData);
-              } catch (error: any) {
-                if (error.response && error.response.status === 404) {
-                  // Not found, so it should be a create operation
-                  {
-                    const serverGoalId = await this.ensureServerGoalId(record.goalId, database);
-                    serverResponse = await enhancedAPI.createMilestone(serverGoalId, recordData);
-                  }
-                  if (serverResponse && serverResponse.id && serverResponse.id !== record.id) {
-                    try {
-                      await goalRepository.updateMilestoneServerId(record.id, serverResponse.id, serverResponse.goal_id);
-                      continue;
-                    } catch (migrationError) {
-                      console.warn('Push: Failed to migrate milestone ID after create fallback.', migrationError);
-                    }
-                  }
-                } else {
-                  // Re-throw other errors
-                  throw error;
-                }
-              }
-              break;
-            case 'pending_delete':
-            case 'sync_failed_delete':
-              serverResponse = await enhancedAPI.deleteMilestone(record.id);
-              break;
-            default:
-              console.warn(`Push: Unknown status ${record.status} for milestone ${record.id}`);
-              continue;
-          }
-        } else if (record instanceof MilestoneStep) {
-          // Re-fetch the latest step to get any migrated milestoneId
-          let milestoneIdForPush = record.milestoneId;
-          try {
-            const freshStep = await database.get<MilestoneStep>('milestone_steps').find(record.id);
-            milestoneIdForPush = freshStep.milestoneId;
-          } catch (error) {
-            this.logger.error(
-              `Failed to re-fetch milestone step ${record.id} for milestoneId migration:`,
-              error instanceof Error ? error.message : String(error),
-              error
-            );
-          }
+    const operations = await outboxRepository.getDueOperations();
+    if (operations.length === 0) {
+      return;
+    }
 
-          // Ensure the milestone exists on server and we have a UUID
-          const serverMilestoneId = await this.ensureServerMilestoneId(milestoneIdForPush, database);
-
-          recordData = {
-            text: record.text,
-            completed: record.completed,
-            order: record.order,
-            client_updated_at: record.updatedAt?.toISOString(),
-          };
-
-          switch (record.status) {
-            case 'pending_create':
-            case 'sync_failed_create':
-              serverResponse = await enhancedAPI.createStep(serverMilestoneId, recordData);
-              break;
-            case 'pending_update':
-            case 'sync_failed_update':
-            // Fallback for legacy sync_failed, assume update
-            case 'sync_failed':
-              // Check if the record exists on the server before attempting an update
-              try {
-                await enhancedAPI.getStep(record.id);
-                serverResponse = await enhancedAPI.updateStep(record.id, recordData);
-              } catch (error: any) {
-                if (error.response && error.response.status === 404) {
-                  // Not found, so it should be a create operation
-                  serverResponse = await enhancedAPI.createStep(serverMilestoneId, recordData);
-                } else {
-                  // Re-throw other errors
-                  throw error;
-                }
-              }
-              break;
-            case 'pending_delete':
-            case 'sync_failed_delete':
-              serverResponse = await enhancedAPI.deleteStep(record.id);
-              break;
-            default:
-              console.warn(`Push: Unknown status ${record.status} for step ${record.id}`);
-              continue;
-          }
-        } else if (record instanceof ConversationThread) {
-          recordData = {
-            title: record.title,
-            summary: record.summary,
-            client_updated_at: record.updatedAt?.toISOString(),
-          };
-
-          switch (record.status) {
-            case 'pending_create':
-              serverResponse = await conversationService.createThread(record.title, record.summary);
-              // If server returned a different ID, we need to update (server generates UUID)
-              // Note: This is handled by marking as synced - the server ID becomes the canonical ID
-              // If local ID differs, updateThreadServerId will handle migration
-              if (serverResponse && serverResponse.id !== record.id) {
-                await conversationRepository.updateThreadServerId(record.id, serverResponse.id);
-                // Skip the normal update logic since we've migrated to new ID
-                continue;
-              }
-              break;
-            case 'pending_update':
-              serverResponse = await conversationService.updateThread(record.id, {
-                title: record.title,
-                summary: record.summary,
-              });
-              break;
-            case 'pending_delete':
-              await conversationService.deleteThread(record.id);
-              break;
-            case 'sync_failed':
-              // For sync_failed records, try to determine the original operation and retry
-              // Check if thread exists on server to determine if it's a create or update
-              try {
-                const existingThread = await conversationService.getThread(record.id);
-                if (existingThread) {
-                  // Thread exists, so this was likely a failed update - retry as update
-                  serverResponse = await conversationService.updateThread(record.id, {
-                    title: record.title,
-                    summary: record.summary,
-                  });
-                } else {
-                  // Thread doesn't exist, so this was likely a failed create - retry as create
-                  serverResponse = await conversationService.createThread(record.title, record.summary);
-                  if (serverResponse && serverResponse.id !== record.id) {
-                    await conversationRepository.updateThreadServerId(record.id, serverResponse.id);
-                    continue;
-                  }
-                }
-              } catch (checkError: any) {
-                // Only create thread if error indicates 404 (thread not found)
-                // For other errors (network, auth, server errors), log and skip
-                const is404 = checkError?.status === 404 || checkError?.response?.status === 404;
-                if (is404) {
-                  // Thread not found, so this was likely a failed create - retry as create
-                  serverResponse = await conversationService.createThread(record.title, record.summary);
-                  if (serverResponse && serverResponse.id !== record.id) {
-                    await conversationRepository.updateThreadServerId(record.id, serverResponse.id);
-                    continue;
-                  }
-                } else {
-                  // For non-404 errors (network, auth, server errors), log and skip this record
-                  console.warn(`Sync: Failed to check thread existence for ${record.id}:`, checkError);
-                  // Continue to next record instead of retrying create
-                  continue;
-                }
-              }
-              break;
-            default:
-              console.warn(`Push: Unknown status ${record.status} for thread ${record.id}`);
-              continue;
-          }
-        } else {
-          console.warn(`Push: Unknown record type for record ${(record as any).id}`);
-          continue;
-        }
+    // Tasks and goals with unresolved conflicts are held back until the user picks a version.
+    // Deletes still go through since they make the conflict moot.
+    const conflictedTaskIds = await syncConflictRepository.getConflictedRecordIds('tasks');
+    const conflictedGoalIds = await syncConflictRepository.getConflictedRecordIds('goals');
 
-        // Update local record based on server action
-        // Handle ConversationThread separately since it uses repository method
-        if (record instanceof ConversationThread) {
-          if (record.status === 'pending_delete') {
-            // Delete handled by repository, just destroy locally
-            await database.write(async () => {
-              await record.destroyPermanently();
-            });
-          } else {
-            await conversationRepository.markThreadAsSynced(record.id, {
-              createdAt: serverResponse?.created_at ? safeParseDate(serverResponse.created_at) : undefined,
-              updatedAt: serverResponse?.updated_at ? safeParseDate(serverResponse.updated_at) : undefined,
-            });
-          }
-          // Skip the generic update logic below
-        } else {
-          await database.write(async () => {
-            if (record.status === 'pending_delete' ||
-              (typeof record.status === 'string' && record.status.includes('pending_delete'))) {
-              await record.destroyPermanently();
-            } else {
-              // For tasks, preserve lifecycle status from server response if provided
-              let finalStatus: string;
-              if (record instanceof Task) {
-                // Extract lifecycle status from server response or preserve from current status
-                const serverStatus = serverResponse?.status;
-                const serverLifecycleStatus =
-                  serverStatus === 'not_started' || serverStatus === 'in_progress' || serverStatus === 'completed'
-                    ? serverStatus
-                    : null;
-
-                const { lifecycleStatus: currentLifecycleStatus } = this.extractLifecycleStatus(record.status as string | undefined | null);
-
-                // Use server status if available, otherwise preserve current
-                finalStatus = serverLifecycleStatus || currentLifecycleStatus || 'not_started';
-              } else {
-                // Non-task records use 'synced' status
-                finalStatus = 'synced';
-              }
+    const pushErrors: { recordId: string; error: any }[] = [];
+    const failedRecords: SyncableRecord[] = [];
+    const queuedIds = await outboxRepository.getQueuedOperationIds();
+    const replayedRoutineIds = new Set<string>();
+    let remaining = operations;
+
+    // Operations run in the order they were queued. One that depends on a create still in
+    // the outbox waits, and runs later in this push if that create goes through.
+    while (remaining.length > 0 && !this.isPastDeadline()) {
+      const ready = remaining.filter(op => !isOperationBlocked(parseDependencies(op.dependsOn), queuedIds));
+      if (ready.length === 0) {
+        break;
+      }
+      remaining = remaining.filter(op => !ready.includes(op));
 
-              await record.update(r => {
-                r.status = finalStatus;
-                if (serverResponse && serverResponse.updated_at) {
-                  const parsedUpdatedAt = safeParseDate(serverResponse.updated_at);
-                  if (parsedUpdatedAt) {
-                    r.updatedAt = parsedUpdatedAt;
-                  } else {
-                    console.warn(`Push: Failed to parse updated_at for record ${record.id}:`, serverResponse.updated_at);
-                  }
-                }
-              });
-            }
-          });
+      for (const operation of ready) {
+        if (this.isPastDeadline()) {
+          break;
         }
-
-      } catch (error: any) {
-        // Handle idempotent deletes: if server says 404/410 on pending_delete, treat as success
-        try {
-          const isPendingDelete = (record as any).status === 'pending_delete' ||
-            (typeof (record as any).status === 'string' && (record as any).status.includes('pending_delete'));
-          const statusCode = error?.response?.status;
-          const isTimeout = statusCode === 408 || error?.data?.code === 'TIMEOUT' ||
-            (error instanceof Error && error.message?.toLowerCase().includes('timeout'));
-
-          if (isPendingDelete && (statusCode === 404 || statusCode === 410)) {
-            await database.write(async () => {
-              await (record as any).destroyPermanently();
-            });
-            // Skip error tracking for idempotent delete
+        const revision = operation.revision;
+        const record = await this.findOutboxRecord(operation.tableName, operation.recordId, database);
+        if (record && !this.isDeleteState(this.getRecordSyncState(record))) {
+          const conflictedIds = record instanceof Task ? conflictedTaskIds : record instanceof Goal ? conflictedGoalIds : null;
+          if (conflictedIds?.has(record.id)) {
             continue;
           }
-
-          // Handle timeout errors for pending_delete: check if thread was already deleted
-          if (isPendingDelete && isTimeout && record instanceof ConversationThread) {
-            try {
-              // Check if thread still exists on server
-              await conversationService.getThread(record.id, { timeoutMs: 10000 });
-              // Thread still exists - mark as failed for retry
-              console.warn(`Push: Thread ${record.id} delete timed out but thread still exists, will retry`);
-              // Will be marked as sync_failed_delete below
-            } catch (checkError: any) {
-              // If getThread returns 404, thread was already deleted - treat as success
-              const is404 = checkError?.status === 404 || checkError?.response?.status === 404;
-              if (is404) {
-                await database.write(async () => {
-                  await (record as any).destroyPermanently();
-                });
-                // Skip error tracking for idempotent delete
-                continue;
-              }
-              // Other errors (network, auth) - will be marked as failed for retry
-              console.warn(`Push: Failed to verify thread ${record.id} deletion status after timeout:`, checkError);
-            }
-          }
-        } catch (localDeleteErr) {
-          console.warn('Push: Failed to finalize local delete after server 404/410', localDeleteErr);
         }
 
-        // --- CONFLICT HANDLING ---
-        if (error?.response?.status === 409) {
-          console.warn(`Push: Conflict detected for record ${record.id}. Overwriting local with server version.`);
-          const serverRecord = error.response.data?.server_record;
-          if (serverRecord) {
-            // Safely parse dates from server record
-            const parsedStartTime = serverRecord.start_time ? safeParseDate(serverRecord.start_time) : undefined;
-            const parsedEndTime = serverRecord.end_time ? safeParseDate(serverRecord.end_time) : undefined;
-            const parsedUpdatedAt = serverRecord.updated_at ? safeParseDate(serverRecord.updated_at) : undefined;
-
-            // Check if any critical dates failed to parse
-            if (!parsedStartTime || !parsedEndTime || !parsedUpdatedAt) {
-              console.error(`Push: Failed to parse dates for record ${record.id} during conflict resolution:`, {
-                start_time: serverRecord.start_time,
-                end_time: serverRecord.end_time,
-                updated_at: serverRecord.updated_at,
-                parsedStartTime: parsedStartTime?.toISOString() || 'FAILED',
-                parsedEndTime: parsedEndTime?.toISOString() || 'FAILED',
-                parsedUpdatedAt: parsedUpdatedAt?.toISOString() || 'FAILED'
-              });
-
-              // Add to pushErrors instead of corrupting the local record
-              pushErrors.push({
-                recordId: record.id,
-                error: new Error(`Date parsing failed during conflict resolution for record ${record.id}`)
-              });
-              continue;
+        const errorCount = pushErrors.length;
+        try {
+          // Records that are gone or already synced (e.g. merged by a pull) have nothing to push
+          if (record && this.getRecordSyncState(record) !== 'synced') {
+            await this.pushOperation(operation, record, database, pushErrors, replayedRoutineIds);
+          }
+        } finally {
+          const error = pushErrors.length > errorCount ? pushErrors[errorCount].error : undefined;
+          try {
+            if (await this.settleOperation(operation, revision, error, database)) {
+              queuedIds.delete(operation.id);
+            } else if (error && record) {
+              failedRecords.push(record);
             }
-
-            await database.write(async () => {
-              await record.update(r => {
-                // Only update fields that exist on the specific record type
-                if ('title' in r) r.title = serverRecord.title;
-                if ('description' in r) r.description = serverRecord.description;
-                if ('startTime' in r) r.startTime = parsedStartTime;
-                if ('endTime' in r) r.endTime = parsedEndTime;
-                if ('location' in r) r.location = serverRecord.location;
-                if ('isAllDay' in r) r.isAllDay = serverRecord.is_all_day;
-                r.status = 'synced';
-                r.updatedAt = parsedUpdatedAt;
-              });
-            });
-            // Successfully handled conflict, so we don't add it to pushErrors
-            continue;
+          } catch (settleError) {
+            console.error(`Push: Failed to update outbox operation ${operation.id}`, settleError);
           }
         }
-        // --- END CONFLICT HANDLING ---
-
-        console.error(`Push: Failed to sync record ${record.id}. Status: ${record.status}`, JSON.stringify(error, null, 2));
-        pushErrors.push({ recordId: record.id, error });
-
-        // In a real app, you would implement more robust error handling,
-        // like a failed queue or marking the record as sync_failed.
-        // For now, we'll just log the error and continue.
-      }
 
-      // Yield to event loop to allow user operations (like delete) to process
-      // This prevents sync from monopolizing the write queue
-      await this.yieldToEventLoop();
-    }
-
-    // Handle messages separately - they require calling /ai/chat endpoint
-    // First, ensure all threads are synced before processing messages
-    for (const message of dirtyMessages) {
-      try {
-        const thread = await this.findOrMigrateThread(message, database);
-        const finalThreadId = await this.ensureThreadSynced(thread, message, database);
-        await this.sendMessageAndCreateResponse(message, finalThreadId, database);
-      } catch (error: any) {
-        console.error(`Push: Failed to sync message ${message.id}`, JSON.stringify(error, null, 2));
-        messagePushErrors.push({ recordId: message.id, error });
+        // Yield to event loop to allow user operations (like delete) to process
+        // This prevents sync from monopolizing the write queue
+        await this.yieldToEventLoop();
       }
-
-      // Yield to event loop to allow user operations to process
-      await this.yieldToEventLoop();
     }
 
-    // Combine push errors with message push errors
-    const allPushErrors = [...pushErrors, ...messagePushErrors];
-
     // Check for auth errors after the loop and before other error handling
-    const hasAuthError = allPushErrors.some(
+    const hasAuthError = pushErrors.some(
       e => e.error?.response?.status === 401 || e.error?.response?.status === 403,
     );
 
@@ -797,35 +394,20 @@ class SyncService {
       throw new Error('Authentication failed');
     }
 
-    if (allPushErrors.length > 0) {
-      const totalRecords = allDirtyRecords.length + dirtyMessages.length;
-      const errorMessage = `Failed to push ${allPushErrors.length} of ${totalRecords} changes.`;
+    if (pushErrors.length > 0) {
+      const errorMessage = `Failed to push ${pushErrors.length} of ${operations.length} changes.`;
       notificationService.showInAppNotification(
         'Push Incomplete',
         errorMessage,
       );
 
-      const failedRecordIds = allPushErrors.map(e => e.recordId);
-      const recordsToUpdate = [...allDirtyRecords, ...dirtyMessages].filter(r =>
-        failedRecordIds.includes(r.id),
-      );
-
-      if (recordsToUpdate.length > 0) {
-        const database = getDatabase();
+      if (failedRecords.length > 0) {
         try {
           await database.write(async () => {
-            for (const record of recordsToUpdate) {
+            for (const record of failedRecords) {
               await record.update(r => {
-                // For tasks, preserve lifecycle status using combined format
-                if (record instanceof Task) {
-                  const { lifecycleStatus, syncStatus } = this.extractLifecycleStatus(record.status);
-                  // If it's a pending_delete that failed, mark as sync_failed_delete
-                  if (syncStatus === 'pending_delete') {
-                    r.status = 'sync_failed_delete';
-                  } else {
-                    // For other task sync failures, use combined format
-                    r.status = `sync_failed:${lifecycleStatus}`;
-                  }
+                if (r instanceof Task) {
+                  r.syncState = getFailedSyncState(r.syncState);
                 } else {
                   // For other records, transition pending states to failed states
                   if (r.status === 'pending_create') {
@@ -851,33 +433,654 @@ class SyncService {
   }
 
   /**
-   * Finds a thread by ID or migrates it if it was moved during sync.
-   * Updates message.threadId inside database.write if migration is found.
-   * @returns The resolved thread or throws an error if not found
+   * Pushes the record of one outbox operation using the endpoint for its table.
    */
-  private async findOrMigrateThread(
-    message: ConversationMessage,
+  private async pushOperation(
+    operation: OutboxOperation,
+    record: SyncableRecord,
+    database: Database,
+    pushErrors: { recordId: string; error: any }[],
+    replayedRoutineIds: Set<string>
+  ): Promise<void> {
+    if (record instanceof ConversationMessage) {
+      // Messages go through the /ai/chat endpoint once their thread exists on the server
+      try {
+        const thread = await this.findOrMigrateThread(record, database);
+        const finalThreadId = await this.ensureThreadSynced(thread, record, database);
+        await this.sendMessageAndCreateResponse(record, finalThreadId, database);
+      } catch (error: any) {
+        console.error(`Push: Failed to sync message ${record.id}`, JSON.stringify(error, null, 2));
+        pushErrors.push({ recordId: record.id, error });
+      }
+    } else if (record instanceof Routine) {
+      pushErrors.push(...await this.pushRoutine(record, operation.idempotencyKey, database));
+    } else if (record instanceof RoutineCompletion) {
+      // Completions are replayed per routine, in order, the first time one of them comes up
+      if (!replayedRoutineIds.has(record.routineId)) {
+        replayedRoutineIds.add(record.routineId);
+        pushErrors.push(...await this.pushRoutineCompletions(record.routineId, database));
+      }
+    } else if (record instanceof SavedFilter) {
+      pushErrors.push(...await this.pushSavedFilter(record, operation.idempotencyKey, database));
+    } else if (record instanceof TaskDependency) {
+      pushErrors.push(...await this.pushTaskDependency(record, operation.idempotencyKey, database));
+    } else if (record instanceof TaskChecklistItem) {
+      pushErrors.push(...await this.pushChecklistItem(record, operation.idempotencyKey, database));
+    } else if (record instanceof DailyReflection) {
+      pushErrors.push(...await this.pushDailyReflection(record, operation.idempotencyKey, database));
+    } else {
+      await this.pushRecord(record, operation.idempotencyKey, database, pushErrors);
+    }
+  }
+
+  /**
+   * Settles an outbox operation after a push attempt, based on the state its record was left in.
+   * A record that is gone or synced completes the operation; one that is still dirty schedules a retry.
+   * @returns Whether the operation left the outbox
+   */
+  private async settleOperation(
+    operation: OutboxOperation,
+    revision: number,
+    error: any,
     database: Database
-  ): Promise<ConversationThread> {
-    // Ensure thread exists - try original threadId first
-    let thread = await conversationRepository.getThreadById(message.threadId);
+  ): Promise<boolean> {
+    const record = await this.findOutboxRecord(operation.tableName, operation.recordId, database);
+    const state = record ? this.getRecordSyncState(record) : 'synced';
 
-    // If thread not found, it might have been migrated to a new ID during sync
-    // Try to find it by checking all synced threads and matching by userId and timestamp
-    if (!thread) {
-      const userId = authService.getCurrentUser()?.id;
-      if (userId) {
-        const allSyncedThreads = await database.get<ConversationThread>('conversation_threads')
-          .query(
-            Q.where('user_id', userId),
-            Q.where('status', 'synced')
-          )
-          .fetch();
+    if (state !== 'synced') {
+      await outboxRepository.fail(operation, error ?? new Error(`Not pushed, record is ${state}`));
+      return false;
+    }
+    if (await outboxRepository.complete(operation, revision)) {
+      return true;
+    }
 
-        // Try to find thread by checking messages in synced threads
-        for (const candidateThread of allSyncedThreads) {
-          const threadMessages = await conversationRepository.getMessagesByThreadId(candidateThread.id);
-          const matchingMessage = threadMessages.find(m => m.id === message.id);
+    // Edited while it was being pushed: the newer revision still needs pushing
+    if (record) {
+      await database.write(async () => {
+        await record.update(r => {
+          if (r instanceof Task) {
+            r.syncState = 'pending_update';
+          } else {
+            r.status = 'pending_update';
+          }
+        });
+      });
+    }
+    return false;
+  }
+
+  private async findOutboxRecord(tableName: string, recordId: string, database: Database): Promise<SyncableRecord | null> {
+    const records = await database.get<SyncableRecord>(tableName).query(Q.where('id', recordId)).fetch();
+    return records.length > 0 ? records[0] : null;
+  }
+
+  /**
+   * Pushes one dirty record and updates it locally with the result.
+   * Failures are added to pushErrors rather than thrown.
+   * @param idempotencyKey - Sent with creates so a retried create is not applied twice
+   */
+  private async pushRecord(
+    record: PushableRecord,
+    idempotencyKey: string,
+    database: Database,
+    pushErrors: { recordId: string; error: any }[]
+  ): Promise<void> {
+    try {
+      let recordData: any;
+      let serverResponse: any;
+
+      // Handle different record types
+      if (record instanceof CalendarEvent) {
+        recordData = {
+          summary: record.title, // Map title to summary for the API
+          description: record.description,
+          startTime: record.startTime.toISOString(),
+          endTime: record.endTime.toISOString(),
+          location: record.location,
+          isAllDay: record.isAllDay,
+          timeZone: record.timeZone,
+          // Events scheduled for a task offline keep their link; the task is pushed first
+          ...(record.taskId ? { eventType: 'task', taskId: record.taskId } : {}),
+          // Imported events: the server creates each UID once, however many devices import the file
+          ...(record.icsUid ? { icsUid: record.icsUid } : {}),
+          client_updated_at: record.updatedAt?.toISOString(), // For conflict resolution
+        };
+
+        // The task's create moves it to the server ID, and the outbox pushes that create first
+        if (record.taskId && record.status !== 'pending_delete') {
+          this.requireServerId(record.taskId, 'task');
+        }
+
+        switch (record.status) {
+          case 'pending_create':
+            serverResponse = await enhancedAPI.createEvent(recordData, { idempotencyKey });
+            break;
+          case 'pending_update':
+            serverResponse = await enhancedAPI.updateEvent(record.id, recordData);
+            break;
+          case 'pending_delete':
+            await enhancedAPI.deleteEvent(record.id);
+            break;
+          default:
+            console.warn(`Push: Unknown status ${record.status} for event ${record.id}`);
+            return;
+        }
+      } else if (record instanceof Task) {
+        const allowedPriorities = ['low', 'medium', 'high'];
+        const normalizedPriority = record.priority
+          ? String(record.priority).toLowerCase()
+          : undefined;
+        const priorityForPayload = normalizedPriority && allowedPriorities.includes(normalizedPriority)
+          ? normalizedPriority
+          : normalizedPriority
+            ? (console.warn(`Push: Normalizing unsupported priority "${record.priority}" to "medium"`), 'medium')
+            : undefined;
+
+        recordData = {
+          title: record.title,
+          description: record.description,
+          priority: priorityForPayload,
+          estimated_duration_minutes: record.estimatedDurationMinutes,
+          due_date: record.dueDate?.toISOString(),
+          // Only include optional fields if they have values (don't send null)
+          ...(record.goalId ? { goal_id: record.goalId } : {}),
+          // Only include is_today_focus if it's explicitly a boolean (not null or undefined)
+          // Backend validation requires boolean or absent, not null
+          ...(typeof record.isTodayFocus === 'boolean' ? { is_today_focus: record.isTodayFocus } : {}),
+          // Include recurrence_pattern - ensure it can be null to clear recurrence
+          recurrence_pattern: (() => {
+            if (!record.recurrencePatternJson) return null;
+            try {
+              return JSON.parse(record.recurrencePatternJson);
+            } catch (e) {
+              console.warn(`Push: Invalid recurrencePatternJson for task ${record.id}, sending null`, e);
+              return null;
+            }
+          })(),
+          status: record.lifecycleStatus || 'not_started',
+          client_updated_at: record.updatedAt?.toISOString(),
+        };
+
+        const isDeleteOperation = record.syncState === 'pending_delete' || record.syncState === 'sync_failed_delete';
+
+        if (isDeleteOperation) {
+          // If task ID is not a UUID, it was never synced to server
+          // Just delete it locally without attempting server deletion
+          if (!this.isUUID(record.id)) {
+            await database.write(async () => {
+              await record.destroyPermanently();
+            });
+            // Skip the normal update logic since we've already deleted locally
+            return;
+          }
+          // Delete task on server
+          try {
+            await enhancedAPI.deleteTask(record.id);
+            // Immediately delete local record after successful server deletion
+            await database.write(async () => {
+              await record.destroyPermanently();
+            });
+            // Skip the normal update logic since we've already deleted locally
+            return;
+          } catch (deleteError: any) {
+            // Re-throw error to be handled by outer catch block
+            // This allows idempotent delete handling (404/410) and proper error tracking
+            console.error(`Push: Failed to delete task ${record.id} from server:`, deleteError);
+            throw deleteError;
+          }
+        }
+
+        switch (record.syncState) {
+          case 'pending_create':
+          case 'sync_failed_create':
+            serverResponse = await enhancedAPI.createTask(recordData, { idempotencyKey });
+            // Move the task, its events, checklist items and links to the server ID right away,
+            // so operations queued after it push with the server task ID
+            if (serverResponse?.id && serverResponse.id !== record.id) {
+              await taskRepository.updateTaskServerId(record.id, serverResponse.id);
+              return;
+            }
+            break;
+          case 'pending_update':
+          case 'sync_failed_update':
+            // If task ID is not a UUID, it was never synced to server
+            // This shouldn't happen in normal flow, but treat it as a create if it does
+            if (!this.isUUID(record.id)) {
+              console.warn(`Push: Task ${record.id} has ${record.syncState} but non-UUID ID, treating as create`);
+              serverResponse = await enhancedAPI.createTask(recordData, { idempotencyKey });
+              if (serverResponse?.id && serverResponse.id !== record.id) {
+                await taskRepository.updateTaskServerId(record.id, serverResponse.id);
+                return;
+              }
+            } else {
+              serverResponse = await enhancedAPI.updateTask(record.id, recordData);
+            }
+            break;
+          default:
+            console.warn(`Push: Unknown sync state ${record.syncState} for task ${record.id}`);
+            return;
+        }
+      } else if (record instanceof Goal) {
+        recordData = {
+          title: record.title,
+          description: record.description,
+          target_completion_date: record.targetCompletionDate?.toISOString(),
+          progress_percentage: record.progressPercentage,
+          category: record.category,
+          is_active: record.isActive,
+          client_updated_at: record.updatedAt?.toISOString(),
+        };
+
+        switch (record.status) {
+          case 'pending_create':
+          case 'sync_failed_create':
+            serverResponse = await enhancedAPI.createGoal(recordData, { idempotencyKey });
+            // Move the goal, its milestones and tasks to the server ID right away,
+            // so operations queued after it push with the server goal ID
+            if (serverResponse?.id && serverResponse.id !== record.id) {
+              await goalRepository.updateGoalServerId(record.id, serverResponse.id);
+              return;
+            }
+            break;
+          case 'pending_update':
+          case 'sync_failed_update':
+          // Fallback for legacy sync_failed, assume update
+          case 'sync_failed':
+            // Check if the record exists on the server before attempting an update
+            try {
+              await enhancedAPI.getGoal(record.id);
+              serverResponse = await enhancedAPI.updateGoal(record.id, recordData);
+            } catch (error: any) {
+              if (error.response && error.response.status === 404) {
+                // Not found, so it should be a create operation
+                serverResponse = await enhancedAPI.createGoal(recordData, { idempotencyKey });
+                if (serverResponse?.id && serverResponse.id !== record.id) {
+                  await goalRepository.updateGoalServerId(record.id, serverResponse.id);
+                  return;
+                }
+              } else {
+                // Re-throw other errors
+                throw error;
+              }
+            }
+            break;
+          case 'pending_delete':
+          case 'sync_failed_delete':
+            serverResponse = await enhancedAPI.deleteGoal(record.id);
+            break;
+          default:
+            console.warn(`Push: Unknown status ${record.status} for goal ${record.id}`);
+            return;
+        }
+      } else if (record instanceof Milestone) {
+        recordData = {
+          title: record.title,
+          description: record.description,
+          completed: record.completed,
+          order: record.order,
+          client_updated_at: record.updatedAt?.toISOString(),
+        };
+
+        switch (record.status) {
+          case 'pending_create':
+          case 'sync_failed_create':
+            // The goal's own create is pushed first, so it already has its server ID
+            serverResponse = await enhancedAPI.createMilestone(
+              this.requireServerId(record.goalId, 'goal'),
+              recordData,
+              { idempotencyKey }
+            );
+            // If server assigned a different ID, migrate local milestone and its steps
+            if (serverResponse && serverResponse.id && serverResponse.id !== record.id) {
+              try {
+                await goalRepository.updateMilestoneServerId(record.id, serverResponse.id, serverResponse.goal_id);
+                // After migration, skip normal update for this record
+                return;
+              } catch (migrationError) {
+                console.warn('Push: Failed to migrate milestone ID to server ID, will proceed with normal update.', migrationError);
+              }
+            }
+            break;
+          case 'pending_update':
+          case 'sync_failed_update':
+          // Fallback for legacy sync_failed, assume update
+          case 'sync_failed':
+            // Check if the record exists on the server before attempting an update
+            try {
+              await enhancedAPI.getMilestone(record.id);
+              serverResponse = await enhancedAPI.updateMilestone(record.id, recordData);
+            } catch (error: any) {
+              if (error.response && error.response.status === 404) {
+                // Not found, so it should be a create operation
+                serverResponse = await enhancedAPI.createMilestone(
+                  this.requireServerId(record.goalId, 'goal'),
+                  recordData,
+                  { idempotencyKey }
+                );
+                if (serverResponse && serverResponse.id && serverResponse.id !== record.id) {
+                  try {
+                    await goalRepository.updateMilestoneServerId(record.id, serverResponse.id, serverResponse.goal_id);
+                    return;
+                  } catch (migrationError) {
+                    console.warn('Push: Failed to migrate milestone ID after create fallback.', migrationError);
+                  }
+                }
+              } else {
+                // Re-throw other errors
+                throw error;
+              }
+            }
+            break;
+          case 'pending_delete':
+          case 'sync_failed_delete':
+            serverResponse = await enhancedAPI.deleteMilestone(record.id);
+            break;
+          default:
+            console.warn(`Push: Unknown status ${record.status} for milestone ${record.id}`);
+            return;
+        }
+      } else if (record instanceof MilestoneStep) {
+        recordData = {
+          text: record.text,
+          completed: record.completed,
+          order: record.order,
+          client_updated_at: record.updatedAt?.toISOString(),
+        };
+
+        switch (record.status) {
+          case 'pending_create':
+          case 'sync_failed_create':
+            serverResponse = await enhancedAPI.createStep(
+              this.requireServerId(record.milestoneId, 'milestone'),
+              recordData,
+              { idempotencyKey }
+            );
+            break;
+          case 'pending_update':
+          case 'sync_failed_update':
+          // Fallback for legacy sync_failed, assume update
+          case 'sync_failed':
+            // Check if the record exists on the server before attempting an update
+            try {
+              await enhancedAPI.getStep(record.id);
+              serverResponse = await enhancedAPI.updateStep(record.id, recordData);
+            } catch (error: any) {
+              if (error.response && error.response.status === 404) {
+                // Not found, so it should be a create operation
+                serverResponse = await enhancedAPI.createStep(
+                  this.requireServerId(record.milestoneId, 'milestone'),
+                  recordData,
+                  { idempotencyKey }
+                );
+              } else {
+                // Re-throw other errors
+                throw error;
+              }
+            }
+            break;
+          case 'pending_delete':
+          case 'sync_failed_delete':
+            serverResponse = await enhancedAPI.deleteStep(record.id);
+            break;
+          default:
+            console.warn(`Push: Unknown status ${record.status} for step ${record.id}`);
+            return;
+        }
+      } else if (record instanceof ConversationThread) {
+        recordData = {
+          title: record.title,
+          summary: record.summary,
+          client_updated_at: record.updatedAt?.toISOString(),
+        };
+
+        switch (record.status) {
+          case 'pending_create':
+            serverResponse = await conversationService.createThread(record.title, record.summary);
+            // If server returned a different ID, we need to update (server generates UUID)
+            // Note: This is handled by marking as synced - the server ID becomes the canonical ID
+            // If local ID differs, updateThreadServerId will handle migration
+            if (serverResponse && serverResponse.id !== record.id) {
+              await conversationRepository.updateThreadServerId(record.id, serverResponse.id);
+              // Skip the normal update logic since we've migrated to new ID
+              return;
+            }
+            break;
+          case 'pending_update':
+            serverResponse = await conversationService.updateThread(record.id, {
+              title: record.title,
+              summary: record.summary,
+            });
+            break;
+          case 'pending_delete':
+            await conversationService.deleteThread(record.id);
+            break;
+          case 'sync_failed':
+            // For sync_failed records, try to determine the original operation and retry
+            // Check if thread exists on server to determine if it's a create or update
+            try {
+              const existingThread = await conversationService.getThread(record.id);
+              if (existingThread) {
+                // Thread exists, so this was likely a failed update - retry as update
+                serverResponse = await conversationService.updateThread(record.id, {
+                  title: record.title,
+                  summary: record.summary,
+                });
+              } else {
+                // Thread doesn't exist, so this was likely a failed create - retry as create
+                serverResponse = await conversationService.createThread(record.title, record.summary);
+                if (serverResponse && serverResponse.id !== record.id) {
+                  await conversationRepository.updateThreadServerId(record.id, serverResponse.id);
+                  return;
+                }
+              }
+            } catch (checkError: any) {
+              // Only create thread if error indicates 404 (thread not found)
+              // For other errors (network, auth, server errors), log and skip
+              const is404 = checkError?.status === 404 || checkError?.response?.status === 404;
+              if (is404) {
+                // Thread not found, so this was likely a failed create - retry as create
+                serverResponse = await conversationService.createThread(record.title, record.summary);
+                if (serverResponse && serverResponse.id !== record.id) {
+                  await conversationRepository.updateThreadServerId(record.id, serverResponse.id);
+                  return;
+                }
+              } else {
+                // For non-404 errors (network, auth, server errors), log and skip this record
+                console.warn(`Sync: Failed to check thread existence for ${record.id}:`, checkError);
+                // Continue to next record instead of retrying create
+                return;
+              }
+            }
+            break;
+          default:
+            console.warn(`Push: Unknown status ${record.status} for thread ${record.id}`);
+            return;
+        }
+      } else {
+        console.warn(`Push: Unknown record type for record ${(record as any).id}`);
+        return;
+      }
+
+      // Update local record based on server action
+      // Handle ConversationThread separately since it uses repository method
+      if (record instanceof ConversationThread) {
+        if (record.status === 'pending_delete') {
+          // Delete handled by repository, just destroy locally
+          await database.write(async () => {
+            await record.destroyPermanently();
+          });
+        } else {
+          await conversationRepository.markThreadAsSynced(record.id, {
+            createdAt: serverResponse?.created_at ? safeParseDate(serverResponse.created_at) : undefined,
+            updatedAt: serverResponse?.updated_at ? safeParseDate(serverResponse.updated_at) : undefined,
+          });
+        }
+        // Skip the generic update logic below
+      } else {
+        await database.write(async () => {
+          if (this.getRecordSyncState(record) === 'pending_delete') {
+            await record.destroyPermanently();
+          } else {
+            await record.update(r => {
+              if (r instanceof Task) {
+                // Prefer the lifecycle status echoed by the server, otherwise keep the local one
+                if (isTaskLifecycleStatus(serverResponse?.status)) {
+                  r.lifecycleStatus = serverResponse.status;
+                }
+                r.syncState = 'synced';
+                r.baseSnapshot = serializeSnapshot(taskToSnapshot(r));
+              } else {
+                r.status = 'synced';
+                if (r instanceof Goal) {
+                  r.baseSnapshot = serializeSnapshot(goalToSnapshot(r));
+                }
+              }
+              if (serverResponse && serverResponse.updated_at) {
+                const parsedUpdatedAt = safeParseDate(serverResponse.updated_at);
+                if (parsedUpdatedAt) {
+                  r.updatedAt = parsedUpdatedAt;
+                } else {
+                  console.warn(`Push: Failed to parse updated_at for record ${record.id}:`, serverResponse.updated_at);
+                }
+              }
+            });
+          }
+        });
+      }
+
+    } catch (error: any) {
+      // Handle idempotent deletes: if server says 404/410 on pending_delete, treat as success
+      try {
+        const recordSyncState = this.getRecordSyncState(record);
+        const isPendingDelete = recordSyncState === 'pending_delete' || recordSyncState === 'sync_failed_delete';
+        const statusCode = error?.response?.status;
+        const isTimeout = statusCode === 408 || error?.data?.code === 'TIMEOUT' ||
+          (error instanceof Error && error.message?.toLowerCase().includes('timeout'));
+
+        if (isPendingDelete && (statusCode === 404 || statusCode === 410)) {
+          await database.write(async () => {
+            await (record as any).destroyPermanently();
+          });
+          // Skip error tracking for idempotent delete
+          return;
+        }
+
+        // Handle timeout errors for pending_delete: check if thread was already deleted
+        if (isPendingDelete && isTimeout && record instanceof ConversationThread) {
+          try {
+            // Check if thread still exists on server
+            await conversationService.getThread(record.id, { timeoutMs: 10000 });
+            // Thread still exists - mark as failed for retry
+            console.warn(`Push: Thread ${record.id} delete timed out but thread still exists, will retry`);
+            // Will be marked as sync_failed_delete below
+          } catch (checkError: any) {
+            // If getThread returns 404, thread was already deleted - treat as success
+            const is404 = checkError?.status === 404 || checkError?.response?.status === 404;
+            if (is404) {
+              await database.write(async () => {
+                await (record as any).destroyPermanently();
+              });
+              // Skip error tracking for idempotent delete
+              return;
+            }
+            // Other errors (network, auth) - will be marked as failed for retry
+            console.warn(`Push: Failed to verify thread ${record.id} deletion status after timeout:`, checkError);
+          }
+        }
+      } catch (localDeleteErr) {
+        console.warn('Push: Failed to finalize local delete after server 404/410', localDeleteErr);
+      }
+
+      // --- CONFLICT HANDLING ---
+      if (error?.response?.status === 409) {
+        console.warn(`Push: Conflict detected for record ${record.id}. Overwriting local with server version.`);
+        const serverRecord = error.response.data?.server_record;
+        if (serverRecord) {
+          // Safely parse dates from server record
+          const parsedStartTime = serverRecord.start_time ? safeParseDate(serverRecord.start_time) : undefined;
+          const parsedEndTime = serverRecord.end_time ? safeParseDate(serverRecord.end_time) : undefined;
+          const parsedUpdatedAt = serverRecord.updated_at ? safeParseDate(serverRecord.updated_at) : undefined;
+
+          // Check if any critical dates failed to parse
+          if (!parsedStartTime || !parsedEndTime || !parsedUpdatedAt) {
+            console.error(`Push: Failed to parse dates for record ${record.id} during conflict resolution:`, {
+              start_time: serverRecord.start_time,
+              end_time: serverRecord.end_time,
+              updated_at: serverRecord.updated_at,
+              parsedStartTime: parsedStartTime?.toISOString() || 'FAILED',
+              parsedEndTime: parsedEndTime?.toISOString() || 'FAILED',
+              parsedUpdatedAt: parsedUpdatedAt?.toISOString() || 'FAILED'
+            });
+
+            // Add to pushErrors instead of corrupting the local record
+            pushErrors.push({
+              recordId: record.id,
+              error: new Error(`Date parsing failed during conflict resolution for record ${record.id}`)
+            });
+            return;
+          }
+
+          await database.write(async () => {
+            await record.update(r => {
+              // Only update fields that exist on the specific record type
+              if ('title' in r) r.title = serverRecord.title;
+              if ('description' in r) r.description = serverRecord.description;
+              if ('startTime' in r) r.startTime = parsedStartTime;
+              if ('endTime' in r) r.endTime = parsedEndTime;
+              if ('location' in r) r.location = serverRecord.location;
+              if ('isAllDay' in r) r.isAllDay = serverRecord.is_all_day;
+              if (r instanceof Task) {
+                r.syncState = 'synced';
+              } else {
+                r.status = 'synced';
+              }
+              r.updatedAt = parsedUpdatedAt;
+            });
+          });
+          // Successfully handled conflict, so we don't add it to pushErrors
+          return;
+        }
+      }
+      // --- END CONFLICT HANDLING ---
+
+      console.error(`Push: Failed to sync record ${record.id}. Status: ${this.getRecordSyncState(record)}`, JSON.stringify(error, null, 2));
+      pushErrors.push({ recordId: record.id, error });
+
+      // In a real app, you would implement more robust error handling,
+      // like a failed queue or marking the record as sync_failed.
+      // For now, we'll just log the error and continue.
+    }
+  }
+
+  /**
+   * Finds a thread by ID or migrates it if it was moved during sync.
+   * Updates message.threadId inside database.write if migration is found.
+   * @returns The resolved thread or throws an error if not found
+   */
+  private async findOrMigrateThread(
+    message: ConversationMessage,
+    database: Database
+  ): Promise<ConversationThread> {
+    // Ensure thread exists - try original threadId first
+    let thread = await conversationRepository.getThreadById(message.threadId);
+
+    // If thread not found, it might have been migrated to a new ID during sync
+    // Try to find it by checking all synced threads and matching by userId and timestamp
+    if (!thread) {
+      const userId = authService.getCurrentUser()?.id;
+      if (userId) {
+        const allSyncedThreads = await database.get<ConversationThread>('conversation_threads')
+          .query(
+            Q.where('user_id', userId),
+            Q.where('status', 'synced')
+          )
+          .fetch();
+
+        // Try to find thread by checking messages in synced threads
+        for (const candidateThread of allSyncedThreads) {
+          const threadMessages = await conversationRepository.getMessagesByThreadId(candidateThread.id);
+          const matchingMessage = threadMessages.find(m => m.id === message.id);
           if (matchingMessage) {
             thread = candidateThread;
             // Update message's threadId to correct one
@@ -1168,392 +1371,1191 @@ class SyncService {
   async pullData() {
     const database = getDatabase();
     const lastSyncedAt = await AsyncStorage.getItem(LAST_SYNCED_AT_KEY);
+    let cursors = parsePullCursors(await AsyncStorage.getItem(PULL_CURSORS_KEY));
 
     const serverTimeBeforePull = new Date().toISOString();
     const fetchErrors: any[] = [];
+    let fetchesSucceeded = 0;
+    this.conflictsRecorded = 0;
 
     try {
-      // Fetch changes from the server since the last sync - PARALLELIZE for performance
-      // All these calls are independent and can be made concurrently
-      const [
-        syncResponse,
-        tasksResponse,
-        goalsResponse,
-        milestonesResult,
-        milestoneStepsResult,
-        threadsResult,
-      ] = await Promise.allSettled([
-        enhancedAPI.getEvents(2500, lastSyncedAt || undefined),
-        enhancedAPI.getTasks(lastSyncedAt || undefined),
-        enhancedAPI.getGoals(lastSyncedAt || undefined),
-        enhancedAPI.getMilestones(lastSyncedAt || undefined).catch((msErr: any) => {
-          fetchErrors.push(msErr);
-          console.warn('Pull: Failed to fetch milestones, continuing without them.', msErr);
-          return { changed: [], deleted: [] };
-        }),
-        enhancedAPI.getMilestoneSteps(lastSyncedAt || undefined).catch((stepsErr: any) => {
-          fetchErrors.push(stepsErr);
-          console.warn('Pull: Failed to fetch milestone steps, continuing without them.', stepsErr);
-          return { changed: [], deleted: [] };
-        }),
-        conversationService.listThreads().catch((threadsErr: any) => {
-          fetchErrors.push(threadsErr);
-          console.warn('Pull: Failed to fetch threads, continuing without them.', threadsErr);
-          return [];
-        }),
+      // Milestones and steps also arrive nested in goals, and routines, saved filters and task
+      // dependencies come as full lists, so these are fetched whole rather than paged
+      const [milestonesResult, milestoneStepsResult, routinesResult, savedFiltersResult, taskDependenciesResult] = await Promise.allSettled([
+        enhancedAPI.getMilestones(lastSyncedAt || undefined),
+        enhancedAPI.getMilestoneSteps(lastSyncedAt || undefined),
+        routineService.getAllRoutines(),
+        savedFilterService.getAllSavedFilters(),
+        taskDependencyService.getAllTaskDependencies(),
       ]);
 
-      const requests = [syncResponse, tasksResponse, goalsResponse, milestonesResult, milestoneStepsResult, threadsResult];
-      const rejectedRequests = requests.filter((request) => request.status === 'rejected');
-      const totalFailures = rejectedRequests.length + fetchErrors.length;
-
-      if (totalFailures === requests.length) {
-        throw new Error('Network unavailable. We will try again once you are back online.');
-      }
-
-      // Extract results from Promise.allSettled
-      const syncResponseValue = syncResponse.status === 'fulfilled' ? syncResponse.value : { changed: [], deleted: [] };
-      const tasksResponseValue = tasksResponse.status === 'fulfilled' ? tasksResponse.value : [];
-      const goalsResponseValue = goalsResponse.status === 'fulfilled' ? goalsResponse.value : [];
-      const milestonesResponse = milestonesResult.status === 'fulfilled' ? milestonesResult.value : { changed: [], deleted: [] };
-      const milestoneStepsResponse = milestoneStepsResult.status === 'fulfilled' ? milestoneStepsResult.value : { changed: [], deleted: [] };
-      const threadsResponse = threadsResult.status === 'fulfilled' ? threadsResult.value : [];
-
-      const { changed: changedEvents, deleted: deletedEventIds } = syncResponseValue;
-
-      // Handle tasks response - could be array (full sync) or object with changed/deleted (incremental sync)
-      let changedTasks = [];
-      let deletedTaskIds = [];
-      if (Array.isArray(tasksResponseValue)) {
-        // Full sync response
-        changedTasks = tasksResponseValue;
-      } else if (tasksResponseValue && typeof tasksResponseValue === 'object') {
-        // Incremental sync response
-        changedTasks = tasksResponseValue.changed || [];
-        deletedTaskIds = tasksResponseValue.deleted || [];
+      for (const result of [milestonesResult, milestoneStepsResult, routinesResult, savedFiltersResult, taskDependenciesResult]) {
+        if (result.status === 'rejected') {
+          fetchErrors.push(result.reason);
+          console.warn('Pull: Failed to fetch milestones, steps, routines, saved filters or task dependencies, continuing without them.', result.reason);
+        } else {
+          fetchesSucceeded++;
+        }
       }
 
-      // Handle goals response - could be array (full sync) or object with changed/deleted (incremental sync)
-      let changedGoals = [];
-      let deletedGoalIds = [];
-      if (Array.isArray(goalsResponseValue)) {
-        // Full sync response
-        changedGoals = goalsResponseValue;
-        console.log(`Pull: Received ${changedGoals.length} goals from server (full sync)`);
-      } else if (goalsResponseValue && typeof goalsResponseValue === 'object') {
-        // Incremental sync response
-        changedGoals = goalsResponseValue.changed || [];
-        deletedGoalIds = goalsResponseValue.deleted || [];
-        console.log(`Pull: Received ${changedGoals.length} changed goals and ${deletedGoalIds.length} deleted goal IDs from server`);
-      } else {
-        console.warn(`Pull: Unexpected goals response format:`, goalsResponseValue);
-      }
+      const milestonesResponse = readPulledPage(milestonesResult.status === 'fulfilled' ? milestonesResult.value : null);
+      const milestoneStepsResponse = readPulledPage(milestoneStepsResult.status === 'fulfilled' ? milestoneStepsResult.value : null);
+      // Null (rather than []) so a failed fetch is not mistaken for "all routines deleted"
+      const serverRoutines = routinesResult.status === 'fulfilled' ? routinesResult.value : null;
+      const serverSavedFilters = savedFiltersResult.status === 'fulfilled' ? savedFiltersResult.value : null;
+      const serverTaskDependencies = taskDependenciesResult.status === 'fulfilled' ? taskDependenciesResult.value : null;
 
-      // Fallback: If incremental sync returned no goals, and local milestones are empty while local goals exist,
-      // perform a one-time full goals fetch to hydrate milestones/steps
+      // Fallback: if local milestones are empty while local goals exist, pull all goals again
+      // to hydrate milestones/steps
       try {
-        if (lastSyncedAt && changedGoals.length === 0) {
-          const goalsCount = (await database.get<Goal>('goals').query().fetch()).length;
-          const milestonesCount = (await database.get<Milestone>('milestones').query().fetch()).length;
+        if (cursors.goals?.syncedAt && !cursors.goals.inProgress) {
+          const goalsCount = await database.get<Goal>('goals').query().fetchCount();
+          const milestonesCount = await database.get<Milestone>('milestones').query().fetchCount();
           if (goalsCount > 0 && milestonesCount === 0) {
-            const fullGoals = await enhancedAPI.getGoals(undefined);
-            if (Array.isArray(fullGoals)) {
-              changedGoals = fullGoals;
-            } else if (fullGoals && typeof fullGoals === 'object') {
-              changedGoals = fullGoals.changed || [];
-            }
+            cursors = resetCollection(cursors, 'goals');
           }
         }
       } catch (fallbackErr) {
-        console.warn('Pull: Fallback full goals fetch failed, continuing without it.', fallbackErr);
+        console.warn('Pull: Could not check for missing milestones, continuing without a full goals pull.', fallbackErr);
+      }
+
+      await database.write(async () => {
+        await this.applyDeletions('milestones', milestonesResponse.deleted, database);
+        await this.applyDeletions('milestone_steps', milestoneStepsResponse.deleted, database);
+
+        const prepared: Model[] = [];
+        for (const milestoneData of milestonesResponse.changed) {
+          prepared.push(...await this.processMilestoneChange(milestoneData, database));
+        }
+        for (const stepData of milestoneStepsResponse.changed) {
+          prepared.push(...await this.processMilestoneStepChange(stepData, database));
+        }
+        await database.batch(...prepared);
+
+        // Routines come as a full list rather than changes, so they are reconciled separately
+        const routinesProcessed = serverRoutines ? await this.processRoutineChanges(serverRoutines, database) : 0;
+        const savedFiltersProcessed = serverSavedFilters ? await this.processSavedFilterChanges(serverSavedFilters, database) : 0;
+        const dependenciesProcessed = serverTaskDependencies ? await this.processTaskDependencyChanges(serverTaskDependencies, database) : 0;
+        console.log(`Pull: Processed ${milestonesResponse.changed.length} milestones, ${milestoneStepsResponse.changed.length} steps, ${routinesProcessed} routines, ${savedFiltersProcessed} saved filters, ${dependenciesProcessed} task dependencies`);
+      });
+
+      // Page through the large collections. Each page is applied in its own write and its cursor
+      // saved right after, so a pull interrupted by the app being killed resumes from that page.
+      let recordsApplied = 0;
+      for (const [collectionIndex, collection] of PULL_COLLECTIONS.entries()) {
+        // Collections that predate per-collection cursors continue from the app-wide one
+        const fallbackSince = LEGACY_CURSOR_COLLECTIONS.includes(collection) ? lastSyncedAt : null;
+        let pages = 0;
+        let hasMore = true;
+
+        while (hasMore && !this.isPastDeadline()) {
+          const request = getPageRequest(cursors, collection, serverTimeBeforePull, fallbackSince);
+          let page: PulledPage;
+          try {
+            page = await this.fetchPage(collection, request);
+            fetchesSucceeded++;
+          } catch (pageErr) {
+            fetchErrors.push(pageErr);
+            console.warn(`Pull: Failed to fetch ${collection}, continuing without them.`, pageErr);
+            break;
+          }
+
+          recordsApplied += await this.applyPage(collection, page, database);
+          cursors = recordPage(cursors, collection, request, page.nextCursor);
+          await AsyncStorage.setItem(PULL_CURSORS_KEY, JSON.stringify(cursors));
+
+          pages++;
+          this.emitPullProgress({
+            collection,
+            collectionIndex,
+            collectionCount: PULL_COLLECTIONS.length,
+            pages,
+            records: recordsApplied,
+          });
+
+          hasMore = Boolean(page.nextCursor);
+          // Let UI work run between pages
+          await this.yieldToEventLoop();
+        }
+      }
+
+      if (fetchesSucceeded === 0) {
+        throw new Error('Network unavailable. We will try again once you are back online.');
+      }
+
+      console.log(`Pull: Applied ${recordsApplied} records, ${fetchErrors.length} fetch errors`);
+
+      // Once every collection has caught up, save the server's timestamp
+      if (isCaughtUp(cursors)) {
+        await AsyncStorage.setItem(LAST_SYNCED_AT_KEY, serverTimeBeforePull);
       }
 
-      // Handle milestones response
-      let changedMilestones = [];
-      let deletedMilestoneIds = [];
-      if (Array.isArray(milestonesResponse)) {
-        changedMilestones = milestonesResponse;
-      } else if (milestonesResponse && typeof milestonesResponse === 'object') {
-        changedMilestones = milestonesResponse.changed || [];
-        deletedMilestoneIds = milestonesResponse.deleted || [];
+      if (this.conflictsRecorded > 0) {
+        const count = this.conflictsRecorded;
+        notificationService.showInAppNotification(
+          'Sync Conflicts',
+          `${count} ${count === 1 ? 'change was' : 'changes were'} edited on another device too. Review them in Profile > Sync conflicts.`,
+        );
       }
 
-      // Handle milestone steps response
-      let changedMilestoneSteps = [];
-      let deletedMilestoneStepIds = [];
-      if (Array.isArray(milestoneStepsResponse)) {
-        changedMilestoneSteps = milestoneStepsResponse;
-      } else if (milestoneStepsResponse && typeof milestoneStepsResponse === 'object') {
-        changedMilestoneSteps = milestoneStepsResponse.changed || [];
-        deletedMilestoneStepIds = milestoneStepsResponse.deleted || [];
+    } catch (error: any) {
+      let userMessage = 'An unknown error occurred while syncing.';
+      let shouldRetry = false;
+
+      if (error?.response?.status) {
+        const status = error.response.status;
+        if (status === 401 || status === 403) {
+          userMessage = 'Authentication failed. Please log in again to sync your data.';
+          shouldRetry = false;
+        } else if (status >= 500) {
+          userMessage = 'There was a problem with the server. Please try again later.';
+          shouldRetry = true;
+        } else { // Other 4xx errors e.g. data/validation
+          userMessage = 'A data validation error occurred. Please check your inputs.';
+          shouldRetry = false;
+        }
+      } else if (error.message && (error.message.toLowerCase().includes('network') || error.message.toLowerCase().includes('timeout'))) {
+        userMessage = 'A network error occurred. Please check your connection and try again.';
+        shouldRetry = true;
+      } else if (error instanceof Error) {
+        userMessage = `An unexpected error occurred: ${error.message}`;
+      }
+
+      console.error('Pull: Failed to fetch or process changes from server.', {
+        errorMessage: error.message,
+        statusCode: error?.response?.status,
+        responseData: error?.response?.data,
+        shouldRetry,
+        originalError: error,
+      });
+
+      notificationService.showInAppNotification('Data Pull Failed', userMessage);
+
+      // Re-throw the original error so the main sync logic can handle it
+      throw error;
+    } finally {
+      this.emitPullProgress(null);
+    }
+  }
+
+  /**
+   * Fetches one page of a collection's changes.
+   */
+  private async fetchPage(collection: PullCollection, request: PageRequest): Promise<PulledPage> {
+    const since = request.since || undefined;
+    const page = { limit: PULL_PAGE_SIZE, cursor: request.pageCursor };
+
+    switch (collection) {
+      case 'goals':
+        return readPulledPage(await enhancedAPI.getGoals(since, page));
+      case 'tasks':
+        return readPulledPage(await enhancedAPI.getTasks(since, page));
+      case 'calendar_events':
+        return readPulledPage(await enhancedAPI.getEvents(PULL_PAGE_SIZE, since, page));
+      case 'task_checklist_items':
+        return readPulledPage(await taskChecklistService.getChecklistItemChanges(request.since, page));
+      case 'daily_reflections':
+        return readPulledPage(await dailyReflectionService.getReflectionChanges(request.since, page));
+      case 'conversation_threads':
+        return readPulledPage(await conversationService.getThreadChanges(request.since, page));
+      case 'conversation_messages':
+        return readPulledPage(await conversationService.getMessageChanges(request.since, page));
+    }
+  }
+
+  /**
+   * Applies one page of changes in a single write. Changes are prepared record by record and
+   * committed together with database.batch().
+   * @returns The number of changed records applied
+   */
+  private async applyPage(collection: PullCollection, page: PulledPage, database: Database): Promise<number> {
+    let applied = 0;
+
+    await database.write(async () => {
+      await this.applyDeletions(collection, page.deleted, database);
+
+      const prepared: Model[] = [];
+      for (const changeData of page.changed) {
+        try {
+          prepared.push(...await this.prepareChange(collection, changeData, database));
+          applied++;
+        } catch (recordError) {
+          // Log error but continue processing other records
+          console.error(`Pull: Failed to process ${collection} record ${changeData?.id}:`, recordError);
+        }
+      }
+      await database.batch(...prepared);
+    });
+
+    return applied;
+  }
+
+  private async prepareChange(collection: PullCollection, changeData: any, database: Database): Promise<Model[]> {
+    switch (collection) {
+      case 'goals':
+        return this.processGoalChange(changeData, database);
+      case 'tasks':
+        return this.processTaskChange(changeData, database);
+      case 'calendar_events':
+        return this.processEventChange(changeData, database);
+      case 'task_checklist_items':
+        return this.processChecklistItemChange(changeData, database);
+      case 'daily_reflections':
+        return this.processDailyReflectionChange(changeData, database);
+      case 'conversation_threads':
+        return this.processThreadChange(changeData, database);
+      case 'conversation_messages':
+        return this.processMessageChange(changeData, database);
+    }
+  }
+
+  /**
+   * Removes records deleted on the server. A deleted thread takes its messages with it.
+   * NOTE: Must be called inside a database.write() block.
+   */
+  private async applyDeletions(
+    tableName: PullCollection | 'milestones' | 'milestone_steps',
+    deletedIds: string[],
+    database: Database
+  ) {
+    if (deletedIds.length === 0) {
+      return;
+    }
+
+    const records: Model[] = await database.get(tableName).query(Q.where('id', Q.oneOf(deletedIds))).fetch();
+    if (tableName === 'conversation_threads') {
+      records.push(...await database.get('conversation_messages').query(Q.where('thread_id', Q.oneOf(deletedIds))).fetch());
+    }
+    await database.batch(...records.map(record => record.prepareDestroyPermanently()));
+  }
+
+  async sync(silent = false) {
+    const user = authService.getCurrentUser();
+    if (!user) {
+      return;
+    }
+
+    if (this.isSyncing) {
+
+      return;
+    }
+
+    this.isSyncing = true;
+    let syncError: any = null;
+    try {
+      this.updateStatus({ phase: 'pushing' });
+      await this.pushData();
+      this.updateStatus({ phase: 'pulling' });
+      await this.pullData();
+    } catch (error) {
+      syncError = error;
+      console.error('Sync failed:', error);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
+      if (!silent) {
+        notificationService.showInAppNotification('Sync Failed', `Could not sync data: ${errorMessage}`);
+      }
+    } finally {
+      this.isSyncing = false;
+      this.updateStatus({ phase: 'idle' });
+    }
+    await this.recordSyncOutcome(syncError);
+  }
+
+  async silentSync() {
+    return this.sync(true);
+  }
+
+  /**
+   * Runs a silent sync that stops taking on new work once the time budget is spent.
+   * Operations left in the outbox and pages left in the pull are picked up by the next sync.
+   */
+  async syncWithin(budgetMs: number) {
+    this.deadline = Date.now() + budgetMs;
+    try {
+      await this.sync(true);
+    } finally {
+      this.deadline = null;
+    }
+  }
+
+  // Convenience alias expected by some screens
+  async fullSync() {
+    await this.pushData();
+    await this.pullData();
+  }
+
+  // Debug helper to inspect current DB state safely
+  async debugDatabaseContents() {
+    const database = getDatabase();
+    const events = await database.get<CalendarEvent>('calendar_events').query().fetch();
+    const tasks = await database.get<Task>('tasks').query().fetch();
+    const goals = await database.get<Goal>('goals').query().fetch();
+    const milestones = await database.get<Milestone>('milestones').query().fetch();
+    const steps = await database.get<MilestoneStep>('milestone_steps').query().fetch();
+
+    return { events, tasks, goals, milestones, steps };
+  }
+
+  // Force a full pull from the server by clearing the incremental cursors
+  async forceFullPull() {
+    await AsyncStorage.removeItem(LAST_SYNCED_AT_KEY);
+    await AsyncStorage.removeItem(PULL_CURSORS_KEY);
+    await this.pullData();
+  }
+
+  /**
+   * Outbox operations that have failed to push, with the records they belong to.
+   */
+  async getFailingRecords(): Promise<FailingRecord[]> {
+    const database = getDatabase();
+    const operations = await outboxRepository.getFailedOperations();
+    const failing: FailingRecord[] = [];
+
+    for (const operation of operations) {
+      const record = await this.findOutboxRecord(operation.tableName, operation.recordId, database);
+      failing.push({
+        operationId: operation.id,
+        tableName: operation.tableName as OutboxTable,
+        recordId: operation.recordId,
+        operation: operation.operation as OutboxOperationType,
+        title: record ? this.describeRecord(record) : null,
+        attemptCount: operation.attemptCount,
+        lastError: operation.lastError ?? null,
+        nextAttemptAt: operation.nextAttemptAt ?? null,
+      });
+    }
+    return failing;
+  }
+
+  private describeRecord(record: SyncableRecord): string {
+    if (record instanceof ConversationMessage) {
+      return record.content;
+    }
+    if (record instanceof MilestoneStep) {
+      return record.text;
+    }
+    if (record instanceof RoutineCompletion) {
+      return `Completion for ${record.periodDate}`;
+    }
+    if (record instanceof SavedFilter) {
+      return record.name;
+    }
+    if (record instanceof TaskDependency) {
+      return 'Blocked-by link';
+    }
+    if (record instanceof TaskChecklistItem) {
+      return record.text;
+    }
+    if (record instanceof DailyReflection) {
+      return `Reflection for ${record.reflectionDate}`;
+    }
+    return record.title;
+  }
+
+  /**
+   * Pushes a failed record again right away instead of waiting out its backoff.
+   */
+  async retryFailedRecord(operationId: string): Promise<void> {
+    const operation = await outboxRepository.getOperation(operationId);
+    if (!operation) {
+      return;
+    }
+    await outboxRepository.retryNow(operation);
+    await this.sync(true);
+  }
+
+  /**
+   * Drops a failed change without pushing it. A record created offline is removed; an edited or
+   * deleted record is marked synced and its collection pulled again in full, which restores the
+   * server's version.
+   */
+  async discardFailedRecord(operationId: string): Promise<void> {
+    const database = getDatabase();
+    const operation = await outboxRepository.getOperation(operationId);
+    if (!operation) {
+      return;
+    }
+    if (await outboxRepository.hasDependents(operation.id)) {
+      throw new Error('Other unsynced changes depend on this one. Discard those first.');
+    }
+
+    const record = await this.findOutboxRecord(operation.tableName, operation.recordId, database);
+    await database.write(async () => {
+      if (record && operation.operation === 'create') {
+        await record.destroyPermanently();
+      } else if (record) {
+        await record.update(r => {
+          if (r instanceof Task) {
+            r.syncState = 'synced';
+          } else {
+            r.status = 'synced';
+          }
+        });
+      }
+      await outboxRepository.remove(operation);
+    });
+
+    const collection = this.getPullCollection(operation.tableName as OutboxTable);
+    if (operation.operation !== 'create' && collection) {
+      const cursors = parsePullCursors(await AsyncStorage.getItem(PULL_CURSORS_KEY));
+      await AsyncStorage.setItem(PULL_CURSORS_KEY, JSON.stringify(resetCollection(cursors, collection)));
+    }
+    await this.refreshStatus();
+  }
+
+  /**
+   * The paged collection a table's server copy arrives with. Milestones and steps come nested in
+   * goals; routines, saved filters and task dependencies are pulled whole on every sync.
+   */
+  private getPullCollection(tableName: OutboxTable): PullCollection | null {
+    switch (tableName) {
+      case 'goals':
+      case 'milestones':
+      case 'milestone_steps':
+        return 'goals';
+      case 'routines':
+      case 'routine_completions':
+      case 'saved_filters':
+      case 'task_dependencies':
+        return null;
+      default:
+        return tableName;
+    }
+  }
+
+  /**
+   * Pushes a routine create, update or delete.
+   */
+  private async pushRoutine(routine: Routine, idempotencyKey: string, database: Database): Promise<{ recordId: string; error: any }[]> {
+    try {
+      const routineData = {
+        title: routine.title,
+        description: routine.description,
+        target_count: routine.targetCount,
+        time_window: routine.timeWindow,
+        icon: routine.icon,
+        color: routine.color,
+        reminder_enabled: routine.reminderEnabled,
+        reminder_time: routine.reminderTime,
+        timezone: routine.timezone,
+      };
+
+      switch (routine.status) {
+        case 'pending_create':
+        case 'sync_failed_create': {
+          const created = await routineService.createRoutine({ ...routineData, frequency_type: routine.frequencyType }, { idempotencyKey });
+          if (created?.id && created.id !== routine.id) {
+            // Re-creates the routine under the server ID and re-points its completions
+            await routineRepository.updateRoutineServerId(routine.id, created.id);
+          } else {
+            await database.write(async () => {
+              await routine.update(r => {
+                r.status = 'synced';
+              });
+            });
+          }
+          break;
+        }
+        case 'pending_update':
+        case 'sync_failed_update':
+          await routineService.updateRoutine(routine.id, routineData);
+          await database.write(async () => {
+            await routine.update(r => {
+              r.status = 'synced';
+            });
+          });
+          break;
+        case 'pending_delete':
+        case 'sync_failed_delete':
+          if (this.isUUID(routine.id)) {
+            try {
+              await routineService.deleteRoutine(routine.id);
+            } catch (deleteError: any) {
+              // Already gone on the server: treat as success
+              if (deleteError?.message !== 'Routine not found') {
+                throw deleteError;
+              }
+            }
+          }
+          await database.write(async () => {
+            const completions = await database.get<RoutineCompletion>('routine_completions')
+              .query(Q.where('routine_id', routine.id))
+              .fetch();
+            for (const completion of completions) {
+              await completion.destroyPermanently();
+            }
+            await routine.destroyPermanently();
+          });
+          break;
+        default:
+          console.warn(`Push: Unknown status ${routine.status} for routine ${routine.id}`);
+      }
+    } catch (error: any) {
+      console.error(`Push: Failed to sync routine ${routine.id}. Status: ${routine.status}`, JSON.stringify(error, null, 2));
+      return [{ recordId: routine.id, error }];
+    }
+    return [];
+  }
+
+  /**
+   * Pushes a saved filter create, update or delete.
+   */
+  private async pushSavedFilter(filter: SavedFilter, idempotencyKey: string, database: Database): Promise<{ recordId: string; error: any }[]> {
+    try {
+      const filterData = {
+        name: filter.name,
+        filter_options: JSON.parse(filter.filterOptionsJson || '{}'),
+        position: filter.position,
+      };
+
+      switch (filter.status) {
+        case 'pending_create':
+        case 'sync_failed_create': {
+          const created = await savedFilterService.createSavedFilter(filterData, { idempotencyKey });
+          if (created?.id && created.id !== filter.id) {
+            await savedFilterRepository.updateSavedFilterServerId(filter.id, created.id);
+          } else {
+            await database.write(async () => {
+              await filter.update(f => {
+                f.status = 'synced';
+              });
+            });
+          }
+          break;
+        }
+        case 'pending_update':
+        case 'sync_failed_update':
+          await savedFilterService.updateSavedFilter(filter.id, filterData);
+          await database.write(async () => {
+            await filter.update(f => {
+              f.status = 'synced';
+            });
+          });
+          break;
+        case 'pending_delete':
+        case 'sync_failed_delete':
+          if (this.isUUID(filter.id)) {
+            try {
+              await savedFilterService.deleteSavedFilter(filter.id);
+            } catch (deleteError: any) {
+              // Already gone on the server: treat as success
+              if (deleteError?.message !== 'Saved filter not found') {
+                throw deleteError;
+              }
+            }
+          }
+          await database.write(async () => {
+            await filter.destroyPermanently();
+          });
+          break;
+        default:
+          console.warn(`Push: Unknown status ${filter.status} for saved filter ${filter.id}`);
+      }
+    } catch (error: any) {
+      console.error(`Push: Failed to sync saved filter ${filter.id}. Status: ${filter.status}`, JSON.stringify(error, null, 2));
+      return [{ recordId: filter.id, error }];
+    }
+    return [];
+  }
+
+  /**
+   * Pushes a task dependency create or delete. Links are never updated.
+   */
+  private async pushTaskDependency(
+    dependency: TaskDependency,
+    idempotencyKey: string,
+    database: Database
+  ): Promise<{ recordId: string; error: any }[]> {
+    try {
+      switch (dependency.status) {
+        case 'pending_create':
+        case 'sync_failed_create': {
+          // Both tasks are pushed first, and their creates move the link to their server IDs
+          const created = await taskDependencyService.createTaskDependency({
+            task_id: this.requireServerId(dependency.taskId, 'task'),
+            depends_on_task_id: this.requireServerId(dependency.dependsOnTaskId, 'task'),
+          }, { idempotencyKey });
+          if (created?.id && created.id !== dependency.id) {
+            await taskDependencyRepository.updateDependencyServerId(dependency.id, created.id);
+          } else {
+            await database.write(async () => {
+              await dependency.update(d => {
+                d.status = 'synced';
+              });
+            });
+          }
+          break;
+        }
+        case 'pending_delete':
+        case 'sync_failed_delete':
+          if (this.isUUID(dependency.id)) {
+            try {
+              await taskDependencyService.deleteTaskDependency(dependency.id);
+            } catch (deleteError: any) {
+              // Already gone on the server (e.g. with one of its tasks): treat as success
+              if (deleteError?.message !== 'Task dependency not found') {
+                throw deleteError;
+              }
+            }
+          }
+          await database.write(async () => {
+            await dependency.destroyPermanently();
+          });
+          break;
+        default:
+          console.warn(`Push: Unknown status ${dependency.status} for task dependency ${dependency.id}`);
+      }
+    } catch (error: any) {
+      console.error(`Push: Failed to sync task dependency ${dependency.id}. Status: ${dependency.status}`, JSON.stringify(error, null, 2));
+      return [{ recordId: dependency.id, error }];
+    }
+    return [];
+  }
+
+  /**
+   * Pushes a checklist item create, update or delete.
+   */
+  private async pushChecklistItem(item: TaskChecklistItem, idempotencyKey: string, database: Database): Promise<{ recordId: string; error: any }[]> {
+    try {
+      const itemData = {
+        text: item.text,
+        is_completed: item.isCompleted,
+        position: item.position,
+      };
+
+      switch (item.status) {
+        case 'pending_create':
+        case 'sync_failed_create': {
+          // The task's create is pushed first and moves the item to the task's server ID
+          const created = await taskChecklistService.createChecklistItem(
+            { ...itemData, task_id: this.requireServerId(item.taskId, 'task') },
+            { idempotencyKey }
+          );
+          if (created?.id && created.id !== item.id) {
+            await taskChecklistRepository.updateItemServerId(item.id, created.id);
+          } else {
+            await database.write(async () => {
+              await item.update(i => {
+                i.status = 'synced';
+              });
+            });
+          }
+          break;
+        }
+        case 'pending_update':
+        case 'sync_failed_update':
+          await taskChecklistService.updateChecklistItem(item.id, itemData);
+          await database.write(async () => {
+            await item.update(i => {
+              i.status = 'synced';
+            });
+          });
+          break;
+        case 'pending_delete':
+        case 'sync_failed_delete':
+          if (this.isUUID(item.id)) {
+            try {
+              await taskChecklistService.deleteChecklistItem(item.id);
+            } catch (deleteError: any) {
+              // Already gone on the server: treat as success
+              if (deleteError?.message !== 'Checklist item not found') {
+                throw deleteError;
+              }
+            }
+          }
+          await database.write(async () => {
+            await item.destroyPermanently();
+          });
+          break;
+        default:
+          console.warn(`Push: Unknown status ${item.status} for checklist item ${item.id}`);
+      }
+    } catch (error: any) {
+      console.error(`Push: Failed to sync checklist item ${item.id}. Status: ${item.status}`, JSON.stringify(error, null, 2));
+      return [{ recordId: item.id, error }];
+    }
+    return [];
+  }
+
+  /**
+   * Pushes a reflection create, update or delete. The server keeps one reflection per day, so a
+   * create for a day that already has one updates it and returns its ID.
+   */
+  private async pushDailyReflection(
+    reflection: DailyReflection,
+    idempotencyKey: string,
+    database: Database
+  ): Promise<{ recordId: string; error: any }[]> {
+    try {
+      const reflectionData = {
+        mood: reflection.mood,
+        energy: reflection.energy,
+        note: reflection.note ?? null,
+        completed_count: reflection.completedCount,
+        rolled_over_count: reflection.rolledOverCount,
+        dropped_count: reflection.droppedCount,
+      };
+
+      switch (reflection.status) {
+        case 'pending_create':
+        case 'sync_failed_create': {
+          const created = await dailyReflectionService.createReflection(
+            { ...reflectionData, reflection_date: reflection.reflectionDate },
+            { idempotencyKey }
+          );
+          if (created?.id && created.id !== reflection.id) {
+            await dailyReflectionRepository.updateReflectionServerId(reflection.id, created.id);
+          } else {
+            await database.write(async () => {
+              await reflection.update(r => {
+                r.status = 'synced';
+              });
+            });
+          }
+          break;
+        }
+        case 'pending_update':
+        case 'sync_failed_update':
+          await dailyReflectionService.updateReflection(reflection.id, reflectionData);
+          await database.write(async () => {
+            await reflection.update(r => {
+              r.status = 'synced';
+            });
+          });
+          break;
+        case 'pending_delete':
+        case 'sync_failed_delete':
+          if (this.isUUID(reflection.id)) {
+            try {
+              await dailyReflectionService.deleteReflection(reflection.id);
+            } catch (deleteError: any) {
+              // Already gone on the server: treat as success
+              if (deleteError?.message !== 'Reflection not found') {
+                throw deleteError;
+              }
+            }
+          }
+          await database.write(async () => {
+            await reflection.destroyPermanently();
+          });
+          break;
+        default:
+          console.warn(`Push: Unknown status ${reflection.status} for reflection ${reflection.id}`);
+      }
+    } catch (error: any) {
+      console.error(`Push: Failed to sync reflection ${reflection.id}. Status: ${reflection.status}`, JSON.stringify(error, null, 2));
+      return [{ recordId: reflection.id, error }];
+    }
+    return [];
+  }
+
+  /**
+   * Replays the pending completions of a routine in order: removals first (latest first, via /undo),
+   * then new completions (oldest first, via /complete). Completions wait until their routine exists
+   * on the server.
+   */
+  private async pushRoutineCompletions(routineId: string, database: Database): Promise<{ recordId: string; error: any }[]> {
+    const pushErrors: { recordId: string; error: any }[] = [];
+    const completions = await database.get<RoutineCompletion>('routine_completions').query(
+      Q.where('routine_id', routineId),
+      Q.where('status', Q.notEq('synced'))
+    ).fetch();
+    if (completions.length === 0) {
+      return pushErrors;
+    }
+
+    let routine: Routine | null = null;
+    try {
+      routine = await database.get<Routine>('routines').find(routineId);
+    } catch {
+      console.warn(`Push: Routine ${routineId} not found for pending completions`);
+    }
+    if (!routine || !['synced', 'pending_update', 'sync_failed_update'].includes(routine.status)) {
+      return pushErrors;
+    }
+
+    const isRemoval = (c: RoutineCompletion) => c.status === 'pending_delete' || c.status === 'sync_failed_delete';
+    const removals = completions.filter(isRemoval)
+      .sort((a, b) => b.completedAt.getTime() - a.completedAt.getTime() || b.occurrenceIndex - a.occurrenceIndex);
+    const additions = completions.filter(c => !isRemoval(c))
+      .sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime() || a.occurrenceIndex - b.occurrenceIndex);
+
+    let serverRoutine: RoutinePayload | null = null;
+    let current: RoutineCompletion | null = null;
+    try {
+      for (const completion of removals) {
+        current = completion;
+        try {
+          serverRoutine = await routineService.undoCompletion(routineId);
+        } catch (undoError: any) {
+          // Nothing left to undo on the server: the removal already happened there
+          if (undoError?.message !== 'No completions to undo') {
+            throw undoError;
+          }
+        }
+        await database.write(async () => {
+          await completion.destroyPermanently();
+        });
+        await this.yieldToEventLoop();
       }
 
-      // Handle threads response - convert to change format
-      const changedThreads = Array.isArray(threadsResponse) ? threadsResponse : [];
-
-      // Skip fetching thread messages during sync for performance
-      // Messages are loaded on-demand when users open threads (AIChatScreen)
-      // This significantly speeds up sync operations, especially during workflows like brain dump
-      // Thread metadata (title, summary, etc.) is still synced above
-      const changedMessages: any[] = [];
-      // Note: Messages will be fetched on-demand when user opens a thread, not during sync
-
-      const allChanges = [
-        ...changedEvents,
-        ...changedTasks,
-        ...changedGoals,
-        ...changedMilestones,
-        ...changedMilestoneSteps,
-        ...changedThreads,
-        ...changedMessages,
-      ];
-      const allDeletedIds = [
-        ...(deletedEventIds || []),
-        ...deletedTaskIds,
-        ...deletedGoalIds,
-        ...deletedMilestoneIds,
-        ...deletedMilestoneStepIds,
-      ];
-
-      if (allChanges.length === 0 && allDeletedIds.length === 0) {
-        await AsyncStorage.setItem(LAST_SYNCED_AT_KEY, serverTimeBeforePull);
-        return;
+      for (const completion of additions) {
+        current = completion;
+        const idempotencyKey = await outboxRepository.getIdempotencyKey('routine_completions', completion.id);
+        const result = await routineService.logCompletion(
+          routineId,
+          completion.notes,
+          completion.completedAt.toISOString(),
+          { idempotencyKey }
+        );
+        serverRoutine = result.routine;
+        await database.write(async () => {
+          await completion.update(c => {
+            c.status = 'synced';
+          });
+        });
+        await this.yieldToEventLoop();
       }
+    } catch (error: any) {
+      // Later completions depend on this one, so they wait for the next sync
+      console.error(`Push: Failed to sync completion ${current?.id} for routine ${routineId}`, JSON.stringify(error, null, 2));
+      pushErrors.push({ recordId: current?.id || routineId, error });
+    }
 
-      console.log(`Pull: Processing ${allChanges.length} changed records and ${allDeletedIds.length} deleted records`);
-
-      // Separate goals from other records to process them first
-      const goalRecords = allChanges.filter(changeData =>
-        changeData.target_completion_date !== undefined || changeData.progress_percentage !== undefined
-      );
-      const otherRecords = allChanges.filter(changeData =>
-        !(changeData.target_completion_date !== undefined || changeData.progress_percentage !== undefined)
-      );
-
-      console.log(`Pull: Found ${goalRecords.length} goals and ${otherRecords.length} other records`);
-
+    // The server's streak is authoritative once completions are pushed
+    if (serverRoutine) {
+      const latest = serverRoutine;
       await database.write(async () => {
-        // Process deletions first
-        if (allDeletedIds.length > 0) {
-          // Process event deletions
-          if (deletedEventIds && deletedEventIds.length > 0) {
-            const eventCollection = database.get<CalendarEvent>('calendar_events');
-            const recordsToDelete = await eventCollection.query(Q.where('id', Q.oneOf(deletedEventIds))).fetch();
-            for (const record of recordsToDelete) {
-              await record.destroyPermanently();
-            }
-          }
+        await (routine as Routine).update(r => this.applyServerRoutineFields(r, latest));
+      });
+    }
 
-          // Process task deletions
-          if (deletedTaskIds && deletedTaskIds.length > 0) {
-            const taskCollection = database.get<Task>('tasks');
-            const recordsToDelete = await taskCollection.query(Q.where('id', Q.oneOf(deletedTaskIds))).fetch();
-            for (const record of recordsToDelete) {
-              await record.destroyPermanently();
-            }
-          }
+    return pushErrors;
+  }
 
-          // Process goal deletions
-          if (deletedGoalIds && deletedGoalIds.length > 0) {
-            const goalCollection = database.get<Goal>('goals');
-            const recordsToDelete = await goalCollection.query(Q.where('id', Q.oneOf(deletedGoalIds))).fetch();
-            for (const record of recordsToDelete) {
-              await record.destroyPermanently();
-            }
-          }
+  /**
+   * Copies a server routine (GET /routines shape) onto a local record.
+   */
+  private applyServerRoutineFields(record: Routine, routineData: RoutinePayload) {
+    record.title = routineData.title;
+    record.description = routineData.description ?? undefined;
+    record.frequencyType = routineData.frequency_type;
+    record.targetCount = routineData.target_count;
+    record.timeWindow = routineData.time_window;
+    record.icon = routineData.icon;
+    record.color = routineData.color;
+    record.isActive = routineData.is_active;
+    record.reminderEnabled = routineData.reminder_enabled;
+    record.reminderTime = routineData.reminder_time ?? undefined;
+    record.timezone = routineData.timezone;
+    record.currentStreak = routineData.current_streak ?? 0;
+    record.longestStreak = routineData.longest_streak ?? 0;
+    record.totalCompletions = routineData.total_completions ?? 0;
+    record.gracePeriodsRemaining = routineData.grace_periods_remaining ?? 0;
+    record.gracePeriodUsedAt = routineData.grace_period_used_at ?? undefined;
+    record.lastCompletedAt = safeParseDate(routineData.last_completed_at);
+    record.lastStreakIncrementPeriod = routineData.last_streak_increment_period ?? undefined;
+    record.status = 'synced';
+
+    const parsedUpdatedAt = safeParseDate(routineData.updated_at);
+    record.updatedAt = parsedUpdatedAt || record.updatedAt || new Date();
+  }
 
-          // Process milestone deletions
-          if (deletedMilestoneIds && deletedMilestoneIds.length > 0) {
-            const milestoneCollection = database.get<Milestone>('milestones');
-            const recordsToDelete = await milestoneCollection.query(Q.where('id', Q.oneOf(deletedMilestoneIds))).fetch();
-            for (const record of recordsToDelete) {
-              await record.destroyPermanently();
-            }
-          }
+  /**
+   * GET /routines returns the full list of active routines, so local synced routines
+   * missing from it were deleted elsewhere. Routines with unpushed local changes
+   * (including completions) keep their local state until the push succeeds.
+   * Must be called inside database.write().
+   */
+  private async processRoutineChanges(serverRoutines: RoutinePayload[], database: Database): Promise<number> {
+    const userId = authService.getCurrentUser()?.id;
+    if (!userId) {
+      console.warn('Pull: No user ID available, skipping routines');
+      return 0;
+    }
 
-          // Process milestone step deletions
-          if (deletedMilestoneStepIds && deletedMilestoneStepIds.length > 0) {
-            const stepCollection = database.get<MilestoneStep>('milestone_steps');
-            const recordsToDelete = await stepCollection.query(Q.where('id', Q.oneOf(deletedMilestoneStepIds))).fetch();
-            for (const record of recordsToDelete) {
-              await record.destroyPermanently();
-            }
-          }
+    const routineCollection = database.get<Routine>('routines');
+    const completionCollection = database.get<RoutineCompletion>('routine_completions');
+    const localRoutines = await routineCollection.query(Q.where('user_id', userId)).fetch();
+    const unsyncedCompletions = await completionCollection.query(Q.where('status', Q.notEq('synced'))).fetch();
+    const routinesWithLocalChanges = new Set(unsyncedCompletions.map(c => c.routineId));
+    const serverIds = new Set(serverRoutines.map(r => r.id));
+    let processed = 0;
 
-          // Note: Thread deletions are handled via is_active flag, not hard deletes
-          // Messages are cascade deleted when threads are deleted
+    for (const routineData of serverRoutines) {
+      try {
+        const local = localRoutines.find(r => r.id === routineData.id);
+        if (local && (local.status !== 'synced' || routinesWithLocalChanges.has(local.id))) {
+          continue;
         }
 
-        // Process changed records - process goals FIRST to ensure they're created
-        let goalsProcessed = 0;
-        let tasksProcessed = 0;
-        let eventsProcessed = 0;
-        let milestonesProcessed = 0;
-        let stepsProcessed = 0;
-        let threadsProcessed = 0;
-        let messagesProcessed = 0;
-        let unknownProcessed = 0;
-
-        // Process goals first
-        console.log(`Pull: Processing ${goalRecords.length} goals first...`);
-        for (const changeData of goalRecords) {
-          try {
-            console.log(`Pull: Processing goal ${changeData.id}: ${changeData.title}`);
-            await this.processGoalChange(changeData, database);
-            goalsProcessed++;
-          } catch (recordError) {
-            console.error(`Pull: Failed to process goal ${changeData.id}:`, recordError);
-          }
+        let record: Routine;
+        if (local) {
+          await local.update(r => this.applyServerRoutineFields(r, routineData));
+          record = local;
+        } else {
+          record = await routineCollection.create(r => {
+            r._raw.id = routineData.id;
+            r.userId = routineData.user_id || userId;
+            this.applyServerRoutineFields(r, routineData);
+            r.createdAt = safeParseDate(routineData.created_at) || new Date();
+          });
         }
-        console.log(`Pull: Completed processing ${goalsProcessed} goals`);
 
-        // Then process other records
-        console.log(`Pull: Processing ${otherRecords.length} other records...`);
-        for (const changeData of otherRecords) {
-          try {
-            // Determine record type based on the data structure
-            if (changeData.start?.dateTime || changeData.start_time) {
-              // This is a calendar event
-              await this.processEventChange(changeData, database);
-              eventsProcessed++;
-            } else if (changeData.priority !== undefined || changeData.estimated_duration_minutes !== undefined) {
-              // This is a task
-              await this.processTaskChange(changeData, database);
-              tasksProcessed++;
-            } else if (changeData.target_completion_date !== undefined || changeData.progress_percentage !== undefined) {
-              // This is a goal - should have been processed already, skip
-              console.warn(`Pull: Goal ${changeData.id} found in other records loop (should have been processed already)`);
-              goalsProcessed++;
-            } else if (changeData.goal_id !== undefined && changeData.title !== undefined) {
-              // This is a milestone
-              await this.processMilestoneChange(changeData, database);
-              milestonesProcessed++;
-            } else if (changeData.milestone_id !== undefined && changeData.text !== undefined) {
-              // This is a milestone step
-              await this.processMilestoneStepChange(changeData, database);
-              stepsProcessed++;
-            } else if (changeData.thread_id !== undefined && changeData.role !== undefined) {
-              // This is a conversation message
-              await this.processMessageChange(changeData, database);
-              messagesProcessed++;
-            } else if (changeData.title !== undefined && (changeData.is_active !== undefined || changeData.is_pinned !== undefined)) {
-              // This is a conversation thread (has title and thread-specific fields)
-              await this.processThreadChange(changeData, database);
-              threadsProcessed++;
-            } else {
-              console.warn(`Pull: Unknown record type for change data:`, changeData);
-              unknownProcessed++;
-            }
-          } catch (recordError) {
-            // Log error but continue processing other records
-            console.error(`Pull: Failed to process record:`, changeData, recordError);
-            // Don't re-throw - continue with next record to avoid failing entire sync
-          }
+        await this.reconcileRoutinePeriod(record, routineData, database);
+        processed++;
+      } catch (recordError) {
+        console.error(`Pull: Failed to process routine ${routineData.id}:`, recordError);
+      }
+    }
+
+    for (const local of localRoutines) {
+      if (local.status === 'synced' && !serverIds.has(local.id) && !routinesWithLocalChanges.has(local.id)) {
+        const completions = await completionCollection.query(Q.where('routine_id', local.id)).fetch();
+        for (const completion of completions) {
+          await completion.destroyPermanently();
         }
+        await local.destroyPermanently();
+      }
+    }
 
-        console.log(`Pull: Processed ${goalsProcessed} goals, ${tasksProcessed} tasks, ${eventsProcessed} events, ${milestonesProcessed} milestones, ${stepsProcessed} steps, ${threadsProcessed} threads, ${messagesProcessed} messages, ${unknownProcessed} unknown`);
-      });
+    return processed;
+  }
 
-      // After a successful pull, save the server's timestamp
-      await AsyncStorage.setItem(LAST_SYNCED_AT_KEY, serverTimeBeforePull);
+  /**
+   * GET /saved-filters returns the user's full list, so local synced filters missing from it
+   * were deleted elsewhere. Filters with unpushed local changes keep their local state.
+   * Must be called inside database.write().
+   */
+  private async processSavedFilterChanges(serverFilters: SavedFilterRecord[], database: Database): Promise<number> {
+    const userId = authService.getCurrentUser()?.id;
+    if (!userId) {
+      console.warn('Pull: No user ID available, skipping saved filters');
+      return 0;
+    }
 
-    } catch (error: any) {
-      let userMessage = 'An unknown error occurred while syncing.';
-      let shouldRetry = false;
+    const collection = database.get<SavedFilter>('saved_filters');
+    const localFilters = await collection.query(Q.where('user_id', userId)).fetch();
+    const serverIds = new Set(serverFilters.map(f => f.id));
+    let processed = 0;
+
+    const applyServerFields = (record: SavedFilter, filterData: SavedFilterRecord) => {
+      record.name = filterData.name;
+      record.filterOptionsJson = JSON.stringify(filterData.filter_options ?? {});
+      record.position = filterData.position ?? 0;
+      record.status = 'synced';
+      record.updatedAt = safeParseDate(filterData.updated_at) || record.updatedAt || new Date();
+    };
 
-      if (error?.response?.status) {
-        const status = error.response.status;
-        if (status === 401 || status === 403) {
-          userMessage = 'Authentication failed. Please log in again to sync your data.';
-          shouldRetry = false;
-        } else if (status >= 500) {
-          userMessage = 'There was a problem with the server. Please try again later.';
-          shouldRetry = true;
-        } else { // Other 4xx errors e.g. data/validation
-          userMessage = 'A data validation error occurred. Please check your inputs.';
-          shouldRetry = false;
+    for (const filterData of serverFilters) {
+      try {
+        const local = localFilters.find(f => f.id === filterData.id);
+        if (local && local.status !== 'synced') {
+          continue;
         }
-      } else if (error.message && (error.message.toLowerCase().includes('network') || error.message.toLowerCase().includes('timeout'))) {
-        userMessage = 'A network error occurred. Please check your connection and try again.';
-        shouldRetry = true;
-      } else if (error instanceof Error) {
-        userMessage = `An unexpected error occurred: ${error.message}`;
-      }
-
-      console.error('Pull: Failed to fetch or process changes from server.', {
-        errorMessage: error.message,
-        statusCode: error?.response?.status,
-        responseData: error?.response?.data,
-        shouldRetry,
-        originalError: error,
-      });
 
-      notificationService.showInAppNotification('Data Pull Failed', userMessage);
+        if (local) {
+          await local.update(f => applyServerFields(f, filterData));
+        } else {
+          await collection.create(f => {
+            f._raw.id = filterData.id;
+            f.userId = filterData.user_id || userId;
+            applyServerFields(f, filterData);
+            f.createdAt = safeParseDate(filterData.created_at) || new Date();
+          });
+        }
+        processed++;
+      } catch (recordError) {
+        console.error(`Pull: Failed to process saved filter ${filterData.id}:`, recordError);
+      }
+    }
 
-      // Re-throw the original error so the main sync logic can handle it
-      throw error;
+    for (const local of localFilters) {
+      if (local.status === 'synced' && !serverIds.has(local.id)) {
+        await local.destroyPermanently();
+      }
     }
+
+    return processed;
   }
 
-  async sync(silent = false) {
-    const user = authService.getCurrentUser();
-    if (!user) {
-      return;
+  /**
+   * GET /task-dependencies returns the user's full list, so local synced links missing from it
+   * were deleted elsewhere (or with one of their tasks). Unpushed local links are kept.
+   * Must be called inside database.write().
+   */
+  private async processTaskDependencyChanges(serverDependencies: TaskDependencyRecord[], database: Database): Promise<number> {
+    const userId = authService.getCurrentUser()?.id;
+    if (!userId) {
+      console.warn('Pull: No user ID available, skipping task dependencies');
+      return 0;
     }
 
-    if (this.isSyncing) {
+    const collection = database.get<TaskDependency>('task_dependencies');
+    const localDependencies = await collection.query(Q.where('user_id', userId)).fetch();
+    const localIds = new Set(localDependencies.map(d => d.id));
+    const serverIds = new Set(serverDependencies.map(d => d.id));
+    let processed = 0;
 
-      return;
+    for (const dependencyData of serverDependencies) {
+      if (localIds.has(dependencyData.id)) {
+        continue;
+      }
+      try {
+        await collection.create(d => {
+          d._raw.id = dependencyData.id;
+          d.userId = dependencyData.user_id || userId;
+          d.taskId = dependencyData.task_id;
+          d.dependsOnTaskId = dependencyData.depends_on_task_id;
+          d.status = 'synced';
+          d.createdAt = safeParseDate(dependencyData.created_at) || new Date();
+          d.updatedAt = safeParseDate(dependencyData.updated_at) || new Date();
+        });
+        processed++;
+      } catch (recordError) {
+        console.error(`Pull: Failed to process task dependency ${dependencyData.id}:`, recordError);
+      }
     }
 
-    this.isSyncing = true;
-    try {
-
-      await this.pushData();
-      await this.pullData();
-    } catch (error) {
-      console.error('Sync failed:', error);
-      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
-      if (!silent) {
-        notificationService.showInAppNotification('Sync Failed', `Could not sync data: ${errorMessage}`);
+    for (const local of localDependencies) {
+      if (local.status === 'synced' && !serverIds.has(local.id)) {
+        await local.destroyPermanently();
       }
-    } finally {
-      this.isSyncing = false;
     }
-  }
 
-  async silentSync() {
-    return this.sync(true);
+    return processed;
   }
 
-  // Convenience alias expected by some screens
-  async fullSync() {
-    await this.pushData();
-    await this.pullData();
+  /**
+   * Prepares a server checklist item change. Items with unpushed local changes keep their local state.
+   * The caller commits the returned records with database.batch().
+   */
+  private async processChecklistItemChange(itemData: TaskChecklistItemRecord, database: Database): Promise<Model[]> {
+    const collection = database.get<TaskChecklistItem>('task_checklist_items');
+    const [local] = await collection.query(Q.where('id', itemData.id)).fetch();
+    if (local && local.status !== 'synced') {
+      return [];
+    }
+
+    const applyServerFields = (record: TaskChecklistItem) => {
+      record.taskId = itemData.task_id;
+      record.text = itemData.text;
+      record.isCompleted = !!itemData.is_completed;
+      record.position = itemData.position ?? 0;
+      record.status = 'synced';
+      record.updatedAt = safeParseDate(itemData.updated_at) || record.updatedAt || new Date();
+    };
+
+    if (local) {
+      return [local.prepareUpdate(applyServerFields)];
+    }
+    return [collection.prepareCreate(i => {
+      i._raw.id = itemData.id;
+      i.userId = itemData.user_id;
+      applyServerFields(i);
+      i.createdAt = safeParseDate(itemData.created_at) || new Date();
+    })];
   }
 
-  // Debug helper to inspect current DB state safely
-  async debugDatabaseContents() {
-    const database = getDatabase();
-    const events = await database.get<CalendarEvent>('calendar_events').query().fetch();
-    const tasks = await database.get<Task>('tasks').query().fetch();
-    const goals = await database.get<Goal>('goals').query().fetch();
-    const milestones = await database.get<Milestone>('milestones').query().fetch();
-    const steps = await database.get<MilestoneStep>('milestone_steps').query().fetch();
+  /**
+   * Prepares a server reflection change. A day with an unpushed local reflection keeps it; the
+   * push then updates the server's copy for that day.
+   * The caller commits the returned records with database.batch().
+   */
+  private async processDailyReflectionChange(reflectionData: DailyReflectionRecord, database: Database): Promise<Model[]> {
+    const collection = database.get<DailyReflection>('daily_reflections');
+    const unsyncedForDay = await collection.query(
+      Q.where('user_id', reflectionData.user_id),
+      Q.where('reflection_date', reflectionData.reflection_date),
+      Q.where('status', Q.notEq('synced'))
+    ).fetchCount();
+    if (unsyncedForDay > 0) {
+      return [];
+    }
 
-    return { events, tasks, goals, milestones, steps };
+    const applyServerFields = (record: DailyReflection) => {
+      record.reflectionDate = reflectionData.reflection_date;
+      record.mood = reflectionData.mood;
+      record.energy = reflectionData.energy;
+      record.note = reflectionData.note ?? null;
+      record.completedCount = reflectionData.completed_count ?? 0;
+      record.rolledOverCount = reflectionData.rolled_over_count ?? 0;
+      record.droppedCount = reflectionData.dropped_count ?? 0;
+      record.status = 'synced';
+      record.updatedAt = safeParseDate(reflectionData.updated_at) || record.updatedAt || new Date();
+    };
+
+    const [local] = await collection.query(Q.where('id', reflectionData.id)).fetch();
+    if (local) {
+      return [local.prepareUpdate(applyServerFields)];
+    }
+    return [collection.prepareCreate(r => {
+      r._raw.id = reflectionData.id;
+      r.userId = reflectionData.user_id;
+      applyServerFields(r);
+      r.createdAt = safeParseDate(reflectionData.created_at) || new Date();
+    })];
   }
 
-  // Force a full pull from the server by clearing the incremental cursor
-  async forceFullPull() {
-    await AsyncStorage.removeItem(LAST_SYNCED_AT_KEY);
-    await this.pullData();
+  /**
+   * The server reports a completion count for the current period rather than the completions
+   * themselves. Keep the synced local completions for that period at the same count so
+   * period_status, undo and reset work offline.
+   * Must be called inside database.write().
+   */
+  private async reconcileRoutinePeriod(routine: Routine, routineData: RoutinePayload, database: Database) {
+    const periodStatus = routineData.period_status;
+    const { start, periodDate } = getPeriodBounds(routine.frequencyType, new Date(), routine.timezone);
+    // A different period_date means the period rolled over between the server response and now; leave local data alone
+    if (!periodStatus || periodStatus.period_date !== periodDate) {
+      return;
+    }
+
+    const completionCollection = database.get<RoutineCompletion>('routine_completions');
+    const localCompletions = (await completionCollection.query(
+      Q.where('routine_id', routine.id),
+      Q.where('period_date', periodDate)
+    ).fetch()).sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime() || a.occurrenceIndex - b.occurrenceIndex);
+    const serverCount = periodStatus.completions_count || 0;
+
+    for (const extra of localCompletions.slice(serverCount)) {
+      await extra.destroyPermanently();
+    }
+
+    const lastCompletedAt = safeParseDate(routineData.last_completed_at);
+    const completedAt = lastCompletedAt && lastCompletedAt >= start ? lastCompletedAt : start;
+    for (let index = localCompletions.length; index < serverCount; index++) {
+      await completionCollection.create(c => {
+        c.routineId = routine.id;
+        c.userId = routine.userId;
+        c.completedAt = completedAt;
+        c.periodDate = periodDate;
+        c.occurrenceIndex = index + 1;
+        c.status = 'synced';
+        c.createdAt = new Date();
+        c.updatedAt = new Date();
+      });
+    }
   }
 
-  private async processEventChange(eventData: any, database: Database) {
+  /**
+   * Prepares a server event change. The caller commits the returned records with database.batch().
+   */
+  private async processEventChange(eventData: any, database: Database): Promise<Model[]> {
     const eventCollection = database.get<CalendarEvent>('calendar_events');
     const existingEvents = await eventCollection.query(Q.where('id', eventData.id)).fetch();
     const localEvent = existingEvents.length > 0 ? existingEvents[0] : null;
+    // Only database events carry a zone; start.timeZone is a 'UTC' placeholder on older servers
+    const eventTimeZone = isValidTimeZone(eventData.time_zone) ? eventData.time_zone : undefined;
+
+    // An imported event pushed from this device still has its local ID; it is matched on its .ics UID
+    if (!localEvent && eventData.ics_uid) {
+      const sameUidEvents = await eventCollection.query(Q.where('ics_uid', eventData.ics_uid)).fetch();
+      const importedEvent = sameUidEvents.find(event => event.id !== eventData.id && !event._preparedState);
+      if (importedEvent) {
+        return this.migrateImportedEvent(importedEvent, eventData, eventTimeZone, database);
+      }
+    }
 
     if (localEvent) {
       // Update existing event
@@ -1567,7 +2569,7 @@ class SyncService {
         console.error(`Pull: Failed to parse end time for event ${eventData.id}:`, eventData.end.dateTime);
       }
 
-      await localEvent.update((record: CalendarEvent) => {
+      return [localEvent.prepareUpdate((record: CalendarEvent) => {
         record.title = eventData.summary;
         record.description = eventData.description;
         if (parsedStartTime) {
@@ -1578,8 +2580,14 @@ class SyncService {
         }
         record.location = eventData.location;
         record.isAllDay = eventData.is_all_day;
+        if (eventTimeZone) {
+          record.timeZone = eventTimeZone;
+        }
+        if (eventData.ics_uid) {
+          record.icsUid = eventData.ics_uid;
+        }
         record.status = 'synced';
-      });
+      })];
     } else {
       // Create new event
       if (eventData.start?.dateTime && eventData.end?.dateTime) {
@@ -1594,10 +2602,10 @@ class SyncService {
             parsedEndTime: parsedEndTime?.toISOString() || 'FAILED'
           });
           console.warn(`Pull: Skipping event creation for ID ${eventData.id} due to invalid date parsing.`);
-          return;
+          return [];
         }
 
-        await eventCollection.create((record: CalendarEvent) => {
+        return [eventCollection.prepareCreate((record: CalendarEvent) => {
           record._raw.id = eventData.id;
           record.title = eventData.summary;
           record.description = eventData.description;
@@ -1605,71 +2613,61 @@ class SyncService {
           record.endTime = parsedEndTime;
           record.location = eventData.location;
           record.isAllDay = eventData.is_all_day;
+          record.timeZone = eventTimeZone;
+          record.icsUid = eventData.ics_uid || undefined;
           record.userId = eventData.user_id;
           record.status = 'synced';
-        });
+        })];
       } else {
         console.warn(`Pull: Skipping event creation for ID ${eventData.id} due to missing start or end dateTime.`);
+        return [];
       }
     }
   }
 
   /**
-   * Extracts lifecycle and sync status information from a status string.
-   * Handles direct lifecycle status, combined formats (pending_update:completed), and pure sync statuses.
-   * @param status - The status string to extract information from
-   * @returns An object containing lifecycleStatus and syncStatus values
+   * Moves an imported event to its server ID. Server data replaces a synced event; an event with
+   * local changes keeps them and stays queued, so its push goes to the server row.
    */
-  private extractLifecycleStatus(status: string | undefined | null): {
-    lifecycleStatus: 'not_started' | 'in_progress' | 'completed';
-    syncStatus: string | undefined;
-  } {
-    const lifecycleStatuses: Array<'not_started' | 'in_progress' | 'completed'> = ['not_started', 'in_progress', 'completed'];
-    const syncStatuses = ['pending_create', 'pending_update', 'pending_delete', 'synced', 'sync_failed'];
-    const defaultLifecycleStatus: 'not_started' | 'in_progress' | 'completed' = 'not_started';
-    const isLifecycleStatus = (value: string): value is 'not_started' | 'in_progress' | 'completed' =>
-      (lifecycleStatuses as string[]).includes(value);
-
-    if (!status) {
-      return {
-        lifecycleStatus: defaultLifecycleStatus,
-        syncStatus: undefined,
-      };
-    }
-
-    const statusStr = String(status);
-
-    if (statusStr.includes(':')) {
-      const [syncPart, lifecyclePart] = statusStr.split(':');
-      if (lifecyclePart && isLifecycleStatus(lifecyclePart) && syncStatuses.includes(syncPart)) {
-        return {
-          lifecycleStatus: lifecyclePart,
-          syncStatus: syncPart,
-        };
-      }
-    }
-
-    if (isLifecycleStatus(statusStr)) {
-      return {
-        lifecycleStatus: statusStr,
-        syncStatus: 'pending_update',
-      };
-    }
+  private async migrateImportedEvent(
+    importedEvent: CalendarEvent,
+    eventData: any,
+    eventTimeZone: string | undefined,
+    database: Database,
+  ): Promise<Model[]> {
+    const parsedStartTime = eventData.start?.dateTime ? safeParseDate(eventData.start.dateTime) : undefined;
+    const parsedEndTime = eventData.end?.dateTime ? safeParseDate(eventData.end.dateTime) : undefined;
+    const useServerData = importedEvent.status === 'synced';
+
+    const migratedEvent = database.get<CalendarEvent>('calendar_events').prepareCreate((record: CalendarEvent) => {
+      record._raw.id = eventData.id;
+      record.icsUid = importedEvent.icsUid;
+      record.userId = eventData.user_id || importedEvent.userId;
+      record.taskId = importedEvent.taskId;
+      record.goalId = importedEvent.goalId;
+      record.googleCalendarId = importedEvent.googleCalendarId;
+      record.title = useServerData ? eventData.summary : importedEvent.title;
+      record.description = useServerData ? eventData.description : importedEvent.description;
+      record.startTime = (useServerData && parsedStartTime) || importedEvent.startTime;
+      record.endTime = (useServerData && parsedEndTime) || importedEvent.endTime;
+      record.location = useServerData ? eventData.location : importedEvent.location;
+      record.isAllDay = useServerData ? eventData.is_all_day : importedEvent.isAllDay;
+      record.timeZone = (useServerData && eventTimeZone) || importedEvent.timeZone;
+      record.status = importedEvent.status;
+      record.createdAt = importedEvent.createdAt;
+      record.updatedAt = importedEvent.updatedAt;
+    });
 
-    if (syncStatuses.includes(statusStr)) {
-      return {
-        lifecycleStatus: defaultLifecycleStatus,
-        syncStatus: statusStr,
-      };
-    }
+    // The queued operation is not part of this page, so it is pointed at the server ID right away
+    await outboxRepository.remapRecordId('calendar_events', importedEvent.id, eventData.id);
 
-    return {
-      lifecycleStatus: defaultLifecycleStatus,
-      syncStatus: statusStr,
-    };
+    return [migratedEvent, importedEvent.prepareDestroyPermanently()];
   }
 
-  private async processTaskChange(taskData: TaskPayload, database: Database) {
+  /**
+   * Prepares a server task change. The caller commits the returned records with database.batch().
+   */
+  private async processTaskChange(taskData: TaskPayload, database: Database): Promise<Model[]> {
     const taskCollection = database.get<Task>('tasks');
 
     // Parse due_date once and validate
@@ -1678,50 +2676,33 @@ class SyncService {
       console.error(`Pull: Failed to parse due_date for task ${taskData.id}:`, taskData.due_date);
     }
 
-    // Determine lifecycle status from server response (preserve if not provided)
-    // Valid lifecycle statuses: 'not_started', 'in_progress', 'completed'
-    // Sync statuses: 'pending_create', 'pending_update', 'pending_delete', 'synced'
-    // Extract lifecycle status from combined format if needed
-    const serverStatusInfo = taskData.status
-      ? this.extractLifecycleStatus(taskData.status)
-      : null;
-    const serverLifecycleStatus = serverStatusInfo?.lifecycleStatus ?? null;
-
     // First, try to find task by exact ID match
     const existingTasks = await taskCollection.query(Q.where('id', taskData.id)).fetch();
-    let localTask = existingTasks.length > 0 ? existingTasks[0] : null;
+    const localTask = existingTasks.length > 0 ? existingTasks[0] : null;
 
-    const localStatusInfo = localTask
-      ? this.extractLifecycleStatus(localTask.status as string)
-      : null;
-    const localLifecycleStatus = localStatusInfo?.lifecycleStatus ?? null;
-
-    // Prefer server status if provided, otherwise preserve local lifecycle status, default to 'not_started'
-    const lifecycleStatus = serverLifecycleStatus !== null
-      ? serverLifecycleStatus
-      : (localLifecycleStatus !== null ? localLifecycleStatus : 'not_started');
+    // Prefer server lifecycle status if provided, otherwise preserve local, default to 'not_started'
+    const lifecycleStatus: TaskLifecycleStatus = isTaskLifecycleStatus(taskData.status)
+      ? taskData.status
+      : (localTask?.lifecycleStatus || 'not_started');
 
     // If no exact ID match, check for potential duplicate by title and content
     // This handles the case where a local task was created and synced, but the ID migration
     // hasn't completed yet, or there's a race condition between push and pull
     if (!localTask) {
-      const allTasks = await taskCollection.query().fetch();
+      const sameTitleTasks = await taskCollection.query(Q.where('title', taskData.title)).fetch();
       // Look for a task with matching title and similar content that has pending_create status
       // This indicates it's the same task that was just created locally and is being synced
-      const potentialDuplicate = allTasks.find(task => {
-        const statusStr = task.status as string;
-        // Check if task has pending_create status OR is a pure lifecycle status (was just synced)
-        // Pure lifecycle statuses indicate the task was just pushed and is waiting for ID migration
-        const hasPendingCreate = statusStr === 'pending_create' ||
-          statusStr?.startsWith('pending_create:') ||
-          statusStr === 'sync_failed_create' ||
-          statusStr?.startsWith('sync_failed_create:');
-
-        // Also check for pure lifecycle status (not_started, in_progress, completed)
-        // These indicate the task was just synced but hasn't been migrated to server ID yet
-        const isPureLifecycleStatus = statusStr === 'not_started' ||
-          statusStr === 'in_progress' ||
-          statusStr === 'completed';
+      const potentialDuplicate = sameTitleTasks.find(task => {
+        // Already migrated earlier in this batch
+        if (task._preparedState) {
+          return false;
+        }
+
+        // A pending/failed create is the same task that was just created locally and is being synced.
+        // A synced task may have been pushed but not yet migrated to its server ID.
+        const isAwaitingMigration = task.syncState === 'pending_create' ||
+          task.syncState === 'sync_failed_create' ||
+          task.syncState === 'synced';
 
         // Match by title (exact match)
         const titleMatch = task.title === taskData.title;
@@ -1730,11 +2711,10 @@ class SyncService {
         const descriptionMatch = !taskData.description || !task.description ||
           task.description === taskData.description;
 
-        // Match if it's a pending create OR a pure lifecycle status (recently synced)
-        // AND the IDs don't match (local ID vs server ID)
+        // Match only when the IDs don't match (local ID vs server ID)
         const idMismatch = task.id !== taskData.id;
 
-        return idMismatch && (hasPendingCreate || isPureLifecycleStatus) && titleMatch && descriptionMatch;
+        return idMismatch && isAwaitingMigration && titleMatch && descriptionMatch;
       });
 
       if (potentialDuplicate) {
@@ -1750,7 +2730,7 @@ class SyncService {
         // so we must NOT wrap these operations in another database.write() (would cause deadlock)
 
         // Create new task with server ID and server data
-        const newTask = await taskCollection.create((record: Task) => {
+        const newTask = taskCollection.prepareCreate((record: Task) => {
           record._raw.id = taskData.id;
           record.title = taskData.title;
           record.description = taskData.description;
@@ -1762,7 +2742,8 @@ class SyncService {
           record.goalId = taskData.goal_id;
           record.isTodayFocus = taskData.is_today_focus;
           record.userId = taskData.user_id || '';
-          record.status = lifecycleStatus;
+          record.lifecycleStatus = lifecycleStatus;
+          record.syncState = 'synced';
           // Preserve original creation time from local task
           record.createdAt = potentialDuplicate.createdAt;
           record.updatedAt = new Date();
@@ -1783,26 +2764,37 @@ class SyncService {
             // If server doesn't provide it, preserve local value
             (record as any).recurrencePatternJson = potentialDuplicate.recurrencePatternJson;
           }
+          record.baseSnapshot = serializeSnapshot(taskToSnapshot(record));
         });
 
         // Update all calendar events to point to new task ID
-        for (const event of calendarEvents) {
-          await event.update((e: any) => {
-            e.taskId = taskData.id;
-          });
-        }
+        const updatedEvents = calendarEvents.map(event => event.prepareUpdate((e: any) => {
+          e.taskId = taskData.id;
+        }));
 
-        // Delete old task record with local ID
-        await potentialDuplicate.destroyPermanently();
+        // Checklist items, dependencies and the queued task operation are not part of this page,
+        // so they are pointed at the server ID right away rather than prepared
+        await taskChecklistRepository.remapTaskId(potentialDuplicate.id, taskData.id);
+        await taskDependencyRepository.remapTaskId(potentialDuplicate.id, taskData.id);
+        await outboxRepository.remapRecordId('tasks', potentialDuplicate.id, taskData.id);
 
-        // Return early since we've already processed this task
-        return;
+        // Delete old task record with local ID
+        return [newTask, ...updatedEvents, potentialDuplicate.prepareDestroyPermanently()];
       }
     }
 
+    if (localTask && this.hasUnpushedRecurrenceAdvance(localTask, taskData)) {
+      console.log(`Pull: Keeping local recurrence advance for task ${taskData.id} until it is pushed`);
+      return [];
+    }
+
+    if (localTask && localTask.syncState !== 'synced') {
+      return this.mergeTaskChange(localTask, taskData);
+    }
+
     if (localTask) {
       // Update existing task
-      await localTask.update((record: Task) => {
+      return [localTask.prepareUpdate((record: Task) => {
         record.title = taskData.title;
         record.description = taskData.description;
         record.priority = taskData.priority;
@@ -1816,8 +2808,8 @@ class SyncService {
         }
         record.goalId = taskData.goal_id;
         record.isTodayFocus = taskData.is_today_focus;
-        // Preserve lifecycle status from server, not sync status
-        record.status = lifecycleStatus;
+        record.lifecycleStatus = lifecycleStatus;
+        record.syncState = 'synced';
         // Handle recurrence_pattern from server
         if (taskData.recurrence_pattern !== undefined) {
           (record as any).recurrencePatternJson = taskData.recurrence_pattern
@@ -1826,10 +2818,11 @@ class SyncService {
               : JSON.stringify(taskData.recurrence_pattern))
             : null;
         }
-      });
+        record.baseSnapshot = serializeSnapshot(taskToSnapshot(record));
+      })];
     } else {
       // Create new task
-      await taskCollection.create((record: Task) => {
+      return [taskCollection.prepareCreate((record: Task) => {
         record._raw.id = taskData.id;
         record.title = taskData.title;
         record.description = taskData.description;
@@ -1845,8 +2838,8 @@ class SyncService {
         record.goalId = taskData.goal_id;
         record.isTodayFocus = taskData.is_today_focus;
         record.userId = taskData.user_id || '';
-        // Use lifecycle status from server, not sync status
-        record.status = lifecycleStatus;
+        record.lifecycleStatus = lifecycleStatus;
+        record.syncState = 'synced';
         // Handle recurrence_pattern from server
         if (taskData.recurrence_pattern !== undefined) {
           (record as any).recurrencePatternJson = taskData.recurrence_pattern
@@ -1855,11 +2848,84 @@ class SyncService {
               : JSON.stringify(taskData.recurrence_pattern))
             : null;
         }
-      });
+        record.baseSnapshot = serializeSnapshot(taskToSnapshot(record));
+      })];
+    }
+  }
+
+  /**
+   * Merges a server task into a local task with unpushed edits, field by field.
+   * Fields changed on one side keep that side's value; fields changed on both sides
+   * keep the local value and are recorded as conflicts for the user to resolve.
+   * A local delete wins over server edits.
+   * NOTE: Called from within pullData's database.write() block; the caller batches the returned update.
+   */
+  private async mergeTaskChange(localTask: Task, taskData: TaskPayload): Promise<Model[]> {
+    if (this.isDeleteState(localTask.syncState)) {
+      console.log(`Pull: Keeping local delete for task ${taskData.id} until it is pushed`);
+      return [];
+    }
+
+    const result = mergeSnapshots(
+      parseSnapshot(localTask.baseSnapshot),
+      taskToSnapshot(localTask),
+      taskPayloadToSnapshot(taskData),
+      TASK_SYNC_FIELDS
+    );
+
+    const update = localTask.prepareUpdate((record: Task) => {
+      applyTaskSnapshot(record, result.merged);
+      record.baseSnapshot = serializeSnapshot(result.base);
+      if (!result.hasLocalChanges) {
+        record.syncState = 'synced';
+      }
+    });
+
+    if (result.conflicts.length > 0) {
+      console.warn(`Pull: Task ${taskData.id} has ${result.conflicts.length} conflicting field(s): ${result.conflicts.map(c => c.field).join(', ')}`);
+    }
+    this.conflictsRecorded += await syncConflictRepository.recordConflicts('tasks', localTask.id, localTask.userId, result.conflicts);
+    return [update];
+  }
+
+  /**
+   * Merges a server goal into a local goal with unpushed edits. See mergeTaskChange.
+   * NOTE: Called from within pullData's database.write() block; the caller batches the returned update.
+   */
+  private async mergeGoalChange(localGoal: Goal, goalData: any): Promise<Model[]> {
+    if (this.isDeleteState(localGoal.status)) {
+      console.log(`Pull: Keeping local delete for goal ${goalData.id} until it is pushed`);
+      return [];
+    }
+
+    const result = mergeSnapshots(
+      parseSnapshot(localGoal.baseSnapshot),
+      goalToSnapshot(localGoal),
+      goalPayloadToSnapshot(goalData),
+      GOAL_SYNC_FIELDS
+    );
+
+    const update = localGoal.prepareUpdate((record: Goal) => {
+      applyGoalSnapshot(record, result.merged);
+      record.baseSnapshot = serializeSnapshot(result.base);
+      if (!result.hasLocalChanges) {
+        record.status = 'synced';
+      }
+    });
+
+    if (result.conflicts.length > 0) {
+      console.warn(`Pull: Goal ${goalData.id} has ${result.conflicts.length} conflicting field(s): ${result.conflicts.map(c => c.field).join(', ')}`);
     }
+    this.conflictsRecorded += await syncConflictRepository.recordConflicts('goals', localGoal.id, localGoal.userId, result.conflicts);
+    return [update];
   }
 
-  private async processGoalChange(goalData: any, database: Database) {
+  /**
+   * Prepares a server goal change, including milestones and steps nested in the payload.
+   * The caller commits the returned records with database.batch().
+   */
+  private async processGoalChange(goalData: any, database: Database): Promise<Model[]> {
+    const prepared: Model[] = [];
     try {
       console.log(`Pull: processGoalChange called for goal ${goalData.id}, title: ${goalData.title}`);
       const parsedTargetDate = goalData.target_completion_date ? safeParseDate(goalData.target_completion_date) : undefined;
@@ -1873,10 +2939,12 @@ class SyncService {
       const localGoal = existingGoals.length > 0 ? existingGoals[0] : null;
       console.log(`Pull: Found existing goal: ${!!localGoal}`);
 
-      if (localGoal) {
+      if (localGoal && localGoal.status !== 'synced') {
+        prepared.push(...await this.mergeGoalChange(localGoal, goalData));
+      } else if (localGoal) {
         // Update existing goal
         console.log(`Pull: Updating existing goal ${goalData.id}`);
-        await localGoal.update((record: Goal) => {
+        prepared.push(localGoal.prepareUpdate((record: Goal) => {
           record.title = goalData.title;
           record.description = goalData.description;
           record.targetCompletionDate = parsedTargetDate;
@@ -1884,12 +2952,13 @@ class SyncService {
           record.category = goalData.category;
           record.isActive = goalData.is_active;
           record.status = 'synced';
-        });
+          record.baseSnapshot = serializeSnapshot(goalToSnapshot(record));
+        }));
         console.log(`Pull: Updated goal ${goalData.id}: ${goalData.title}`);
       } else {
         // Create new goal
         console.log(`Pull: Creating new goal ${goalData.id}`);
-        await goalCollection.create((record: Goal) => {
+        prepared.push(goalCollection.prepareCreate((record: Goal) => {
           record._raw.id = goalData.id;
           record.title = goalData.title;
           record.description = goalData.description;
@@ -1899,7 +2968,8 @@ class SyncService {
           record.isActive = goalData.is_active;
           record.userId = goalData.user_id;
           record.status = 'synced';
-        });
+          record.baseSnapshot = serializeSnapshot(goalToSnapshot(record));
+        }));
         console.log(`Pull: Created goal ${goalData.id}: ${goalData.title}`);
       }
     } catch (error) {
@@ -1923,7 +2993,7 @@ class SyncService {
           created_at: ms.created_at,
           updated_at: ms.updated_at,
         };
-        await this.processMilestoneChange(milestonePayload, database);
+        prepared.push(...await this.processMilestoneChange(milestonePayload, database));
 
         if (Array.isArray(ms.steps)) {
           for (const st of ms.steps) {
@@ -1937,14 +3007,16 @@ class SyncService {
               created_at: st.created_at,
               updated_at: st.updated_at,
             };
-            await this.processMilestoneStepChange(stepPayload, database);
+            prepared.push(...await this.processMilestoneStepChange(stepPayload, database));
           }
         }
       }
     }
+
+    return prepared;
   }
 
-  private async processMilestoneChange(milestoneData: any, database: Database) {
+  private async processMilestoneChange(milestoneData: any, database: Database): Promise<Model[]> {
     const milestoneCollection = database.get<Milestone>('milestones');
     const existing = await milestoneCollection.query(Q.where('id', milestoneData.id)).fetch();
     const local = existing.length > 0 ? existing[0] : null;
@@ -1960,7 +3032,7 @@ class SyncService {
     }
 
     if (local) {
-      await local.update((record: Milestone) => {
+      return [local.prepareUpdate((record: Milestone) => {
         record.title = milestoneData.title;
         record.description = milestoneData.description;
         record.goalId = milestoneData.goal_id;
@@ -1970,9 +3042,9 @@ class SyncService {
         if (parsedUpdatedAt) {
           record.updatedAt = parsedUpdatedAt;
         }
-      });
+      })];
     } else {
-      await milestoneCollection.create((record: Milestone) => {
+      return [milestoneCollection.prepareCreate((record: Milestone) => {
         record._raw.id = milestoneData.id;
         record.title = milestoneData.title;
         record.description = milestoneData.description;
@@ -1982,11 +3054,11 @@ class SyncService {
         record.status = 'synced';
         record.createdAt = parsedCreatedAt || new Date();
         record.updatedAt = parsedUpdatedAt || new Date();
-      });
+      })];
     }
   }
 
-  private async processMilestoneStepChange(stepData: any, database: Database) {
+  private async processMilestoneStepChange(stepData: any, database: Database): Promise<Model[]> {
     const stepCollection = database.get<MilestoneStep>('milestone_steps');
     const existing = await stepCollection.query(Q.where('id', stepData.id)).fetch();
     const local = existing.length > 0 ? existing[0] : null;
@@ -2008,7 +3080,7 @@ class SyncService {
     }
 
     if (local) {
-      await local.update((record: MilestoneStep) => {
+      return [local.prepareUpdate((record: MilestoneStep) => {
         record.text = stepData.text;
         record.milestoneId = stepData.milestone_id;
         record.completed = !!stepData.completed;
@@ -2017,9 +3089,9 @@ class SyncService {
         if (parsedUpdatedAt) {
           record.updatedAt = parsedUpdatedAt;
         }
-      });
+      })];
     } else {
-      await stepCollection.create((record: MilestoneStep) => {
+      return [stepCollection.prepareCreate((record: MilestoneStep) => {
         record._raw.id = stepData.id;
         record.text = stepData.text;
         record.milestoneId = stepData.milestone_id;
@@ -2028,11 +3100,11 @@ class SyncService {
         record.status = 'synced';
         record.createdAt = parsedCreatedAt || new Date();
         record.updatedAt = parsedUpdatedAt || new Date();
-      });
+      })];
     }
   }
 
-  private async processThreadChange(threadData: any, database: Database) {
+  private async processThreadChange(threadData: any, database: Database): Promise<Model[]> {
     const threadCollection = database.get<ConversationThread>('conversation_threads');
     const existing = await threadCollection.query(Q.where('id', threadData.id)).fetch();
     const local = existing.length > 0 ? existing[0] : null;
@@ -2056,11 +3128,16 @@ class SyncService {
     const userId = authService.getCurrentUser()?.id;
     if (!userId) {
       console.warn(`Pull: No user ID available, skipping thread ${threadData.id}`);
-      return;
+      return [];
+    }
+
+    // A thread deleted locally stays deleted until its delete is pushed
+    if (local?.status === 'pending_delete') {
+      return [];
     }
 
     if (local) {
-      await local.update((record: ConversationThread) => {
+      return [local.prepareUpdate((record: ConversationThread) => {
         record.title = threadData.title;
         record.summary = threadData.summary ?? null;
         record.isActive = threadData.is_active ?? true;
@@ -2069,9 +3146,9 @@ class SyncService {
         if (parsedUpdatedAt) {
           record.updatedAt = parsedUpdatedAt;
         }
-      });
+      })];
     } else {
-      await threadCollection.create((record: ConversationThread) => {
+      return [threadCollection.prepareCreate((record: ConversationThread) => {
         record._raw.id = threadData.id;
         record.userId = userId;
         record.title = threadData.title;
@@ -2081,11 +3158,11 @@ class SyncService {
         record.status = 'synced';
         record.createdAt = parsedCreatedAt || new Date();
         record.updatedAt = parsedUpdatedAt || new Date();
-      });
+      })];
     }
   }
 
-  private async processMessageChange(messageData: any, database: Database) {
+  private async processMessageChange(messageData: any, database: Database): Promise<Model[]> {
     const messageCollection = database.get<ConversationMessage>('conversation_messages');
     const existing = await messageCollection.query(Q.where('id', messageData.id)).fetch();
     const local = existing.length > 0 ? existing[0] : null;
@@ -2109,11 +3186,11 @@ class SyncService {
     const userId = authService.getCurrentUser()?.id;
     if (!userId) {
       console.warn(`Pull: No user ID available, skipping message ${messageData.id}`);
-      return;
+      return [];
     }
 
     if (local) {
-      await local.update((record: ConversationMessage) => {
+      return [local.prepareUpdate((record: ConversationMessage) => {
         record.content = messageData.content;
         record.role = messageData.role;
         if (messageData.metadata) {
@@ -2125,9 +3202,19 @@ class SyncService {
         if (parsedUpdatedAt) {
           record.updatedAt = parsedUpdatedAt;
         }
-      });
+      })];
     } else {
-      await messageCollection.create((record: ConversationMessage) => {
+      // Streamed replies are saved locally under temp IDs; the server copy replaces them
+      const streamedCopies = await messageCollection.query(
+        Q.where('thread_id', messageData.thread_id),
+        Q.where('role', messageData.role),
+        Q.where('content', messageData.content)
+      ).fetch();
+      const removedCopies = streamedCopies
+        .filter(m => m.id.startsWith('temp-') && !m._preparedState)
+        .map(m => m.prepareDestroyPermanently());
+
+      return [...removedCopies, messageCollection.prepareCreate((record: ConversationMessage) => {
         record._raw.id = messageData.id;
         record.threadId = messageData.thread_id;
         record.userId = userId;
@@ -2141,7 +3228,7 @@ class SyncService {
         record.status = 'synced';
         record.createdAt = parsedCreatedAt || new Date();
         record.updatedAt = parsedUpdatedAt || new Date();
-      });
+      })];
     }
   }
 }
@@ -0,0 +1,104 @@
+import {
+  BACKGROUND_SYNC_BUDGET_MS,
+  BackgroundSyncService,
+  SyncConditions,
+  SyncScheduler,
+  isSyncMessage,
+} from '../backgroundSync';
+
+const ONLINE: SyncConditions = { isConnected: true, isExpensive: false, isBatteryLow: false };
+
+const createFakeScheduler = (): SyncScheduler & { schedule: jest.Mock; cancel: jest.Mock } => ({
+  schedule: jest.fn(async () => undefined),
+  cancel: jest.fn(async () => undefined),
+});
+
+describe('BackgroundSyncService', () => {
+  let scheduler: ReturnType<typeof createFakeScheduler>;
+  let sync: jest.Mock;
+  let prepare: jest.Mock;
+  let conditions: SyncConditions;
+  let service: BackgroundSyncService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    scheduler = createFakeScheduler();
+    sync = jest.fn(async () => undefined);
+    prepare = jest.fn(async () => true);
+    conditions = ONLINE;
+    service = new BackgroundSyncService({
+      scheduler,
+      sync,
+      prepare,
+      getConditions: async () => conditions,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('schedules and cancels the periodic sync', async () => {
+    await service.start({ intervalMinutes: 60, requiresUnmeteredNetwork: true, requiresBatteryNotLow: true });
+    await service.stop();
+
+    expect(scheduler.schedule).toHaveBeenCalledWith({ intervalMinutes: 60, requiresUnmeteredNetwork: true, requiresBatteryNotLow: true });
+    expect(scheduler.cancel).toHaveBeenCalled();
+  });
+
+  it('runs a bounded sync when conditions allow', async () => {
+    await expect(service.runBackgroundSync('periodic')).resolves.toBe('synced');
+    expect(sync).toHaveBeenCalledWith(BACKGROUND_SYNC_BUDGET_MS);
+  });
+
+  it('skips while offline, on low battery, or when signed out', async () => {
+    conditions = { ...ONLINE, isConnected: false };
+    await expect(service.runBackgroundSync('push')).resolves.toBe('skipped');
+
+    conditions = { ...ONLINE, isBatteryLow: true };
+    await expect(service.runBackgroundSync('periodic')).resolves.toBe('skipped');
+
+    conditions = ONLINE;
+    prepare.mockResolvedValueOnce(false);
+    await expect(service.runBackgroundSync('push')).resolves.toBe('skipped');
+
+    expect(sync).not.toHaveBeenCalled();
+  });
+
+  it('skips periodic syncs on metered networks only when the schedule asks for it', async () => {
+    conditions = { ...ONLINE, isExpensive: true };
+    await expect(service.runBackgroundSync('periodic')).resolves.toBe('synced');
+
+    await service.start({ intervalMinutes: 30, requiresUnmeteredNetwork: true, requiresBatteryNotLow: true });
+    await expect(service.runBackgroundSync('periodic')).resolves.toBe('skipped');
+    await expect(service.runBackgroundSync('push')).resolves.toBe('synced');
+  });
+
+  it('joins a run already in progress', async () => {
+    let finish: () => void = () => {};
+    sync.mockImplementation(() => new Promise<void>(resolve => {
+      finish = resolve;
+    }));
+
+    const first = service.runBackgroundSync('periodic');
+    const second = service.runBackgroundSync('push');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    finish();
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['synced', 'synced']);
+    expect(sync).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a failed sync without throwing', async () => {
+    jest.spyOn(console, 'error').mockImplementation();
+    sync.mockRejectedValueOnce(new Error('Request timeout'));
+
+    await expect(service.runBackgroundSync('push')).resolves.toBe('failed');
+  });
+
+  it('recognizes sync push messages', () => {
+    expect(isSyncMessage({ data: { sync: 'true' } })).toBe(true);
+    expect(isSyncMessage({ notification: { title: 'Hi' } })).toBe(false);
+    expect(isSyncMessage(undefined)).toBe(false);
+  });
+});
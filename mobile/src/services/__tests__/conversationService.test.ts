@@ -34,8 +34,37 @@ describe('conversationService.getThread', () => {
   });
 });
 
+describe('conversationService delta sync', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('requests thread changes since the cursor', async () => {
+    const apiFetch = api.apiFetch as unknown as jest.Mock;
+    apiFetch.mockResolvedValue({ ok: true, status: 200, data: { changed: [], deleted: ['t1'] } });
+
+    const changes = await conversationService.getThreadChanges('2024-01-10T09:00:00.000Z');
+
+    const [path, init] = apiFetch.mock.calls[0];
+    expect(path).toBe('/ai/threads/changes?since=2024-01-10T09%3A00%3A00.000Z');
+    expect(init).toEqual({ method: 'GET' });
+    expect(changes.deleted).toEqual(['t1']);
+  });
 
+  it('requests every message when there is no cursor', async () => {
+    const apiFetch = api.apiFetch as unknown as jest.Mock;
+    apiFetch.mockResolvedValue({ ok: true, status: 200, data: { changed: [], deleted: [] } });
 
+    await conversationService.getMessageChanges(null);
 
+    const [path] = apiFetch.mock.calls[0];
+    expect(path).toBe('/ai/messages/changes');
+  });
 
+  it('throws when the server rejects the request', async () => {
+    const apiFetch = api.apiFetch as unknown as jest.Mock;
+    apiFetch.mockResolvedValue({ ok: false, status: 500, data: { error: 'Failed to get conversation message changes' } });
 
+    await expect(conversationService.getMessageChanges()).rejects.toThrow('Failed to get conversation message changes');
+  });
+});
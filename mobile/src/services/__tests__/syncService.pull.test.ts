@@ -1,35 +1,67 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { syncService } from '../SyncService';
 import * as conv from '../conversationService';
 import { enhancedAPI } from '../enhancedApi';
+import { taskChecklistService } from '../taskChecklistService';
+import { dailyReflectionService } from '../dailyReflectionService';
 
 jest.mock('../conversationService');
 
-describe('SyncService.pullData message fetching', () => {
+describe('SyncService.pullData paged pull', () => {
   beforeEach(() => {
     jest.resetAllMocks();
-  });
-
-  it('uses limited getThread with 60s timeout and tolerates timeouts per thread', async () => {
     // Minimal API responses for non-conversation resources
     jest.spyOn(enhancedAPI, 'getEvents').mockResolvedValue({ changed: [], deleted: [] } as any);
     jest.spyOn(enhancedAPI, 'getTasks').mockResolvedValue({ changed: [], deleted: [] } as any);
     jest.spyOn(enhancedAPI, 'getGoals').mockResolvedValue({ changed: [], deleted: [] } as any);
     jest.spyOn(enhancedAPI, 'getMilestones').mockResolvedValue({ changed: [], deleted: [] } as any);
     jest.spyOn(enhancedAPI, 'getMilestoneSteps').mockResolvedValue({ changed: [], deleted: [] } as any);
+    jest.spyOn(taskChecklistService, 'getChecklistItemChanges').mockResolvedValue({ changed: [], deleted: [] });
+    jest.spyOn(dailyReflectionService, 'getReflectionChanges').mockResolvedValue({ changed: [], deleted: [] });
+  });
 
-    // Threads list contains one thread
-    (conv.conversationService.listThreads as unknown as jest.Mock).mockResolvedValue([
-      { id: 'th1', title: 't', is_active: true, created_at: '', updated_at: '' },
-    ]);
-
-    // Simulate timeout error from getThread
-    (conv.conversationService.getThread as unknown as jest.Mock).mockRejectedValue(new Error('Request timeout'));
+  it('pulls each collection from its own cursor and saves the cursors', async () => {
+    const cursors = {
+      conversation_threads: { syncedAt: '2024-01-10T09:00:00.000Z' },
+      conversation_messages: { syncedAt: '2024-01-10T09:00:00.000Z' },
+    };
+    (AsyncStorage.getItem as jest.Mock).mockImplementation(async (key: string) =>
+      key === 'pull_cursors' ? JSON.stringify(cursors) : null
+    );
+    (conv.conversationService.getThreadChanges as unknown as jest.Mock).mockResolvedValue({ changed: [], deleted: [] });
+    (conv.conversationService.getMessageChanges as unknown as jest.Mock).mockResolvedValue({ changed: [], deleted: [] });
 
     await expect(syncService.pullData()).resolves.toBeUndefined();
 
-    // Ensure getThread was called with limit and timeout
-    expect(conv.conversationService.getThread).toHaveBeenCalledWith('th1', { limit: 50, timeoutMs: 60000 });
+    expect(conv.conversationService.getThreadChanges).toHaveBeenCalledWith('2024-01-10T09:00:00.000Z', { limit: 200, cursor: null });
+    expect(conv.conversationService.getMessageChanges).toHaveBeenCalledWith('2024-01-10T09:00:00.000Z', { limit: 200, cursor: null });
+    // Collections without a cursor yet start with a full pull
+    expect(taskChecklistService.getChecklistItemChanges).toHaveBeenCalledWith(null, { limit: 200, cursor: null });
+    expect(AsyncStorage.setItem).toHaveBeenCalledWith('pull_cursors', expect.any(String));
+    expect(AsyncStorage.setItem).toHaveBeenCalledWith('last_synced_at', expect.any(String));
   });
-});
 
+  it('requests the next page until the collection is caught up', async () => {
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+    (conv.conversationService.getThreadChanges as unknown as jest.Mock)
+      .mockResolvedValueOnce({ changed: [], deleted: [], next_cursor: 'page-2' })
+      .mockResolvedValueOnce({ changed: [], deleted: [] });
+    (conv.conversationService.getMessageChanges as unknown as jest.Mock).mockResolvedValue({ changed: [], deleted: [] });
+
+    await syncService.pullData();
 
+    expect(conv.conversationService.getThreadChanges).toHaveBeenNthCalledWith(1, null, { limit: 200, cursor: null });
+    expect(conv.conversationService.getThreadChanges).toHaveBeenNthCalledWith(2, null, { limit: 200, cursor: 'page-2' });
+  });
+
+  it('keeps the last sync time when message changes fail to load', async () => {
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+    (conv.conversationService.getThreadChanges as unknown as jest.Mock).mockResolvedValue({ changed: [], deleted: [] });
+    (conv.conversationService.getMessageChanges as unknown as jest.Mock).mockRejectedValue(new Error('Request timeout'));
+
+    await expect(syncService.pullData()).resolves.toBeUndefined();
+
+    expect(AsyncStorage.setItem).toHaveBeenCalledWith('pull_cursors', expect.any(String));
+    expect(AsyncStorage.setItem).not.toHaveBeenCalledWith('last_synced_at', expect.any(String));
+  });
+});
@@ -606,19 +606,6 @@ export const tasksAPI = {
       return await response.json();
     } catch (_error) {
       console.error('Error creating task:', _error);
-      
-      // Add to offline queue if network error
-      const { offlineService } = await import('./offline');
-      if (!offlineService.getNetworkStatus()) {
-        const actionId = await offlineService.addToOfflineQueue({
-          type: 'CREATE_TASK',
-          data: taskData,
-          id: `temp_${Date.now()}`,
-        });
-        console.warn('Added task creation to offline queue:', actionId);
-        return { id: actionId, offline: true, ...taskData } as Task;
-      }
-      
       throw _error;
     }
   },
@@ -649,19 +636,6 @@ export const tasksAPI = {
       return data;
     } catch (_error) {
       console.error('Error updating task:', _error);
-      
-      // Add to offline queue if network error
-      const { offlineService } = await import('./offline');
-      if (!offlineService.getNetworkStatus()) {
-        const actionId = await offlineService.addToOfflineQueue({
-          type: 'UPDATE_TASK',
-          data: taskData,
-          id: taskId,
-        });
-        console.warn('Added task update to offline queue:', actionId);
-        return { id: taskId, offline: true, ...taskData } as Task;
-      }
-      
       throw _error;
     }
   },
@@ -683,18 +657,6 @@ export const tasksAPI = {
       }
     } catch (_error) {
       console.error('Error deleting task:', _error);
-      
-      // Add to offline queue if network error
-      const { offlineService } = await import('./offline');
-      if (!offlineService.getNetworkStatus()) {
-        const actionId = await offlineService.addToOfflineQueue({
-          type: 'DELETE_TASK',
-          id: taskId,
-        });
-        console.warn('Added task deletion to offline queue:', actionId);
-        return;
-      }
-      
       throw _error;
     }
   },
@@ -836,19 +798,6 @@ export const calendarAPI = {
       return await response.json();
     } catch (_error) {
       console.error('Error creating calendar event:', _error);
-      
-      // Add to offline queue if network error
-      const { offlineService } = await import('./offline');
-      if (!offlineService.getNetworkStatus()) {
-        const actionId = await offlineService.addToOfflineQueue({
-          type: 'CREATE_EVENT',
-          data: eventData,
-          id: `temp_${Date.now()}`,
-        });
-        console.warn('Added event creation to offline queue:', actionId);
-        return { id: actionId, offline: true };
-      }
-      
       throw _error;
     }
   },
@@ -883,19 +832,6 @@ export const calendarAPI = {
       return await response.json();
     } catch (_error) {
       console.error('Error updating calendar event:', _error);
-      
-      // Add to offline queue if network error
-      const { offlineService } = await import('./offline');
-      if (!offlineService.getNetworkStatus()) {
-        const actionId = await offlineService.addToOfflineQueue({
-          type: 'UPDATE_EVENT',
-          data: eventData,
-          id: eventId,
-        });
-        console.warn('Added event update to offline queue:', actionId);
-        return { id: actionId, offline: true };
-      }
-      
       throw _error;
     }
   },
@@ -916,18 +852,6 @@ export const calendarAPI = {
       }
     } catch (_error) {
       console.error('Error deleting calendar event:', _error);
-      
-      // Add to offline queue if network error
-      const { offlineService } = await import('./offline');
-      if (!offlineService.getNetworkStatus()) {
-        const actionId = await offlineService.addToOfflineQueue({
-          type: 'DELETE_EVENT',
-          id: eventId,
-        });
-        console.warn('Added event deletion to offline queue:', actionId);
-        return;
-      }
-      
       throw _error;
     }
   },
@@ -957,8 +881,9 @@ export const calendarAPI = {
 
 // Auto-scheduling API
 export const autoSchedulingAPI = {
-  // Bulk auto-schedule all eligible tasks
-  autoScheduleTasks: async (): Promise<AutoSchedulingResult> => {
+  // Bulk auto-schedule all eligible tasks. excludeTaskIds are skipped, e.g. tasks blocked by
+  // a dependency the server hasn't received yet.
+  autoScheduleTasks: async (excludeTaskIds: string[] = []): Promise<AutoSchedulingResult> => {
     try {
       const token = await getAuthToken();
       const response = await fetch(`${getSecureApiBaseUrl()}/ai/auto-schedule-tasks`, {
@@ -967,6 +892,7 @@ export const autoSchedulingAPI = {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
+        body: JSON.stringify({ exclude_task_ids: excludeTaskIds }),
       });
 
       if (!response.ok) {
@@ -205,10 +205,12 @@ export const apiService = {
     return apiFetch<T>(url, { method: 'GET' });
   },
 
-  async post<T = any>(path: string, data?: any, options: { timeoutMs?: number } = {}): Promise<ApiResponse<T>> {
+  async post<T = any>(path: string, data?: any, options: { timeoutMs?: number; idempotencyKey?: string } = {}): Promise<ApiResponse<T>> {
     return apiFetch<T>(path, {
       method: 'POST',
       body: data ? JSON.stringify(data) : undefined,
+      // Lets the server replay the first response when a create is retried
+      ...(options.idempotencyKey ? { headers: { 'Idempotency-Key': options.idempotencyKey } } : {}),
     }, options.timeoutMs);
   },
 
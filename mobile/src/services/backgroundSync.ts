@@ -0,0 +1,208 @@
+import { NativeModules } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import logger from '../utils/logger';
+
+/**
+ * Background sync
+ * Runs a bounded push-then-pull while the app is in the background: periodically through the
+ * platform scheduler (WorkManager on Android, started as a headless JS task), and when a push
+ * notification says the server has changes. Runs are skipped while offline, on a low battery,
+ * or when nobody is signed in.
+ */
+
+export const BACKGROUND_SYNC_TASK = 'BackgroundSync';
+
+// Time a background run may spend on sync before leaving the rest to the next run
+export const BACKGROUND_SYNC_BUDGET_MS = 25 * 1000;
+
+export type BackgroundSyncReason = 'periodic' | 'push';
+
+export type BackgroundSyncResult = 'synced' | 'skipped' | 'failed';
+
+export interface SyncSchedule {
+  // The platform may stretch this; Android runs periodic work at most every 15 minutes
+  intervalMinutes: number;
+  // Only run periodic syncs on unmetered networks such as Wi-Fi
+  requiresUnmeteredNetwork: boolean;
+  requiresBatteryNotLow: boolean;
+}
+
+/**
+ * Registers the periodic background sync with the platform.
+ */
+export interface SyncScheduler {
+  schedule(schedule: SyncSchedule): Promise<void>;
+  cancel(): Promise<void>;
+}
+
+export interface SyncConditions {
+  isConnected: boolean;
+  // Metered connections such as cellular
+  isExpensive: boolean;
+  isBatteryLow: boolean;
+}
+
+interface BackgroundSyncDependencies {
+  scheduler: SyncScheduler;
+  getConditions: () => Promise<SyncConditions>;
+  // Gets the app ready to sync from a cold start; resolves to whether a user is signed in
+  prepare: () => Promise<boolean>;
+  sync: (budgetMs: number) => Promise<void>;
+}
+
+export const DEFAULT_SYNC_SCHEDULE: SyncSchedule = {
+  intervalMinutes: 30,
+  requiresUnmeteredNetwork: false,
+  requiresBatteryNotLow: true,
+};
+
+/**
+ * Whether an FCM message asks the app to sync, i.e. carries a `sync` data field.
+ */
+export function isSyncMessage(remoteMessage: any): boolean {
+  return Boolean(remoteMessage?.data?.sync);
+}
+
+const { BackgroundSync: BackgroundSyncModule } = NativeModules;
+
+/**
+ * Schedules through the native BackgroundSync module. Platforms without it (iOS for now) only
+ * sync in the foreground and on push notifications.
+ */
+export const nativeSyncScheduler: SyncScheduler = {
+  async schedule(schedule) {
+    if (!BackgroundSyncModule) {
+      logger.info('BackgroundSync: No native scheduler on this platform, skipping periodic sync');
+      return;
+    }
+    await BackgroundSyncModule.schedule(
+      schedule.intervalMinutes,
+      schedule.requiresUnmeteredNetwork,
+      schedule.requiresBatteryNotLow
+    );
+  },
+  async cancel() {
+    if (BackgroundSyncModule) {
+      await BackgroundSyncModule.cancel();
+    }
+  },
+};
+
+const getDeviceConditions = async (): Promise<SyncConditions> => {
+  const network = await NetInfo.fetch();
+  const isBatteryLow = BackgroundSyncModule?.isBatteryLow ? await BackgroundSyncModule.isBatteryLow() : false;
+  return {
+    isConnected: network.isConnected ?? false,
+    isExpensive: Boolean((network.details as any)?.isConnectionExpensive),
+    isBatteryLow: Boolean(isBatteryLow),
+  };
+};
+
+const prepareForSync = async (): Promise<boolean> => {
+  // Lazy imports: a headless task starts without App.tsx having initialized anything
+  const secureConfigService = (await import('./secureConfig')).default;
+  const { initializeDatabase } = await import('../db');
+  const { authService } = await import('./auth');
+
+  await secureConfigService.initialize();
+  await initializeDatabase();
+  await authService.waitForInitialization();
+  return authService.isAuthenticated();
+};
+
+const runSync = async (budgetMs: number): Promise<void> => {
+  // Lazy import to avoid a circular dependency with SyncService
+  const { syncService } = await import('./SyncService');
+  await syncService.syncWithin(budgetMs);
+};
+
+export class BackgroundSyncService {
+  private running: Promise<BackgroundSyncResult> | null = null;
+  private schedule: SyncSchedule = DEFAULT_SYNC_SCHEDULE;
+  private deps: BackgroundSyncDependencies;
+
+  constructor(deps: Partial<BackgroundSyncDependencies> = {}) {
+    this.deps = {
+      scheduler: nativeSyncScheduler,
+      getConditions: getDeviceConditions,
+      prepare: prepareForSync,
+      sync: runSync,
+      ...deps,
+    };
+  }
+
+  /**
+   * Schedules the periodic background sync. Call after sign-in; rescheduling replaces the previous schedule.
+   */
+  async start(schedule: SyncSchedule = DEFAULT_SYNC_SCHEDULE): Promise<void> {
+    this.schedule = schedule;
+    try {
+      await this.deps.scheduler.schedule(schedule);
+    } catch (error) {
+      logger.error('BackgroundSync: Failed to schedule periodic sync', error);
+    }
+  }
+
+  /**
+   * Cancels the periodic background sync, e.g. on sign-out.
+   */
+  async stop(): Promise<void> {
+    try {
+      await this.deps.scheduler.cancel();
+    } catch (error) {
+      logger.error('BackgroundSync: Failed to cancel periodic sync', error);
+    }
+  }
+
+  /**
+   * Runs one background sync if conditions allow. A run already in progress is joined rather than repeated.
+   */
+  async runBackgroundSync(reason: BackgroundSyncReason): Promise<BackgroundSyncResult> {
+    if (this.running) {
+      return this.running;
+    }
+    this.running = this.run(reason);
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+    }
+  }
+
+  private async run(reason: BackgroundSyncReason): Promise<BackgroundSyncResult> {
+    try {
+      const conditions = await this.deps.getConditions();
+      if (!conditions.isConnected) {
+        logger.info(`BackgroundSync: Skipping ${reason} sync while offline`);
+        return 'skipped';
+      }
+      if (reason === 'periodic' && this.schedule.requiresUnmeteredNetwork && conditions.isExpensive) {
+        logger.info('BackgroundSync: Skipping periodic sync on a metered network');
+        return 'skipped';
+      }
+      if (conditions.isBatteryLow) {
+        logger.info(`BackgroundSync: Skipping ${reason} sync on low battery`);
+        return 'skipped';
+      }
+
+      if (!(await this.deps.prepare())) {
+        return 'skipped';
+      }
+
+      await this.deps.sync(BACKGROUND_SYNC_BUDGET_MS);
+      return 'synced';
+    } catch (error) {
+      logger.error(`BackgroundSync: ${reason} sync failed`, error);
+      return 'failed';
+    }
+  }
+}
+
+export const backgroundSyncService = new BackgroundSyncService();
+
+/**
+ * Headless JS task started by the native scheduler.
+ */
+export const backgroundSyncTask = async (): Promise<void> => {
+  await backgroundSyncService.runBackgroundSync('periodic');
+};
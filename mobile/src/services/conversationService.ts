@@ -3,6 +3,7 @@ import EventSource from 'react-native-sse';
 import { authService } from './auth';
 import { configService } from './config';
 import secureConfigService from './secureConfig';
+import { PageParams, withSyncParams } from '../utils/syncQuery';
 
 export interface ConversationThread {
   id: string;
@@ -21,10 +22,12 @@ export interface ConversationThread {
 
 export interface ConversationMessage {
   id: string;
+  thread_id?: string;
   role: 'user' | 'assistant';
   content: string;
   metadata?: any;
   created_at: string;
+  updated_at?: string;
 }
 
 export interface ConversationThreadWithMessages {
@@ -32,6 +35,14 @@ export interface ConversationThreadWithMessages {
   messages: ConversationMessage[];
 }
 
+// Records changed and deleted since a sync cursor
+export interface ConversationChanges<T> {
+  changed: T[];
+  deleted: string[];
+  // Set on paged responses when another page follows
+  next_cursor?: string | null;
+}
+
 export const conversationService = {
   async listThreads(): Promise<ConversationThread[]> {
     const res = await apiFetch<ConversationThread[]>('/ai/threads', { method: 'GET' }, 30000);
@@ -39,6 +50,29 @@ export const conversationService = {
     return res.data as ConversationThread[];
   },
 
+  /**
+   * Threads changed since the given cursor. Deleted threads are returned as IDs.
+   * Without a cursor, every active thread is returned.
+   */
+  async getThreadChanges(since?: string | null, page?: PageParams): Promise<ConversationChanges<ConversationThread>> {
+    const res = await apiFetch<ConversationChanges<ConversationThread>>(withSyncParams('/ai/threads/changes', since, page), { method: 'GET' }, 30000);
+    if (!res.ok) {
+      throw new Error((res.data as any)?.error || 'Failed to load thread changes');
+    }
+    return res.data as ConversationChanges<ConversationThread>;
+  },
+
+  /**
+   * Messages changed since the given cursor, across all active threads.
+   */
+  async getMessageChanges(since?: string | null, page?: PageParams): Promise<ConversationChanges<ConversationMessage>> {
+    const res = await apiFetch<ConversationChanges<ConversationMessage>>(withSyncParams('/ai/messages/changes', since, page), { method: 'GET' }, 60000);
+    if (!res.ok) {
+      throw new Error((res.data as any)?.error || 'Failed to load message changes');
+    }
+    return res.data as ConversationChanges<ConversationMessage>;
+  },
+
   async createThread(title?: string, summary?: string | null): Promise<ConversationThread> {
     // Simple retry to handle transient cold starts/timeouts
     const attempt = async () => apiService.post<ConversationThread>('/ai/threads', { title, summary }, { timeoutMs: 30000 });
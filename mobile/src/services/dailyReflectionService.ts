@@ -0,0 +1,74 @@
+import { apiService } from './apiService';
+import type { CreateRequestOptions } from './enhancedApi';
+import { PageParams, withSyncParams } from '../utils/syncQuery';
+
+export interface DailyReflectionRecord {
+    id: string;
+    user_id: string;
+    reflection_date: string;
+    mood: number;
+    energy: number;
+    note?: string | null;
+    completed_count: number;
+    rolled_over_count: number;
+    dropped_count: number;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export interface DailyReflectionPayload {
+    reflection_date?: string;
+    mood?: number;
+    energy?: number;
+    note?: string | null;
+    completed_count?: number;
+    rolled_over_count?: number;
+    dropped_count?: number;
+}
+
+// Reflections changed and deleted since a sync cursor
+export interface DailyReflectionChanges {
+    changed: DailyReflectionRecord[];
+    deleted: string[];
+    // Set on paged responses when another page follows
+    next_cursor?: string | null;
+}
+
+export const dailyReflectionService = {
+    /**
+     * Reflections changed since the given cursor; without one, every reflection is returned as changed.
+     */
+    async getReflectionChanges(since?: string | null, page?: PageParams): Promise<DailyReflectionChanges> {
+        const response = await apiService.get<DailyReflectionChanges>(withSyncParams('/daily-reflections', since, page));
+        if (!response.ok) {
+            throw new Error((response.data as any)?.error || 'Failed to fetch reflections');
+        }
+        return response.data as DailyReflectionChanges;
+    },
+
+    /**
+     * Saves the reflection for payload.reflection_date; the server updates an existing one for that day.
+     */
+    async createReflection(payload: DailyReflectionPayload, options: CreateRequestOptions = {}): Promise<DailyReflectionRecord> {
+        const response = await apiService.post<DailyReflectionRecord>('/daily-reflections', payload, options);
+        if (!response.ok) {
+            throw new Error((response.data as any)?.error || 'Failed to save reflection');
+        }
+        return response.data as DailyReflectionRecord;
+    },
+
+    async updateReflection(id: string, payload: DailyReflectionPayload): Promise<DailyReflectionRecord> {
+        const response = await apiService.put<DailyReflectionRecord>(`/daily-reflections/${id}`, payload);
+        if (!response.ok) {
+            throw new Error((response.data as any)?.error || 'Failed to update reflection');
+        }
+        return response.data as DailyReflectionRecord;
+    },
+
+    async deleteReflection(id: string): Promise<void> {
+        const response = await apiService.delete(`/daily-reflections/${id}`);
+        if (!response.ok) {
+            throw new Error((response.data as any)?.error || 'Failed to delete reflection');
+        }
+    },
+};
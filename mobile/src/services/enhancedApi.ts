@@ -3,6 +3,7 @@ import { authService } from './auth';
 import { configService } from './config';
 import secureConfigService from './secureConfig';
 import logger from '../utils/logger';
+import { PageParams, withSyncParams } from '../utils/syncQuery';
 
 // Helper function to get secure API base URL
 const getSecureApiBaseUrl = (): string => {
@@ -14,6 +15,16 @@ const getSecureApiBaseUrl = (): string => {
   }
 };
 
+export interface CreateRequestOptions {
+  // Sent as the Idempotency-Key header so a retried create is not applied twice
+  idempotencyKey?: string;
+}
+
+const jsonHeaders = (options?: CreateRequestOptions): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  ...(options?.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {}),
+});
+
 // Real API implementation for backend integration
 
 // Enhanced API wrapper with retry logic and error handling
@@ -154,11 +165,8 @@ class EnhancedAPI {
   }
 
   // Calendar API methods
-  async getEvents(maxResults: number = 100, since?: string): Promise<any> {
-    let url = `${getSecureApiBaseUrl()}/calendar/events?maxResults=${maxResults}`;
-    if (since) {
-      url += `&since=${encodeURIComponent(since)}`;
-    }
+  async getEvents(maxResults: number = 100, since?: string, page?: PageParams): Promise<any> {
+    const url = withSyncParams(`${getSecureApiBaseUrl()}/calendar/events?maxResults=${maxResults}`, since, page);
     return this.makeRequest(
       url,
       { method: 'GET' },
@@ -196,12 +204,13 @@ class EnhancedAPI {
     taskId?: string;
     goalId?: string;
     isAllDay?: boolean;
-  }): Promise<any> {
+    icsUid?: string;
+  }, options?: CreateRequestOptions): Promise<any> {
     return this.makeRequest(
       `${getSecureApiBaseUrl()}/calendar/events`,
       {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: jsonHeaders(options),
         body: JSON.stringify({
           ...eventData,
           useSupabase: true,
@@ -227,6 +236,7 @@ class EnhancedAPI {
     taskId?: string;
     goalId?: string;
     isAllDay?: boolean;
+    icsUid?: string;
   }): Promise<any> {
     return this.makeRequest(
       `${getSecureApiBaseUrl()}/calendar/events/${eventId}`,
@@ -380,11 +390,9 @@ class EnhancedAPI {
   }
 
   // Tasks API methods
-  async getTasks(since?: string): Promise<any> {
-    const url = since 
-      ? `${getSecureApiBaseUrl()}/tasks?since=${encodeURIComponent(since)}`
-      : `${getSecureApiBaseUrl()}/tasks`;
-    
+  async getTasks(since?: string, page?: PageParams): Promise<any> {
+    const url = withSyncParams(`${getSecureApiBaseUrl()}/tasks`, since, page);
+
     return this.makeRequest(
       url,
       { method: 'GET' },
@@ -402,12 +410,12 @@ class EnhancedAPI {
     );
   }
 
-  async createTask(taskData: any): Promise<any> {
+  async createTask(taskData: any, options?: CreateRequestOptions): Promise<any> {
     return this.makeRequest(
       `${getSecureApiBaseUrl()}/tasks`,
       {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: jsonHeaders(options),
         body: JSON.stringify(taskData),
       },
       ErrorCategory.TASKS,
@@ -440,11 +448,9 @@ class EnhancedAPI {
   }
 
   // Goals API methods
-  async getGoals(since?: string): Promise<any> {
-    const url = since 
-      ? `${getSecureApiBaseUrl()}/goals?since=${encodeURIComponent(since)}`
-      : `${getSecureApiBaseUrl()}/goals`;
-    
+  async getGoals(since?: string, page?: PageParams): Promise<any> {
+    const url = withSyncParams(`${getSecureApiBaseUrl()}/goals`, since, page);
+
     return this.makeRequest(
       url,
       { method: 'GET' },
@@ -453,12 +459,12 @@ class EnhancedAPI {
     );
   }
 
-  async createGoal(goalData: any): Promise<any> {
+  async createGoal(goalData: any, options?: CreateRequestOptions): Promise<any> {
     return await this.makeRequest(
       `${getSecureApiBaseUrl()}/goals`,
       {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: jsonHeaders(options),
         body: JSON.stringify(goalData),
       },
       ErrorCategory.GOALS,
@@ -500,12 +506,12 @@ class EnhancedAPI {
   }
 
   // Milestone API methods
-  async createMilestone(goalId: string, milestoneData: any): Promise<any> {
+  async createMilestone(goalId: string, milestoneData: any, options?: CreateRequestOptions): Promise<any> {
     return this.makeRequest(
       `${getSecureApiBaseUrl()}/goals/${goalId}/milestones`,
       {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: jsonHeaders(options),
         body: JSON.stringify(milestoneData),
       },
       ErrorCategory.GOALS,
@@ -560,13 +566,13 @@ class EnhancedAPI {
   }
 
   // Step API methods
-  async createStep(milestoneId: string, stepData: any): Promise<any> {
+  async createStep(milestoneId: string, stepData: any, options?: CreateRequestOptions): Promise<any> {
     const url = `${getSecureApiBaseUrl()}/goals/milestones/${milestoneId}/steps`;
     return this.makeRequest(
       url,
       {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: jsonHeaders(options),
         body: JSON.stringify(stepData),
       },
       ErrorCategory.GOALS,
@@ -0,0 +1,37 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const FOCUS_SKIPS_KEY = 'focusSkipCounts';
+
+/**
+ * Counts how often each task was skipped in Momentum mode. Kept on the device only;
+ * the focus ranking uses the counts to stop offering tasks the user keeps passing over.
+ */
+export const focusSkips = {
+    async getSkipCounts(): Promise<Record<string, number>> {
+        try {
+            const stored = await AsyncStorage.getItem(FOCUS_SKIPS_KEY);
+            const counts = stored ? JSON.parse(stored) : {};
+            return counts && typeof counts === 'object' ? counts : {};
+        } catch {
+            return {};
+        }
+    },
+
+    async recordSkip(taskId: string): Promise<void> {
+        const counts = await this.getSkipCounts();
+        counts[taskId] = (counts[taskId] || 0) + 1;
+        await AsyncStorage.setItem(FOCUS_SKIPS_KEY, JSON.stringify(counts));
+    },
+
+    /**
+     * Drops counts for tasks that are no longer open, so the stored map doesn't grow forever.
+     */
+    async prune(openTaskIds: string[]): Promise<void> {
+        const counts = await this.getSkipCounts();
+        const open = new Set(openTaskIds);
+        const kept = Object.fromEntries(Object.entries(counts).filter(([taskId]) => open.has(taskId)));
+        if (Object.keys(kept).length !== Object.keys(counts).length) {
+            await AsyncStorage.setItem(FOCUS_SKIPS_KEY, JSON.stringify(kept));
+        }
+    },
+};
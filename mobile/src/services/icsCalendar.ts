@@ -0,0 +1,170 @@
+import { Platform } from 'react-native';
+import { errorCodes, isErrorWithCode, keepLocalCopy, pick } from '@react-native-documents/picker';
+import RNFS from 'react-native-fs';
+import Share from 'react-native-share';
+import { addMinutes, addYears, format, subDays } from 'date-fns';
+import { calendarEventRepository, IcsImportResult } from '../repositories/CalendarEventRepository';
+import { taskRepository } from '../repositories/TaskRepository';
+import { buildIcs, expandIcsEvents, IcsExportEvent, parseIcs } from '../utils/ics';
+import { patternToRecurrence } from '../utils/rrule';
+import { DEFAULT_TASK_DURATION_MINUTES } from '../utils/freeBusy';
+
+// Recurring events in an imported file are expanded over this window around today
+const IMPORT_PAST_DAYS = 30;
+const IMPORT_FUTURE_YEARS = 1;
+
+// File managers label .ics files inconsistently, so plain text files can be picked too
+const ICS_FILE_TYPES = Platform.OS === 'ios'
+    ? ['public.calendar-event', 'com.apple.ical.ics', 'public.plain-text']
+    : ['text/calendar', 'text/x-vcalendar', 'application/ics', 'text/plain', 'application/octet-stream'];
+
+export interface IcsImportSummary extends IcsImportResult {
+    // Events in the file, before recurrence expansion
+    eventCount: number;
+}
+
+/**
+ * Moves calendars in and out of the app as .ics files. Exports go through the system share
+ * sheet; imports come from a picked file, a link or pasted text, and are written to the local
+ * database and synced like events created in the app.
+ */
+export const icsCalendar = {
+    /**
+     * Builds .ics text for calendar events overlapping [start, end) plus scheduled tasks
+     * that are due in the range and have no calendar event of their own.
+     */
+    async buildExport(start: Date, end: Date): Promise<{ ics: string; count: number }> {
+        const [events, tasks] = await Promise.all([
+            calendarEventRepository.getEventsInRange(start, end),
+            taskRepository.getAllTasks(),
+        ]);
+        const linkedTaskIds = new Set(events.map(e => e.taskId).filter(Boolean));
+
+        const exported: IcsExportEvent[] = events.map(e => ({
+            uid: e.icsUid || `${e.id}@mindclear`,
+            title: e.title,
+            description: e.description,
+            location: e.location,
+            start: e.startTime,
+            end: e.endTime,
+            isAllDay: e.isAllDay,
+        }));
+
+        for (const task of tasks) {
+            if (!task.dueDate || task.dueDate < start || task.dueDate >= end) { continue; }
+            if (task.lifecycleStatus === 'completed' || linkedTaskIds.has(task.id)) { continue; }
+
+            exported.push({
+                uid: `task-${task.id}@mindclear`,
+                title: task.title,
+                description: task.description,
+                location: task.location,
+                start: task.dueDate,
+                end: addMinutes(task.dueDate, task.estimatedDurationMinutes || DEFAULT_TASK_DURATION_MINUTES),
+                recurrence: taskRecurrence(task.recurrencePatternJson),
+            });
+        }
+
+        exported.sort((a, b) => a.start.getTime() - b.start.getTime());
+        return { ics: buildIcs(exported, { calendarName: 'Mind Clear' }), count: exported.length };
+    },
+
+    /**
+     * Opens the share sheet with the range as an .ics file.
+     * @returns The number of exported events, or 0 when there was nothing to share
+     */
+    async shareRange(start: Date, end: Date): Promise<number> {
+        const { ics, count } = await this.buildExport(start, end);
+        if (count === 0) {
+            return 0;
+        }
+        const title = `Mind Clear ${format(start, 'MMM d')} – ${format(subDays(end, 1), 'MMM d, yyyy')}`;
+        const filename = `mind-clear-${format(start, 'yyyy-MM-dd')}-${format(subDays(end, 1), 'yyyy-MM-dd')}`;
+        // Both platforms share a file by URI; the cache copy is overwritten by the next export of the range
+        const path = `${RNFS.CachesDirectoryPath}/${filename}.ics`;
+        await RNFS.writeFile(path, ics, 'utf8');
+        await Share.open({
+            url: `file://${path}`,
+            type: 'text/calendar',
+            filename,
+            title,
+            subject: title,
+            failOnCancel: false,
+        });
+        return count;
+    },
+
+    /**
+     * Imports .ics text into local events. Re-importing the same file updates the earlier
+     * events rather than duplicating them.
+     */
+    async importText(text: string, now: Date = new Date()): Promise<IcsImportSummary> {
+        const events = parseIcs(text);
+        if (events.length === 0) {
+            throw new Error('No events found in this calendar file');
+        }
+        const occurrences = expandIcsEvents(events, {
+            start: subDays(now, IMPORT_PAST_DAYS),
+            end: addYears(now, IMPORT_FUTURE_YEARS),
+        });
+        const result = await calendarEventRepository.importOccurrences(occurrences);
+        return { ...result, eventCount: events.length };
+    },
+
+    /**
+     * Lets the user pick an .ics file and imports it.
+     * @returns The import summary, or null when the user closed the picker
+     */
+    async importFromFile(now: Date = new Date()): Promise<IcsImportSummary | null> {
+        let picked;
+        try {
+            [picked] = await pick({ type: ICS_FILE_TYPES });
+        } catch (error) {
+            if (isErrorWithCode(error) && error.code === errorCodes.OPERATION_CANCELED) {
+                return null;
+            }
+            throw error;
+        }
+
+        // Picked files are content:// URIs on Android; a local copy can be read as a file
+        const [copy] = await keepLocalCopy({
+            files: [{ uri: picked.uri, fileName: picked.name ?? 'calendar.ics' }],
+            destination: 'cachesDirectory',
+        });
+        if (copy.status !== 'success') {
+            throw new Error('Could not open the calendar file');
+        }
+        const path = decodeURIComponent(copy.localUri.replace(/^file:\/\//, ''));
+        try {
+            return await this.importText(await RNFS.readFile(path, 'utf8'), now);
+        } finally {
+            RNFS.unlink(path).catch(() => undefined);
+        }
+    },
+
+    /**
+     * Downloads a calendar from an https:// or webcal:// link and imports it.
+     */
+    async importFromUrl(url: string, now: Date = new Date()): Promise<IcsImportSummary> {
+        const trimmed = url.trim().replace(/^webcal:\/\//i, 'https://');
+        if (!/^https?:\/\//i.test(trimmed)) {
+            throw new Error('Enter a link starting with https:// or webcal://');
+        }
+        const response = await fetch(trimmed);
+        if (!response.ok) {
+            throw new Error(`Could not download the calendar (${response.status})`);
+        }
+        return await this.importText(await response.text(), now);
+    },
+};
+
+function taskRecurrence(patternJson?: string | null): string[] | undefined {
+    if (!patternJson) {
+        return undefined;
+    }
+    try {
+        return patternToRecurrence(JSON.parse(patternJson));
+    } catch {
+        return undefined;
+    }
+}
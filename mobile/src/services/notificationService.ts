@@ -240,6 +240,9 @@ class NotificationService {
           
           // Update badge count
           await this.updateBadgeCount();
+
+          // Data-only sync messages pull the server's changes without showing anything
+          await this.syncIfRequested(remoteMessage);
           
           // Show local notification or handle in-app
           if (remoteMessage.notification) {
@@ -314,6 +317,18 @@ class NotificationService {
     }
   }
 
+  // Run a background sync when a push message says the server has changes
+  private async syncIfRequested(remoteMessage: any) {
+    try {
+      const { backgroundSyncService, isSyncMessage } = await import('./backgroundSync');
+      if (isSyncMessage(remoteMessage)) {
+        await backgroundSyncService.runBackgroundSync('push');
+      }
+    } catch (error) {
+      console.error('Error running sync for push message:', error);
+    }
+  }
+
   // Handle background notifications
   public async handleBackgroundNotification(remoteMessage: any) {
     try {
@@ -325,6 +340,8 @@ class NotificationService {
       
       // Update badge count
       await this.updateBadgeCount();
+
+      await this.syncIfRequested(remoteMessage);
       
       // For background notifications, we rely on the system to display them
       // The notification should already be displayed by Firebase
@@ -3,14 +3,18 @@ import NetInfo from '@react-native-community/netinfo';
 import { CalendarEvent, Task } from '../types/calendar';
 import Goal from '../db/models/Goal';
 import { Goal as ApiGoal } from './api';
+import { SchedulingPreferences } from '../types/autoScheduling';
 import { taskRepository } from '../repositories/TaskRepository';
 import { goalRepository } from '../repositories/GoalRepository';
+import { outboxRepository } from '../repositories/OutboxRepository';
 
 // Storage keys
 const STORAGE_KEYS = {
   EVENTS_CACHE: 'calendar_events_cache',
   TASKS_CACHE: 'calendar_tasks_cache',
   GOALS_CACHE: 'calendar_goals_cache',
+  SCHEDULING_PREFERENCES: 'scheduling_preferences_cache',
+  // Legacy AsyncStorage queue, replaced by the sync outbox; only cleared now
   OFFLINE_QUEUE: 'calendar_offline_queue',
   LAST_SYNC: 'calendar_last_sync',
   CACHE_TIMESTAMP: 'calendar_cache_timestamp',
@@ -19,23 +23,6 @@ const STORAGE_KEYS = {
 // Cache expiration time (24 hours)
 const CACHE_EXPIRATION = 24 * 60 * 60 * 1000;
 
-// Offline queue item types
-export type OfflineAction = 
-  | { type: 'CREATE_EVENT'; data: any; id: string }
-  | { type: 'UPDATE_EVENT'; data: any; id: string }
-  | { type: 'DELETE_EVENT'; id: string }
-  | { type: 'CREATE_TASK'; data: any; id: string }
-  | { type: 'UPDATE_TASK'; data: any; id: string }
-  | { type: 'DELETE_TASK'; id: string }
-  | { type: 'COMPLETE_TASK'; id: string };
-
-export interface OfflineQueueItem {
-  id: string;
-  action: OfflineAction;
-  timestamp: number;
-  retryCount: number;
-}
-
 export interface CacheData<T> {
   data: T;
   timestamp: number;
@@ -69,9 +56,9 @@ class OfflineService {
       const wasOnline = this.isOnline;
       this.isOnline = _state.isConnected ?? false;
       
-      // If we just came back online, trigger sync
+      // If we just came back online, push what was changed while offline
       if (!wasOnline && this.isOnline) {
-        this.syncOfflineQueue();
+        this.syncPendingChanges();
       }
       
       this.notifyListeners();
@@ -85,15 +72,13 @@ class OfflineService {
   }
 
   // Notify all listeners of state changes
-  private notifyListeners() {
-    const state: OfflineState = {
-      isOnline: this.isOnline,
-      isSyncing: this.isSyncing,
-      pendingActions: 0, // Will be updated when we get queue
-      lastSyncTime: null, // Will be updated when we get last sync
-    };
-
-    this.listeners.forEach(listener => listener(state));
+  private async notifyListeners() {
+    try {
+      const state = await this.getOfflineState();
+      this.listeners.forEach(listener => listener(state));
+    } catch (_error) {
+      console.error('Error reading offline state:', _error);
+    }
   }
 
   // Cache management
@@ -126,9 +111,42 @@ class OfflineService {
     }
   }
 
+  // Scheduling preferences rarely change, so the cached copy does not expire
+  async cacheSchedulingPreferences(preferences: SchedulingPreferences) {
+    const cacheData: CacheData<SchedulingPreferences> = {
+      data: preferences,
+      timestamp: Date.now(),
+      version: '1.0',
+    };
+    await AsyncStorage.setItem(STORAGE_KEYS.SCHEDULING_PREFERENCES, JSON.stringify(cacheData));
+  }
+
+  async getCachedSchedulingPreferences(): Promise<SchedulingPreferences | null> {
+    try {
+      const cached = await AsyncStorage.getItem(STORAGE_KEYS.SCHEDULING_PREFERENCES);
+      if (!cached) {return null;}
+
+      const cacheData: CacheData<SchedulingPreferences> = JSON.parse(cached);
+      return cacheData.data;
+    } catch (_error) {
+      console.error('Error reading cached scheduling preferences:', _error);
+      return null;
+    }
+  }
+
   async getCachedTasks(): Promise<Task[] | null> {
     try {
-      return await taskRepository.getAllTasks();
+      const tasks = await taskRepository.getAllTasks();
+      return tasks.map(task => ({
+        id: task.id,
+        title: task.title,
+        description: task.description,
+        priority: task.priority as Task['priority'],
+        status: task.lifecycleStatus || 'not_started',
+        due_date: task.dueDate?.toISOString(),
+        goal_id: task.goalId,
+        estimated_duration_minutes: task.estimatedDurationMinutes,
+      }));
     } catch (_error) {
       console.error('Error reading cached tasks:', _error);
       return null;
@@ -182,149 +200,36 @@ class OfflineService {
     console.warn('offlineService.cacheGoals is deprecated - use goalRepository');
   }
 
-  // Offline queue management
-  async addToOfflineQueue(action: OfflineAction): Promise<string> {
-    const queueItem: OfflineQueueItem = {
-      id: `${action.type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      action,
-      timestamp: Date.now(),
-      retryCount: 0,
-    };
-
-    try {
-      const existingQueue = await this.getOfflineQueue();
-      existingQueue.push(queueItem);
-      await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_QUEUE, JSON.stringify(existingQueue));
-      
-      this.notifyListeners();
-      return queueItem.id;
-    } catch (_error) {
-      console.error('Error adding to offline queue:', _error);
-      throw _error;
-    }
-  }
-
-  async getOfflineQueue(): Promise<OfflineQueueItem[]> {
-    try {
-      const queue = await AsyncStorage.getItem(STORAGE_KEYS.OFFLINE_QUEUE);
-      return queue ? JSON.parse(queue) : [];
-    } catch (_error) {
-      console.error('Error reading offline queue:', _error);
-      return [];
-    }
-  }
-
-  async removeFromOfflineQueue(itemId: string): Promise<void> {
-    try {
-      const queue = await this.getOfflineQueue();
-      const filteredQueue = queue.filter(item => item.id !== itemId);
-      await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_QUEUE, JSON.stringify(filteredQueue));
-      this.notifyListeners();
-    } catch (_error) {
-      console.error('Error removing from offline queue:', _error);
-    }
-  }
-
-  async updateQueueItemRetryCount(itemId: string, retryCount: number): Promise<void> {
-    try {
-      const queue = await this.getOfflineQueue();
-      const updatedQueue = queue.map(item => 
-        item.id === itemId ? { ...item, retryCount } : item
-      );
-      await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_QUEUE, JSON.stringify(updatedQueue));
-    } catch (_error) {
-      console.error('Error updating queue item retry count:', _error);
-    }
-  }
-
-  // Sync offline queue when back online
-  async syncOfflineQueue(): Promise<void> {
+  // Push local changes recorded in the sync outbox
+  async syncPendingChanges(): Promise<void> {
     if (this.isSyncing || !this.isOnline) {return;}
 
     this.isSyncing = true;
     this.notifyListeners();
 
     try {
-      const queue = await this.getOfflineQueue();
-      if (queue.length === 0) {
-        this.isSyncing = false;
-        this.notifyListeners();
-        return;
-      }
-
-      console.warn(`Syncing ${queue.length} offline actions...`);
-
-      for (const item of queue) {
-        try {
-          await this.processOfflineAction(item);
-          await this.removeFromOfflineQueue(item.id);
-        } catch (error) {
-          console.error(`Error processing offline action ${item.id}:`, error);
-          
-          // Increment retry count
-          const newRetryCount = item.retryCount + 1;
-          await this.updateQueueItemRetryCount(item.id, newRetryCount);
-
-          // Remove item if it has been retried too many times
-          if (newRetryCount >= 3) {
-            console.warn(`Removing offline action ${item.id} after ${newRetryCount} failed attempts`);
-            await this.removeFromOfflineQueue(item.id);
-          }
-        }
-      }
-
-      // Update last sync time
+      // Lazy import to avoid a circular dependency with SyncService
+      const { syncService } = await import('./SyncService');
+      await syncService.silentSync();
       await AsyncStorage.setItem(STORAGE_KEYS.LAST_SYNC, Date.now().toString());
-      
     } catch (_error) {
-      console.error('Error syncing offline queue:', _error);
+      console.error('Error syncing pending changes:', _error);
     } finally {
       this.isSyncing = false;
       this.notifyListeners();
     }
   }
 
-  // Process individual offline action
-  private async processOfflineAction(item: OfflineQueueItem): Promise<void> {
-    const { calendarAPI, tasksAPI } = await import('./api');
-
-    switch (item.action.type) {
-      case 'CREATE_EVENT':
-        await calendarAPI.createEvent(item.action.data);
-        break;
-      case 'UPDATE_EVENT':
-        await calendarAPI.updateEvent(item.action.id, item.action.data);
-        break;
-      case 'DELETE_EVENT':
-        await calendarAPI.deleteEvent(item.action.id);
-        break;
-      case 'CREATE_TASK':
-        await tasksAPI.createTask(item.action.data);
-        break;
-      case 'UPDATE_TASK':
-        await tasksAPI.updateTask(item.action.id, item.action.data);
-        break;
-      case 'DELETE_TASK':
-        await tasksAPI.deleteTask(item.action.id);
-        break;
-      case 'COMPLETE_TASK':
-        await tasksAPI.updateTask(item.action.id, { status: 'completed' });
-        break;
-      default:
-        throw new Error(`Unknown offline action type: ${(item.action as any).type}`);
-    }
-  }
-
   // Get current offline state
   async getOfflineState(): Promise<OfflineState> {
-    const queue = await this.getOfflineQueue();
+    const pendingActions = await outboxRepository.getPendingCount();
     const lastSyncStr = await AsyncStorage.getItem(STORAGE_KEYS.LAST_SYNC);
     const lastSyncTime = lastSyncStr ? parseInt(lastSyncStr, 10) : null;
 
     return {
       isOnline: this.isOnline,
       isSyncing: this.isSyncing,
-      pendingActions: queue.length,
+      pendingActions,
       lastSyncTime,
     };
   }
@@ -336,6 +241,7 @@ class OfflineService {
         AsyncStorage.removeItem(STORAGE_KEYS.EVENTS_CACHE),
         AsyncStorage.removeItem(STORAGE_KEYS.TASKS_CACHE),
         AsyncStorage.removeItem(STORAGE_KEYS.GOALS_CACHE),
+        AsyncStorage.removeItem(STORAGE_KEYS.SCHEDULING_PREFERENCES),
         AsyncStorage.removeItem(STORAGE_KEYS.OFFLINE_QUEUE),
         AsyncStorage.removeItem(STORAGE_KEYS.LAST_SYNC),
       ]);
@@ -1,4 +1,5 @@
 import { apiService } from './apiService';
+import type { CreateRequestOptions } from './enhancedApi';
 
 export interface Routine {
     id: string;
@@ -18,6 +19,11 @@ export interface Routine {
     longest_streak: number;
     total_completions: number;
     grace_periods_remaining: number;
+    grace_period_used_at?: string | null;
+    last_completed_at?: string | null;
+    last_streak_increment_period?: string | null;
+    created_at?: string;
+    updated_at?: string;
     period_status?: {
         completions_count: number;
         target_count: number;
@@ -46,8 +52,8 @@ export const routineService = {
         return response.data as Routine[];
     },
 
-    async createRoutine(payload: CreateRoutinePayload): Promise<Routine> {
-        const response = await apiService.post<Routine>('/routines', payload);
+    async createRoutine(payload: CreateRoutinePayload, options: CreateRequestOptions = {}): Promise<Routine> {
+        const response = await apiService.post<Routine>('/routines', payload, options);
         if (!response.ok) throw new Error((response.data as any)?.error || 'Failed to create routine');
         return response.data as Routine;
     },
@@ -63,8 +69,14 @@ export const routineService = {
         if (!response.ok) throw new Error((response.data as any)?.error || 'Failed to delete routine');
     },
 
-    async logCompletion(id: string, notes?: string): Promise<{ routine: Routine; celebration?: any }> {
-        const response = await apiService.post<{ routine: Routine; celebration?: any }>(`/routines/${id}/complete`, { notes });
+    async logCompletion(
+        id: string,
+        notes?: string,
+        completedAt?: string,
+        options: CreateRequestOptions = {}
+    ): Promise<{ routine: Routine; celebration?: any }> {
+        const payload = completedAt ? { notes, completed_at: completedAt } : { notes };
+        const response = await apiService.post<{ routine: Routine; celebration?: any }>(`/routines/${id}/complete`, payload, options);
         if (!response.ok) throw new Error((response.data as any)?.error || 'Failed to complete routine');
         return response.data as { routine: Routine; celebration?: any };
     },
@@ -0,0 +1,51 @@
+import { apiService } from './apiService';
+import type { CreateRequestOptions } from './enhancedApi';
+
+export interface SavedFilterRecord {
+    id: string;
+    user_id: string;
+    name: string;
+    filter_options: Record<string, unknown>;
+    position: number;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export interface SavedFilterPayload {
+    name?: string;
+    filter_options?: Record<string, unknown>;
+    position?: number;
+}
+
+export const savedFilterService = {
+    async getAllSavedFilters(): Promise<SavedFilterRecord[]> {
+        const response = await apiService.get<SavedFilterRecord[]>('/saved-filters');
+        if (!response.ok) {
+            throw new Error((response.data as any)?.error || 'Failed to fetch saved filters');
+        }
+        return response.data as SavedFilterRecord[];
+    },
+
+    async createSavedFilter(payload: SavedFilterPayload, options: CreateRequestOptions = {}): Promise<SavedFilterRecord> {
+        const response = await apiService.post<SavedFilterRecord>('/saved-filters', payload, options);
+        if (!response.ok) {
+            throw new Error((response.data as any)?.error || 'Failed to create saved filter');
+        }
+        return response.data as SavedFilterRecord;
+    },
+
+    async updateSavedFilter(id: string, payload: SavedFilterPayload): Promise<SavedFilterRecord> {
+        const response = await apiService.put<SavedFilterRecord>(`/saved-filters/${id}`, payload);
+        if (!response.ok) {
+            throw new Error((response.data as any)?.error || 'Failed to update saved filter');
+        }
+        return response.data as SavedFilterRecord;
+    },
+
+    async deleteSavedFilter(id: string): Promise<void> {
+        const response = await apiService.delete(`/saved-filters/${id}`);
+        if (!response.ok) {
+            throw new Error((response.data as any)?.error || 'Failed to delete saved filter');
+        }
+    },
+};
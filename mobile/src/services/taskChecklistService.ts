@@ -0,0 +1,65 @@
+import { apiService } from './apiService';
+import type { CreateRequestOptions } from './enhancedApi';
+import { PageParams, withSyncParams } from '../utils/syncQuery';
+
+export interface TaskChecklistItemRecord {
+    id: string;
+    user_id: string;
+    task_id: string;
+    text: string;
+    is_completed: boolean;
+    position: number;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export interface TaskChecklistItemPayload {
+    task_id?: string;
+    text?: string;
+    is_completed?: boolean;
+    position?: number;
+}
+
+// Items changed and deleted since a sync cursor
+export interface TaskChecklistItemChanges {
+    changed: TaskChecklistItemRecord[];
+    deleted: string[];
+    // Set on paged responses when another page follows
+    next_cursor?: string | null;
+}
+
+export const taskChecklistService = {
+    /**
+     * Items changed since the given cursor; without one, every item is returned as changed.
+     */
+    async getChecklistItemChanges(since?: string | null, page?: PageParams): Promise<TaskChecklistItemChanges> {
+        const response = await apiService.get<TaskChecklistItemChanges>(withSyncParams('/task-checklist-items', since, page));
+        if (!response.ok) {
+            throw new Error((response.data as any)?.error || 'Failed to fetch checklist items');
+        }
+        return response.data as TaskChecklistItemChanges;
+    },
+
+    async createChecklistItem(payload: TaskChecklistItemPayload, options: CreateRequestOptions = {}): Promise<TaskChecklistItemRecord> {
+        const response = await apiService.post<TaskChecklistItemRecord>('/task-checklist-items', payload, options);
+        if (!response.ok) {
+            throw new Error((response.data as any)?.error || 'Failed to create checklist item');
+        }
+        return response.data as TaskChecklistItemRecord;
+    },
+
+    async updateChecklistItem(id: string, payload: TaskChecklistItemPayload): Promise<TaskChecklistItemRecord> {
+        const response = await apiService.put<TaskChecklistItemRecord>(`/task-checklist-items/${id}`, payload);
+        if (!response.ok) {
+            throw new Error((response.data as any)?.error || 'Failed to update checklist item');
+        }
+        return response.data as TaskChecklistItemRecord;
+    },
+
+    async deleteChecklistItem(id: string): Promise<void> {
+        const response = await apiService.delete(`/task-checklist-items/${id}`);
+        if (!response.ok) {
+            throw new Error((response.data as any)?.error || 'Failed to delete checklist item');
+        }
+    },
+};
@@ -0,0 +1,41 @@
+import { apiService } from './apiService';
+import type { CreateRequestOptions } from './enhancedApi';
+
+export interface TaskDependencyRecord {
+    id: string;
+    user_id: string;
+    task_id: string;
+    depends_on_task_id: string;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export interface TaskDependencyPayload {
+    task_id: string;
+    depends_on_task_id: string;
+}
+
+export const taskDependencyService = {
+    async getAllTaskDependencies(): Promise<TaskDependencyRecord[]> {
+        const response = await apiService.get<TaskDependencyRecord[]>('/task-dependencies');
+        if (!response.ok) {
+            throw new Error((response.data as any)?.error || 'Failed to fetch task dependencies');
+        }
+        return response.data as TaskDependencyRecord[];
+    },
+
+    async createTaskDependency(payload: TaskDependencyPayload, options: CreateRequestOptions = {}): Promise<TaskDependencyRecord> {
+        const response = await apiService.post<TaskDependencyRecord>('/task-dependencies', payload, options);
+        if (!response.ok) {
+            throw new Error((response.data as any)?.message || (response.data as any)?.error || 'Failed to create task dependency');
+        }
+        return response.data as TaskDependencyRecord;
+    },
+
+    async deleteTaskDependency(id: string): Promise<void> {
+        const response = await apiService.delete(`/task-dependencies/${id}`);
+        if (!response.ok) {
+            throw new Error((response.data as any)?.error || 'Failed to delete task dependency');
+        }
+    },
+};
@@ -23,6 +23,10 @@ export interface CalendarEvent {
     timeZone?: string;
   };
   location?: string;
+  // IANA zone the event was planned in; times above are instants shown in the viewer's zone
+  time_zone?: string;
+  // Google Calendar API format: RRULE/EXDATE lines, set on recurring master events only
+  recurrence?: string[];
   google_calendar_id?: string;
   created_at?: string;
   updated_at?: string;
@@ -40,6 +44,8 @@ export interface Task {
   category?: string;
   goal_id?: string;
   estimated_duration_minutes?: number;
+  location?: string;
+  is_recurring?: boolean;
   created_at?: string;
   updated_at?: string;
   goal?: {
@@ -0,0 +1,145 @@
+import {
+  AI_PAYLOAD_VERSION,
+  buildMessageMetadata,
+  payloadFromAssistantText,
+  resolveMessagePayload,
+  validateAiPayload,
+} from '../aiPayload';
+
+const fenced = (json: object, prose = 'Here you go:') => `${prose}\n\`\`\`json\n${JSON.stringify(json)}\n\`\`\``;
+
+describe('payloadFromAssistantText', () => {
+  it('reads goal breakdowns in the current and older schemas', () => {
+    const current = payloadFromAssistantText(fenced({
+      category: 'goal',
+      title: 'Run a marathon',
+      goal: {
+        title: 'Run a marathon',
+        description: 'Finish by spring',
+        due_date: '2026-04-01',
+        priority: 'high',
+        milestones: [{ title: 'Base', steps: [{ text: 'Run 3x a week' }, 'Buy shoes', { title: 'Join a club' }] }],
+      },
+    }));
+    const older = payloadFromAssistantText(fenced({
+      category: 'goal',
+      title: 'Learn Spanish',
+      description: '',
+      priority: 'medium',
+      milestones: [{ title: 'Basics', steps: [{ text: 'Download an app' }] }],
+    }));
+
+    expect(current).toEqual({
+      version: AI_PAYLOAD_VERSION,
+      type: 'goal_breakdown',
+      data: {
+        title: 'Run a marathon',
+        description: 'Finish by spring',
+        dueDate: '2026-04-01',
+        category: 'high',
+        milestones: [{ title: 'Base', steps: [{ text: 'Run 3x a week' }, { text: 'Buy shoes' }, { text: 'Join a club' }] }],
+      },
+    });
+    expect(older?.data).toMatchObject({ title: 'Learn Spanish', category: 'medium' });
+  });
+
+  it('reads goal titles, including the read action wrapper', () => {
+    expect(payloadFromAssistantText(fenced({ category: 'goal', title: 'Goals', goals: ['A', 'B'] }))).toMatchObject({
+      type: 'goal_titles',
+      data: { title: 'Goals', goals: ['A', 'B'] },
+    });
+    expect(payloadFromAssistantText(JSON.stringify({
+      action_type: 'read', entity_type: 'goal', details: { goals: ['Only one'] },
+    }))).toMatchObject({ type: 'goal_titles', data: { title: 'Your Goals', goals: ['Only one'] } });
+  });
+
+  it('reads schedules with either time key style', () => {
+    const payload = payloadFromAssistantText(fenced({
+      category: 'schedule',
+      events: [
+        { title: 'Standup', startTime: '9:00 AM', endTime: '9:15 AM', date: 'Monday' },
+        { summary: 'Lunch', start: { dateTime: '2026-10-19T12:00:00Z' }, end: { dateTime: '2026-10-19T13:00:00Z' } },
+      ],
+    }));
+
+    expect(payload?.type).toBe('schedule');
+    expect(payload?.data).toEqual({
+      title: undefined,
+      events: [
+        { activity: 'Standup', startTime: '9:00 AM', endTime: '9:15 AM', date: 'Monday' },
+        { activity: 'Lunch', startTime: '2026-10-19T12:00:00Z', endTime: '2026-10-19T13:00:00Z', date: undefined },
+      ],
+    });
+  });
+
+  it('reads task lists', () => {
+    expect(payloadFromAssistantText(fenced({ category: 'task', tasks: [{ title: 'Pay rent', due_date: 'Friday' }] }))).toMatchObject({
+      type: 'task_list',
+      data: { title: 'Your Tasks', tasks: [{ title: 'Pay rent', dueDate: 'Friday' }] },
+    });
+  });
+
+  it('returns null for prose, broken JSON and structures that would render empty', () => {
+    expect(payloadFromAssistantText('Sounds good, talk soon!')).toBeNull();
+    expect(payloadFromAssistantText('```json\n{"category": "task", "tasks": [\n```')).toBeNull();
+    expect(payloadFromAssistantText(fenced({ category: 'goal', title: 'Empty', milestones: [] }))).toBeNull();
+    expect(payloadFromAssistantText(fenced({ category: 'schedule', events: [{ title: 'No times' }] }))).toBeNull();
+  });
+});
+
+describe('validateAiPayload', () => {
+  it('reports which field is wrong', () => {
+    expect(validateAiPayload({ version: 1, type: 'task_list', data: { title: 'Tasks', tasks: [{ title: '' }] } }).error)
+      .toBe('task_list: tasks[0]: title is required');
+    expect(validateAiPayload({ version: 1, type: 'goal_titles', data: { title: 'Goals', goals: [] } }).error)
+      .toBe('goal_titles: goals must be a non-empty array');
+    expect(validateAiPayload({ type: 'schedule', data: {} }).error).toBe('version must be a positive integer');
+  });
+});
+
+describe('resolveMessagePayload', () => {
+  const stored = { version: 1, type: 'goal_titles', data: { title: 'Goals', goals: ['Stored'] } };
+
+  it('prefers the stored payload over the text', () => {
+    const text = fenced({ category: 'goal', goals: ['From text'] });
+    expect(resolveMessagePayload(JSON.stringify({ payload: stored }), text)).toEqual({ status: 'ok', payload: stored });
+  });
+
+  it('marks unknown types and newer versions as unsupported', () => {
+    expect(resolveMessagePayload({ payload: { version: 1, type: 'habit_plan', data: {} } }, '')).toEqual({
+      status: 'unsupported', type: 'habit_plan', version: 1,
+    });
+    expect(resolveMessagePayload({ payload: { ...stored, version: AI_PAYLOAD_VERSION + 1 } }, '')).toMatchObject({
+      status: 'unsupported', type: 'goal_titles',
+    });
+  });
+
+  it('falls back to the text when the stored payload is invalid or missing', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const text = fenced({ category: 'goal', goals: ['From text'] });
+
+    expect(resolveMessagePayload({ payload: { ...stored, data: {} } }, text)).toMatchObject({
+      status: 'ok', payload: { data: { goals: ['From text'] } },
+    });
+    expect(resolveMessagePayload('not json', 'plain reply')).toBeNull();
+    warn.mockRestore();
+  });
+
+  it('does not scan the text when the server stored no payload', () => {
+    const text = fenced({ category: 'goal', goals: ['From text'] });
+    expect(resolveMessagePayload(JSON.stringify({ actions: [], payload: null }), text)).toBeNull();
+  });
+});
+
+describe('buildMessageMetadata', () => {
+  it('keeps existing fields and adds the payload sent by the server', () => {
+    const payload = { version: 1, type: 'goal_titles', data: { title: 'Your Goals', goals: ['A'] } };
+    expect(JSON.parse(buildMessageMetadata(payload, { actions: [] })!)).toEqual({ actions: [], payload });
+    expect(JSON.parse(buildMessageMetadata(null)!)).toEqual({ payload: null });
+  });
+
+  it('leaves the payload out when the server did not send one', () => {
+    expect(buildMessageMetadata(undefined)).toBeUndefined();
+    expect(JSON.parse(buildMessageMetadata(undefined, { actions: [] })!)).toEqual({ actions: [] });
+  });
+});
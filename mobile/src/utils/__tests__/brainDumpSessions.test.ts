@@ -0,0 +1,85 @@
+import {
+  SessionItem,
+  completeSessionItems,
+  getOpenItems,
+  matchCreatedTasks,
+  mergeSessionItems,
+  parseSessionItems,
+  summarizeSession,
+} from '../brainDumpSessions';
+
+const item = (id: string, text: string, type: 'task' | 'goal' = 'task', extra: Partial<SessionItem> = {}): SessionItem => ({
+  id,
+  text,
+  type,
+  ...extra,
+});
+
+describe('brainDumpSessions', () => {
+  it('keeps dropped items and recorded outcomes when merging the working list', () => {
+    const previous = [
+      item('a', 'Call mom'),
+      item('b', 'Learn Spanish', 'goal', { outcome: { kind: 'goal', goalId: null } }),
+      item('c', 'Buy milk'),
+    ];
+    const next = [item('a', 'Call mom tonight'), item('d', 'Pay rent')];
+
+    const merged = mergeSessionItems(previous, next);
+
+    expect(merged.map(i => [i.id, i.text])).toEqual([
+      ['a', 'Call mom tonight'],
+      ['b', 'Learn Spanish'],
+      ['c', 'Buy milk'],
+      ['d', 'Pay rent'],
+    ]);
+    expect(merged[1].outcome).toEqual({ kind: 'goal', goalId: null });
+    expect(getOpenItems(merged).map(i => i.id)).toEqual(['a', 'c', 'd']);
+  });
+
+  it('pairs created tasks with items by title, once each', () => {
+    const items = [item('a', 'Call mom'), item('b', 'call  MOM'), item('c', 'Pay rent'), item('g', 'Run a 5k', 'goal')];
+    const created = [{ id: 't1', title: 'Pay rent' }, { id: 't2', title: 'Call mom' }, { id: 't3', title: 'Run a 5k' }];
+
+    expect(matchCreatedTasks(items, created)).toEqual({ a: 't2', c: 't1' });
+  });
+
+  it('marks unmatched items as discarded when the session completes', () => {
+    const items = [
+      item('a', 'Call mom'),
+      item('b', 'Buy milk'),
+      item('g', 'Run a 5k', 'goal', { outcome: { kind: 'goal', goalId: 'goal-1' } }),
+    ];
+
+    expect(completeSessionItems(items, { a: 't1' }).map(i => i.outcome)).toEqual([
+      { kind: 'task', taskId: 't1' },
+      { kind: 'discarded' },
+      { kind: 'goal', goalId: 'goal-1' },
+    ]);
+  });
+
+  it('summarizes outcomes and counts completed tasks', () => {
+    const items = [
+      item('a', 'Call mom', 'task', { outcome: { kind: 'task', taskId: 't1' } }),
+      item('b', 'Pay rent', 'task', { outcome: { kind: 'task', taskId: 't2' } }),
+      item('c', 'Deleted later', 'task', { outcome: { kind: 'task', taskId: 't3' } }),
+      item('d', 'Buy milk', 'task', { outcome: { kind: 'discarded' } }),
+      item('g', 'Run a 5k', 'goal', { outcome: { kind: 'goal', goalId: null } }),
+      item('e', 'Still refining'),
+    ];
+    const statuses = new Map([['t1', 'completed'], ['t2', 'in_progress']]);
+
+    expect(summarizeSession(items, statuses)).toEqual({
+      total: 6,
+      tasks: 3,
+      goals: 1,
+      discarded: 1,
+      open: 1,
+      completedTasks: 1,
+    });
+  });
+
+  it('ignores malformed stored items', () => {
+    expect(parseSessionItems('not json')).toEqual([]);
+    expect(parseSessionItems(JSON.stringify([{ id: 'a', text: 'Ok', type: 'task' }, { text: 'no id' }]))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,87 @@
+import { createDraftItems, openTaskKeys, removeExistingTasks, splitBrainDump } from '../brainDumpSplitter';
+import { SessionItem, mergeExtractedItems } from '../brainDumpSessions';
+
+describe('brainDumpSplitter', () => {
+  it('splits lines, bullets and sentences and drops duplicates', () => {
+    const text = [
+      '- call the dentist',
+      '* Buy milk. Pay rent!',
+      '1) Email Sam; book flights',
+      '[ ] buy MILK',
+      '',
+      '   .',
+    ].join('\n');
+
+    expect(splitBrainDump(text)).toEqual(['call the dentist', 'Buy milk', 'Pay rent', 'Email Sam', 'book flights']);
+  });
+
+  it('drafts medium priority tasks, and goals from "Goal:" lines', () => {
+    const [task, goal] = createDraftItems('Water plants\nGoal: run a marathon');
+
+    expect(task).toMatchObject({ text: 'Water plants', type: 'task', priority: 'medium', draft: { text: 'Water plants', type: 'task' } });
+    expect(goal).toMatchObject({ text: 'run a marathon', type: 'goal', draft: { text: 'run a marathon', type: 'goal' } });
+  });
+
+  it('drops tasks that are already open, keeping goals', () => {
+    const keys = openTaskKeys([
+      { title: 'Buy  Milk', lifecycleStatus: 'not_started' },
+      { title: 'Pay rent', lifecycleStatus: 'completed' },
+    ]);
+    const items = [
+      { text: 'buy milk', type: 'task' },
+      { text: 'Buy milk', type: 'goal' },
+      { text: 'Pay rent', type: 'task' },
+    ];
+
+    expect(removeExistingTasks(items, keys)).toEqual([{ text: 'Buy milk', type: 'goal' }, { text: 'Pay rent', type: 'task' }]);
+  });
+});
+
+describe('mergeExtractedItems', () => {
+  const draft = (id: string, text: string, extra: Partial<SessionItem> = {}): SessionItem => ({
+    id,
+    text,
+    type: 'task',
+    priority: 'medium',
+    stress_level: 'medium',
+    category: null,
+    draft: { text, type: 'task' },
+    ...extra,
+  });
+
+  it('fills drafts from AI without replacing user edits', () => {
+    const items = [
+      draft('a', 'Call mom tonight', { draft: { text: 'Call mom', type: 'task' } }),
+      draft('b', 'Learn Spanish', { type: 'goal' }),
+      draft('c', 'Water plants'),
+    ];
+    const extracted = [
+      { text: 'call mom', type: 'task', category: 'family', stress_level: 'high', priority: 'high', confidence: 0.9 },
+      { text: 'Learn Spanish', type: 'task', category: 'learning', stress_level: 'low', priority: 'low' },
+    ];
+
+    const merged = mergeExtractedItems(items, extracted);
+
+    expect(merged[0]).toEqual({
+      id: 'a', text: 'Call mom tonight', type: 'task', category: 'family', stress_level: 'high', priority: 'high', confidence: 0.9,
+    });
+    expect(merged[1]).toMatchObject({ text: 'Learn Spanish', type: 'goal', category: 'learning', priority: 'low' });
+    expect(merged[2]).not.toHaveProperty('draft');
+    expect(merged).toHaveLength(3);
+  });
+
+  it('appends new AI items unless known, dropped or already a task', () => {
+    const known = [draft('x', 'Buy milk', { outcome: { kind: 'discarded' } })];
+    const extracted = [
+      { text: 'Buy milk', type: 'task' },
+      { text: 'Pay rent', type: 'task' },
+      { text: 'Book flights', type: 'task', stress_level: 'high' },
+    ];
+
+    const merged = mergeExtractedItems([], extracted, known, new Set(['pay rent']));
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ text: 'Book flights', type: 'task', stress_level: 'high', priority: 'high' });
+    expect(merged[0].id).toEqual(expect.any(String));
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  conflictEventFromApi,
+  describeConflict,
+  findConflicts,
+  getConflictingIds,
+  suggestAlternatives,
+} from '../calendarConflicts';
+
+// Monday 19 October 2026
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 9, day, hours, minutes);
+const event = (id: string, startTime: Date, endTime: Date, extra: { isAllDay?: boolean; title?: string } = {}) =>
+  ({ id, title: id, startTime, endTime, ...extra });
+
+describe('findConflicts', () => {
+  const events = [
+    event('standup', at(19, 10), at(19, 10, 30)),
+    event('lunch', at(19, 12), at(19, 13)),
+    event('holiday', at(19, 0), at(20, 0), { isAllDay: true }),
+    event('tomorrow', at(20, 10), at(20, 11)),
+  ];
+
+  it('reports overlaps first, then buffer and all-day conflicts', () => {
+    const conflicts = findConflicts({ startTime: at(19, 10, 15), endTime: at(19, 11, 50) }, events, { bufferMinutes: 15 });
+
+    expect(conflicts.map(c => [c.event.id, c.kind])).toEqual([
+      ['standup', 'overlap'],
+      ['lunch', 'buffer'],
+      ['holiday', 'all_day'],
+    ]);
+  });
+
+  it('treats back-to-back events as free without a buffer and skips ignored events', () => {
+    expect(findConflicts({ id: 'standup', startTime: at(19, 10, 30), endTime: at(19, 12) }, events)
+      .map(c => c.kind)).toEqual(['all_day']);
+    expect(findConflicts({ startTime: at(20, 9), endTime: at(20, 10, 30) }, events, { ignoreIds: ['tomorrow'] })).toEqual([]);
+  });
+
+  it('does not carry an all-day event ending at midnight into the next day', () => {
+    expect(findConflicts({ startTime: at(20, 0), endTime: at(21, 0), isAllDay: true }, events).map(c => c.event.id))
+      .toEqual(['tomorrow']);
+  });
+
+  it('describes conflicts for warnings', () => {
+    const [overlap, buffer, allDay] = findConflicts({ startTime: at(19, 10, 15), endTime: at(19, 11, 50) }, events, { bufferMinutes: 15 });
+    expect(describeConflict(overlap)).toBe('Overlaps "standup" (10:00 AM)');
+    expect(describeConflict(buffer, 15)).toBe('Less than 15 min from "lunch" (12:00 PM)');
+    expect(describeConflict(allDay)).toBe('Same day as all-day event "holiday"');
+  });
+});
+
+describe('getConflictingIds', () => {
+  it('flags timed events that overlap another timed event', () => {
+    const ids = getConflictingIds([
+      event('a', at(19, 9), at(19, 11)),
+      event('b', at(19, 10, 30), at(19, 10, 45)),
+      event('c', at(19, 11), at(19, 12)),
+      event('d', at(19, 0), at(20, 0), { isAllDay: true }),
+    ]);
+    expect([...ids].sort()).toEqual(['a', 'b']);
+  });
+});
+
+describe('suggestAlternatives', () => {
+  const preferences = { preferred_start_time: '09:00:00', preferred_end_time: '17:00:00', buffer_time_minutes: 15 };
+
+  it('offers the nearest free times of the same length within the preferred hours', () => {
+    const events = [
+      event('standup', at(19, 10), at(19, 10, 30)),
+      event('review', at(19, 11), at(19, 12)),
+    ];
+    const suggestions = suggestAlternatives(
+      { startTime: at(19, 10), endTime: at(19, 11) },
+      events,
+      preferences,
+      { count: 2, now: at(19, 8) }
+    );
+
+    expect(suggestions).toEqual([
+      { startTime: at(19, 12, 15), endTime: at(19, 13, 15) },
+      { startTime: at(20, 9), endTime: at(20, 10) },
+    ]);
+  });
+
+  it('skips days off and days that already hold the most tasks', () => {
+    const events = [{ ...event('task', at(26, 14), at(26, 15)), taskId: 't1' }];
+    const suggestions = suggestAlternatives(
+      { startTime: at(24, 10), endTime: at(24, 11) },
+      events,
+      { ...preferences, max_tasks_per_day: 1 },
+      { count: 1, now: at(19, 8) }
+    );
+
+    expect(suggestions).toEqual([{ startTime: at(27, 9), endTime: at(27, 10) }]);
+  });
+
+  it('does not suggest times in the past or for all-day events', () => {
+    const events = [event('busy', at(19, 0), at(19, 22))];
+    expect(suggestAlternatives({ startTime: at(19, 9), endTime: at(19, 10) }, events, preferences, { count: 1, now: at(19, 8) }))
+      .toEqual([{ startTime: at(20, 9), endTime: at(20, 10) }]);
+    expect(suggestAlternatives({ startTime: at(19, 0), endTime: at(20, 0), isAllDay: true }, events, preferences)).toEqual([]);
+  });
+});
+
+describe('conflictEventFromApi', () => {
+  it('reads database and Google event shapes', () => {
+    expect(conflictEventFromApi({ id: 1, summary: 'Sync', start: { dateTime: at(19, 9).toISOString() }, end: { dateTime: at(19, 10).toISOString() } }))
+      .toEqual({ id: '1', title: 'Sync', startTime: at(19, 9), endTime: at(19, 10), isAllDay: false, taskId: null });
+    expect(conflictEventFromApi({ id: 'x', title: 'Task', start_time: at(19, 9).toISOString(), task_id: 't1' }))
+      .toMatchObject({ endTime: at(19, 9), taskId: 't1' });
+    expect(conflictEventFromApi({ id: 'y' })).toBeNull();
+  });
+});
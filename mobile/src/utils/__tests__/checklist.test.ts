@@ -0,0 +1,53 @@
+import { extractChecklistItems, summarizeChecklists } from '../checklist';
+
+describe('checklist', () => {
+  it('extracts numbered and bulleted steps', () => {
+    const message = [
+      "Here's a breakdown:",
+      '',
+      '1. **Gather** last year\'s return',
+      '2) Download bank statements',
+      '- [ ] Book an appointment',
+      '* `Sign` the forms',
+    ].join('\n');
+
+    expect(extractChecklistItems(message)).toEqual([
+      "Gather last year's return",
+      'Download bank statements',
+      'Book an appointment',
+      'Sign the forms',
+    ]);
+  });
+
+  it('keeps only top-level items and skips headings, code and duplicates', () => {
+    const message = [
+      '- Documents:',
+      '- Collect receipts',
+      '  - Medical',
+      '  - Charity',
+      '- collect receipts',
+      '```',
+      '- not a step',
+      '```',
+      '- File the return',
+    ].join('\n');
+
+    expect(extractChecklistItems(message)).toEqual(['Collect receipts', 'File the return']);
+  });
+
+  it('returns nothing for plain prose', () => {
+    expect(extractChecklistItems('Start with the hardest part first.')).toEqual([]);
+  });
+
+  it('summarizes progress per task', () => {
+    const progress = summarizeChecklists([
+      { taskId: 'a', isCompleted: true },
+      { taskId: 'a', isCompleted: false },
+      { taskId: 'b', isCompleted: false },
+    ]);
+
+    expect(progress.get('a')).toEqual({ done: 1, total: 2 });
+    expect(progress.get('b')).toEqual({ done: 0, total: 1 });
+    expect(progress.has('c')).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  formatSecondaryTime,
+  formatTime,
+  fromZonedTime,
+  getAllDayRangeInZone,
+  getTimeZoneAbbreviation,
+  getZonedDay,
+  getZoneOffsetMinutes,
+  isValidTimeZone,
+  toZonedTime,
+} from '../dateUtils';
+
+jest.unmock('../dateUtils');
+
+// US clocks go forward on 8 March 2026 and back on 1 November 2026; EU clocks on 29 March and 25 October
+const NEW_YORK = 'America/New_York';
+const BERLIN = 'Europe/Berlin';
+const wall = (month: number, day: number, hours: number, minutes = 0) => new Date(2026, month - 1, day, hours, minutes);
+const utc = (iso: string) => new Date(`${iso}Z`);
+// Intl may use narrow no-break spaces before AM/PM
+const plain = (text: string | null) => text?.replace(/\s/g, ' ') ?? null;
+
+describe('zone offsets', () => {
+  it('follows DST changes', () => {
+    expect(getZoneOffsetMinutes(utc('2026-03-08T06:59:00'), NEW_YORK)).toBe(-300);
+    expect(getZoneOffsetMinutes(utc('2026-03-08T07:00:00'), NEW_YORK)).toBe(-240);
+    expect(getZoneOffsetMinutes(utc('2026-11-01T05:59:00'), NEW_YORK)).toBe(-240);
+    expect(getZoneOffsetMinutes(utc('2026-11-01T06:00:00'), NEW_YORK)).toBe(-300);
+    expect(getZoneOffsetMinutes(utc('2026-07-01T12:00:00'), BERLIN)).toBe(120);
+  });
+
+  it('rejects unknown zones', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    expect(isValidTimeZone(undefined)).toBe(false);
+  });
+});
+
+describe('toZonedTime and fromZonedTime', () => {
+  it('round-trips ordinary wall times', () => {
+    const instant = fromZonedTime(wall(10, 19, 9, 30), NEW_YORK);
+    expect(instant).toEqual(utc('2026-10-19T13:30:00'));
+    expect(toZonedTime(instant, NEW_YORK)).toEqual(wall(10, 19, 9, 30));
+  });
+
+  it('moves times skipped by spring-forward ahead by the gap', () => {
+    expect(fromZonedTime(wall(3, 8, 2, 30), NEW_YORK)).toEqual(utc('2026-03-08T07:30:00'));
+    expect(fromZonedTime(wall(3, 29, 2, 30), BERLIN)).toEqual(utc('2026-03-29T01:30:00'));
+  });
+
+  it('resolves times repeated by fall-back to the first occurrence', () => {
+    expect(fromZonedTime(wall(11, 1, 1, 30), NEW_YORK)).toEqual(utc('2026-11-01T05:30:00'));
+    expect(fromZonedTime(wall(10, 25, 2, 30), BERLIN)).toEqual(utc('2026-10-25T00:30:00'));
+  });
+
+  it('keeps the same wall time on both sides of a DST change', () => {
+    const before = fromZonedTime(wall(10, 31, 9), NEW_YORK);
+    const after = fromZonedTime(wall(11, 2, 9), NEW_YORK);
+    expect(after.getTime() - before.getTime()).toBe((48 + 1) * 60 * 60 * 1000);
+    expect(toZonedTime(after, NEW_YORK).getHours()).toBe(9);
+  });
+});
+
+describe('formatting in other zones', () => {
+  it('formats times and zone names for the given instant', () => {
+    expect(plain(formatTime(utc('2026-11-01T05:30:00'), NEW_YORK))).toBe('01:30 AM');
+    expect(plain(formatTime(utc('2026-11-01T06:30:00'), NEW_YORK))).toBe('01:30 AM');
+    expect(getTimeZoneAbbreviation(utc('2026-11-01T05:30:00'), NEW_YORK)).toBe('EDT');
+    expect(getTimeZoneAbbreviation(utc('2026-11-01T06:30:00'), NEW_YORK)).toBe('EST');
+  });
+
+  it('labels the event zone only when its clocks differ from the viewer', () => {
+    const instant = utc('2026-10-19T13:00:00');
+    expect(plain(formatSecondaryTime(instant, NEW_YORK, 'America/Los_Angeles'))).toBe('09:00 AM EDT');
+    expect(formatSecondaryTime(instant, 'America/Detroit', NEW_YORK)).toBeNull();
+    expect(formatSecondaryTime(instant, undefined, NEW_YORK)).toBeNull();
+  });
+
+  it('differs between zones that change DST on different dates', () => {
+    // 26 October: Berlin is back on CET, New York still on EDT (5 hours apart instead of 6)
+    const instant = utc('2026-10-26T13:00:00');
+    expect(plain(formatSecondaryTime(instant, BERLIN, NEW_YORK))).toBe('02:00 PM GMT+1');
+  });
+});
+
+describe('getZonedDay', () => {
+  it('keeps the calendar day an instant has in its own zone', () => {
+    // Local midnight on 20 October in New York is still 19 October in Los Angeles
+    const midnight = fromZonedTime(wall(10, 20, 0), NEW_YORK);
+    expect(getZonedDay(midnight, NEW_YORK)).toEqual(wall(10, 20, 0));
+    expect(getZonedDay(midnight, 'America/Los_Angeles')).toEqual(wall(10, 19, 0));
+  });
+});
+
+describe('getAllDayRangeInZone', () => {
+  it('keeps all-day events on their own dates for a viewer in another zone', () => {
+    const start = fromZonedTime(wall(10, 20, 0), NEW_YORK);
+    const end = fromZonedTime(wall(10, 21, 0), NEW_YORK);
+    expect(getAllDayRangeInZone(start, end, NEW_YORK)).toEqual({ start: wall(10, 20, 0), end: wall(10, 21, 0) });
+  });
+
+  it('covers the whole last day when the end is not midnight, including across DST', () => {
+    const start = fromZonedTime(wall(10, 31, 0), NEW_YORK);
+    const end = fromZonedTime(wall(11, 1, 23, 59), NEW_YORK);
+    expect(getAllDayRangeInZone(start, end, NEW_YORK)).toEqual({ start: wall(10, 31, 0), end: wall(11, 2, 0) });
+    expect(getAllDayRangeInZone(start, start, NEW_YORK)).toEqual({ start: wall(10, 31, 0), end: wall(11, 1, 0) });
+  });
+});
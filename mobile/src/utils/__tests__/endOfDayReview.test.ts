@@ -0,0 +1,46 @@
+import {
+  countEodActions,
+  getEndOfDayTasks,
+  isReflectionScore,
+  rolloverDueDate,
+  toReflectionDate,
+} from '../endOfDayReview';
+
+const NOW = new Date(2026, 9, 14, 18, 0);
+
+describe('endOfDayReview', () => {
+  it('reviews open tasks due today with the focus task first', () => {
+    const tasks = [
+      { id: 'late', dueDate: new Date(2026, 9, 14, 16, 0), lifecycleStatus: 'not_started' },
+      { id: 'early', dueDate: new Date(2026, 9, 14, 9, 0), lifecycleStatus: 'in_progress' },
+      { id: 'done', dueDate: new Date(2026, 9, 14, 9, 0), lifecycleStatus: 'completed' },
+      { id: 'tomorrow', dueDate: new Date(2026, 9, 15, 9, 0), lifecycleStatus: 'not_started' },
+      { id: 'undated', lifecycleStatus: 'not_started' },
+      { id: 'focus', lifecycleStatus: 'not_started', isTodayFocus: true },
+    ];
+
+    expect(getEndOfDayTasks(tasks, NOW).map(t => t.id)).toEqual(['focus', 'early', 'late']);
+  });
+
+  it('keeps the time of day when rolling over', () => {
+    const target = new Date(2026, 9, 20);
+
+    expect(rolloverDueDate(new Date(2026, 9, 14, 16, 30), target)).toEqual(new Date(2026, 9, 20, 16, 30));
+    expect(rolloverDueDate(undefined, target)).toEqual(new Date(2026, 9, 20, 0, 0));
+  });
+
+  it('counts the chosen actions', () => {
+    expect(countEodActions({ a: 'done', b: 'rollover', c: 'rollover', d: 'drop', e: undefined })).toEqual({
+      completedCount: 1,
+      rolledOverCount: 2,
+      droppedCount: 1,
+    });
+  });
+
+  it('formats reflection dates and validates scores', () => {
+    expect(toReflectionDate(NOW)).toBe('2026-10-14');
+    expect(isReflectionScore(3)).toBe(true);
+    expect(isReflectionScore(0)).toBe(false);
+    expect(isReflectionScore(2.5)).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  applyFilter,
+  countActiveFilters,
+  DEFAULT_FILTER_OPTIONS,
+  eventMatchesFilter,
+  FilterOptions,
+  parseFilterOptions,
+  serializeFilterOptions,
+  taskMatchesFilter,
+} from '../filterEngine';
+import { CalendarEvent, Task } from '../../types/calendar';
+
+// Wednesday, mid-morning local time
+const now = new Date(2026, 2, 11, 10, 0);
+
+const at = (day: number, hour = 9, minute = 0) => new Date(2026, 2, day, hour, minute).toISOString();
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 't1',
+  title: 'Buy groceries',
+  priority: 'medium',
+  status: 'not_started',
+  ...overrides,
+});
+
+const event = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id: 'e1',
+  title: 'Team sync',
+  start_time: at(11, 14),
+  end_time: at(11, 15),
+  ...overrides,
+});
+
+const filter = (overrides: Partial<FilterOptions>): FilterOptions => ({ ...DEFAULT_FILTER_OPTIONS, ...overrides });
+
+describe('filterEngine', () => {
+  it('matches everything with the default options', () => {
+    expect(taskMatchesFilter(task(), DEFAULT_FILTER_OPTIONS, now)).toBe(true);
+    expect(eventMatchesFilter(event(), DEFAULT_FILTER_OPTIONS, now)).toBe(true);
+    expect(countActiveFilters(DEFAULT_FILTER_OPTIONS)).toBe(0);
+  });
+
+  it('combines options, e.g. high-priority errands this week', () => {
+    const options = filter({ searchText: 'errand', priority: 'high', dateRange: 'this_week' });
+    const tasks = [
+      task({ id: 'match', title: 'Errands', priority: 'high', due_date: at(13) }),
+      task({ id: 'low', title: 'Errands', priority: 'low', due_date: at(13) }),
+      task({ id: 'next-week', title: 'Errands', priority: 'high', due_date: at(16) }),
+      task({ id: 'undated', title: 'Errands', priority: 'high' }),
+    ];
+
+    expect(applyFilter([], tasks, options, now).tasks.map(t => t.id)).toEqual(['match']);
+    expect(countActiveFilters(options)).toBe(3);
+  });
+
+  it('applies task-only options to tasks and leaves events alone', () => {
+    const options = filter({ priority: 'high', status: 'in_progress' });
+    expect(eventMatchesFilter(event(), options, now)).toBe(true);
+    expect(taskMatchesFilter(task(), options, now)).toBe(false);
+  });
+
+  it('separates tasks from events by type', () => {
+    expect(taskMatchesFilter(task(), filter({ eventType: 'events' }), now)).toBe(false);
+    expect(eventMatchesFilter(event(), filter({ eventType: 'tasks' }), now)).toBe(false);
+  });
+
+  it('finds overdue tasks that are not completed', () => {
+    const options = filter({ dateRange: 'overdue' });
+    expect(taskMatchesFilter(task({ due_date: at(10) }), options, now)).toBe(true);
+    expect(taskMatchesFilter(task({ due_date: at(10), status: 'completed' }), options, now)).toBe(false);
+    expect(taskMatchesFilter(task({ due_date: at(12) }), options, now)).toBe(false);
+    expect(eventMatchesFilter(event({ start_time: at(10) }), options, now)).toBe(false);
+  });
+
+  it('filters past and custom ranges', () => {
+    expect(taskMatchesFilter(task({ due_date: at(9) }), filter({ dateRange: 'past' }), now)).toBe(true);
+    expect(eventMatchesFilter(event({ start_time: at(9) }), filter({ dateRange: 'past' }), now)).toBe(true);
+
+    const custom = filter({
+      dateRange: 'custom',
+      customStartDate: new Date(2026, 2, 1),
+      customEndDate: new Date(2026, 2, 5),
+    });
+    expect(taskMatchesFilter(task({ due_date: at(5, 23) }), custom, now)).toBe(true);
+    expect(taskMatchesFilter(task({ due_date: at(6) }), custom, now)).toBe(false);
+  });
+
+  it('filters events by time of day, duration, location and recurrence', () => {
+    expect(eventMatchesFilter(event(), filter({ timeOfDay: 'afternoon' }), now)).toBe(true);
+    expect(eventMatchesFilter(event(), filter({ timeOfDay: 'morning' }), now)).toBe(false);
+    expect(eventMatchesFilter(event(), filter({ duration: 'short' }), now)).toBe(true);
+    expect(eventMatchesFilter(event({ end_time: at(11, 20) }), filter({ duration: 'long' }), now)).toBe(true);
+    expect(eventMatchesFilter(event({ location: 'Zoom' }), filter({ location: 'online' }), now)).toBe(true);
+    expect(eventMatchesFilter(event({ location: 'Room 4' }), filter({ location: 'online' }), now)).toBe(false);
+    expect(eventMatchesFilter(event({ recurrence: ['RRULE:FREQ=WEEKLY'] }), filter({ recurring: 'recurring' }), now)).toBe(true);
+    expect(eventMatchesFilter(event(), filter({ recurring: 'recurring' }), now)).toBe(false);
+  });
+
+  it('uses estimates and recurrence for tasks', () => {
+    expect(taskMatchesFilter(task({ estimated_duration_minutes: 30 }), filter({ duration: 'short' }), now)).toBe(true);
+    expect(taskMatchesFilter(task(), filter({ duration: 'short' }), now)).toBe(false);
+    expect(taskMatchesFilter(task({ is_recurring: true }), filter({ recurring: 'one_time' }), now)).toBe(false);
+  });
+
+  it('rates urgency from priority and due date', () => {
+    const urgent = filter({ urgency: 'urgent' });
+    expect(taskMatchesFilter(task({ due_date: at(12) }), urgent, now)).toBe(true);
+    expect(taskMatchesFilter(task({ due_date: at(25), priority: 'high' }), urgent, now)).toBe(true);
+    expect(taskMatchesFilter(task({ due_date: at(25) }), urgent, now)).toBe(false);
+    expect(taskMatchesFilter(task(), filter({ urgency: 'low_priority' }), now)).toBe(true);
+  });
+
+  describe('serialization', () => {
+    it('round-trips options, including dates', () => {
+      const options = filter({
+        searchText: 'errand',
+        priority: 'high',
+        dateRange: 'custom',
+        customStartDate: new Date(2026, 2, 1),
+        customEndDate: new Date(2026, 2, 5),
+        category: 'home',
+      });
+      expect(parseFilterOptions(serializeFilterOptions(options))).toEqual(options);
+    });
+
+    it('stores only options that differ from the defaults', () => {
+      expect(JSON.parse(serializeFilterOptions(filter({ urgency: 'urgent' })))).toEqual({ urgency: 'urgent' });
+    });
+
+    it('ignores malformed input and unknown values', () => {
+      expect(parseFilterOptions('not json')).toEqual(DEFAULT_FILTER_OPTIONS);
+      expect(parseFilterOptions(null)).toEqual(DEFAULT_FILTER_OPTIONS);
+      expect(parseFilterOptions('{"priority":"extreme","mood":"good","status":"completed"}'))
+        .toEqual(filter({ status: 'completed' }));
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  FocusCandidate,
+  FocusRankingContext,
+  balancedFocusStrategy,
+  createFocusStrategy,
+  focusFactors,
+  minutesLeftInWindow,
+  priorityFirstStrategy,
+  rankFocusCandidates,
+} from '../focusRanking';
+
+// Wednesday 2026-10-14, 15:00 local time
+const NOW = new Date(2026, 9, 14, 15, 0);
+const daysFromNow = (days: number) => new Date(2026, 9, 14 + days, 12, 0);
+
+const task = (id: string, fields: Partial<FocusCandidate> = {}): FocusCandidate => ({ id, title: id, ...fields });
+
+const context = (fields: Partial<FocusRankingContext> = {}): FocusRankingContext => ({ now: NOW, ...fields });
+
+const rankIds = (candidates: FocusCandidate[], ctx = context(), strategy = balancedFocusStrategy) =>
+  rankFocusCandidates(candidates, ctx, strategy).map(r => r.candidate.id);
+
+describe('focusRanking', () => {
+  it('keeps the priority then due date order with the priority-first strategy', () => {
+    const candidates = [
+      task('low', { priority: 'low' }),
+      task('high-later', { priority: 'high', dueDate: daysFromNow(5) }),
+      task('none'),
+      task('high-sooner', { priority: 'high', dueDate: daysFromNow(2) }),
+    ];
+
+    expect(rankIds(candidates, context(), priorityFirstStrategy)).toEqual(['high-sooner', 'high-later', 'low', 'none']);
+  });
+
+  it('is deterministic regardless of input order', () => {
+    const candidates = [task('b'), task('a'), task('c', { priority: 'medium' })];
+
+    expect(rankIds(candidates)).toEqual(['c', 'a', 'b']);
+    expect(rankIds([...candidates].reverse())).toEqual(['c', 'a', 'b']);
+  });
+
+  it('lets an overdue task outrank a higher priority one', () => {
+    const candidates = [
+      task('high', { priority: 'high' }),
+      task('overdue', { priority: 'medium', dueDate: daysFromNow(-3) }),
+    ];
+    const [first] = rankFocusCandidates(candidates, context());
+
+    expect(first.candidate.id).toBe('overdue');
+    expect(first.reasons[0]).toBe('Overdue by 3 days');
+  });
+
+  it('prefers tasks that fit the time left in the working window', () => {
+    const window = { startTime: '09:00:00', endTime: '17:00:00', workDays: [1, 2, 3, 4, 5] };
+    const candidates = [
+      task('long', { priority: 'high', estimatedDurationMinutes: 180 }),
+      task('short', { priority: 'medium', estimatedDurationMinutes: 45 }),
+    ];
+
+    expect(minutesLeftInWindow(window, NOW)).toBe(120);
+    expect(rankIds(candidates, context({ window }))).toEqual(['short', 'long']);
+    expect(rankFocusCandidates(candidates, context({ window }))[0].reasons).toContain('Fits in the 2h left in your day');
+    // Outside work days the window doesn't apply
+    expect(minutesLeftInWindow({ ...window, workDays: [6, 7] }, NOW)).toBeNull();
+  });
+
+  it('balances categories, favours close goal deadlines and demotes skipped tasks', () => {
+    const ctx = context({ recentCategories: ['work', 'work'] });
+
+    expect(rankIds([task('work', { category: 'work' }), task('health', { category: 'health' })], ctx))
+      .toEqual(['health', 'work']);
+
+    const goalTask = task('goal', { goalTitle: 'Run a 10k', goalTargetDate: daysFromNow(4) });
+    const [ranked] = rankFocusCandidates([goalTask, task('other')], context());
+    expect(ranked.candidate.id).toBe('goal');
+    expect(ranked.reasons).toEqual(['Moves "Run a 10k" forward, which is due in 4 days']);
+
+    expect(rankIds([task('skipped', { priority: 'high', skipCount: 2 }), task('fresh', { priority: 'medium' })]))
+      .toEqual(['fresh', 'skipped']);
+  });
+
+  it('accepts custom strategies and always explains the choice', () => {
+    const shortestFirst = createFocusStrategy('shortest_first', [
+      (candidate) => ({ points: -(candidate.estimatedDurationMinutes ?? 30) }),
+      focusFactors.dueDate,
+    ]);
+    const ranked = rankFocusCandidates(
+      [task('a', { estimatedDurationMinutes: 60 }), task('b', { estimatedDurationMinutes: 15 })],
+      context(),
+      shortestFirst
+    );
+
+    expect(ranked.map(r => r.candidate.id)).toEqual(['b', 'a']);
+    expect(ranked[0].reasons).toEqual(['Nothing else is more pressing right now']);
+  });
+});
@@ -0,0 +1,75 @@
+import { findFreeSlots, resolveFreeBusyPreferences } from '../freeBusy';
+
+// Monday 19 October 2026
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 9, day, hours, minutes);
+const busy = (start: Date, end: Date, taskId?: string) => ({ startTime: start, endTime: end, taskId });
+const times = (slots: { start_time: Date; end_time: Date }[]) =>
+  slots.map(slot => [slot.start_time.toTimeString().slice(0, 5), slot.end_time.toTimeString().slice(0, 5)]);
+
+const prefs = {
+  preferred_start_time: '09:00:00',
+  preferred_end_time: '17:00:00',
+  work_days: [1, 2, 3, 4, 5],
+  max_tasks_per_day: 5,
+  buffer_time_minutes: 15,
+};
+
+describe('findFreeSlots', () => {
+  const monday8am = at(19, 8);
+
+  it('returns one slot per gap, keeping the buffer around events', () => {
+    const slots = findFreeSlots(
+      [busy(at(19, 10), at(19, 11)), busy(at(19, 13), at(19, 16))],
+      prefs,
+      { durationMinutes: 45, days: 1, now: monday8am }
+    );
+
+    expect(times(slots)).toEqual([['09:00', '09:45'], ['11:15', '12:00'], ['16:15', '17:00']]);
+    expect(slots[0].duration_minutes).toBe(45);
+  });
+
+  it('starts today no earlier than the buffer after now, on a 15 minute step', () => {
+    const slots = findFreeSlots([], prefs, { durationMinutes: 60, days: 1, now: at(19, 14, 7) });
+
+    expect(times(slots)).toEqual([['14:30', '15:30']]);
+  });
+
+  it('skips non-work days and days at the task limit', () => {
+    const tasks = [1, 2].map(n => busy(at(20, 9 + n), at(20, 9 + n, 30), `t${n}`));
+    const slots = findFreeSlots(tasks, { ...prefs, max_tasks_per_day: 2 }, {
+      from: at(17, 0), // Saturday
+      days: 5,
+      limit: 2,
+      now: at(17, 0),
+    });
+
+    // Saturday, Sunday and the full Tuesday are skipped
+    expect(slots.map(slot => slot.start_time)).toEqual([at(19, 9), at(21, 9)]);
+  });
+
+  it("ignores all-day events and the rescheduled task's own event", () => {
+    const slots = findFreeSlots(
+      [{ startTime: at(19, 0), endTime: at(20, 0), isAllDay: true }, busy(at(19, 9), at(19, 17), 'task-1')],
+      prefs,
+      { days: 1, limit: 1, ignoreTaskId: 'task-1', now: monday8am }
+    );
+
+    expect(times(slots)).toEqual([['09:00', '10:00']]);
+  });
+
+  it('returns nothing when the task does not fit the working hours', () => {
+    expect(findFreeSlots([], prefs, { durationMinutes: 9 * 60, days: 1, now: monday8am })).toEqual([]);
+  });
+});
+
+describe('resolveFreeBusyPreferences', () => {
+  it('falls back to defaults for missing or malformed fields', () => {
+    expect(resolveFreeBusyPreferences({ preferred_start_time: 'soon', work_days: [], buffer_time_minutes: 0 })).toEqual({
+      preferred_start_time: '09:00:00',
+      preferred_end_time: '17:00:00',
+      work_days: [1, 2, 3, 4, 5],
+      max_tasks_per_day: 5,
+      buffer_time_minutes: 0,
+    });
+  });
+});
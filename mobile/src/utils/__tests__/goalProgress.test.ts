@@ -0,0 +1,54 @@
+import { computeGoalProgress, getMilestoneProgress } from '../goalProgress';
+
+const milestones = [
+  { id: 'm1', completed: false },
+  { id: 'm2', completed: false },
+];
+
+describe('goalProgress', () => {
+  it('counts a milestone by the share of its steps that are done', () => {
+    const steps = [
+      { milestoneId: 'm1', completed: true },
+      { milestoneId: 'm1', completed: false },
+    ];
+    expect(getMilestoneProgress(milestones[0], steps)).toBe(0.5);
+    expect(getMilestoneProgress({ id: 'm1', completed: true }, steps)).toBe(1);
+    expect(getMilestoneProgress(milestones[0], [])).toBe(0);
+  });
+
+  it('averages milestones and reports step counts', () => {
+    const steps = [
+      { milestoneId: 'm1', completed: true },
+      { milestoneId: 'm1', completed: true },
+      { milestoneId: 'm2', completed: true },
+      { milestoneId: 'm2', completed: false },
+      { milestoneId: 'm2', completed: false },
+      { milestoneId: 'm2', completed: false },
+    ];
+
+    expect(computeGoalProgress(milestones, steps, [])).toEqual({
+      percentage: 63,
+      completedMilestones: 1,
+      totalMilestones: 2,
+      completedSteps: 3,
+      totalSteps: 6,
+      completedTasks: 0,
+      totalTasks: 0,
+    });
+  });
+
+  it('combines milestones and linked tasks by weight', () => {
+    const steps = [{ milestoneId: 'm1', completed: true }];
+    const tasks = [{ lifecycleStatus: 'completed' }, { lifecycleStatus: 'in_progress' }];
+    const done = [{ id: 'm1', completed: false }];
+
+    expect(computeGoalProgress(done, steps, tasks).percentage).toBe(75);
+    expect(computeGoalProgress(done, steps, tasks, { milestones: 3, tasks: 1 }).percentage).toBe(88);
+    expect(computeGoalProgress(done, steps, tasks, { milestones: 1, tasks: 0 }).percentage).toBe(100);
+  });
+
+  it('uses tasks alone when a goal has no milestones', () => {
+    expect(computeGoalProgress([], [], [{ lifecycleStatus: 'completed' }, { lifecycleStatus: 'not_started' }]).percentage).toBe(50);
+    expect(computeGoalProgress([], [], []).percentage).toBe(0);
+  });
+});
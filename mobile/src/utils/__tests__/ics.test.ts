@@ -0,0 +1,124 @@
+import { buildIcs, expandIcsEvents, parseIcs } from '../ics';
+
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 9, day, hours, minutes);
+const utc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+const ics = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+describe('parseIcs', () => {
+  it('reads events, unfolding lines and unescaping text', () => {
+    const [event] = parseIcs(ics(
+      'BEGIN:VEVENT',
+      'UID:abc@example.com',
+      `DTSTART:${utc(at(19, 9))}`,
+      'DURATION:PT1H30M',
+      'SUMMARY:Planning\\, Q4',
+      'DESCRIPTION:Line one\\nLine',
+      '  two',
+      'LOCATION;LANGUAGE=en:Room 1',
+      'BEGIN:VALARM',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'END:VEVENT',
+    ));
+
+    expect(event).toMatchObject({
+      uid: 'abc@example.com',
+      title: 'Planning, Q4',
+      description: 'Line one\nLine two',
+      location: 'Room 1',
+      start: at(19, 9),
+      end: at(19, 10, 30),
+      isAllDay: false,
+      cancelled: false,
+    });
+  });
+
+  it('reads times with a TZID in that zone', () => {
+    const [event] = parseIcs(ics(
+      'BEGIN:VEVENT',
+      'UID:tz',
+      'DTSTART;TZID=America/New_York:20261102T090000',
+      'DTEND;TZID=America/New_York:20261102T100000',
+      'END:VEVENT',
+    ));
+
+    // The day after US clocks go back: 9:00 EST is 14:00 UTC
+    expect(event).toMatchObject({
+      start: new Date('2026-11-02T14:00:00Z'),
+      end: new Date('2026-11-02T15:00:00Z'),
+      timeZone: 'America/New_York',
+    });
+  });
+
+  it('reads all-day events and skips events without a start', () => {
+    const events = parseIcs(ics(
+      'BEGIN:VEVENT', 'UID:day', 'DTSTART;VALUE=DATE:20261020', 'SUMMARY:Holiday', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:broken', 'SUMMARY:No start', 'END:VEVENT',
+    ));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ start: at(20, 0), end: at(21, 0), isAllDay: true });
+  });
+});
+
+describe('expandIcsEvents', () => {
+  const weekly = [
+    'BEGIN:VEVENT',
+    'UID:standup',
+    `DTSTART:${utc(at(5, 10))}`,
+    `DTEND:${utc(at(5, 10, 15))}`,
+    'SUMMARY:Standup',
+    'RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=4',
+    'EXDATE;VALUE=DATE:20261012',
+    'END:VEVENT',
+  ];
+
+  it('expands recurring events within the window with stable per-occurrence UIDs', () => {
+    const occurrences = expandIcsEvents(parseIcs(ics(...weekly)), { start: at(10, 0), end: at(31, 0) });
+
+    // 5 Oct is before the window, 12 Oct is excluded, COUNT stops after 26 Oct
+    expect(occurrences.map(o => o.start)).toEqual([at(19, 10), at(26, 10)]);
+    expect(occurrences[0].uid).toBe(`standup_${utc(at(19, 10))}`);
+    expect(occurrences[0].end).toEqual(at(19, 10, 15));
+  });
+
+  it('applies overrides and cancellations of single occurrences', () => {
+    const occurrences = expandIcsEvents(parseIcs(ics(
+      ...weekly,
+      'BEGIN:VEVENT', 'UID:standup', `RECURRENCE-ID:${utc(at(19, 10))}`,
+      `DTSTART:${utc(at(19, 11))}`, `DTEND:${utc(at(19, 11, 15))}`, 'SUMMARY:Standup (moved)', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:standup', `RECURRENCE-ID:${utc(at(26, 10))}`,
+      `DTSTART:${utc(at(26, 10))}`, 'STATUS:CANCELLED', 'END:VEVENT',
+    )), { start: at(10, 0), end: at(31, 0) });
+
+    expect(occurrences).toEqual([
+      expect.objectContaining({ uid: `standup_${utc(at(19, 10))}`, title: 'Standup (moved)', start: at(19, 11) }),
+    ]);
+  });
+
+  it('stops open-ended rules at the window end', () => {
+    const occurrences = expandIcsEvents(parseIcs(ics(
+      'BEGIN:VEVENT', 'UID:daily', `DTSTART:${utc(at(1, 8))}`, 'RRULE:FREQ=DAILY', 'END:VEVENT',
+    )), { start: at(19, 0), end: at(22, 0) });
+
+    expect(occurrences.map(o => o.start)).toEqual([at(19, 8), at(20, 8), at(21, 8)]);
+  });
+});
+
+describe('buildIcs', () => {
+  it('writes events that parse back to the same values', () => {
+    const text = buildIcs([
+      { uid: 'e1@mindclear', title: 'Review; notes, etc', description: 'a\nb', start: at(19, 9), end: at(19, 10) },
+      { uid: 'e2@mindclear', title: 'Offsite', start: at(20, 0), end: at(21, 0), isAllDay: true },
+      { uid: 'task-1@mindclear', title: 'x'.repeat(100), start: at(21, 9), end: at(21, 9, 30),
+        recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=WE', 'EXDATE;VALUE=DATE:20261028'] },
+    ], { now: at(19, 0) });
+
+    expect(text.split('\r\n').every(line => line.length <= 75)).toBe(true);
+    expect(parseIcs(text)).toEqual([
+      expect.objectContaining({ uid: 'e1@mindclear', title: 'Review; notes, etc', description: 'a\nb', start: at(19, 9), end: at(19, 10) }),
+      expect.objectContaining({ uid: 'e2@mindclear', start: at(20, 0), end: at(21, 0), isAllDay: true }),
+      expect.objectContaining({ title: 'x'.repeat(100), recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=WE', 'EXDATE;VALUE=DATE:20261028'] }),
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  coalesceOperation,
+  getRetryDelayMs,
+  isOperationBlocked,
+  isOperationDue,
+  operationFromSyncState,
+  parseDependencies,
+  serializeDependencies,
+} from '../outbox';
+
+describe('outbox', () => {
+  describe('coalesceOperation', () => {
+    it('keeps a create when the record is edited before it is pushed', () => {
+      expect(coalesceOperation('create', 'update')).toBe('create');
+    });
+
+    it('lets a delete replace any queued operation', () => {
+      expect(coalesceOperation('create', 'delete')).toBe('delete');
+      expect(coalesceOperation('update', 'delete')).toBe('delete');
+      expect(coalesceOperation('delete', 'update')).toBe('delete');
+    });
+
+    it('keeps an update as an update', () => {
+      expect(coalesceOperation('update', 'update')).toBe('update');
+      expect(coalesceOperation('update', 'create')).toBe('update');
+    });
+  });
+
+  describe('operationFromSyncState', () => {
+    it('reads pending and failed sync states', () => {
+      expect(operationFromSyncState('pending_create')).toBe('create');
+      expect(operationFromSyncState('sync_failed_create')).toBe('create');
+      expect(operationFromSyncState('pending_update')).toBe('update');
+      expect(operationFromSyncState('sync_failed')).toBe('update');
+      expect(operationFromSyncState('sync_failed_delete')).toBe('delete');
+      expect(operationFromSyncState('synced')).toBeNull();
+    });
+  });
+
+  describe('retry backoff', () => {
+    it('doubles the delay after each failed attempt up to 30 minutes', () => {
+      expect(getRetryDelayMs(0)).toBe(0);
+      expect(getRetryDelayMs(1)).toBe(30 * 1000);
+      expect(getRetryDelayMs(2)).toBe(60 * 1000);
+      expect(getRetryDelayMs(3)).toBe(120 * 1000);
+      expect(getRetryDelayMs(20)).toBe(30 * 60 * 1000);
+    });
+
+    it('treats operations without a next attempt time as due', () => {
+      const now = new Date('2024-01-10T09:00:00Z');
+      expect(isOperationDue(undefined, now)).toBe(true);
+      expect(isOperationDue(new Date('2024-01-10T08:59:00Z'), now)).toBe(true);
+      expect(isOperationDue(new Date('2024-01-10T09:01:00Z'), now)).toBe(false);
+    });
+  });
+
+  describe('dependencies', () => {
+    it('round-trips dependency IDs without duplicates', () => {
+      expect(parseDependencies(serializeDependencies(['a', 'b', 'a']))).toEqual(['a', 'b']);
+      expect(serializeDependencies([])).toBeUndefined();
+      expect(parseDependencies('not json')).toEqual([]);
+    });
+
+    it('blocks an operation until the operations it depends on have left the queue', () => {
+      expect(isOperationBlocked(['goal-op'], new Set(['goal-op', 'other']))).toBe(true);
+      expect(isOperationBlocked(['goal-op'], new Set(['other']))).toBe(false);
+      expect(isOperationBlocked([], new Set(['other']))).toBe(false);
+    });
+  });
+});
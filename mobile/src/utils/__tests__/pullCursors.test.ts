@@ -0,0 +1,76 @@
+import {
+  PULL_COLLECTIONS,
+  PullCursors,
+  describePullProgress,
+  getPageRequest,
+  isCaughtUp,
+  parsePullCursors,
+  readPulledPage,
+  recordPage,
+  resetCollection,
+} from '../pullCursors';
+
+const NOW = '2024-01-10T09:00:00.000Z';
+const EARLIER = '2024-01-09T09:00:00.000Z';
+
+describe('pullCursors', () => {
+  it('starts a full pull for a collection without a cursor', () => {
+    expect(getPageRequest({}, 'tasks', NOW)).toEqual({ since: null, pageCursor: null, startedAt: NOW });
+  });
+
+  it('falls back to the given time for collections without a cursor', () => {
+    expect(getPageRequest({}, 'tasks', NOW, EARLIER)).toEqual({ since: EARLIER, pageCursor: null, startedAt: NOW });
+    expect(getPageRequest({ tasks: { syncedAt: null } }, 'tasks', NOW, EARLIER).since).toBeNull();
+  });
+
+  it('keeps the original since and start time across pages', () => {
+    const first = getPageRequest({ tasks: { syncedAt: EARLIER } }, 'tasks', NOW);
+    const cursors = recordPage({ tasks: { syncedAt: EARLIER } }, 'tasks', first, 'page-2');
+
+    expect(cursors.tasks).toEqual({ syncedAt: EARLIER, inProgress: { startedAt: NOW, pageCursor: 'page-2' } });
+
+    // Resuming later, e.g. after the app was killed, continues from the saved page
+    const resumed = getPageRequest(cursors, 'tasks', '2024-01-11T09:00:00.000Z');
+    expect(resumed).toEqual({ since: EARLIER, pageCursor: 'page-2', startedAt: NOW });
+  });
+
+  it('moves the cursor to the start of the pull after the last page', () => {
+    const request = { since: EARLIER, pageCursor: 'page-2', startedAt: NOW };
+    expect(recordPage({}, 'goals', request, null).goals).toEqual({ syncedAt: NOW });
+  });
+
+  it('is caught up only when every collection has finished', () => {
+    const done: PullCursors = {};
+    for (const collection of PULL_COLLECTIONS) {
+      done[collection] = { syncedAt: NOW };
+    }
+    expect(isCaughtUp(done)).toBe(true);
+    expect(isCaughtUp({ ...done, tasks: { syncedAt: EARLIER, inProgress: { startedAt: NOW, pageCursor: 'p' } } })).toBe(false);
+    expect(isCaughtUp(resetCollection(done, 'goals'))).toBe(false);
+  });
+
+  it('ignores unreadable stored cursors', () => {
+    expect(parsePullCursors(null)).toEqual({});
+    expect(parsePullCursors('not json')).toEqual({});
+    expect(parsePullCursors('[]')).toEqual({});
+    expect(parsePullCursors('{"tasks":{"syncedAt":"x"}}')).toEqual({ tasks: { syncedAt: 'x' } });
+  });
+
+  it('reads paged, delta and full responses', () => {
+    expect(readPulledPage({ changed: [{ id: 'a' }], deleted: ['b'], next_cursor: 'next' }))
+      .toEqual({ changed: [{ id: 'a' }], deleted: ['b'], nextCursor: 'next' });
+    expect(readPulledPage({ changed: [], deleted: [] })).toEqual({ changed: [], deleted: [], nextCursor: null });
+    expect(readPulledPage([{ id: 'a' }])).toEqual({ changed: [{ id: 'a' }], deleted: [], nextCursor: null });
+    expect(readPulledPage(null)).toEqual({ changed: [], deleted: [], nextCursor: null });
+  });
+
+  it('describes progress by collection', () => {
+    expect(describePullProgress({
+      collection: 'calendar_events',
+      collectionIndex: 2,
+      collectionCount: 5,
+      pages: 3,
+      records: 1200,
+    })).toBe('Syncing events (3 of 5)');
+  });
+});
@@ -0,0 +1,144 @@
+import { advanceRecurrence, calculateNextDueDate, getNextMatchingDayOfWeek, getNthWeekdayOfMonth } from '../recurrenceEngine';
+
+describe('recurrenceEngine', () => {
+  // 2024-01-10 is a Wednesday
+  const wednesday = new Date(2024, 0, 10, 9, 0);
+
+  describe('calculateNextDueDate', () => {
+    it('adds the interval in days for daily patterns', () => {
+      expect(calculateNextDueDate(wednesday, { type: 'daily', interval: 3 }))
+        .toEqual(new Date(2024, 0, 13, 9, 0));
+    });
+
+    it('adds whole weeks for weekly patterns without days', () => {
+      expect(calculateNextDueDate(wednesday, { type: 'weekly', interval: 2 }))
+        .toEqual(new Date(2024, 0, 24, 9, 0));
+    });
+
+    it('clamps monthly patterns to the end of shorter months', () => {
+      const jan31 = new Date(2024, 0, 31, 9, 0);
+      expect(calculateNextDueDate(jan31, { type: 'monthly', interval: 1 }))
+        .toEqual(new Date(2024, 1, 29, 9, 0));
+    });
+
+    it('moves monthly nth-weekday patterns to the same position next month', () => {
+      // Second Tuesday of January 2024 is the 9th; of February, the 13th
+      const secondTuesday = new Date(2024, 0, 9, 9, 0);
+      expect(calculateNextDueDate(secondTuesday, { type: 'monthly', interval: 1, nthWeekday: 2, daysOfWeek: [2] }))
+        .toEqual(new Date(2024, 1, 13, 9, 0));
+    });
+
+    it('snaps an unaligned due date to the next nth weekday in the same month', () => {
+      expect(calculateNextDueDate(wednesday, { type: 'monthly', interval: 1, nthWeekday: -1, daysOfWeek: [1, 2, 3, 4, 5] }))
+        .toEqual(new Date(2024, 0, 31, 9, 0));
+    });
+
+    it('adds years for yearly patterns, clamping Feb 29', () => {
+      const leapDay = new Date(2024, 1, 29, 9, 0);
+      expect(calculateNextDueDate(leapDay, { type: 'yearly', interval: 1 }))
+        .toEqual(new Date(2025, 1, 28, 9, 0));
+    });
+
+    it('supports yearly nth-weekday patterns in a given month', () => {
+      // Fourth Thursday of November: 2024-11-28, 2025-11-27
+      const thanksgiving = new Date(2024, 10, 28, 12, 0);
+      expect(calculateNextDueDate(thanksgiving, {
+        type: 'yearly',
+        interval: 1,
+        monthOfYear: 11,
+        nthWeekday: 4,
+        daysOfWeek: [4],
+      })).toEqual(new Date(2025, 10, 27, 12, 0));
+    });
+
+    it('treats a missing interval as 1', () => {
+      expect(calculateNextDueDate(wednesday, { type: 'daily' } as any))
+        .toEqual(new Date(2024, 0, 11, 9, 0));
+    });
+  });
+
+  describe('getNextMatchingDayOfWeek', () => {
+    it('picks a later day in the same week', () => {
+      expect(getNextMatchingDayOfWeek(wednesday, [1, 5])).toEqual(new Date(2024, 0, 12, 9, 0));
+    });
+
+    it('wraps to the first day of the next interval week', () => {
+      expect(getNextMatchingDayOfWeek(wednesday, [1], 2)).toEqual(new Date(2024, 0, 22, 9, 0));
+    });
+
+    it('ignores invalid day indices', () => {
+      expect(getNextMatchingDayOfWeek(wednesday, [9, -1, 4])).toEqual(new Date(2024, 0, 11, 9, 0));
+    });
+  });
+
+  describe('getNthWeekdayOfMonth', () => {
+    it('returns null when the month has no such day', () => {
+      // February 2024 has no fifth Monday
+      expect(getNthWeekdayOfMonth(2024, 1, [1], 5, wednesday)).toBeNull();
+    });
+
+    it('counts across several days for the last weekday', () => {
+      // 2024-03-31 is a Sunday, so the last weekday is Friday the 29th
+      expect(getNthWeekdayOfMonth(2024, 2, [1, 2, 3, 4, 5], -1, wednesday))
+        .toEqual(new Date(2024, 2, 29, 9, 0));
+    });
+  });
+
+  describe('advanceRecurrence', () => {
+    it('returns paused without changes for paused patterns', () => {
+      expect(advanceRecurrence({ type: 'daily', interval: 1, is_paused: true }, wednesday))
+        .toEqual({ type: 'paused' });
+    });
+
+    it('advances and increments completedCount', () => {
+      const result = advanceRecurrence({ type: 'daily', interval: 1, completedCount: 2 }, wednesday);
+
+      expect(result.type).toBe('advanced');
+      if (result.type === 'advanced') {
+        expect(result.nextDueDate).toEqual(new Date(2024, 0, 11, 9, 0));
+        expect(result.pattern.completedCount).toBe(3);
+      }
+    });
+
+    it('ends when the count end condition is reached', () => {
+      const result = advanceRecurrence({
+        type: 'daily',
+        interval: 1,
+        completedCount: 4,
+        endCondition: { type: 'count', value: 5 },
+      }, wednesday);
+
+      expect(result.type).toBe('ended');
+      if (result.type === 'ended') {
+        expect(result.pattern.completedCount).toBe(5);
+      }
+    });
+
+    it('ends when the next occurrence would pass the end date', () => {
+      const result = advanceRecurrence({
+        type: 'weekly',
+        interval: 1,
+        endCondition: { type: 'date', value: new Date(2024, 0, 15).toISOString() },
+      }, wednesday);
+
+      expect(result).toMatchObject({ type: 'ended', reason: 'Next occurrence would exceed end date' });
+    });
+
+    it('skips exclusion dates', () => {
+      const result = advanceRecurrence({
+        type: 'daily',
+        interval: 1,
+        exclusionDates: ['2024-01-11', '2024-01-12'],
+      }, wednesday);
+
+      expect(result).toMatchObject({ type: 'advanced', nextDueDate: new Date(2024, 0, 13, 9, 0) });
+    });
+
+    it('falls back to the completion time when the task has no due date', () => {
+      const now = new Date(2024, 2, 1, 8, 0);
+      const result = advanceRecurrence({ type: 'daily', interval: 1 }, undefined, now);
+
+      expect(result).toMatchObject({ type: 'advanced', nextDueDate: new Date(2024, 2, 2, 8, 0) });
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  RoutineStreakState,
+  applyCompletion,
+  applyReset,
+  applyUndo,
+  getPeriodBounds,
+  getPeriodStatus,
+  getPreviousPeriodBounds,
+  resolveStreak,
+} from '../routineStreak';
+
+describe('routineStreak', () => {
+  // 2024-01-10 is a Wednesday
+  const wednesday = new Date(2024, 0, 10, 9, 0);
+
+  const baseState: RoutineStreakState = {
+    currentStreak: 0,
+    longestStreak: 0,
+    totalCompletions: 0,
+    gracePeriodsRemaining: 1,
+    gracePeriodUsedAt: null,
+    lastCompletedAt: null,
+    lastStreakIncrementPeriod: null,
+  };
+
+  describe('getPeriodBounds', () => {
+    it('starts weeks on Monday', () => {
+      const period = getPeriodBounds('weekly', wednesday);
+      expect(period.periodDate).toBe('2024-01-08');
+      expect(period.end).toEqual(new Date(2024, 0, 14, 23, 59, 59, 999));
+    });
+
+    it('uses the first of the month for monthly periods', () => {
+      expect(getPeriodBounds('monthly', wednesday).periodDate).toBe('2024-01-01');
+      expect(getPreviousPeriodBounds('monthly', wednesday).periodDate).toBe('2023-12-01');
+    });
+
+    it('uses the routine time zone rather than the device calendar', () => {
+      // 03:00 UTC on 10 January is still 9 January in New York and already midday in Tokyo
+      const instant = new Date('2024-01-10T03:00:00Z');
+
+      const newYork = getPeriodBounds('daily', instant, 'America/New_York');
+      expect(newYork.periodDate).toBe('2024-01-09');
+      expect(newYork.start).toEqual(new Date('2024-01-09T05:00:00Z'));
+      expect(getPeriodBounds('daily', instant, 'Asia/Tokyo').periodDate).toBe('2024-01-10');
+      expect(getPreviousPeriodBounds('weekly', instant, 'America/New_York').periodDate).toBe('2024-01-01');
+    });
+
+    it('keeps daily periods whole across a DST change', () => {
+      // US clocks went forward on 10 March 2024, making that day 23 hours long
+      const period = getPeriodBounds('daily', new Date('2024-03-10T12:00:00Z'), 'America/New_York');
+      expect(period.start).toEqual(new Date('2024-03-10T05:00:00Z'));
+      expect(getPreviousPeriodBounds('daily', new Date('2024-03-11T12:00:00Z'), 'America/New_York').periodDate).toBe('2024-03-10');
+    });
+  });
+
+  describe('streaks in the routine time zone', () => {
+    it('counts a late-evening completion in the routine zone toward that day', () => {
+      // 23:30 in New York on 9 January is 04:30 UTC on 10 January
+      const state = { ...baseState, currentStreak: 2, lastCompletedAt: new Date('2024-01-09T04:30:00Z') };
+      const now = new Date('2024-01-10T04:30:00Z');
+
+      expect(resolveStreak('daily', state, now, 'America/New_York')).toBe(state);
+      expect(applyCompletion('daily', 1, state, 0, now, 'America/New_York').periodDate).toBe('2024-01-09');
+    });
+  });
+
+  describe('resolveStreak', () => {
+    it('keeps a streak completed in the previous period', () => {
+      const state = { ...baseState, currentStreak: 3, lastCompletedAt: new Date(2024, 0, 9, 20, 0) };
+      expect(resolveStreak('daily', state, wednesday)).toBe(state);
+    });
+
+    it('spends a grace period when exactly one period was missed', () => {
+      const state = { ...baseState, currentStreak: 3, lastCompletedAt: new Date(2024, 0, 8, 20, 0) };
+      const resolved = resolveStreak('daily', state, wednesday);
+
+      expect(resolved).toMatchObject({ currentStreak: 3, gracePeriodsRemaining: 0, gracePeriodUsedAt: '2024-01-09' });
+      // Resolving again does not spend another grace period
+      expect(resolveStreak('daily', resolved, wednesday)).toBe(resolved);
+    });
+
+    it('resets when no grace period is left', () => {
+      const state = { ...baseState, currentStreak: 3, gracePeriodsRemaining: 0, lastCompletedAt: new Date(2024, 0, 8, 20, 0) };
+      expect(resolveStreak('daily', state, wednesday).currentStreak).toBe(0);
+    });
+
+    it('resets when more than one period was missed', () => {
+      const state = { ...baseState, currentStreak: 3, lastCompletedAt: new Date(2024, 0, 5, 20, 0) };
+      expect(resolveStreak('daily', state, wednesday)).toMatchObject({ currentStreak: 0, gracePeriodsRemaining: 1 });
+    });
+  });
+
+  describe('applyCompletion', () => {
+    it('increments the streak once the period reaches its target', () => {
+      const first = applyCompletion('daily', 2, baseState, 0, wednesday);
+      expect(first.streakIncremented).toBe(false);
+      expect(first.state).toMatchObject({ currentStreak: 0, totalCompletions: 1 });
+
+      const second = applyCompletion('daily', 2, first.state, 1, wednesday);
+      expect(second.streakIncremented).toBe(true);
+      expect(second.state).toMatchObject({
+        currentStreak: 1,
+        longestStreak: 1,
+        totalCompletions: 2,
+        lastStreakIncrementPeriod: '2024-01-10',
+      });
+
+      const extra = applyCompletion('daily', 2, second.state, 2, wednesday);
+      expect(extra.streakIncremented).toBe(false);
+      expect(extra.completionsCount).toBe(3);
+    });
+
+    it('restarts a stale streak before incrementing', () => {
+      const state = {
+        ...baseState,
+        currentStreak: 5,
+        longestStreak: 5,
+        gracePeriodsRemaining: 0,
+        lastCompletedAt: new Date(2024, 0, 1, 9, 0),
+        lastStreakIncrementPeriod: '2024-01-01',
+      };
+      const result = applyCompletion('daily', 1, state, 0, wednesday);
+      expect(result.state).toMatchObject({ currentStreak: 1, longestStreak: 5 });
+    });
+  });
+
+  describe('applyUndo', () => {
+    it('rolls back the streak when the period drops below target', () => {
+      const state = {
+        ...baseState,
+        currentStreak: 2,
+        longestStreak: 2,
+        totalCompletions: 2,
+        lastCompletedAt: wednesday,
+        lastStreakIncrementPeriod: '2024-01-10',
+      };
+      const yesterday = { completedAt: new Date(2024, 0, 9, 9, 0), periodDate: '2024-01-09' };
+      const next = applyUndo(1, state, { completedAt: wednesday, periodDate: '2024-01-10' }, [yesterday]);
+
+      expect(next).toMatchObject({
+        currentStreak: 1,
+        longestStreak: 1,
+        totalCompletions: 1,
+        lastCompletedAt: yesterday.completedAt,
+        lastStreakIncrementPeriod: '2024-01-09',
+      });
+    });
+
+    it('keeps the streak while the period still meets its target', () => {
+      const state = { ...baseState, currentStreak: 1, longestStreak: 1, totalCompletions: 2, lastStreakIncrementPeriod: '2024-01-10' };
+      const remaining = [{ completedAt: new Date(2024, 0, 10, 8, 0), periodDate: '2024-01-10' }];
+      const next = applyUndo(1, state, { completedAt: wednesday, periodDate: '2024-01-10' }, remaining);
+
+      expect(next).toMatchObject({ currentStreak: 1, totalCompletions: 1, lastStreakIncrementPeriod: '2024-01-10' });
+    });
+  });
+
+  describe('applyReset', () => {
+    it('removes the period and its streak increment', () => {
+      const state = { ...baseState, currentStreak: 4, longestStreak: 6, totalCompletions: 10, lastStreakIncrementPeriod: '2024-01-10' };
+      const next = applyReset(state, '2024-01-10', 3, []);
+
+      expect(next).toMatchObject({
+        currentStreak: 3,
+        longestStreak: 6,
+        totalCompletions: 7,
+        lastCompletedAt: null,
+        lastStreakIncrementPeriod: null,
+      });
+    });
+  });
+
+  describe('getPeriodStatus', () => {
+    it('counts only completions in the current period', () => {
+      const completions = [
+        { completedAt: new Date(2024, 0, 8, 9, 0), periodDate: '2024-01-08' },
+        { completedAt: new Date(2024, 0, 1, 9, 0), periodDate: '2024-01-01' },
+      ];
+      expect(getPeriodStatus('weekly', 2, completions, wednesday)).toEqual({
+        completions_count: 1,
+        target_count: 2,
+        is_complete: false,
+        period_date: '2024-01-08',
+      });
+    });
+  });
+});
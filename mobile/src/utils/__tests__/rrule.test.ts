@@ -0,0 +1,114 @@
+import { parseRRule, patternToRecurrence, patternToRRule, recurrenceToPattern } from '../rrule';
+import type { RecurrencePattern } from '../recurrenceUtils';
+
+describe('rrule', () => {
+  describe('patternToRRule', () => {
+    it('exports weekly patterns with days and interval', () => {
+      expect(patternToRRule({ type: 'weekly', interval: 2, daysOfWeek: [3, 1] }))
+        .toBe('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE');
+    });
+
+    it('uses the ordinal BYDAY form for a single nth weekday', () => {
+      expect(patternToRRule({ type: 'monthly', interval: 1, nthWeekday: 2, daysOfWeek: [2] }))
+        .toBe('RRULE:FREQ=MONTHLY;BYDAY=2TU');
+    });
+
+    it('uses BYSETPOS when the nth weekday spans several days', () => {
+      expect(patternToRRule({ type: 'monthly', interval: 1, nthWeekday: -1, daysOfWeek: [1, 2, 3, 4, 5] }))
+        .toBe('RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1');
+    });
+
+    it('exports yearly month and end conditions', () => {
+      expect(patternToRRule({
+        type: 'yearly',
+        interval: 1,
+        monthOfYear: 11,
+        nthWeekday: 4,
+        daysOfWeek: [4],
+        endCondition: { type: 'count', value: 3 },
+      })).toBe('RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=4TH;COUNT=3');
+
+      expect(patternToRRule({ type: 'daily', interval: 1, endCondition: { type: 'date', value: '2024-03-15' } }))
+        .toBe('RRULE:FREQ=DAILY;UNTIL=20240315');
+    });
+
+    it('adds an EXDATE line for exclusion dates', () => {
+      expect(patternToRecurrence({ type: 'daily', interval: 1, exclusionDates: ['2024-01-11', '2024-01-12'] }))
+        .toEqual(['RRULE:FREQ=DAILY', 'EXDATE;VALUE=DATE:20240111,20240112']);
+    });
+  });
+
+  describe('parseRRule', () => {
+    it('parses Google Calendar style rules', () => {
+      expect(parseRRule('RRULE:FREQ=MONTHLY;BYDAY=2TU')).toMatchObject({
+        type: 'monthly',
+        interval: 1,
+        nthWeekday: 2,
+        daysOfWeek: [2],
+      });
+    });
+
+    it('parses the last day of the month', () => {
+      expect(parseRRule('FREQ=MONTHLY;BYMONTHDAY=-1')).toMatchObject({
+        nthWeekday: -1,
+        daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      });
+    });
+
+    it('treats daily rules restricted to days as weekly', () => {
+      expect(parseRRule('RRULE:FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR')).toMatchObject({
+        type: 'weekly',
+        daysOfWeek: [1, 2, 3, 4, 5],
+      });
+    });
+
+    it('parses COUNT and UNTIL', () => {
+      expect(parseRRule('RRULE:FREQ=WEEKLY;COUNT=10')?.endCondition).toEqual({ type: 'count', value: 10 });
+      expect(parseRRule('RRULE:FREQ=WEEKLY;UNTIL=20240315T120000Z')?.endCondition)
+        .toEqual({ type: 'date', value: '2024-03-15T12:00:00.000Z' });
+    });
+
+    it('returns null for rules it cannot represent', () => {
+      expect(parseRRule('RRULE:FREQ=HOURLY')).toBeNull();
+      expect(parseRRule('RRULE:FREQ=MONTHLY;BYDAY=1MO,3WE')).toBeNull();
+      expect(parseRRule('RRULE:FREQ=YEARLY;BYWEEKNO=20')).toBeNull();
+      expect(parseRRule('')).toBeNull();
+    });
+  });
+
+  describe('recurrenceToPattern', () => {
+    it('collects EXDATE values as local dates', () => {
+      const pattern = recurrenceToPattern([
+        'RRULE:FREQ=WEEKLY;BYDAY=MO',
+        'EXDATE;TZID=America/New_York:20240115T090000,20240122T090000',
+      ]);
+
+      expect(pattern?.exclusionDates).toEqual(['2024-01-15', '2024-01-22']);
+    });
+
+    it('returns null without an RRULE', () => {
+      expect(recurrenceToPattern(['EXDATE;VALUE=DATE:20240115'])).toBeNull();
+      expect(recurrenceToPattern(undefined)).toBeNull();
+    });
+
+    it('round-trips patterns through recurrence lines', () => {
+      const patterns: RecurrencePattern[] = [
+        { type: 'weekly', interval: 1, daysOfWeek: [1, 3, 5], endCondition: { type: 'never' } },
+        { type: 'monthly', interval: 3, nthWeekday: -1, daysOfWeek: [1, 2, 3, 4, 5], endCondition: { type: 'count', value: 6 } },
+        {
+          type: 'yearly',
+          interval: 1,
+          monthOfYear: 11,
+          nthWeekday: 4,
+          daysOfWeek: [4],
+          endCondition: { type: 'date', value: '2030-12-31' },
+          exclusionDates: ['2026-11-26'],
+        },
+      ];
+
+      for (const pattern of patterns) {
+        expect(recurrenceToPattern(patternToRecurrence(pattern))).toEqual(pattern);
+      }
+    });
+  });
+});
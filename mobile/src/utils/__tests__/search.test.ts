@@ -0,0 +1,36 @@
+import { buildMatchQuery, parseSnippet, SNIPPET_MATCH_END, SNIPPET_MATCH_START } from '../search';
+
+describe('search', () => {
+  describe('buildMatchQuery', () => {
+    it('matches every word as a prefix', () => {
+      expect(buildMatchQuery('plan trip')).toBe('"plan"* "trip"*');
+      expect(buildMatchQuery('  Café  ')).toBe('"Café"*');
+    });
+
+    it('treats FTS syntax as plain text', () => {
+      expect(buildMatchQuery('title:"tax" OR -x*')).toBe('"title"* "tax"* "OR"* "x"*');
+    });
+
+    it('returns null when there is nothing to search for', () => {
+      expect(buildMatchQuery('')).toBeNull();
+      expect(buildMatchQuery(' -*" ')).toBeNull();
+    });
+  });
+
+  describe('parseSnippet', () => {
+    it('splits a snippet into plain and highlighted segments', () => {
+      const snippet = `…book the ${SNIPPET_MATCH_START}flights${SNIPPET_MATCH_END} and ${SNIPPET_MATCH_START}hotel${SNIPPET_MATCH_END}`;
+      expect(parseSnippet(snippet)).toEqual([
+        { text: '…book the ', highlighted: false },
+        { text: 'flights', highlighted: true },
+        { text: ' and ', highlighted: false },
+        { text: 'hotel', highlighted: true },
+      ]);
+    });
+
+    it('handles empty and unterminated snippets', () => {
+      expect(parseSnippet(null)).toEqual([]);
+      expect(parseSnippet(`${SNIPPET_MATCH_START}tax`)).toEqual([{ text: 'tax', highlighted: true }]);
+    });
+  });
+});
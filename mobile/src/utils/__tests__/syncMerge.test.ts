@@ -0,0 +1,105 @@
+import {
+  TASK_SYNC_FIELDS,
+  goalPayloadToSnapshot,
+  hasChangesFromBase,
+  mergeSnapshots,
+  taskPayloadToSnapshot,
+} from '../syncMerge';
+
+describe('syncMerge', () => {
+  const fields = ['title', 'description', 'priority'];
+  const base = { title: 'Draft report', description: null, priority: 'low' };
+
+  describe('mergeSnapshots', () => {
+    it('takes each side\'s change when different fields were edited', () => {
+      const local = { ...base, title: 'Final report' };
+      const server = { ...base, priority: 'high' };
+      const result = mergeSnapshots(base, local, server, fields);
+
+      expect(result.merged).toEqual({ title: 'Final report', description: null, priority: 'high' });
+      expect(result.conflicts).toEqual([]);
+      expect(result.base).toEqual(server);
+      expect(result.hasLocalChanges).toBe(true);
+    });
+
+    it('is in sync when both sides made the same edit', () => {
+      const edited = { ...base, title: 'Final report' };
+      const result = mergeSnapshots(base, edited, edited, fields);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.hasLocalChanges).toBe(false);
+    });
+
+    it('records a conflict and keeps the local value when both sides edited a field', () => {
+      const local = { ...base, title: 'Local title' };
+      const server = { ...base, title: 'Server title' };
+      const result = mergeSnapshots(base, local, server, fields);
+
+      expect(result.conflicts).toEqual([
+        { field: 'title', base: 'Draft report', local: 'Local title', server: 'Server title' },
+      ]);
+      expect(result.merged.title).toBe('Local title');
+      // The base is kept so the field conflicts again until it is resolved
+      expect(result.base.title).toBe('Draft report');
+      expect(mergeSnapshots(result.base, result.merged, server, fields).conflicts).toHaveLength(1);
+    });
+
+    it('treats fields the server omitted as unchanged on the server', () => {
+      const local = { ...base, priority: 'medium' };
+      const result = mergeSnapshots(base, local, { title: 'Draft report' }, fields);
+
+      expect(result.merged.priority).toBe('medium');
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it('keeps local edits when there is no base snapshot', () => {
+      const local = { ...base, title: 'Local title' };
+      const server = { ...base, title: 'Server title' };
+      const result = mergeSnapshots(null, local, server, fields);
+
+      expect(result.merged.title).toBe('Local title');
+      expect(result.conflicts).toEqual([]);
+      expect(result.hasLocalChanges).toBe(true);
+    });
+  });
+
+  describe('payload snapshots', () => {
+    it('normalizes dates and recurrence patterns so equal values compare equal', () => {
+      const a = taskPayloadToSnapshot({
+        title: 'Stretch',
+        due_date: '2024-01-10T09:00:00+00:00',
+        recurrence_pattern: { type: 'daily', interval: 1 },
+      });
+      const b = taskPayloadToSnapshot({
+        title: 'Stretch',
+        due_date: '2024-01-10T09:00:00.000Z',
+        recurrence_pattern: '{"interval":1,"type":"daily"}',
+      });
+
+      expect(a.due_date).toBe(b.due_date);
+      expect(a.recurrence_pattern).toBe(b.recurrence_pattern);
+    });
+
+    it('leaves out fields that are missing or unreadable', () => {
+      const snapshot = taskPayloadToSnapshot({ title: 'Stretch', due_date: 'not a date', status: 'unknown' });
+
+      expect(snapshot).not.toHaveProperty('due_date');
+      expect(snapshot).not.toHaveProperty('status');
+      expect(snapshot).not.toHaveProperty('recurrence_pattern');
+    });
+
+    it('reads numeric strings as numbers', () => {
+      expect(goalPayloadToSnapshot({ title: 'Run', progress_percentage: '40' }).progress_percentage).toBe(40);
+    });
+  });
+
+  describe('hasChangesFromBase', () => {
+    it('compares every sync field against the base', () => {
+      const snapshot = taskPayloadToSnapshot({ title: 'Stretch', priority: 'low' });
+
+      expect(hasChangesFromBase(snapshot, { ...snapshot }, TASK_SYNC_FIELDS)).toBe(false);
+      expect(hasChangesFromBase({ ...snapshot, priority: 'high' }, snapshot, TASK_SYNC_FIELDS)).toBe(true);
+      expect(hasChangesFromBase(snapshot, null, TASK_SYNC_FIELDS)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,17 @@
+import { withSyncParams } from '../syncQuery';
+
+describe('withSyncParams', () => {
+  it('leaves the URL alone without params', () => {
+    expect(withSyncParams('/tasks')).toBe('/tasks');
+  });
+
+  it('adds the since cursor and page params', () => {
+    expect(withSyncParams('/tasks', '2024-01-10T09:00:00.000Z', { limit: 200, cursor: 'abc=' }))
+      .toBe('/tasks?since=2024-01-10T09%3A00%3A00.000Z&limit=200&cursor=abc%3D');
+  });
+
+  it('appends to an existing query string', () => {
+    expect(withSyncParams('/calendar/events?maxResults=2500', null, { limit: 200 }))
+      .toBe('/calendar/events?maxResults=2500&limit=200');
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  EMPTY_SYNC_HEALTH,
+  countByTable,
+  describeSyncError,
+  isFailedSyncState,
+  parseSyncHealth,
+  recordSyncResult,
+  totalCount,
+} from '../syncStatus';
+
+const NOW = new Date('2024-01-10T09:00:00.000Z');
+
+describe('syncStatus', () => {
+  it('records failures and clears the error on the next success', () => {
+    const failed = recordSyncResult(EMPTY_SYNC_HEALTH, new Error('Request timeout'), NOW);
+    expect(failed).toEqual({ lastSuccessAt: null, lastFailureAt: NOW.toISOString(), lastError: 'Request timeout' });
+
+    const later = new Date('2024-01-10T09:05:00.000Z');
+    expect(recordSyncResult(failed, null, later)).toEqual({
+      lastSuccessAt: later.toISOString(),
+      lastFailureAt: NOW.toISOString(),
+      lastError: null,
+    });
+  });
+
+  it('describes any thrown value and keeps it short', () => {
+    expect(describeSyncError({ message: 'Bad gateway' })).toBe('Bad gateway');
+    expect(describeSyncError('offline')).toBe('offline');
+    expect(describeSyncError(undefined)).toBe('Unknown error');
+    expect(describeSyncError(new Error('x'.repeat(1000)))).toHaveLength(500);
+  });
+
+  it('ignores unreadable stored health', () => {
+    expect(parseSyncHealth(null)).toEqual(EMPTY_SYNC_HEALTH);
+    expect(parseSyncHealth('not json')).toEqual(EMPTY_SYNC_HEALTH);
+    expect(parseSyncHealth('{"lastSuccessAt":"2024-01-10T09:00:00.000Z","lastError":5}')).toEqual({
+      lastSuccessAt: '2024-01-10T09:00:00.000Z',
+      lastFailureAt: null,
+      lastError: null,
+    });
+  });
+
+  it('counts records per table', () => {
+    const counts = countByTable(['tasks', 'goals', 'tasks']);
+    expect(counts).toEqual({ tasks: 2, goals: 1 });
+    expect(totalCount(counts)).toBe(3);
+    expect(totalCount({})).toBe(0);
+  });
+
+  it('recognizes failed sync states', () => {
+    expect(isFailedSyncState('sync_failed_update')).toBe(true);
+    expect(isFailedSyncState('sync_failed')).toBe(true);
+    expect(isFailedSyncState('pending_update')).toBe(false);
+    expect(isFailedSyncState(undefined)).toBe(false);
+  });
+});
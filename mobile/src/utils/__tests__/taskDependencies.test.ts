@@ -0,0 +1,38 @@
+import { describeBlockers, getOpenBlockers, wouldCreateCycle } from '../taskDependencies';
+
+const link = (taskId: string, dependsOnTaskId: string) => ({ taskId, dependsOnTaskId });
+
+describe('taskDependencies', () => {
+  const links = [link('b', 'a'), link('c', 'b')];
+
+  it('rejects self links and direct or indirect cycles', () => {
+    expect(wouldCreateCycle(links, 'a', 'a')).toBe(true);
+    expect(wouldCreateCycle(links, 'a', 'b')).toBe(true);
+    expect(wouldCreateCycle(links, 'a', 'c')).toBe(true);
+  });
+
+  it('allows links that keep the graph acyclic', () => {
+    expect(wouldCreateCycle(links, 'c', 'a')).toBe(false);
+    expect(wouldCreateCycle(links, 'd', 'c')).toBe(false);
+    expect(wouldCreateCycle([], 'a', 'b')).toBe(false);
+  });
+
+  it('only counts prerequisites that are still open', () => {
+    const tasks = [
+      { id: 'a', status: 'completed' },
+      { id: 'b', status: 'in_progress' },
+      { id: 'c', status: 'not_started' },
+    ];
+    const blockers = getOpenBlockers([...links, link('c', 'missing')], tasks);
+
+    expect(blockers.has('b')).toBe(false);
+    expect(blockers.get('c')).toEqual(['b']);
+  });
+
+  it('names the blocking tasks', () => {
+    const titles = new Map([['b', 'Buy paint']]);
+    expect(describeBlockers(['b', 'x'], titles)).toBe('Blocked by Buy paint, another task');
+    expect(describeBlockers([], titles)).toBeNull();
+    expect(describeBlockers(undefined, titles)).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import { applyDrag, layoutTimeGrid, snapToStep } from '../timeGrid';
+
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 9, day, hours, minutes);
+const event = (id: string, start: Date, end: Date) => ({ id, start, end });
+
+describe('layoutTimeGrid', () => {
+  const monday = at(19, 0);
+
+  it('places overlapping events side by side and gives separate clusters the full width', () => {
+    const layouts = layoutTimeGrid([
+      event('a', at(19, 9), at(19, 11)),
+      event('b', at(19, 9, 30), at(19, 10)),
+      event('c', at(19, 10), at(19, 12)),
+      event('d', at(19, 14), at(19, 15)),
+    ], [monday]);
+    const byId = Object.fromEntries(layouts.map(l => [l.id, l]));
+
+    expect(byId.a).toMatchObject({ top: 540, height: 120, column: 0, columns: 2 });
+    expect(byId.b).toMatchObject({ column: 1, columns: 2 });
+    // c starts when b ends, so it reuses b's column
+    expect(byId.c).toMatchObject({ column: 1, columns: 2 });
+    expect(byId.d).toMatchObject({ column: 0, columns: 1 });
+  });
+
+  it('splits events across midnight and keeps short events tappable', () => {
+    const layouts = layoutTimeGrid([
+      event('late', at(19, 23), at(20, 1)),
+      event('instant', at(20, 8), at(20, 8)),
+    ], [monday, at(20, 0)]);
+
+    expect(layouts).toEqual([
+      expect.objectContaining({ id: 'late', dayIndex: 0, top: 1380, height: 60, startsToday: true, endsToday: false }),
+      expect.objectContaining({ id: 'late', dayIndex: 1, top: 0, height: 60, startsToday: false, endsToday: true }),
+      expect.objectContaining({ id: 'instant', dayIndex: 1, top: 480, height: 15 }),
+    ]);
+  });
+});
+
+describe('applyDrag', () => {
+  it('snaps to 15 minutes', () => {
+    expect(snapToStep(52)).toBe(45);
+    expect(snapToStep(53)).toBe(60);
+  });
+
+  it('moves an event keeping its duration, including to another day', () => {
+    expect(applyDrag(at(19, 9), at(19, 10, 30), 'move', 68)).toEqual({ start: at(19, 10, 15), end: at(19, 11, 45) });
+    expect(applyDrag(at(19, 9), at(19, 10), 'move', 0, 2)).toEqual({ start: at(21, 9), end: at(21, 10) });
+  });
+
+  it('keeps moved events within the day', () => {
+    expect(applyDrag(at(19, 22), at(19, 23), 'move', 180)).toEqual({ start: at(19, 23), end: at(20, 0) });
+    expect(applyDrag(at(19, 1), at(19, 2), 'move', -180)).toEqual({ start: at(19, 0), end: at(19, 1) });
+  });
+
+  it('resizes the end with a minimum duration', () => {
+    expect(applyDrag(at(19, 9), at(19, 10), 'resize', 38)).toEqual({ start: at(19, 9), end: at(19, 10, 45) });
+    expect(applyDrag(at(19, 9), at(19, 10), 'resize', -120)).toEqual({ start: at(19, 9), end: at(19, 9, 15) });
+    expect(applyDrag(at(19, 23), at(20, 0), 'resize', 90)).toEqual({ start: at(19, 23), end: at(20, 0) });
+  });
+});
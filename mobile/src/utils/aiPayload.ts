@@ -0,0 +1,319 @@
+/**
+ * Structured AI message payloads
+ * Assistant replies that carry structured content (a goal breakdown, a schedule, goal titles or
+ * a task list) are stored as a versioned payload in conversation_messages.metadata:
+ *
+ *   { "payload": { "version": 1, "type": "goal_breakdown", "data": { ... } } }
+ *
+ * The server builds the payload when it saves the reply (backend utils/aiPayload.js) and stores
+ * `payload: null` for replies without structured content. Payloads are validated again when read,
+ * so a malformed one is rejected here (and in unit tests) rather than rendering a blank card.
+ * Replies saved before payloads existed only have the fenced JSON in their text;
+ * payloadFromAssistantText converts those legacy shapes.
+ */
+
+import type { GoalData } from '../types/goal';
+
+export const AI_PAYLOAD_VERSION = 1;
+
+export interface ScheduleEvent {
+    activity: string;
+    startTime: string; // ISO or a time like "9:00 AM"
+    endTime: string;
+    date?: string; // human date like "August 15, 2025"
+}
+
+export interface PayloadTask {
+    id?: string;
+    title: string;
+    description?: string;
+    dueDate?: string;
+    priority?: string;
+    status?: 'not_started' | 'in_progress' | 'completed';
+}
+
+export interface AiPayloadDataMap {
+    goal_breakdown: GoalData;
+    schedule: { title?: string; events: ScheduleEvent[] };
+    goal_titles: { title: string; goals: string[] };
+    task_list: { title: string; tasks: PayloadTask[] };
+}
+
+export type AiPayloadType = keyof AiPayloadDataMap;
+
+export type AiPayload = {
+    [K in AiPayloadType]: { version: number; type: K; data: AiPayloadDataMap[K] };
+}[AiPayloadType];
+
+/**
+ * What a message's payload resolved to. `unsupported` covers types and versions this build
+ * does not know, which get a generic fallback instead of a renderer.
+ */
+export type ResolvedPayload =
+    | { status: 'ok'; payload: AiPayload }
+    | { status: 'unsupported'; type: string; version: number };
+
+type Validator = (data: any) => string | null;
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isOptionalString = (value: unknown): boolean => value === undefined || value === null || typeof value === 'string';
+
+// Returns the first error found in a non-empty list, or null
+const validateList = (value: unknown, name: string, validateEntry: (entry: any) => string | null): string | null => {
+    if (!Array.isArray(value) || value.length === 0) {
+        return `${name} must be a non-empty array`;
+    }
+    for (let i = 0; i < value.length; i++) {
+        const error = validateEntry(value[i]);
+        if (error) {
+            return `${name}[${i}]: ${error}`;
+        }
+    }
+    return null;
+};
+
+const PAYLOAD_VALIDATORS: Record<AiPayloadType, Validator> = {
+    goal_breakdown: data => {
+        if (typeof data?.title !== 'string' || typeof data?.description !== 'string') {
+            return 'title and description must be strings';
+        }
+        if (!isOptionalString(data.dueDate) || !isOptionalString(data.category)) {
+            return 'dueDate and category must be strings';
+        }
+        return validateList(data.milestones, 'milestones', milestone => {
+            if (!isNonEmptyString(milestone?.title)) {
+                return 'title is required';
+            }
+            if (!Array.isArray(milestone.steps)) {
+                return 'steps must be an array';
+            }
+            return milestone.steps.every((step: any) => isNonEmptyString(step?.text)) ? null : 'every step needs text';
+        });
+    },
+    schedule: data => {
+        if (!isOptionalString(data?.title)) {
+            return 'title must be a string';
+        }
+        return validateList(data?.events, 'events', event => {
+            if (typeof event?.activity !== 'string') {
+                return 'activity must be a string';
+            }
+            if (!isNonEmptyString(event.startTime) || !isNonEmptyString(event.endTime)) {
+                return 'startTime and endTime are required';
+            }
+            return isOptionalString(event.date) ? null : 'date must be a string';
+        });
+    },
+    goal_titles: data => {
+        if (!isNonEmptyString(data?.title)) {
+            return 'title is required';
+        }
+        return validateList(data.goals, 'goals', goal => (isNonEmptyString(goal) ? null : 'must be a non-empty string'));
+    },
+    task_list: data => {
+        if (!isNonEmptyString(data?.title)) {
+            return 'title is required';
+        }
+        return validateList(data.tasks, 'tasks', task => {
+            if (!isNonEmptyString(task?.title)) {
+                return 'title is required';
+            }
+            const optional = [task.id, task.description, task.dueDate, task.priority, task.status];
+            return optional.every(isOptionalString) ? null : 'optional fields must be strings';
+        });
+    },
+};
+
+export const isKnownPayloadType = (type: unknown): type is AiPayloadType =>
+    typeof type === 'string' && Object.prototype.hasOwnProperty.call(PAYLOAD_VALIDATORS, type);
+
+/**
+ * Checks a payload envelope against its type's schema.
+ */
+export function validateAiPayload(value: unknown): { payload: AiPayload; error?: undefined } | { payload?: undefined; error: string } {
+    const envelope = value as any;
+    if (!envelope || typeof envelope !== 'object') {
+        return { error: 'payload must be an object' };
+    }
+    if (!Number.isInteger(envelope.version) || envelope.version < 1) {
+        return { error: 'version must be a positive integer' };
+    }
+    if (envelope.version > AI_PAYLOAD_VERSION) {
+        return { error: `version ${envelope.version} is newer than supported (${AI_PAYLOAD_VERSION})` };
+    }
+    const type: unknown = envelope.type;
+    if (!isKnownPayloadType(type)) {
+        return { error: `unknown payload type: ${String(type)}` };
+    }
+    const error = PAYLOAD_VALIDATORS[type](envelope.data);
+    if (error) {
+        return { error: `${type}: ${error}` };
+    }
+    return { payload: envelope as AiPayload };
+}
+
+const makePayload = <K extends AiPayloadType>(type: K, data: AiPayloadDataMap[K]) =>
+    ({ version: AI_PAYLOAD_VERSION, type, data }) as AiPayload;
+
+const toSteps = (steps: unknown): Array<{ text: string }> =>
+    (Array.isArray(steps) ? steps : [])
+        .map(step => (typeof step === 'string' ? step : step?.text || step?.title || ''))
+        .map(text => ({ text: String(text).trim() }))
+        .filter(step => step.text.length > 0);
+
+const toGoalData = (goal: any, fallbackTitle?: string, category?: string): GoalData => ({
+    title: goal?.title || fallbackTitle || '',
+    description: goal?.description || '',
+    dueDate: goal?.target_completion_date || goal?.due_date || goal?.dueDate || undefined,
+    category: category ?? goal?.category ?? goal?.priority ?? undefined,
+    milestones: (Array.isArray(goal?.milestones) ? goal.milestones : []).map((milestone: any) => ({
+        title: String(milestone?.title || '').trim(),
+        steps: toSteps(milestone?.steps),
+    })),
+});
+
+const stringList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+
+/**
+ * Maps the JSON shapes the assistant has produced over time onto a payload, or null when the
+ * object is not structured content.
+ */
+export function payloadFromStructuredJson(json: any): AiPayload | null {
+    if (!json || typeof json !== 'object') {
+        return null;
+    }
+
+    if (json.category === 'goal') {
+        const titles = stringList(json.goals);
+        if (titles.length > 0) {
+            return makePayload('goal_titles', { title: json.title || 'Your Goals', goals: titles });
+        }
+        // { category: 'goal', goal: {...} } (current backend schema)
+        if (json.goal && typeof json.goal === 'object') {
+            return makePayload('goal_breakdown', toGoalData(json.goal, json.title));
+        }
+        // { category: 'goal', title, milestones: [...] } (older schema; the priority doubled as category)
+        if (Array.isArray(json.milestones)) {
+            return makePayload('goal_breakdown', toGoalData({ ...json, category: undefined }, undefined, json.priority ?? undefined));
+        }
+    }
+
+    // Read action wrapper { action_type: 'read', entity_type: 'goal', details: {...} }
+    if (json.action_type === 'read' && json.entity_type === 'goal') {
+        const details = json.details || {};
+        const titles = stringList(details.goals);
+        if (titles.length > 0) {
+            return makePayload('goal_titles', { title: 'Your Goals', goals: titles });
+        }
+        const first = Array.isArray(details.goals) ? details.goals[0] : (Array.isArray(details) ? details[0] : details);
+        if (first && typeof first === 'object') {
+            return makePayload('goal_breakdown', toGoalData(first));
+        }
+    }
+
+    if (json.category === 'schedule' && Array.isArray(json.events)) {
+        return makePayload('schedule', {
+            title: typeof json.title === 'string' ? json.title : undefined,
+            events: json.events.map((event: any) => ({
+                activity: event?.title || event?.summary || '',
+                // Both startTime/endTime and ISO start/end keys are in use
+                startTime: event?.startTime || event?.start?.dateTime || event?.start || event?.start_time || '',
+                endTime: event?.endTime || event?.end?.dateTime || event?.end || event?.end_time || '',
+                date: event?.date || event?.dateLabel || undefined,
+            })),
+        });
+    }
+
+    if (json.category === 'task' && Array.isArray(json.tasks)) {
+        return makePayload('task_list', {
+            title: json.title || 'Your Tasks',
+            tasks: json.tasks.map((task: any) => ({
+                id: task?.id,
+                title: task?.title || task?.text || '',
+                description: task?.description || '',
+                dueDate: task?.dueDate || task?.due_date,
+                priority: task?.priority,
+                status: task?.status,
+            })),
+        });
+    }
+
+    return null;
+}
+
+/**
+ * The fenced ```json block of an assistant reply, or the reply itself when it is bare JSON.
+ */
+function extractJson(text: string): any | null {
+    const candidates = [
+        text.match(/```json\s*(\{[\s\S]*?\})\s*```/i)?.[1],
+        text.match(/\{[\s\S]*\}/)?.[0],
+    ];
+    for (const candidate of candidates) {
+        if (!candidate) {
+            continue;
+        }
+        try {
+            return JSON.parse(candidate);
+        } catch {
+            // Try the next candidate
+        }
+    }
+    return null;
+}
+
+/**
+ * Builds a validated payload from the JSON embedded in an assistant reply (legacy messages).
+ */
+export function payloadFromAssistantText(text: string): AiPayload | null {
+    const payload = payloadFromStructuredJson(extractJson(String(text || '')));
+    return payload ? validateAiPayload(payload).payload ?? null : null;
+}
+
+const parseMetadata = (metadata: unknown): any => {
+    if (typeof metadata !== 'string') {
+        return metadata;
+    }
+    try {
+        return JSON.parse(metadata);
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Resolves what structured content a message carries: the stored payload when there is one,
+ * otherwise whatever the legacy JSON in its text converts to. Stored payloads of an unknown type
+ * or newer version resolve as unsupported; invalid ones are ignored. A stored `null` means the
+ * server found no structured content, so the text is not scanned.
+ */
+export function resolveMessagePayload(metadata: unknown, text: string): ResolvedPayload | null {
+    const parsed = parseMetadata(metadata);
+    const stored = parsed?.payload;
+    if (stored === null && typeof parsed === 'object') {
+        return null;
+    }
+    if (stored && typeof stored === 'object') {
+        const { payload, error } = validateAiPayload(stored);
+        if (payload) {
+            return { status: 'ok', payload };
+        }
+        if (!isKnownPayloadType(stored.type) || stored.version > AI_PAYLOAD_VERSION) {
+            return { status: 'unsupported', type: String(stored.type), version: Number(stored.version) || 0 };
+        }
+        console.warn('Ignoring invalid AI message payload:', error);
+    }
+
+    const legacy = payloadFromAssistantText(text);
+    return legacy ? { status: 'ok', payload: legacy } : null;
+}
+
+/**
+ * Metadata for a new assistant message: existing fields plus the payload the server built for it.
+ * An undefined payload (a server that does not send one) is left out, so the text fallback applies.
+ */
+export function buildMessageMetadata(payload: unknown, extra: Record<string, unknown> = {}): string | undefined {
+    const metadata = { ...extra, ...(payload !== undefined ? { payload } : {}) };
+    return Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : undefined;
+}
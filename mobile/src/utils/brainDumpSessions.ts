@@ -0,0 +1,244 @@
+/**
+ * Brain dump sessions
+ * Every brain dump is kept as a session: the raw text, the items it was split into and what
+ * each item became (a task, a goal or nothing). These helpers keep the item list and its
+ * outcomes consistent as the session moves through refinement and prioritization.
+ */
+
+export type BrainDumpStage = 'refining' | 'prioritizing' | 'completed';
+
+export type BrainDumpItemOutcome =
+    | { kind: 'task'; taskId: string }
+    // The goal is created later in chat, so its ID is linked once a goal with the item's title exists
+    | { kind: 'goal'; goalId: string | null }
+    | { kind: 'discarded' };
+
+type Level = 'low' | 'medium' | 'high';
+
+// What the on-device splitter produced for an item still waiting for AI extraction
+export interface DraftSnapshot {
+    text: string;
+    type: 'task' | 'goal';
+}
+
+export interface SessionItem {
+    id: string;
+    text: string;
+    type: 'task' | 'goal';
+    confidence?: number;
+    category?: string | null;
+    stress_level?: Level;
+    priority?: Level;
+    outcome?: BrainDumpItemOutcome;
+    draft?: DraftSnapshot;
+}
+
+// An item as returned by the brain dump API
+export interface ExtractedItem {
+    text: string;
+    type?: string;
+    confidence?: number;
+    category?: string | null;
+    stress_level?: string;
+    priority?: string;
+}
+
+export interface SessionSummary {
+    total: number;
+    tasks: number;
+    goals: number;
+    discarded: number;
+    open: number;
+    completedTasks: number;
+}
+
+/**
+ * Normalized form used to compare item texts and task titles (ignores case and spacing).
+ */
+export const normalizeItemText = (text: string): string =>
+    String(text || '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+const asLevel = (value: unknown): Level | undefined =>
+    typeof value === 'string' && /^(low|medium|high)$/i.test(value) ? (value.toLowerCase() as Level) : undefined;
+
+const asType = (value: unknown): 'task' | 'goal' | undefined =>
+    typeof value === 'string' && /^(task|goal)$/i.test(value) ? (value.toLowerCase() as 'task' | 'goal') : undefined;
+
+export const createItemId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+/**
+ * Gives every item an ID so it can be followed through refinement, where its text may change.
+ */
+export function withItemIds<T extends { id?: string }>(items: T[]): Array<T & { id: string }> {
+    return items.map(item => ({ ...item, id: item.id || createItemId() }));
+}
+
+export function parseSessionItems(json: string | null | undefined): SessionItem[] {
+    if (!json) {
+        return [];
+    }
+    try {
+        const parsed = JSON.parse(json);
+        return Array.isArray(parsed)
+            ? parsed.filter(item => item && typeof item.id === 'string' && typeof item.text === 'string')
+            : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Applies the working list to the session's items. Items dropped from the working list are kept
+ * (they become discarded when the session completes) and recorded outcomes are never lost.
+ */
+export function mergeSessionItems(previous: SessionItem[], next: SessionItem[]): SessionItem[] {
+    const nextById = new Map(next.map(item => [item.id, item]));
+    const merged = previous.map(item => {
+        const update = nextById.get(item.id);
+        return update ? { ...update, outcome: item.outcome ?? update.outcome } : item;
+    });
+    const known = new Set(previous.map(item => item.id));
+    return [...merged, ...next.filter(item => !known.has(item.id))];
+}
+
+/**
+ * The items still being worked on: no outcome yet.
+ */
+export const getOpenItems = (items: SessionItem[]): SessionItem[] => items.filter(item => !item.outcome);
+
+/**
+ * Pairs created tasks with the session's task items by title. Each task is used at most once,
+ * so repeated titles pair up in order.
+ */
+export function matchCreatedTasks(
+    items: SessionItem[],
+    createdTasks: Array<{ id: string; title: string }>
+): Record<string, string> {
+    const remaining = [...createdTasks];
+    const matches: Record<string, string> = {};
+    items
+        .filter(item => item.type === 'task' && !item.outcome)
+        .forEach(item => {
+            const index = remaining.findIndex(task => normalizeItemText(task.title) === normalizeItemText(item.text));
+            if (index >= 0) {
+                matches[item.id] = remaining[index].id;
+                remaining.splice(index, 1);
+            }
+        });
+    return matches;
+}
+
+/**
+ * Final outcomes for a finished session: matched items become tasks, everything else without
+ * an outcome was discarded.
+ */
+export function completeSessionItems(items: SessionItem[], taskIdsByItem: Record<string, string>): SessionItem[] {
+    return items.map(item => {
+        if (item.outcome) {
+            return item;
+        }
+        const taskId = taskIdsByItem[item.id];
+        return { ...item, outcome: taskId ? { kind: 'task', taskId } : { kind: 'discarded' } };
+    });
+}
+
+/**
+ * Counts what a session's items became. `taskStatuses` maps task IDs to their lifecycle status;
+ * tasks missing from it were deleted and do not count as completed.
+ */
+export function summarizeSession(items: SessionItem[], taskStatuses: Map<string, string>): SessionSummary {
+    const summary: SessionSummary = { total: items.length, tasks: 0, goals: 0, discarded: 0, open: 0, completedTasks: 0 };
+    items.forEach(item => {
+        switch (item.outcome?.kind) {
+            case 'task':
+                summary.tasks += 1;
+                if (taskStatuses.get(item.outcome.taskId) === 'completed') {
+                    summary.completedTasks += 1;
+                }
+                break;
+            case 'goal':
+                summary.goals += 1;
+                break;
+            case 'discarded':
+                summary.discarded += 1;
+                break;
+            default:
+                summary.open += 1;
+        }
+    });
+    return summary;
+}
+
+/**
+ * Folds AI extraction into items captured offline, without clobbering user edits:
+ * - a draft takes the AI's category, stress and priority, and its type unless the user changed it
+ * - the text the user sees is never replaced
+ * - AI items matching no draft are appended unless already known (`knownItems`, e.g. items the
+ *   user dropped) or listed in `skipKeys` (titles of existing tasks)
+ * Draft markers are removed, matched or not, since the dump has now been through AI.
+ */
+export function mergeExtractedItems(
+    items: SessionItem[],
+    extracted: ExtractedItem[],
+    knownItems: SessionItem[] = items,
+    skipKeys: Set<string> = new Set()
+): SessionItem[] {
+    const byKey = new Map<string, ExtractedItem>();
+    extracted.forEach(item => {
+        const key = normalizeItemText(item?.text);
+        if (key && !byKey.has(key)) {
+            byKey.set(key, item);
+        }
+    });
+
+    const used = new Set<string>();
+    const merged = items.map(item => {
+        if (!item.draft) {
+            return item;
+        }
+        const { draft, ...rest } = item;
+        const key = normalizeItemText(draft.text);
+        const match = byKey.get(key);
+        if (!match) {
+            return rest;
+        }
+        used.add(key);
+        const stress = asLevel(match.stress_level);
+        return {
+            ...rest,
+            type: item.type === draft.type ? asType(match.type) ?? item.type : item.type,
+            category: match.category ?? item.category ?? null,
+            stress_level: stress ?? item.stress_level,
+            priority: asLevel(match.priority) ?? stress ?? item.priority,
+            confidence: typeof match.confidence === 'number' ? match.confidence : item.confidence,
+        };
+    });
+
+    const known = new Set<string>(skipKeys);
+    [...knownItems, ...items].forEach(item => {
+        known.add(normalizeItemText(item.text));
+        if (item.draft) {
+            known.add(normalizeItemText(item.draft.text));
+        }
+    });
+
+    const appended: SessionItem[] = [];
+    byKey.forEach((item, key) => {
+        if (used.has(key) || known.has(key)) {
+            return;
+        }
+        known.add(key);
+        const stress = asLevel(item.stress_level) ?? 'medium';
+        appended.push({
+            id: createItemId(),
+            text: String(item.text).replace(/\s+/g, ' ').trim(),
+            type: asType(item.type) ?? 'task',
+            confidence: typeof item.confidence === 'number' ? item.confidence : 0.7,
+            category: item.category ?? null,
+            stress_level: stress,
+            priority: asLevel(item.priority) ?? stress,
+        });
+    });
+
+    return [...merged, ...appended];
+}
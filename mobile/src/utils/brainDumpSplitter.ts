@@ -0,0 +1,94 @@
+/**
+ * On-device brain dump splitter
+ * Used when the AI service cannot be reached: the dump is split into one item per line, bullet
+ * or sentence so the user can keep refining, and AI extraction runs later (see mergeExtractedItems
+ * in brainDumpSessions.ts).
+ */
+
+import { DraftSnapshot, normalizeItemText } from './brainDumpSessions';
+
+export interface DraftItem {
+    text: string;
+    type: 'task' | 'goal';
+    stress_level: 'medium';
+    priority: 'medium';
+    category: null;
+    draft: DraftSnapshot;
+}
+
+// Bullets ("-", "*", "•"), numbering ("1.", "2)") and checkboxes ("[ ]", "[x]")
+const BULLET_PATTERN = /^\s*(?:[-*•·–—]+|\d+[.)]|\[[ xX]?\])\s*/;
+const SENTENCE_BREAK = /[.!?;]+\s+/;
+const GOAL_PREFIX = /^goal\s*:\s*/i;
+const MIN_ITEM_LENGTH = 2;
+
+const cleanText = (text: string): string =>
+    text.replace(/\s+/g, ' ').replace(/[.!?;,]+$/, '').trim();
+
+/**
+ * Splits free text into item texts: one per line or bullet, and one per sentence within a line.
+ * Duplicates (ignoring case and spacing) are dropped.
+ */
+export function splitBrainDump(text: string): string[] {
+    const seen = new Set<string>();
+    const parts: string[] = [];
+    String(text || '')
+        .split(/\r?\n|\r/)
+        .map(line => line.replace(BULLET_PATTERN, ''))
+        .flatMap(line => line.split(SENTENCE_BREAK))
+        .map(cleanText)
+        .filter(part => part.length >= MIN_ITEM_LENGTH)
+        .forEach(part => {
+            const key = normalizeItemText(part);
+            if (!seen.has(key)) {
+                seen.add(key);
+                parts.push(part);
+            }
+        });
+    return parts;
+}
+
+/**
+ * Draft items for a dump that could not go through AI. Everything is a medium priority task
+ * except lines starting with "Goal:".
+ */
+export function createDraftItems(text: string): DraftItem[] {
+    return splitBrainDump(text)
+        .map(part => {
+            const isGoal = GOAL_PREFIX.test(part);
+            const itemText = cleanText(part.replace(GOAL_PREFIX, ''));
+            const type: 'task' | 'goal' = isGoal ? 'goal' : 'task';
+            return { itemText, type };
+        })
+        .filter(({ itemText }) => itemText.length >= MIN_ITEM_LENGTH)
+        .map(({ itemText, type }) => ({
+            text: itemText,
+            type,
+            stress_level: 'medium',
+            priority: 'medium',
+            category: null,
+            draft: { text: itemText, type },
+        }));
+}
+
+/**
+ * Keys of open tasks; brain dump tasks matching one are already on the user's list.
+ */
+export function openTaskKeys(tasks: Array<{ title?: string; lifecycleStatus?: string }>): Set<string> {
+    return new Set(
+        tasks
+            .filter(task => task?.lifecycleStatus !== 'completed')
+            .map(task => normalizeItemText(task?.title || ''))
+            .filter(Boolean)
+    );
+}
+
+/**
+ * Drops task items that are already open tasks. Goals are always kept.
+ */
+export function removeExistingTasks<T extends { text: string; type?: string }>(items: T[], taskKeys: Set<string>): T[] {
+    return items.filter(item => {
+        const isTask = String(item?.type || 'task').toLowerCase() === 'task';
+        return !(isTask && taskKeys.has(normalizeItemText(item?.text)));
+    });
+}
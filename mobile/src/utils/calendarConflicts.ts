@@ -0,0 +1,192 @@
+/**
+ * Calendar conflict detection
+ * Checks a proposed time against existing calendar events: overlaps, events closer than the
+ * buffer time, and all-day events on the same day. Also suggests the nearest free times of the
+ * same length for a conflicting event, found by the free/busy engine (utils/freeBusy.ts).
+ */
+
+import { addDays, addMinutes, differenceInMinutes, format, startOfDay } from 'date-fns';
+import { FreeBusyPreferences, findFreeSlots } from './freeBusy';
+
+export interface ConflictEvent {
+    id: string;
+    title?: string;
+    startTime: Date;
+    endTime: Date;
+    isAllDay?: boolean;
+    taskId?: string | null;
+}
+
+export interface ConflictCandidate {
+    id?: string;
+    startTime: Date;
+    endTime: Date;
+    isAllDay?: boolean;
+}
+
+// overlap: the times intersect; buffer: closer than the buffer time; all_day: shares a day with an all-day event
+export type ConflictKind = 'overlap' | 'buffer' | 'all_day';
+
+export interface EventConflict<T extends ConflictEvent = ConflictEvent> {
+    event: T;
+    kind: ConflictKind;
+}
+
+export interface ConflictOptions {
+    bufferMinutes?: number;
+    /** Events that belong to the candidate, e.g. the event being edited or its task's event */
+    ignoreIds?: string[];
+}
+
+export interface AlternativeOptions {
+    /** Events that belong to the candidate, e.g. the event being edited or its task's event */
+    ignoreIds?: string[];
+    count?: number;
+    /** Number of calendar days to search, starting with the candidate's day */
+    days?: number;
+    now?: Date;
+}
+
+const KIND_ORDER: Record<ConflictKind, number> = { overlap: 0, buffer: 1, all_day: 2 };
+
+// Days an event covers as [first day, day after the last]. All-day events ending exactly at
+// midnight do not cover the next day.
+const dayRange = (event: ConflictCandidate): [Date, Date] => {
+    const first = startOfDay(event.startTime);
+    const lastDay = event.endTime > event.startTime ? startOfDay(addMinutes(event.endTime, -1)) : first;
+    return [first, addDays(lastDay < first ? first : lastDay, 1)];
+};
+
+// A zero-length event still occupies its instant
+const effectiveEnd = (event: ConflictCandidate): Date =>
+    event.endTime > event.startTime ? event.endTime : addMinutes(event.startTime, 1);
+
+const gapMinutes = (a: ConflictCandidate, b: ConflictCandidate): number =>
+    b.startTime >= a.endTime
+        ? differenceInMinutes(b.startTime, a.endTime)
+        : differenceInMinutes(a.startTime, b.endTime);
+
+const conflictKind = (a: ConflictCandidate, b: ConflictCandidate, bufferMinutes: number): ConflictKind | null => {
+    if (a.isAllDay || b.isAllDay) {
+        const [aStart, aEnd] = dayRange(a);
+        const [bStart, bEnd] = dayRange(b);
+        return aStart < bEnd && bStart < aEnd ? 'all_day' : null;
+    }
+    if (a.startTime < effectiveEnd(b) && b.startTime < effectiveEnd(a)) {
+        return 'overlap';
+    }
+    return bufferMinutes > 0 && gapMinutes(a, b) < bufferMinutes ? 'buffer' : null;
+};
+
+/**
+ * Events that conflict with the candidate, overlaps first, then in start order.
+ */
+export function findConflicts<T extends ConflictEvent>(
+    candidate: ConflictCandidate,
+    events: T[],
+    options: ConflictOptions = {}
+): EventConflict<T>[] {
+    const ignored = new Set([candidate.id, ...(options.ignoreIds || [])].filter(Boolean));
+    const conflicts: EventConflict<T>[] = [];
+    events.forEach(event => {
+        if (ignored.has(event.id)) {
+            return;
+        }
+        const kind = conflictKind(candidate, event, options.bufferMinutes ?? 0);
+        if (kind) {
+            conflicts.push({ event, kind });
+        }
+    });
+    return conflicts.sort((a, b) =>
+        KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || a.event.startTime.getTime() - b.event.startTime.getTime()
+    );
+}
+
+/**
+ * IDs of timed events that overlap another timed event, for conflict badges.
+ * All-day events and buffer time are left out so that back-to-back days are not all flagged.
+ */
+export function getConflictingIds(events: ConflictEvent[]): Set<string> {
+    const timed = events
+        .filter(event => !event.isAllDay)
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    const ids = new Set<string>();
+    // Events still running when the next one (in start order) begins
+    let active: ConflictEvent[] = [];
+    timed.forEach(event => {
+        active = active.filter(other => effectiveEnd(other) > event.startTime);
+        active.forEach(other => {
+            ids.add(other.id);
+            ids.add(event.id);
+        });
+        active.push(event);
+    });
+    return ids;
+}
+
+/**
+ * The nearest free times of the candidate's length, nearest first. Times come from findFreeSlots,
+ * so they keep to the preferred hours and work days, the buffer time and max_tasks_per_day.
+ * Nothing is suggested for all-day events or before `now`.
+ */
+export function suggestAlternatives(
+    candidate: ConflictCandidate,
+    events: ConflictEvent[],
+    preferences: Partial<FreeBusyPreferences> | null | undefined,
+    options: AlternativeOptions = {}
+): { startTime: Date; endTime: Date }[] {
+    if (candidate.isAllDay) {
+        return [];
+    }
+    const ignored = new Set([candidate.id, ...(options.ignoreIds || [])].filter(Boolean));
+    const slots = findFreeSlots(events.filter(event => !ignored.has(event.id)), preferences, {
+        durationMinutes: differenceInMinutes(candidate.endTime, candidate.startTime),
+        from: startOfDay(candidate.startTime),
+        days: options.days,
+        now: options.now,
+    });
+
+    const distance = (start: Date) => Math.abs(start.getTime() - candidate.startTime.getTime());
+    return slots
+        .filter(slot => slot.start_time.getTime() !== candidate.startTime.getTime())
+        .sort((a, b) => distance(a.start_time) - distance(b.start_time))
+        .slice(0, options.count ?? 3)
+        .map(slot => ({ startTime: slot.start_time, endTime: slot.end_time }));
+}
+
+/**
+ * One-line description of a conflict for warnings, e.g. `Overlaps "Standup" (10:00 AM)`.
+ */
+export function describeConflict(conflict: EventConflict, bufferMinutes: number = 0): string {
+    const title = `"${conflict.event.title || 'Untitled Event'}"`;
+    switch (conflict.kind) {
+        case 'overlap':
+            return `Overlaps ${title} (${format(conflict.event.startTime, 'h:mm a')})`;
+        case 'buffer':
+            return `Less than ${bufferMinutes} min from ${title} (${format(conflict.event.startTime, 'h:mm a')})`;
+        case 'all_day':
+            return `Same day as all-day event ${title}`;
+    }
+}
+
+/**
+ * Reads the fields the detector needs from an API event (`start_time` or Google's `start.dateTime`).
+ * Returns null when the event has no usable start time.
+ */
+export function conflictEventFromApi(event: any): ConflictEvent | null {
+    const start = event?.start_time || event?.start?.dateTime || event?.start?.date;
+    const end = event?.end_time || event?.end?.dateTime || event?.end?.date || start;
+    const startTime = start ? new Date(start) : null;
+    const endTime = end ? new Date(end) : null;
+    if (!event?.id || !startTime || isNaN(startTime.getTime()) || !endTime || isNaN(endTime.getTime())) {
+        return null;
+    }
+    return {
+        id: String(event.id),
+        title: event.title || event.summary,
+        startTime,
+        endTime,
+        isAllDay: !!(event.is_all_day ?? event.isAllDay ?? (event.start?.date && !event.start?.dateTime)),
+        taskId: event.task_id ?? event.taskId ?? null,
+    };
+}
@@ -0,0 +1,71 @@
+/**
+ * Task checklist helpers
+ * Progress summaries for task cards, and turning an assistant's step-by-step breakdown into
+ * checklist items.
+ */
+
+export const MAX_CHECKLIST_ITEM_LENGTH = 500;
+const MAX_EXTRACTED_ITEMS = 20;
+
+export interface ChecklistProgress {
+    done: number;
+    total: number;
+}
+
+// "- step", "* step", "1. step", "2) step", optionally followed by a "[ ]" or "[x]" box
+const LIST_ITEM = /^(\s*)(?:[-*+•]|\d{1,2}[.)])\s+(?:\[[ xX]?\]\s*)?(.+)$/;
+
+const stripMarkdown = (text: string): string =>
+    text
+        .replace(/\*\*|__|`/g, '')
+        .replace(/^\*(.+)\*$/, '$1')
+        .trim();
+
+/**
+ * The top-level list items in a message, e.g. the steps of a breakdown. Nested items, code
+ * blocks and headings like "Steps:" are skipped; duplicates are dropped.
+ */
+export function extractChecklistItems(message: string): string[] {
+    const withoutCode = message.replace(/```[\s\S]*?```/g, '');
+    const matches = withoutCode.split('\n')
+        .map(line => LIST_ITEM.exec(line))
+        .filter((match): match is RegExpExecArray => match !== null)
+        .map(match => ({ indent: match[1].replace(/\t/g, '    ').length, text: stripMarkdown(match[2]) }));
+    if (matches.length === 0) {
+        return [];
+    }
+
+    const topLevel = Math.min(...matches.map(m => m.indent));
+    const seen = new Set<string>();
+    const items: string[] = [];
+    for (const { indent, text } of matches) {
+        if (indent !== topLevel || !text || text.endsWith(':')) {
+            continue;
+        }
+        const key = text.toLowerCase();
+        if (seen.has(key)) {
+            continue;
+        }
+        seen.add(key);
+        items.push(text.slice(0, MAX_CHECKLIST_ITEM_LENGTH));
+        if (items.length === MAX_EXTRACTED_ITEMS) {
+            break;
+        }
+    }
+    return items;
+}
+
+/**
+ * Done and total item counts per task.
+ */
+export function summarizeChecklists(items: { taskId: string; isCompleted: boolean }[]): Map<string, ChecklistProgress> {
+    const progress = new Map<string, ChecklistProgress>();
+    items.forEach(item => {
+        const current = progress.get(item.taskId) || { done: 0, total: 0 };
+        progress.set(item.taskId, {
+            done: current.done + (item.isCompleted ? 1 : 0),
+            total: current.total + 1,
+        });
+    });
+    return progress;
+}
@@ -68,12 +68,13 @@ export const formatDateReadable = (date: Date): string => {
 };
 
 /**
- * Format a time to HH:MM format
+ * Format a time to HH:MM format, in the viewer's (device) time zone unless another IANA zone is given
  */
-export const formatTime = (date: Date): string => {
+export const formatTime = (date: Date, timeZone?: string): string => {
   return date.toLocaleTimeString([], {
     hour: '2-digit',
     minute: '2-digit',
+    ...(timeZone ? { timeZone } : {}),
   });
 };
 
@@ -85,11 +86,156 @@ export const getTimezoneOffset = (): number => {
 };
 
 /**
- * Convert a date to the user's local timezone
+ * Get the device's IANA time zone (e.g. "America/Chicago"); this is the viewer's zone for display
  */
-export const toLocalTimezone = (date: Date): Date => {
-  const offset = getTimezoneOffset();
-  return new Date(date.getTime() - offset * 60 * 1000);
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+// Intl formatters are expensive to create; one per zone is reused
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZonedFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Check that a string is an IANA time zone this device knows
+ */
+export const isValidTimeZone = (timeZone: string | null | undefined): timeZone is string => {
+  if (!timeZone) {
+    return false;
+  }
+  try {
+    getZonedFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock fields of an instant in a zone, as if they were UTC
+const getZonedWallTime = (date: Date, timeZone: string): number => {
+  const fields: Record<string, number> = {};
+  getZonedFormatter(timeZone).formatToParts(date).forEach(part => {
+    fields[part.type] = Number(part.value);
+  });
+  // Some engines still report midnight as hour 24
+  return Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour % 24, fields.minute, fields.second, date.getMilliseconds());
+};
+
+/**
+ * Get a zone's offset from UTC at the given instant, in minutes east of UTC
+ * (e.g. -300 for America/New_York in winter, -240 in summer)
+ */
+export const getZoneOffsetMinutes = (date: Date, timeZone: string): number => {
+  return Math.round((getZonedWallTime(date, timeZone) - date.getTime()) / 60000);
+};
+
+/**
+ * Get the wall-clock time of an instant in a time zone, as a Date whose local getters
+ * (getHours, getDate...) read that wall time. For layout and labels only; never store the result.
+ */
+export const toZonedTime = (date: Date, timeZone: string): Date => {
+  const wall = new Date(getZonedWallTime(date, timeZone));
+  return new Date(
+    wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate(),
+    wall.getUTCHours(), wall.getUTCMinutes(), wall.getUTCSeconds(), wall.getUTCMilliseconds()
+  );
+};
+
+/**
+ * Get the instant at which a time zone's clocks show the local wall time of `wall`.
+ * Around DST changes: a time skipped by the clocks moves forward by the gap (2:30 becomes 3:30),
+ * and a time the clocks show twice resolves to the first of the two.
+ */
+export const fromZonedTime = (wall: Date, timeZone: string): Date => {
+  const asUtc = Date.UTC(
+    wall.getFullYear(), wall.getMonth(), wall.getDate(),
+    wall.getHours(), wall.getMinutes(), wall.getSeconds(), wall.getMilliseconds()
+  );
+  const day = 24 * 60 * 60 * 1000;
+  const offsetBefore = getZoneOffsetMinutes(new Date(asUtc - day), timeZone);
+  const offsetAfter = getZoneOffsetMinutes(new Date(asUtc + day), timeZone);
+  const candidates = [...new Set([offsetBefore, offsetAfter])]
+    .map(offset => asUtc - offset * 60000)
+    .filter(time => getZonedWallTime(new Date(time), timeZone) === asUtc)
+    .sort((a, b) => a - b);
+  return new Date(candidates.length > 0 ? candidates[0] : asUtc - offsetBefore * 60000);
+};
+
+/**
+ * Get a short name for a zone at the given instant, e.g. "EST" or "GMT+9"
+ */
+export const getTimeZoneAbbreviation = (date: Date, timeZone: string): string => {
+  try {
+    const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+      .formatToParts(date)
+      .find(p => p.type === 'timeZoneName');
+    return part?.value || timeZone;
+  } catch {
+    return timeZone;
+  }
+};
+
+/**
+ * Format a time as it reads in an event's own time zone, e.g. "09:00 AM EST", for showing next to
+ * the viewer's time. Returns null when the event has no known zone or its clocks currently
+ * match the viewer's.
+ */
+export const formatSecondaryTime = (
+  date: Date,
+  eventTimeZone: string | null | undefined,
+  viewerTimeZone: string = getDeviceTimeZone()
+): string | null => {
+  if (!isValidTimeZone(eventTimeZone) || !isValidTimeZone(viewerTimeZone)) {
+    return null;
+  }
+  if (getZoneOffsetMinutes(date, eventTimeZone) === getZoneOffsetMinutes(date, viewerTimeZone)) {
+    return null;
+  }
+  return `${formatTime(date, eventTimeZone)} ${getTimeZoneAbbreviation(date, eventTimeZone)}`;
+};
+
+/**
+ * Get the viewer's local midnight for the calendar day an instant falls on in a time zone.
+ * All-day events use this so they stay on their own date when the viewer changes zones.
+ */
+export const getZonedDay = (date: Date, timeZone: string): Date => {
+  const wall = toZonedTime(date, timeZone);
+  return new Date(wall.getFullYear(), wall.getMonth(), wall.getDate());
+};
+
+/**
+ * Get the viewer's days covered by an all-day event planned in a time zone. The end is exclusive;
+ * an end that isn't midnight in the event's zone still covers that whole day.
+ */
+export const getAllDayRangeInZone = (start: Date, end: Date, timeZone: string): { start: Date; end: Date } => {
+  const startDay = getZonedDay(start, timeZone);
+  const endDay = getZonedDay(end, timeZone);
+  const endsAtMidnight = toZonedTime(end, timeZone).getTime() === endDay.getTime();
+  if (!endsAtMidnight) {
+    endDay.setDate(endDay.getDate() + 1);
+  }
+  return { start: startDay, end: endDay > startDay ? endDay : addDays(startDay, 1) };
 };
 
 /**
@@ -0,0 +1,67 @@
+/**
+ * End-of-day review
+ * Picks the tasks to review at the end of the day (open tasks due today, plus today's focus)
+ * and turns the user's choices into due dates and the counts stored with the day's reflection.
+ */
+
+import { addDays, format, isSameDay, set } from 'date-fns';
+
+export type EodAction = 'done' | 'rollover' | 'drop';
+
+export interface EodTask {
+    id: string;
+    dueDate?: Date | null;
+    lifecycleStatus: string;
+    isTodayFocus?: boolean;
+}
+
+export interface EodCounts {
+    completedCount: number;
+    rolledOverCount: number;
+    droppedCount: number;
+}
+
+export const REFLECTION_SCORES = [1, 2, 3, 4, 5] as const;
+
+export const MOOD_LABELS: Record<number, string> = { 1: 'Rough', 2: 'Meh', 3: 'Okay', 4: 'Good', 5: 'Great' };
+export const ENERGY_LABELS: Record<number, string> = { 1: 'Drained', 2: 'Low', 3: 'Steady', 4: 'Energized', 5: 'Buzzing' };
+
+export const MAX_REFLECTION_NOTE_LENGTH = 1000;
+
+/**
+ * Open tasks due today and today's focus task, focus first and then by due time.
+ */
+export function getEndOfDayTasks<T extends EodTask>(tasks: T[], now: Date = new Date()): T[] {
+    const dueTime = (task: T) => task.dueDate?.getTime() ?? Number.MAX_SAFE_INTEGER;
+    return tasks
+        .filter(task => task.lifecycleStatus !== 'completed')
+        .filter(task => task.isTodayFocus || (task.dueDate && isSameDay(task.dueDate, now)))
+        .sort((a, b) => Number(!!b.isTodayFocus) - Number(!!a.isTodayFocus) || dueTime(a) - dueTime(b));
+}
+
+/**
+ * The due date for a task rolled over to `day`, keeping its time of day when it had one.
+ */
+export function rolloverDueDate(current: Date | null | undefined, day: Date): Date {
+    const base = current ?? set(day, { hours: 0, minutes: 0 });
+    return set(day, { hours: base.getHours(), minutes: base.getMinutes(), seconds: 0, milliseconds: 0 });
+}
+
+export const defaultRolloverDay = (now: Date = new Date()): Date => addDays(now, 1);
+
+export function countEodActions(actions: Record<string, EodAction | undefined>): EodCounts {
+    const values = Object.values(actions);
+    return {
+        completedCount: values.filter(action => action === 'done').length,
+        rolledOverCount: values.filter(action => action === 'rollover').length,
+        droppedCount: values.filter(action => action === 'drop').length,
+    };
+}
+
+/**
+ * The calendar day a reflection belongs to, as stored (YYYY-MM-DD, local time).
+ */
+export const toReflectionDate = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+export const isReflectionScore = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5;
@@ -0,0 +1,333 @@
+/**
+ * Filter engine
+ * Evaluates FilterOptions against tasks and calendar events. Shared by the calendar's
+ * search bar, saved filters and the smart lists on the Tasks screen, so a saved filter
+ * matches the same items wherever it is shown.
+ */
+
+import { endOfDay, endOfWeek, startOfDay, startOfWeek } from 'date-fns';
+import { CalendarEvent, Task } from '../types/calendar';
+
+export interface FilterOptions {
+    searchText: string;
+    eventType: 'all' | 'events' | 'tasks';
+    priority: 'all' | 'low' | 'medium' | 'high';
+    status: 'all' | 'not_started' | 'in_progress' | 'completed';
+    dateRange: 'all' | 'today' | 'this_week' | 'overdue' | 'custom' | 'upcoming' | 'past';
+    customStartDate?: Date;
+    customEndDate?: Date;
+    category?: string;
+    timeOfDay: 'all' | 'morning' | 'afternoon' | 'evening' | 'night';
+    duration: 'all' | 'short' | 'medium' | 'long';
+    location: 'all' | 'online' | 'in_person' | 'hybrid';
+    recurring: 'all' | 'one_time' | 'recurring';
+    urgency: 'all' | 'urgent' | 'normal' | 'low_priority';
+}
+
+export const DEFAULT_FILTER_OPTIONS: FilterOptions = {
+    searchText: '',
+    eventType: 'all',
+    priority: 'all',
+    status: 'all',
+    dateRange: 'all',
+    timeOfDay: 'all',
+    duration: 'all',
+    location: 'all',
+    recurring: 'all',
+    urgency: 'all',
+};
+
+export interface FilterResult {
+    events: CalendarEvent[];
+    tasks: Task[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGE_DAYS = 7; // Window used by 'upcoming' and 'past'
+
+const ONLINE_WORDS = ['zoom', 'meet', 'teams', 'online', 'virtual'];
+const IN_PERSON_WORDS = ['office', 'room', 'building', 'venue', 'location'];
+
+/**
+ * Number of options that differ from the defaults; drives the filter badge.
+ */
+export function countActiveFilters(options: FilterOptions): number {
+    let count = 0;
+    if (options.searchText.trim()) { count++; }
+    if (options.eventType !== 'all') { count++; }
+    if (options.priority !== 'all') { count++; }
+    if (options.status !== 'all') { count++; }
+    if (options.dateRange !== 'all') { count++; }
+    if (options.category) { count++; }
+    if (options.timeOfDay !== 'all') { count++; }
+    if (options.duration !== 'all') { count++; }
+    if (options.location !== 'all') { count++; }
+    if (options.recurring !== 'all') { count++; }
+    if (options.urgency !== 'all') { count++; }
+    return count;
+}
+
+const parseDate = (value: string | undefined): Date | null => {
+    if (!value) {
+        return null;
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+};
+
+const eventStart = (event: CalendarEvent) => parseDate(event.start_time || event.start?.dateTime);
+const eventEnd = (event: CalendarEvent) => parseDate(event.end_time || event.end?.dateTime);
+
+const matchesText = (options: FilterOptions, ...values: (string | undefined)[]): boolean => {
+    const search = options.searchText.trim().toLowerCase();
+    if (!search) {
+        return true;
+    }
+    return values.some(value => value?.toLowerCase().includes(search));
+};
+
+// Whether a date falls inside the date range. Overdue is decided by the caller.
+const inDateRange = (date: Date | null, options: FilterOptions, now: Date): boolean => {
+    if (options.dateRange === 'all') {
+        return true;
+    }
+    if (!date) {
+        return false;
+    }
+
+    switch (options.dateRange) {
+        case 'today':
+            return date >= startOfDay(now) && date <= endOfDay(now);
+        case 'this_week':
+            return date >= startOfWeek(now) && date <= endOfWeek(now);
+        case 'upcoming':
+            return date >= now && date.getTime() <= now.getTime() + RANGE_DAYS * DAY_MS;
+        case 'past':
+            return date <= now && date.getTime() >= now.getTime() - RANGE_DAYS * DAY_MS;
+        case 'custom':
+            // An incomplete custom range doesn't filter anything out
+            if (!options.customStartDate || !options.customEndDate) {
+                return true;
+            }
+            return date >= startOfDay(options.customStartDate) && date <= endOfDay(options.customEndDate);
+        default:
+            return false;
+    }
+};
+
+const matchesTimeOfDay = (date: Date | null, timeOfDay: FilterOptions['timeOfDay']): boolean => {
+    if (timeOfDay === 'all') {
+        return true;
+    }
+    if (!date) {
+        return false;
+    }
+    const hour = date.getHours();
+    switch (timeOfDay) {
+        case 'morning': return hour >= 6 && hour < 12;
+        case 'afternoon': return hour >= 12 && hour < 17;
+        case 'evening': return hour >= 17 && hour < 21;
+        case 'night': return hour >= 21 || hour < 6;
+        default: return true;
+    }
+};
+
+const matchesDuration = (minutes: number | null, duration: FilterOptions['duration']): boolean => {
+    if (duration === 'all') {
+        return true;
+    }
+    if (minutes === null) {
+        return false;
+    }
+    switch (duration) {
+        case 'short': return minutes <= 60;
+        case 'medium': return minutes > 60 && minutes <= 240;
+        case 'long': return minutes > 240;
+        default: return true;
+    }
+};
+
+const matchesLocation = (location: FilterOptions['location'], ...values: (string | undefined)[]): boolean => {
+    if (location === 'all') {
+        return true;
+    }
+    const text = values.map(value => value?.toLowerCase() || '').join(' ');
+    const online = ONLINE_WORDS.some(word => text.includes(word));
+    const inPerson = IN_PERSON_WORDS.some(word => text.includes(word));
+    switch (location) {
+        case 'online': return online;
+        case 'in_person': return inPerson;
+        case 'hybrid': return text.includes('hybrid') || (online && inPerson);
+        default: return true;
+    }
+};
+
+const matchesRecurring = (isRecurring: boolean, recurring: FilterOptions['recurring']): boolean => {
+    switch (recurring) {
+        case 'recurring': return isRecurring;
+        case 'one_time': return !isRecurring;
+        default: return true;
+    }
+};
+
+// Urgency combines priority with how close the due date is
+const matchesUrgency = (task: Task, urgency: FilterOptions['urgency'], now: Date): boolean => {
+    if (urgency === 'all') {
+        return true;
+    }
+    const dueDate = parseDate(task.due_date);
+    if (!dueDate) {
+        return urgency === 'low_priority';
+    }
+
+    const daysUntilDue = (dueDate.getTime() - now.getTime()) / DAY_MS;
+    const isHighPriority = task.priority === 'high';
+    switch (urgency) {
+        case 'urgent': return daysUntilDue <= 1 || isHighPriority;
+        case 'normal': return daysUntilDue > 1 && daysUntilDue <= 7 && !isHighPriority;
+        case 'low_priority': return daysUntilDue > 7 && task.priority === 'low';
+        default: return true;
+    }
+};
+
+/**
+ * Whether a task matches every option. Tasks are dated by their due date.
+ */
+export function taskMatchesFilter(task: Task, options: FilterOptions, now: Date = new Date()): boolean {
+    if (options.eventType === 'events') {
+        return false;
+    }
+    if (!matchesText(options, task.title, task.description)) {
+        return false;
+    }
+    if (options.priority !== 'all' && task.priority !== options.priority) {
+        return false;
+    }
+    if (options.status !== 'all' && task.status !== options.status) {
+        return false;
+    }
+    if (options.category && task.category !== options.category) {
+        return false;
+    }
+
+    const dueDate = parseDate(task.due_date);
+    if (options.dateRange === 'overdue') {
+        if (!dueDate || task.status === 'completed' || dueDate >= now) {
+            return false;
+        }
+    } else if (!inDateRange(dueDate, options, now)) {
+        return false;
+    }
+
+    return matchesTimeOfDay(dueDate, options.timeOfDay)
+        && matchesDuration(task.estimated_duration_minutes ?? null, options.duration)
+        && matchesLocation(options.location, task.location, task.title, task.description)
+        && matchesRecurring(!!task.is_recurring, options.recurring)
+        && matchesUrgency(task, options.urgency, now);
+}
+
+/**
+ * Whether a calendar event matches every option. Task-only options (priority, status,
+ * category, urgency) don't apply to events; events are never overdue.
+ */
+export function eventMatchesFilter(event: CalendarEvent, options: FilterOptions, now: Date = new Date()): boolean {
+    if (options.eventType === 'tasks' || options.dateRange === 'overdue') {
+        return false;
+    }
+    if (!matchesText(options, event.title, event.summary, event.description)) {
+        return false;
+    }
+
+    const start = eventStart(event);
+    if (!inDateRange(start, options, now)) {
+        return false;
+    }
+
+    const end = eventEnd(event);
+    const minutes = start && end ? (end.getTime() - start.getTime()) / 60000 : null;
+
+    return matchesTimeOfDay(start, options.timeOfDay)
+        && matchesDuration(minutes, options.duration)
+        && matchesLocation(options.location, event.location, event.description, event.summary)
+        && matchesRecurring((event.recurrence?.length ?? 0) > 0, options.recurring);
+}
+
+export function applyFilter(
+    events: CalendarEvent[],
+    tasks: Task[],
+    options: FilterOptions,
+    now: Date = new Date()
+): FilterResult {
+    return {
+        events: events.filter(event => eventMatchesFilter(event, options, now)),
+        tasks: tasks.filter(task => taskMatchesFilter(task, options, now)),
+    };
+}
+
+/**
+ * Serializes options for storage and sync. Only options that differ from the defaults are kept.
+ */
+export function serializeFilterOptions(options: FilterOptions): string {
+    const stored: Record<string, unknown> = {};
+    (Object.keys(options) as (keyof FilterOptions)[]).forEach(key => {
+        const value = options[key];
+        if (value === undefined || value === '' || value === DEFAULT_FILTER_OPTIONS[key]) {
+            return;
+        }
+        stored[key] = value instanceof Date ? value.toISOString() : value;
+    });
+    return JSON.stringify(stored);
+}
+
+const OPTION_VALUES: Partial<Record<keyof FilterOptions, readonly string[]>> = {
+    eventType: ['all', 'events', 'tasks'],
+    priority: ['all', 'low', 'medium', 'high'],
+    status: ['all', 'not_started', 'in_progress', 'completed'],
+    dateRange: ['all', 'today', 'this_week', 'overdue', 'custom', 'upcoming', 'past'],
+    timeOfDay: ['all', 'morning', 'afternoon', 'evening', 'night'],
+    duration: ['all', 'short', 'medium', 'long'],
+    location: ['all', 'online', 'in_person', 'hybrid'],
+    recurring: ['all', 'one_time', 'recurring'],
+    urgency: ['all', 'urgent', 'normal', 'low_priority'],
+};
+
+/**
+ * Parses stored options. Unknown keys and values are ignored, so a filter saved by a newer
+ * app version still loads; anything missing falls back to the defaults.
+ */
+export function parseFilterOptions(json: string | null | undefined): FilterOptions {
+    const options: FilterOptions = { ...DEFAULT_FILTER_OPTIONS };
+    if (!json) {
+        return options;
+    }
+
+    let stored: Record<string, unknown>;
+    try {
+        stored = JSON.parse(json);
+    } catch {
+        return options;
+    }
+    if (!stored || typeof stored !== 'object') {
+        return options;
+    }
+
+    (Object.keys(OPTION_VALUES) as (keyof typeof OPTION_VALUES)[]).forEach(key => {
+        const value = stored[key];
+        if (typeof value === 'string' && OPTION_VALUES[key]!.includes(value)) {
+            (options as any)[key] = value;
+        }
+    });
+    if (typeof stored.searchText === 'string') {
+        options.searchText = stored.searchText;
+    }
+    if (typeof stored.category === 'string' && stored.category) {
+        options.category = stored.category;
+    }
+    (['customStartDate', 'customEndDate'] as const).forEach(key => {
+        const date = typeof stored[key] === 'string' ? parseDate(stored[key] as string) : null;
+        if (date) {
+            options[key] = date;
+        }
+    });
+    return options;
+}
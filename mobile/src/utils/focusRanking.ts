@@ -0,0 +1,240 @@
+/**
+ * Focus ranking
+ * Scores open tasks for Momentum mode's "next focus task". A strategy is a list of factors;
+ * each factor looks at one aspect of a task (priority, due date, fit with the time left today,
+ * ...) and returns points plus an optional human-readable reason. The highest total wins and
+ * its strongest reasons explain the choice ("why this task").
+ */
+
+import { differenceInCalendarDays, getISODay, set } from 'date-fns';
+
+export interface FocusCandidate {
+    id: string;
+    title: string;
+    priority?: string | null;
+    dueDate?: Date | null;
+    estimatedDurationMinutes?: number | null;
+    category?: string | null;
+    goalTitle?: string | null;
+    goalTargetDate?: Date | null;
+    /** Times the task was skipped in Momentum mode */
+    skipCount?: number;
+}
+
+export interface FocusWindow {
+    /** "HH:MM" or "HH:MM:SS", as in SchedulingPreferences */
+    startTime: string;
+    endTime: string;
+    /** ISO weekdays (1=Monday, 7=Sunday) the window applies to; every day when omitted */
+    workDays?: number[];
+}
+
+export interface FocusRankingContext {
+    now: Date;
+    /** The user's working hours today; without it duration fit is not scored */
+    window?: FocusWindow | null;
+    /** Categories of tasks completed today, most recent first */
+    recentCategories?: string[];
+}
+
+export interface FocusSignal {
+    points: number;
+    reason?: string;
+}
+
+export type FocusFactor = (candidate: FocusCandidate, context: FocusRankingContext) => FocusSignal | null;
+
+export interface FocusRankingStrategy {
+    name: string;
+    score(candidate: FocusCandidate, context: FocusRankingContext): FocusSignal[];
+}
+
+export interface RankedFocusCandidate<T extends FocusCandidate = FocusCandidate> {
+    candidate: T;
+    score: number;
+    /** Strongest reasons first; never empty */
+    reasons: string[];
+}
+
+const DEFAULT_DURATION_MINUTES = 30;
+const MAX_REASONS = 3;
+const GOAL_HORIZON_DAYS = 14;
+const FALLBACK_REASON = 'Nothing else is more pressing right now';
+
+const PRIORITY_POINTS: Record<string, number> = { high: 30, medium: 20, low: 10 };
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const formatMinutes = (minutes: number): string => {
+    const hours = Math.floor(minutes / 60);
+    const rest = Math.round(minutes % 60);
+    if (hours === 0) {
+        return `${rest} min`;
+    }
+    return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+// "HH:MM[:SS]" on the same day as `day`, or null when malformed
+const timeOnDay = (day: Date, time: string): Date | null => {
+    const match = /^(\d{1,2}):(\d{2})/.exec(time || '');
+    if (!match) {
+        return null;
+    }
+    return set(day, { hours: Number(match[1]), minutes: Number(match[2]), seconds: 0, milliseconds: 0 });
+};
+
+/**
+ * Minutes of the working window still ahead of `now`; null when there is no usable window,
+ * today is not a work day or the day's window has already ended.
+ */
+export function minutesLeftInWindow(window: FocusWindow | null | undefined, now: Date): number | null {
+    if (!window || (window.workDays && !window.workDays.includes(getISODay(now)))) {
+        return null;
+    }
+    const start = timeOnDay(now, window.startTime);
+    const end = timeOnDay(now, window.endTime);
+    if (!start || !end || end <= start || now >= end) {
+        return null;
+    }
+    const from = now > start ? now : start;
+    return Math.round((end.getTime() - from.getTime()) / 60000);
+}
+
+export const focusFactors: Record<string, FocusFactor> = {
+    priority: (candidate) => {
+        const points = PRIORITY_POINTS[candidate.priority || ''] || 0;
+        if (points === 0) {
+            return null;
+        }
+        return { points, reason: candidate.priority === 'high' ? 'High priority' : undefined };
+    },
+
+    dueDate: (candidate, { now }) => {
+        if (!candidate.dueDate) {
+            return null;
+        }
+        const daysUntil = differenceInCalendarDays(candidate.dueDate, now);
+        if (daysUntil < 0) {
+            const overdue = -daysUntil;
+            return { points: 25 + 5 * Math.min(overdue, 6), reason: `Overdue by ${plural(overdue, 'day')}` };
+        }
+        if (daysUntil === 0) {
+            return { points: 20, reason: 'Due today' };
+        }
+        if (daysUntil === 1) {
+            return { points: 12, reason: 'Due tomorrow' };
+        }
+        if (daysUntil <= 3) {
+            return { points: 8, reason: `Due in ${plural(daysUntil, 'day')}` };
+        }
+        return null;
+    },
+
+    goalDeadline: (candidate, { now }) => {
+        if (!candidate.goalTargetDate) {
+            return null;
+        }
+        const goal = candidate.goalTitle ? `"${candidate.goalTitle}"` : 'its goal';
+        const daysUntil = differenceInCalendarDays(candidate.goalTargetDate, now);
+        if (daysUntil < 0) {
+            return { points: 15, reason: `Moves ${goal} forward, which is past its target date` };
+        }
+        if (daysUntil > GOAL_HORIZON_DAYS) {
+            return null;
+        }
+        return {
+            points: 15 - daysUntil,
+            reason: daysUntil === 0
+                ? `Moves ${goal} forward, which is due today`
+                : `Moves ${goal} forward, which is due in ${plural(daysUntil, 'day')}`,
+        };
+    },
+
+    durationFit: (candidate, { now, window }) => {
+        const minutesLeft = minutesLeftInWindow(window, now);
+        if (minutesLeft === null) {
+            return null;
+        }
+        const duration = candidate.estimatedDurationMinutes && candidate.estimatedDurationMinutes > 0
+            ? candidate.estimatedDurationMinutes
+            : DEFAULT_DURATION_MINUTES;
+        if (duration > minutesLeft) {
+            return { points: -15 };
+        }
+        return { points: 8, reason: `Fits in the ${formatMinutes(minutesLeft)} left in your day` };
+    },
+
+    categoryBalance: (candidate, { recentCategories = [] }) => {
+        if (!candidate.category || recentCategories.length === 0) {
+            return null;
+        }
+        const repeats = recentCategories.filter(category => category === candidate.category).length;
+        if (repeats === 0) {
+            return { points: 6, reason: `A change from ${recentCategories[0]}` };
+        }
+        return { points: -6 * Math.min(repeats, 3) };
+    },
+
+    skips: (candidate) => {
+        const skipCount = candidate.skipCount ?? 0;
+        if (skipCount <= 0) {
+            return null;
+        }
+        return { points: -10 * Math.min(skipCount, 3) };
+    },
+};
+
+export function createFocusStrategy(name: string, factors: FocusFactor[]): FocusRankingStrategy {
+    return {
+        name,
+        score: (candidate, context) => factors
+            .map(factor => factor(candidate, context))
+            .filter((signal): signal is FocusSignal => signal !== null),
+    };
+}
+
+/** Weighs every factor; used by Momentum mode. */
+export const balancedFocusStrategy = createFocusStrategy('balanced', [
+    focusFactors.priority,
+    focusFactors.dueDate,
+    focusFactors.goalDeadline,
+    focusFactors.durationFit,
+    focusFactors.categoryBalance,
+    focusFactors.skips,
+]);
+
+/** Priority, then earliest due date: the ordering Momentum mode used before strategies existed. */
+export const priorityFirstStrategy = createFocusStrategy('priority_first', [focusFactors.priority]);
+
+const dueTime = (candidate: FocusCandidate) => candidate.dueDate?.getTime() ?? Number.MAX_SAFE_INTEGER;
+
+/**
+ * Ranks candidates best first. Ties fall back to the earliest due date, then title and ID,
+ * so the same input always gives the same order.
+ */
+export function rankFocusCandidates<T extends FocusCandidate>(
+    candidates: T[],
+    context: FocusRankingContext,
+    strategy: FocusRankingStrategy = balancedFocusStrategy
+): RankedFocusCandidate<T>[] {
+    return candidates
+        .map(candidate => {
+            const signals = strategy.score(candidate, context);
+            const reasons = signals
+                .filter(signal => signal.points > 0 && signal.reason)
+                .sort((a, b) => b.points - a.points)
+                .slice(0, MAX_REASONS)
+                .map(signal => signal.reason!);
+            return {
+                candidate,
+                score: signals.reduce((total, signal) => total + signal.points, 0),
+                reasons: reasons.length > 0 ? reasons : [FALLBACK_REASON],
+            };
+        })
+        .sort((a, b) =>
+            b.score - a.score ||
+            dueTime(a.candidate) - dueTime(b.candidate) ||
+            a.candidate.title.localeCompare(b.candidate.title) ||
+            a.candidate.id.localeCompare(b.candidate.id)
+        );
+}
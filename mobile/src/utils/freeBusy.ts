@@ -0,0 +1,153 @@
+/**
+ * Local free/busy engine
+ * Finds free time for a task from the calendar events stored on the device and the user's
+ * SchedulingPreferences, so scheduling keeps working without the server. Slots fall inside the
+ * working hours of work days, keep `buffer_time_minutes` away from other events and skip days
+ * that already hold `max_tasks_per_day` task events.
+ */
+
+import { addDays, addMinutes, getISODay, isSameDay, set, startOfDay } from 'date-fns';
+import { SchedulingPreferences, TimeSlot } from '../types/autoScheduling';
+
+export type FreeBusyPreferences = Pick<
+    SchedulingPreferences,
+    'preferred_start_time' | 'preferred_end_time' | 'work_days' | 'buffer_time_minutes' | 'max_tasks_per_day'
+>;
+
+export interface BusyEvent {
+    startTime: Date;
+    endTime: Date;
+    isAllDay?: boolean;
+    taskId?: string | null;
+}
+
+export interface FindSlotsOptions {
+    durationMinutes?: number | null;
+    /** Earliest start; defaults to now */
+    from?: Date;
+    /** Number of calendar days to search, starting with the day of `from` */
+    days?: number;
+    /** Stop after this many slots */
+    limit?: number;
+    /** A task being rescheduled: its own events neither block time nor count toward the day's tasks */
+    ignoreTaskId?: string | null;
+    now?: Date;
+}
+
+// Same defaults as the scheduling preferences screen
+export const DEFAULT_FREE_BUSY_PREFERENCES: FreeBusyPreferences = {
+    preferred_start_time: '09:00:00',
+    preferred_end_time: '17:00:00',
+    work_days: [1, 2, 3, 4, 5],
+    max_tasks_per_day: 5,
+    buffer_time_minutes: 15,
+};
+
+export const DEFAULT_TASK_DURATION_MINUTES = 60;
+const SLOT_STEP_MINUTES = 15;
+const DEFAULT_SEARCH_DAYS = 7;
+
+// "HH:MM[:SS]" on `day`, or null when malformed
+const timeOnDay = (day: Date, time: string | undefined): Date | null => {
+    const match = /^(\d{1,2}):(\d{2})/.exec(time || '');
+    if (!match) {
+        return null;
+    }
+    return set(day, { hours: Number(match[1]), minutes: Number(match[2]), seconds: 0, milliseconds: 0 });
+};
+
+// Rounds up to the next slot step so suggested times look like ones a person would pick
+const ceilToStep = (date: Date): Date => {
+    const minutes = date.getHours() * 60 + date.getMinutes() + (date.getSeconds() > 0 || date.getMilliseconds() > 0 ? 1 : 0);
+    const rounded = Math.ceil(minutes / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES;
+    return addMinutes(startOfDay(date), rounded);
+};
+
+/**
+ * Fills in missing or malformed fields with the defaults.
+ */
+export function resolveFreeBusyPreferences(preferences?: Partial<FreeBusyPreferences> | null): FreeBusyPreferences {
+    const prefs = preferences || {};
+    const workDays = Array.isArray(prefs.work_days) ? prefs.work_days.filter(d => d >= 1 && d <= 7) : [];
+    const number = (value: unknown, fallback: number) =>
+        typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+    return {
+        preferred_start_time: timeOnDay(new Date(), prefs.preferred_start_time)
+            ? prefs.preferred_start_time!
+            : DEFAULT_FREE_BUSY_PREFERENCES.preferred_start_time,
+        preferred_end_time: timeOnDay(new Date(), prefs.preferred_end_time)
+            ? prefs.preferred_end_time!
+            : DEFAULT_FREE_BUSY_PREFERENCES.preferred_end_time,
+        work_days: workDays.length > 0 ? workDays : DEFAULT_FREE_BUSY_PREFERENCES.work_days,
+        max_tasks_per_day: number(prefs.max_tasks_per_day, DEFAULT_FREE_BUSY_PREFERENCES.max_tasks_per_day),
+        buffer_time_minutes: number(prefs.buffer_time_minutes, DEFAULT_FREE_BUSY_PREFERENCES.buffer_time_minutes),
+    };
+}
+
+/**
+ * Free slots of the task's duration, earliest first, at most one per gap between events.
+ * All-day events do not block time.
+ */
+export function findFreeSlots(
+    events: BusyEvent[],
+    preferences: Partial<FreeBusyPreferences> | null | undefined,
+    options: FindSlotsOptions = {}
+): TimeSlot[] {
+    const prefs = resolveFreeBusyPreferences(preferences);
+    const now = options.now ?? new Date();
+    const from = options.from && options.from > now ? options.from : now;
+    const duration = options.durationMinutes && options.durationMinutes > 0
+        ? options.durationMinutes
+        : DEFAULT_TASK_DURATION_MINUTES;
+    const buffer = prefs.buffer_time_minutes;
+    const limit = options.limit ?? Number.POSITIVE_INFINITY;
+
+    const timed = events.filter(event =>
+        !event.isAllDay
+        && event.endTime >= event.startTime
+        && !(options.ignoreTaskId && event.taskId === options.ignoreTaskId)
+    );
+
+    const slots: TimeSlot[] = [];
+    const firstDay = startOfDay(from);
+    for (let offset = 0; offset < (options.days ?? DEFAULT_SEARCH_DAYS) && slots.length < limit; offset++) {
+        const day = addDays(firstDay, offset);
+        if (!prefs.work_days.includes(getISODay(day))) {
+            continue;
+        }
+        const windowStart = timeOnDay(day, prefs.preferred_start_time)!;
+        const windowEnd = timeOnDay(day, prefs.preferred_end_time)!;
+
+        const taskCount = timed.filter(event => event.taskId && isSameDay(event.startTime, day)).length;
+        if (taskCount >= prefs.max_tasks_per_day) {
+            continue;
+        }
+
+        // Busy time on this day, widened by the buffer on both sides
+        const busy = timed
+            .map(event => ({ start: addMinutes(event.startTime, -buffer), end: addMinutes(event.endTime, buffer) }))
+            .filter(interval => interval.start < windowEnd && interval.end > windowStart)
+            .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+        // Today starts no earlier than `buffer` minutes from now
+        let cursor = ceilToStep(isSameDay(day, now) ? addMinutes(from, buffer) : from);
+        if (cursor < windowStart) {
+            cursor = windowStart;
+        }
+
+        for (const interval of [...busy, { start: windowEnd, end: windowEnd }]) {
+            const slotEnd = addMinutes(cursor, duration);
+            if (slotEnd <= interval.start && slotEnd <= windowEnd) {
+                slots.push({ start_time: cursor, end_time: slotEnd, duration_minutes: duration });
+                if (slots.length >= limit) {
+                    break;
+                }
+            }
+            if (interval.end > cursor) {
+                cursor = ceilToStep(interval.end);
+            }
+        }
+    }
+
+    return slots;
+}
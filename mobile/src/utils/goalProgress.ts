@@ -0,0 +1,109 @@
+/**
+ * Goal progress
+ * A goal's progress is derived from its milestones, their steps and the tasks linked to it,
+ * rather than stored by hand. Each milestone counts by the share of its steps that are done
+ * (a milestone marked complete counts in full), and linked tasks count by how many are completed.
+ * The two parts are combined using relative weights; a part with nothing in it is left out.
+ */
+
+export interface ProgressMilestone {
+    id: string;
+    completed: boolean;
+}
+
+export interface ProgressStep {
+    milestoneId: string;
+    completed: boolean;
+}
+
+export interface ProgressTask {
+    lifecycleStatus?: string | null;
+}
+
+export interface ProgressWeights {
+    milestones: number;
+    tasks: number;
+}
+
+export interface GoalProgress {
+    // 0-100, rounded
+    percentage: number;
+    completedMilestones: number;
+    totalMilestones: number;
+    completedSteps: number;
+    totalSteps: number;
+    completedTasks: number;
+    totalTasks: number;
+}
+
+export const DEFAULT_PROGRESS_WEIGHTS: ProgressWeights = {
+    milestones: 1,
+    tasks: 1,
+};
+
+/**
+ * Share of a milestone that is done, from 0 to 1.
+ */
+export function getMilestoneProgress(milestone: ProgressMilestone, steps: ProgressStep[]): number {
+    if (milestone.completed) {
+        return 1;
+    }
+    if (steps.length === 0) {
+        return 0;
+    }
+    return steps.filter(step => step.completed).length / steps.length;
+}
+
+export function computeGoalProgress(
+    milestones: ProgressMilestone[],
+    steps: ProgressStep[],
+    tasks: ProgressTask[],
+    weights: ProgressWeights = DEFAULT_PROGRESS_WEIGHTS,
+): GoalProgress {
+    const stepsByMilestone = new Map<string, ProgressStep[]>();
+    for (const step of steps) {
+        const milestoneSteps = stepsByMilestone.get(step.milestoneId) || [];
+        milestoneSteps.push(step);
+        stepsByMilestone.set(step.milestoneId, milestoneSteps);
+    }
+
+    let milestoneTotal = 0;
+    let completedMilestones = 0;
+    let totalSteps = 0;
+    let completedSteps = 0;
+    for (const milestone of milestones) {
+        const milestoneSteps = stepsByMilestone.get(milestone.id) || [];
+        const progress = getMilestoneProgress(milestone, milestoneSteps);
+        milestoneTotal += progress;
+        if (progress === 1) {
+            completedMilestones++;
+        }
+        totalSteps += milestoneSteps.length;
+        completedSteps += milestoneSteps.filter(step => step.completed).length;
+    }
+
+    const completedTasks = tasks.filter(task => task.lifecycleStatus === 'completed').length;
+
+    const parts: { share: number; weight: number }[] = [];
+    if (milestones.length > 0 && weights.milestones > 0) {
+        parts.push({ share: milestoneTotal / milestones.length, weight: weights.milestones });
+    }
+    if (tasks.length > 0 && weights.tasks > 0) {
+        parts.push({ share: completedTasks / tasks.length, weight: weights.tasks });
+    }
+
+    const totalWeight = parts.reduce((sum, part) => sum + part.weight, 0);
+    const share = totalWeight > 0
+        ? parts.reduce((sum, part) => sum + part.share * part.weight, 0) / totalWeight
+        : 0;
+
+    return {
+        percentage: Math.round(share * 100),
+        completedMilestones,
+        totalMilestones: milestones.length,
+        completedSteps,
+        totalSteps,
+        completedTasks,
+        totalTasks: tasks.length,
+    };
+}
@@ -0,0 +1,338 @@
+/**
+ * iCalendar (.ics) files for mobile
+ * Parses VEVENTs from an .ics file, expands recurring ones over a bounded window, and builds
+ * .ics text for export. Recurrence rules go through utils/rrule.ts and the recurrence engine,
+ * so rules that a RecurrencePattern cannot represent import as their first occurrence only.
+ */
+
+import { addDays, addMinutes, differenceInMinutes, endOfDay, format } from 'date-fns';
+import { fromICalDate, recurrenceToPattern, toICalDate } from './rrule';
+import { calculateNextDueDate, toLocalDateKey } from './recurrenceEngine';
+import { fromZonedTime, isValidTimeZone } from './dateUtils';
+
+export interface IcsEvent {
+    uid: string;
+    title: string;
+    description?: string;
+    location?: string;
+    start: Date;
+    end: Date;
+    isAllDay: boolean;
+    // RRULE and EXDATE lines, in the form utils/rrule.ts reads
+    recurrence: string[];
+    // Set on a VEVENT that replaces one occurrence of a recurring event
+    recurrenceId?: Date;
+    cancelled: boolean;
+    // IANA zone from DTSTART's TZID, when the device knows it
+    timeZone?: string;
+}
+
+// One concrete event to store; `uid` is unique per occurrence
+export interface IcsOccurrence {
+    uid: string;
+    title: string;
+    description?: string;
+    location?: string;
+    start: Date;
+    end: Date;
+    isAllDay: boolean;
+    timeZone?: string;
+}
+
+export interface IcsExportEvent {
+    uid: string;
+    title: string;
+    description?: string;
+    location?: string;
+    start: Date;
+    end: Date;
+    isAllDay?: boolean;
+    // RRULE and EXDATE lines, e.g. from patternToRecurrence()
+    recurrence?: string[];
+}
+
+interface IcsProperty {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+// Guards against rules that never reach the window (e.g. a daily rule from decades ago)
+const MAX_RECURRENCE_STEPS = 5000;
+export const MAX_OCCURRENCES_PER_EVENT = 500;
+
+const unescapeText = (value: string): string =>
+    value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const escapeText = (value: string): string =>
+    value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// "NAME;PARAM=x;PARAM="y:z":VALUE" -> parts; the value starts at the first colon outside quotes
+const parseProperty = (line: string): IcsProperty | null => {
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') {
+            inQuotes = !inQuotes;
+        } else if (line[i] === ':' && !inQuotes) {
+            colon = i;
+            break;
+        }
+    }
+    if (colon <= 0) {
+        return null;
+    }
+    const [name, ...paramParts] = line.slice(0, colon).split(';');
+    const params: Record<string, string> = {};
+    paramParts.forEach(part => {
+        const [key, ...rest] = part.split('=');
+        if (key) {
+            params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+        }
+    });
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+// A DATE or DATE-TIME property as a Date; DATE values and floating times are local to the device,
+// times with a known TZID are read in that zone
+const parseDateProperty = (property: IcsProperty): { date: Date; isDate: boolean } | null => {
+    const value = property.value.split(',')[0].trim();
+    const parsed = fromICalDate(value);
+    if (!parsed) {
+        return null;
+    }
+    if (parsed.length === 10) {
+        const [year, month, day] = parsed.split('-').map(Number);
+        return { date: new Date(year, month - 1, day), isDate: true };
+    }
+    const timeZone = property.params.TZID;
+    if (!/Z$/i.test(value) && isValidTimeZone(timeZone)) {
+        return { date: fromZonedTime(new Date(parsed), timeZone), isDate: false };
+    }
+    return { date: new Date(parsed), isDate: false };
+};
+
+// RFC 5545 DURATION, e.g. PT1H30M or P1D; returns minutes
+const parseDuration = (value: string): number | null => {
+    const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) {
+        return null;
+    }
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const total = (Number(weeks || 0) * 7 + Number(days || 0)) * 24 * 60
+        + Number(hours || 0) * 60 + Number(minutes || 0) + Math.floor(Number(seconds || 0) / 60);
+    return sign === '-' ? -total : total;
+};
+
+const toEvent = (properties: IcsProperty[]): IcsEvent | null => {
+    const get = (name: string) => properties.find(p => p.name === name);
+    const dtStart = get('DTSTART');
+    const start = dtStart ? parseDateProperty(dtStart) : null;
+    if (!start) {
+        return null;
+    }
+
+    let end = start.isDate ? addDays(start.date, 1) : start.date;
+    const dtEnd = get('DTEND');
+    const duration = get('DURATION');
+    const parsedEnd = dtEnd ? parseDateProperty(dtEnd) : null;
+    if (parsedEnd && parsedEnd.date >= start.date) {
+        end = parsedEnd.date;
+    } else if (duration) {
+        const minutes = parseDuration(duration.value);
+        if (minutes !== null && minutes >= 0) {
+            end = addMinutes(start.date, minutes);
+        }
+    }
+
+    const title = unescapeText(get('SUMMARY')?.value || '').trim() || 'Untitled Event';
+    const recurrenceId = get('RECURRENCE-ID');
+    const description = get('DESCRIPTION');
+    const location = get('LOCATION');
+    return {
+        // UID is required by RFC 5545; files without one still get a stable key
+        uid: get('UID')?.value.trim() || `${dtStart!.value}-${title}`,
+        title,
+        description: description ? unescapeText(description.value) : undefined,
+        location: location ? unescapeText(location.value) : undefined,
+        start: start.date,
+        end,
+        isAllDay: start.isDate,
+        recurrence: properties
+            .filter(p => p.name === 'RRULE' || p.name === 'EXDATE')
+            .map(p => `${p.name}${p.params.VALUE ? `;VALUE=${p.params.VALUE}` : ''}:${p.value}`),
+        recurrenceId: recurrenceId ? parseDateProperty(recurrenceId)?.date : undefined,
+        cancelled: (get('STATUS')?.value || '').toUpperCase() === 'CANCELLED',
+        timeZone: isValidTimeZone(dtStart!.params.TZID) ? dtStart!.params.TZID : undefined,
+    };
+};
+
+/**
+ * Reads the VEVENTs of an .ics file. Events without a usable DTSTART are skipped, as are
+ * properties of nested components such as VALARM.
+ */
+export function parseIcs(text: string): IcsEvent[] {
+    // Unfold continuation lines (a line break followed by a space or tab)
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const events: IcsEvent[] = [];
+    let properties: IcsProperty[] | null = null;
+    let nested = 0;
+
+    lines.forEach(line => {
+        const upper = line.trim().toUpperCase();
+        if (upper === 'BEGIN:VEVENT') {
+            properties = [];
+            nested = 0;
+        } else if (upper === 'END:VEVENT') {
+            const event = properties ? toEvent(properties) : null;
+            if (event) {
+                events.push(event);
+            }
+            properties = null;
+        } else if (properties && upper.startsWith('BEGIN:')) {
+            nested++;
+        } else if (properties && upper.startsWith('END:')) {
+            nested = Math.max(nested - 1, 0);
+        } else if (properties && nested === 0) {
+            const property = parseProperty(line);
+            if (property) {
+                properties.push(property);
+            }
+        }
+    });
+
+    return events;
+}
+
+// Key of one occurrence of a recurring event, by its original start
+const occurrenceUid = (uid: string, originalStart: Date): string =>
+    `${uid}_${toICalDate(originalStart.toISOString())}`;
+
+const toOccurrence = (event: IcsEvent, uid: string, start: Date, end: Date): IcsOccurrence => ({
+    uid,
+    title: event.title,
+    description: event.description,
+    location: event.location,
+    start,
+    end,
+    isAllDay: event.isAllDay,
+    timeZone: event.timeZone,
+});
+
+const overlapsWindow = (start: Date, end: Date, window: { start: Date; end: Date }): boolean =>
+    start < window.end && (end > window.start || (end <= start && start >= window.start));
+
+/**
+ * Turns parsed events into the occurrences that fall in `window`. Recurring events are expanded
+ * (at most MAX_OCCURRENCES_PER_EVENT each), EXDATEs and cancelled events are dropped, and an
+ * event with a RECURRENCE-ID replaces the occurrence it overrides.
+ */
+export function expandIcsEvents(events: IcsEvent[], window: { start: Date; end: Date }): IcsOccurrence[] {
+    const overrides = new Map<string, IcsEvent>();
+    events.filter(event => event.recurrenceId).forEach(event => {
+        overrides.set(occurrenceUid(event.uid, event.recurrenceId!), event);
+    });
+
+    const occurrences: IcsOccurrence[] = [];
+    overrides.forEach((event, uid) => {
+        if (!event.cancelled && overlapsWindow(event.start, event.end, window)) {
+            occurrences.push(toOccurrence(event, uid, event.start, event.end));
+        }
+    });
+
+    events.filter(event => !event.recurrenceId && !event.cancelled).forEach(event => {
+        const pattern = event.recurrence.length > 0 ? recurrenceToPattern(event.recurrence) : null;
+        if (!pattern) {
+            if (overlapsWindow(event.start, event.end, window)) {
+                occurrences.push(toOccurrence(event, event.uid, event.start, event.end));
+            }
+            return;
+        }
+
+        const duration = differenceInMinutes(event.end, event.start);
+        const excluded = new Set(pattern.exclusionDates || []);
+        const endValue = pattern.endCondition?.value;
+        const maxCount = pattern.endCondition?.type === 'count' && typeof endValue === 'number' ? endValue : Infinity;
+        // A date-only UNTIL includes that whole day
+        const until = pattern.endCondition?.type === 'date' && typeof endValue === 'string'
+            ? (endValue.length === 10 ? endOfDay(new Date(`${endValue}T00:00:00`)) : new Date(endValue))
+            : null;
+
+        let start = event.start;
+        let emitted = 0;
+        // DTSTART is always the first occurrence and counts toward COUNT
+        for (let step = 0; step < MAX_RECURRENCE_STEPS && step < maxCount; step++) {
+            if (start >= window.end || (until && start > until) || emitted >= MAX_OCCURRENCES_PER_EVENT) {
+                break;
+            }
+            const end = addMinutes(start, duration);
+            const uid = occurrenceUid(event.uid, start);
+            if (!excluded.has(toLocalDateKey(start)) && !overrides.has(uid) && overlapsWindow(start, end, window)) {
+                occurrences.push(toOccurrence(event, uid, start, end));
+                emitted++;
+            }
+            try {
+                start = calculateNextDueDate(start, pattern);
+            } catch {
+                break;
+            }
+        }
+    });
+
+    return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldLine = (line: string): string => {
+    const chunks: string[] = [];
+    let rest = line;
+    while (rest.length > 74) {
+        chunks.push(rest.slice(0, 74));
+        rest = rest.slice(74);
+    }
+    chunks.push(rest);
+    return chunks.join('\r\n ');
+};
+
+const formatDateTime = (date: Date): string => toICalDate(date.toISOString()) as string;
+
+/**
+ * Builds an .ics calendar from events. Timed events are written in UTC, all-day events as
+ * local dates.
+ */
+export function buildIcs(events: IcsExportEvent[], options: { calendarName?: string; now?: Date } = {}): string {
+    const stamp = formatDateTime(options.now ?? new Date());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Mind Clear//Calendar Export//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        ...(options.calendarName ? [`X-WR-CALNAME:${escapeText(options.calendarName)}`] : []),
+    ];
+
+    events.forEach(event => {
+        lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+        if (event.isAllDay) {
+            const lastDay = event.end > event.start ? addMinutes(event.end, -1) : event.start;
+            lines.push(
+                `DTSTART;VALUE=DATE:${format(event.start, 'yyyyMMdd')}`,
+                `DTEND;VALUE=DATE:${format(addDays(lastDay, 1), 'yyyyMMdd')}`
+            );
+        } else {
+            lines.push(`DTSTART:${formatDateTime(event.start)}`, `DTEND:${formatDateTime(event.end)}`);
+        }
+        lines.push(`SUMMARY:${escapeText(event.title)}`);
+        if (event.description) {
+            lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+        }
+        if (event.location) {
+            lines.push(`LOCATION:${escapeText(event.location)}`);
+        }
+        lines.push(...(event.recurrence || []));
+        lines.push('END:VEVENT');
+    });
+
+    lines.push('END:VCALENDAR');
+    return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
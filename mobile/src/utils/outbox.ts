@@ -0,0 +1,113 @@
+/**
+ * Sync outbox rules
+ * Each local change is recorded as one outbox operation per record. Later changes to the
+ * same record fold into the operation that is already queued, operations can depend on
+ * the create of a parent record, and failed operations are retried with a backoff.
+ */
+
+export type OutboxOperationType = 'create' | 'update' | 'delete';
+
+// Tables pushed through the outbox, in the order their rows are adopted
+export const OUTBOX_TABLES = [
+    'goals',
+    'milestones',
+    'milestone_steps',
+    'tasks',
+    'calendar_events',
+    'conversation_threads',
+    'conversation_messages',
+    'routines',
+    'routine_completions',
+    'saved_filters',
+    'task_dependencies',
+    'task_checklist_items',
+    'daily_reflections',
+] as const;
+
+export type OutboxTable = typeof OUTBOX_TABLES[number];
+
+// A record a new operation depends on, e.g. the goal of a task
+export interface OutboxParent {
+    table: OutboxTable;
+    id: string | null | undefined;
+}
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+/**
+ * Folds a new change into the operation already queued for the record.
+ * A record created offline stays a create until it reaches the server; a delete always wins.
+ */
+export function coalesceOperation(
+    queued: OutboxOperationType,
+    next: OutboxOperationType,
+): OutboxOperationType {
+    if (queued === 'delete' || next === 'delete') {
+        return 'delete';
+    }
+    if (queued === 'create') {
+        return 'create';
+    }
+    return next === 'create' ? queued : next;
+}
+
+/**
+ * The operation a row needs, read from its sync state (e.g. 'pending_create', 'sync_failed_update').
+ * Legacy 'sync_failed' rows are retried as updates.
+ */
+export function operationFromSyncState(state: string | null | undefined): OutboxOperationType | null {
+    if (!state || state === 'synced') {
+        return null;
+    }
+    if (state.endsWith('create')) {
+        return 'create';
+    }
+    if (state.endsWith('delete')) {
+        return 'delete';
+    }
+    return 'update';
+}
+
+/**
+ * Delay before the next attempt after a failure: 30s, 1m, 2m, ... capped at 30 minutes.
+ */
+export function getRetryDelayMs(attemptCount: number): number {
+    if (attemptCount <= 0) {
+        return 0;
+    }
+    const delay = BASE_RETRY_DELAY_MS * Math.pow(2, attemptCount - 1);
+    return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+export function isOperationDue(nextAttemptAt: Date | null | undefined, now: Date = new Date()): boolean {
+    return !nextAttemptAt || nextAttemptAt.getTime() <= now.getTime();
+}
+
+export function parseDependencies(value: string | null | undefined): string[] {
+    if (!value) {
+        return [];
+    }
+    try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed.filter(id => typeof id === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+export function serializeDependencies(ids: string[]): string | undefined {
+    const unique = Array.from(new Set(ids));
+    return unique.length > 0 ? JSON.stringify(unique) : undefined;
+}
+
+/**
+ * An operation is blocked while any operation it depends on is still queued.
+ */
+export function isOperationBlocked(dependsOn: string[], queuedIds: Set<string>): boolean {
+    return dependsOn.some(id => queuedIds.has(id));
+}
+
+export function generateIdempotencyKey(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,160 @@
+/**
+ * Pull cursors
+ * Each collection is pulled page by page from its own sync cursor. While a pull is in
+ * progress the collection also keeps the cursor of its next page, so a pull interrupted
+ * by the app being killed resumes from that page instead of starting over.
+ */
+
+// Collections pulled page by page, in the order they are applied
+export const PULL_COLLECTIONS = [
+    'goals',
+    'tasks',
+    'calendar_events',
+    // After tasks, so items of tasks created offline are applied once the task has its server ID
+    'task_checklist_items',
+    'daily_reflections',
+    'conversation_threads',
+    'conversation_messages',
+] as const;
+
+export type PullCollection = typeof PULL_COLLECTIONS[number];
+
+export interface CollectionCursor {
+    // Server changes up to this time have been applied; null means the next pull is a full pull
+    syncedAt: string | null;
+    // A pull in progress: when it started and the cursor of its next page
+    inProgress?: {
+        startedAt: string;
+        pageCursor: string;
+    };
+}
+
+export type PullCursors = Partial<Record<PullCollection, CollectionCursor>>;
+
+// The page to request next for a collection
+export interface PageRequest {
+    since: string | null;
+    pageCursor: string | null;
+    startedAt: string;
+}
+
+// One page of a pull response
+export interface PulledPage {
+    changed: any[];
+    deleted: string[];
+    nextCursor: string | null;
+}
+
+export interface PullProgress {
+    collection: PullCollection;
+    // Position of the collection in PULL_COLLECTIONS
+    collectionIndex: number;
+    collectionCount: number;
+    // Pages applied for this collection during the current pull
+    pages: number;
+    // Records applied across all collections during the current pull
+    records: number;
+}
+
+const COLLECTION_LABELS: Record<PullCollection, string> = {
+    goals: 'goals',
+    tasks: 'tasks',
+    calendar_events: 'events',
+    task_checklist_items: 'checklists',
+    daily_reflections: 'reflections',
+    conversation_threads: 'conversations',
+    conversation_messages: 'messages',
+};
+
+export function parsePullCursors(value: string | null | undefined): PullCursors {
+    if (!value) {
+        return {};
+    }
+    try {
+        const parsed = JSON.parse(value);
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Reads a pull response. A bare array is a full, unpaged response; a failed fetch reads as empty.
+ */
+export function readPulledPage(response: any): PulledPage {
+    if (Array.isArray(response)) {
+        return { changed: response, deleted: [], nextCursor: null };
+    }
+    if (!response || typeof response !== 'object') {
+        return { changed: [], deleted: [], nextCursor: null };
+    }
+    return {
+        changed: Array.isArray(response.changed) ? response.changed : [],
+        deleted: Array.isArray(response.deleted) ? response.deleted : [],
+        nextCursor: typeof response.next_cursor === 'string' && response.next_cursor ? response.next_cursor : null,
+    };
+}
+
+/**
+ * The next page to request for a collection. A pull in progress continues from its saved page;
+ * otherwise a new pull starts at the collection's cursor.
+ * @param fallbackSince - Used when the collection has no cursor yet, e.g. the app-wide last sync time
+ */
+export function getPageRequest(
+    cursors: PullCursors,
+    collection: PullCollection,
+    now: string,
+    fallbackSince: string | null = null,
+): PageRequest {
+    const cursor = cursors[collection];
+    if (cursor?.inProgress) {
+        return {
+            since: cursor.syncedAt,
+            pageCursor: cursor.inProgress.pageCursor,
+            startedAt: cursor.inProgress.startedAt,
+        };
+    }
+    return {
+        since: cursor ? cursor.syncedAt : fallbackSince,
+        pageCursor: null,
+        startedAt: now,
+    };
+}
+
+/**
+ * Records that a page has been applied. Once the last page is in, the collection is caught up
+ * to the time its pull started.
+ */
+export function recordPage(
+    cursors: PullCursors,
+    collection: PullCollection,
+    request: PageRequest,
+    nextPageCursor: string | null | undefined,
+): PullCursors {
+    const cursor: CollectionCursor = nextPageCursor
+        ? { syncedAt: request.since, inProgress: { startedAt: request.startedAt, pageCursor: nextPageCursor } }
+        : { syncedAt: request.startedAt };
+    return { ...cursors, [collection]: cursor };
+}
+
+/**
+ * Makes the next pull of a collection a full pull.
+ */
+export function resetCollection(cursors: PullCursors, collection: PullCollection): PullCursors {
+    return { ...cursors, [collection]: { syncedAt: null } };
+}
+
+/**
+ * Whether every collection has finished its last pull.
+ */
+export function isCaughtUp(cursors: PullCursors): boolean {
+    return PULL_COLLECTIONS.every(collection => {
+        const cursor = cursors[collection];
+        return Boolean(cursor?.syncedAt) && !cursor?.inProgress;
+    });
+}
+
+export function describePullProgress(progress: PullProgress): string {
+    const label = COLLECTION_LABELS[progress.collection];
+    return `Syncing ${label} (${progress.collectionIndex + 1} of ${progress.collectionCount})`;
+}
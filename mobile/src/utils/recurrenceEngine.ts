@@ -0,0 +1,213 @@
+/**
+ * Recurrence engine for mobile
+ * Computes the next occurrence of a recurring task locally so completions
+ * made offline advance the task without waiting for the server.
+ * Mirrors backend/src/services/recurringTaskService.js processRecurringTask().
+ */
+
+import type { RecurrencePattern } from './recurrenceUtils';
+
+export type RecurrenceAdvance =
+    | { type: 'paused' }
+    | { type: 'ended'; pattern: RecurrencePattern; reason: string }
+    | { type: 'advanced'; pattern: RecurrencePattern; nextDueDate: Date };
+
+/**
+ * Add months to a date, clamping to the last day of the target month
+ * (e.g. Jan 31 + 1 month = Feb 28/29 instead of rolling into March)
+ */
+function addMonthsClamped(fromDate: Date, months: number): Date {
+    const next = new Date(fromDate);
+    const day = next.getDate();
+    next.setDate(1);
+    next.setMonth(next.getMonth() + months);
+    const lastDayOfMonth = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+    next.setDate(Math.min(day, lastDayOfMonth));
+    return next;
+}
+
+/**
+ * Deduplicate, validate and sort day-of-week indices (0=Sun ... 6=Sat)
+ */
+function normalizeDaysOfWeek(daysOfWeek: number[] | undefined): number[] {
+    return Array.from(new Set(
+        (daysOfWeek || []).filter(d => Number.isInteger(d) && d >= 0 && d <= 6)
+    )).sort((a, b) => a - b);
+}
+
+/**
+ * Local calendar date key (YYYY-MM-DD), the format used by exclusionDates
+ */
+export function toLocalDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Get the next day of week from a list of target days (0=Sun ... 6=Sat)
+ */
+export function getNextMatchingDayOfWeek(fromDate: Date, daysOfWeek: number[] | undefined, weekInterval: number = 1): Date {
+    const validDays = normalizeDaysOfWeek(daysOfWeek);
+    const next = new Date(fromDate);
+
+    if (validDays.length === 0) {
+        next.setDate(next.getDate() + 7 * weekInterval);
+        return next;
+    }
+
+    const currentDay = fromDate.getDay();
+    const laterThisWeek = validDays.find(d => d > currentDay);
+
+    if (laterThisWeek !== undefined) {
+        next.setDate(next.getDate() + (laterThisWeek - currentDay));
+        return next;
+    }
+
+    // Move to the first matching day of the next interval week
+    next.setDate(next.getDate() + 7 * weekInterval - currentDay + validDays[0]);
+    return next;
+}
+
+/**
+ * Find the nth day in a month that falls on one of daysOfWeek (nth = -1 for the last one),
+ * keeping the time of day from `timeSource`. Returns null when the month has no such day.
+ */
+export function getNthWeekdayOfMonth(
+    year: number,
+    month: number,
+    daysOfWeek: number[] | undefined,
+    nth: number,
+    timeSource: Date
+): Date | null {
+    const validDays = normalizeDaysOfWeek(daysOfWeek);
+    if (validDays.length === 0 || !Number.isInteger(nth) || nth === 0) {
+        return null;
+    }
+
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const matches: number[] = [];
+    for (let day = 1; day <= daysInMonth; day++) {
+        if (validDays.includes(new Date(year, month, day).getDay())) {
+            matches.push(day);
+        }
+    }
+
+    const matchedDay = matches[nth > 0 ? nth - 1 : matches.length + nth];
+    if (matchedDay === undefined) {
+        return null;
+    }
+
+    const result = new Date(timeSource);
+    result.setFullYear(year, month, matchedDay);
+    return result;
+}
+
+/**
+ * Next nth-weekday occurrence strictly after fromDate.
+ * The current period is checked first so a due date that is not yet aligned
+ * to the rule snaps to it; then the search steps forward by monthStep months.
+ */
+function getNextNthWeekday(fromDate: Date, pattern: RecurrencePattern, startMonth: number, monthStep: number): Date {
+    let year = fromDate.getFullYear();
+    let month = startMonth;
+
+    // Rules such as "fifth Monday" skip months without a match; bound the search
+    for (let attempt = 0; attempt < 60; attempt++) {
+        const candidate = getNthWeekdayOfMonth(year, month, pattern.daysOfWeek, pattern.nthWeekday as number, fromDate);
+        if (candidate && candidate > fromDate) {
+            return candidate;
+        }
+        month += monthStep;
+        year += Math.floor(month / 12);
+        month = ((month % 12) + 12) % 12;
+    }
+
+    throw new Error('No matching occurrence found for recurrence pattern');
+}
+
+/**
+ * Calculate the next due date for a recurrence pattern
+ */
+export function calculateNextDueDate(fromDate: Date, pattern: RecurrencePattern): Date {
+    const interval = pattern.interval && pattern.interval > 0 ? pattern.interval : 1;
+    const usesNthWeekday = typeof pattern.nthWeekday === 'number' && pattern.nthWeekday !== 0;
+
+    switch (pattern.type) {
+        case 'daily': {
+            const next = new Date(fromDate);
+            next.setDate(next.getDate() + interval);
+            return next;
+        }
+        case 'weekly':
+            return getNextMatchingDayOfWeek(fromDate, pattern.daysOfWeek, interval);
+        case 'monthly':
+            return usesNthWeekday
+                ? getNextNthWeekday(fromDate, pattern, fromDate.getMonth(), interval)
+                : addMonthsClamped(fromDate, interval);
+        case 'yearly': {
+            const targetMonth = pattern.monthOfYear ? pattern.monthOfYear - 1 : fromDate.getMonth();
+            if (usesNthWeekday) {
+                return getNextNthWeekday(fromDate, pattern, targetMonth, 12 * interval);
+            }
+            const candidate = addMonthsClamped(fromDate, targetMonth - fromDate.getMonth());
+            return candidate > fromDate ? candidate : addMonthsClamped(candidate, 12 * interval);
+        }
+        default:
+            throw new Error(`Invalid recurrence type: ${(pattern as any).type}`);
+    }
+}
+
+/**
+ * Work out what completing a recurring task should do.
+ * - Paused patterns do not advance
+ * - Count/date end conditions end the series (the task stays completed)
+ * - Otherwise the task moves to the next due date with completedCount incremented
+ * @param pattern - The task's recurrence pattern
+ * @param dueDate - The task's current due date (falls back to `now` when missing)
+ * @param now - Completion time
+ */
+export function advanceRecurrence(
+    pattern: RecurrencePattern,
+    dueDate: Date | null | undefined,
+    now: Date = new Date()
+): RecurrenceAdvance {
+    if (pattern.is_paused) {
+        return { type: 'paused' };
+    }
+
+    const currentDueDate = dueDate && !isNaN(dueDate.getTime()) ? dueDate : now;
+    const updatedPattern: RecurrencePattern = {
+        ...pattern,
+        completedCount: (pattern.completedCount || 0) + 1,
+    };
+    const endCondition = pattern.endCondition;
+
+    if (endCondition?.type === 'count' && typeof endCondition.value === 'number'
+        && (updatedPattern.completedCount as number) >= endCondition.value) {
+        return { type: 'ended', pattern: updatedPattern, reason: 'Completed all scheduled occurrences' };
+    }
+
+    const endDate = endCondition?.type === 'date' && typeof endCondition.value === 'string'
+        ? new Date(endCondition.value)
+        : null;
+    const hasEndDate = !!endDate && !isNaN(endDate.getTime());
+
+    if (hasEndDate && currentDueDate >= (endDate as Date)) {
+        return { type: 'ended', pattern: updatedPattern, reason: 'End date reached' };
+    }
+
+    let nextDueDate = calculateNextDueDate(currentDueDate, pattern);
+
+    // Skip excluded dates; occurrences strictly increase so each exclusion is hit at most once
+    const excluded = new Set(pattern.exclusionDates || []);
+    while (excluded.has(toLocalDateKey(nextDueDate))) {
+        nextDueDate = calculateNextDueDate(nextDueDate, pattern);
+    }
+
+    if (hasEndDate && nextDueDate > (endDate as Date)) {
+        return { type: 'ended', pattern: updatedPattern, reason: 'Next occurrence would exceed end date' };
+    }
+
+    return { type: 'advanced', pattern: updatedPattern, nextDueDate };
+}
@@ -4,9 +4,16 @@
  */
 
 export interface RecurrencePattern {
-    type: 'daily' | 'weekly' | 'monthly';
+    type: 'daily' | 'weekly' | 'monthly' | 'yearly';
     interval: number;
     daysOfWeek?: number[];
+    // Monthly/yearly: which matching day of the month (1-5, or -1 for last).
+    // Counted across all daysOfWeek, so -1 with Mon-Fri means "last weekday".
+    nthWeekday?: number;
+    // Yearly: month the occurrence falls in (1-12)
+    monthOfYear?: number;
+    // Local dates (YYYY-MM-DD) that are skipped when advancing
+    exclusionDates?: string[];
     endCondition?: {
         type: 'never' | 'count' | 'date';
         value?: number | string;
@@ -25,6 +32,32 @@ export interface Task {
 
 const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 const DAY_NAMES_FULL = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const ORDINAL_NAMES: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', 5: 'fifth', [-1]: 'last' };
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+/**
+ * Describe the days an nth-weekday rule counts across, e.g. "Tuesday" or "weekday"
+ */
+function describeNthWeekdayDays(daysOfWeek: number[] | undefined): string {
+    const days = Array.from(new Set(
+        (daysOfWeek || []).filter(d => typeof d === 'number' && d >= 0 && d <= 6)
+    )).sort((a, b) => a - b);
+
+    if (days.length === 7) return 'day';
+    if (days.length === WEEKDAYS.length && days.every((d, i) => d === WEEKDAYS[i])) return 'weekday';
+    if (days.length === 2 && days[0] === 0 && days[1] === 6) return 'weekend day';
+    if (days.length === 1) return DAY_NAMES_FULL[days[0]];
+    return days.map(d => DAY_NAMES[d]).join('/');
+}
+
+/**
+ * Describe an nth-weekday rule, e.g. "the second Tuesday" or "the last weekday"
+ */
+function describeNthWeekday(pattern: RecurrencePattern): string | null {
+    if (typeof pattern.nthWeekday !== 'number' || !ORDINAL_NAMES[pattern.nthWeekday]) return null;
+    return `the ${ORDINAL_NAMES[pattern.nthWeekday]} ${describeNthWeekdayDays(pattern.daysOfWeek)}`;
+}
 
 /**
  * Check if a task has a recurrence pattern
@@ -73,13 +106,36 @@ export function formatRecurrencePattern(pattern: RecurrencePattern | null | unde
                 base = interval === 1 ? 'Every week' : `Every ${interval} weeks`;
             }
             break;
-        case 'monthly':
+        case 'monthly': {
             base = interval === 1 ? 'Every month' : `Every ${interval} months`;
+            const nth = describeNthWeekday(pattern);
+            if (nth) {
+                base += ` on ${nth}`;
+            }
             break;
+        }
+        case 'yearly': {
+            base = interval === 1 ? 'Every year' : `Every ${interval} years`;
+            const nth = describeNthWeekday(pattern);
+            const month = pattern.monthOfYear ? MONTH_NAMES[pattern.monthOfYear - 1] : null;
+            if (nth && month) {
+                base += ` on ${nth} of ${month}`;
+            } else if (nth) {
+                base += ` on ${nth} of the month`;
+            } else if (month) {
+                base += ` in ${month}`;
+            }
+            break;
+        }
         default:
             return 'Recurring';
     }
 
+    const exclusions = pattern.exclusionDates?.length || 0;
+    if (exclusions > 0) {
+        base += exclusions === 1 ? ' (1 date skipped)' : ` (${exclusions} dates skipped)`;
+    }
+
     return base;
 }
 
@@ -103,6 +159,9 @@ export function getRecurrenceBadgeText(pattern: RecurrencePattern | null | undef
         case 'monthly':
             baseLabel = interval === 1 ? 'Monthly' : `Every ${interval}mo`;
             break;
+        case 'yearly':
+            baseLabel = interval === 1 ? 'Yearly' : `Every ${interval}y`;
+            break;
         default:
             baseLabel = 'Recurring';
             break;
@@ -170,7 +229,7 @@ export function getRecurrenceProgress(pattern: RecurrencePattern | null | undefi
 /**
  * Create a default recurrence pattern
  */
-export function createDefaultRecurrencePattern(type: 'daily' | 'weekly' | 'monthly' = 'weekly'): RecurrencePattern {
+export function createDefaultRecurrencePattern(type: RecurrencePattern['type'] = 'weekly'): RecurrencePattern {
     return {
         type,
         interval: 1,
@@ -190,7 +249,7 @@ export function isValidRecurrencePattern(pattern: any): pattern is RecurrencePat
     if (!pattern || typeof pattern !== 'object') return false;
 
     // Validate type field
-    if (!['daily', 'weekly', 'monthly'].includes(pattern.type)) return false;
+    if (!['daily', 'weekly', 'monthly', 'yearly'].includes(pattern.type)) return false;
 
     // Validate interval (must be an integer >= 1)
     if (pattern.interval !== undefined) {
@@ -215,6 +274,38 @@ export function isValidRecurrencePattern(pattern: any): pattern is RecurrencePat
         }
     }
 
+    // Validate nthWeekday (1-5 or -1, only for monthly/yearly, needs at least one day)
+    if (pattern.nthWeekday !== undefined) {
+        if (typeof pattern.nthWeekday !== 'number' ||
+            !Number.isInteger(pattern.nthWeekday) ||
+            !(pattern.nthWeekday === -1 || (pattern.nthWeekday >= 1 && pattern.nthWeekday <= 5))) {
+            return false;
+        }
+        if (pattern.type !== 'monthly' && pattern.type !== 'yearly') return false;
+        if (!Array.isArray(pattern.daysOfWeek) || pattern.daysOfWeek.length === 0) return false;
+    }
+
+    // Validate monthOfYear (1-12, only for yearly)
+    if (pattern.monthOfYear !== undefined) {
+        if (typeof pattern.monthOfYear !== 'number' ||
+            !Number.isInteger(pattern.monthOfYear) ||
+            pattern.monthOfYear < 1 ||
+            pattern.monthOfYear > 12 ||
+            pattern.type !== 'yearly') {
+            return false;
+        }
+    }
+
+    // Validate exclusionDates (array of YYYY-MM-DD strings)
+    if (pattern.exclusionDates !== undefined) {
+        if (!Array.isArray(pattern.exclusionDates)) return false;
+
+        for (const date of pattern.exclusionDates) {
+            if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+            if (isNaN(new Date(date).getTime())) return false;
+        }
+    }
+
     // Validate completedCount (must be a non-negative integer)
     if (pattern.completedCount !== undefined) {
         if (typeof pattern.completedCount !== 'number' ||
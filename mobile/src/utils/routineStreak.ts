@@ -0,0 +1,268 @@
+/**
+ * Routine streak engine for mobile
+ * Computes period bounds, streaks, grace periods and period status locally so
+ * routine completions work offline. Periods follow the routine's own time zone,
+ * like the server, so they do not shift when the device travels.
+ * Mirrors backend/src/services/routineStreakService.js and the
+ * log_routine_completion / undo_routine_completion / reset_routine_period RPCs.
+ */
+
+import { endOfDay, endOfMonth, endOfWeek, format, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+import type { Routine } from '../services/routineService';
+import { fromZonedTime, isValidTimeZone, toZonedTime } from './dateUtils';
+
+export type RoutineFrequency = Routine['frequency_type'];
+
+export interface RoutinePeriod {
+    start: Date;
+    end: Date;
+    periodDate: string; // Canonical YYYY-MM-DD of the period start
+}
+
+export interface RoutineStreakState {
+    currentStreak: number;
+    longestStreak: number;
+    totalCompletions: number;
+    gracePeriodsRemaining: number;
+    gracePeriodUsedAt?: string | null;
+    lastCompletedAt?: Date | null;
+    lastStreakIncrementPeriod?: string | null;
+}
+
+export interface RoutineCompletionEntry {
+    completedAt: Date;
+    periodDate: string;
+}
+
+// Matches user_app_preferences.routine_week_start default (Monday)
+const DEFAULT_WEEK_START = 1;
+
+/**
+ * Get the period containing `date` for a frequency, in the routine's time zone.
+ * Without a valid zone the device's local calendar is used.
+ */
+export function getPeriodBounds(
+    frequency: RoutineFrequency,
+    date: Date = new Date(),
+    timeZone?: string | null,
+    weekStart: 0 | 1 = DEFAULT_WEEK_START
+): RoutinePeriod {
+    const zone = isValidTimeZone(timeZone) ? timeZone : null;
+    const wall = zone ? toZonedTime(date, zone) : date;
+    let start: Date;
+    let end: Date;
+
+    switch (frequency) {
+        case 'daily':
+            start = startOfDay(wall);
+            end = endOfDay(wall);
+            break;
+        case 'weekly':
+            start = startOfWeek(wall, { weekStartsOn: weekStart });
+            end = endOfWeek(wall, { weekStartsOn: weekStart });
+            break;
+        case 'monthly':
+            start = startOfMonth(wall);
+            end = endOfMonth(wall);
+            break;
+        default:
+            throw new Error(`Invalid frequency: ${frequency}`);
+    }
+
+    return {
+        start: zone ? fromZonedTime(start, zone) : start,
+        end: zone ? fromZonedTime(end, zone) : end,
+        periodDate: format(start, 'yyyy-MM-dd'),
+    };
+}
+
+/**
+ * Get the period before the one containing `date`
+ */
+export function getPreviousPeriodBounds(
+    frequency: RoutineFrequency,
+    date: Date = new Date(),
+    timeZone?: string | null,
+    weekStart: 0 | 1 = DEFAULT_WEEK_START
+): RoutinePeriod {
+    const current = getPeriodBounds(frequency, date, timeZone, weekStart);
+    return getPeriodBounds(frequency, new Date(current.start.getTime() - 1), timeZone, weekStart);
+}
+
+/**
+ * Work out whether the streak survives to the period containing `now`.
+ * - Completed in the previous period (or later): streak is intact
+ * - Missed exactly one period: a grace period covers it if one is left
+ * - Otherwise the streak is broken and resets to 0
+ * Idempotent: a grace period already spent on the missed period is not spent again.
+ */
+export function resolveStreak(
+    frequency: RoutineFrequency,
+    state: RoutineStreakState,
+    now: Date = new Date(),
+    timeZone?: string | null
+): RoutineStreakState {
+    if (state.currentStreak <= 0 || !state.lastCompletedAt) {
+        return state;
+    }
+
+    const previous = getPreviousPeriodBounds(frequency, now, timeZone);
+    if (state.lastCompletedAt >= previous.start) {
+        return state;
+    }
+
+    if (state.gracePeriodUsedAt === previous.periodDate) {
+        return state;
+    }
+
+    const beforePrevious = getPreviousPeriodBounds(frequency, previous.start, timeZone);
+    if (state.lastCompletedAt >= beforePrevious.start && state.gracePeriodsRemaining > 0) {
+        return {
+            ...state,
+            gracePeriodsRemaining: state.gracePeriodsRemaining - 1,
+            gracePeriodUsedAt: previous.periodDate,
+        };
+    }
+
+    return { ...state, currentStreak: 0 };
+}
+
+/**
+ * Count completions in the period containing `now`
+ */
+export function getPeriodStatus(
+    frequency: RoutineFrequency,
+    targetCount: number,
+    completions: RoutineCompletionEntry[],
+    now: Date = new Date(),
+    timeZone?: string | null
+): NonNullable<Routine['period_status']> {
+    const period = getPeriodBounds(frequency, now, timeZone);
+    const count = completions.filter(c => c.periodDate === period.periodDate).length;
+
+    return {
+        completions_count: count,
+        target_count: targetCount,
+        is_complete: count >= targetCount,
+        period_date: period.periodDate,
+    };
+}
+
+/**
+ * Apply a new completion at `completedAt`.
+ * The streak increments once per period, when the period first reaches targetCount.
+ * @param completionsInPeriod - Completions already logged in the same period
+ */
+export function applyCompletion(
+    frequency: RoutineFrequency,
+    targetCount: number,
+    state: RoutineStreakState,
+    completionsInPeriod: number,
+    completedAt: Date = new Date(),
+    timeZone?: string | null
+): { state: RoutineStreakState; periodDate: string; completionsCount: number; streakIncremented: boolean } {
+    const { periodDate } = getPeriodBounds(frequency, completedAt, timeZone);
+    const resolved = resolveStreak(frequency, state, completedAt, timeZone);
+    const completionsCount = completionsInPeriod + 1;
+    const streakIncremented = completionsCount >= targetCount
+        && (!resolved.lastStreakIncrementPeriod || resolved.lastStreakIncrementPeriod < periodDate);
+
+    const next: RoutineStreakState = {
+        ...resolved,
+        totalCompletions: resolved.totalCompletions + 1,
+        lastCompletedAt: completedAt,
+    };
+
+    if (streakIncremented) {
+        next.currentStreak = resolved.currentStreak + 1;
+        next.longestStreak = Math.max(next.currentStreak, resolved.longestStreak);
+        next.lastStreakIncrementPeriod = periodDate;
+    }
+
+    return { state: next, periodDate, completionsCount, streakIncremented };
+}
+
+/**
+ * Roll back the streak when a period that earned an increment loses it.
+ * If longest_streak was the streak just reached, it is rolled back too.
+ */
+function rollBackStreak(state: RoutineStreakState): RoutineStreakState {
+    const longestStreak = state.longestStreak === state.currentStreak && state.currentStreak > 0
+        ? state.longestStreak - 1
+        : state.longestStreak;
+
+    return {
+        ...state,
+        currentStreak: Math.max(0, state.currentStreak - 1),
+        longestStreak: Math.max(0, longestStreak),
+    };
+}
+
+function getLatestCompletedAt(completions: RoutineCompletionEntry[]): Date | null {
+    return completions.reduce<Date | null>(
+        (latest, c) => (!latest || c.completedAt > latest ? c.completedAt : latest),
+        null
+    );
+}
+
+/**
+ * Remove the latest completion.
+ * @param removed - The completion being undone
+ * @param remaining - All other completions for the routine
+ */
+export function applyUndo(
+    targetCount: number,
+    state: RoutineStreakState,
+    removed: RoutineCompletionEntry,
+    remaining: RoutineCompletionEntry[]
+): RoutineStreakState {
+    const countAfter = remaining.filter(c => c.periodDate === removed.periodDate).length;
+    let next: RoutineStreakState = {
+        ...state,
+        totalCompletions: Math.max(0, state.totalCompletions - 1),
+        lastCompletedAt: getLatestCompletedAt(remaining),
+    };
+
+    if (countAfter < targetCount && state.lastStreakIncrementPeriod === removed.periodDate) {
+        next = rollBackStreak(next);
+
+        // Most recent earlier period that still reached the target
+        const countsByPeriod = new Map<string, number>();
+        for (const c of remaining) {
+            if (c.periodDate < removed.periodDate) {
+                countsByPeriod.set(c.periodDate, (countsByPeriod.get(c.periodDate) || 0) + 1);
+            }
+        }
+        const qualifying = Array.from(countsByPeriod.entries())
+            .filter(([, count]) => count >= targetCount)
+            .map(([period]) => period)
+            .sort();
+        next.lastStreakIncrementPeriod = qualifying.length > 0 ? qualifying[qualifying.length - 1] : null;
+    }
+
+    return next;
+}
+
+/**
+ * Remove every completion in one period
+ * @param removedCount - Completions removed from the period
+ * @param remaining - Completions left for the routine
+ */
+export function applyReset(
+    state: RoutineStreakState,
+    periodDate: string,
+    removedCount: number,
+    remaining: RoutineCompletionEntry[]
+): RoutineStreakState {
+    let next: RoutineStreakState = {
+        ...state,
+        totalCompletions: Math.max(0, state.totalCompletions - removedCount),
+        lastCompletedAt: getLatestCompletedAt(remaining),
+    };
+
+    if (state.lastStreakIncrementPeriod === periodDate) {
+        next = { ...rollBackStreak(next), lastStreakIncrementPeriod: null };
+    }
+
+    return next;
+}
@@ -0,0 +1,257 @@
+/**
+ * RFC 5545 RRULE conversion for mobile
+ * Converts RecurrencePattern to and from iCalendar recurrence lines, as found in
+ * .ics files (e.g. ["RRULE:FREQ=MONTHLY;BYDAY=2TU", "EXDATE;VALUE=DATE:20240213"]).
+ * Google Calendar imports arrive already expanded into single events, so only
+ * the .ics import and export (utils/ics.ts) go through here.
+ */
+
+import { RecurrencePattern, isValidRecurrencePattern } from './recurrenceUtils';
+import { toLocalDateKey } from './recurrenceEngine';
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQ_TO_TYPE: Record<string, RecurrencePattern['type']> = {
+    DAILY: 'daily',
+    WEEKLY: 'weekly',
+    MONTHLY: 'monthly',
+    YEARLY: 'yearly',
+};
+
+// Rule parts with no RecurrencePattern equivalent; rules using them do not round-trip
+const UNSUPPORTED_PARTS = ['BYYEARDAY', 'BYWEEKNO', 'BYHOUR', 'BYMINUTE', 'BYSECOND'];
+
+/**
+ * Format a date value as an iCalendar DATE (YYYYMMDD) or UTC DATE-TIME (YYYYMMDDTHHMMSSZ)
+ */
+export function toICalDate(value: string): string | null {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return value.replace(/-/g, '');
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        return null;
+    }
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Parse an iCalendar DATE or DATE-TIME value.
+ * Returns a YYYY-MM-DD string for dates and an ISO string for UTC date-times.
+ */
+export function fromICalDate(value: string): string | null {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) {
+        return null;
+    }
+
+    const [, year, month, day, hours, minutes, seconds, utc] = match;
+    if (!hours) {
+        return `${year}-${month}-${day}`;
+    }
+    if (utc) {
+        return new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds)).toISOString();
+    }
+    // Floating or TZID-qualified time: keep the wall-clock time
+    return new Date(+year, +month - 1, +day, +hours, +minutes, +seconds).toISOString();
+}
+
+/**
+ * Convert a recurrence pattern to an RRULE line (e.g. "RRULE:FREQ=WEEKLY;BYDAY=MO,WE")
+ */
+export function patternToRRule(pattern: RecurrencePattern): string {
+    const parts = [`FREQ=${pattern.type.toUpperCase()}`];
+
+    if (pattern.interval && pattern.interval > 1) {
+        parts.push(`INTERVAL=${pattern.interval}`);
+    }
+
+    const days = Array.from(new Set(
+        (pattern.daysOfWeek || []).filter(d => Number.isInteger(d) && d >= 0 && d <= 6)
+    )).sort((a, b) => a - b);
+    const hasNthWeekday = typeof pattern.nthWeekday === 'number'
+        && (pattern.type === 'monthly' || pattern.type === 'yearly');
+
+    if (pattern.type === 'yearly' && pattern.monthOfYear) {
+        parts.push(`BYMONTH=${pattern.monthOfYear}`);
+    }
+
+    if (hasNthWeekday && days.length === 1) {
+        // Single day: use the ordinal form calendar apps emit (e.g. 2TU)
+        parts.push(`BYDAY=${pattern.nthWeekday}${RRULE_DAYS[days[0]]}`);
+    } else if (hasNthWeekday && days.length > 1) {
+        parts.push(`BYDAY=${days.map(d => RRULE_DAYS[d]).join(',')}`);
+        parts.push(`BYSETPOS=${pattern.nthWeekday}`);
+    } else if (pattern.type === 'weekly' && days.length > 0) {
+        parts.push(`BYDAY=${days.map(d => RRULE_DAYS[d]).join(',')}`);
+    }
+
+    if (pattern.endCondition?.type === 'count' && typeof pattern.endCondition.value === 'number') {
+        parts.push(`COUNT=${pattern.endCondition.value}`);
+    } else if (pattern.endCondition?.type === 'date' && typeof pattern.endCondition.value === 'string') {
+        const until = toICalDate(pattern.endCondition.value);
+        if (until) {
+            parts.push(`UNTIL=${until}`);
+        }
+    }
+
+    return `RRULE:${parts.join(';')}`;
+}
+
+/**
+ * Convert a recurrence pattern to iCalendar recurrence lines (RRULE plus EXDATE)
+ */
+export function patternToRecurrence(pattern: RecurrencePattern): string[] {
+    const lines = [patternToRRule(pattern)];
+    const exclusions = (pattern.exclusionDates || [])
+        .map(date => toICalDate(date))
+        .filter((date): date is string => !!date);
+
+    if (exclusions.length > 0) {
+        lines.push(`EXDATE;VALUE=DATE:${exclusions.join(',')}`);
+    }
+    return lines;
+}
+
+/**
+ * Parse a single RRULE (with or without the "RRULE:" prefix).
+ * Returns null for rules that cannot be represented as a RecurrencePattern.
+ */
+export function parseRRule(rule: string): RecurrencePattern | null {
+    if (!rule || typeof rule !== 'string') {
+        return null;
+    }
+
+    const body = rule.trim().replace(/^RRULE:/i, '');
+    const parts = new Map<string, string>();
+    for (const part of body.split(';')) {
+        const [key, value] = part.split('=');
+        if (key && value !== undefined) {
+            parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+        }
+    }
+
+    const type = FREQ_TO_TYPE[parts.get('FREQ') || ''];
+    if (!type) {
+        return null;
+    }
+    if (UNSUPPORTED_PARTS.some(part => parts.has(part))) {
+        return null;
+    }
+
+    const pattern: RecurrencePattern = { type, interval: 1, endCondition: { type: 'never' } };
+
+    if (parts.has('INTERVAL')) {
+        const interval = parseInt(parts.get('INTERVAL') as string, 10);
+        if (!Number.isInteger(interval) || interval < 1) {
+            return null;
+        }
+        pattern.interval = interval;
+    }
+
+    if (parts.has('BYDAY')) {
+        const ordinals = new Set<number>();
+        const days: number[] = [];
+        for (const entry of (parts.get('BYDAY') as string).split(',')) {
+            const match = entry.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+            if (!match) {
+                return null;
+            }
+            if (match[1]) {
+                ordinals.add(parseInt(match[1], 10));
+            }
+            days.push(RRULE_DAYS.indexOf(match[2]));
+        }
+        // Mixed ordinals (e.g. 1MO,3WE) have no single-pattern equivalent
+        if (ordinals.size > 1) {
+            return null;
+        }
+        pattern.daysOfWeek = Array.from(new Set(days)).sort((a, b) => a - b);
+        if (ordinals.size === 1) {
+            pattern.nthWeekday = Array.from(ordinals)[0];
+        }
+    }
+
+    if (type === 'daily' && pattern.daysOfWeek) {
+        // FREQ=DAILY;BYDAY=MO,...,FR is the same as a weekly rule on those days
+        if (pattern.interval !== 1 || pattern.nthWeekday !== undefined) {
+            return null;
+        }
+        pattern.type = 'weekly';
+    }
+
+    if (parts.has('BYSETPOS')) {
+        const setPositions = (parts.get('BYSETPOS') as string).split(',');
+        if (setPositions.length !== 1 || pattern.nthWeekday !== undefined) {
+            return null;
+        }
+        pattern.nthWeekday = parseInt(setPositions[0], 10);
+    }
+
+    if (parts.has('BYMONTHDAY')) {
+        const monthDays = (parts.get('BYMONTHDAY') as string).split(',').map(d => parseInt(d, 10));
+        if (monthDays.length !== 1 || pattern.daysOfWeek) {
+            return null;
+        }
+        if (monthDays[0] === -1) {
+            // Last day of the month
+            pattern.daysOfWeek = [0, 1, 2, 3, 4, 5, 6];
+            pattern.nthWeekday = -1;
+        } else if (!(monthDays[0] >= 1 && monthDays[0] <= 31)) {
+            return null;
+        }
+        // A fixed day of month is anchored by the task's due date
+    }
+
+    if (parts.has('BYMONTH')) {
+        const months = (parts.get('BYMONTH') as string).split(',');
+        if (months.length !== 1 || type !== 'yearly') {
+            return null;
+        }
+        pattern.monthOfYear = parseInt(months[0], 10);
+    }
+
+    if (parts.has('COUNT')) {
+        pattern.endCondition = { type: 'count', value: parseInt(parts.get('COUNT') as string, 10) };
+    } else if (parts.has('UNTIL')) {
+        const until = fromICalDate(parts.get('UNTIL') as string);
+        if (!until) {
+            return null;
+        }
+        pattern.endCondition = { type: 'date', value: until };
+    }
+
+    return isValidRecurrencePattern(pattern) ? pattern : null;
+}
+
+/**
+ * Parse iCalendar recurrence lines (RRULE, EXDATE) into a pattern.
+ * Returns null when there is no RRULE or it cannot be represented.
+ */
+export function recurrenceToPattern(lines: string[] | string | null | undefined): RecurrencePattern | null {
+    const entries = (Array.isArray(lines) ? lines : typeof lines === 'string' ? lines.split(/\r?\n/) : [])
+        .map(line => line.trim())
+        .filter(Boolean);
+
+    const rule = entries.find(line => /^RRULE:/i.test(line));
+    const pattern = rule ? parseRRule(rule) : null;
+    if (!pattern) {
+        return null;
+    }
+
+    const exclusionDates = new Set<string>();
+    for (const line of entries.filter(entry => /^EXDATE[;:]/i.test(entry))) {
+        const values = line.slice(line.indexOf(':') + 1).split(',');
+        for (const value of values) {
+            const parsed = fromICalDate(value);
+            if (parsed) {
+                exclusionDates.add(parsed.length === 10 ? parsed : toLocalDateKey(new Date(parsed)));
+            }
+        }
+    }
+
+    if (exclusionDates.size > 0) {
+        pattern.exclusionDates = Array.from(exclusionDates).sort();
+    }
+    return pattern;
+}
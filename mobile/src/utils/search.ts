@@ -0,0 +1,123 @@
+/**
+ * Search helpers
+ * Turns what the user typed into an FTS5 match expression, and FTS snippets (or plain text,
+ * where FTS5 is not available) into segments the UI can render with the matched words highlighted.
+ */
+
+// Control characters can't appear in typed text, so they are safe snippet markers
+export const SNIPPET_MATCH_START = '\u0002';
+export const SNIPPET_MATCH_END = '\u0003';
+
+export interface HighlightSegment {
+    text: string;
+    highlighted: boolean;
+}
+
+// Characters of plain text shown around the first match
+const TEXT_SNIPPET_LENGTH = 80;
+const TEXT_SNIPPET_LEAD = 20;
+
+/**
+ * The words of what the user typed. Everything but letters and digits separates words.
+ */
+export function searchWords(input: string): string[] {
+    return input
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(word => word.length > 0);
+}
+
+/**
+ * Builds an FTS5 query that matches every typed word as a prefix, e.g. `plan trip` → `"plan"* "trip"*`.
+ * Returns null when there is nothing to search for. FTS syntax typed by the user is treated as text.
+ */
+export function buildMatchQuery(input: string): string | null {
+    const words = searchWords(input);
+    if (words.length === 0) {
+        return null;
+    }
+    return words.map(word => `"${word.replace(/"/g, '""')}"*`).join(' ');
+}
+
+/**
+ * Splits a snippet produced with the SNIPPET_MATCH_* markers into plain and highlighted segments.
+ */
+export function parseSnippet(snippet: string | null | undefined): HighlightSegment[] {
+    if (!snippet) {
+        return [];
+    }
+
+    const segments: HighlightSegment[] = [];
+    const push = (text: string, highlighted: boolean) => {
+        if (text.length > 0) {
+            segments.push({ text, highlighted });
+        }
+    };
+
+    let rest = snippet;
+    while (rest.length > 0) {
+        const start = rest.indexOf(SNIPPET_MATCH_START);
+        if (start === -1) {
+            push(rest, false);
+            break;
+        }
+        push(rest.slice(0, start), false);
+        const end = rest.indexOf(SNIPPET_MATCH_END, start + 1);
+        if (end === -1) {
+            push(rest.slice(start + 1), true);
+            break;
+        }
+        push(rest.slice(start + 1, end), true);
+        rest = rest.slice(end + 1);
+    }
+    return segments;
+}
+
+/**
+ * Highlights every case-insensitive occurrence of the words in plain text, showing the part of the
+ * text around the first match.
+ */
+export function highlightWords(text: string | null | undefined, words: string[]): HighlightSegment[] {
+    if (!text) {
+        return [];
+    }
+
+    const lowerText = text.toLowerCase();
+    const matches: Array<[number, number]> = [];
+    for (const word of words.map(w => w.toLowerCase()).filter(w => w.length > 0)) {
+        for (let index = lowerText.indexOf(word); index !== -1; index = lowerText.indexOf(word, index + word.length)) {
+            matches.push([index, index + word.length]);
+        }
+    }
+    matches.sort((a, b) => a[0] - b[0]);
+
+    const start = Math.max(0, (matches[0]?.[0] ?? 0) - TEXT_SNIPPET_LEAD);
+    const end = Math.min(text.length, start + TEXT_SNIPPET_LENGTH);
+    const segments: HighlightSegment[] = [];
+    const push = (segmentText: string, highlighted: boolean) => {
+        if (segmentText.length === 0) {
+            return;
+        }
+        const last = segments[segments.length - 1];
+        if (last && last.highlighted === highlighted) {
+            last.text += segmentText;
+        } else {
+            segments.push({ text: segmentText, highlighted });
+        }
+    };
+
+    push(start > 0 ? '…' : '', false);
+    let position = start;
+    for (const [matchStart, matchEnd] of matches) {
+        const from = Math.max(matchStart, position);
+        const to = Math.min(matchEnd, end);
+        if (from >= to) {
+            continue;
+        }
+        push(text.slice(position, from), false);
+        push(text.slice(from, to), true);
+        position = to;
+    }
+    push(text.slice(position, end), false);
+    push(end < text.length ? '…' : '', false);
+    return segments;
+}
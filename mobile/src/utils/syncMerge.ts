@@ -0,0 +1,322 @@
+/**
+ * Field-level three-way merge for sync
+ * Tasks and goals keep a base snapshot of their fields as last agreed with the server.
+ * When a record changed both locally and on the server, each field is merged on its own:
+ * a field changed on one side takes that side's value, and a field changed differently
+ * on both sides is a conflict the user resolves.
+ */
+
+import type Task from '../db/models/Task';
+import type Goal from '../db/models/Goal';
+import { isTaskLifecycleStatus } from './taskStatus';
+
+export type SnapshotValue = string | number | boolean | null;
+export type SyncSnapshot = Record<string, SnapshotValue>;
+
+// Tables whose records keep a base snapshot
+export type ConflictTable = 'tasks' | 'goals';
+
+export interface FieldConflict {
+    field: string;
+    base: SnapshotValue;
+    local: SnapshotValue;
+    server: SnapshotValue;
+}
+
+export interface MergeResult {
+    merged: SyncSnapshot; // Values to keep locally
+    base: SyncSnapshot; // Next base snapshot
+    conflicts: FieldConflict[];
+    hasLocalChanges: boolean; // Merged values still differ from the server and need pushing
+}
+
+// Field names follow the API payloads
+export const TASK_SYNC_FIELDS = [
+    'title',
+    'description',
+    'priority',
+    'estimated_duration_minutes',
+    'due_date',
+    'goal_id',
+    'is_today_focus',
+    'status',
+    'recurrence_pattern',
+] as const;
+
+export const GOAL_SYNC_FIELDS = [
+    'title',
+    'description',
+    'target_completion_date',
+    'progress_percentage',
+    'category',
+    'is_active',
+] as const;
+
+export function getSyncFields(table: ConflictTable): readonly string[] {
+    return table === 'tasks' ? TASK_SYNC_FIELDS : GOAL_SYNC_FIELDS;
+}
+
+/**
+ * JSON with sorted object keys, so equal objects always compare equal as strings
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value as Record<string, unknown>)
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+function textValue(value: unknown): SnapshotValue {
+    return value === undefined || value === null || value === '' ? null : String(value);
+}
+
+function numberValue(value: unknown): SnapshotValue {
+    // Postgres numerics can arrive as strings
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof number === 'number' && !isNaN(number) ? number : null;
+}
+
+function booleanValue(value: unknown): SnapshotValue {
+    return typeof value === 'boolean' ? value : null;
+}
+
+/**
+ * ISO string for a date, or undefined when the value cannot be parsed
+ */
+function dateValue(value: unknown): SnapshotValue | undefined {
+    if (value === undefined || value === null || value === '') {
+        return null;
+    }
+    const date = value instanceof Date ? value : new Date(value as string);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Canonical JSON for a recurrence pattern given as an object or a JSON string
+ */
+function patternValue(value: unknown): SnapshotValue {
+    if (!value) {
+        return null;
+    }
+    if (typeof value === 'string') {
+        try {
+            return stableStringify(JSON.parse(value));
+        } catch {
+            return value;
+        }
+    }
+    return stableStringify(value);
+}
+
+/**
+ * Remove fields that could not be read, so the merge treats them as unchanged
+ */
+function compact(snapshot: Record<string, SnapshotValue | undefined>): SyncSnapshot {
+    const result: SyncSnapshot = {};
+    for (const [key, value] of Object.entries(snapshot)) {
+        if (value !== undefined) {
+            result[key] = value;
+        }
+    }
+    return result;
+}
+
+export function taskToSnapshot(task: Task): SyncSnapshot {
+    return compact({
+        title: textValue(task.title),
+        description: textValue(task.description),
+        priority: textValue(task.priority),
+        estimated_duration_minutes: numberValue(task.estimatedDurationMinutes),
+        due_date: dateValue(task.dueDate),
+        goal_id: textValue(task.goalId),
+        is_today_focus: !!task.isTodayFocus,
+        status: textValue(task.lifecycleStatus),
+        recurrence_pattern: patternValue(task.recurrencePatternJson),
+    });
+}
+
+/**
+ * Snapshot of a task as sent by the server. Fields the payload omits are left out.
+ */
+export function taskPayloadToSnapshot(data: Record<string, any>): SyncSnapshot {
+    return compact({
+        title: textValue(data.title),
+        description: textValue(data.description),
+        priority: textValue(data.priority),
+        estimated_duration_minutes: numberValue(data.estimated_duration_minutes),
+        due_date: dateValue(data.due_date),
+        goal_id: textValue(data.goal_id),
+        is_today_focus: !!data.is_today_focus,
+        status: isTaskLifecycleStatus(data.status) ? data.status : undefined,
+        recurrence_pattern: data.recurrence_pattern === undefined ? undefined : patternValue(data.recurrence_pattern),
+    });
+}
+
+export function goalToSnapshot(goal: Goal): SyncSnapshot {
+    return compact({
+        title: textValue(goal.title),
+        description: textValue(goal.description),
+        target_completion_date: dateValue(goal.targetCompletionDate),
+        progress_percentage: numberValue(goal.progressPercentage),
+        category: textValue(goal.category),
+        is_active: booleanValue(goal.isActive),
+    });
+}
+
+export function goalPayloadToSnapshot(data: Record<string, any>): SyncSnapshot {
+    return compact({
+        title: textValue(data.title),
+        description: textValue(data.description),
+        target_completion_date: dateValue(data.target_completion_date),
+        progress_percentage: numberValue(data.progress_percentage),
+        category: textValue(data.category),
+        is_active: booleanValue(data.is_active),
+    });
+}
+
+/**
+ * Write snapshot fields back to a task. Only fields present in the snapshot are set.
+ * Must be called inside a record update.
+ */
+export function applyTaskSnapshot(task: Task, snapshot: SyncSnapshot): void {
+    const has = (field: string) => snapshot[field] !== undefined;
+
+    if (has('title')) {
+        task.title = (snapshot.title as string) || '';
+    }
+    if (has('description')) {
+        task.description = (snapshot.description as string) ?? undefined;
+    }
+    if (has('priority')) {
+        task.priority = (snapshot.priority as string) ?? undefined;
+    }
+    if (has('estimated_duration_minutes')) {
+        task.estimatedDurationMinutes = (snapshot.estimated_duration_minutes as number) ?? undefined;
+    }
+    if (has('due_date')) {
+        task.dueDate = snapshot.due_date ? new Date(snapshot.due_date as string) : undefined;
+    }
+    if (has('goal_id')) {
+        task.goalId = (snapshot.goal_id as string) ?? undefined;
+    }
+    if (has('is_today_focus')) {
+        task.isTodayFocus = !!snapshot.is_today_focus;
+    }
+    if (has('status') && isTaskLifecycleStatus(snapshot.status)) {
+        task.lifecycleStatus = snapshot.status;
+    }
+    if (has('recurrence_pattern')) {
+        task.recurrencePatternJson = (snapshot.recurrence_pattern as string) ?? null;
+    }
+}
+
+/**
+ * Write snapshot fields back to a goal. Only fields present in the snapshot are set.
+ * Must be called inside a record update.
+ */
+export function applyGoalSnapshot(goal: Goal, snapshot: SyncSnapshot): void {
+    const has = (field: string) => snapshot[field] !== undefined;
+
+    if (has('title')) {
+        goal.title = (snapshot.title as string) || '';
+    }
+    if (has('description')) {
+        goal.description = (snapshot.description as string) ?? undefined;
+    }
+    if (has('target_completion_date')) {
+        goal.targetCompletionDate = snapshot.target_completion_date
+            ? new Date(snapshot.target_completion_date as string)
+            : undefined;
+    }
+    if (has('progress_percentage')) {
+        goal.progressPercentage = (snapshot.progress_percentage as number) ?? undefined;
+    }
+    if (has('category')) {
+        goal.category = (snapshot.category as string) ?? undefined;
+    }
+    if (has('is_active')) {
+        goal.isActive = (snapshot.is_active as boolean) ?? undefined;
+    }
+}
+
+export function serializeSnapshot(snapshot: SyncSnapshot): string {
+    return JSON.stringify(snapshot);
+}
+
+export function parseSnapshot(json: string | null | undefined): SyncSnapshot | null {
+    if (!json) {
+        return null;
+    }
+    try {
+        const parsed = JSON.parse(json);
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Merge local and server snapshots against their common base.
+ * - Same value on both sides, or only the local side changed: keep local
+ * - Only the server changed: take the server value
+ * - Both changed differently: conflict. The local value is kept and the field's base
+ *   is left as it was, so the field keeps conflicting until the user resolves it.
+ * A missing base (records synced before snapshots were stored) is treated as the
+ * server value, so local edits win as they did before.
+ * Fields the server snapshot omits are treated as unchanged on the server.
+ */
+export function mergeSnapshots(
+    base: SyncSnapshot | null,
+    local: SyncSnapshot,
+    server: SyncSnapshot,
+    fields: readonly string[]
+): MergeResult {
+    const merged: SyncSnapshot = {};
+    const nextBase: SyncSnapshot = {};
+    const conflicts: FieldConflict[] = [];
+
+    for (const field of fields) {
+        const localValue = local[field] ?? null;
+        const hasServerValue = server[field] !== undefined;
+        const baseValue = base && base[field] !== undefined
+            ? base[field]
+            : (hasServerValue ? server[field] : localValue);
+        const serverValue = hasServerValue ? server[field] : baseValue;
+
+        if (localValue === serverValue || serverValue === baseValue) {
+            merged[field] = localValue;
+            nextBase[field] = serverValue;
+        } else if (localValue === baseValue) {
+            merged[field] = serverValue;
+            nextBase[field] = serverValue;
+        } else {
+            conflicts.push({ field, base: baseValue, local: localValue, server: serverValue });
+            merged[field] = localValue;
+            nextBase[field] = baseValue;
+        }
+    }
+
+    return {
+        merged,
+        base: nextBase,
+        conflicts,
+        hasLocalChanges: fields.some(field => merged[field] !== nextBase[field]),
+    };
+}
+
+/**
+ * Whether a record's current values differ from its base snapshot
+ */
+export function hasChangesFromBase(current: SyncSnapshot, base: SyncSnapshot | null, fields: readonly string[]): boolean {
+    if (!base) {
+        return true;
+    }
+    return fields.some(field => (current[field] ?? null) !== (base[field] ?? null));
+}
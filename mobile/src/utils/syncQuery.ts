@@ -0,0 +1,29 @@
+/**
+ * Query strings for sync pulls: the `since` cursor and keyset page params.
+ */
+
+// A paged response also carries next_cursor when another page follows
+export interface PageParams {
+    limit: number;
+    cursor?: string | null;
+}
+
+/**
+ * Appends `since` and page params to a URL that may already have a query string.
+ */
+export function withSyncParams(url: string, since?: string | null, page?: PageParams): string {
+    const params: string[] = [];
+    if (since) {
+        params.push(`since=${encodeURIComponent(since)}`);
+    }
+    if (page) {
+        params.push(`limit=${page.limit}`);
+        if (page.cursor) {
+            params.push(`cursor=${encodeURIComponent(page.cursor)}`);
+        }
+    }
+    if (params.length === 0) {
+        return url;
+    }
+    return `${url}${url.includes('?') ? '&' : '?'}${params.join('&')}`;
+}
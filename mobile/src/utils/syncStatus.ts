@@ -0,0 +1,96 @@
+/**
+ * Sync status
+ * The state SyncService reports to screens: what it is doing, what is waiting to be pushed,
+ * which records failed to push, and how the last sync went. The outcome of the last sync is
+ * persisted so it survives an app restart.
+ */
+
+import { OutboxTable } from './outbox';
+import { PullProgress } from './pullCursors';
+
+export type SyncPhase = 'idle' | 'pushing' | 'pulling';
+
+export type TableCounts = Partial<Record<OutboxTable, number>>;
+
+// Persisted outcome of past syncs
+export interface SyncHealth {
+    lastSuccessAt: string | null;
+    lastFailureAt: string | null;
+    lastError: string | null;
+}
+
+export interface SyncStatus extends SyncHealth {
+    phase: SyncPhase;
+    pullProgress: PullProgress | null;
+    // Queued outbox operations per table
+    pendingCounts: TableCounts;
+    // Records in a sync_failed_* state per table
+    failedCounts: TableCounts;
+}
+
+const MAX_ERROR_LENGTH = 500;
+
+export const EMPTY_SYNC_HEALTH: SyncHealth = {
+    lastSuccessAt: null,
+    lastFailureAt: null,
+    lastError: null,
+};
+
+export const INITIAL_SYNC_STATUS: SyncStatus = {
+    ...EMPTY_SYNC_HEALTH,
+    phase: 'idle',
+    pullProgress: null,
+    pendingCounts: {},
+    failedCounts: {},
+};
+
+export function parseSyncHealth(value: string | null | undefined): SyncHealth {
+    if (!value) {
+        return EMPTY_SYNC_HEALTH;
+    }
+    try {
+        const parsed = JSON.parse(value);
+        return {
+            lastSuccessAt: typeof parsed?.lastSuccessAt === 'string' ? parsed.lastSuccessAt : null,
+            lastFailureAt: typeof parsed?.lastFailureAt === 'string' ? parsed.lastFailureAt : null,
+            lastError: typeof parsed?.lastError === 'string' ? parsed.lastError : null,
+        };
+    } catch {
+        return EMPTY_SYNC_HEALTH;
+    }
+}
+
+/**
+ * A short, storable message for any thrown value.
+ */
+export function describeSyncError(error: any): string {
+    const message = error instanceof Error ? error.message : String(error?.message ?? error ?? 'Unknown error');
+    return message.slice(0, MAX_ERROR_LENGTH);
+}
+
+/**
+ * Records the outcome of a sync. A success keeps the last failure for reference but clears its error.
+ * @param error - The error the sync failed with, or null if it succeeded
+ */
+export function recordSyncResult(health: SyncHealth, error: any, now: Date = new Date()): SyncHealth {
+    if (error === null || error === undefined) {
+        return { ...health, lastSuccessAt: now.toISOString(), lastError: null };
+    }
+    return { ...health, lastFailureAt: now.toISOString(), lastError: describeSyncError(error) };
+}
+
+export function isFailedSyncState(state: string | null | undefined): boolean {
+    return Boolean(state && state.startsWith('sync_failed'));
+}
+
+export function countByTable(tableNames: string[]): TableCounts {
+    const counts: Record<string, number> = {};
+    for (const tableName of tableNames) {
+        counts[tableName] = (counts[tableName] || 0) + 1;
+    }
+    return counts as TableCounts;
+}
+
+export function totalCount(counts: TableCounts): number {
+    return Object.values(counts).reduce<number>((sum, count) => sum + (count || 0), 0);
+}
@@ -0,0 +1,74 @@
+/**
+ * Task dependency rules
+ * A link { taskId, dependsOnTaskId } means taskId is blocked until dependsOnTaskId is
+ * completed. Mirrors backend/src/utils/taskDependencyGraph.js so the app rejects the same
+ * cycles the server does and can tell which tasks are blocked while offline.
+ */
+
+export interface DependencyLink {
+    taskId: string;
+    dependsOnTaskId: string;
+}
+
+export interface DependencyTask {
+    id: string;
+    status: string;
+}
+
+/**
+ * Whether adding "taskId depends on dependsOnTaskId" would close a cycle, i.e. whether
+ * dependsOnTaskId already depends on taskId directly or through other tasks.
+ */
+export function wouldCreateCycle(links: DependencyLink[], taskId: string, dependsOnTaskId: string): boolean {
+    if (taskId === dependsOnTaskId) {
+        return true;
+    }
+
+    const dependsOn = new Map<string, string[]>();
+    links.forEach(link => {
+        dependsOn.set(link.taskId, [...(dependsOn.get(link.taskId) || []), link.dependsOnTaskId]);
+    });
+
+    const visited = new Set<string>();
+    const stack = [dependsOnTaskId];
+    while (stack.length > 0) {
+        const current = stack.pop()!;
+        if (current === taskId) {
+            return true;
+        }
+        if (visited.has(current)) {
+            continue;
+        }
+        visited.add(current);
+        stack.push(...(dependsOn.get(current) || []));
+    }
+    return false;
+}
+
+/**
+ * Maps each blocked task to the IDs of its prerequisites that are not completed yet.
+ * Links to tasks that no longer exist are ignored.
+ */
+export function getOpenBlockers(links: DependencyLink[], tasks: DependencyTask[]): Map<string, string[]> {
+    const statusById = new Map(tasks.map(task => [task.id, task.status]));
+    const blockers = new Map<string, string[]>();
+    links.forEach(link => {
+        const status = statusById.get(link.dependsOnTaskId);
+        if (status === undefined || status === 'completed') {
+            return;
+        }
+        blockers.set(link.taskId, [...(blockers.get(link.taskId) || []), link.dependsOnTaskId]);
+    });
+    return blockers;
+}
+
+/**
+ * "Blocked by Buy paint, Call landlord" for a task's open blockers, or null if it isn't blocked.
+ */
+export function describeBlockers(blockerIds: string[] | undefined, titleById: Map<string, string>): string | null {
+    if (!blockerIds || blockerIds.length === 0) {
+        return null;
+    }
+    const titles = blockerIds.map(id => titleById.get(id) || 'another task');
+    return `Blocked by ${titles.join(', ')}`;
+}
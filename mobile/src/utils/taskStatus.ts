@@ -0,0 +1,44 @@
+/**
+ * Task status helpers
+ * A task carries two independent statuses: the user-facing lifecycle
+ * (not_started/in_progress/completed) and the sync state used by SyncService.
+ */
+
+export type TaskLifecycleStatus = 'not_started' | 'in_progress' | 'completed';
+
+export type TaskSyncState =
+  | 'synced'
+  | 'pending_create'
+  | 'pending_update'
+  | 'pending_delete'
+  | 'sync_failed_create'
+  | 'sync_failed_update'
+  | 'sync_failed_delete';
+
+export const TASK_LIFECYCLE_STATUSES: TaskLifecycleStatus[] = ['not_started', 'in_progress', 'completed'];
+
+export const isTaskLifecycleStatus = (value: unknown): value is TaskLifecycleStatus =>
+  typeof value === 'string' && (TASK_LIFECYCLE_STATUSES as string[]).includes(value);
+
+/**
+ * Returns the sync state a task should move to after a local edit.
+ * Tasks that were never created on the server stay as creates.
+ */
+export const getPendingSyncState = (current: TaskSyncState | undefined | null): TaskSyncState =>
+  current === 'pending_create' || current === 'sync_failed_create' ? 'pending_create' : 'pending_update';
+
+/**
+ * Returns the sync state a task should move to after a failed push.
+ */
+export const getFailedSyncState = (current: TaskSyncState | undefined | null): TaskSyncState => {
+  switch (current) {
+    case 'pending_create':
+    case 'sync_failed_create':
+      return 'sync_failed_create';
+    case 'pending_delete':
+    case 'sync_failed_delete':
+      return 'sync_failed_delete';
+    default:
+      return 'sync_failed_update';
+  }
+};
@@ -0,0 +1,126 @@
+/**
+ * Time grid layout for the calendar day and week views
+ * Places timed events by minutes from midnight, puts overlapping events side by side and turns
+ * drag distances into snapped start and end times.
+ */
+
+import { addDays, addMinutes, differenceInMinutes, startOfDay } from 'date-fns';
+
+export const MINUTES_PER_DAY = 24 * 60;
+export const SNAP_MINUTES = 15;
+export const MIN_EVENT_MINUTES = 15;
+
+export interface TimedItem {
+    id: string;
+    start: Date;
+    end: Date;
+}
+
+export interface EventLayout {
+    id: string;
+    dayIndex: number;
+    top: number; // minutes from midnight
+    height: number; // minutes
+    column: number;
+    columns: number;
+    // Whether the event's start/end falls on this day (multi-day events are split per day)
+    startsToday: boolean;
+    endsToday: boolean;
+}
+
+export type DragMode = 'move' | 'resize';
+
+export const snapToStep = (minutes: number, step: number = SNAP_MINUTES): number =>
+    Math.round(minutes / step) * step;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+// The day an end time belongs to: an event ending exactly at midnight ends on the day before
+const endDayOf = (end: Date): Date => startOfDay(addMinutes(end, -1));
+
+/**
+ * Lays out events over `days` (one column per day). An event is clipped to every day it covers.
+ * Within a day, events that overlap form a cluster and share its width: each event takes the
+ * first column that is free at its start, and the cluster is as wide as its column count.
+ */
+export function layoutTimeGrid(items: TimedItem[], days: Date[]): EventLayout[] {
+    const layouts: EventLayout[] = [];
+
+    days.forEach((day, dayIndex) => {
+        const dayStart = startOfDay(day);
+        const dayEnd = addDays(dayStart, 1);
+
+        const segments = items
+            .filter(item => item.start < dayEnd && (item.end > dayStart || (item.end <= item.start && item.start >= dayStart)))
+            .map(item => {
+                const top = Math.max(0, differenceInMinutes(item.start, dayStart));
+                const bottom = Math.min(MINUTES_PER_DAY, differenceInMinutes(item.end, dayStart));
+                // Short and zero-length events still get a usable height
+                const height = Math.max(bottom - top, MIN_EVENT_MINUTES);
+                return {
+                    id: item.id,
+                    top: Math.min(top, MINUTES_PER_DAY - MIN_EVENT_MINUTES),
+                    height,
+                    startsToday: item.start >= dayStart,
+                    endsToday: item.end <= dayEnd,
+                };
+            })
+            .sort((a, b) => a.top - b.top || b.height - a.height);
+
+        let cluster: EventLayout[] = [];
+        let columnBottoms: number[] = [];
+        let clusterBottom = -1;
+
+        const closeCluster = () => {
+            cluster.forEach(layout => {
+                layout.columns = columnBottoms.length;
+            });
+            layouts.push(...cluster);
+            cluster = [];
+            columnBottoms = [];
+        };
+
+        segments.forEach(segment => {
+            if (segment.top >= clusterBottom) {
+                closeCluster();
+            }
+            let column = columnBottoms.findIndex(bottom => bottom <= segment.top);
+            if (column === -1) {
+                column = columnBottoms.length;
+            }
+            columnBottoms[column] = segment.top + segment.height;
+            clusterBottom = Math.max(cluster.length > 0 ? clusterBottom : 0, segment.top + segment.height);
+            cluster.push({ ...segment, dayIndex, column, columns: 1 });
+        });
+        closeCluster();
+    });
+
+    return layouts;
+}
+
+/**
+ * New times for an event dragged by `deltaMinutes` (and `dayDelta` columns in the week view).
+ * Moving keeps the duration and snaps the start; resizing snaps the end and keeps at least
+ * MIN_EVENT_MINUTES. Either way the change stays within the day it lands on.
+ */
+export function applyDrag(
+    start: Date,
+    end: Date,
+    mode: DragMode,
+    deltaMinutes: number,
+    dayDelta: number = 0
+): { start: Date; end: Date } {
+    if (mode === 'move') {
+        const duration = Math.max(differenceInMinutes(end, start), 0);
+        const dayStart = startOfDay(addDays(start, dayDelta));
+        const latestStart = MINUTES_PER_DAY - clamp(duration, MIN_EVENT_MINUTES, MINUTES_PER_DAY);
+        const startMinutes = clamp(snapToStep(differenceInMinutes(start, startOfDay(start)) + deltaMinutes), 0, latestStart);
+        const nextStart = addMinutes(dayStart, startMinutes);
+        return { start: nextStart, end: addMinutes(nextStart, duration) };
+    }
+
+    const dayStart = end > start ? endDayOf(end) : startOfDay(start);
+    const earliestEnd = Math.max(0, differenceInMinutes(start, dayStart)) + MIN_EVENT_MINUTES;
+    const endMinutes = clamp(snapToStep(differenceInMinutes(end, dayStart) + deltaMinutes), earliestEnd, MINUTES_PER_DAY);
+    return { start, end: addMinutes(dayStart, endMinutes) };
+}